@@ -19,10 +19,13 @@ import { UpdateAdminChargeDto } from './dto/update-admin-charge.dto';
 import { AdminChargeStatus } from './entities/admin-charge.entity';
 import { GetHostelId } from '../hostel/decorators/hostel-context.decorator';
 import { HostelAuthWithContextGuard } from '../auth/guards/hostel-auth-with-context.guard';
+import { RolesGuard } from '../staff-roles/guards/roles.guard';
+import { Permissions } from '../staff-roles/decorators/permissions.decorator';
+import { Permission } from '../staff-roles/permissions';
 
 @ApiTags('admin-charges')
 @Controller('admin-charges')
-@UseGuards(HostelAuthWithContextGuard)
+@UseGuards(HostelAuthWithContextGuard, RolesGuard)
 @ApiBearerAuth()
 export class AdminChargesController {
   constructor(private readonly adminChargesService: AdminChargesService) {}
@@ -298,6 +301,7 @@ export class AdminChargesController {
   }
 
   @Post('bulk-delete')
+  @Permissions(Permission.ADMIN_CHARGES_DELETE)
   async bulkDeleteCharges(@GetHostelId() hostelId: string, @Body() bulkData: { chargeIds: string[] }) {
     try {
       for (const chargeId of bulkData.chargeIds) {
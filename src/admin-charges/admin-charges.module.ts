@@ -9,6 +9,7 @@ import { Hostel } from '../hostel/entities/hostel.entity';
 import { AuthModule } from '../auth/auth.module';
 import { HostelModule } from '../hostel/hostel.module';
 import { NotificationModule } from '../notification/notification.module';
+import { StaffRolesModule } from '../staff-roles/staff-roles.module';
 
 @Module({
   imports: [
@@ -17,6 +18,7 @@ import { NotificationModule } from '../notification/notification.module';
     AuthModule,
     HostelModule,
     NotificationModule,
+    StaffRolesModule,
   ],
   controllers: [AdminChargesController],
   providers: [AdminChargesService],
@@ -4,13 +4,14 @@ import {
   BadRequestException,
 } from "@nestjs/common";
 import { InjectRepository } from "@nestjs/typeorm";
-import { Repository } from "typeorm";
+import { DataSource, Repository } from "typeorm";
 import { AdminCharge, AdminChargeStatus } from "./entities/admin-charge.entity";
 import { CreateAdminChargeDto } from "./dto/create-admin-charge.dto";
 import { UpdateAdminChargeDto } from "./dto/update-admin-charge.dto";
 import { Student, StudentStatus } from "../students/entities/student.entity";
 import { LedgerV2Service } from "../ledger-v2/services/ledger-v2.service";
 import { UnifiedNotificationService } from "../notification/unified-notification.service";
+import { NotificationTemplateKey } from "../notification/templates/default-notification-templates";
 import { JwtPayload } from "../auth/interfaces/jwt-payload.interface";
 
 @Injectable()
@@ -22,6 +23,7 @@ export class AdminChargesService {
     private studentRepository: Repository<Student>,
     private ledgerService: LedgerV2Service,
     private unifiedNotificationService: UnifiedNotificationService,
+    private dataSource: DataSource,
   ) { }
 
   async create(
@@ -55,69 +57,44 @@ export class AdminChargesService {
         : null,
     });
 
-    // Save the charge first
-    const savedCharge = await this.adminChargeRepository.save(adminCharge);
-
-    // 🔧 AUTO-APPLY: Automatically apply charge to ledger upon creation
+    // 🔧 AUTO-APPLY: The charge, its ledger debit and the student's
+    // notification are committed together or not at all
     try {
-      // Create ledger entry using LedgerV2Service
-      await this.ledgerService.createAdminChargeEntry(savedCharge);
-
-      // Update charge status to APPLIED
-      savedCharge.status = AdminChargeStatus.APPLIED;
-      savedCharge.appliedDate = new Date();
-
-      const finalCharge = await this.adminChargeRepository.save(savedCharge);
-
-      // 🔔 NEW: Send charge notification to student
-      console.log(`\n🔔 CHECKING NOTIFICATION CONDITIONS:`);
-      console.log(`   adminJwt exists: ${!!adminJwt}`);
-      console.log(`   student.userId exists: ${!!student.userId}`);
-      console.log(`   student.userId value: ${student.userId}`);
-      console.log(`   finalCharge.status: ${finalCharge.status}`);
-      console.log(`   AdminChargeStatus.APPLIED: ${AdminChargeStatus.APPLIED}`);
-      
-      if (adminJwt && student.userId && finalCharge.status === AdminChargeStatus.APPLIED) {
-        try {
-          console.log(`💰 CHARGE NOTIFICATION START - Charge ID: ${finalCharge.id}`);
-          console.log(`👤 Student: ${student.name} (${student.id})`);
-          console.log(`💵 Amount: NPR ${finalCharge.amount}`);
-          console.log(`📋 Charge Type: ${finalCharge.chargeType}`);
-          
-          await this.unifiedNotificationService.sendToUser({
+      return await this.dataSource.transaction(async manager => {
+        const savedCharge = await manager.save(adminCharge);
+
+        await this.ledgerService.createAdminChargeEntry(savedCharge, manager);
+
+        savedCharge.status = AdminChargeStatus.APPLIED;
+        savedCharge.appliedDate = new Date();
+        const applied = await manager.save(savedCharge);
+
+        if (adminJwt && student.userId) {
+          await this.unifiedNotificationService.sendTemplateToUser({
             userId: student.userId,
-            title: 'New Charge Added',
-            message: `A charge of NPR ${Number(finalCharge.amount).toLocaleString()} has been added to your account for ${finalCharge.chargeType || 'miscellaneous'}.`,
-            type: 'ADMIN_CHARGE',
+            hostelId: student.hostelId,
+            template: NotificationTemplateKey.ADMIN_CHARGE_ADDED,
+            variables: {
+              currency: 'NPR',
+              amount: Number(applied.amount).toLocaleString(),
+              chargeType: applied.chargeType || 'miscellaneous'
+            },
             metadata: {
-              chargeId: finalCharge.id,
-              amount: finalCharge.amount,
-              chargeType: finalCharge.chargeType,
-              category: finalCharge.category,
-              description: finalCharge.description,
-              dueDate: finalCharge.dueDate,
+              chargeId: applied.id,
+              amount: applied.amount,
+              chargeType: applied.chargeType,
+              category: applied.category,
+              description: applied.description,
+              dueDate: applied.dueDate,
               studentId: student.id,
               studentName: student.name
             }
-          }, adminJwt);
-          
-          console.log(`✅ CHARGE NOTIFICATION SENT SUCCESSFULLY`);
-        } catch (notifError) {
-          console.log(`❌ CHARGE NOTIFICATION FAILED: ${notifError.message}`);
-          console.error(notifError);
-          // Don't let notification failure cause charge creation rollback
+          }, adminJwt, undefined, manager);
         }
-      } else {
-        console.log(`⚠️ NOTIFICATION SKIPPED - Conditions not met`);
-        if (!adminJwt) console.log(`   ❌ No adminJwt`);
-        if (!student.userId) console.log(`   ❌ No student.userId`);
-        if (finalCharge.status !== AdminChargeStatus.APPLIED) console.log(`   ❌ Status is not APPLIED`);
-      }
-
-      return finalCharge;
+
+        return applied;
+      });
     } catch (error) {
-      // If ledger application fails, delete the charge to maintain consistency
-      await this.adminChargeRepository.remove(savedCharge);
       throw new BadRequestException(`Failed to apply charge to ledger: ${error.message}`);
     }
   }
@@ -29,6 +29,16 @@ import { AttendanceModule } from './attendance/attendance.module';
 import { HostelContextMiddleware } from './hostel/middleware/hostel-context.middleware';
 import { PlaygroundModule } from './playground/playground.module';
 import { ExpensesModule } from './expenses/expenses.module';
+import { SchedulerModule } from './scheduler/scheduler.module';
+import { StaffRolesModule } from './staff-roles/staff-roles.module';
+import { AuditModule } from './audit/audit.module';
+import { PaymentGatewaysModule } from './payment-gateways/payment-gateways.module';
+import { RefundsModule } from './refunds/refunds.module';
+import { BankStatementsModule } from './bank-statements/bank-statements.module';
+import { WaitlistModule } from './waitlist/waitlist.module';
+import { RoomTransfersModule } from './room-transfers/room-transfers.module';
+import { LeaveRequestsModule } from './leave-requests/leave-requests.module';
+import { LateFeesModule } from './late-fees/late-fees.module';
 
 @Module({
   imports: [
@@ -65,6 +75,16 @@ import { ExpensesModule } from './expenses/expenses.module';
     AttendanceModule,
     PlaygroundModule, // Playground module
     ExpensesModule,
+    SchedulerModule,
+    StaffRolesModule,
+    AuditModule,
+    PaymentGatewaysModule,
+    RefundsModule,
+    BankStatementsModule,
+    WaitlistModule,
+    RoomTransfersModule,
+    LeaveRequestsModule,
+    LateFeesModule,
   ],
   controllers: [AppController],
   providers: [AppService],
@@ -91,7 +111,17 @@ export class AppModule implements NestModule {
         'dashboard',    // Added for hostel context isolation
         'analytics',     // Added for hostel context isolation
         'playground', // Playground module
-        'expenses'
+        'expenses',
+        'scheduler',
+        'staff-roles',
+        'audit',
+        'payment-gateways',
+        'refunds',
+        'bank-statements',
+        'waitlist',
+        'room-transfers',
+        'leave-requests',
+        'late-fees'
       );
   }
 }
\ No newline at end of file
@@ -0,0 +1,106 @@
+import { ForbiddenException } from '@nestjs/common';
+import { AttendancePresenceService } from './attendance-presence.service';
+import {
+  AttendanceAttemptAction,
+  PresenceRejectionReason,
+  AttemptReviewStatus
+} from './entities/rejected-attendance-attempt.entity';
+
+describe('AttendancePresenceService', () => {
+  let service: AttendancePresenceService;
+
+  const policy = (overrides: any = {}) => ({
+    hostelId: 'hostel-1',
+    requireQrCode: true,
+    qrRotationSeconds: 60,
+    requireLocation: false,
+    latitude: 27.7172,
+    longitude: 85.324,
+    geofenceRadiusMeters: 150,
+    maxLocationAccuracyMeters: 100,
+    ...overrides
+  });
+
+  const mockPolicyRepository = {
+    findOne: jest.fn(),
+    create: jest.fn(data => ({ ...data })),
+    save: jest.fn(async data => data),
+  };
+
+  const mockRejectedAttemptRepository = {
+    save: jest.fn(async attempt => ({ id: 'attempt-1', ...attempt })),
+  };
+
+  const mockConfigService = {
+    get: jest.fn((key: string) => (key === 'ATTENDANCE_QR_SECRET' ? 'test-secret' : undefined)),
+  };
+
+  const now = new Date('2025-11-03T08:00:30Z');
+
+  beforeEach(() => {
+    service = new AttendancePresenceService(
+      mockPolicyRepository as any,
+      mockRejectedAttemptRepository as any,
+      mockConfigService as any
+    );
+    mockPolicyRepository.findOne.mockResolvedValue(policy());
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should accept the current gate code and the one just rotated out', async () => {
+    const { qrCode, expiresAt } = await service.generateQrCode('hostel-1', now);
+
+    await expect(service.verifyPresence('hostel-1', 'student-1', AttendanceAttemptAction.CHECK_IN, { qrCode }, now))
+      .resolves.toEqual(expect.objectContaining({ verified: true }));
+    await expect(service.verifyPresence('hostel-1', 'student-1', AttendanceAttemptAction.CHECK_IN, { qrCode }, expiresAt))
+      .resolves.toEqual(expect.objectContaining({ verified: true }));
+    expect(mockRejectedAttemptRepository.save).not.toHaveBeenCalled();
+  });
+
+  it('should store and refuse expired or forged codes', async () => {
+    const { qrCode } = await service.generateQrCode('hostel-1', now);
+    const later = new Date(now.getTime() + 3 * 60 * 1000);
+
+    await expect(service.verifyPresence('hostel-1', 'student-1', AttendanceAttemptAction.CHECK_IN, { qrCode }, later))
+      .rejects.toThrow(ForbiddenException);
+    expect(mockRejectedAttemptRepository.save).toHaveBeenLastCalledWith(expect.objectContaining({
+      reasons: [PresenceRejectionReason.QR_CODE_EXPIRED],
+      reviewStatus: AttemptReviewStatus.PENDING
+    }));
+
+    const otherHostel = await service.generateQrCode('hostel-2', now);
+    await expect(service.verifyPresence('hostel-1', 'student-1', AttendanceAttemptAction.CHECK_IN, { qrCode: otherHostel.qrCode }, now))
+      .rejects.toThrow(ForbiddenException);
+    expect(mockRejectedAttemptRepository.save).toHaveBeenLastCalledWith(expect.objectContaining({
+      reasons: [PresenceRejectionReason.QR_CODE_INVALID]
+    }));
+  });
+
+  it('should refuse coordinates outside the geofence with the distance for review', async () => {
+    mockPolicyRepository.findOne.mockResolvedValue(policy({ requireQrCode: false, requireLocation: true }));
+
+    await expect(service.verifyPresence('hostel-1', 'student-1', AttendanceAttemptAction.CHECK_OUT, {
+      latitude: 27.7172,
+      longitude: 85.3240
+    }, now)).resolves.toEqual({ verified: true, distanceMeters: 0 });
+
+    await expect(service.verifyPresence('hostel-1', 'student-1', AttendanceAttemptAction.CHECK_OUT, {
+      latitude: 27.7272,
+      longitude: 85.324,
+      accuracy: 10
+    }, now)).rejects.toThrow(ForbiddenException);
+
+    const attempt = mockRejectedAttemptRepository.save.mock.calls[0][0];
+    expect(attempt.reasons).toEqual([PresenceRejectionReason.OUTSIDE_GEOFENCE]);
+    expect(attempt.distanceMeters).toBeCloseTo(1112, -1);
+
+    await expect(service.verifyPresence('hostel-1', 'student-1', AttendanceAttemptAction.CHECK_OUT, {}, now))
+      .rejects.toThrow(ForbiddenException);
+    expect(mockRejectedAttemptRepository.save).toHaveBeenLastCalledWith(expect.objectContaining({
+      reasons: [PresenceRejectionReason.LOCATION_MISSING]
+    }));
+  });
+});
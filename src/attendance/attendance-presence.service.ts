@@ -0,0 +1,276 @@
+import { Injectable, Logger, NotFoundException, BadRequestException, ForbiddenException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Repository, Between, MoreThanOrEqual, LessThanOrEqual, FindOptionsWhere } from 'typeorm';
+import * as crypto from 'crypto';
+import { AttendancePresencePolicy } from './entities/attendance-presence-policy.entity';
+import {
+  RejectedAttendanceAttempt,
+  AttendanceAttemptAction,
+  PresenceRejectionReason,
+  AttemptReviewStatus
+} from './entities/rejected-attendance-attempt.entity';
+import { PresenceProofDto, UpdatePresencePolicyDto, RejectedAttemptFiltersDto, ReviewRejectedAttemptDto } from './dto';
+
+const QR_CODE_VERSION = 'v1';
+const EARTH_RADIUS_METERS = 6371000;
+
+/**
+ * Attendance Presence Service
+ * Checks that a student checking themselves in or out is actually at the
+ * hostel, according to the hostel's presence policy:
+ * - QR: the gate screen shows a code signed for the hostel and the current
+ *   rotation window; the previous window is still accepted so a code scanned
+ *   just before it rotates does not fail
+ * - GPS: coordinates are compared with the geofence circle
+ * Failed attempts are stored for warden review before the request is refused.
+ */
+@Injectable()
+export class AttendancePresenceService {
+  private readonly logger = new Logger(AttendancePresenceService.name);
+
+  constructor(
+    @InjectRepository(AttendancePresencePolicy)
+    private policyRepository: Repository<AttendancePresencePolicy>,
+
+    @InjectRepository(RejectedAttendanceAttempt)
+    private rejectedAttemptRepository: Repository<RejectedAttendanceAttempt>,
+
+    private configService: ConfigService,
+  ) {}
+
+  async getPolicy(hostelId: string) {
+    const policy = await this.policyRepository.findOne({ where: { hostelId } });
+    return policy || this.policyRepository.create({
+      hostelId,
+      requireQrCode: false,
+      qrRotationSeconds: 60,
+      requireLocation: false,
+      latitude: null,
+      longitude: null,
+      geofenceRadiusMeters: 150,
+      maxLocationAccuracyMeters: 100
+    });
+  }
+
+  async savePolicy(hostelId: string, updateDto: UpdatePresencePolicyDto) {
+    if (!hostelId) {
+      throw new BadRequestException('Hostel context required');
+    }
+
+    const policy = await this.getPolicy(hostelId);
+    Object.assign(policy, updateDto);
+
+    const hasLatitude = policy.latitude !== null && policy.latitude !== undefined;
+    const hasLongitude = policy.longitude !== null && policy.longitude !== undefined;
+    if (hasLatitude !== hasLongitude) {
+      throw new BadRequestException('Geofence needs both latitude and longitude');
+    }
+    if (policy.requireLocation && !hasLatitude) {
+      throw new BadRequestException('Set the geofence centre before requiring location');
+    }
+
+    const saved = await this.policyRepository.save(policy);
+    this.logger.log(`📍 Presence policy updated for hostel ${hostelId}: QR ${saved.requireQrCode ? 'required' : 'optional'}, location ${saved.requireLocation ? 'required' : 'optional'}`);
+    return saved;
+  }
+
+  /**
+   * Code for the gate screen; it should refresh at `expiresAt`
+   */
+  async generateQrCode(hostelId: string, now: Date = new Date()) {
+    const policy = await this.getPolicy(hostelId);
+    const rotationMs = policy.qrRotationSeconds * 1000;
+    const window = Math.floor(now.getTime() / rotationMs);
+
+    return {
+      qrCode: `${QR_CODE_VERSION}.${window}.${this.sign(hostelId, policy.qrRotationSeconds, window)}`,
+      issuedAt: new Date(window * rotationMs),
+      expiresAt: new Date((window + 1) * rotationMs),
+      rotationSeconds: policy.qrRotationSeconds
+    };
+  }
+
+  /**
+   * Throws ForbiddenException (after storing the attempt) when the proof does
+   * not satisfy the hostel's policy
+   */
+  async verifyPresence(
+    hostelId: string,
+    studentId: string,
+    action: AttendanceAttemptAction,
+    proof: PresenceProofDto,
+    now: Date = new Date()
+  ) {
+    const policy = await this.getPolicy(hostelId);
+    const reasons: PresenceRejectionReason[] = [];
+
+    if (proof.qrCode) {
+      const qrReason = this.checkQrCode(hostelId, policy.qrRotationSeconds, proof.qrCode, now);
+      if (qrReason) {
+        reasons.push(qrReason);
+      }
+    } else if (policy.requireQrCode) {
+      reasons.push(PresenceRejectionReason.QR_CODE_MISSING);
+    }
+
+    const hasLocation = proof.latitude !== undefined && proof.latitude !== null &&
+      proof.longitude !== undefined && proof.longitude !== null;
+    const hasGeofence = policy.latitude !== null && policy.latitude !== undefined &&
+      policy.longitude !== null && policy.longitude !== undefined;
+    let distanceMeters: number = null;
+
+    if (hasLocation && hasGeofence) {
+      distanceMeters = distanceInMeters(
+        Number(policy.latitude), Number(policy.longitude),
+        Number(proof.latitude), Number(proof.longitude)
+      );
+
+      if (proof.accuracy !== undefined && proof.accuracy !== null && proof.accuracy > policy.maxLocationAccuracyMeters) {
+        reasons.push(PresenceRejectionReason.LOCATION_INACCURATE);
+      } else if (distanceMeters > policy.geofenceRadiusMeters) {
+        reasons.push(PresenceRejectionReason.OUTSIDE_GEOFENCE);
+      }
+    } else if (!hasLocation && policy.requireLocation) {
+      reasons.push(PresenceRejectionReason.LOCATION_MISSING);
+    }
+
+    if (reasons.length === 0) {
+      return { verified: true, distanceMeters: distanceMeters !== null ? roundMeters(distanceMeters) : null };
+    }
+
+    const attempt = await this.rejectedAttemptRepository.save({
+      hostelId,
+      studentId,
+      action,
+      reasons,
+      qrCodeSent: !!proof.qrCode,
+      latitude: hasLocation ? proof.latitude : null,
+      longitude: hasLocation ? proof.longitude : null,
+      accuracyMeters: proof.accuracy ?? null,
+      distanceMeters: distanceMeters !== null ? roundMeters(distanceMeters) : null,
+      reviewStatus: AttemptReviewStatus.PENDING
+    });
+
+    this.logger.warn(`🚫 ${action} rejected for student ${studentId}: ${reasons.join(', ')} (attempt ${attempt.id})`);
+
+    throw new ForbiddenException({
+      message: 'Could not verify that you are at the hostel',
+      reasons,
+      attemptId: attempt.id
+    });
+  }
+
+  async getRejectedAttempts(hostelId: string, filters: RejectedAttemptFiltersDto = {}) {
+    if (!hostelId) {
+      throw new BadRequestException('Hostel context required');
+    }
+
+    const { page = 1, limit = 10, reviewStatus, studentId, dateFrom, dateTo } = filters;
+    const where: FindOptionsWhere<RejectedAttendanceAttempt> = { hostelId };
+
+    if (reviewStatus) {
+      where.reviewStatus = reviewStatus;
+    }
+    if (studentId) {
+      where.studentId = studentId;
+    }
+    if (dateFrom && dateTo) {
+      where.createdAt = Between(new Date(`${dateFrom}T00:00:00`), new Date(`${dateTo}T23:59:59.999`));
+    } else if (dateFrom) {
+      where.createdAt = MoreThanOrEqual(new Date(`${dateFrom}T00:00:00`));
+    } else if (dateTo) {
+      where.createdAt = LessThanOrEqual(new Date(`${dateTo}T23:59:59.999`));
+    }
+
+    const [items, total] = await this.rejectedAttemptRepository.findAndCount({
+      where,
+      relations: ['student'],
+      order: { createdAt: 'DESC' },
+      skip: (page - 1) * limit,
+      take: limit
+    });
+
+    return {
+      items: items.map(attempt => ({
+        ...attempt,
+        student: attempt.student ? { id: attempt.student.id, name: attempt.student.name } : null
+      })),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit)
+      }
+    };
+  }
+
+  async reviewRejectedAttempt(id: string, hostelId: string, reviewDto: ReviewRejectedAttemptDto, reviewedBy: string) {
+    const attempt = await this.rejectedAttemptRepository.findOne({ where: { id, hostelId } });
+    if (!attempt) {
+      throw new NotFoundException(`Rejected attempt with ID ${id} not found`);
+    }
+    if (attempt.reviewStatus !== AttemptReviewStatus.PENDING) {
+      throw new BadRequestException(`Attempt was already reviewed (${attempt.reviewStatus})`);
+    }
+
+    attempt.reviewStatus = reviewDto.reviewStatus;
+    attempt.reviewNotes = reviewDto.notes || null;
+    attempt.reviewedBy = reviewedBy;
+    attempt.reviewedAt = new Date();
+
+    return this.rejectedAttemptRepository.save(attempt);
+  }
+
+  private checkQrCode(hostelId: string, rotationSeconds: number, qrCode: string, now: Date): PresenceRejectionReason | null {
+    const [version, windowPart, signature] = qrCode.split('.');
+    const window = Number(windowPart);
+
+    if (version !== QR_CODE_VERSION || !Number.isInteger(window) || !signature) {
+      return PresenceRejectionReason.QR_CODE_INVALID;
+    }
+
+    const expected = this.sign(hostelId, rotationSeconds, window);
+    if (signature.length !== expected.length ||
+      !crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected))) {
+      return PresenceRejectionReason.QR_CODE_INVALID;
+    }
+
+    const currentWindow = Math.floor(now.getTime() / (rotationSeconds * 1000));
+    if (window > currentWindow) {
+      return PresenceRejectionReason.QR_CODE_INVALID;
+    }
+    if (window < currentWindow - 1) {
+      return PresenceRejectionReason.QR_CODE_EXPIRED;
+    }
+
+    return null;
+  }
+
+  // The rotation length is signed too, so changing it invalidates codes on screen
+  private sign(hostelId: string, rotationSeconds: number, window: number): string {
+    const secret = this.configService.get<string>('ATTENDANCE_QR_SECRET') ||
+      this.configService.get<string>('JWT_SECRET_TOKEN');
+
+    return crypto
+      .createHmac('sha256', secret)
+      .update(['attendance-qr', hostelId, rotationSeconds, window].join('|'))
+      .digest('hex');
+  }
+}
+
+/**
+ * Great-circle distance (haversine)
+ */
+function distanceInMeters(lat1: number, lng1: number, lat2: number, lng2: number): number {
+  const toRadians = (degrees: number) => degrees * Math.PI / 180;
+  const dLat = toRadians(lat2 - lat1);
+  const dLng = toRadians(lng2 - lng1);
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.sqrt(a));
+}
+
+function roundMeters(meters: number): number {
+  return Math.round(meters * 100) / 100;
+}
@@ -1,7 +1,19 @@
-import { Controller, Post, Get, Body, Query, Param, UseGuards, NotFoundException, BadRequestException } from '@nestjs/common';
+import { Controller, Post, Get, Put, Body, Query, Param, UseGuards, NotFoundException, BadRequestException } from '@nestjs/common';
 import { ApiBearerAuth, ApiTags, ApiOperation, ApiQuery } from '@nestjs/swagger';
 import { AttendanceService } from './attendance.service';
-import { CheckInDto, CheckOutDto, StudentCheckInDto, StudentCheckOutDto, AttendanceFiltersDto } from './dto';
+import { AttendancePresenceService } from './attendance-presence.service';
+import { CurfewService } from './curfew.service';
+import {
+  CheckInDto,
+  CheckOutDto,
+  StudentCheckInDto,
+  StudentCheckOutDto,
+  AttendanceFiltersDto,
+  UpdatePresencePolicyDto,
+  RejectedAttemptFiltersDto,
+  ReviewRejectedAttemptDto
+} from './dto';
+import { AttendanceAttemptAction } from './entities/rejected-attendance-attempt.entity';
 import { HostelAuthWithContextGuard } from '../auth/guards/hostel-auth-with-context.guard';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { OptionalJwtAuthGuard } from '../auth/guards/optional-jwt-auth.guard';
@@ -10,12 +22,17 @@ import { CurrentUser } from '../auth/decorators/current-user.decorator';
 import { JwtPayload } from '../auth/interfaces/jwt-payload.interface';
 import { StudentsService } from '../students/students.service';
 import { HostelService } from '../hostel/hostel.service';
+import { RolesGuard } from '../staff-roles/guards/roles.guard';
+import { Permissions } from '../staff-roles/decorators/permissions.decorator';
+import { Permission } from '../staff-roles/permissions';
 
 @ApiTags('attendance')
 @Controller('attendance')
 export class AttendanceController {
   constructor(
     private readonly attendanceService: AttendanceService,
+    private readonly attendancePresenceService: AttendancePresenceService,
+    private readonly curfewService: CurfewService,
     private readonly studentsService: StudentsService,
     private readonly hostelService: HostelService
   ) {}
@@ -24,6 +41,7 @@ export class AttendanceController {
    * STUDENT: Check in using Business Token (auto-resolves studentId and hostelId)
    * POST /attendance/student/check-in
    * Requires Business Token with userId and businessId - both IDs auto-resolved
+   * Gate QR code and/or GPS location are checked against the hostel's presence policy
    */
   @Post('student/check-in')
   @UseGuards(JwtAuthGuard)
@@ -55,7 +73,10 @@ export class AttendanceController {
       );
     }
 
-    // Step 3: Check in using auto-resolved IDs
+    // Step 3: Proof of presence, when the hostel asks for it
+    await this.attendancePresenceService.verifyPresence(hostel.id, student.id, AttendanceAttemptAction.CHECK_IN, dto);
+
+    // Step 4: Check in using auto-resolved IDs
     return this.attendanceService.checkIn({
       studentId: student.id,
       hostelId: hostel.id,
@@ -68,7 +89,8 @@ export class AttendanceController {
    * POST /attendance/check-in
    */
   @Post('check-in')
-  @UseGuards(HostelAuthWithContextGuard)
+  @UseGuards(HostelAuthWithContextGuard, RolesGuard)
+  @Permissions(Permission.ATTENDANCE_RECORD)
   @ApiBearerAuth()
   async checkIn(@Body() checkInDto: CheckInDto) {
     return this.attendanceService.checkIn(checkInDto);
@@ -78,6 +100,7 @@ export class AttendanceController {
    * STUDENT: Check out using Business Token (auto-resolves studentId and hostelId)
    * POST /attendance/student/check-out
    * Requires Business Token with userId and businessId - both IDs auto-resolved
+   * Gate QR code and/or GPS location are checked against the hostel's presence policy
    */
   @Post('student/check-out')
   @UseGuards(JwtAuthGuard)
@@ -109,7 +132,10 @@ export class AttendanceController {
       );
     }
 
-    // Step 3: Check out using auto-resolved IDs
+    // Step 3: Proof of presence, when the hostel asks for it
+    await this.attendancePresenceService.verifyPresence(hostel.id, student.id, AttendanceAttemptAction.CHECK_OUT, dto);
+
+    // Step 4: Check out using auto-resolved IDs
     return this.attendanceService.checkOut({
       studentId: student.id,
       hostelId: hostel.id,
@@ -122,7 +148,8 @@ export class AttendanceController {
    * POST /attendance/check-out
    */
   @Post('check-out')
-  @UseGuards(HostelAuthWithContextGuard)
+  @UseGuards(HostelAuthWithContextGuard, RolesGuard)
+  @Permissions(Permission.ATTENDANCE_RECORD)
   @ApiBearerAuth()
   async checkOut(@Body() checkOutDto: CheckOutDto) {
     return this.attendanceService.checkOut(checkOutDto);
@@ -302,12 +329,102 @@ export class AttendanceController {
     return this.attendanceService.getSummaryReport(hostelId, dateFrom, dateTo);
   }
 
+  /**
+   * Get late-return report - students back after curfew or not back at all
+   * GET /attendance/reports/late-returns?dateFrom=xxx&dateTo=xxx&page=1&limit=50&search=John
+   */
+  @Get('reports/late-returns')
+  @UseGuards(HostelAuthWithContextGuard)
+  @ApiBearerAuth()
+  async getLateReturnReport(
+    @GetHostelId() hostelId: string,
+    @Query() filters: AttendanceFiltersDto
+  ) {
+    return this.curfewService.getLateReturnReport(hostelId, filters);
+  }
+
+  /**
+   * ADMIN: Get the hostel's presence policy for student check-in/check-out
+   * GET /attendance/presence-policy
+   */
+  @Get('presence-policy')
+  @UseGuards(HostelAuthWithContextGuard, RolesGuard)
+  @Permissions(Permission.ATTENDANCE_PRESENCE_MANAGE)
+  @ApiBearerAuth()
+  async getPresencePolicy(@GetHostelId() hostelId: string) {
+    return this.attendancePresenceService.getPolicy(hostelId);
+  }
+
+  /**
+   * ADMIN: Set which proof of presence students must send
+   * PUT /attendance/presence-policy
+   */
+  @Put('presence-policy')
+  @UseGuards(HostelAuthWithContextGuard, RolesGuard)
+  @Permissions(Permission.ATTENDANCE_PRESENCE_MANAGE)
+  @ApiBearerAuth()
+  async updatePresencePolicy(
+    @GetHostelId() hostelId: string,
+    @Body() updateDto: UpdatePresencePolicyDto
+  ) {
+    return this.attendancePresenceService.savePolicy(hostelId, updateDto);
+  }
+
+  /**
+   * ADMIN: Current gate QR code - the gate screen polls this and refreshes at expiresAt
+   * GET /attendance/gate-qr
+   */
+  @Get('gate-qr')
+  @UseGuards(HostelAuthWithContextGuard, RolesGuard)
+  @Permissions(Permission.ATTENDANCE_RECORD)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Get the rotating QR code to display at the hostel gate',
+    description: 'Students scan it and send it as qrCode with student/check-in and student/check-out'
+  })
+  async getGateQrCode(@GetHostelId() hostelId: string) {
+    return this.attendancePresenceService.generateQrCode(hostelId);
+  }
+
+  /**
+   * ADMIN: Student check-ins/check-outs refused by the presence policy
+   * GET /attendance/rejected-attempts?reviewStatus=PENDING&page=1&limit=10
+   */
+  @Get('rejected-attempts')
+  @UseGuards(HostelAuthWithContextGuard, RolesGuard)
+  @Permissions(Permission.ATTENDANCE_PRESENCE_MANAGE)
+  @ApiBearerAuth()
+  async getRejectedAttempts(
+    @GetHostelId() hostelId: string,
+    @Query() filters: RejectedAttemptFiltersDto
+  ) {
+    return this.attendancePresenceService.getRejectedAttempts(hostelId, filters);
+  }
+
+  /**
+   * ADMIN: Warden review of a refused attempt
+   * POST /attendance/rejected-attempts/:id/review
+   */
+  @Post('rejected-attempts/:id/review')
+  @UseGuards(HostelAuthWithContextGuard, RolesGuard)
+  @Permissions(Permission.ATTENDANCE_PRESENCE_MANAGE)
+  @ApiBearerAuth()
+  async reviewRejectedAttempt(
+    @GetHostelId() hostelId: string,
+    @Param('id') id: string,
+    @Body() reviewDto: ReviewRejectedAttemptDto,
+    @CurrentUser() user: JwtPayload
+  ) {
+    return this.attendancePresenceService.reviewRejectedAttempt(id, hostelId, reviewDto, user.id);
+  }
+
   /**
    * TEST: Create initial check-in
    * POST /attendance/test/initial-checkin
    */
   @Post('test/initial-checkin')
-  @UseGuards(HostelAuthWithContextGuard)
+  @UseGuards(HostelAuthWithContextGuard, RolesGuard)
+  @Permissions(Permission.ATTENDANCE_RECORD)
   @ApiBearerAuth()
   async testInitialCheckIn(@Body() body: { studentId: string; hostelId: string }) {
     return this.attendanceService.createInitialCheckIn(body.studentId, body.hostelId);
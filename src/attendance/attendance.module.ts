@@ -1,25 +1,52 @@
 import { Module, forwardRef } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { AttendanceController } from './attendance.controller';
+import { CurfewController } from './curfew.controller';
 import { AttendanceService } from './attendance.service';
+import { AttendancePresenceService } from './attendance-presence.service';
+import { CurfewService } from './curfew.service';
 import { StudentAttendance } from './entities/student-attendance.entity';
 import { StudentCheckInOut } from './entities/student-checkin-checkout.entity';
+import { AttendancePresencePolicy } from './entities/attendance-presence-policy.entity';
+import { RejectedAttendanceAttempt } from './entities/rejected-attendance-attempt.entity';
+import { CurfewPolicy } from './entities/curfew-policy.entity';
+import { CurfewExemption } from './entities/curfew-exemption.entity';
+import { CurfewViolation } from './entities/curfew-violation.entity';
 import { Student } from '../students/entities/student.entity';
+import { StudentContact } from '../students/entities/student-contact.entity';
+import { Bed } from '../rooms/entities/bed.entity';
 import { HostelModule } from '../hostel/hostel.module';
 import { StudentsModule } from '../students/students.module';
+import { StaffRolesModule } from '../staff-roles/staff-roles.module';
+import { NotificationModule } from '../notification/notification.module';
+import { MessagingModule } from '../messaging/messaging.module';
+import { LeaveRequestsModule } from '../leave-requests/leave-requests.module';
+import { EventsModule } from '../events/events.module';
 
 @Module({
   imports: [
     TypeOrmModule.forFeature([
       StudentAttendance,
       StudentCheckInOut,
-      Student
+      AttendancePresencePolicy,
+      RejectedAttendanceAttempt,
+      CurfewPolicy,
+      CurfewExemption,
+      CurfewViolation,
+      Student,
+      StudentContact,
+      Bed
     ]),
     HostelModule,
-    forwardRef(() => StudentsModule)
+    StaffRolesModule,
+    NotificationModule,
+    MessagingModule,
+    LeaveRequestsModule,
+    forwardRef(() => StudentsModule),
+    EventsModule,
   ],
-  controllers: [AttendanceController],
-  providers: [AttendanceService],
-  exports: [AttendanceService]
+  controllers: [AttendanceController, CurfewController],
+  providers: [AttendanceService, AttendancePresenceService, CurfewService],
+  exports: [AttendanceService, AttendancePresenceService, CurfewService]
 })
 export class AttendanceModule {}
@@ -1,4 +1,4 @@
-import { Injectable, NotFoundException, BadRequestException } from '@nestjs/common';
+import { Injectable, Logger, NotFoundException, BadRequestException } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
 import { 
@@ -12,12 +12,16 @@ import {
 } from './entities/student-checkin-checkout.entity';
 import { Student, StudentStatus } from '../students/entities/student.entity';
 import { CheckInDto, CheckOutDto, AttendanceFiltersDto } from './dto';
-
-// Nepal timezone constant
-const NEPAL_TIMEZONE = 'Asia/Kathmandu';
+import { CurfewService } from './curfew.service';
+import { LeaveRequestsService } from '../leave-requests/services/leave-requests.service';
+import { LeaveRequest } from '../leave-requests/entities/leave-request.entity';
+import { HostelSettingsService } from '../hostel/services/hostel-settings.service';
+import { DomainEventsService, DomainEventType } from '../events/domain-events.service';
 
 @Injectable()
 export class AttendanceService {
+  private readonly logger = new Logger(AttendanceService.name);
+
   constructor(
     @InjectRepository(StudentAttendance)
     private attendanceRepository: Repository<StudentAttendance>,
@@ -27,6 +31,14 @@ export class AttendanceService {
     
     @InjectRepository(Student)
     private studentRepository: Repository<Student>,
+
+    private curfewService: CurfewService,
+
+    private leaveRequestsService: LeaveRequestsService,
+
+    private hostelSettingsService: HostelSettingsService,
+
+    private domainEventsService: DomainEventsService,
   ) {}
 
   /**
@@ -62,11 +74,11 @@ export class AttendanceService {
       throw new BadRequestException('Student is already checked in. Please check out first.');
     }
 
-    // Get current date and time in Nepal timezone
+    // Get current date and time in the hostel's timezone
     const now = this.getUTCDate(); // Get actual UTC time
-    const nepalNow = this.getNepalTime(); // For date/time formatting only
-    const todayDate = this.formatDate(nepalNow);
-    const currentTime = this.formatTime(nepalNow);
+    const localNow = await this.getHostelTime(hostelId); // For date/time formatting only
+    const todayDate = this.formatDate(localNow);
+    const currentTime = this.formatTime(localNow);
 
     // Check if attendance exists for today
     const existingAttendance = await this.attendanceRepository.findOne({
@@ -91,6 +103,15 @@ export class AttendanceService {
       });
     }
 
+    // When the student last went out, for the curfew check
+    const lastCheckOut = await this.checkInOutRepository.findOne({
+      where: {
+        studentId,
+        status: CheckInOutStatus.CHECKED_OUT
+      },
+      order: { checkOutTime: 'DESC' }
+    });
+
     // Create check-in/out record
     const checkInRecord = await this.checkInOutRepository.save({
       studentId,
@@ -102,6 +123,26 @@ export class AttendanceService {
       notes
     });
 
+    // Curfew check - a failure here must not undo the check-in
+    let curfewViolation = null;
+    try {
+      curfewViolation = await this.curfewService.recordCheckIn(studentId, hostelId, now, lastCheckOut?.checkOutTime || null);
+    } catch (error) {
+      this.logger.warn(`⚠️ Curfew check failed for student ${studentId}: ${error.message}`);
+    }
+
+    this.domainEventsService.publish({
+      type: DomainEventType.STUDENT_CHECKED_IN,
+      hostelId,
+      data: {
+        checkInId: checkInRecord.id,
+        studentId,
+        studentName: student.name,
+        checkInTime: checkInRecord.checkInTime,
+        lateReturn: !!curfewViolation
+      }
+    });
+
     return {
       success: true,
       message: 'Checked in successfully',
@@ -114,7 +155,15 @@ export class AttendanceService {
         id: checkInRecord.id,
         checkInTime: checkInRecord.checkInTime,
         status: checkInRecord.status
-      }
+      },
+      ...(curfewViolation && {
+        curfew: {
+          lateReturn: true,
+          curfewDate: curfewViolation.curfewDate,
+          curfewAt: curfewViolation.curfewAt,
+          minutesLate: curfewViolation.minutesLate
+        }
+      })
     };
   }
 
@@ -157,6 +206,17 @@ export class AttendanceService {
 
     await this.checkInOutRepository.save(activeCheckIn);
 
+    this.domainEventsService.publish({
+      type: DomainEventType.STUDENT_CHECKED_OUT,
+      hostelId,
+      data: {
+        checkInId: activeCheckIn.id,
+        studentId,
+        studentName: student.name,
+        checkOutTime: activeCheckIn.checkOutTime
+      }
+    });
+
     // Calculate duration
     const duration = this.calculateDuration(activeCheckIn.checkInTime, now);
 
@@ -297,11 +357,18 @@ export class AttendanceService {
       roomNumber: checkin.student?.room?.roomNumber
     }));
 
+    // Students away on approved leave are not expected back yet
+    const leaves = await this.leaveRequestsService.getApprovedLeaves(hostelId, this.formatDate(await this.getHostelTime(hostelId)));
+
     return {
       hostelId,
       timestamp: now,
       currentlyCheckedIn: total,
       students,
+      onLeave: {
+        total: leaves.length,
+        students: leaves.map(leave => this.toLeaveSummary(leave))
+      },
       pagination: {
         page,
         limit,
@@ -362,16 +429,24 @@ export class AttendanceService {
       where: { hostelId, isConfigured: true, status: StudentStatus.ACTIVE }
     });
 
+    // Students on approved leave who did not show up are not counted absent
+    const presentIds = new Set(allAttendanceRecords.map(record => record.studentId));
+    const leaves = (await this.leaveRequestsService.getApprovedLeaves(hostelId, date))
+      .filter(leave => !presentIds.has(leave.studentId) && leave.student?.status === StudentStatus.ACTIVE && leave.student?.isConfigured);
+    const expectedStudents = totalStudents - leaves.length;
+
     return {
       hostelId,
       date,
       summary: {
         totalStudents,
         totalPresent: allAttendanceRecords.length,
-        totalAbsent: totalStudents - allAttendanceRecords.length,
-        attendanceRate: totalStudents > 0 ? `${((allAttendanceRecords.length / totalStudents) * 100).toFixed(1)}%` : '0%'
+        onLeave: leaves.length,
+        totalAbsent: Math.max(0, expectedStudents - allAttendanceRecords.length),
+        attendanceRate: expectedStudents > 0 ? `${((allAttendanceRecords.length / expectedStudents) * 100).toFixed(1)}%` : '0%'
       },
       presentStudents,
+      studentsOnLeave: leaves.map(leave => this.toLeaveSummary(leave)),
       pagination: {
         page,
         limit,
@@ -472,6 +547,8 @@ export class AttendanceService {
       .andWhere('checkin.checkInTime <= :dateTo', { dateTo: `${dateTo} 23:59:59` })
       .getMany();
 
+    const leaves = await this.leaveRequestsService.getApprovedLeaves(hostelId, dateFrom, dateTo);
+
     // Group by date
     const dailyBreakdown = new Map();
     attendanceRecords.forEach(record => {
@@ -492,6 +569,10 @@ export class AttendanceService {
       }
     });
 
+    dailyBreakdown.forEach(day => {
+      day.onLeave = leaves.filter(leave => leave.startDate <= day.date && leave.endDate >= day.date).length;
+    });
+
     return {
       hostelId,
       dateRange: { from: dateFrom, to: dateTo },
@@ -509,9 +590,9 @@ export class AttendanceService {
    */
   async createInitialCheckIn(studentId: string, hostelId: string) {
     const now = this.getUTCDate(); // Get actual UTC time
-    const nepalNow = this.getNepalTime(); // For date/time formatting only
-    const todayDate = this.formatDate(nepalNow);
-    const currentTime = this.formatTime(nepalNow);
+    const localNow = await this.getHostelTime(hostelId); // For date/time formatting only
+    const todayDate = this.formatDate(localNow);
+    const currentTime = this.formatTime(localNow);
 
     // Create attendance record
     await this.attendanceRepository.save({
@@ -542,6 +623,21 @@ export class AttendanceService {
     };
   }
 
+  /**
+   * Helper: Student row for a leave in the status/report responses
+   */
+  private toLeaveSummary(leave: LeaveRequest) {
+    return {
+      studentId: leave.studentId,
+      studentName: leave.student?.name || 'Unknown',
+      roomNumber: leave.student?.room?.roomNumber,
+      leaveRequestId: leave.id,
+      destination: leave.destination,
+      startDate: leave.startDate,
+      endDate: leave.endDate
+    };
+  }
+
   /**
    * Helper: Get current time
    * Returns current Date - PostgreSQL with timestamptz will handle timezone correctly
@@ -551,15 +647,16 @@ export class AttendanceService {
   }
 
   /**
-   * Helper: Get current time in Nepal timezone
-   * Returns a Date object that represents the current Nepal time
+   * Helper: Get current time in the hostel's timezone (hostel settings, Asia/Kathmandu by default)
+   * Returns a Date object that represents the current local time
    */
-  private getNepalTime(): Date {
+  private async getHostelTime(hostelId: string): Promise<Date> {
     const now = new Date();
+    const { timezone } = (await this.hostelSettingsService.getSettings(hostelId)).general;
     
-    // Get Nepal time components using Intl.DateTimeFormat
+    // Get local time components using Intl.DateTimeFormat
     const formatter = new Intl.DateTimeFormat('en-US', {
-      timeZone: NEPAL_TIMEZONE,
+      timeZone: timezone,
       year: 'numeric',
       month: '2-digit',
       day: '2-digit',
@@ -577,8 +674,8 @@ export class AttendanceService {
       }
     });
     
-    // Create a Date object with Nepal time components
-    // This creates a Date in UTC that represents the Nepal local time
+    // Create a Date object with local time components
+    // This creates a Date in UTC that represents the hostel's local time
     return new Date(
       `${dateParts.year}-${dateParts.month}-${dateParts.day}T${dateParts.hour}:${dateParts.minute}:${dateParts.second}.000Z`
     );
@@ -0,0 +1,221 @@
+import { Controller, Post, Get, Put, Delete, Body, Query, Param, UseGuards, NotFoundException, BadRequestException } from '@nestjs/common';
+import { ApiBearerAuth, ApiTags, ApiOperation } from '@nestjs/swagger';
+import { CurfewService } from './curfew.service';
+import {
+  CreateCurfewPolicyDto,
+  UpdateCurfewPolicyDto,
+  CreateCurfewExemptionDto,
+  StudentCurfewExemptionDto,
+  ReviewCurfewExemptionDto,
+  CurfewExemptionFiltersDto
+} from './dto';
+import { HostelAuthWithContextGuard } from '../auth/guards/hostel-auth-with-context.guard';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { GetHostelId } from '../hostel/decorators/hostel-context.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { JwtPayload } from '../auth/interfaces/jwt-payload.interface';
+import { StudentsService } from '../students/students.service';
+import { HostelService } from '../hostel/hostel.service';
+import { RolesGuard } from '../staff-roles/guards/roles.guard';
+import { Permissions } from '../staff-roles/decorators/permissions.decorator';
+import { Permission } from '../staff-roles/permissions';
+
+@ApiTags('attendance')
+@Controller('attendance/curfew')
+export class CurfewController {
+  constructor(
+    private readonly curfewService: CurfewService,
+    private readonly studentsService: StudentsService,
+    private readonly hostelService: HostelService
+  ) {}
+
+  /**
+   * STUDENT: Own curfew exemptions (Business Token)
+   * GET /attendance/curfew/student/exemptions
+   */
+  @Get('student/exemptions')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  async getMyExemptions(@CurrentUser() user: JwtPayload) {
+    const { student, hostelId } = await this.resolveStudent(user);
+    return this.curfewService.getStudentExemptions(student.id, hostelId);
+  }
+
+  /**
+   * STUDENT: Ask to be excused from curfew (Business Token) - a warden approves it
+   * POST /attendance/curfew/student/exemptions
+   */
+  @Post('student/exemptions')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  async requestExemption(
+    @CurrentUser() user: JwtPayload,
+    @Body() dto: StudentCurfewExemptionDto
+  ) {
+    const { student, hostelId } = await this.resolveStudent(user);
+    return this.curfewService.requestExemption(student.id, hostelId, dto, user.id);
+  }
+
+  /**
+   * ADMIN: Curfew policies of the hostel
+   * GET /attendance/curfew/policies
+   */
+  @Get('policies')
+  @UseGuards(HostelAuthWithContextGuard)
+  @ApiBearerAuth()
+  async getPolicies(@GetHostelId() hostelId: string) {
+    return this.curfewService.getPolicies(hostelId);
+  }
+
+  /**
+   * ADMIN: Create a curfew policy (one hostel-wide, plus optionally one per gender)
+   * POST /attendance/curfew/policies
+   */
+  @Post('policies')
+  @UseGuards(HostelAuthWithContextGuard, RolesGuard)
+  @Permissions(Permission.CURFEW_MANAGE)
+  @ApiBearerAuth()
+  async createPolicy(
+    @GetHostelId() hostelId: string,
+    @Body() createDto: CreateCurfewPolicyDto
+  ) {
+    return this.curfewService.createPolicy(hostelId, createDto);
+  }
+
+  /**
+   * ADMIN: Update a curfew policy
+   * PUT /attendance/curfew/policies/:id
+   */
+  @Put('policies/:id')
+  @UseGuards(HostelAuthWithContextGuard, RolesGuard)
+  @Permissions(Permission.CURFEW_MANAGE)
+  @ApiBearerAuth()
+  async updatePolicy(
+    @GetHostelId() hostelId: string,
+    @Param('id') id: string,
+    @Body() updateDto: UpdateCurfewPolicyDto
+  ) {
+    return this.curfewService.updatePolicy(id, hostelId, updateDto);
+  }
+
+  /**
+   * ADMIN: Delete a curfew policy (past violations are kept)
+   * DELETE /attendance/curfew/policies/:id
+   */
+  @Delete('policies/:id')
+  @UseGuards(HostelAuthWithContextGuard, RolesGuard)
+  @Permissions(Permission.CURFEW_MANAGE)
+  @ApiBearerAuth()
+  async deletePolicy(
+    @GetHostelId() hostelId: string,
+    @Param('id') id: string
+  ) {
+    return this.curfewService.deletePolicy(id, hostelId);
+  }
+
+  /**
+   * ADMIN: Curfew exemptions
+   * GET /attendance/curfew/exemptions?status=PENDING&page=1&limit=10
+   */
+  @Get('exemptions')
+  @UseGuards(HostelAuthWithContextGuard)
+  @ApiBearerAuth()
+  async getExemptions(
+    @GetHostelId() hostelId: string,
+    @Query() filters: CurfewExemptionFiltersDto
+  ) {
+    return this.curfewService.getExemptions(hostelId, filters);
+  }
+
+  /**
+   * ADMIN: Excuse a student from curfew (approved straight away)
+   * POST /attendance/curfew/exemptions
+   */
+  @Post('exemptions')
+  @UseGuards(HostelAuthWithContextGuard, RolesGuard)
+  @Permissions(Permission.CURFEW_MANAGE)
+  @ApiBearerAuth()
+  async createExemption(
+    @GetHostelId() hostelId: string,
+    @Body() createDto: CreateCurfewExemptionDto,
+    @CurrentUser() user: JwtPayload
+  ) {
+    return this.curfewService.createExemption(hostelId, createDto, user.id);
+  }
+
+  /**
+   * ADMIN: Approve a student's exemption request
+   * POST /attendance/curfew/exemptions/:id/approve
+   */
+  @Post('exemptions/:id/approve')
+  @UseGuards(HostelAuthWithContextGuard, RolesGuard)
+  @Permissions(Permission.CURFEW_MANAGE)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Approve a curfew exemption request' })
+  async approveExemption(
+    @GetHostelId() hostelId: string,
+    @Param('id') id: string,
+    @Body() reviewDto: ReviewCurfewExemptionDto,
+    @CurrentUser() user: JwtPayload
+  ) {
+    return this.curfewService.approveExemption(id, hostelId, reviewDto, user.id);
+  }
+
+  /**
+   * ADMIN: Decline a student's exemption request
+   * POST /attendance/curfew/exemptions/:id/reject
+   */
+  @Post('exemptions/:id/reject')
+  @UseGuards(HostelAuthWithContextGuard, RolesGuard)
+  @Permissions(Permission.CURFEW_MANAGE)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Decline a curfew exemption request' })
+  async rejectExemption(
+    @GetHostelId() hostelId: string,
+    @Param('id') id: string,
+    @Body() reviewDto: ReviewCurfewExemptionDto,
+    @CurrentUser() user: JwtPayload
+  ) {
+    return this.curfewService.rejectExemption(id, hostelId, reviewDto, user.id);
+  }
+
+  /**
+   * ADMIN: Revoke a pending or approved exemption
+   * POST /attendance/curfew/exemptions/:id/cancel
+   */
+  @Post('exemptions/:id/cancel')
+  @UseGuards(HostelAuthWithContextGuard, RolesGuard)
+  @Permissions(Permission.CURFEW_MANAGE)
+  @ApiBearerAuth()
+  async cancelExemption(
+    @GetHostelId() hostelId: string,
+    @Param('id') id: string,
+    @CurrentUser() user: JwtPayload
+  ) {
+    return this.curfewService.cancelExemption(id, hostelId, user.id);
+  }
+
+  private async resolveStudent(user: JwtPayload) {
+    if (!user.businessId) {
+      throw new BadRequestException(
+        'Business token required. Please switch to hostel profile first.'
+      );
+    }
+
+    const hostel = await this.hostelService.findByBusinessId(user.businessId);
+    if (!hostel) {
+      throw new NotFoundException(
+        `Hostel not found for businessId: ${user.businessId}`
+      );
+    }
+
+    const student = await this.studentsService.findByUserId(user.id, hostel.id);
+    if (!student) {
+      throw new NotFoundException(
+        `No student found for user ${user.kahaId} in this hostel. Please contact admin.`
+      );
+    }
+
+    return { student, hostelId: hostel.id };
+  }
+}
@@ -0,0 +1,171 @@
+import { CurfewService } from './curfew.service';
+import { CurfewViolationType } from './entities/curfew-violation.entity';
+import { Student } from '../students/entities/student.entity';
+import { MessageChannel } from '../messaging/entities/message-delivery.entity';
+import { HostelStaffRole } from '../staff-roles/entities/hostel-staff-member.entity';
+import { NotificationTemplateKey } from '../notification/templates/default-notification-templates';
+
+describe('CurfewService', () => {
+  let service: CurfewService;
+
+  const policy = (overrides: any = {}) => ({
+    id: 'policy-1',
+    hostelId: 'hostel-1',
+    name: 'Hostel curfew',
+    gender: null,
+    weekdayCurfewTime: '21:00',
+    weekendCurfewTime: '00:30',
+    weekendDays: [5, 6],
+    gracePeriodMinutes: 15,
+    notifyGuardian: true,
+    isActive: true,
+    ...overrides
+  });
+
+  const mockPolicyRepository = {
+    find: jest.fn(),
+  };
+
+  const mockExemptionRepository = {
+    exist: jest.fn().mockResolvedValue(false),
+  };
+
+  const insertQuery = {
+    insert: jest.fn().mockReturnThis(),
+    into: jest.fn().mockReturnThis(),
+    values: jest.fn().mockReturnThis(),
+    orIgnore: jest.fn().mockReturnThis(),
+    execute: jest.fn().mockResolvedValue({ raw: [{ id: 'violation-1' }] }),
+  };
+
+  const mockViolationRepository = {
+    find: jest.fn().mockResolvedValue([]),
+    findOne: jest.fn(),
+    update: jest.fn().mockResolvedValue({ affected: 1 }),
+  };
+
+  const mockStudentRepository = {
+    findOne: jest.fn().mockResolvedValue({ id: 'student-1', name: 'Sita', room: { roomNumber: '101' } }),
+  };
+
+  const mockContactRepository = {
+    findOne: jest.fn().mockResolvedValue({ name: 'Ram', phone: '9800000000' }),
+  };
+
+  const mockBedRepository = {
+    findOne: jest.fn(),
+  };
+
+  const mockStaffRolesService = {
+    getActiveUserIds: jest.fn().mockResolvedValue(['warden-1']),
+  };
+
+  const mockNotificationService = {
+    sendTemplateToUser: jest.fn().mockResolvedValue(undefined),
+  };
+
+  const mockMessagingService = {
+    send: jest.fn().mockResolvedValue({ id: 'message-1' }),
+  };
+
+  const mockLeaveRequestsService = {
+    isOnLeave: jest.fn().mockResolvedValue(false),
+  };
+
+  const mockManager = {
+    createQueryBuilder: jest.fn(() => insertQuery),
+    findOne: jest.fn((entity, options) =>
+      entity === Student ? mockStudentRepository.findOne(options) : mockViolationRepository.findOne(options)
+    ),
+    update: jest.fn().mockResolvedValue({ affected: 1 }),
+  };
+
+  const mockDataSource = {
+    transaction: jest.fn(work => work(mockManager)),
+  };
+
+  beforeEach(() => {
+    service = new CurfewService(
+      mockPolicyRepository as any,
+      mockExemptionRepository as any,
+      mockViolationRepository as any,
+      {} as any,
+      mockStudentRepository as any,
+      mockContactRepository as any,
+      mockBedRepository as any,
+      mockStaffRolesService as any,
+      mockNotificationService as any,
+      mockMessagingService as any,
+      { get: jest.fn() } as any,
+      mockLeaveRequestsService as any,
+      mockDataSource as any
+    );
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should place curfews in Nepal time, after midnight on weekend nights', () => {
+    // Wednesday night: 21:00 + 15 min grace = 15:30 UTC
+    expect(service.getCurfewNight(policy() as any, '2025-11-05').curfewAt).toEqual(new Date('2025-11-05T15:30:00Z'));
+    // Friday night: Saturday 00:30 + 15 min grace = Friday 19:00 UTC
+    expect(service.getCurfewNight(policy() as any, '2025-11-07').curfewAt).toEqual(new Date('2025-11-07T19:00:00Z'));
+
+    // Saturday 00:40 Nepal time belongs to Friday night
+    expect(service.getLastCurfewNight(policy() as any, new Date('2025-11-07T18:55:00Z')).curfewDate).toBe('2025-11-06');
+    expect(service.getLastCurfewNight(policy() as any, new Date('2025-11-07T19:05:00Z')).curfewDate).toBe('2025-11-07');
+  });
+
+  it('should flag a student out at curfew who checks in late and alert the warden and guardian', async () => {
+    mockPolicyRepository.find.mockResolvedValue([policy()]);
+    mockViolationRepository.findOne.mockResolvedValue({
+      id: 'violation-1',
+      studentId: 'student-1',
+      type: CurfewViolationType.LATE_RETURN,
+      returnedAt: new Date('2025-11-05T16:15:00Z'),
+      minutesLate: 45
+    });
+
+    const violation = await service.recordCheckIn(
+      'student-1', 'hostel-1', new Date('2025-11-05T16:15:00Z'), new Date('2025-11-05T12:00:00Z')
+    );
+
+    expect(violation.type).toBe(CurfewViolationType.LATE_RETURN);
+    expect(insertQuery.values).toHaveBeenCalledWith(expect.objectContaining({
+      studentId: 'student-1',
+      curfewDate: '2025-11-05',
+      type: CurfewViolationType.LATE_RETURN,
+      minutesLate: 45
+    }));
+    expect(mockStaffRolesService.getActiveUserIds).toHaveBeenCalledWith('hostel-1', [HostelStaffRole.WARDEN]);
+    expect(mockNotificationService.sendTemplateToUser).toHaveBeenCalledWith(expect.objectContaining({
+      userId: 'warden-1',
+      hostelId: 'hostel-1',
+      template: NotificationTemplateKey.CURFEW_LATE_RETURN,
+      variables: expect.objectContaining({ returnedAt: '22:00', minutesLate: '45m', curfewTime: '21:00' })
+    }), undefined, undefined, mockManager);
+    expect(mockMessagingService.send).toHaveBeenCalledWith(expect.objectContaining({
+      channel: MessageChannel.SMS,
+      recipient: '9800000000',
+      referenceId: 'violation-1'
+    }));
+  });
+
+  it('should not flag a daytime return or a student with an approved exemption', async () => {
+    mockPolicyRepository.find.mockResolvedValue([policy()]);
+
+    // Went out the morning after curfew
+    await expect(service.recordCheckIn(
+      'student-1', 'hostel-1', new Date('2025-11-06T08:00:00Z'), new Date('2025-11-06T03:00:00Z')
+    )).resolves.toBeNull();
+
+    mockExemptionRepository.exist.mockResolvedValueOnce(true);
+    await expect(service.recordCheckIn(
+      'student-1', 'hostel-1', new Date('2025-11-05T16:15:00Z'), new Date('2025-11-05T12:00:00Z')
+    )).resolves.toBeNull();
+
+    expect(insertQuery.execute).not.toHaveBeenCalled();
+    expect(mockNotificationService.sendTemplateToUser).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,829 @@
+import { Injectable, Logger, NotFoundException, BadRequestException, OnModuleInit, OnModuleDestroy } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Repository, DataSource, EntityManager, In, IsNull, LessThanOrEqual, MoreThanOrEqual, Not, FindOptionsWhere } from 'typeorm';
+import { CurfewPolicy } from './entities/curfew-policy.entity';
+import { CurfewExemption, CurfewExemptionStatus } from './entities/curfew-exemption.entity';
+import { CurfewViolation, CurfewViolationType } from './entities/curfew-violation.entity';
+import { StudentCheckInOut, CheckInOutStatus } from './entities/student-checkin-checkout.entity';
+import { Student, StudentStatus } from '../students/entities/student.entity';
+import { StudentContact, ContactType } from '../students/entities/student-contact.entity';
+import { Bed } from '../rooms/entities/bed.entity';
+import { HostelStaffRole } from '../staff-roles/entities/hostel-staff-member.entity';
+import { StaffRolesService } from '../staff-roles/services/staff-roles.service';
+import { UnifiedNotificationService } from '../notification/unified-notification.service';
+import { NotificationTemplateKey } from '../notification/templates/default-notification-templates';
+import { MessagingService } from '../messaging/services/messaging.service';
+import { MessageChannel } from '../messaging/entities/message-delivery.entity';
+import { LeaveRequestsService } from '../leave-requests/services/leave-requests.service';
+import {
+  CreateCurfewPolicyDto,
+  UpdateCurfewPolicyDto,
+  CreateCurfewExemptionDto,
+  StudentCurfewExemptionDto,
+  ReviewCurfewExemptionDto,
+  CurfewExemptionFiltersDto,
+  AttendanceFiltersDto
+} from './dto';
+
+// Nepal has no daylight saving: always UTC+05:45
+const NEPAL_UTC_OFFSET_MINUTES = 345;
+const MINUTE_MS = 60 * 1000;
+const DEFAULT_SWEEP_INTERVAL_MS = 5 * MINUTE_MS;
+
+interface CurfewNight {
+  curfewDate: string;
+  curfewTime: string;
+  curfewAt: Date;
+}
+
+/**
+ * Curfew Service
+ * Evaluates check-ins/check-outs against the hostel's curfew policies:
+ * - a sweep (every CURFEW_SWEEP_INTERVAL_MS, off with SCHEDULER_ENABLED=false)
+ *   flags students who were checked out when last night's curfew passed
+ * - a check-in after curfew by a student who was out at curfew is flagged as
+ *   a late return, or closes the violation the sweep already opened
+ * New violations alert the hostel's wardens (owners/managers when there are
+ * none) and, when the policy says so, SMS the student's guardian contact.
+ * Students on an approved exemption or approved leave are not flagged.
+ */
+@Injectable()
+export class CurfewService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(CurfewService.name);
+  private timer: NodeJS.Timeout | null = null;
+  private sweeping = false;
+
+  constructor(
+    @InjectRepository(CurfewPolicy)
+    private policyRepository: Repository<CurfewPolicy>,
+
+    @InjectRepository(CurfewExemption)
+    private exemptionRepository: Repository<CurfewExemption>,
+
+    @InjectRepository(CurfewViolation)
+    private violationRepository: Repository<CurfewViolation>,
+
+    @InjectRepository(StudentCheckInOut)
+    private checkInOutRepository: Repository<StudentCheckInOut>,
+
+    @InjectRepository(Student)
+    private studentRepository: Repository<Student>,
+
+    @InjectRepository(StudentContact)
+    private contactRepository: Repository<StudentContact>,
+
+    @InjectRepository(Bed)
+    private bedRepository: Repository<Bed>,
+
+    private staffRolesService: StaffRolesService,
+    private unifiedNotificationService: UnifiedNotificationService,
+    private messagingService: MessagingService,
+    private configService: ConfigService,
+    private leaveRequestsService: LeaveRequestsService,
+    private dataSource: DataSource,
+  ) {}
+
+  onModuleInit() {
+    if (this.configService.get('SCHEDULER_ENABLED', 'true') === 'false') {
+      return;
+    }
+
+    const interval = Number(this.configService.get('CURFEW_SWEEP_INTERVAL_MS', DEFAULT_SWEEP_INTERVAL_MS));
+    this.timer = setInterval(() => this.sweep(), interval);
+  }
+
+  onModuleDestroy() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // Policies
+  // ---------------------------------------------------------------------------
+
+  async getPolicies(hostelId: string) {
+    return this.policyRepository.find({
+      where: { hostelId },
+      order: { isActive: 'DESC', createdAt: 'ASC' }
+    });
+  }
+
+  async createPolicy(hostelId: string, createDto: CreateCurfewPolicyDto) {
+    if (!hostelId) {
+      throw new BadRequestException('Hostel context required');
+    }
+
+    const policy = this.policyRepository.create({
+      ...createDto,
+      hostelId,
+      gender: createDto.gender || null,
+      isActive: createDto.isActive ?? true
+    });
+    await this.assertNoActiveOverlap(policy);
+
+    const saved = await this.policyRepository.save(policy);
+    this.logger.log(`🌙 Curfew policy "${saved.name}" created for hostel ${hostelId}`);
+    return saved;
+  }
+
+  async updatePolicy(id: string, hostelId: string, updateDto: UpdateCurfewPolicyDto) {
+    const policy = await this.findPolicy(id, hostelId);
+
+    Object.assign(policy, updateDto);
+    if (updateDto.gender === undefined) {
+      policy.gender = policy.gender || null;
+    }
+    await this.assertNoActiveOverlap(policy);
+
+    return this.policyRepository.save(policy);
+  }
+
+  async deletePolicy(id: string, hostelId: string) {
+    const policy = await this.findPolicy(id, hostelId);
+    await this.policyRepository.remove(policy);
+    return { success: true, message: `Curfew policy "${policy.name}" deleted` };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Exemptions
+  // ---------------------------------------------------------------------------
+
+  async getExemptions(hostelId: string, filters: CurfewExemptionFiltersDto = {}) {
+    if (!hostelId) {
+      throw new BadRequestException('Hostel context required');
+    }
+
+    const { page = 1, limit = 10, status, studentId } = filters;
+    const where: FindOptionsWhere<CurfewExemption> = { hostelId };
+    if (status) {
+      where.status = status;
+    }
+    if (studentId) {
+      where.studentId = studentId;
+    }
+
+    const [items, total] = await this.exemptionRepository.findAndCount({
+      where,
+      relations: ['student'],
+      order: { startDate: 'DESC', createdAt: 'DESC' },
+      skip: (page - 1) * limit,
+      take: limit
+    });
+
+    return {
+      items: items.map(exemption => this.transformExemption(exemption)),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit)
+      }
+    };
+  }
+
+  async getStudentExemptions(studentId: string, hostelId: string) {
+    const exemptions = await this.exemptionRepository.find({
+      where: { studentId, hostelId },
+      order: { startDate: 'DESC' }
+    });
+
+    return exemptions.map(exemption => this.transformExemption(exemption));
+  }
+
+  /**
+   * Staff-created exemptions are approved by whoever creates them
+   */
+  async createExemption(hostelId: string, createDto: CreateCurfewExemptionDto, createdBy: string) {
+    const student = await this.studentRepository.findOne({ where: { id: createDto.studentId, hostelId } });
+    if (!student) {
+      throw new NotFoundException(`Student with ID ${createDto.studentId} not found`);
+    }
+    assertDateRange(createDto.startDate, createDto.endDate);
+
+    const exemption = await this.exemptionRepository.save(this.exemptionRepository.create({
+      hostelId,
+      studentId: student.id,
+      startDate: createDto.startDate,
+      endDate: createDto.endDate,
+      reason: createDto.reason,
+      status: CurfewExemptionStatus.APPROVED,
+      requestedBy: createdBy,
+      reviewedBy: createdBy,
+      reviewedAt: new Date()
+    }));
+
+    return this.transformExemption({ ...exemption, student });
+  }
+
+  /**
+   * Exemption asked for from the student app; waits for a warden
+   */
+  async requestExemption(studentId: string, hostelId: string, requestDto: StudentCurfewExemptionDto, userId: string) {
+    assertDateRange(requestDto.startDate, requestDto.endDate);
+
+    const overlapping = await this.exemptionRepository.findOne({
+      where: {
+        studentId,
+        status: In([CurfewExemptionStatus.PENDING, CurfewExemptionStatus.APPROVED]),
+        startDate: LessThanOrEqual(requestDto.endDate),
+        endDate: MoreThanOrEqual(requestDto.startDate)
+      }
+    });
+    if (overlapping) {
+      throw new BadRequestException(
+        `You already have a ${overlapping.status.toLowerCase()} exemption from ${overlapping.startDate} to ${overlapping.endDate}`
+      );
+    }
+
+    const student = await this.studentRepository.findOne({ where: { id: studentId } });
+
+    const exemption = await this.dataSource.transaction(async manager => {
+      const saved = await manager.save(this.exemptionRepository.create({
+        hostelId,
+        studentId,
+        startDate: requestDto.startDate,
+        endDate: requestDto.endDate,
+        reason: requestDto.reason,
+        status: CurfewExemptionStatus.PENDING,
+        requestedBy: userId
+      }));
+
+      await this.notifyWardens(hostelId, {
+        template: NotificationTemplateKey.CURFEW_EXEMPTION_REQUESTED,
+        variables: {
+          studentName: student?.name || 'A student',
+          nights: formatNightRange(saved.startDate, saved.endDate),
+          reason: saved.reason
+        },
+        metadata: { type: 'curfew_exemption', exemptionId: saved.id, studentId }
+      }, manager);
+
+      return saved;
+    });
+
+    return this.transformExemption(exemption);
+  }
+
+  async approveExemption(id: string, hostelId: string, reviewDto: ReviewCurfewExemptionDto, reviewedBy: string) {
+    return this.reviewExemption(id, hostelId, CurfewExemptionStatus.APPROVED, reviewDto, reviewedBy);
+  }
+
+  async rejectExemption(id: string, hostelId: string, reviewDto: ReviewCurfewExemptionDto, reviewedBy: string) {
+    return this.reviewExemption(id, hostelId, CurfewExemptionStatus.REJECTED, reviewDto, reviewedBy);
+  }
+
+  async cancelExemption(id: string, hostelId: string, cancelledBy: string) {
+    const exemption = await this.exemptionRepository.findOne({ where: { id, hostelId } });
+    if (!exemption) {
+      throw new NotFoundException(`Curfew exemption with ID ${id} not found`);
+    }
+
+    const claimed = await this.exemptionRepository.update(
+      { id, status: In([CurfewExemptionStatus.PENDING, CurfewExemptionStatus.APPROVED]) },
+      { status: CurfewExemptionStatus.CANCELLED, reviewedBy: cancelledBy, reviewedAt: new Date() }
+    );
+    if (!claimed.affected) {
+      throw new BadRequestException(`Exemption is already ${exemption.status.toLowerCase()}`);
+    }
+
+    return this.transformExemption(await this.exemptionRepository.findOne({ where: { id } }));
+  }
+
+  // ---------------------------------------------------------------------------
+  // Evaluation
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Flag students who were out when last night's curfew passed
+   */
+  async sweep(now: Date = new Date()): Promise<void> {
+    if (this.sweeping) {
+      return;
+    }
+    this.sweeping = true;
+
+    try {
+      const policies = await this.policyRepository.find({ where: { isActive: true } });
+      const hostelIds = [...new Set(policies.map(policy => policy.hostelId))];
+
+      for (const hostelId of hostelIds) {
+        await this.flagStudentsOut(hostelId, policies.filter(policy => policy.hostelId === hostelId), now);
+      }
+    } catch (error) {
+      this.logger.error(`❌ Curfew sweep failed: ${error.message}`, error.stack);
+    } finally {
+      this.sweeping = false;
+    }
+  }
+
+  /**
+   * Called by AttendanceService after a check-in was saved.
+   * Returns the violation the check-in closed or created, if any.
+   */
+  async recordCheckIn(studentId: string, hostelId: string, checkInTime: Date, lastCheckedOutAt: Date | null) {
+    const openViolations = await this.violationRepository.find({
+      where: { studentId, hostelId, type: CurfewViolationType.NOT_RETURNED, returnedAt: IsNull() },
+      order: { curfewAt: 'ASC' }
+    });
+
+    if (openViolations.length > 0) {
+      for (const violation of openViolations) {
+        await this.violationRepository.update(violation.id, {
+          returnedAt: checkInTime,
+          minutesLate: minutesBetween(violation.curfewAt, checkInTime)
+        });
+      }
+      return this.violationRepository.findOne({ where: { id: openViolations[openViolations.length - 1].id } });
+    }
+
+    if (!lastCheckedOutAt) {
+      return null;
+    }
+
+    const policy = await this.resolvePolicy(studentId, await this.getActivePolicies(hostelId));
+    if (!policy) {
+      return null;
+    }
+
+    const night = this.getLastCurfewNight(policy, checkInTime);
+    // Out at curfew: a return from a daytime outing after last night's curfew is not late
+    if (new Date(lastCheckedOutAt) >= night.curfewAt) {
+      return null;
+    }
+    if (await this.hasApprovedExemption(studentId, night.curfewDate)) {
+      return null;
+    }
+
+    return this.flagViolation(policy, studentId, night, CurfewViolationType.LATE_RETURN, lastCheckedOutAt, checkInTime);
+  }
+
+  /**
+   * The curfew night whose deadline (curfew time plus grace) passed most recently
+   */
+  getLastCurfewNight(policy: CurfewPolicy, at: Date): CurfewNight {
+    const today = toNepalDate(at);
+
+    for (const curfewDate of [today, addDays(today, -1), addDays(today, -2)]) {
+      const night = this.getCurfewNight(policy, curfewDate);
+      if (night.curfewAt <= at) {
+        return night;
+      }
+    }
+
+    // Unreachable for valid times, the curfew of two nights ago has always passed
+    return this.getCurfewNight(policy, addDays(today, -2));
+  }
+
+  getCurfewNight(policy: CurfewPolicy, curfewDate: string): CurfewNight {
+    const [year, month, day] = curfewDate.split('-').map(Number);
+    const weekday = new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+    const curfewTime = (policy.weekendDays || []).includes(weekday) ? policy.weekendCurfewTime : policy.weekdayCurfewTime;
+    const [hours, minutes] = curfewTime.split(':').map(Number);
+    // Times before noon are after midnight, on the next calendar day
+    const dayOffset = hours < 12 ? 1 : 0;
+
+    const curfewAt = new Date(
+      Date.UTC(year, month - 1, day + dayOffset, hours, minutes) -
+      NEPAL_UTC_OFFSET_MINUTES * MINUTE_MS +
+      (policy.gracePeriodMinutes || 0) * MINUTE_MS
+    );
+
+    return { curfewDate, curfewTime, curfewAt };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Report
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Late returns and students not back by curfew, by curfew night
+   */
+  async getLateReturnReport(hostelId: string, filters: AttendanceFiltersDto) {
+    const { dateFrom, dateTo, studentId, page = 1, limit = 50, search = '' } = filters;
+
+    const query = this.violationRepository
+      .createQueryBuilder('violation')
+      .leftJoinAndSelect('violation.student', 'student')
+      .leftJoinAndSelect('student.room', 'room')
+      .where('violation.hostelId = :hostelId', { hostelId });
+
+    if (dateFrom) {
+      query.andWhere('violation.curfewDate >= :dateFrom', { dateFrom });
+    }
+    if (dateTo) {
+      query.andWhere('violation.curfewDate <= :dateTo', { dateTo });
+    }
+    if (studentId) {
+      query.andWhere('violation.studentId = :studentId', { studentId });
+    }
+    if (search) {
+      query.andWhere('(student.name ILIKE :search OR room.roomNumber ILIKE :search)', { search: `%${search}%` });
+    }
+
+    const totals = await query.clone()
+      .select('violation.type', 'type')
+      .addSelect('COUNT(*)', 'count')
+      .addSelect('COUNT(*) FILTER (WHERE violation.returnedAt IS NULL)', 'stillOut')
+      .addSelect('AVG(violation.minutesLate)', 'averageMinutesLate')
+      .groupBy('violation.type')
+      .getRawMany();
+
+    const repeatStudents = await query.clone()
+      .select('violation.studentId', 'studentId')
+      .addSelect('student.name', 'studentName')
+      .addSelect('COUNT(*)', 'violations')
+      .groupBy('violation.studentId')
+      .addGroupBy('student.name')
+      .having('COUNT(*) > 1')
+      .orderBy('violations', 'DESC')
+      .limit(10)
+      .getRawMany();
+
+    const [violations, total] = await query
+      .orderBy('violation.curfewAt', 'DESC')
+      .skip((page - 1) * limit)
+      .take(limit)
+      .getManyAndCount();
+
+    const countOf = (type: CurfewViolationType) => Number(totals.find(row => row.type === type)?.count || 0);
+    const lateReturnRow = totals.find(row => row.type === CurfewViolationType.LATE_RETURN);
+
+    return {
+      hostelId,
+      dateFrom: dateFrom || null,
+      dateTo: dateTo || null,
+      summary: {
+        totalViolations: countOf(CurfewViolationType.LATE_RETURN) + countOf(CurfewViolationType.NOT_RETURNED),
+        lateReturns: countOf(CurfewViolationType.LATE_RETURN),
+        notReturnedByCurfew: countOf(CurfewViolationType.NOT_RETURNED),
+        stillOut: totals.reduce((sum, row) => sum + Number(row.stillOut || 0), 0),
+        averageMinutesLate: lateReturnRow?.averageMinutesLate ? Math.round(Number(lateReturnRow.averageMinutesLate)) : 0,
+        repeatStudents: repeatStudents.map(row => ({
+          studentId: row.studentId,
+          studentName: row.studentName || 'Unknown',
+          violations: Number(row.violations)
+        }))
+      },
+      violations: violations.map(violation => ({
+        id: violation.id,
+        studentId: violation.studentId,
+        studentName: violation.student?.name || 'Unknown',
+        roomNumber: violation.student?.room?.roomNumber,
+        curfewDate: violation.curfewDate,
+        type: violation.type,
+        curfewAt: violation.curfewAt,
+        checkedOutAt: violation.checkedOutAt,
+        returnedAt: violation.returnedAt,
+        minutesLate: violation.minutesLate,
+        stillOut: !violation.returnedAt,
+        wardenNotified: !!violation.wardenNotifiedAt,
+        guardianNotified: !!violation.guardianNotifiedAt
+      })),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+        hasNext: page < Math.ceil(total / limit),
+        hasPrev: page > 1
+      }
+    };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Helpers
+  // ---------------------------------------------------------------------------
+
+  private async flagStudentsOut(hostelId: string, policies: CurfewPolicy[], now: Date) {
+    // Latest movement of each student is a check-out
+    const outRecords = await this.checkInOutRepository
+      .createQueryBuilder('record')
+      .innerJoin('record.student', 'student')
+      .where('record.hostelId = :hostelId', { hostelId })
+      .andWhere('record.status = :checkedOut', { checkedOut: CheckInOutStatus.CHECKED_OUT })
+      .andWhere('student.status = :active', { active: StudentStatus.ACTIVE })
+      .andWhere(`NOT EXISTS (
+        SELECT 1 FROM student_checkin_checkout later
+        WHERE later.student_id = record.student_id AND later.check_in_time > record.check_in_time
+      )`)
+      .getMany();
+
+    for (const record of outRecords) {
+      try {
+        const policy = await this.resolvePolicy(record.studentId, policies);
+        if (!policy) {
+          continue;
+        }
+
+        const night = this.getLastCurfewNight(policy, now);
+        if (new Date(record.checkOutTime) >= night.curfewAt) {
+          continue;
+        }
+        if (await this.hasApprovedExemption(record.studentId, night.curfewDate)) {
+          continue;
+        }
+
+        await this.flagViolation(policy, record.studentId, night, CurfewViolationType.NOT_RETURNED, record.checkOutTime, null);
+      } catch (error) {
+        this.logger.warn(`⚠️ Curfew check failed for student ${record.studentId}: ${error.message}`);
+      }
+    }
+  }
+
+  /**
+   * Insert the night's violation once (unique per student and night) and
+   * send the alerts; returns null when the night was already flagged
+   */
+  private async flagViolation(
+    policy: CurfewPolicy,
+    studentId: string,
+    night: CurfewNight,
+    type: CurfewViolationType,
+    checkedOutAt: Date | null,
+    returnedAt: Date | null
+  ) {
+    // The warden alert is queued with the violation itself
+    const flagged = await this.dataSource.transaction(async manager => {
+      const result = await manager
+        .createQueryBuilder()
+        .insert()
+        .into(CurfewViolation)
+        .values({
+          hostelId: policy.hostelId,
+          studentId,
+          policyId: policy.id,
+          curfewDate: night.curfewDate,
+          type,
+          curfewAt: night.curfewAt,
+          checkedOutAt,
+          returnedAt,
+          minutesLate: returnedAt ? minutesBetween(night.curfewAt, returnedAt) : null
+        })
+        .orIgnore()
+        .execute();
+
+      if (!result.raw?.length) {
+        return null;
+      }
+
+      const violation = await manager.findOne(CurfewViolation, { where: { id: result.raw[0].id } });
+      const student = await manager.findOne(Student, { where: { id: studentId }, relations: ['room'] });
+      await this.alertWardens(violation, student, policy, night, manager);
+      return { violation, student };
+    });
+
+    if (!flagged) {
+      return null;
+    }
+
+    this.logger.warn(`🌙 Curfew ${type} for student ${studentId} on ${night.curfewDate}`);
+
+    if (policy.notifyGuardian) {
+      await this.smsGuardian(flagged.violation, flagged.student, policy, night);
+    }
+    return flagged.violation;
+  }
+
+  private async alertWardens(
+    violation: CurfewViolation,
+    student: Student | null,
+    policy: CurfewPolicy,
+    night: CurfewNight,
+    manager: EntityManager
+  ) {
+    const lateReturn = violation.type === CurfewViolationType.LATE_RETURN;
+
+    const wardensNotified = await this.notifyWardens(policy.hostelId, {
+      template: lateReturn ? NotificationTemplateKey.CURFEW_LATE_RETURN : NotificationTemplateKey.CURFEW_MISSED,
+      variables: {
+        studentName: student?.name || 'A student',
+        roomNumber: student?.room?.roomNumber || '-',
+        curfewTime: night.curfewTime,
+        curfewDate: night.curfewDate,
+        ...(lateReturn && {
+          returnedAt: formatNepalTime(violation.returnedAt),
+          minutesLate: formatMinutes(violation.minutesLate)
+        })
+      },
+      metadata: { type: 'curfew_violation', violationId: violation.id, studentId: violation.studentId, curfewDate: night.curfewDate }
+    }, manager);
+
+    if (wardensNotified) {
+      violation.wardenNotifiedAt = new Date();
+      await manager.update(CurfewViolation, violation.id, { wardenNotifiedAt: violation.wardenNotifiedAt });
+    }
+  }
+
+  private async smsGuardian(violation: CurfewViolation, student: Student | null, policy: CurfewPolicy, night: CurfewNight) {
+    const contact = await this.contactRepository.findOne({
+      where: { studentId: violation.studentId, type: In([ContactType.GUARDIAN, ContactType.PARENT]), isActive: true },
+      order: { type: 'ASC', isPrimary: 'DESC', createdAt: 'ASC' }
+    });
+    if (!contact) {
+      return;
+    }
+
+    const studentName = student?.name || 'A student';
+    try {
+      await this.messagingService.send({
+        hostelId: policy.hostelId,
+        channel: MessageChannel.SMS,
+        recipient: contact.phone,
+        body: violation.type === CurfewViolationType.LATE_RETURN
+          ? `Dear ${contact.name}, ${studentName} returned to the hostel at ${formatNepalTime(violation.returnedAt)}, after the ${night.curfewTime} curfew.`
+          : `Dear ${contact.name}, ${studentName} had not returned to the hostel by the ${night.curfewTime} curfew on ${night.curfewDate}.`,
+        referenceType: 'curfew_violation',
+        referenceId: violation.id
+      });
+      violation.guardianNotifiedAt = new Date();
+      await this.violationRepository.update(violation.id, { guardianNotifiedAt: violation.guardianNotifiedAt });
+    } catch (error) {
+      this.logger.warn(`⚠️ Failed to send curfew SMS to guardian of student ${violation.studentId}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Alert the hostel's wardens, or its owners and managers when it has none.
+   * Returns whether anyone was notified.
+   */
+  private async notifyWardens(
+    hostelId: string,
+    notification: { template: NotificationTemplateKey; variables: Record<string, string | number>; metadata: Record<string, any> },
+    manager: EntityManager
+  ) {
+    let userIds = await this.staffRolesService.getActiveUserIds(hostelId, [HostelStaffRole.WARDEN]);
+    if (userIds.length === 0) {
+      userIds = await this.staffRolesService.getActiveUserIds(hostelId, [HostelStaffRole.OWNER, HostelStaffRole.MANAGER]);
+    }
+
+    for (const userId of userIds) {
+      await this.unifiedNotificationService.sendTemplateToUser({
+        userId,
+        hostelId,
+        template: notification.template,
+        variables: notification.variables,
+        metadata: notification.metadata
+      }, undefined, undefined, manager);
+    }
+
+    return userIds.length > 0;
+  }
+
+  private async getActivePolicies(hostelId: string) {
+    return this.policyRepository.find({ where: { hostelId, isActive: true } });
+  }
+
+  /**
+   * Gender-specific policy for the student's bed (or room) gender, else the hostel-wide one
+   */
+  private async resolvePolicy(studentId: string, policies: CurfewPolicy[]): Promise<CurfewPolicy | null> {
+    if (policies.some(policy => policy.gender)) {
+      const bed = await this.bedRepository.findOne({ where: { currentOccupantId: studentId }, relations: ['room'] });
+      const gender = [bed?.gender, bed?.room?.gender].find(value => value === 'Male' || value === 'Female');
+      const match = gender && policies.find(policy => policy.gender === gender);
+      if (match) {
+        return match;
+      }
+    }
+
+    return policies.find(policy => !policy.gender) || null;
+  }
+
+  private async hasApprovedExemption(studentId: string, curfewDate: string) {
+    const exempted = await this.exemptionRepository.exist({
+      where: {
+        studentId,
+        status: CurfewExemptionStatus.APPROVED,
+        startDate: LessThanOrEqual(curfewDate),
+        endDate: MoreThanOrEqual(curfewDate)
+      }
+    });
+
+    return exempted || this.leaveRequestsService.isOnLeave(studentId, curfewDate);
+  }
+
+  private async reviewExemption(
+    id: string,
+    hostelId: string,
+    status: CurfewExemptionStatus.APPROVED | CurfewExemptionStatus.REJECTED,
+    reviewDto: ReviewCurfewExemptionDto,
+    reviewedBy: string
+  ) {
+    const exemption = await this.exemptionRepository.findOne({ where: { id, hostelId }, relations: ['student'] });
+    if (!exemption) {
+      throw new NotFoundException(`Curfew exemption with ID ${id} not found`);
+    }
+
+    const reviewed = await this.dataSource.transaction(async manager => {
+      const claimed = await manager.update(
+        CurfewExemption,
+        { id, status: CurfewExemptionStatus.PENDING },
+        { status, reviewedBy, reviewedAt: new Date(), reviewNotes: reviewDto.notes || null }
+      );
+      if (!claimed.affected) {
+        throw new BadRequestException(`Exemption is already ${exemption.status.toLowerCase()}`);
+      }
+
+      const updated = await manager.findOne(CurfewExemption, { where: { id }, relations: ['student'] });
+
+      if (updated.student?.userId) {
+        const approved = status === CurfewExemptionStatus.APPROVED;
+        await this.unifiedNotificationService.sendTemplateToUser({
+          userId: updated.student.userId,
+          hostelId,
+          template: approved ? NotificationTemplateKey.CURFEW_EXEMPTION_APPROVED : NotificationTemplateKey.CURFEW_EXEMPTION_DECLINED,
+          variables: {
+            nights: formatNightRange(updated.startDate, updated.endDate),
+            notes: updated.reviewNotes || ''
+          },
+          metadata: { type: 'curfew_exemption', exemptionId: updated.id, status }
+        }, undefined, undefined, manager);
+      }
+
+      return updated;
+    });
+
+    return this.transformExemption(reviewed);
+  }
+
+  private async findPolicy(id: string, hostelId: string) {
+    const policy = await this.policyRepository.findOne({ where: { id, hostelId } });
+    if (!policy) {
+      throw new NotFoundException(`Curfew policy with ID ${id} not found`);
+    }
+    return policy;
+  }
+
+  private async assertNoActiveOverlap(policy: CurfewPolicy) {
+    if (!policy.isActive) {
+      return;
+    }
+
+    const where: FindOptionsWhere<CurfewPolicy> = {
+      hostelId: policy.hostelId,
+      isActive: true,
+      gender: policy.gender ? policy.gender : IsNull()
+    };
+    if (policy.id) {
+      where.id = Not(policy.id);
+    }
+
+    const existing = await this.policyRepository.findOne({ where });
+    if (existing) {
+      throw new BadRequestException(
+        `Active curfew policy "${existing.name}" already covers ${policy.gender ? `${policy.gender.toLowerCase()} students` : 'the whole hostel'}`
+      );
+    }
+  }
+
+  private transformExemption(exemption: CurfewExemption) {
+    return {
+      id: exemption.id,
+      studentId: exemption.studentId,
+      studentName: exemption.student?.name,
+      startDate: exemption.startDate,
+      endDate: exemption.endDate,
+      reason: exemption.reason,
+      status: exemption.status,
+      requestedBy: exemption.requestedBy,
+      reviewedBy: exemption.reviewedBy,
+      reviewedAt: exemption.reviewedAt,
+      reviewNotes: exemption.reviewNotes,
+      createdAt: exemption.createdAt
+    };
+  }
+}
+
+function assertDateRange(startDate: string, endDate: string) {
+  if (endDate < startDate) {
+    throw new BadRequestException('endDate must be on or after startDate');
+  }
+}
+
+function toNepalDate(instant: Date): string {
+  return new Date(new Date(instant).getTime() + NEPAL_UTC_OFFSET_MINUTES * MINUTE_MS).toISOString().slice(0, 10);
+}
+
+function formatNepalTime(instant: Date): string {
+  return new Date(new Date(instant).getTime() + NEPAL_UTC_OFFSET_MINUTES * MINUTE_MS).toISOString().slice(11, 16);
+}
+
+function addDays(date: string, days: number): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+}
+
+function minutesBetween(from: Date, to: Date): number {
+  return Math.max(0, Math.round((new Date(to).getTime() - new Date(from).getTime()) / MINUTE_MS));
+}
+
+function formatMinutes(minutes: number): string {
+  return minutes >= 60 ? `${Math.floor(minutes / 60)}h ${minutes % 60}m` : `${minutes}m`;
+}
+
+function formatNightRange(startDate: string, endDate: string): string {
+  return startDate === endDate ? `on ${startDate}` : `from ${startDate} to ${endDate}`;
+}
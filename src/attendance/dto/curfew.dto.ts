@@ -0,0 +1,165 @@
+import {
+  IsString,
+  IsOptional,
+  IsBoolean,
+  IsInt,
+  IsIn,
+  IsArray,
+  IsEnum,
+  IsUUID,
+  IsDateString,
+  ArrayUnique,
+  Matches,
+  Min,
+  Max,
+  MaxLength,
+  IsNotEmpty
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, PartialType } from '@nestjs/swagger';
+import { PaginationDto } from '../../common/dto/pagination.dto';
+import { CurfewExemptionStatus } from '../entities/curfew-exemption.entity';
+
+const CURFEW_TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export class CreateCurfewPolicyDto {
+  @ApiProperty({
+    description: 'Policy name',
+    example: 'Girls wing'
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+
+  @ApiProperty({
+    description: 'Applies only to students in beds/rooms of this gender; omit for everyone else',
+    enum: ['Male', 'Female'],
+    required: false
+  })
+  @IsOptional()
+  @IsIn(['Male', 'Female'])
+  gender?: 'Male' | 'Female';
+
+  @ApiProperty({
+    description: 'Curfew on weekday nights (Nepal time, HH:mm; before 12:00 means after midnight)',
+    example: '21:00'
+  })
+  @Matches(CURFEW_TIME_PATTERN, { message: 'weekdayCurfewTime must be HH:mm' })
+  weekdayCurfewTime: string;
+
+  @ApiProperty({
+    description: 'Curfew on weekend nights (Nepal time, HH:mm; before 12:00 means after midnight)',
+    example: '22:30'
+  })
+  @Matches(CURFEW_TIME_PATTERN, { message: 'weekendCurfewTime must be HH:mm' })
+  weekendCurfewTime: string;
+
+  @ApiProperty({
+    description: 'Nights using the weekend time (0 = Sunday night ... 6 = Saturday night)',
+    example: [5, 6],
+    required: false
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayUnique()
+  @IsInt({ each: true })
+  @Min(0, { each: true })
+  @Max(6, { each: true })
+  weekendDays?: number[];
+
+  @ApiProperty({
+    description: 'Minutes after curfew before a student counts as late',
+    example: 15,
+    required: false
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  @Max(240)
+  gracePeriodMinutes?: number;
+
+  @ApiProperty({
+    description: 'Also SMS the student\'s guardian contact',
+    example: true,
+    required: false
+  })
+  @IsOptional()
+  @IsBoolean()
+  notifyGuardian?: boolean;
+
+  @ApiProperty({
+    description: 'Whether the policy is enforced',
+    example: true,
+    required: false
+  })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
+
+export class UpdateCurfewPolicyDto extends PartialType(CreateCurfewPolicyDto) {}
+
+export class StudentCurfewExemptionDto {
+  @ApiProperty({
+    description: 'First night of the exemption (YYYY-MM-DD)',
+    example: '2025-11-07'
+  })
+  @IsDateString()
+  startDate: string;
+
+  @ApiProperty({
+    description: 'Last night of the exemption (YYYY-MM-DD)',
+    example: '2025-11-09'
+  })
+  @IsDateString()
+  endDate: string;
+
+  @ApiProperty({
+    description: 'Why the student will be out after curfew',
+    example: 'Going home for Tihar'
+  })
+  @IsString()
+  @IsNotEmpty()
+  reason: string;
+}
+
+export class CreateCurfewExemptionDto extends StudentCurfewExemptionDto {
+  @ApiProperty({
+    description: 'Student UUID',
+    example: '123e4567-e89b-12d3-a456-426614174000'
+  })
+  @IsUUID()
+  studentId: string;
+}
+
+export class ReviewCurfewExemptionDto {
+  @ApiProperty({
+    description: 'Reviewer notes',
+    example: 'Guardian confirmed by phone',
+    required: false
+  })
+  @IsOptional()
+  @IsString()
+  notes?: string;
+}
+
+export class CurfewExemptionFiltersDto extends PaginationDto {
+  @ApiProperty({
+    description: 'Filter by status',
+    enum: CurfewExemptionStatus,
+    required: false
+  })
+  @IsOptional()
+  @IsEnum(CurfewExemptionStatus)
+  status?: CurfewExemptionStatus;
+
+  @ApiProperty({
+    description: 'Student UUID (optional)',
+    required: false
+  })
+  @IsOptional()
+  @IsUUID()
+  studentId?: string;
+}
@@ -3,3 +3,7 @@ export * from './check-out.dto';
 export * from './student-check-in.dto';
 export * from './student-check-out.dto';
 export * from './attendance-filters.dto';
+export * from './presence-proof.dto';
+export * from './presence-policy.dto';
+export * from './rejected-attempts.dto';
+export * from './curfew.dto';
@@ -0,0 +1,83 @@
+import { IsBoolean, IsOptional, IsNumber, IsInt, Min, Max } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class UpdatePresencePolicyDto {
+  @ApiProperty({
+    description: 'Require the rotating gate QR code for student check-in/check-out',
+    example: true,
+    required: false
+  })
+  @IsOptional()
+  @IsBoolean()
+  requireQrCode?: boolean;
+
+  @ApiProperty({
+    description: 'How often the gate QR code changes, in seconds',
+    example: 60,
+    required: false
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(15)
+  @Max(3600)
+  qrRotationSeconds?: number;
+
+  @ApiProperty({
+    description: 'Require GPS coordinates for student check-in/check-out',
+    example: false,
+    required: false
+  })
+  @IsOptional()
+  @IsBoolean()
+  requireLocation?: boolean;
+
+  @ApiProperty({
+    description: 'Geofence centre latitude (null removes the geofence)',
+    example: 27.7172,
+    required: false
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(-90)
+  @Max(90)
+  latitude?: number | null;
+
+  @ApiProperty({
+    description: 'Geofence centre longitude (null removes the geofence)',
+    example: 85.324,
+    required: false
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(-180)
+  @Max(180)
+  longitude?: number | null;
+
+  @ApiProperty({
+    description: 'Geofence radius in meters',
+    example: 150,
+    required: false
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(10)
+  @Max(10000)
+  geofenceRadiusMeters?: number;
+
+  @ApiProperty({
+    description: 'Least accurate location fix accepted, in meters',
+    example: 100,
+    required: false
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(5)
+  @Max(5000)
+  maxLocationAccuracyMeters?: number;
+}
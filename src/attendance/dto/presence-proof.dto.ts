@@ -0,0 +1,53 @@
+import { IsString, IsOptional, IsNumber, Min, Max } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * Proof of presence sent with student self check-in/check-out.
+ * Which parts are required depends on the hostel's presence policy.
+ */
+export class PresenceProofDto {
+  @ApiProperty({
+    description: 'QR code scanned at the hostel gate',
+    example: 'v1.1761895200.9f2c...',
+    required: false
+  })
+  @IsOptional()
+  @IsString()
+  qrCode?: string;
+
+  @ApiProperty({
+    description: 'Device latitude',
+    example: 27.7172,
+    required: false
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(-90)
+  @Max(90)
+  latitude?: number;
+
+  @ApiProperty({
+    description: 'Device longitude',
+    example: 85.324,
+    required: false
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(-180)
+  @Max(180)
+  longitude?: number;
+
+  @ApiProperty({
+    description: 'Reported accuracy of the location fix in meters',
+    example: 12,
+    required: false
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  accuracy?: number;
+}
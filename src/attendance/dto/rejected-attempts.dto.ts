@@ -0,0 +1,59 @@
+import { IsEnum, IsIn, IsOptional, IsString, IsUUID } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { PaginationDto } from '../../common/dto/pagination.dto';
+import { AttemptReviewStatus } from '../entities/rejected-attendance-attempt.entity';
+
+export class RejectedAttemptFiltersDto extends PaginationDto {
+  @ApiProperty({
+    description: 'Filter by review status',
+    enum: AttemptReviewStatus,
+    required: false
+  })
+  @IsOptional()
+  @IsEnum(AttemptReviewStatus)
+  reviewStatus?: AttemptReviewStatus;
+
+  @ApiProperty({
+    description: 'Student UUID (optional)',
+    required: false
+  })
+  @IsOptional()
+  @IsUUID()
+  studentId?: string;
+
+  @ApiProperty({
+    description: 'Start date for range (YYYY-MM-DD)',
+    example: '2025-11-01',
+    required: false
+  })
+  @IsOptional()
+  @IsString()
+  dateFrom?: string;
+
+  @ApiProperty({
+    description: 'End date for range (YYYY-MM-DD)',
+    example: '2025-11-06',
+    required: false
+  })
+  @IsOptional()
+  @IsString()
+  dateTo?: string;
+}
+
+export class ReviewRejectedAttemptDto {
+  @ApiProperty({
+    description: 'DISMISSED for genuine attempts, FLAGGED when the student was likely not there',
+    enum: [AttemptReviewStatus.DISMISSED, AttemptReviewStatus.FLAGGED]
+  })
+  @IsIn([AttemptReviewStatus.DISMISSED, AttemptReviewStatus.FLAGGED])
+  reviewStatus: AttemptReviewStatus.DISMISSED | AttemptReviewStatus.FLAGGED;
+
+  @ApiProperty({
+    description: 'Warden notes',
+    example: 'GPS drift near the gate, student was seen by the guard',
+    required: false
+  })
+  @IsOptional()
+  @IsString()
+  notes?: string;
+}
@@ -1,7 +1,8 @@
 import { IsString, IsOptional } from 'class-validator';
 import { ApiProperty } from '@nestjs/swagger';
+import { PresenceProofDto } from './presence-proof.dto';
 
-export class StudentCheckInDto {
+export class StudentCheckInDto extends PresenceProofDto {
   @ApiProperty({
     description: 'Optional notes for check-in',
     example: 'Going to library',
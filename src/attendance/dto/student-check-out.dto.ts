@@ -1,7 +1,8 @@
 import { IsString, IsOptional } from 'class-validator';
 import { ApiProperty } from '@nestjs/swagger';
+import { PresenceProofDto } from './presence-proof.dto';
 
-export class StudentCheckOutDto {
+export class StudentCheckOutDto extends PresenceProofDto {
   @ApiProperty({
     description: 'Optional notes for check-out',
     example: 'Returning from library',
@@ -0,0 +1,47 @@
+import { Entity, Column, ManyToOne, JoinColumn, Index } from 'typeorm';
+import { BaseEntity } from '../../common/entities/base.entity';
+import { Hostel } from '../../hostel/entities/hostel.entity';
+
+/**
+ * Proof of presence a hostel asks for when students check themselves in or
+ * out from the app. QR codes rotate every `qrRotationSeconds` and are shown
+ * at the gate; the geofence is a circle around the hostel. Hostels without a
+ * policy (or with everything off) keep the old behaviour. Staff check-ins
+ * from the admin panel are never checked.
+ */
+@Entity('attendance_presence_policies')
+@Index(['hostelId'], { unique: true })
+export class AttendancePresencePolicy extends BaseEntity {
+  @Column({ name: 'hostel_id' })
+  hostelId: string;
+
+  // Student check-ins must carry the QR code currently shown at the gate
+  @Column({ name: 'require_qr_code', default: false })
+  requireQrCode: boolean;
+
+  @Column({ name: 'qr_rotation_seconds', type: 'int', default: 60 })
+  qrRotationSeconds: number;
+
+  // Student check-ins must send GPS coordinates; coordinates that are sent are always checked
+  @Column({ name: 'require_location', default: false })
+  requireLocation: boolean;
+
+  // Geofence centre - no location check without it
+  @Column({ type: 'decimal', precision: 10, scale: 7, nullable: true })
+  latitude: number;
+
+  @Column({ type: 'decimal', precision: 10, scale: 7, nullable: true })
+  longitude: number;
+
+  @Column({ name: 'geofence_radius_meters', type: 'int', default: 150 })
+  geofenceRadiusMeters: number;
+
+  // Fixes reported less accurate than this are rejected rather than trusted
+  @Column({ name: 'max_location_accuracy_meters', type: 'int', default: 100 })
+  maxLocationAccuracyMeters: number;
+
+  // Relations
+  @ManyToOne(() => Hostel, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'hostel_id' })
+  hostel: Hostel;
+}
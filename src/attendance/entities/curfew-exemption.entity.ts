@@ -0,0 +1,65 @@
+import { Entity, Column, ManyToOne, JoinColumn, Index } from 'typeorm';
+import { BaseEntity } from '../../common/entities/base.entity';
+import { Student } from '../../students/entities/student.entity';
+import { Hostel } from '../../hostel/entities/hostel.entity';
+
+export enum CurfewExemptionStatus {
+  PENDING = 'PENDING',      // Waiting for a warden
+  APPROVED = 'APPROVED',    // Curfew not checked for these nights
+  REJECTED = 'REJECTED',
+  CANCELLED = 'CANCELLED'   // Withdrawn by the student or revoked by staff
+}
+
+/**
+ * Nights (from startDate to endDate, both included) on which a student is
+ * excused from curfew - night shifts, trips home, exams. Only approved
+ * exemptions count.
+ */
+@Entity('curfew_exemptions')
+@Index(['hostelId', 'status'])
+@Index(['studentId', 'startDate', 'endDate'])
+export class CurfewExemption extends BaseEntity {
+  @Column({ name: 'hostel_id' })
+  hostelId: string;
+
+  @Column({ name: 'student_id' })
+  studentId: string;
+
+  @Column({ name: 'start_date', type: 'date' })
+  startDate: string;
+
+  @Column({ name: 'end_date', type: 'date' })
+  endDate: string;
+
+  @Column({ type: 'text' })
+  reason: string;
+
+  @Column({
+    type: 'enum',
+    enum: CurfewExemptionStatus,
+    default: CurfewExemptionStatus.PENDING
+  })
+  status: CurfewExemptionStatus;
+
+  // Student user id when requested from the app, staff user id otherwise
+  @Column({ name: 'requested_by', nullable: true })
+  requestedBy: string;
+
+  @Column({ name: 'reviewed_by', nullable: true })
+  reviewedBy: string;
+
+  @Column({ name: 'reviewed_at', type: 'timestamp', nullable: true })
+  reviewedAt: Date;
+
+  @Column({ name: 'review_notes', type: 'text', nullable: true })
+  reviewNotes: string;
+
+  // Relations
+  @ManyToOne(() => Student, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'student_id' })
+  student: Student;
+
+  @ManyToOne(() => Hostel, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'hostel_id' })
+  hostel: Hostel;
+}
@@ -0,0 +1,50 @@
+import { Entity, Column, ManyToOne, JoinColumn, Index } from 'typeorm';
+import { BaseEntity } from '../../common/entities/base.entity';
+import { Hostel } from '../../hostel/entities/hostel.entity';
+
+/**
+ * Time by which students must be checked in for the night. Times are Nepal
+ * time "HH:mm"; times before noon belong to the early morning after the
+ * night (00:30 on Friday night is Saturday 00:30). A policy with a gender
+ * applies to students in beds/rooms of that gender and takes precedence over
+ * the hostel's policy without one.
+ */
+@Entity('curfew_policies')
+@Index(['hostelId', 'isActive'])
+export class CurfewPolicy extends BaseEntity {
+  @Column({ name: 'hostel_id' })
+  hostelId: string;
+
+  @Column({ length: 100 })
+  name: string;
+
+  // Null applies to everyone without a gender-specific policy
+  @Column({ length: 10, nullable: true })
+  gender: 'Male' | 'Female';
+
+  @Column({ name: 'weekday_curfew_time', length: 5 })
+  weekdayCurfewTime: string;
+
+  @Column({ name: 'weekend_curfew_time', length: 5 })
+  weekendCurfewTime: string;
+
+  // Nights (0 = Sunday) that use the weekend time - by default the nights before Saturday and Sunday
+  @Column({ name: 'weekend_days', type: 'jsonb', default: () => "'[5,6]'" })
+  weekendDays: number[];
+
+  // Minutes after the curfew time before a student counts as late
+  @Column({ name: 'grace_period_minutes', type: 'int', default: 0 })
+  gracePeriodMinutes: number;
+
+  // SMS the student's guardian contact as well as alerting the warden
+  @Column({ name: 'notify_guardian', default: true })
+  notifyGuardian: boolean;
+
+  @Column({ name: 'is_active', default: true })
+  isActive: boolean;
+
+  // Relations
+  @ManyToOne(() => Hostel, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'hostel_id' })
+  hostel: Hostel;
+}
@@ -0,0 +1,70 @@
+import { Entity, Column, ManyToOne, JoinColumn, Index } from 'typeorm';
+import { BaseEntity } from '../../common/entities/base.entity';
+import { Student } from '../../students/entities/student.entity';
+import { Hostel } from '../../hostel/entities/hostel.entity';
+import { CurfewPolicy } from './curfew-policy.entity';
+
+export enum CurfewViolationType {
+  NOT_RETURNED = 'NOT_RETURNED',  // Still checked out when the curfew sweep ran
+  LATE_RETURN = 'LATE_RETURN'     // Checked in after curfew before the sweep saw them out
+}
+
+/**
+ * One per student per curfew night. A NOT_RETURNED violation gets its
+ * returnedAt/minutesLate filled in when the student checks back in.
+ */
+@Entity('curfew_violations')
+@Index(['studentId', 'curfewDate'], { unique: true })
+@Index(['hostelId', 'curfewDate'])
+export class CurfewViolation extends BaseEntity {
+  @Column({ name: 'hostel_id' })
+  hostelId: string;
+
+  @Column({ name: 'student_id' })
+  studentId: string;
+
+  @Column({ name: 'policy_id', nullable: true })
+  policyId: string;
+
+  // The night the curfew belongs to (Nepal date)
+  @Column({ name: 'curfew_date', type: 'date' })
+  curfewDate: string;
+
+  @Column({
+    type: 'enum',
+    enum: CurfewViolationType
+  })
+  type: CurfewViolationType;
+
+  // Curfew time plus grace period
+  @Column({ name: 'curfew_at', type: 'timestamptz' })
+  curfewAt: Date;
+
+  @Column({ name: 'checked_out_at', type: 'timestamptz', nullable: true })
+  checkedOutAt: Date;
+
+  @Column({ name: 'returned_at', type: 'timestamptz', nullable: true })
+  returnedAt: Date;
+
+  @Column({ name: 'minutes_late', type: 'int', nullable: true })
+  minutesLate: number;
+
+  @Column({ name: 'warden_notified_at', type: 'timestamptz', nullable: true })
+  wardenNotifiedAt: Date;
+
+  @Column({ name: 'guardian_notified_at', type: 'timestamptz', nullable: true })
+  guardianNotifiedAt: Date;
+
+  // Relations
+  @ManyToOne(() => Student, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'student_id' })
+  student: Student;
+
+  @ManyToOne(() => Hostel, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'hostel_id' })
+  hostel: Hostel;
+
+  @ManyToOne(() => CurfewPolicy, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'policy_id' })
+  policy: CurfewPolicy;
+}
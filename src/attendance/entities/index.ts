@@ -1,2 +1,7 @@
 export * from './student-attendance.entity';
 export * from './student-checkin-checkout.entity';
+export * from './attendance-presence-policy.entity';
+export * from './rejected-attendance-attempt.entity';
+export * from './curfew-policy.entity';
+export * from './curfew-exemption.entity';
+export * from './curfew-violation.entity';
@@ -0,0 +1,90 @@
+import { Entity, Column, ManyToOne, JoinColumn, Index } from 'typeorm';
+import { BaseEntity } from '../../common/entities/base.entity';
+import { Student } from '../../students/entities/student.entity';
+import { Hostel } from '../../hostel/entities/hostel.entity';
+
+export enum AttendanceAttemptAction {
+  CHECK_IN = 'CHECK_IN',
+  CHECK_OUT = 'CHECK_OUT'
+}
+
+export enum PresenceRejectionReason {
+  QR_CODE_MISSING = 'QR_CODE_MISSING',          // Policy requires a QR code, none was sent
+  QR_CODE_INVALID = 'QR_CODE_INVALID',          // Not signed by us, or for another hostel
+  QR_CODE_EXPIRED = 'QR_CODE_EXPIRED',          // Signed, but rotated out
+  LOCATION_MISSING = 'LOCATION_MISSING',        // Policy requires coordinates, none were sent
+  LOCATION_INACCURATE = 'LOCATION_INACCURATE',  // Reported accuracy worse than the policy allows
+  OUTSIDE_GEOFENCE = 'OUTSIDE_GEOFENCE'         // Farther from the hostel than the geofence radius
+}
+
+export enum AttemptReviewStatus {
+  PENDING = 'PENDING',
+  DISMISSED = 'DISMISSED',  // Genuine attempt (bad GPS, slow scan...)
+  FLAGGED = 'FLAGGED'       // Looks like the student was not there
+}
+
+/**
+ * A student self check-in or check-out that failed the hostel's presence
+ * policy. Kept with what was sent and why it failed so wardens can review it.
+ */
+@Entity('rejected_attendance_attempts')
+@Index(['hostelId', 'reviewStatus'])
+@Index(['studentId', 'createdAt'])
+export class RejectedAttendanceAttempt extends BaseEntity {
+  @Column({ name: 'hostel_id' })
+  hostelId: string;
+
+  @Column({ name: 'student_id' })
+  studentId: string;
+
+  @Column({
+    type: 'enum',
+    enum: AttendanceAttemptAction
+  })
+  action: AttendanceAttemptAction;
+
+  @Column({ type: 'jsonb' })
+  reasons: PresenceRejectionReason[];
+
+  @Column({ name: 'qr_code_sent', default: false })
+  qrCodeSent: boolean;
+
+  @Column({ type: 'decimal', precision: 10, scale: 7, nullable: true })
+  latitude: number;
+
+  @Column({ type: 'decimal', precision: 10, scale: 7, nullable: true })
+  longitude: number;
+
+  @Column({ name: 'accuracy_meters', type: 'decimal', precision: 10, scale: 2, nullable: true })
+  accuracyMeters: number;
+
+  // From the geofence centre, when coordinates were sent
+  @Column({ name: 'distance_meters', type: 'decimal', precision: 10, scale: 2, nullable: true })
+  distanceMeters: number;
+
+  @Column({
+    name: 'review_status',
+    type: 'enum',
+    enum: AttemptReviewStatus,
+    default: AttemptReviewStatus.PENDING
+  })
+  reviewStatus: AttemptReviewStatus;
+
+  @Column({ name: 'reviewed_by', nullable: true })
+  reviewedBy: string;
+
+  @Column({ name: 'reviewed_at', type: 'timestamp', nullable: true })
+  reviewedAt: Date;
+
+  @Column({ name: 'review_notes', type: 'text', nullable: true })
+  reviewNotes: string;
+
+  // Relations
+  @ManyToOne(() => Student, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'student_id' })
+  student: Student;
+
+  @ManyToOne(() => Hostel, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'hostel_id' })
+  hostel: Hostel;
+}
@@ -0,0 +1,45 @@
+import { Controller, Get, Query, HttpStatus, UseGuards } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
+import { HostelAuditService } from '../hostel/services/hostel-audit.service';
+import { AuditLogFilterDto } from './dto';
+import { GetHostelId } from '../hostel/decorators/hostel-context.decorator';
+import { HostelAuthWithContextGuard } from '../auth/guards/hostel-auth-with-context.guard';
+import { RolesGuard } from '../staff-roles/guards/roles.guard';
+import { Permissions } from '../staff-roles/decorators/permissions.decorator';
+import { Permission } from '../staff-roles/permissions';
+
+@ApiTags('audit')
+@Controller('audit')
+@UseGuards(HostelAuthWithContextGuard, RolesGuard)
+@Permissions(Permission.AUDIT_VIEW)
+@ApiBearerAuth()
+export class AuditController {
+  constructor(private readonly hostelAuditService: HostelAuditService) { }
+
+  @Get()
+  @ApiOperation({ summary: 'Get the hostel audit trail (filter by entity, user, operation and date range)' })
+  @ApiResponse({ status: 200, description: 'Audit logs retrieved successfully' })
+  async getAuditLogs(@GetHostelId() hostelId: string, @Query() filters: AuditLogFilterDto) {
+    const logs = await this.hostelAuditService.findLogs(hostelId, filters);
+
+    return {
+      status: HttpStatus.OK,
+      data: logs
+    };
+  }
+
+  @Get('summary')
+  @ApiOperation({ summary: 'Get audit totals, top operations and most active users' })
+  @ApiResponse({ status: 200, description: 'Audit summary retrieved successfully' })
+  async getAuditSummary(@GetHostelId() hostelId: string, @Query() filters: AuditLogFilterDto) {
+    const timeRange = filters.dateFrom && filters.dateTo
+      ? { from: new Date(filters.dateFrom), to: new Date(filters.dateTo) }
+      : undefined;
+    const summary = await this.hostelAuditService.getAuditSummary(hostelId, timeRange);
+
+    return {
+      status: HttpStatus.OK,
+      data: summary
+    };
+  }
+}
@@ -0,0 +1,23 @@
+import { Module } from '@nestjs/common';
+import { APP_INTERCEPTOR } from '@nestjs/core';
+import { AuditController } from './audit.controller';
+import { AuditInterceptor } from './interceptors/audit.interceptor';
+import { AuthModule } from '../auth/auth.module';
+import { HostelModule } from '../hostel/hostel.module';
+import { StaffRolesModule } from '../staff-roles/staff-roles.module';
+
+@Module({
+  imports: [
+    AuthModule,
+    HostelModule,
+    StaffRolesModule,
+  ],
+  controllers: [AuditController],
+  providers: [
+    {
+      provide: APP_INTERCEPTOR,
+      useClass: AuditInterceptor,
+    },
+  ],
+})
+export class AuditModule {}
@@ -0,0 +1,23 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const AUDIT_KEY = 'auditOptions';
+
+export interface AuditOptions {
+  // Entity class loaded before and after the request to build the diff
+  entity: Function;
+  // Name stored in audit_logs.entity_type, defaults to the entity class name
+  entityType?: string;
+  // Route param holding the entity id, defaults to "id"
+  idParam?: string;
+}
+
+/**
+ * Record POST/PUT/PATCH/DELETE requests of a controller or handler in audit_logs.
+ * A handler-level @Audited() overrides the controller-level one.
+ */
+export const Audited = (options: AuditOptions) => SetMetadata(AUDIT_KEY, options);
+
+/**
+ * Exclude a handler of an audited controller (searches, previews, calculations)
+ */
+export const SkipAudit = () => SetMetadata(AUDIT_KEY, false);
@@ -0,0 +1,43 @@
+import { IsBoolean, IsDateString, IsEnum, IsOptional, IsString } from 'class-validator';
+import { Transform } from 'class-transformer';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { PaginationDto } from '../../common/dto/pagination.dto';
+import { AuditOperation } from '../entities/audit-log.entity';
+
+export class AuditLogFilterDto extends PaginationDto {
+  @ApiPropertyOptional({ description: 'Filter by entity type', example: 'LedgerEntryV2' })
+  @IsOptional()
+  @IsString()
+  entityType?: string;
+
+  @ApiPropertyOptional({ description: 'Filter by entity ID' })
+  @IsOptional()
+  @IsString()
+  entityId?: string;
+
+  @ApiPropertyOptional({ description: 'Filter by the user who performed the operation' })
+  @IsOptional()
+  @IsString()
+  userId?: string;
+
+  @ApiPropertyOptional({ description: 'Filter by operation', enum: AuditOperation })
+  @IsOptional()
+  @IsEnum(AuditOperation)
+  operation?: AuditOperation;
+
+  @ApiPropertyOptional({ description: 'Only successful (true) or failed (false) operations' })
+  @IsOptional()
+  @Transform(({ value }) => value === true || value === 'true' ? true : value === false || value === 'false' ? false : value)
+  @IsBoolean()
+  success?: boolean;
+
+  @ApiPropertyOptional({ description: 'Start of the date range (inclusive)', example: '2025-11-01' })
+  @IsOptional()
+  @IsDateString()
+  dateFrom?: string;
+
+  @ApiPropertyOptional({ description: 'End of the date range (inclusive)', example: '2025-11-30' })
+  @IsOptional()
+  @IsDateString()
+  dateTo?: string;
+}
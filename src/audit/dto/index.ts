@@ -0,0 +1 @@
+export { AuditLogFilterDto } from './audit-log-filter.dto';
@@ -0,0 +1,83 @@
+import { Entity, Column, Index } from 'typeorm';
+import { BaseEntity } from '../../common/entities/base.entity';
+
+export enum AuditOperation {
+  CREATE = 'CREATE',
+  READ = 'READ',
+  UPDATE = 'UPDATE',
+  DELETE = 'DELETE',
+  SECURITY_VIOLATION = 'SECURITY_VIOLATION'
+}
+
+/**
+ * One row per audited operation or security violation.
+ * before/after hold the entity row around the request; changes lists only the
+ * fields that differ ({ field: { from, to } }).
+ */
+@Entity('audit_logs')
+@Index(['hostelId', 'createdAt'])
+@Index(['entityType', 'entityId'])
+@Index(['userId'])
+export class AuditLog extends BaseEntity {
+  // Null when the request had no hostel context (e.g. public booking requests)
+  @Column({ name: 'hostel_id', type: 'varchar', length: 255, nullable: true })
+  hostelId: string;
+
+  @Column({ name: 'user_id', type: 'varchar', length: 255, nullable: true })
+  userId: string;
+
+  @Column({ name: 'kaha_id', type: 'varchar', length: 255, nullable: true })
+  kahaId: string;
+
+  @Column({ type: 'varchar', length: 50 })
+  operation: string;
+
+  // Controller handler that performed the operation, e.g. reverseEntry
+  @Column({ type: 'varchar', length: 100, nullable: true })
+  action: string;
+
+  @Column({ name: 'entity_type', type: 'varchar', length: 100 })
+  entityType: string;
+
+  @Column({ name: 'entity_id', type: 'varchar', length: 255, nullable: true })
+  entityId: string;
+
+  @Column({ default: true })
+  success: boolean;
+
+  @Column({ name: 'error_message', type: 'text', nullable: true })
+  errorMessage: string;
+
+  @Column({ name: 'violation_type', type: 'varchar', length: 50, nullable: true })
+  violationType: string;
+
+  @Column({ type: 'jsonb', nullable: true })
+  before: Record<string, any>;
+
+  @Column({ type: 'jsonb', nullable: true })
+  after: Record<string, any>;
+
+  @Column({ type: 'jsonb', nullable: true })
+  changes: Record<string, { from: any; to: any }>;
+
+  @Column({ type: 'jsonb', nullable: true })
+  details: Record<string, any>;
+
+  @Column({ type: 'varchar', length: 10, nullable: true })
+  method: string;
+
+  @Column({ type: 'varchar', length: 500, nullable: true })
+  path: string;
+
+  @Column({ name: 'status_code', type: 'int', nullable: true })
+  statusCode: number;
+
+  @Column({ name: 'duration_ms', type: 'int', nullable: true })
+  durationMs: number;
+
+  @Column({ type: 'varchar', length: 100, nullable: true })
+  ip: string;
+
+  @Column({ name: 'user_agent', type: 'varchar', length: 500, nullable: true })
+  userAgent: string;
+}
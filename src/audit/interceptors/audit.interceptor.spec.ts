@@ -0,0 +1,116 @@
+import { Reflector } from '@nestjs/core';
+import { lastValueFrom, of, throwError } from 'rxjs';
+import { AuditInterceptor, computeChanges } from './audit.interceptor';
+import { AuditOperation } from '../entities/audit-log.entity';
+import { AUDIT_KEY } from '../decorators/audited.decorator';
+
+class TestEntity { }
+
+describe('AuditInterceptor', () => {
+  let interceptor: AuditInterceptor;
+  let request: any;
+
+  const mockRepository = {
+    findOne: jest.fn(),
+  };
+
+  const mockDataSource = {
+    getRepository: jest.fn(() => mockRepository),
+  };
+
+  const mockHostelAuditService = {
+    logOperation: jest.fn().mockResolvedValue(undefined),
+  };
+
+  const buildContext = (metadata: any) => {
+    function reverseEntry() { return undefined; }
+    Reflect.defineMetadata(AUDIT_KEY, metadata, reverseEntry);
+    return {
+      getType: () => 'http',
+      getHandler: () => reverseEntry,
+      getClass: () => class TestController { },
+      switchToHttp: () => ({
+        getRequest: () => request,
+        getResponse: () => ({ statusCode: 200 })
+      })
+    } as any;
+  };
+
+  beforeEach(() => {
+    interceptor = new AuditInterceptor(new Reflector(), mockDataSource as any, mockHostelAuditService as any);
+    request = {
+      method: 'POST',
+      params: { entryId: 'entry-1' },
+      originalUrl: '/ledger-v2/entries/entry-1/reverse',
+      headers: { 'user-agent': 'jest' },
+      user: { id: 'user-1', kahaId: 'kaha-1' },
+      hostelContext: { hostelId: 'hostel-1' }
+    };
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('computeChanges', () => {
+    it('should list only changed fields and ignore updatedAt', () => {
+      const changes = computeChanges(
+        { id: '1', isReversed: false, amount: 100, updatedAt: 'a' },
+        { id: '1', isReversed: true, amount: 100, updatedAt: 'b' }
+      );
+
+      expect(changes).toEqual({ isReversed: { from: false, to: true } });
+    });
+  });
+
+  describe('intercept', () => {
+    it('should record before/after snapshots and the diff of an audited route', async () => {
+      mockRepository.findOne
+        .mockResolvedValueOnce({ id: 'entry-1', isReversed: false })
+        .mockResolvedValueOnce({ id: 'entry-1', isReversed: true });
+
+      const context = buildContext({ entity: TestEntity, entityType: 'LedgerEntryV2', idParam: 'entryId' });
+      const result = await lastValueFrom(
+        interceptor.intercept(context, { handle: () => of({ status: 200, data: { reversed: true } }) })
+      );
+
+      expect(result).toEqual({ status: 200, data: { reversed: true } });
+      expect(mockHostelAuditService.logOperation).toHaveBeenCalledWith(expect.objectContaining({
+        hostelId: 'hostel-1',
+        userId: 'user-1',
+        operation: AuditOperation.UPDATE,
+        action: 'reverseEntry',
+        entityType: 'LedgerEntryV2',
+        entityId: 'entry-1',
+        changes: { isReversed: { from: false, to: true } },
+        success: true
+      }));
+    });
+
+    it('should record failed requests and rethrow the error', async () => {
+      mockRepository.findOne.mockResolvedValue({ id: 'entry-1', isReversed: true });
+
+      const context = buildContext({ entity: TestEntity, idParam: 'entryId' });
+      const handler = { handle: () => throwError(() => Object.assign(new Error('Entry already reversed'), { status: 400 })) };
+
+      await expect(lastValueFrom(interceptor.intercept(context, handler))).rejects.toThrow('Entry already reversed');
+      expect(mockHostelAuditService.logOperation).toHaveBeenCalledWith(expect.objectContaining({
+        success: false,
+        errorMessage: 'Entry already reversed',
+        statusCode: 400,
+        changes: {}
+      }));
+    });
+
+    it('should skip reads and routes without @Audited()', async () => {
+      request.method = 'GET';
+      await lastValueFrom(interceptor.intercept(buildContext({ entity: TestEntity }), { handle: () => of({}) }));
+
+      request.method = 'POST';
+      await lastValueFrom(interceptor.intercept(buildContext(false), { handle: () => of({}) }));
+
+      expect(mockRepository.findOne).not.toHaveBeenCalled();
+      expect(mockHostelAuditService.logOperation).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,130 @@
+import { Injectable, NestInterceptor, ExecutionContext, CallHandler, Logger } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { DataSource } from 'typeorm';
+import { Observable, from, throwError } from 'rxjs';
+import { catchError, mergeMap } from 'rxjs/operators';
+import { HostelAuditService } from '../../hostel/services/hostel-audit.service';
+import { AuditOperation } from '../entities/audit-log.entity';
+import { AUDIT_KEY, AuditOptions } from '../decorators/audited.decorator';
+
+const MUTATING_METHODS = ['POST', 'PUT', 'PATCH', 'DELETE'];
+
+// Bookkeeping columns that change on every save
+const IGNORED_FIELDS = ['updatedAt'];
+
+/**
+ * Field-level differences between two entity snapshots
+ */
+export function computeChanges(
+  before: Record<string, any> | null,
+  after: Record<string, any> | null
+): Record<string, { from: any; to: any }> {
+  const changes: Record<string, { from: any; to: any }> = {};
+  const keys = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+
+  for (const key of keys) {
+    if (IGNORED_FIELDS.includes(key)) {
+      continue;
+    }
+    const from = before?.[key] ?? null;
+    const to = after?.[key] ?? null;
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes[key] = { from, to };
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Audit Interceptor
+ * Registered globally; only acts on mutating requests to routes marked with
+ * @Audited(). Loads the entity before the handler runs and again afterwards,
+ * then writes the snapshots and their diff to audit_logs. Failed requests are
+ * recorded too, with the error message.
+ */
+@Injectable()
+export class AuditInterceptor implements NestInterceptor {
+  private readonly logger = new Logger(AuditInterceptor.name);
+
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly dataSource: DataSource,
+    private readonly hostelAuditService: HostelAuditService
+  ) { }
+
+  intercept(context: ExecutionContext, next: CallHandler): Observable<any> {
+    if (context.getType() !== 'http') {
+      return next.handle();
+    }
+
+    const options = this.reflector.getAllAndOverride<AuditOptions | false>(AUDIT_KEY, [
+      context.getHandler(),
+      context.getClass()
+    ]);
+    const request = context.switchToHttp().getRequest();
+
+    if (!options || !MUTATING_METHODS.includes(request.method)) {
+      return next.handle();
+    }
+
+    const startedAt = Date.now();
+    const routeEntityId: string | undefined = request.params?.[options.idParam || 'id'];
+
+    const record = (before: Record<string, any> | null, result: any, error?: any) => {
+      const entityId = routeEntityId || result?.data?.id || result?.id;
+      const isDelete = request.method === 'DELETE';
+
+      return from((async () => {
+        const after = entityId ? await this.loadSnapshot(options, entityId) : null;
+        // Some handlers report failures as { success: false } instead of throwing
+        const success = !error && result?.success !== false;
+
+        await this.hostelAuditService.logOperation({
+          hostelId: request.hostelContext?.hostelId || after?.hostelId || before?.hostelId || null,
+          userId: request.user?.id,
+          kahaId: request.user?.kahaId,
+          operation: isDelete ? AuditOperation.DELETE : routeEntityId ? AuditOperation.UPDATE : AuditOperation.CREATE,
+          action: context.getHandler().name,
+          entityType: options.entityType || options.entity.name,
+          entityId,
+          before,
+          after,
+          changes: computeChanges(before, after),
+          details: request.params && Object.keys(request.params).length > 0 ? { params: request.params } : undefined,
+          success,
+          errorMessage: error?.message || (success ? undefined : result?.message),
+          method: request.method,
+          path: request.originalUrl || request.url,
+          statusCode: error ? error.status || 500 : context.switchToHttp().getResponse()?.statusCode,
+          durationMs: Date.now() - startedAt,
+          ip: request.ip,
+          userAgent: request.headers?.['user-agent'],
+          timestamp: new Date()
+        });
+      })());
+    };
+
+    return from(this.loadSnapshot(options, routeEntityId)).pipe(
+      mergeMap(before => next.handle().pipe(
+        mergeMap(result => record(before, result).pipe(mergeMap(async () => result))),
+        catchError(error => record(before, null, error).pipe(mergeMap(() => throwError(() => error))))
+      ))
+    );
+  }
+
+  private async loadSnapshot(options: AuditOptions, entityId?: string): Promise<Record<string, any> | null> {
+    if (!entityId) {
+      return null;
+    }
+
+    try {
+      const entity = await this.dataSource.getRepository(options.entity).findOne({ where: { id: entityId } as any });
+      // Plain JSON copy so later mutations of the entity don't leak into the snapshot
+      return entity ? JSON.parse(JSON.stringify(entity)) : null;
+    } catch (error) {
+      this.logger.warn(`⚠️ Could not load ${options.entity.name} ${entityId} for audit: ${error.message}`);
+      return null;
+    }
+  }
+}
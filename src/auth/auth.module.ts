@@ -1,4 +1,4 @@
-import { Module } from '@nestjs/common';
+import { Module, forwardRef } from '@nestjs/common';
 import { PassportModule } from '@nestjs/passport';
 import { ConfigModule } from '@nestjs/config';
 import { JwtTokenModule } from './jwt-token.module';
@@ -16,7 +16,7 @@ import { PublicBusinessIdGuard } from './guards/public-business-id.guard';
     ConfigModule,
     PassportModule.register({ defaultStrategy: 'jwt' }),
     JwtTokenModule,
-    HostelModule,
+    forwardRef(() => HostelModule),
   ],
   providers: [
     JwtStrategy,
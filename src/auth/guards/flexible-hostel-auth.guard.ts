@@ -45,7 +45,12 @@ export class FlexibleHostelAuthGuard extends JwtAuthGuard {
       const businessId = user.businessId || businessIdFromQuery;
       
       // Set up hostel context
-      const hostel = await this.hostelService.ensureHostelExists(businessId);
+      // Only a business token makes its user the owner of a hostel created here
+      const hostel = await this.hostelService.ensureHostelExists(
+        businessId,
+        undefined,
+        user.businessId ? user.id : undefined,
+      );
 
       if (!hostel || !hostel.isActive) {
         throw new ForbiddenException(
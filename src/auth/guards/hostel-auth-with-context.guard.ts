@@ -48,7 +48,7 @@ export class HostelAuthWithContextGuard extends JwtAuthGuard {
 
     try {
       // Set up hostel context
-      const hostel = await this.hostelService.ensureHostelExists(user.businessId);
+      const hostel = await this.hostelService.ensureHostelExists(user.businessId, undefined, user.id);
 
       if (!hostel || !hostel.isActive) {
         throw new ForbiddenException(
@@ -4,11 +4,27 @@ import { ExtractJwt, Strategy } from 'passport-jwt';
 import { ConfigService } from '@nestjs/config';
 import { JwtPayload } from '../interfaces/jwt-payload.interface';
 
+/**
+ * The browser's EventSource cannot set headers, so event streams may carry
+ * the token in the access_token query parameter. Other requests may not,
+ * which keeps tokens out of ordinary URLs and their logs.
+ */
+const fromEventStreamQuery = (request: any): string | null => {
+  const accept = request?.headers?.accept || '';
+  if (!accept.includes('text/event-stream')) {
+    return null;
+  }
+  return typeof request.query?.access_token === 'string' ? request.query.access_token : null;
+};
+
 @Injectable()
 export class JwtStrategy extends PassportStrategy(Strategy) {
   constructor(private readonly configService: ConfigService) {
     super({
-      jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(),
+      jwtFromRequest: ExtractJwt.fromExtractors([
+        ExtractJwt.fromAuthHeaderAsBearerToken(),
+        fromEventStreamQuery,
+      ]),
       ignoreExpiration: false,
       secretOrKey: configService.get<string>('JWT_SECRET_TOKEN'),
     });
@@ -0,0 +1,204 @@
+import {
+  Controller, Get, Post, Put, Body, Param, Query, HttpStatus, UseGuards, UseInterceptors, UploadedFile
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiConsumes } from '@nestjs/swagger';
+import { BankStatementsService } from './services/bank-statements.service';
+import {
+  SaveBankMappingDto,
+  ImportStatementDto,
+  StatementLineFilterDto,
+  ConfirmStatementLineDto,
+  ReconcileStatementLineDto,
+  IgnoreStatementLineDto
+} from './dto';
+import { BankStatementLine } from './entities/bank-statement-line.entity';
+import { BankStatementImport } from './entities/bank-statement-import.entity';
+import { BankStatementMapping } from './entities/bank-statement-mapping.entity';
+import { PaginationDto } from '../common/dto/pagination.dto';
+import { GetHostelId } from '../hostel/decorators/hostel-context.decorator';
+import { HostelAuthWithContextGuard } from '../auth/guards/hostel-auth-with-context.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { JwtPayload } from '../auth/interfaces/jwt-payload.interface';
+import { RolesGuard } from '../staff-roles/guards/roles.guard';
+import { Permissions } from '../staff-roles/decorators/permissions.decorator';
+import { Permission } from '../staff-roles/permissions';
+import { Audited } from '../audit/decorators/audited.decorator';
+
+const MAX_STATEMENT_SIZE = 5 * 1024 * 1024;
+
+@ApiTags('bank-statements')
+@Controller('bank-statements')
+@UseGuards(HostelAuthWithContextGuard, RolesGuard)
+@Permissions(Permission.BANK_RECONCILE)
+@Audited({ entity: BankStatementLine })
+@ApiBearerAuth()
+export class BankStatementsController {
+  constructor(private readonly bankStatementsService: BankStatementsService) { }
+
+  @Get('mappings')
+  @ApiOperation({ summary: 'Get the CSV column mappings configured per bank' })
+  @ApiResponse({ status: 200, description: 'Mappings retrieved successfully' })
+  async getMappings(@GetHostelId() hostelId: string) {
+    const mappings = await this.bankStatementsService.getMappings(hostelId);
+
+    return {
+      status: HttpStatus.OK,
+      data: mappings
+    };
+  }
+
+  @Put('mappings')
+  @Audited({ entity: BankStatementMapping })
+  @ApiOperation({ summary: 'Create or update the CSV column mapping for a bank' })
+  @ApiResponse({ status: 200, description: 'Mapping saved' })
+  async saveMapping(@GetHostelId() hostelId: string, @Body() mappingDto: SaveBankMappingDto) {
+    const mapping = await this.bankStatementsService.saveMapping(hostelId, mappingDto);
+
+    return {
+      status: HttpStatus.OK,
+      data: mapping
+    };
+  }
+
+  @Post('import')
+  @Audited({ entity: BankStatementImport })
+  @UseInterceptors(FileInterceptor('file', { limits: { fileSize: MAX_STATEMENT_SIZE } }))
+  @ApiConsumes('multipart/form-data', 'application/json')
+  @ApiOperation({
+    summary: 'Import a CSV bank statement',
+    description: 'Stores the statement lines, skips lines already imported and suggests a student for each deposit'
+  })
+  @ApiResponse({ status: 201, description: 'Statement imported' })
+  @ApiResponse({ status: 400, description: 'Unreadable or already imported statement' })
+  async importStatement(
+    @GetHostelId() hostelId: string,
+    @Body() importDto: ImportStatementDto,
+    @UploadedFile() file: { originalname: string; buffer: Buffer },
+    @CurrentUser() user: JwtPayload
+  ) {
+    const statementImport = await this.bankStatementsService.importStatement(hostelId, importDto, file, user?.id);
+
+    return {
+      status: HttpStatus.CREATED,
+      data: statementImport
+    };
+  }
+
+  @Get('imports')
+  @ApiOperation({ summary: 'Get imported statements' })
+  @ApiResponse({ status: 200, description: 'Imports retrieved successfully' })
+  async getImports(@GetHostelId() hostelId: string, @Query() filters: PaginationDto) {
+    const imports = await this.bankStatementsService.getImports(hostelId, filters);
+
+    return {
+      status: HttpStatus.OK,
+      data: imports
+    };
+  }
+
+  @Get('imports/:id')
+  @ApiOperation({ summary: 'Get an imported statement with line counts per status' })
+  @ApiResponse({ status: 200, description: 'Import retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Import not found' })
+  async getImport(@GetHostelId() hostelId: string, @Param('id') id: string) {
+    const statementImport = await this.bankStatementsService.getImport(id, hostelId);
+
+    return {
+      status: HttpStatus.OK,
+      data: statementImport
+    };
+  }
+
+  @Post('imports/:id/confirm-matched')
+  @Audited({ entity: BankStatementImport })
+  @ApiOperation({ summary: 'Create payments for every suggested match of an import' })
+  @ApiResponse({ status: 200, description: 'Matched lines confirmed' })
+  async confirmMatched(
+    @GetHostelId() hostelId: string,
+    @Param('id') id: string,
+    @CurrentUser() user: JwtPayload
+  ) {
+    const result = await this.bankStatementsService.confirmMatched(id, hostelId, user);
+
+    return {
+      status: HttpStatus.OK,
+      data: result
+    };
+  }
+
+  @Get('lines')
+  @ApiOperation({ summary: 'Get statement lines' })
+  @ApiResponse({ status: 200, description: 'Lines retrieved successfully' })
+  async getLines(@GetHostelId() hostelId: string, @Query() filters: StatementLineFilterDto) {
+    const lines = await this.bankStatementsService.getLines(hostelId, filters);
+
+    return {
+      status: HttpStatus.OK,
+      data: lines
+    };
+  }
+
+  @Get('review-queue')
+  @ApiOperation({ summary: 'Deposits waiting for review: suggested matches and unmatched lines' })
+  @ApiResponse({ status: 200, description: 'Review queue retrieved successfully' })
+  async getReviewQueue(@GetHostelId() hostelId: string, @Query() filters: StatementLineFilterDto) {
+    const lines = await this.bankStatementsService.getReviewQueue(hostelId, filters);
+
+    return {
+      status: HttpStatus.OK,
+      data: lines
+    };
+  }
+
+  @Post('lines/:id/confirm')
+  @ApiOperation({ summary: 'Record a bank transfer payment for a deposit' })
+  @ApiResponse({ status: 200, description: 'Payment created and ledger credited' })
+  async confirmLine(
+    @GetHostelId() hostelId: string,
+    @Param('id') id: string,
+    @Body() confirmDto: ConfirmStatementLineDto,
+    @CurrentUser() user: JwtPayload
+  ) {
+    const line = await this.bankStatementsService.confirmLine(id, hostelId, confirmDto, user);
+
+    return {
+      status: HttpStatus.OK,
+      data: line
+    };
+  }
+
+  @Post('lines/:id/reconcile')
+  @ApiOperation({ summary: 'Link a deposit to a payment that was already recorded' })
+  @ApiResponse({ status: 200, description: 'Line reconciled' })
+  async reconcileLine(
+    @GetHostelId() hostelId: string,
+    @Param('id') id: string,
+    @Body() reconcileDto: ReconcileStatementLineDto,
+    @CurrentUser() user: JwtPayload
+  ) {
+    const line = await this.bankStatementsService.reconcileLine(id, hostelId, reconcileDto, user);
+
+    return {
+      status: HttpStatus.OK,
+      data: line
+    };
+  }
+
+  @Post('lines/:id/ignore')
+  @ApiOperation({ summary: 'Mark a deposit as not a student payment' })
+  @ApiResponse({ status: 200, description: 'Line ignored' })
+  async ignoreLine(
+    @GetHostelId() hostelId: string,
+    @Param('id') id: string,
+    @Body() ignoreDto: IgnoreStatementLineDto,
+    @CurrentUser() user: JwtPayload
+  ) {
+    const line = await this.bankStatementsService.ignoreLine(id, hostelId, ignoreDto, user);
+
+    return {
+      status: HttpStatus.OK,
+      data: line
+    };
+  }
+}
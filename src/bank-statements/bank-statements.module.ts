@@ -0,0 +1,38 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { BankStatementsController } from './bank-statements.controller';
+import { BankStatementsService } from './services/bank-statements.service';
+import { StatementMatchingService } from './services/statement-matching.service';
+import { BankStatementMapping } from './entities/bank-statement-mapping.entity';
+import { BankStatementImport } from './entities/bank-statement-import.entity';
+import { BankStatementLine } from './entities/bank-statement-line.entity';
+import { Student } from '../students/entities/student.entity';
+import { StudentContact } from '../students/entities/student-contact.entity';
+import { Invoice } from '../invoices/entities/invoice.entity';
+import { Payment } from '../payments/entities/payment.entity';
+import { AuthModule } from '../auth/auth.module';
+import { HostelModule } from '../hostel/hostel.module';
+import { PaymentsModule } from '../payments/payments.module';
+import { StaffRolesModule } from '../staff-roles/staff-roles.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([
+      BankStatementMapping,
+      BankStatementImport,
+      BankStatementLine,
+      Student,
+      StudentContact,
+      Invoice,
+      Payment
+    ]),
+    AuthModule,
+    HostelModule,
+    PaymentsModule,
+    StaffRolesModule,
+  ],
+  controllers: [BankStatementsController],
+  providers: [BankStatementsService, StatementMatchingService],
+  exports: [BankStatementsService],
+})
+export class BankStatementsModule {}
@@ -0,0 +1,14 @@
+import { IsOptional, IsString, MaxLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class ImportStatementDto {
+  @ApiProperty({ description: 'Bank the statement is from; selects the column mapping', example: 'Nabil Bank' })
+  @IsString()
+  @MaxLength(100)
+  bankName: string;
+
+  @ApiPropertyOptional({ description: 'CSV content, when not uploading a file' })
+  @IsOptional()
+  @IsString()
+  csv?: string;
+}
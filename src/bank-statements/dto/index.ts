@@ -0,0 +1,8 @@
+export { SaveBankMappingDto } from './save-bank-mapping.dto';
+export { ImportStatementDto } from './import-statement.dto';
+export {
+  StatementLineFilterDto,
+  ConfirmStatementLineDto,
+  ReconcileStatementLineDto,
+  IgnoreStatementLineDto
+} from './statement-line.dto';
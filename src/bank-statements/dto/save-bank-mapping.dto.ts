@@ -0,0 +1,69 @@
+import { IsEnum, IsIn, IsInt, IsOptional, IsString, Length, MaxLength, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { CalendarSystem } from '../../common/utils/bikram-sambat.util';
+import { SUPPORTED_DATE_FORMATS } from '../utils/statement-csv.util';
+
+export class SaveBankMappingDto {
+  @ApiProperty({ description: 'Bank the mapping is for', example: 'Nabil Bank' })
+  @IsString()
+  @MaxLength(100)
+  bankName: string;
+
+  @ApiPropertyOptional({ description: 'Field delimiter', default: ',', example: ',' })
+  @IsOptional()
+  @IsString()
+  @Length(1, 1)
+  delimiter?: string;
+
+  @ApiPropertyOptional({ description: '1-based row holding the column headers', default: 1, example: 1 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  headerRow?: number;
+
+  @ApiProperty({ description: 'Header of the transaction date column', example: 'Txn Date' })
+  @IsString()
+  @MaxLength(100)
+  dateColumn: string;
+
+  @ApiPropertyOptional({ description: 'How dates are written', enum: SUPPORTED_DATE_FORMATS, default: 'YYYY-MM-DD' })
+  @IsOptional()
+  @IsIn(SUPPORTED_DATE_FORMATS)
+  dateFormat?: string;
+
+  @ApiPropertyOptional({ description: 'Calendar of the statement dates', enum: CalendarSystem, default: CalendarSystem.AD })
+  @IsOptional()
+  @IsEnum(CalendarSystem)
+  dateCalendar?: CalendarSystem;
+
+  @ApiProperty({ description: 'Header of the narration/description column', example: 'Description' })
+  @IsString()
+  @MaxLength(100)
+  descriptionColumn: string;
+
+  @ApiPropertyOptional({ description: 'Header of the reference/cheque number column', example: 'Ref No' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  referenceColumn?: string;
+
+  @ApiPropertyOptional({ description: 'Header of a signed amount column (use instead of credit/debit columns)' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  amountColumn?: string;
+
+  @ApiPropertyOptional({ description: 'Header of the deposit column', example: 'Deposit' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  creditColumn?: string;
+
+  @ApiPropertyOptional({ description: 'Header of the withdrawal column', example: 'Withdraw' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  debitColumn?: string;
+}
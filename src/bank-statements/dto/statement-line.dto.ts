@@ -0,0 +1,57 @@
+import { IsDateString, IsEnum, IsOptional, IsString, IsUUID, MaxLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { PaginationDto } from '../../common/dto/pagination.dto';
+import { BankStatementLineStatus, BankStatementLineType } from '../entities/bank-statement-line.entity';
+
+export class StatementLineFilterDto extends PaginationDto {
+  @ApiPropertyOptional({ description: 'Filter by import' })
+  @IsOptional()
+  @IsUUID()
+  importId?: string;
+
+  @ApiPropertyOptional({ description: 'Filter by status', enum: BankStatementLineStatus })
+  @IsOptional()
+  @IsEnum(BankStatementLineStatus)
+  status?: BankStatementLineStatus;
+
+  @ApiPropertyOptional({ description: 'Filter by direction', enum: BankStatementLineType })
+  @IsOptional()
+  @IsEnum(BankStatementLineType)
+  type?: BankStatementLineType;
+
+  @ApiPropertyOptional({ description: 'Transactions on or after (inclusive)', example: '2025-11-01' })
+  @IsOptional()
+  @IsDateString()
+  dateFrom?: string;
+
+  @ApiPropertyOptional({ description: 'Transactions on or before (inclusive)', example: '2025-11-30' })
+  @IsOptional()
+  @IsDateString()
+  dateTo?: string;
+}
+
+export class ConfirmStatementLineDto {
+  @ApiPropertyOptional({ description: 'Student who paid; defaults to the suggested match' })
+  @IsOptional()
+  @IsUUID()
+  studentId?: string;
+
+  @ApiPropertyOptional({ description: 'Notes for the payment' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  notes?: string;
+}
+
+export class ReconcileStatementLineDto {
+  @ApiProperty({ description: 'Existing bank transfer payment this line belongs to' })
+  @IsUUID()
+  paymentId: string;
+}
+
+export class IgnoreStatementLineDto {
+  @ApiProperty({ description: 'Why the line is not a student payment', example: 'Bank interest' })
+  @IsString()
+  @MaxLength(1000)
+  reason: string;
+}
@@ -0,0 +1,59 @@
+import { Entity, Column, ManyToOne, OneToMany, JoinColumn, Index } from 'typeorm';
+import { BaseEntity } from '../../common/entities/base.entity';
+import { Hostel } from '../../hostel/entities/hostel.entity';
+import { BankStatementLine } from './bank-statement-line.entity';
+
+/**
+ * One uploaded statement file. The checksum stops the same file from being
+ * imported twice; overlapping statements are deduplicated per line.
+ */
+@Entity('bank_statement_imports')
+@Index(['hostelId', 'createdAt'])
+@Index(['hostelId', 'checksum'], { unique: true })
+export class BankStatementImport extends BaseEntity {
+  @Column({ name: 'hostel_id' })
+  hostelId: string;
+
+  @Column({ name: 'bank_name', length: 100 })
+  bankName: string;
+
+  @Column({ name: 'file_name', type: 'varchar', length: 255, nullable: true })
+  fileName: string;
+
+  @Column({ length: 64 })
+  checksum: string;
+
+  @Column({ name: 'statement_from', type: 'date', nullable: true })
+  statementFrom: Date;
+
+  @Column({ name: 'statement_to', type: 'date', nullable: true })
+  statementTo: Date;
+
+  @Column({ name: 'total_lines', type: 'int', default: 0 })
+  totalLines: number;
+
+  @Column({ name: 'credit_lines', type: 'int', default: 0 })
+  creditLines: number;
+
+  // Lines already imported from an earlier, overlapping statement
+  @Column({ name: 'duplicate_lines', type: 'int', default: 0 })
+  duplicateLines: number;
+
+  @Column({ name: 'matched_lines', type: 'int', default: 0 })
+  matchedLines: number;
+
+  // Mapping used for this file, kept in case the bank's mapping changes later
+  @Column({ name: 'column_mapping', type: 'jsonb' })
+  columnMapping: Record<string, any>;
+
+  @Column({ name: 'imported_by', type: 'varchar', length: 255, nullable: true })
+  importedBy: string;
+
+  // Relations
+  @ManyToOne(() => Hostel, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'hostel_id' })
+  hostel: Hostel;
+
+  @OneToMany(() => BankStatementLine, line => line.statementImport)
+  lines: BankStatementLine[];
+}
@@ -0,0 +1,114 @@
+import { Entity, Column, ManyToOne, JoinColumn, Index } from 'typeorm';
+import { BaseEntity } from '../../common/entities/base.entity';
+import { Hostel } from '../../hostel/entities/hostel.entity';
+import { Student } from '../../students/entities/student.entity';
+import { Payment } from '../../payments/entities/payment.entity';
+import { BankStatementImport } from './bank-statement-import.entity';
+
+export enum BankStatementLineType {
+  CREDIT = 'credit',
+  DEBIT = 'debit'
+}
+
+export enum BankStatementLineStatus {
+  UNMATCHED = 'unmatched',     // No confident student match - needs review
+  MATCHED = 'matched',         // Student suggested automatically, awaiting confirmation
+  RECONCILED = 'reconciled',   // Linked to a payment that was already recorded
+  CONFIRMED = 'confirmed',     // Payment created from this line
+  IGNORED = 'ignored'          // Withdrawals and deposits that are not student payments
+}
+
+export interface MatchCandidate {
+  studentId: string;
+  studentName: string;
+  score: number;
+  reasons: string[];
+}
+
+@Entity('bank_statement_lines')
+@Index(['importId'])
+@Index(['hostelId', 'status'])
+@Index(['hostelId', 'fingerprint'], { unique: true })
+@Index(['paymentId'], { unique: true })
+export class BankStatementLine extends BaseEntity {
+  @Column({ name: 'hostel_id' })
+  hostelId: string;
+
+  @Column({ name: 'import_id' })
+  importId: string;
+
+  // Row number in the uploaded file
+  @Column({ name: 'line_number', type: 'int' })
+  lineNumber: number;
+
+  @Column({ name: 'transaction_date', type: 'date' })
+  transactionDate: Date;
+
+  @Column({ type: 'text', nullable: true })
+  description: string;
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  reference: string;
+
+  @Column({
+    type: 'enum',
+    enum: BankStatementLineType
+  })
+  type: BankStatementLineType;
+
+  @Column({ type: 'decimal', precision: 10, scale: 2 })
+  amount: number;
+
+  @Column({
+    type: 'enum',
+    enum: BankStatementLineStatus,
+    default: BankStatementLineStatus.UNMATCHED
+  })
+  status: BankStatementLineStatus;
+
+  // Hash of date, amount, reference and description (plus occurrence) used to skip overlapping lines
+  @Column({ length: 64 })
+  fingerprint: string;
+
+  @Column({ name: 'matched_student_id', nullable: true })
+  matchedStudentId: string;
+
+  @Column({ name: 'match_confidence', type: 'int', default: 0 })
+  matchConfidence: number;
+
+  @Column({ name: 'match_candidates', type: 'jsonb', nullable: true })
+  matchCandidates: MatchCandidate[];
+
+  @Column({ name: 'payment_id', nullable: true })
+  paymentId: string;
+
+  @Column({ name: 'confirmed_by', type: 'varchar', length: 255, nullable: true })
+  confirmedBy: string;
+
+  @Column({ name: 'confirmed_at', type: 'timestamp', nullable: true })
+  confirmedAt: Date;
+
+  @Column({ name: 'ignored_reason', type: 'text', nullable: true })
+  ignoredReason: string;
+
+  // Original CSV row keyed by header
+  @Column({ type: 'jsonb', nullable: true })
+  raw: Record<string, string>;
+
+  // Relations
+  @ManyToOne(() => Hostel, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'hostel_id' })
+  hostel: Hostel;
+
+  @ManyToOne(() => BankStatementImport, statementImport => statementImport.lines, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'import_id' })
+  statementImport: BankStatementImport;
+
+  @ManyToOne(() => Student, { onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'matched_student_id' })
+  matchedStudent: Student;
+
+  @ManyToOne(() => Payment, { onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'payment_id' })
+  payment: Payment;
+}
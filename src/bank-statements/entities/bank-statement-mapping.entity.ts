@@ -0,0 +1,63 @@
+import { Entity, Column, ManyToOne, JoinColumn, Index } from 'typeorm';
+import { BaseEntity } from '../../common/entities/base.entity';
+import { Hostel } from '../../hostel/entities/hostel.entity';
+import { CalendarSystem } from '../../common/utils/bikram-sambat.util';
+
+/**
+ * How to read one bank's CSV statement: which header holds the date, amount,
+ * description and reference, and how dates are written. Column values are
+ * header names, matched case-insensitively.
+ */
+@Entity('bank_statement_mappings')
+@Index(['hostelId', 'bankName'], { unique: true })
+export class BankStatementMapping extends BaseEntity {
+  @Column({ name: 'hostel_id' })
+  hostelId: string;
+
+  @Column({ name: 'bank_name', length: 100 })
+  bankName: string;
+
+  @Column({ length: 1, default: ',' })
+  delimiter: string;
+
+  // 1-based row holding the column headers (statements often start with account details)
+  @Column({ name: 'header_row', type: 'int', default: 1 })
+  headerRow: number;
+
+  @Column({ name: 'date_column', length: 100 })
+  dateColumn: string;
+
+  // e.g. YYYY-MM-DD, DD/MM/YYYY, MM/DD/YYYY, DD-MMM-YYYY
+  @Column({ name: 'date_format', length: 20, default: 'YYYY-MM-DD' })
+  dateFormat: string;
+
+  @Column({
+    name: 'date_calendar',
+    type: 'enum',
+    enum: CalendarSystem,
+    default: CalendarSystem.AD
+  })
+  dateCalendar: CalendarSystem;
+
+  @Column({ name: 'description_column', length: 100 })
+  descriptionColumn: string;
+
+  @Column({ name: 'reference_column', type: 'varchar', length: 100, nullable: true })
+  referenceColumn: string;
+
+  // Either one signed amount column...
+  @Column({ name: 'amount_column', type: 'varchar', length: 100, nullable: true })
+  amountColumn: string;
+
+  // ...or separate deposit (credit) and withdrawal (debit) columns
+  @Column({ name: 'credit_column', type: 'varchar', length: 100, nullable: true })
+  creditColumn: string;
+
+  @Column({ name: 'debit_column', type: 'varchar', length: 100, nullable: true })
+  debitColumn: string;
+
+  // Relations
+  @ManyToOne(() => Hostel, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'hostel_id' })
+  hostel: Hostel;
+}
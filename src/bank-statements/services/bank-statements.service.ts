@@ -0,0 +1,517 @@
+import { Injectable, Logger, BadRequestException, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { DataSource, In, Repository } from 'typeorm';
+import { createHash } from 'crypto';
+import { BankStatementMapping } from '../entities/bank-statement-mapping.entity';
+import { BankStatementImport } from '../entities/bank-statement-import.entity';
+import {
+  BankStatementLine,
+  BankStatementLineStatus,
+  BankStatementLineType
+} from '../entities/bank-statement-line.entity';
+import { Payment, PaymentMethod } from '../../payments/entities/payment.entity';
+import { PaymentsService } from '../../payments/payments.service';
+import { StatementMatchingService } from './statement-matching.service';
+import { DEFAULT_COLUMN_MAPPING, StatementColumnMapping, parseStatement } from '../utils/statement-csv.util';
+import { JwtPayload } from '../../auth/interfaces/jwt-payload.interface';
+import { PaginationDto } from '../../common/dto/pagination.dto';
+import {
+  SaveBankMappingDto,
+  ImportStatementDto,
+  StatementLineFilterDto,
+  ConfirmStatementLineDto,
+  ReconcileStatementLineDto,
+  IgnoreStatementLineDto
+} from '../dto';
+
+const REVIEWABLE_STATUSES = [BankStatementLineStatus.UNMATCHED, BankStatementLineStatus.MATCHED];
+
+/**
+ * Bank Statements Service
+ * Imports CSV bank statements, matches deposits to students and turns
+ * confirmed lines into bank transfer payments through PaymentsService (which
+ * posts the LedgerV2 credit). Nothing is paid automatically: matched lines
+ * wait for an accountant to confirm them.
+ */
+@Injectable()
+export class BankStatementsService {
+  private readonly logger = new Logger(BankStatementsService.name);
+
+  constructor(
+    @InjectRepository(BankStatementMapping)
+    private mappingRepository: Repository<BankStatementMapping>,
+    @InjectRepository(BankStatementImport)
+    private importRepository: Repository<BankStatementImport>,
+    @InjectRepository(BankStatementLine)
+    private lineRepository: Repository<BankStatementLine>,
+    @InjectRepository(Payment)
+    private paymentRepository: Repository<Payment>,
+    private dataSource: DataSource,
+    private matchingService: StatementMatchingService,
+    private paymentsService: PaymentsService,
+  ) {}
+
+  async getMappings(hostelId: string) {
+    if (!hostelId) {
+      throw new BadRequestException('Hostel context required');
+    }
+
+    const mappings = await this.mappingRepository.find({ where: { hostelId }, order: { bankName: 'ASC' } });
+    return {
+      defaultMapping: DEFAULT_COLUMN_MAPPING,
+      mappings
+    };
+  }
+
+  async saveMapping(hostelId: string, mappingDto: SaveBankMappingDto) {
+    if (!hostelId) {
+      throw new BadRequestException('Hostel context required');
+    }
+    if (!mappingDto.amountColumn && !mappingDto.creditColumn) {
+      throw new BadRequestException('Provide an amount column or a credit column');
+    }
+
+    const existing = await this.mappingRepository.findOne({ where: { hostelId, bankName: mappingDto.bankName } });
+    const mapping = this.mappingRepository.merge(existing || this.mappingRepository.create({ hostelId }), {
+      ...mappingDto,
+      referenceColumn: mappingDto.referenceColumn || null,
+      amountColumn: mappingDto.amountColumn || null,
+      creditColumn: mappingDto.amountColumn ? null : mappingDto.creditColumn,
+      debitColumn: mappingDto.amountColumn ? null : mappingDto.debitColumn || null
+    });
+
+    return this.mappingRepository.save(mapping);
+  }
+
+  /**
+   * Parse a statement, skip lines already imported from an overlapping
+   * statement and try to match every deposit.
+   */
+  async importStatement(
+    hostelId: string,
+    importDto: ImportStatementDto,
+    file?: { originalname: string; buffer: Buffer },
+    importedBy?: string
+  ) {
+    if (!hostelId) {
+      throw new BadRequestException('Hostel context required');
+    }
+
+    const content = file ? file.buffer.toString('utf-8') : importDto.csv;
+    if (!content || !content.trim()) {
+      throw new BadRequestException('Upload a CSV statement file or send its content as csv');
+    }
+
+    const checksum = createHash('sha256').update(content).digest('hex');
+    const previous = await this.importRepository.findOne({ where: { hostelId, checksum } });
+    if (previous) {
+      throw new BadRequestException(`This statement was already imported on ${previous.createdAt.toISOString().split('T')[0]}`);
+    }
+
+    const mapping = await this.getColumnMapping(hostelId, importDto.bankName);
+
+    let parsedLines;
+    try {
+      parsedLines = parseStatement(content, mapping);
+    } catch (error) {
+      throw new BadRequestException(`Could not read statement: ${error.message}`);
+    }
+    if (parsedLines.length === 0) {
+      throw new BadRequestException('No transactions found in the statement');
+    }
+
+    const existingFingerprints = new Set(
+      (await this.lineRepository.find({
+        where: { hostelId, fingerprint: In(parsedLines.map(line => line.fingerprint)) },
+        select: ['id', 'fingerprint']
+      })).map(line => line.fingerprint)
+    );
+    const newLines = parsedLines.filter(line => !existingFingerprints.has(line.fingerprint));
+
+    const context = await this.matchingService.buildContext(hostelId);
+    const usedPaymentIds: string[] = [];
+    const lines: Partial<BankStatementLine>[] = [];
+
+    for (const parsed of newLines) {
+      const line: Partial<BankStatementLine> = {
+        hostelId,
+        lineNumber: parsed.lineNumber,
+        transactionDate: parsed.transactionDate,
+        description: parsed.description,
+        reference: parsed.reference,
+        type: parsed.type,
+        amount: parsed.amount,
+        fingerprint: parsed.fingerprint,
+        raw: parsed.raw
+      };
+
+      if (parsed.type === BankStatementLineType.DEBIT) {
+        line.status = BankStatementLineStatus.IGNORED;
+        line.ignoredReason = 'Withdrawal';
+        lines.push(line);
+        continue;
+      }
+
+      const match = this.matchingService.matchLine(parsed, context);
+      line.matchedStudentId = match.studentId;
+      line.matchConfidence = match.confidence;
+      line.matchCandidates = match.candidates;
+      line.status = match.studentId ? BankStatementLineStatus.MATCHED : BankStatementLineStatus.UNMATCHED;
+
+      const recorded = await this.findUnlinkedRecordedPayment(hostelId, parsed, match.studentId, usedPaymentIds);
+      if (recorded) {
+        usedPaymentIds.push(recorded.id);
+        line.status = BankStatementLineStatus.RECONCILED;
+        line.paymentId = recorded.id;
+        line.matchedStudentId = recorded.studentId;
+      }
+
+      lines.push(line);
+    }
+
+    const dates = parsedLines.map(line => line.transactionDate.getTime());
+    const statementImport = await this.dataSource.transaction(async manager => {
+      const savedImport = await manager.save(manager.create(BankStatementImport, {
+        hostelId,
+        bankName: importDto.bankName,
+        fileName: file?.originalname || null,
+        checksum,
+        statementFrom: new Date(Math.min(...dates)),
+        statementTo: new Date(Math.max(...dates)),
+        totalLines: parsedLines.length,
+        creditLines: lines.filter(line => line.type === BankStatementLineType.CREDIT).length,
+        duplicateLines: parsedLines.length - newLines.length,
+        matchedLines: lines.filter(line =>
+          line.status === BankStatementLineStatus.MATCHED || line.status === BankStatementLineStatus.RECONCILED
+        ).length,
+        columnMapping: mapping,
+        importedBy
+      }));
+
+      if (lines.length > 0) {
+        await manager.save(lines.map(line => manager.create(BankStatementLine, { ...line, importId: savedImport.id })));
+      }
+
+      return savedImport;
+    });
+
+    this.logger.log(
+      `🏦 Imported ${importDto.bankName} statement ${statementImport.id}: ${lines.length} new lines, ` +
+      `${statementImport.matchedLines} matched, ${statementImport.duplicateLines} duplicates`
+    );
+
+    return this.getImport(statementImport.id, hostelId);
+  }
+
+  async getImports(hostelId: string, filters: PaginationDto) {
+    if (!hostelId) {
+      throw new BadRequestException('Hostel context required');
+    }
+
+    const { page = 1, limit = 10 } = filters;
+
+    const [imports, total] = await this.importRepository.findAndCount({
+      where: { hostelId },
+      order: { createdAt: 'DESC' },
+      skip: (page - 1) * limit,
+      take: limit
+    });
+
+    return {
+      items: imports,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit)
+      }
+    };
+  }
+
+  /**
+   * Import with live line counts per status
+   */
+  async getImport(id: string, hostelId: string) {
+    const statementImport = await this.importRepository.findOne({ where: { id, hostelId } });
+    if (!statementImport) {
+      throw new NotFoundException(`Statement import with ID ${id} not found`);
+    }
+
+    const counts = await this.lineRepository.createQueryBuilder('line')
+      .select('line.status', 'status')
+      .addSelect('COUNT(*)', 'count')
+      .addSelect('COALESCE(SUM(line.amount), 0)', 'amount')
+      .where('line.importId = :id', { id })
+      .groupBy('line.status')
+      .getRawMany();
+
+    return {
+      ...statementImport,
+      lineStatus: Object.fromEntries(counts.map(row => [
+        row.status,
+        { count: Number(row.count), amount: Number(row.amount) }
+      ]))
+    };
+  }
+
+  async getLines(hostelId: string, filters: StatementLineFilterDto, statuses?: BankStatementLineStatus[]) {
+    if (!hostelId) {
+      throw new BadRequestException('Hostel context required');
+    }
+
+    const { page = 1, limit = 10, importId, status, type, dateFrom, dateTo } = filters;
+
+    const queryBuilder = this.lineRepository.createQueryBuilder('line')
+      .leftJoinAndSelect('line.matchedStudent', 'student')
+      .where('line.hostelId = :hostelId', { hostelId });
+
+    if (importId) {
+      queryBuilder.andWhere('line.importId = :importId', { importId });
+    }
+
+    if (status) {
+      queryBuilder.andWhere('line.status = :status', { status });
+    } else if (statuses) {
+      queryBuilder.andWhere('line.status IN (:...statuses)', { statuses });
+    }
+
+    if (type) {
+      queryBuilder.andWhere('line.type = :type', { type });
+    }
+
+    if (dateFrom) {
+      queryBuilder.andWhere('line.transactionDate >= :dateFrom', { dateFrom });
+    }
+
+    if (dateTo) {
+      queryBuilder.andWhere('line.transactionDate <= :dateTo', { dateTo });
+    }
+
+    const [lines, total] = await queryBuilder
+      .orderBy('line.transactionDate', 'ASC')
+      .addOrderBy('line.lineNumber', 'ASC')
+      .skip((page - 1) * limit)
+      .take(limit)
+      .getManyAndCount();
+
+    return {
+      items: lines.map(line => this.transformToApiResponse(line)),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit)
+      }
+    };
+  }
+
+  /**
+   * Deposits still waiting for a decision: suggested matches and unmatched lines
+   */
+  async getReviewQueue(hostelId: string, filters: StatementLineFilterDto) {
+    return this.getLines(hostelId, { ...filters, status: undefined, type: BankStatementLineType.CREDIT }, REVIEWABLE_STATUSES);
+  }
+
+  /**
+   * Record the payment for a deposit. The line is claimed first so a second
+   * confirmation of the same line cannot create a second payment.
+   */
+  async confirmLine(id: string, hostelId: string, confirmDto: ConfirmStatementLineDto, user?: JwtPayload) {
+    const line = await this.findLine(id, hostelId, ['statementImport']);
+
+    if (line.type !== BankStatementLineType.CREDIT) {
+      throw new BadRequestException('Only deposits can be turned into payments');
+    }
+    if (!REVIEWABLE_STATUSES.includes(line.status)) {
+      throw new BadRequestException(`Line is already ${line.status}`);
+    }
+
+    const studentId = confirmDto.studentId || line.matchedStudentId;
+    if (!studentId) {
+      throw new BadRequestException('Choose the student who made this deposit');
+    }
+
+    const claimed = await this.lineRepository.update(
+      { id: line.id, status: In(REVIEWABLE_STATUSES) },
+      { status: BankStatementLineStatus.CONFIRMED, matchedStudentId: studentId, confirmedBy: user?.id, confirmedAt: new Date() }
+    );
+    if (!claimed.affected) {
+      throw new BadRequestException('Line was already processed');
+    }
+
+    let payment;
+    try {
+      payment = await this.paymentsService.create({
+        studentId,
+        amount: Number(line.amount),
+        paymentMethod: PaymentMethod.BANK_TRANSFER,
+        paymentDate: line.transactionDate,
+        reference: line.reference || undefined,
+        transactionId: line.reference || undefined,
+        bankName: line.statementImport?.bankName,
+        notes: confirmDto.notes || `Bank deposit: ${line.description || line.reference || ''}`.trim(),
+        processedBy: user?.id || 'bank_statement_import'
+      }, hostelId, user);
+    } catch (error) {
+      // Put the line back in the queue
+      await this.lineRepository.update({ id: line.id }, {
+        status: line.status,
+        matchedStudentId: line.matchedStudentId,
+        confirmedBy: null,
+        confirmedAt: null
+      });
+      throw error;
+    }
+
+    await this.lineRepository.update({ id: line.id }, { paymentId: payment.id });
+    this.logger.log(`✅ Statement line ${line.id} confirmed as payment ${payment.id} (NPR ${Number(line.amount)})`);
+
+    return this.transformToApiResponse(await this.findLine(id, hostelId, ['matchedStudent']));
+  }
+
+  /**
+   * Confirm every suggested match of an import
+   */
+  async confirmMatched(importId: string, hostelId: string, user?: JwtPayload) {
+    await this.getImport(importId, hostelId);
+
+    const lines = await this.lineRepository.find({
+      where: { importId, hostelId, status: BankStatementLineStatus.MATCHED },
+      order: { lineNumber: 'ASC' }
+    });
+
+    const results = {
+      confirmed: 0,
+      failed: 0,
+      errors: [] as Array<{ lineId: string; lineNumber: number; error: string }>
+    };
+
+    for (const line of lines) {
+      try {
+        await this.confirmLine(line.id, hostelId, {}, user);
+        results.confirmed++;
+      } catch (error) {
+        results.failed++;
+        results.errors.push({ lineId: line.id, lineNumber: line.lineNumber, error: error.message });
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Link a deposit to a bank transfer that was already entered by hand
+   */
+  async reconcileLine(id: string, hostelId: string, reconcileDto: ReconcileStatementLineDto, user?: JwtPayload) {
+    const line = await this.findLine(id, hostelId);
+    if (!REVIEWABLE_STATUSES.includes(line.status)) {
+      throw new BadRequestException(`Line is already ${line.status}`);
+    }
+
+    const payment = await this.paymentRepository.findOne({ where: { id: reconcileDto.paymentId, hostelId } });
+    if (!payment) {
+      throw new NotFoundException(`Payment with ID ${reconcileDto.paymentId} not found`);
+    }
+    if (Number(payment.amount) !== Number(line.amount)) {
+      throw new BadRequestException(`Payment amount NPR ${Number(payment.amount)} does not match the deposit of NPR ${Number(line.amount)}`);
+    }
+
+    const linked = await this.lineRepository.findOne({ where: { paymentId: payment.id } });
+    if (linked) {
+      throw new BadRequestException('Payment is already linked to another statement line');
+    }
+
+    line.status = BankStatementLineStatus.RECONCILED;
+    line.paymentId = payment.id;
+    line.matchedStudentId = payment.studentId;
+    line.confirmedBy = user?.id;
+    line.confirmedAt = new Date();
+
+    await this.lineRepository.save(line);
+    return this.transformToApiResponse(await this.findLine(id, hostelId, ['matchedStudent']));
+  }
+
+  async ignoreLine(id: string, hostelId: string, ignoreDto: IgnoreStatementLineDto, user?: JwtPayload) {
+    const line = await this.findLine(id, hostelId);
+    if (!REVIEWABLE_STATUSES.includes(line.status)) {
+      throw new BadRequestException(`Line is already ${line.status}`);
+    }
+
+    line.status = BankStatementLineStatus.IGNORED;
+    line.ignoredReason = ignoreDto.reason;
+    line.confirmedBy = user?.id;
+    line.confirmedAt = new Date();
+
+    return this.transformToApiResponse(await this.lineRepository.save(line));
+  }
+
+  private async getColumnMapping(hostelId: string, bankName: string): Promise<StatementColumnMapping> {
+    const mapping = await this.mappingRepository.findOne({ where: { hostelId, bankName } });
+    if (!mapping) {
+      return DEFAULT_COLUMN_MAPPING;
+    }
+
+    return {
+      delimiter: mapping.delimiter,
+      headerRow: mapping.headerRow,
+      dateColumn: mapping.dateColumn,
+      dateFormat: mapping.dateFormat,
+      dateCalendar: mapping.dateCalendar,
+      descriptionColumn: mapping.descriptionColumn,
+      referenceColumn: mapping.referenceColumn,
+      amountColumn: mapping.amountColumn,
+      creditColumn: mapping.creditColumn,
+      debitColumn: mapping.debitColumn
+    };
+  }
+
+  private async findUnlinkedRecordedPayment(
+    hostelId: string,
+    line: { transactionDate: Date; amount: number; description?: string; reference?: string },
+    studentId: string | null,
+    usedPaymentIds: string[]
+  ): Promise<Payment | null> {
+    const payment = await this.matchingService.findRecordedPayment(hostelId, line, studentId, usedPaymentIds);
+    if (!payment) {
+      return null;
+    }
+
+    const linked = await this.lineRepository.count({ where: { paymentId: payment.id } });
+    return linked > 0 ? null : payment;
+  }
+
+  private async findLine(id: string, hostelId: string, relations: string[] = []): Promise<BankStatementLine> {
+    if (!hostelId) {
+      throw new BadRequestException('Hostel context required');
+    }
+
+    const line = await this.lineRepository.findOne({ where: { id, hostelId }, relations });
+    if (!line) {
+      throw new NotFoundException(`Statement line with ID ${id} not found`);
+    }
+    return line;
+  }
+
+  private transformToApiResponse(line: BankStatementLine) {
+    return {
+      id: line.id,
+      importId: line.importId,
+      lineNumber: line.lineNumber,
+      transactionDate: line.transactionDate,
+      description: line.description,
+      reference: line.reference,
+      type: line.type,
+      amount: Number(line.amount),
+      status: line.status,
+      matchedStudentId: line.matchedStudentId,
+      matchedStudentName: line.matchedStudent?.name,
+      matchConfidence: line.matchConfidence,
+      matchCandidates: line.matchCandidates || [],
+      paymentId: line.paymentId,
+      confirmedBy: line.confirmedBy,
+      confirmedAt: line.confirmedAt,
+      ignoredReason: line.ignoredReason,
+      createdAt: line.createdAt
+    };
+  }
+}
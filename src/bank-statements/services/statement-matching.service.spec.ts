@@ -0,0 +1,105 @@
+import { StatementMatchingService, MatchingContext } from './statement-matching.service';
+import { BankStatementLineType } from '../entities/bank-statement-line.entity';
+import { parseStatement, DEFAULT_COLUMN_MAPPING } from '../utils/statement-csv.util';
+import { CalendarSystem } from '../../common/utils/bikram-sambat.util';
+
+describe('StatementMatchingService', () => {
+  let service: StatementMatchingService;
+  let context: MatchingContext;
+
+  beforeEach(() => {
+    service = new StatementMatchingService({} as any, {} as any, {} as any, {} as any);
+
+    context = {
+      students: [
+        { id: 'student-1', name: 'Ram Bahadur Thapa', phone: '9841000001', contactPhones: ['9851000001'] },
+        { id: 'student-2', name: 'Sita Sharma', phone: '9841000002', contactPhones: [] },
+        { id: 'student-3', name: 'Sita Karki', phone: '9841000003', contactPhones: [] }
+      ],
+      invoices: [
+        { studentId: 'student-1', invoiceNumber: 'INV-2082-00042', due: 8500 },
+        { studentId: 'student-2', invoiceNumber: 'INV-2082-00043', due: 9000 },
+        { studentId: 'student-3', invoiceNumber: 'INV-2082-00044', due: 7000 }
+      ]
+    };
+  });
+
+  describe('matchLine', () => {
+    it('should match on an invoice number in the narration', () => {
+      const match = service.matchLine({ description: 'FT/IPS inv 2082 00042 hostel fee', amount: 5000 }, context);
+
+      expect(match.studentId).toBe('student-1');
+      expect(match.candidates[0].reasons).toContain('invoice INV-2082-00042');
+    });
+
+    it('should match a guardian mobile number written with the country code', () => {
+      const match = service.matchLine({ description: 'Deposit by +977-985-1000001', amount: 8500 }, context);
+
+      expect(match.studentId).toBe('student-1');
+      expect(match.candidates[0].reasons).toEqual(['guardian phone', 'amount matches dues']);
+    });
+
+    it('should leave a line unmatched when the name fits more than one student', () => {
+      const match = service.matchLine({ description: 'SITA fee transfer', amount: 1234 }, context);
+
+      expect(match.studentId).toBeNull();
+      expect(match.candidates).toHaveLength(0);
+    });
+
+    it('should not suggest a student on the amount alone', () => {
+      const match = service.matchLine({ description: 'Cash deposit', amount: 9000 }, context);
+
+      expect(match.studentId).toBeNull();
+      expect(match.candidates[0]).toEqual(expect.objectContaining({ studentId: 'student-2', score: 30 }));
+    });
+  });
+
+  describe('parseStatement', () => {
+    it('should read a mapped statement and skip balance rows', () => {
+      const csv = [
+        'Account: 0123456789',
+        'Txn Date,Narration,Ref No,Withdraw,Deposit,Balance',
+        '05/11/2025,"Opening balance",,,,"10,000.00"',
+        '05/11/2025,"FT from Ram Bahadur Thapa, room 4",REF-1,,"8,500.00","18,500.00"',
+        '06/11/2025,Electricity bill,REF-2,"1,200.00",,"17,300.00"'
+      ].join('\r\n');
+
+      const lines = parseStatement(csv, {
+        ...DEFAULT_COLUMN_MAPPING,
+        headerRow: 2,
+        dateColumn: 'Txn Date',
+        dateFormat: 'DD/MM/YYYY',
+        descriptionColumn: 'Narration',
+        referenceColumn: 'Ref No',
+        creditColumn: 'Deposit',
+        debitColumn: 'Withdraw'
+      });
+
+      expect(lines).toHaveLength(2);
+      expect(lines[0]).toEqual(expect.objectContaining({
+        lineNumber: 4,
+        description: 'FT from Ram Bahadur Thapa, room 4',
+        reference: 'REF-1',
+        type: BankStatementLineType.CREDIT,
+        amount: 8500
+      }));
+      expect(lines[0].transactionDate).toEqual(new Date(2025, 10, 5));
+      expect(lines[1]).toEqual(expect.objectContaining({ type: BankStatementLineType.DEBIT, amount: 1200 }));
+    });
+
+    it('should convert BS dates and keep identical rows distinct', () => {
+      const csv = 'Date,Description,Amount\n2082-07-19,Fee,5000\n2082-07-19,Fee,5000\n';
+
+      const lines = parseStatement(csv, {
+        ...DEFAULT_COLUMN_MAPPING,
+        referenceColumn: undefined,
+        amountColumn: 'Amount',
+        dateCalendar: CalendarSystem.BS
+      });
+
+      expect(lines).toHaveLength(2);
+      expect(lines[0].transactionDate).toEqual(new Date(2025, 10, 5));
+      expect(lines[0].fingerprint).not.toBe(lines[1].fingerprint);
+    });
+  });
+});
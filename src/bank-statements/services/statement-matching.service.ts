@@ -0,0 +1,233 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Between, In, Repository } from 'typeorm';
+import { Student, StudentStatus } from '../../students/entities/student.entity';
+import { StudentContact } from '../../students/entities/student-contact.entity';
+import { Invoice, InvoiceStatus } from '../../invoices/entities/invoice.entity';
+import { Payment, PaymentMethod, PaymentStatus } from '../../payments/entities/payment.entity';
+import { MatchCandidate } from '../entities/bank-statement-line.entity';
+
+// Lowest score that is suggested automatically; anything below goes to review
+export const AUTO_MATCH_SCORE = 60;
+// The best candidate must beat the runner-up by this much to be suggested
+const AUTO_MATCH_MARGIN = 20;
+// Days either side of the statement date to look for an already recorded transfer
+const RECORDED_PAYMENT_WINDOW_DAYS = 3;
+
+const OPEN_INVOICE_STATUSES = [
+  InvoiceStatus.UNPAID,
+  InvoiceStatus.SENT,
+  InvoiceStatus.PARTIALLY_PAID,
+  InvoiceStatus.OVERDUE
+];
+
+const MATCHABLE_STUDENT_STATUSES = [
+  StudentStatus.ACTIVE,
+  StudentStatus.PENDING_CONFIGURATION,
+  StudentStatus.SUSPENDED
+];
+
+export interface MatchingContext {
+  students: Array<{ id: string; name: string; phone: string; contactPhones: string[] }>;
+  invoices: Array<{ studentId: string; invoiceNumber: string; due: number }>;
+}
+
+export interface LineMatch {
+  studentId: string | null;
+  confidence: number;
+  candidates: MatchCandidate[];
+}
+
+/**
+ * Statement Matching Service
+ * Works out which student a bank credit came from. Narrations are free text
+ * typed by the payer's bank, so each clue adds to a score instead of having
+ * to match exactly:
+ * - an invoice number in the narration (strongest)
+ * - the student's or a guardian's mobile number
+ * - the student's full name
+ * - the amount being exactly what the student owes
+ */
+@Injectable()
+export class StatementMatchingService {
+  constructor(
+    @InjectRepository(Student)
+    private studentRepository: Repository<Student>,
+    @InjectRepository(StudentContact)
+    private contactRepository: Repository<StudentContact>,
+    @InjectRepository(Invoice)
+    private invoiceRepository: Repository<Invoice>,
+    @InjectRepository(Payment)
+    private paymentRepository: Repository<Payment>,
+  ) {}
+
+  /**
+   * Load the hostel's students, guardian phones and open invoices once per import
+   */
+  async buildContext(hostelId: string): Promise<MatchingContext> {
+    const students = await this.studentRepository.find({
+      where: { hostelId, status: In(MATCHABLE_STUDENT_STATUSES) },
+      select: ['id', 'name', 'phone']
+    });
+    const studentIds = students.map(student => student.id);
+
+    const contacts = studentIds.length > 0
+      ? await this.contactRepository.find({
+        where: { studentId: In(studentIds), isActive: true },
+        select: ['id', 'studentId', 'phone']
+      })
+      : [];
+
+    const invoices = await this.invoiceRepository.find({
+      where: { hostelId, status: In(OPEN_INVOICE_STATUSES) },
+      select: ['id', 'studentId', 'invoiceNumber', 'total', 'paymentTotal']
+    });
+
+    return {
+      students: students.map(student => ({
+        id: student.id,
+        name: student.name,
+        phone: student.phone,
+        contactPhones: contacts.filter(contact => contact.studentId === student.id).map(contact => contact.phone)
+      })),
+      invoices: invoices.map(invoice => ({
+        studentId: invoice.studentId,
+        invoiceNumber: invoice.invoiceNumber,
+        due: roundAmount(Number(invoice.total || 0) - Number(invoice.paymentTotal || 0))
+      }))
+    };
+  }
+
+  matchLine(line: { description?: string; reference?: string; amount: number }, context: MatchingContext): LineMatch {
+    const text = `${line.description || ''} ${line.reference || ''}`;
+    const normalizedText = normalizeText(text);
+    const phones = extractMobileNumbers(text);
+    const amount = roundAmount(Number(line.amount));
+
+    const scores = new Map<string, { score: number; reasons: string[] }>();
+    const addScore = (studentId: string, score: number, reason: string) => {
+      const entry = scores.get(studentId) || { score: 0, reasons: [] };
+      entry.score += score;
+      entry.reasons.push(reason);
+      scores.set(studentId, entry);
+    };
+
+    for (const invoice of context.invoices) {
+      if (invoice.invoiceNumber && normalizedText.includes(normalizeText(invoice.invoiceNumber))) {
+        addScore(invoice.studentId, 60, `invoice ${invoice.invoiceNumber}`);
+      }
+    }
+
+    for (const student of context.students) {
+      if (student.phone && phones.includes(lastTenDigits(student.phone))) {
+        addScore(student.id, 50, 'student phone');
+      } else if (student.contactPhones.some(phone => phones.includes(lastTenDigits(phone)))) {
+        addScore(student.id, 40, 'guardian phone');
+      }
+
+      const nameTokens = normalizeText(student.name).split(' ').filter(token => token.length > 1);
+      const textTokens = new Set(normalizedText.split(' '));
+      if (nameTokens.length >= 2 && nameTokens.every(token => textTokens.has(token))) {
+        addScore(student.id, 40, 'student name');
+      }
+    }
+
+    // Amount alone proves little, but it separates students with similar names
+    const dueByStudent = new Map<string, number>();
+    for (const invoice of context.invoices) {
+      dueByStudent.set(invoice.studentId, roundAmount((dueByStudent.get(invoice.studentId) || 0) + invoice.due));
+    }
+    const owesAmount = (studentId: string) =>
+      dueByStudent.get(studentId) === amount ||
+      context.invoices.some(invoice => invoice.studentId === studentId && invoice.due === amount);
+    const studentsOwingAmount = context.students.filter(student => owesAmount(student.id));
+
+    for (const student of studentsOwingAmount) {
+      if (scores.has(student.id)) {
+        addScore(student.id, 20, 'amount matches dues');
+      } else if (studentsOwingAmount.length === 1) {
+        addScore(student.id, 30, 'only student owing this amount');
+      }
+    }
+
+    const candidates: MatchCandidate[] = Array.from(scores.entries())
+      .map(([studentId, { score, reasons }]) => ({
+        studentId,
+        studentName: context.students.find(student => student.id === studentId)?.name || '',
+        score: Math.min(100, score),
+        reasons
+      }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, 5);
+
+    const [best, runnerUp] = candidates;
+    const confident = best && best.score >= AUTO_MATCH_SCORE && (!runnerUp || best.score - runnerUp.score >= AUTO_MATCH_MARGIN);
+
+    return {
+      studentId: confident ? best.studentId : null,
+      confidence: best?.score || 0,
+      candidates
+    };
+  }
+
+  /**
+   * A bank transfer already entered by hand for the same amount around the
+   * same date, identified by its reference or by the matched student.
+   */
+  async findRecordedPayment(
+    hostelId: string,
+    line: { transactionDate: Date; amount: number; description?: string; reference?: string },
+    studentId: string | null,
+    excludePaymentIds: string[] = []
+  ): Promise<Payment | null> {
+    const from = new Date(line.transactionDate);
+    from.setDate(from.getDate() - RECORDED_PAYMENT_WINDOW_DAYS);
+    const to = new Date(line.transactionDate);
+    to.setDate(to.getDate() + RECORDED_PAYMENT_WINDOW_DAYS);
+
+    const payments = await this.paymentRepository.find({
+      where: {
+        hostelId,
+        paymentMethod: PaymentMethod.BANK_TRANSFER,
+        status: In([PaymentStatus.COMPLETED, PaymentStatus.PENDING]),
+        paymentDate: Between(from, to)
+      }
+    });
+
+    const text = normalizeText(`${line.description || ''} ${line.reference || ''}`);
+    const candidates = payments.filter(payment =>
+      roundAmount(Number(payment.amount)) === roundAmount(Number(line.amount)) &&
+      !excludePaymentIds.includes(payment.id)
+    );
+
+    const byReference = candidates.find(payment =>
+      [payment.reference, payment.transactionId]
+        .filter(value => value && normalizeText(value).length >= 4)
+        .some(value => text.includes(normalizeText(value)))
+    );
+
+    return byReference || candidates.find(payment => studentId && payment.studentId === studentId) || null;
+  }
+}
+
+function normalizeText(value: string): string {
+  return String(value || '').toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+function lastTenDigits(phone: string): string {
+  return String(phone || '').replace(/\D/g, '').slice(-10);
+}
+
+/**
+ * Nepali mobile numbers (98XXXXXXXX, 97..., 96...) anywhere in a narration,
+ * with or without the 977 country code and separators
+ */
+function extractMobileNumbers(text: string): string[] {
+  const digits = String(text || '').replace(/(\d)[\s-](?=\d)/g, '$1');
+  const matches = digits.match(/(?:977)?9[678]\d{8}/g) || [];
+  return matches.map(match => match.slice(-10));
+}
+
+function roundAmount(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
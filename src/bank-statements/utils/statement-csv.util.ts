@@ -0,0 +1,265 @@
+import { createHash } from 'crypto';
+import { CalendarSystem, bsToAd } from '../../common/utils/bikram-sambat.util';
+import { BankStatementLineType } from '../entities/bank-statement-line.entity';
+
+/**
+ * CSV statement parsing.
+ *
+ * Banks export statements with different headers, date formats and amount
+ * layouts (one signed column or separate deposit/withdrawal columns); the
+ * column mapping describes one bank's layout.
+ */
+
+export interface StatementColumnMapping {
+  delimiter: string;
+  headerRow: number;
+  dateColumn: string;
+  dateFormat: string;
+  dateCalendar: CalendarSystem;
+  descriptionColumn: string;
+  referenceColumn?: string;
+  amountColumn?: string;
+  creditColumn?: string;
+  debitColumn?: string;
+}
+
+export interface ParsedStatementLine {
+  lineNumber: number;
+  transactionDate: Date;
+  description: string;
+  reference: string | null;
+  type: BankStatementLineType;
+  amount: number;
+  fingerprint: string;
+  raw: Record<string, string>;
+}
+
+export const DEFAULT_COLUMN_MAPPING: StatementColumnMapping = {
+  delimiter: ',',
+  headerRow: 1,
+  dateColumn: 'Date',
+  dateFormat: 'YYYY-MM-DD',
+  dateCalendar: CalendarSystem.AD,
+  descriptionColumn: 'Description',
+  referenceColumn: 'Reference',
+  creditColumn: 'Credit',
+  debitColumn: 'Debit'
+};
+
+export const SUPPORTED_DATE_FORMATS = ['YYYY-MM-DD', 'YYYY/MM/DD', 'DD/MM/YYYY', 'DD-MM-YYYY', 'MM/DD/YYYY', 'DD-MMM-YYYY', 'DD MMM YYYY'];
+
+const MONTH_ABBREVIATIONS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+/**
+ * Split CSV text into rows of cells (RFC 4180 quoting, CRLF or LF line endings)
+ */
+export function parseCsv(content: string, delimiter = ','): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  // Excel adds a byte order mark to UTF-8 exports
+  const text = content.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+/**
+ * Parse a statement amount: "12,500.00", "NPR 1,000", "(500.00)", "500.00 DR"
+ */
+export function parseStatementAmount(value: string): number | null {
+  const text = String(value ?? '').trim();
+  if (!text || text === '-') {
+    return null;
+  }
+
+  const negative = /^\(.*\)$/.test(text) || /^-/.test(text) || /\bDR\.?$/i.test(text);
+  const digits = text.replace(/\b(NPR|Rs|CR|DR)\.?/gi, '').replace(/[^0-9.]/g, '');
+  if (!digits) {
+    return null;
+  }
+
+  const amount = Number(digits);
+  if (isNaN(amount)) {
+    return null;
+  }
+  return negative ? -amount : amount;
+}
+
+/**
+ * Parse a statement date in the given format; BS dates are converted to AD
+ */
+export function parseStatementDate(value: string, format: string, calendar: CalendarSystem = CalendarSystem.AD): Date {
+  const text = String(value ?? '').trim();
+  const parts = text.split(/[-/.\s]+/);
+  const formatParts = format.toUpperCase().split(/[-/.\s]+/);
+
+  if (parts.length < 3 || formatParts.length !== 3) {
+    throw new RangeError(`Invalid date "${value}" for format ${format}`);
+  }
+
+  let year: number;
+  let month: number;
+  let day: number;
+
+  formatParts.forEach((token, index) => {
+    const part = parts[index];
+    if (token === 'YYYY') {
+      year = Number(part);
+    } else if (token === 'MM') {
+      month = Number(part);
+    } else if (token === 'MMM') {
+      month = MONTH_ABBREVIATIONS.indexOf(part.slice(0, 3).toLowerCase()) + 1;
+    } else if (token === 'DD') {
+      day = Number(part);
+    }
+  });
+
+  if (!year || !month || !day || month < 1 || month > 12 || day < 1 || day > 32) {
+    throw new RangeError(`Invalid date "${value}" for format ${format}`);
+  }
+
+  if (calendar === CalendarSystem.BS) {
+    return bsToAd(year, month, day);
+  }
+
+  const date = new Date(year, month - 1, day);
+  if (date.getMonth() !== month - 1) {
+    throw new RangeError(`Invalid date "${value}"`);
+  }
+  return date;
+}
+
+/**
+ * Turn CSV content into statement lines using the bank's column mapping.
+ * Rows without a date or amount (opening balance, totals) are skipped.
+ */
+export function parseStatement(content: string, mapping: StatementColumnMapping): ParsedStatementLine[] {
+  const rows = parseCsv(content, mapping.delimiter || ',');
+  const headerIndex = Math.max(0, (mapping.headerRow || 1) - 1);
+  const headers = (rows[headerIndex] || []).map(header => header.trim());
+
+  const columnIndex = (name?: string): number => {
+    if (!name) {
+      return -1;
+    }
+    const index = headers.findIndex(header => header.toLowerCase() === name.trim().toLowerCase());
+    if (index === -1) {
+      throw new RangeError(`Column "${name}" not found in statement headers: ${headers.join(', ')}`);
+    }
+    return index;
+  };
+
+  const dateIndex = columnIndex(mapping.dateColumn);
+  const descriptionIndex = columnIndex(mapping.descriptionColumn);
+  const referenceIndex = columnIndex(mapping.referenceColumn);
+  const amountIndex = columnIndex(mapping.amountColumn);
+  const creditIndex = amountIndex === -1 ? columnIndex(mapping.creditColumn) : -1;
+  const debitIndex = amountIndex === -1 ? columnIndex(mapping.debitColumn) : -1;
+
+  if (amountIndex === -1 && creditIndex === -1) {
+    throw new RangeError('Mapping needs an amount column or a credit column');
+  }
+
+  const lines: ParsedStatementLine[] = [];
+  const occurrences = new Map<string, number>();
+
+  rows.slice(headerIndex + 1).forEach((row, offset) => {
+    const lineNumber = headerIndex + offset + 2;
+    const cell = (index: number) => (index >= 0 ? (row[index] || '').trim() : '');
+
+    if (!cell(dateIndex)) {
+      return;
+    }
+
+    let amount: number | null;
+    let type: BankStatementLineType;
+
+    if (amountIndex >= 0) {
+      amount = parseStatementAmount(cell(amountIndex));
+      type = amount !== null && amount < 0 ? BankStatementLineType.DEBIT : BankStatementLineType.CREDIT;
+    } else {
+      const credit = parseStatementAmount(cell(creditIndex));
+      const debit = parseStatementAmount(cell(debitIndex));
+      amount = credit || (debit ? -Math.abs(debit) : null);
+      type = credit ? BankStatementLineType.CREDIT : BankStatementLineType.DEBIT;
+    }
+
+    if (!amount) {
+      return;
+    }
+
+    let transactionDate: Date;
+    try {
+      transactionDate = parseStatementDate(cell(dateIndex), mapping.dateFormat, mapping.dateCalendar);
+    } catch (error) {
+      throw new RangeError(`Row ${lineNumber}: ${error.message}`);
+    }
+    const description = cell(descriptionIndex);
+    const reference = cell(referenceIndex) || null;
+    const absoluteAmount = Math.round(Math.abs(amount) * 100) / 100;
+
+    // Identical rows in one file are separate transactions; number them so they stay distinct
+    const key = [
+      transactionDate.toDateString(),
+      type,
+      absoluteAmount.toFixed(2),
+      (reference || '').toLowerCase(),
+      description.replace(/\s+/g, ' ').toLowerCase()
+    ].join('|');
+    const occurrence = (occurrences.get(key) || 0) + 1;
+    occurrences.set(key, occurrence);
+
+    lines.push({
+      lineNumber,
+      transactionDate,
+      description,
+      reference,
+      type,
+      amount: absoluteAmount,
+      fingerprint: createHash('sha256').update(`${key}|${occurrence}`).digest('hex'),
+      raw: Object.fromEntries(headers.map((header, index) => [header, row[index] ?? '']))
+    });
+  });
+
+  return lines;
+}
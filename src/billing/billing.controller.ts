@@ -1,7 +1,7 @@
-import { Controller, Get, Post, Body, Param, Query, HttpStatus, UseGuards } from '@nestjs/common';
+import { Controller, Get, Post, Put, Body, Param, Query, HttpStatus, UseGuards } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
 import { BillingService } from './billing.service';
-import { GenerateMonthlyInvoicesDto } from './dto';
+import { GenerateMonthlyInvoicesDto, UpdateBillingCalendarDto } from './dto';
 import { GetHostelId } from '../hostel/decorators/hostel-context.decorator';
 import { HostelAuthWithContextGuard } from '../auth/guards/hostel-auth-with-context.guard';
 
@@ -24,6 +24,30 @@ export class BillingController {
     };
   }
 
+  @Get('calendar')
+  @ApiOperation({ summary: 'Get the calendar (AD or BS) the hostel bills and reports in' })
+  @ApiResponse({ status: 200, description: 'Billing calendar retrieved successfully' })
+  async getBillingCalendar(@GetHostelId() hostelId: string) {
+    const calendar = await this.billingService.getBillingCalendar(hostelId);
+
+    return {
+      status: HttpStatus.OK,
+      data: calendar
+    };
+  }
+
+  @Put('calendar')
+  @ApiOperation({ summary: 'Switch the hostel between AD and Bikram Sambat billing' })
+  @ApiResponse({ status: 200, description: 'Billing calendar updated successfully' })
+  async updateBillingCalendar(@GetHostelId() hostelId: string, @Body() updateDto: UpdateBillingCalendarDto) {
+    const calendar = await this.billingService.updateBillingCalendar(hostelId, updateDto.calendarSystem);
+
+    return {
+      status: HttpStatus.OK,
+      data: calendar
+    };
+  }
+
   @Post('generate-monthly')
   @ApiOperation({ summary: 'Generate monthly invoices for all active students' })
   @ApiResponse({ status: 201, description: 'Monthly invoices generated successfully' })
@@ -98,7 +122,10 @@ export class BillingController {
   }
 
   @Post('generate-nepalese-monthly')
-  @ApiOperation({ summary: 'Generate monthly invoices using Nepalese billing system' })
+  @ApiOperation({
+    summary: 'Generate monthly invoices using Nepalese billing system',
+    description: 'month and year are in the hostel calendar, e.g. month 7 / year 2082 is Kartik 2082 for BS hostels'
+  })
   @ApiResponse({ status: 201, description: 'Nepalese monthly invoices generated successfully' })
   async generateNepalesesMonthlyInvoices(@GetHostelId() hostelId: string, @Body() generateDto: GenerateMonthlyInvoicesDto) {
     // 🔧 FIX: Use the existing billing service which has proper dependency injection
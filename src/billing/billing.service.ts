@@ -10,6 +10,15 @@ import { Payment } from '../payments/entities/payment.entity';
 import { LedgerEntryV2 } from '../ledger-v2/entities/ledger-entry-v2.entity';
 import { LedgerV2Service } from '../ledger-v2/services/ledger-v2.service';
 import { AdvancePaymentService } from '../students/services/advance-payment.service';
+import { BedSwitchBillingService } from '../students/services/bed-switch-billing.service';
+import { HostelService } from '../hostel/hostel.service';
+import { HostelSettingsService } from '../hostel/services/hostel-settings.service';
+import {
+  CalendarSystem,
+  getCalendarMonth,
+  getNepaliFiscalYearLabel,
+  toDualDate
+} from '../common/utils/bikram-sambat.util';
 
 @Injectable()
 export class BillingService {
@@ -30,6 +39,9 @@ export class BillingService {
     private ledgerV2Repository: Repository<LedgerEntryV2>,
     private ledgerV2Service: LedgerV2Service,
     private advancePaymentService: AdvancePaymentService,
+    private hostelService: HostelService,
+    private bedSwitchBillingService: BedSwitchBillingService,
+    private hostelSettingsService: HostelSettingsService,
   ) {}
 
   async getMonthlyStats(hostelId: string) {
@@ -151,16 +163,13 @@ export class BillingService {
     // Set due date (default to 10th of the month)
     const invoiceDueDate = dueDate || new Date(year, month, 10);
     
-    // Generate invoice number (custom format for display)
-    const timestamp = Date.now().toString().slice(-8); // Last 8 digits for shorter ID
-    const invoiceNumber = `INV-${year}${String(month + 1).padStart(2, '0')}-${timestamp}`;
-    // Let TypeORM generate UUID for the ID automatically
+    // Let TypeORM generate UUID for the ID automatically; the sequential invoice number is assigned on insert
     const monthKey = `${year}-${String(month + 1).padStart(2, '0')}`;
 
     const invoice = this.invoiceRepository.create({
       // Remove custom ID - let TypeORM generate UUID automatically
-      invoiceNumber,
       studentId: student.id,
+      hostelId: student.hostelId,
       month: monthKey,
       total: totalAmount,
       subtotal: totalAmount,
@@ -419,7 +428,10 @@ export class BillingService {
       this.paymentRepository,
       this.financialInfoRepository,
       this.ledgerV2Service,
-      this.advancePaymentService
+      this.advancePaymentService,
+      this.hostelService,
+      this.bedSwitchBillingService,
+      this.hostelSettingsService
     );
 
     // Generate invoices using Nepalese billing logic
@@ -439,10 +451,33 @@ export class BillingService {
       this.paymentRepository,
       this.financialInfoRepository,
       this.ledgerV2Service,
-      this.advancePaymentService
+      this.advancePaymentService,
+      this.hostelService,
+      this.bedSwitchBillingService,
+      this.hostelSettingsService
     );
 
     // Get payment due students using Nepalese billing logic
     return await nepalesesBillingService.getPaymentDueStudents(hostelId);
   }
-}
\ No newline at end of file
+
+  /**
+   * Calendar the hostel bills in, with today's date and month in that calendar
+   */
+  async getBillingCalendar(hostelId: string) {
+    const calendarSystem = await this.hostelService.getCalendarSystem(hostelId);
+    const today = new Date();
+
+    return {
+      calendarSystem,
+      today: toDualDate(today),
+      currentMonth: getCalendarMonth(today, calendarSystem),
+      fiscalYear: getNepaliFiscalYearLabel(today)
+    };
+  }
+
+  async updateBillingCalendar(hostelId: string, calendarSystem: CalendarSystem) {
+    await this.hostelService.updateCalendarSystem(hostelId, calendarSystem);
+    return this.getBillingCalendar(hostelId);
+  }
+}
@@ -4,7 +4,7 @@ import { Transform } from 'class-transformer';
 
 export class GenerateMonthlyInvoicesDto {
   @ApiProperty({ 
-    description: 'Month for which to generate invoices (1-12)',
+    description: 'Month for which to generate invoices (1-12), in the hostel calendar for Nepalese billing',
     example: 1,
     minimum: 1,
     maximum: 12
@@ -1 +1,2 @@
-export { GenerateMonthlyInvoicesDto } from './generate-monthly-invoices.dto';
\ No newline at end of file
+export { GenerateMonthlyInvoicesDto } from './generate-monthly-invoices.dto';
+export { UpdateBillingCalendarDto } from './update-billing-calendar.dto';
\ No newline at end of file
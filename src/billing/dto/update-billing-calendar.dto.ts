@@ -0,0 +1,13 @@
+import { IsEnum } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { CalendarSystem } from '../../common/utils/bikram-sambat.util';
+
+export class UpdateBillingCalendarDto {
+  @ApiProperty({
+    description: 'Calendar used to bill, prorate, label invoices and group reports',
+    enum: CalendarSystem,
+    example: CalendarSystem.BS
+  })
+  @IsEnum(CalendarSystem)
+  calendarSystem: CalendarSystem;
+}
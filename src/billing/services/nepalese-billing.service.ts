@@ -8,6 +8,17 @@ import { Payment, PaymentType, PaymentStatus } from '../../payments/entities/pay
 import { StudentFinancialInfo, FeeType } from '../../students/entities/student-financial-info.entity';
 import { LedgerV2Service } from '../../ledger-v2/services/ledger-v2.service';
 import { AdvancePaymentService } from '../../students/services/advance-payment.service';
+import { BedSwitchBillingService } from '../../students/services/bed-switch-billing.service';
+import { HostelService } from '../../hostel/hostel.service';
+import { HostelSettingsService } from '../../hostel/services/hostel-settings.service';
+import { HostelSettingsValues } from '../../hostel/entities/hostel-settings.entity';
+import {
+  CalendarSystem,
+  getCalendarMonth,
+  getCalendarMonthLabel,
+  getCalendarMonthRange,
+  toDualDate
+} from '../../common/utils/bikram-sambat.util';
 
 export interface PaymentStatusResult {
   status: 'ADVANCE_PAID' | 'PAYMENT_DUE' | 'DUE_TOMORROW' | 'DUE_TODAY' | 'OVERDUE' | 'PAID';
@@ -17,6 +28,7 @@ export interface PaymentStatusResult {
   daysOverdue?: number;
   nextPaymentMonth?: string;
   dueDate?: string;
+  dueDateBs?: string;
 }
 
 export interface MonthlyBillingResult {
@@ -53,11 +65,15 @@ export class NepalesesBillingService {
     private financialInfoRepository: Repository<StudentFinancialInfo>,
     private ledgerV2Service: LedgerV2Service,
     private advancePaymentService: AdvancePaymentService,
+    private hostelService: HostelService,
+    private bedSwitchBillingService: BedSwitchBillingService,
+    private hostelSettingsService: HostelSettingsService,
   ) {}
 
   /**
    * Generate monthly invoices following Nepalese billing practice
    * Skips students who have advance payment for the billing month
+   * month (0-based) and year are in the hostel's calendar: Kartik 2082 is (6, 2082) for BS hostels
    */
   async generateMonthlyInvoices(
     month: number, 
@@ -69,7 +85,18 @@ export class NepalesesBillingService {
       throw new BadRequestException('Hostel context required for billing');
     }
 
-    console.log(`🧾 Generating Nepalese monthly invoices for ${month + 1}/${year}`);
+    const calendar = await this.hostelService.getCalendarSystem(hostelId);
+    const settings = await this.hostelSettingsService.getSettings(hostelId);
+    const monthKey = `${year}-${String(month + 1).padStart(2, '0')}`;
+
+    let period: { start: Date; end: Date };
+    try {
+      period = getCalendarMonthRange(year, month + 1, calendar);
+    } catch (error) {
+      throw new BadRequestException(error.message);
+    }
+
+    console.log(`🧾 Generating Nepalese monthly invoices for ${getCalendarMonthLabel(monthKey, calendar)} (${calendar})`);
     
     // Get all active configured students
     const activeStudents = await this.studentRepository
@@ -94,8 +121,6 @@ export class NepalesesBillingService {
       errors: []
     };
 
-    const monthKey = `${year}-${String(month + 1).padStart(2, '0')}`;
-
     for (const student of activeStudents) {
       try {
         // NEW: Always generate invoices regardless of advance payments
@@ -121,13 +146,13 @@ export class NepalesesBillingService {
         }
 
         // Generate full month invoice
-        const invoice = await this.generateFullMonthInvoice(student, month, year, dueDate, hostelId);
+        const invoice = await this.generateFullMonthInvoice(student, monthKey, calendar, period, settings, dueDate, hostelId);
         
         result.generated++;
         result.totalAmount += Number(invoice.total);
         result.invoices.push(invoice);
         
-        console.log(`✅ Generated invoice for ${student.name}: NPR ${Number(invoice.total).toLocaleString()}`);
+        console.log(`✅ Generated invoice for ${student.name}: ${settings.general.currency} ${Number(invoice.total).toLocaleString()}`);
         
       } catch (error) {
         result.failed++;
@@ -141,7 +166,7 @@ export class NepalesesBillingService {
     }
 
     console.log(`🎉 Nepalese monthly billing complete: ${result.generated} generated, ${result.skipped} skipped, ${result.failed} failed`);
-    console.log(`💰 Total amount: NPR ${result.totalAmount.toLocaleString()}`);
+    console.log(`💰 Total amount: ${settings.general.currency} ${result.totalAmount.toLocaleString()}`);
 
     return result;
   }
@@ -164,33 +189,44 @@ export class NepalesesBillingService {
    */
   private async generateFullMonthInvoice(
     student: Student, 
-    month: number, 
-    year: number, 
+    monthKey: string,
+    calendar: CalendarSystem,
+    period: { start: Date; end: Date },
+    settings: HostelSettingsValues,
     dueDate?: Date,
     hostelId?: string
   ): Promise<Invoice> {
     // Calculate monthly fee from financial info
     const feeCalculation = await this.advancePaymentService.calculateMonthlyFee(student.id);
 
-    // Set due date (default to 10th of the month, or last day of current month for Nepalese practice)
-    const invoiceDueDate = dueDate || new Date(year, month, 10);
-    
-    // Generate invoice number
-    const timestamp = Date.now().toString().slice(-8);
-    const invoiceNumber = `INV-${year}${String(month + 1).padStart(2, '0')}-${timestamp}`;
-    const monthKey = `${year}-${String(month + 1).padStart(2, '0')}`;
+    const monthLabel = getCalendarMonthLabel(monthKey, calendar);
+
+    // A bed switch during the month splits the rent: each bed's rate for the days the student had it
+    const rentSplit = await this.bedSwitchBillingService.getRentSegments(student.id, monthKey, period);
+    const invoiceTotal = rentSplit
+      ? roundAmount(feeCalculation.totalMonthlyFee - feeCalculation.baseMonthlyFee +
+        rentSplit.segments.reduce((sum, segment) => sum + segment.amount, 0))
+      : feeCalculation.totalMonthlyFee;
 
-    // Create invoice
+    // Due date from the hostel settings (billing day + offset, the 10th by default) unless given
+    const { billingDay, dueDateOffsetDays } = settings.billing;
+    const invoiceDueDate = dueDate || new Date(
+      period.start.getFullYear(), period.start.getMonth(), period.start.getDate() + billingDay - 1 + dueDateOffsetDays
+    );
+
+    // Create invoice (sequential invoice number is assigned on insert)
     const invoice = this.invoiceRepository.create({
-      invoiceNumber,
       studentId: student.id,
       hostelId: hostelId || student.hostelId,
       month: monthKey,
-      total: feeCalculation.totalMonthlyFee,
-      subtotal: feeCalculation.totalMonthlyFee,
+      calendar,
+      periodStart: period.start,
+      periodEnd: period.end,
+      total: invoiceTotal,
+      subtotal: invoiceTotal,
       status: InvoiceStatus.UNPAID,
       dueDate: invoiceDueDate,
-      notes: `Monthly charges for ${this.getMonthName(month)} ${year} - Nepalese billing system`,
+      notes: `Monthly charges for ${monthLabel} - Nepalese billing system`,
       generatedBy: 'nepalese_billing_system'
     });
 
@@ -198,6 +234,20 @@ export class NepalesesBillingService {
 
     // Create invoice items for each fee type
     for (const feeItem of feeCalculation.breakdown) {
+      if (rentSplit && feeItem.feeType === FeeType.BASE_MONTHLY) {
+        for (const segment of rentSplit.segments) {
+          await this.invoiceItemRepository.save(this.invoiceItemRepository.create({
+            invoiceId: savedInvoice.id,
+            description: `${feeItem.description} - ${segment.bedIdentifier} (${segment.days}/${segment.daysInPeriod} days at ${settings.general.currency} ${segment.rate})`,
+            amount: segment.amount,
+            category: InvoiceItemCategory.ACCOMMODATION,
+            quantity: 1,
+            unitPrice: segment.amount
+          }));
+        }
+        continue;
+      }
+
       const invoiceItem = this.invoiceItemRepository.create({
         invoiceId: savedInvoice.id,
         description: feeItem.description,
@@ -210,12 +260,16 @@ export class NepalesesBillingService {
       await this.invoiceItemRepository.save(invoiceItem);
     }
 
+    if (rentSplit) {
+      await this.bedSwitchBillingService.markInvoiced(rentSplit.audits, savedInvoice.id);
+    }
+
     // Create ledger entry for the invoice
     try {
       await this.ledgerV2Service.createAdjustmentEntry({
         studentId: student.id,
-        amount: feeCalculation.totalMonthlyFee,
-        description: `Monthly Invoice - ${this.getMonthName(month)} ${year} - ${student.name}`,
+        amount: invoiceTotal,
+        description: `Monthly Invoice - ${monthLabel} - ${student.name}`,
         type: 'debit'
       }, hostelId || student.hostelId);
     } catch (error) {
@@ -246,86 +300,86 @@ export class NepalesesBillingService {
       };
     }
 
+    // Months follow the hostel's calendar (AD or BS)
+    const calendar = await this.hostelService.getCalendarSystem(hostelId);
     const currentDate = new Date();
-    const currentMonth = currentDate.getMonth();
-    const currentYear = currentDate.getFullYear();
-    const currentMonthKey = `${currentYear}-${String(currentMonth + 1).padStart(2, '0')}`;
+    const currentMonth = getCalendarMonth(currentDate, calendar);
+    const lastDayOfMonth = getCalendarMonthRange(currentMonth.year, currentMonth.month, calendar).end;
+    const nextMonth = getCalendarMonth(
+      new Date(lastDayOfMonth.getFullYear(), lastDayOfMonth.getMonth(), lastDayOfMonth.getDate() + 1),
+      calendar
+    );
 
     // Check if current month is covered by advance payment
-    if (student.advancePaymentMonth === currentMonthKey) {
-      const nextMonth = currentMonth === 11 ? 0 : currentMonth + 1;
-      const nextYear = currentMonth === 11 ? currentYear + 1 : currentYear;
-      const nextMonthName = this.getMonthName(nextMonth);
-      
+    if (student.advancePaymentMonth === currentMonth.key) {
       return {
         status: 'ADVANCE_PAID',
-        message: `${this.getMonthName(currentMonth)} ${currentYear} - Paid in Advance`,
+        message: `${currentMonth.label} - Paid in Advance`,
         dueAmount: 0,
-        nextPaymentMonth: `${nextMonthName} ${nextYear}`
+        nextPaymentMonth: nextMonth.label
       };
     }
 
     // Calculate payment due status for next month (Nepalese practice: pay by end of current month)
-    const nextMonth = currentMonth === 11 ? 0 : currentMonth + 1;
-    const nextYear = currentMonth === 11 ? currentYear + 1 : currentYear;
-    const nextMonthKey = `${nextYear}-${String(nextMonth + 1).padStart(2, '0')}`;
-    const nextMonthName = this.getMonthName(nextMonth);
-
     // Check if next month invoice exists and is paid
     const nextMonthInvoice = await this.invoiceRepository.findOne({
-      where: { studentId, month: nextMonthKey }
+      where: { studentId, month: nextMonth.key }
     });
 
     if (nextMonthInvoice && nextMonthInvoice.status === InvoiceStatus.PAID) {
       return {
         status: 'PAID',
-        message: `${nextMonthName} ${nextYear} - Paid`,
+        message: `${nextMonth.label} - Paid`,
         dueAmount: 0
       };
     }
 
     // Calculate days until payment due (last day of current month)
-    const lastDayOfMonth = new Date(currentYear, currentMonth + 1, 0);
     const daysUntilDue = Math.ceil((lastDayOfMonth.getTime() - currentDate.getTime()) / (1000 * 60 * 60 * 24));
 
     // Get monthly fee amount
     const feeCalculation = await this.advancePaymentService.calculateMonthlyFee(studentId);
+    const nextMonthName = nextMonth.label;
+    const dueDateBs = toDualDate(lastDayOfMonth)?.bs;
 
     if (daysUntilDue > 1) {
       return {
         status: 'PAYMENT_DUE',
-        message: `${nextMonthName} ${nextYear} payment due in ${daysUntilDue} days`,
+        message: `${nextMonthName} payment due in ${daysUntilDue} days`,
         dueAmount: feeCalculation.totalMonthlyFee,
         daysUntilDue,
-        nextPaymentMonth: `${nextMonthName} ${nextYear}`,
-        dueDate: lastDayOfMonth.toLocaleDateString()
+        nextPaymentMonth: `${nextMonthName}`,
+        dueDate: lastDayOfMonth.toLocaleDateString(),
+        dueDateBs
       };
     } else if (daysUntilDue === 1) {
       return {
         status: 'DUE_TOMORROW',
-        message: `${nextMonthName} ${nextYear} payment due tomorrow`,
+        message: `${nextMonthName} payment due tomorrow`,
         dueAmount: feeCalculation.totalMonthlyFee,
         daysUntilDue: 1,
-        nextPaymentMonth: `${nextMonthName} ${nextYear}`,
-        dueDate: lastDayOfMonth.toLocaleDateString()
+        nextPaymentMonth: `${nextMonthName}`,
+        dueDate: lastDayOfMonth.toLocaleDateString(),
+        dueDateBs
       };
     } else if (daysUntilDue === 0) {
       return {
         status: 'DUE_TODAY',
-        message: `${nextMonthName} ${nextYear} payment due today`,
+        message: `${nextMonthName} payment due today`,
         dueAmount: feeCalculation.totalMonthlyFee,
         daysUntilDue: 0,
-        nextPaymentMonth: `${nextMonthName} ${nextYear}`,
-        dueDate: lastDayOfMonth.toLocaleDateString()
+        nextPaymentMonth: `${nextMonthName}`,
+        dueDate: lastDayOfMonth.toLocaleDateString(),
+        dueDateBs
       };
     } else {
       const daysOverdue = Math.abs(daysUntilDue);
       return {
         status: 'OVERDUE',
-        message: `${nextMonthName} ${nextYear} payment overdue by ${daysOverdue} days`,
+        message: `${nextMonthName} payment overdue by ${daysOverdue} days`,
         dueAmount: feeCalculation.totalMonthlyFee,
         daysOverdue,
-        nextPaymentMonth: `${nextMonthName} ${nextYear}`
+        nextPaymentMonth: `${nextMonthName}`
       };
     }
   }
@@ -392,15 +446,8 @@ export class NepalesesBillingService {
         return InvoiceItemCategory.OTHER;
     }
   }
+}
 
-  /**
-   * Get month name from month number
-   */
-  private getMonthName(month: number): string {
-    const months = [
-      'January', 'February', 'March', 'April', 'May', 'June',
-      'July', 'August', 'September', 'October', 'November', 'December'
-    ];
-    return months[month];
-  }
-}
\ No newline at end of file
+function roundAmount(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
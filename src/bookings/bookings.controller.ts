@@ -13,11 +13,16 @@ import { ConfirmBookingDto } from './dto/confirm-booking.dto';
 import { CancelBookingDto } from './dto/cancel-booking.dto';
 import { GetMyBookingsDto, MyBookingsResponseDto, CancelMyBookingDto } from './dto/my-bookings.dto';
 import { BookingRequirementsResponseDto } from './dto/booking-requirements.dto';
+import { SaveBookingDepositPolicyDto, RecordBookingDepositDto, RefundBookingDepositDto } from './dto/booking-deposit.dto';
+import { BookingDepositService } from './services/booking-deposit.service';
 import { BedService } from '../rooms/bed.service';
 import { HostelService } from '../hostel/hostel.service';
+import { Audited } from '../audit/decorators/audited.decorator';
+import { MultiGuestBooking } from './entities/multi-guest-booking.entity';
 
 @ApiTags('bookings')
 @Controller('booking-requests')
+@Audited({ entity: MultiGuestBooking, entityType: 'Booking' })
 export class BookingsController {
   private readonly logger = new Logger(BookingsController.name);
 
@@ -27,6 +32,7 @@ export class BookingsController {
     // Removed: private readonly transformationService: BookingTransformationService
     private readonly bedService: BedService,
     private readonly hostelService: HostelService,
+    private readonly bookingDepositService: BookingDepositService,
   ) { }
 
   @Get('requirements')
@@ -276,6 +282,77 @@ export class BookingsController {
     };
   }
 
+  @Get('deposit-policies')
+  @UseGuards(HostelAuthWithContextGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Get booking deposit policies (hostel default and per room type)' })
+  @ApiResponse({ status: 200, description: 'Deposit policies retrieved successfully' })
+  async getDepositPolicies(@GetHostelId() hostelId: string) {
+    const result = await this.bookingDepositService.getPolicies(hostelId);
+
+    return {
+      status: HttpStatus.OK,
+      data: result
+    };
+  }
+
+  @Put('deposit-policies')
+  @UseGuards(HostelAuthWithContextGuard)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Create or update a booking deposit policy',
+    description: 'Without roomTypeId the hostel default is saved; with it, the override for that room type.'
+  })
+  @ApiResponse({ status: 200, description: 'Deposit policy saved successfully' })
+  async saveDepositPolicy(@Body() saveDto: SaveBookingDepositPolicyDto, @GetHostelId() hostelId: string) {
+    const result = await this.bookingDepositService.savePolicy(hostelId, saveDto);
+
+    return {
+      status: HttpStatus.OK,
+      data: result
+    };
+  }
+
+  @Post('multi-guest/:id/deposit')
+  @UseGuards(HostelAuthWithContextGuard)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Record a deposit payment for a pending booking',
+    description: 'The deposit is credited to the students as an advance payment when the booking is confirmed.'
+  })
+  @ApiResponse({ status: 200, description: 'Deposit recorded successfully' })
+  async recordDeposit(
+    @Param('id') id: string,
+    @Body() recordDto: RecordBookingDepositDto,
+    @GetHostelId() hostelId: string,
+    @Request() req
+  ) {
+    const result = await this.bookingDepositService.recordDeposit(id, hostelId, recordDto, req.user);
+
+    return {
+      status: HttpStatus.OK,
+      data: result
+    };
+  }
+
+  @Post('multi-guest/:id/deposit/refund')
+  @UseGuards(HostelAuthWithContextGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Mark the refundable deposit of a cancelled booking as paid back' })
+  @ApiResponse({ status: 200, description: 'Deposit refund recorded successfully' })
+  async refundDeposit(
+    @Param('id') id: string,
+    @Body() refundDto: RefundBookingDepositDto,
+    @GetHostelId() hostelId: string
+  ) {
+    const result = await this.bookingDepositService.markRefunded(id, hostelId, refundDto);
+
+    return {
+      status: HttpStatus.OK,
+      data: result
+    };
+  }
+
   // User booking endpoints (MUST come before parameterized routes)
   @Get('debug/all-bookings')
   @UseGuards(HostelAuthWithContextGuard)
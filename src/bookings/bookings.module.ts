@@ -6,7 +6,9 @@ import { MultiGuestBookingService } from './multi-guest-booking.service';
 import { BookingValidationService } from './validation/booking-validation.service';
 import { HostelNotificationService } from './hostel-notification.service';
 import { ContactPersonService } from './services/contact-person.service';
+import { BookingDepositService } from './services/booking-deposit.service';
 import { MultiGuestBooking } from './entities/multi-guest-booking.entity';
+import { BookingDepositPolicy } from './entities/booking-deposit-policy.entity';
 import { BookingGuest } from './entities/booking-guest.entity';
 import { Student } from '../students/entities/student.entity';
 import { Room } from '../rooms/entities/room.entity';
@@ -15,12 +17,15 @@ import { RoomsModule } from '../rooms/rooms.module';
 import { HostelModule } from '../hostel/hostel.module';
 import { Hostel } from '../hostel/entities/hostel.entity';
 import { NotificationModule } from '../notification/notification.module';
+import { PaymentsModule } from '../payments/payments.module';
+import { EventsModule } from '../events/events.module';
 
 @Module({
   imports: [
     TypeOrmModule.forFeature([
       MultiGuestBooking,
       BookingGuest,
+      BookingDepositPolicy,
       Student,
       Room,
       Bed,
@@ -30,6 +35,8 @@ import { NotificationModule } from '../notification/notification.module';
     RoomsModule, // Import RoomsModule to access BedSyncService
     HostelModule, // Import HostelModule to access BusinessIntegrationService
     NotificationModule, // Import NotificationModule for unified notifications
+    PaymentsModule, // Import PaymentsModule to turn booking deposits into payments
+    EventsModule,
   ],
   controllers: [BookingsController],
   providers: [
@@ -37,7 +44,8 @@ import { NotificationModule } from '../notification/notification.module';
     BookingValidationService,
     HostelNotificationService,
     ContactPersonService,
+    BookingDepositService,
   ],
-  exports: [MultiGuestBookingService],
+  exports: [MultiGuestBookingService, HostelNotificationService],
 })
 export class BookingsModule {}
\ No newline at end of file
@@ -0,0 +1,69 @@
+import { IsBoolean, IsEnum, IsInt, IsNumber, IsOptional, IsPositive, IsString, IsUUID, Max, MaxLength, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { PaymentMethod } from '../../payments/entities/payment.entity';
+
+export class SaveBookingDepositPolicyDto {
+  @ApiPropertyOptional({ description: 'Room type the policy applies to; omit for the hostel default' })
+  @IsOptional()
+  @IsUUID()
+  roomTypeId?: string;
+
+  @ApiProperty({ description: 'Deposit per booked bed (NPR); 0 turns deposits off', example: 5000 })
+  @Type(() => Number)
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  amountPerBed: number;
+
+  @ApiPropertyOptional({ description: 'Require the full deposit before the booking can be confirmed', default: false })
+  @IsOptional()
+  @IsBoolean()
+  isRequired?: boolean;
+
+  @ApiPropertyOptional({ description: 'Guest cancellations at least this many days before check-in are refunded in full', default: 7 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  @Max(365)
+  freeCancellationDays?: number;
+
+  @ApiPropertyOptional({ description: 'Percentage of the deposit kept on later guest cancellations', default: 100 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  @Max(100)
+  forfeitPercent?: number;
+
+  @ApiPropertyOptional({ description: 'Disable the policy without deleting it', default: true })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
+
+export class RecordBookingDepositDto {
+  @ApiProperty({ description: 'Amount received (NPR); may be part of the deposit', example: 5000 })
+  @Type(() => Number)
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @IsPositive()
+  amount: number;
+
+  @ApiProperty({ description: 'How the guest paid', enum: PaymentMethod })
+  @IsEnum(PaymentMethod)
+  paymentMethod: PaymentMethod;
+
+  @ApiPropertyOptional({ description: 'Bank or wallet transaction reference' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  reference?: string;
+}
+
+export class RefundBookingDepositDto {
+  @ApiPropertyOptional({ description: 'Cheque number, bank or wallet transaction id of the refund' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  reference?: string;
+}
@@ -41,4 +41,9 @@ export {
   BookingRequirementsResponseDto,
   AvailableBedDto,
   HostelInfoDto as BookingHostelInfoDto
-} from './booking-requirements.dto';
\ No newline at end of file
+} from './booking-requirements.dto';
+export {
+  SaveBookingDepositPolicyDto,
+  RecordBookingDepositDto,
+  RefundBookingDepositDto
+} from './booking-deposit.dto';
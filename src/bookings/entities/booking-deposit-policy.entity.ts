@@ -0,0 +1,47 @@
+import { Entity, Column, ManyToOne, JoinColumn, Index } from 'typeorm';
+import { BaseEntity } from '../../common/entities/base.entity';
+import { Hostel } from '../../hostel/entities/hostel.entity';
+import { RoomType } from '../../rooms/entities/room-type.entity';
+
+/**
+ * Deposit a guest pays per booked bed. The row without a room type is the
+ * hostel default; a row for a room type overrides it for beds of that type.
+ * Cancellation terms are copied onto each booking when it is requested.
+ */
+@Entity('booking_deposit_policies')
+@Index(['hostelId', 'roomTypeId'], { unique: true })
+export class BookingDepositPolicy extends BaseEntity {
+  @Column({ name: 'hostel_id' })
+  hostelId: string;
+
+  // Null for the hostel-wide default
+  @Column({ name: 'room_type_id', nullable: true })
+  roomTypeId: string;
+
+  @Column({ name: 'amount_per_bed', type: 'decimal', precision: 10, scale: 2, default: 0 })
+  amountPerBed: number;
+
+  // When true the booking cannot be confirmed until the deposit is paid in full
+  @Column({ name: 'is_required', default: false })
+  isRequired: boolean;
+
+  // Guest cancellations at least this many days before check-in get the full deposit back
+  @Column({ name: 'free_cancellation_days', type: 'int', default: 7 })
+  freeCancellationDays: number;
+
+  // Share of the deposit kept on later guest cancellations (0-100)
+  @Column({ name: 'forfeit_percent', type: 'decimal', precision: 5, scale: 2, default: 100 })
+  forfeitPercent: number;
+
+  @Column({ name: 'is_active', default: true })
+  isActive: boolean;
+
+  // Relations
+  @ManyToOne(() => Hostel, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'hostel_id' })
+  hostel: Hostel;
+
+  @ManyToOne(() => RoomType, { nullable: true, onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'room_type_id' })
+  roomType: RoomType;
+}
@@ -1,3 +1,4 @@
-export { MultiGuestBooking, MultiGuestBookingStatus } from './multi-guest-booking.entity';
+export { MultiGuestBooking, MultiGuestBookingStatus, BookingDepositStatus, BookingDepositTerms } from './multi-guest-booking.entity';
+export { BookingDepositPolicy } from './booking-deposit-policy.entity';
 export { BookingGuest, GuestStatus } from './booking-guest.entity';
 // Removed: export { BookingRequest } from './booking-request.entity';
\ No newline at end of file
@@ -2,6 +2,7 @@ import { Entity, Column, OneToMany, ManyToOne, JoinColumn, Index } from 'typeorm
 import { BaseEntity } from '../../common/entities/base.entity';
 import { BookingGuest } from './booking-guest.entity';
 import { Hostel } from '../../hostel/entities/hostel.entity';
+import { PaymentMethod } from '../../payments/entities/payment.entity';
 
 export enum MultiGuestBookingStatus {
   PENDING = 'Pending',
@@ -12,6 +13,21 @@ export enum MultiGuestBookingStatus {
   COMPLETED = 'Completed'
 }
 
+export enum BookingDepositStatus {
+  NOT_REQUIRED = 'not_required',
+  PENDING = 'pending',           // Deposit asked for, not (fully) paid yet
+  PAID = 'paid',
+  APPLIED = 'applied',           // Turned into the students' first month credit on confirmation
+  REFUND_DUE = 'refund_due',
+  REFUNDED = 'refunded',
+  FORFEITED = 'forfeited'
+}
+
+export interface BookingDepositTerms {
+  freeCancellationDays: number;
+  forfeitPercent: number;
+}
+
 @Entity('multi_guest_bookings')
 @Index(['status'])
 @Index(['contactEmail'])
@@ -119,6 +135,62 @@ export class MultiGuestBooking extends BaseEntity {
   @Column({ name: 'priority_score', type: 'int', default: 0 })
   priorityScore: number;
 
+  // Set when the guest and admin were warned that the pending hold is about to expire
+  @Column({ name: 'expiry_reminder_sent_at', type: 'timestamp', nullable: true })
+  expiryReminderSentAt: Date;
+
+  // Booking deposit (see BookingDepositPolicy)
+  @Column({ name: 'deposit_amount', type: 'decimal', precision: 10, scale: 2, default: 0 })
+  depositAmount: number;
+
+  @Column({ name: 'deposit_required', default: false })
+  depositRequired: boolean;
+
+  @Column({
+    name: 'deposit_status',
+    type: 'enum',
+    enum: BookingDepositStatus,
+    default: BookingDepositStatus.NOT_REQUIRED
+  })
+  depositStatus: BookingDepositStatus;
+
+  @Column({ name: 'deposit_paid_amount', type: 'decimal', precision: 10, scale: 2, default: 0 })
+  depositPaidAmount: number;
+
+  @Column({ name: 'deposit_paid_at', type: 'timestamp', nullable: true })
+  depositPaidAt: Date;
+
+  @Column({
+    name: 'deposit_payment_method',
+    type: 'enum',
+    enum: PaymentMethod,
+    nullable: true
+  })
+  depositPaymentMethod: PaymentMethod;
+
+  @Column({ name: 'deposit_reference', type: 'varchar', length: 255, nullable: true })
+  depositReference: string;
+
+  // Cancellation terms copied from the deposit policy when the booking was made
+  @Column({ name: 'deposit_terms', type: 'jsonb', nullable: true })
+  depositTerms: BookingDepositTerms;
+
+  // ADVANCE payments the deposit was turned into on confirmation
+  @Column({ name: 'deposit_payment_ids', type: 'jsonb', nullable: true })
+  depositPaymentIds: string[];
+
+  @Column({ name: 'deposit_forfeited_amount', type: 'decimal', precision: 10, scale: 2, default: 0 })
+  depositForfeitedAmount: number;
+
+  @Column({ name: 'deposit_refund_amount', type: 'decimal', precision: 10, scale: 2, default: 0 })
+  depositRefundAmount: number;
+
+  @Column({ name: 'deposit_refunded_at', type: 'timestamp', nullable: true })
+  depositRefundedAt: Date;
+
+  @Column({ name: 'deposit_refund_reference', type: 'varchar', length: 255, nullable: true })
+  depositRefundReference: string;
+
   // Relations
   @ManyToOne(() => Hostel, hostel => hostel.multiGuestBookings, { onDelete: 'CASCADE' })
   @JoinColumn({ name: 'hostelId' })
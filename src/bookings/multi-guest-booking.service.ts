@@ -1,10 +1,10 @@
 import { Injectable, NotFoundException, BadRequestException, Logger } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository, DataSource, Not, IsNull, MoreThan } from 'typeorm';
+import { Repository, DataSource, EntityManager, Not, IsNull, MoreThan } from 'typeorm';
 import { HttpService } from '@nestjs/axios';
 import { firstValueFrom } from 'rxjs';
 import { getExternalApiConfig, logApiConfig } from '../config/environment.config';
-import { MultiGuestBooking, MultiGuestBookingStatus } from './entities/multi-guest-booking.entity';
+import { MultiGuestBooking, MultiGuestBookingStatus, BookingDepositStatus } from './entities/multi-guest-booking.entity';
 import { BookingGuest, GuestStatus } from './entities/booking-guest.entity';
 import { Bed, BedStatus } from '../rooms/entities/bed.entity';
 import { Room } from '../rooms/entities/room.entity';
@@ -15,11 +15,14 @@ import { CreateBookingDto, ApproveBookingDto, RejectBookingDto } from './dto/cre
 import { BedSyncService } from '../rooms/bed-sync.service';
 import { BookingValidationService } from './validation/booking-validation.service';
 import { ContactPersonService } from './services/contact-person.service';
+import { BookingDepositService, BookingDepositSummary } from './services/booking-deposit.service';
 import { ConfigService } from '@nestjs/config';
 import { BusinessIntegrationService } from '../hostel/services/business-integration.service';
+import { HostelSettingsService } from '../hostel/services/hostel-settings.service';
 import { HostelNotificationService } from './hostel-notification.service';
 import { UnifiedNotificationService } from '../notification/unified-notification.service';
 import { JwtPayload } from '../auth/interfaces/jwt-payload.interface';
+import { DomainEventsService, DomainEventType } from '../events/domain-events.service';
 
 export interface BookingFilters {
   page?: number;
@@ -72,6 +75,7 @@ export interface ConfirmationResult {
   bookingId: string;
   confirmedGuests: number;
   failedAssignments?: string[];
+  deposit?: BookingDepositSummary;
 }
 
 export interface CancellationResult {
@@ -107,6 +111,9 @@ export class MultiGuestBookingService {
     private hostelNotificationService: HostelNotificationService,
     private unifiedNotificationService: UnifiedNotificationService,
     private httpService: HttpService,
+    private bookingDepositService: BookingDepositService,
+    private hostelSettingsService: HostelSettingsService,
+    private domainEventsService: DomainEventsService,
   ) {
     // Get URLs from centralized config
     const apiConfig = getExternalApiConfig(this.configService);
@@ -164,6 +171,9 @@ export class MultiGuestBookingService {
           this.logger.log(`✅ Using default hostel: ${hostel.name} (id: ${actualHostelId}`);;
         }
 
+        // Guest count and check-in date within the hostel's booking settings
+        await this.validateAgainstHostelSettings(actualHostelId, bookingData);
+
         // Comprehensive validation using validation service
         const dataValidation = this.validationService.validateBookingData(bookingData);
         if (!dataValidation.isValid) {
@@ -214,6 +224,17 @@ export class MultiGuestBookingService {
           status: MultiGuestBookingStatus.PENDING
         });
 
+        // Deposit owed for the requested beds under the hostel's deposit policies
+        const deposit = await this.bookingDepositService.calculateDeposit(actualHostelId, beds);
+        if (deposit.amount > 0) {
+          Object.assign(booking, {
+            depositAmount: deposit.amount,
+            depositRequired: deposit.required,
+            depositStatus: BookingDepositStatus.PENDING,
+            depositTerms: deposit.terms
+          });
+        }
+
         const savedBooking = await manager.save(MultiGuestBooking, booking);
 
         // Create guest records
@@ -258,23 +279,24 @@ export class MultiGuestBookingService {
           relations: ['guests', 'guests.bed', 'guests.bed.room', 'hostel']
         });
 
+        this.domainEventsService.publish({
+          type: DomainEventType.BOOKING_CREATED,
+          hostelId: savedBooking.hostelId,
+          data: {
+            bookingId: savedBooking.id,
+            bookingReference: savedBooking.bookingReference,
+            contactName: savedBooking.contactName,
+            totalGuests: savedBooking.totalGuests
+          }
+        }, manager);
+
         // 🔔 NEW: Notify admin of new booking request
         if (contactPersonUserId && bookingWithGuests && bookingWithGuests.hostel) {
-          try {
-            console.log(`📱 Notifying admin of new booking request`);
-            console.log(`👤 User: ${bookingWithGuests.contactName} (${contactPersonUserId})`);
-            console.log(`🏨 Hostel: ${bookingWithGuests.hostel.name} (${bookingWithGuests.hostel.businessId})`);
-            
-            await this.hostelNotificationService.notifyAdminOfNewBooking(
-              bookingWithGuests,
-              { id: contactPersonUserId } as JwtPayload
-            );
-            
-            console.log(`✅ Admin notification sent successfully`);
-          } catch (notifError) {
-            console.warn(`⚠️ Failed to notify admin: ${notifError.message}`);
-            // Don't let notification failure break booking creation
-          }
+          await this.hostelNotificationService.notifyAdminOfNewBooking(
+            bookingWithGuests,
+            { id: contactPersonUserId } as JwtPayload,
+            manager
+          );
         }
 
         return this.transformToApiResponse(bookingWithGuests);
@@ -395,7 +417,7 @@ export class MultiGuestBookingService {
   async confirmBooking(id: string, processedBy?: string, hostelId?: string, adminJwt?: any): Promise<ConfirmationResult> {
     this.logger.log(`Confirming multi-guest booking ${id}`);
 
-    return await this.dataSource.transaction(async manager => {
+    const confirmation = await this.dataSource.transaction(async manager => {
       try {
         // Try to find booking by UUID first, then by booking reference
         let booking = await manager.findOne(MultiGuestBooking, {
@@ -419,6 +441,12 @@ export class MultiGuestBookingService {
           throw new BadRequestException(`Cannot confirm booking with status: ${booking.status}`);
         }
 
+        if (booking.depositRequired && Number(booking.depositPaidAmount) < Number(booking.depositAmount)) {
+          throw new BadRequestException(
+            `Cannot confirm booking before the deposit is paid (NPR ${booking.depositPaidAmount} of ${booking.depositAmount} received)`
+          );
+        }
+
         // Validate beds are still reserved for this booking
         const bedIds = booking.guests.map(guest => guest.bedId);
         const beds = await manager.find(Bed, {
@@ -570,16 +598,20 @@ export class MultiGuestBookingService {
           this.logger.error(`❌ VERIFICATION ERROR: ${verificationError.message}`);
         }
 
+        this.domainEventsService.publish({
+          type: DomainEventType.BOOKING_CONFIRMED,
+          hostelId: booking.hostelId,
+          data: {
+            bookingId: booking.id,
+            bookingReference: booking.bookingReference,
+            confirmedGuests: confirmedGuestCount,
+            totalGuests: booking.totalGuests
+          }
+        }, manager);
+
         // 🆕 NEW: Send notification via express server
         if (adminJwt) {
-          try {
-            console.log(`📱 Sending notification via express server for: ${booking.bookingReference}`);
-            await this.hostelNotificationService.notifyUserOfConfirmation(booking, adminJwt);
-            console.log(`✅ Notification sent successfully`);
-          } catch (notifError) {
-            console.warn(`⚠️ Failed to send notification: ${notifError.message}`);
-            // Don't let notification failure cause transaction rollback
-          }
+          await this.hostelNotificationService.notifyUserOfConfirmation(booking, adminJwt, manager);
         }
 
         this.logger.log(`🎯 About to return confirmation result for booking ${booking.bookingReference}`);
@@ -605,9 +637,38 @@ export class MultiGuestBookingService {
         throw error;
       }
     });
+
+    // The students only exist once the transaction has committed, so the deposit is credited afterwards
+    try {
+      const deposit = await this.bookingDepositService.applyDepositOnConfirmation(
+        confirmation.bookingId,
+        confirmation.students.map(student => student.id),
+        adminJwt
+      );
+      if (deposit) {
+        return { ...confirmation, deposit };
+      }
+    } catch (depositError) {
+      this.logger.error(`❌ Booking ${confirmation.bookingId} confirmed but its deposit could not be credited: ${depositError.message}`);
+    }
+
+    return confirmation;
   }
 
-  async cancelBooking(id: string, reason: string, hostelId?: string, userJwt?: any): Promise<CancellationResult> {
+  /**
+   * Cancel a booking and release its beds. notifyAdmin=false is used when the
+   * caller sends its own admin notification (e.g. automatic hold expiry).
+   * `onCancelled` runs inside the cancellation's transaction, so whatever the
+   * caller queues there (e.g. notifications) commits with it.
+   */
+  async cancelBooking(
+    id: string,
+    reason: string,
+    hostelId?: string,
+    userJwt?: any,
+    notifyAdmin = true,
+    onCancelled?: (manager: EntityManager) => Promise<void>
+  ): Promise<CancellationResult> {
     this.logger.log(`Cancelling multi-guest booking ${id}: ${reason}`);
 
     return await this.dataSource.transaction(async manager => {
@@ -645,6 +706,9 @@ export class MultiGuestBookingService {
           processedDate: new Date()
         });
 
+        // Only the guest's own cancellation can forfeit the deposit
+        await this.bookingDepositService.settleOnCancellation(manager, booking, !!booking.userId && userJwt?.id === booking.userId);
+
         // Update guest statuses using the actual booking ID
         await manager.update(BookingGuest, { bookingId: booking.id }, {
           status: GuestStatus.CANCELLED
@@ -660,23 +724,16 @@ export class MultiGuestBookingService {
         this.logger.log(`✅ Cancelled multi-guest booking ${booking.bookingReference}, released ${releasedBeds.length} beds`);
 
         // 🔔 Notify admin of booking cancellation (if user cancelled)
-        if (booking.hostel && booking.userId) {
-          try {
-            console.log(`📱 Notifying admin of booking cancellation`);
-            console.log(`👤 User: ${booking.contactName} (${booking.userId})`);
-            console.log(`🏨 Hostel: ${booking.hostel.name} (${booking.hostel.businessId})`);
-            console.log(`📝 Reason: ${reason}`);
-            
-            await this.hostelNotificationService.notifyAdminOfCancellation(
-              booking,
-              userJwt || { id: booking.userId } as JwtPayload
-            );
-            
-            console.log(`✅ Admin notification sent successfully`);
-          } catch (notifError) {
-            console.warn(`⚠️ Failed to notify admin: ${notifError.message}`);
-            // Don't let notification failure break cancellation
-          }
+        if (notifyAdmin && booking.hostel && booking.userId) {
+          await this.hostelNotificationService.notifyAdminOfCancellation(
+            booking,
+            userJwt || { id: booking.userId } as JwtPayload,
+            manager
+          );
+        }
+
+        if (onCancelled) {
+          await onCancelled(manager);
         }
 
         return {
@@ -900,6 +957,9 @@ export class MultiGuestBookingService {
       source: booking.source,
       processedBy: booking.processedBy,
       processedDate: booking.processedDate,
+      ...(booking.depositStatus && booking.depositStatus !== BookingDepositStatus.NOT_REQUIRED
+        ? { deposit: this.bookingDepositService.getDepositSummary(booking) }
+        : {}),
       createdAt: booking.createdAt,
       updatedAt: booking.updatedAt
     };
@@ -1186,6 +1246,8 @@ export class MultiGuestBookingService {
           processedDate: new Date()
         });
 
+        await this.bookingDepositService.settleOnCancellation(manager, booking, true);
+
         // Update guest statuses using the actual booking ID
         await manager.update(BookingGuest, { bookingId: booking.id }, {
           status: GuestStatus.CANCELLED
@@ -1205,22 +1267,11 @@ export class MultiGuestBookingService {
 
         // 🔔 NEW: Notify admin of booking cancellation
         if (booking && booking.hostel) {
-          try {
-            console.log(`📱 Notifying admin of booking cancellation`);
-            console.log(`👤 User: ${booking.contactName} (${userId})`);
-            console.log(`🏨 Hostel: ${booking.hostel.name} (${booking.hostel.businessId})`);
-            console.log(`📝 Reason: ${reason}`);
-            
-            await this.hostelNotificationService.notifyAdminOfCancellation(
-              booking,
-              { id: userId } as JwtPayload
-            );
-            
-            console.log(`✅ Admin notification sent successfully`);
-          } catch (notifError) {
-            console.warn(`⚠️ Failed to notify admin: ${notifError.message}`);
-            // Don't let notification failure break cancellation
-          }
+          await this.hostelNotificationService.notifyAdminOfCancellation(
+            booking,
+            { id: userId } as JwtPayload,
+            manager
+          );
         }
 
         return {
@@ -1518,6 +1569,7 @@ export class MultiGuestBookingService {
       occupiedSince: booking.checkInDate ? new Date(booking.checkInDate) : new Date(),
       notes: `Reserved for ${student.name} via booking approval ${booking.bookingReference}`
     });
+    this.domainEventsService.publishBedStatus({ ...bed, status: BedStatus.RESERVED }, manager);
 
     await manager.update(Student, student.id, {
       roomId: bed.roomId,
@@ -1567,6 +1619,9 @@ export class MultiGuestBookingService {
 
       await manager.save(MultiGuestBooking, booking);
 
+      // Rejected bookings get their deposit back in full
+      await this.bookingDepositService.settleOnCancellation(manager, booking, false);
+
       // Update guest statuses
       await manager.update(
         BookingGuest,
@@ -1582,23 +1637,12 @@ export class MultiGuestBookingService {
 
       // 🔔 Send rejection notification to user using HostelNotificationService
       if (adminJwt && booking.userId && booking.hostel) {
-        try {
-          console.log(`📱 Notifying user of booking rejection`);
-          console.log(`👤 User: ${booking.contactName} (${booking.userId})`);
-          console.log(`🏨 Hostel: ${booking.hostel.name} (${booking.hostel.businessId})`);
-          console.log(`📝 Reason: ${reason}`);
-          
-          await this.hostelNotificationService.notifyUserOfRejection(
-            booking,
-            adminJwt,
-            reason
-          );
-          
-          console.log(`✅ User notification sent successfully`);
-        } catch (notifError) {
-          console.warn(`⚠️ Failed to notify user: ${notifError.message}`);
-          // Don't let notification failure cause rejection rollback
-        }
+        await this.hostelNotificationService.notifyUserOfRejection(
+          booking,
+          adminJwt,
+          reason,
+          manager
+        );
       }
 
       return {
@@ -1849,6 +1893,10 @@ export class MultiGuestBookingService {
         occupiedSince: new Date(),
         notes: `Occupied by ${assignment.guestName} via booking confirmation ${bookingId}`
       });
+      const confirmedBed = await manager.findOne(Bed, { where: { id: assignment.bedId } });
+      if (confirmedBed) {
+        this.domainEventsService.publishBedStatus(confirmedBed, manager);
+      }
 
       this.logger.log(`✅ Bed ${assignment.bedId} confirmed within transaction: RESERVED → OCCUPIED for ${assignment.guestName}`);
     }
@@ -2080,6 +2128,27 @@ export class MultiGuestBookingService {
     return `MGB${timestamp.slice(-6)}${random}`;
   }
 
+  /**
+   * Enforce the hostel's booking settings (guests per booking, how far ahead check-in may be)
+   */
+  private async validateAgainstHostelSettings(hostelId: string, bookingData: CreateMultiGuestBookingDto['data']) {
+    const { maxGuestsPerBooking, maxAdvanceBookingDays } = (await this.hostelSettingsService.getSettings(hostelId)).bookings;
+
+    if (bookingData.guests.length > maxGuestsPerBooking) {
+      throw new BadRequestException(`This hostel accepts at most ${maxGuestsPerBooking} guests per booking`);
+    }
+
+    if (maxAdvanceBookingDays && bookingData.checkInDate) {
+      const latestCheckIn = new Date();
+      latestCheckIn.setHours(23, 59, 59, 999);
+      latestCheckIn.setDate(latestCheckIn.getDate() + maxAdvanceBookingDays);
+
+      if (new Date(bookingData.checkInDate) > latestCheckIn) {
+        throw new BadRequestException(`Check-in can be at most ${maxAdvanceBookingDays} days from today for this hostel`);
+      }
+    }
+  }
+
 
 
 
@@ -0,0 +1,163 @@
+import { BookingDepositService } from './booking-deposit.service';
+import { MultiGuestBooking, BookingDepositStatus } from '../entities/multi-guest-booking.entity';
+import { PaymentMethod, PaymentType } from '../../payments/entities/payment.entity';
+
+describe('BookingDepositService', () => {
+  let service: BookingDepositService;
+
+  const daysFromNow = (days: number) => new Date(Date.now() + days * 24 * 60 * 60 * 1000);
+
+  const bed = (id: string, roomTypeId: string) => ({ id, room: { roomTypeId } }) as any;
+
+  const paidBooking = (overrides: Partial<MultiGuestBooking> = {}) => ({
+    id: 'booking-1',
+    hostelId: 'hostel-1',
+    bookingReference: 'MGB-1',
+    checkInDate: daysFromNow(30),
+    depositAmount: 6000,
+    depositPaidAmount: 6000,
+    depositStatus: BookingDepositStatus.PAID,
+    depositPaymentMethod: PaymentMethod.CASH,
+    depositTerms: { freeCancellationDays: 7, forfeitPercent: 50 },
+    ...overrides
+  }) as MultiGuestBooking;
+
+  const mockPolicyRepository = {
+    find: jest.fn(),
+  };
+
+  const mockBookingRepository = {
+    findOne: jest.fn(),
+    update: jest.fn().mockResolvedValue({ affected: 1 }),
+  };
+
+  const mockManager = {
+    update: jest.fn(),
+  };
+
+  const mockPaymentsService = {
+    create: jest.fn(async dto => ({ id: `payment-${dto.studentId}` })),
+  };
+
+  const mockPaymentRepository = {
+    find: jest.fn(),
+  };
+
+  const mockDataSource = {
+    getRepository: jest.fn(() => mockPaymentRepository),
+  };
+
+  beforeEach(() => {
+    service = new BookingDepositService(
+      mockPolicyRepository as any,
+      mockBookingRepository as any,
+      mockDataSource as any,
+      mockPaymentsService as any
+    );
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('calculateDeposit', () => {
+    it('should use the room type policy and fall back to the hostel default', async () => {
+      mockPolicyRepository.find.mockResolvedValue([
+        { roomTypeId: null, amountPerBed: 3000, isRequired: false, freeCancellationDays: 7, forfeitPercent: 50 },
+        { roomTypeId: 'type-single', amountPerBed: 8000, isRequired: true, freeCancellationDays: 14, forfeitPercent: 100 }
+      ]);
+
+      const deposit = await service.calculateDeposit('hostel-1', [bed('b1', 'type-shared'), bed('b2', 'type-single')]);
+
+      expect(deposit).toEqual({
+        amount: 11000,
+        required: true,
+        terms: { freeCancellationDays: 14, forfeitPercent: 100 }
+      });
+    });
+
+    it('should not ask for a deposit when the hostel has no policy', async () => {
+      mockPolicyRepository.find.mockResolvedValue([]);
+
+      const deposit = await service.calculateDeposit('hostel-1', [bed('b1', 'type-shared')]);
+
+      expect(deposit).toEqual({ amount: 0, required: false, terms: null });
+    });
+  });
+
+  describe('settleOnCancellation', () => {
+    it('should refund guest cancellations made before the free cancellation window closes', async () => {
+      const result = await service.settleOnCancellation(mockManager as any, paidBooking(), true);
+
+      expect(result).toEqual({ depositStatus: BookingDepositStatus.REFUND_DUE, refundAmount: 6000, forfeitedAmount: 0 });
+    });
+
+    it('should forfeit part of the deposit on a late guest cancellation', async () => {
+      const result = await service.settleOnCancellation(mockManager as any, paidBooking({ checkInDate: daysFromNow(2) }), true);
+
+      expect(result).toEqual({ depositStatus: BookingDepositStatus.REFUND_DUE, refundAmount: 3000, forfeitedAmount: 3000 });
+      expect(mockManager.update).toHaveBeenCalledWith(MultiGuestBooking, 'booking-1', expect.objectContaining({
+        depositForfeitedAmount: 3000,
+        depositRefundAmount: 3000
+      }));
+    });
+
+    it('should refund in full when the hostel cancels late', async () => {
+      const result = await service.settleOnCancellation(mockManager as any, paidBooking({ checkInDate: daysFromNow(2) }), false);
+
+      expect(result.forfeitedAmount).toBe(0);
+    });
+  });
+
+  describe('applyDepositOnConfirmation', () => {
+    it('should split the deposit into advance payments for the new students', async () => {
+      mockBookingRepository.findOne.mockResolvedValue(paidBooking({ depositPaidAmount: 1000 }));
+
+      const result = await service.applyDepositOnConfirmation('booking-1', ['student-1', 'student-2', 'student-3']);
+
+      expect(mockPaymentsService.create.mock.calls.map(([dto]) => dto.amount)).toEqual([333.34, 333.33, 333.33]);
+      expect(mockPaymentsService.create).toHaveBeenCalledWith(
+        expect.objectContaining({ studentId: 'student-1', paymentType: PaymentType.ADVANCE }),
+        'hostel-1',
+        undefined
+      );
+      expect(result.status).toBe(BookingDepositStatus.APPLIED);
+      expect(result.paymentIds).toEqual(['payment-student-1', 'payment-student-2', 'payment-student-3']);
+    });
+
+    it('should not post the deposit twice', async () => {
+      mockBookingRepository.findOne.mockResolvedValue(paidBooking({ depositStatus: BookingDepositStatus.APPLIED }));
+      mockBookingRepository.update.mockResolvedValueOnce({ affected: 0 });
+
+      await service.applyDepositOnConfirmation('booking-1', ['student-1']);
+
+      expect(mockPaymentsService.create).not.toHaveBeenCalled();
+    });
+
+    it('should undo the claim when a payment fails and credit only the rest next time', async () => {
+      mockBookingRepository.findOne.mockResolvedValue(paidBooking({ depositPaidAmount: 1000 }));
+      mockPaymentsService.create
+        .mockImplementationOnce(async dto => ({ id: `payment-${dto.studentId}` }))
+        .mockRejectedValueOnce(new Error('Student is inactive'));
+
+      await expect(service.applyDepositOnConfirmation('booking-1', ['student-1', 'student-2'])).rejects.toThrow('Student is inactive');
+      expect(mockBookingRepository.update).toHaveBeenLastCalledWith('booking-1', {
+        depositStatus: BookingDepositStatus.PAID,
+        depositPaymentIds: ['payment-student-1']
+      });
+
+      mockBookingRepository.findOne.mockResolvedValue(paidBooking({ depositPaidAmount: 1000, depositPaymentIds: ['payment-student-1'] }));
+      mockPaymentRepository.find.mockResolvedValue([{ id: 'payment-student-1', studentId: 'student-1' }]);
+      mockPaymentsService.create.mockClear();
+
+      const result = await service.applyDepositOnConfirmation('booking-1', ['student-1', 'student-2']);
+
+      expect(mockPaymentsService.create).toHaveBeenCalledTimes(1);
+      expect(mockPaymentsService.create).toHaveBeenCalledWith(
+        expect.objectContaining({ studentId: 'student-2', amount: 500 }), 'hostel-1', undefined
+      );
+      expect(result.status).toBe(BookingDepositStatus.APPLIED);
+      expect(result.paymentIds).toEqual(['payment-student-1', 'payment-student-2']);
+    });
+  });
+});
@@ -0,0 +1,375 @@
+import { Injectable, Logger, NotFoundException, BadRequestException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { DataSource, EntityManager, In, Repository } from 'typeorm';
+import { BookingDepositPolicy } from '../entities/booking-deposit-policy.entity';
+import {
+  MultiGuestBooking,
+  MultiGuestBookingStatus,
+  BookingDepositStatus,
+  BookingDepositTerms
+} from '../entities/multi-guest-booking.entity';
+import { Bed } from '../../rooms/entities/bed.entity';
+import { Payment, PaymentMethod, PaymentType } from '../../payments/entities/payment.entity';
+import { PaymentsService } from '../../payments/payments.service';
+import { JwtPayload } from '../../auth/interfaces/jwt-payload.interface';
+import { SaveBookingDepositPolicyDto, RecordBookingDepositDto, RefundBookingDepositDto } from '../dto/booking-deposit.dto';
+
+const DEFAULT_TERMS: BookingDepositTerms = { freeCancellationDays: 7, forfeitPercent: 100 };
+
+export interface BookingDepositSummary {
+  bookingId: string;
+  bookingReference: string;
+  status: BookingDepositStatus;
+  required: boolean;
+  amount: number;
+  paidAmount: number;
+  outstandingAmount: number;
+  paidAt: Date;
+  paymentMethod: PaymentMethod;
+  reference: string;
+  terms: BookingDepositTerms;
+  paymentIds: string[];
+  forfeitedAmount: number;
+  refundAmount: number;
+  refundedAt: Date;
+  refundReference: string;
+}
+
+/**
+ * Booking Deposit Service
+ * Deposits are worked out per bed from the hostel's policies when a booking is
+ * requested. The guest pays them before there is a student to attach a
+ * Payment to, so the money is tracked on the booking and turned into ADVANCE
+ * payments (LedgerV2 credit for the first month) once confirmation has
+ * created the students. Cancelling applies the copied cancellation terms.
+ */
+@Injectable()
+export class BookingDepositService {
+  private readonly logger = new Logger(BookingDepositService.name);
+
+  constructor(
+    @InjectRepository(BookingDepositPolicy)
+    private policyRepository: Repository<BookingDepositPolicy>,
+    @InjectRepository(MultiGuestBooking)
+    private bookingRepository: Repository<MultiGuestBooking>,
+    private dataSource: DataSource,
+    private paymentsService: PaymentsService,
+  ) {}
+
+  async getPolicies(hostelId: string) {
+    if (!hostelId) {
+      throw new BadRequestException('Hostel context required');
+    }
+
+    const policies = await this.policyRepository.find({
+      where: { hostelId },
+      relations: ['roomType'],
+      order: { createdAt: 'ASC' }
+    });
+
+    return policies.map(policy => this.transformPolicyToApiResponse(policy));
+  }
+
+  async savePolicy(hostelId: string, saveDto: SaveBookingDepositPolicyDto) {
+    if (!hostelId) {
+      throw new BadRequestException('Hostel context required');
+    }
+
+    const roomTypeId = saveDto.roomTypeId || null;
+    // Unique index does not cover the default row (NULL room type), so look it up explicitly
+    let policy = await this.policyRepository
+      .createQueryBuilder('policy')
+      .where('policy.hostelId = :hostelId', { hostelId })
+      .andWhere(roomTypeId ? 'policy.roomTypeId = :roomTypeId' : 'policy.roomTypeId IS NULL', { roomTypeId })
+      .getOne();
+
+    if (!policy) {
+      policy = this.policyRepository.create({ hostelId, roomTypeId });
+    }
+
+    Object.assign(policy, {
+      amountPerBed: saveDto.amountPerBed,
+      isRequired: saveDto.isRequired ?? policy.isRequired ?? false,
+      freeCancellationDays: saveDto.freeCancellationDays ?? policy.freeCancellationDays ?? DEFAULT_TERMS.freeCancellationDays,
+      forfeitPercent: saveDto.forfeitPercent ?? policy.forfeitPercent ?? DEFAULT_TERMS.forfeitPercent,
+      isActive: saveDto.isActive ?? policy.isActive ?? true
+    });
+
+    const saved = await this.policyRepository.save(policy);
+    this.logger.log(`💾 Saved booking deposit policy for hostel ${hostelId}${roomTypeId ? ` (room type ${roomTypeId})` : ''}`);
+
+    return this.transformPolicyToApiResponse(saved);
+  }
+
+  /**
+   * Deposit for a set of beds (room relation loaded). Each bed uses its room
+   * type's policy, falling back to the hostel default; the strictest terms of
+   * the policies used apply to the whole booking.
+   */
+  async calculateDeposit(hostelId: string, beds: Bed[]): Promise<{
+    amount: number;
+    required: boolean;
+    terms: BookingDepositTerms | null;
+  }> {
+    const policies = await this.policyRepository.find({ where: { hostelId, isActive: true } });
+    const defaultPolicy = policies.find(policy => !policy.roomTypeId);
+
+    let amount = 0;
+    const applied: BookingDepositPolicy[] = [];
+
+    for (const bed of beds) {
+      const policy = policies.find(candidate => candidate.roomTypeId && candidate.roomTypeId === bed.room?.roomTypeId) || defaultPolicy;
+      if (!policy || Number(policy.amountPerBed) <= 0) {
+        continue;
+      }
+      amount += Number(policy.amountPerBed);
+      applied.push(policy);
+    }
+
+    if (applied.length === 0) {
+      return { amount: 0, required: false, terms: null };
+    }
+
+    return {
+      amount: roundAmount(amount),
+      required: applied.some(policy => policy.isRequired),
+      terms: {
+        freeCancellationDays: Math.max(...applied.map(policy => Number(policy.freeCancellationDays))),
+        forfeitPercent: Math.max(...applied.map(policy => Number(policy.forfeitPercent)))
+      }
+    };
+  }
+
+  /**
+   * Record money received towards a pending booking's deposit. Anything up to
+   * the outstanding deposit is accepted; bookings without a deposit can take
+   * a voluntary prepayment.
+   */
+  async recordDeposit(bookingId: string, hostelId: string, recordDto: RecordBookingDepositDto, user?: JwtPayload) {
+    const booking = await this.dataSource.transaction(async manager => {
+      const current = await manager.findOne(MultiGuestBooking, {
+        where: { id: bookingId, hostelId },
+        lock: { mode: 'pessimistic_write' }
+      });
+
+      if (!current) {
+        throw new NotFoundException(`Booking with ID ${bookingId} not found`);
+      }
+      if (current.status !== MultiGuestBookingStatus.PENDING) {
+        throw new BadRequestException(`Deposits can only be taken for pending bookings (status: ${current.status})`);
+      }
+      if (![BookingDepositStatus.NOT_REQUIRED, BookingDepositStatus.PENDING].includes(current.depositStatus)) {
+        throw new BadRequestException(`Deposit is already ${current.depositStatus}`);
+      }
+
+      const depositAmount = Number(current.depositAmount || 0);
+      const paidAmount = roundAmount(Number(current.depositPaidAmount || 0) + recordDto.amount);
+      if (depositAmount > 0 && paidAmount > depositAmount) {
+        throw new BadRequestException(
+          `Amount exceeds the outstanding deposit of NPR ${roundAmount(depositAmount - Number(current.depositPaidAmount || 0))}`
+        );
+      }
+
+      current.depositPaidAmount = paidAmount;
+      current.depositPaidAt = new Date();
+      current.depositPaymentMethod = recordDto.paymentMethod;
+      current.depositReference = [current.depositReference, recordDto.reference].filter(Boolean).join(', ') || null;
+      current.depositStatus = depositAmount > 0 && paidAmount < depositAmount
+        ? BookingDepositStatus.PENDING
+        : BookingDepositStatus.PAID;
+      if (!current.depositTerms) {
+        current.depositTerms = DEFAULT_TERMS;
+      }
+
+      return manager.save(current);
+    });
+
+    this.logger.log(`💰 Recorded NPR ${recordDto.amount} deposit for booking ${booking.bookingReference} by ${user?.id || 'admin'}`);
+    return this.getDepositSummary(booking);
+  }
+
+  /**
+   * Turn the paid deposit into ADVANCE payments for the students created on
+   * confirmation, split evenly. Claimed with a conditional update so a retry
+   * cannot post it twice; if a payment fails the claim is undone, keeping the
+   * payments already posted so the next attempt credits only the rest.
+   */
+  async applyDepositOnConfirmation(bookingId: string, studentIds: string[], adminJwt?: JwtPayload): Promise<BookingDepositSummary | null> {
+    const booking = await this.bookingRepository.findOne({ where: { id: bookingId } });
+    const paidAmount = Number(booking?.depositPaidAmount || 0);
+
+    if (!booking || paidAmount <= 0 || studentIds.length === 0) {
+      return null;
+    }
+
+    const claimable = [BookingDepositStatus.PAID, BookingDepositStatus.PENDING, BookingDepositStatus.NOT_REQUIRED];
+    const claimed = await this.bookingRepository.update(
+      { id: booking.id, depositStatus: In(claimable) },
+      { depositStatus: BookingDepositStatus.APPLIED }
+    );
+    if (!claimed.affected) {
+      return this.getDepositSummary(booking);
+    }
+
+    const shares = splitAmount(paidAmount, studentIds.length);
+    const paymentIds = [...(booking.depositPaymentIds || [])];
+    const creditedStudentIds = await this.getCreditedStudentIds(paymentIds);
+
+    try {
+      for (const [index, studentId] of studentIds.entries()) {
+        if (creditedStudentIds.has(studentId)) {
+          continue;
+        }
+
+        const payment = await this.paymentsService.create({
+          studentId,
+          amount: shares[index],
+          paymentMethod: booking.depositPaymentMethod,
+          paymentDate: booking.depositPaidAt || new Date(),
+          reference: booking.depositReference || booking.bookingReference,
+          paymentType: PaymentType.ADVANCE,
+          notes: `Booking deposit for ${booking.bookingReference}, credited towards the first month`,
+          processedBy: adminJwt?.id || 'booking_deposit'
+        }, booking.hostelId, adminJwt);
+        paymentIds.push(payment.id);
+      }
+    } catch (error) {
+      this.logger.error(`❌ Failed to apply deposit of booking ${booking.bookingReference}: ${error.message}`);
+      // The deposit is not applied until every student is credited
+      await this.bookingRepository.update(booking.id, { depositStatus: booking.depositStatus, depositPaymentIds: paymentIds });
+      throw error;
+    }
+
+    await this.bookingRepository.update(booking.id, { depositPaymentIds: paymentIds });
+    this.logger.log(`✅ Applied NPR ${paidAmount} deposit of booking ${booking.bookingReference} to ${paymentIds.length} student(s)`);
+
+    return this.getDepositSummary({ ...booking, depositStatus: BookingDepositStatus.APPLIED, depositPaymentIds: paymentIds });
+  }
+
+  /**
+   * Decide what happens to a paid deposit when the booking is cancelled or
+   * rejected. Guests cancelling inside the free cancellation window lose the
+   * forfeit percentage; cancellations by the hostel (including rejection and
+   * hold expiry) are refunded in full. Runs inside the cancelling transaction.
+   */
+  async settleOnCancellation(manager: EntityManager, booking: MultiGuestBooking, guestInitiated: boolean, cancelledAt = new Date()) {
+    const paidAmount = Number(booking.depositPaidAmount || 0);
+    if (paidAmount <= 0 || ![BookingDepositStatus.PENDING, BookingDepositStatus.PAID, BookingDepositStatus.NOT_REQUIRED].includes(booking.depositStatus)) {
+      return null;
+    }
+
+    const forfeitedAmount = guestInitiated && !isWithinFreeCancellation(booking, cancelledAt)
+      ? roundAmount(paidAmount * Number(booking.depositTerms?.forfeitPercent ?? DEFAULT_TERMS.forfeitPercent) / 100)
+      : 0;
+    const refundAmount = roundAmount(paidAmount - forfeitedAmount);
+    const depositStatus = refundAmount > 0 ? BookingDepositStatus.REFUND_DUE : BookingDepositStatus.FORFEITED;
+
+    await manager.update(MultiGuestBooking, booking.id, {
+      depositStatus,
+      depositForfeitedAmount: forfeitedAmount,
+      depositRefundAmount: refundAmount
+    });
+
+    this.logger.log(`💸 Deposit of booking ${booking.bookingReference}: NPR ${refundAmount} to refund, NPR ${forfeitedAmount} forfeited`);
+
+    return { depositStatus, refundAmount, forfeitedAmount };
+  }
+
+  /**
+   * Record that the refundable part of a cancelled booking's deposit was paid back
+   */
+  async markRefunded(bookingId: string, hostelId: string, refundDto: RefundBookingDepositDto) {
+    const booking = await this.bookingRepository.findOne({ where: { id: bookingId, hostelId } });
+    if (!booking) {
+      throw new NotFoundException(`Booking with ID ${bookingId} not found`);
+    }
+
+    const claimed = await this.bookingRepository.update(
+      { id: booking.id, depositStatus: BookingDepositStatus.REFUND_DUE },
+      { depositStatus: BookingDepositStatus.REFUNDED, depositRefundedAt: new Date(), depositRefundReference: refundDto.reference }
+    );
+    if (!claimed.affected) {
+      throw new BadRequestException(`No deposit refund is due on this booking (deposit status: ${booking.depositStatus})`);
+    }
+
+    return this.getDepositSummary(await this.bookingRepository.findOne({ where: { id: booking.id } }));
+  }
+
+  getDepositSummary(booking: Partial<MultiGuestBooking>): BookingDepositSummary {
+    const depositAmount = Number(booking.depositAmount || 0);
+    const paidAmount = Number(booking.depositPaidAmount || 0);
+
+    return {
+      bookingId: booking.id,
+      bookingReference: booking.bookingReference,
+      status: booking.depositStatus,
+      required: booking.depositRequired,
+      amount: depositAmount,
+      paidAmount,
+      outstandingAmount: Math.max(0, roundAmount(depositAmount - paidAmount)),
+      paidAt: booking.depositPaidAt,
+      paymentMethod: booking.depositPaymentMethod,
+      reference: booking.depositReference,
+      terms: booking.depositTerms,
+      paymentIds: booking.depositPaymentIds || [],
+      forfeitedAmount: Number(booking.depositForfeitedAmount || 0),
+      refundAmount: Number(booking.depositRefundAmount || 0),
+      refundedAt: booking.depositRefundedAt,
+      refundReference: booking.depositRefundReference
+    };
+  }
+
+  private async getCreditedStudentIds(paymentIds: string[]): Promise<Set<string>> {
+    if (paymentIds.length === 0) {
+      return new Set();
+    }
+
+    const payments = await this.dataSource.getRepository(Payment).find({ where: { id: In(paymentIds) } });
+    return new Set(payments.map(payment => payment.studentId));
+  }
+
+  private transformPolicyToApiResponse(policy: BookingDepositPolicy) {
+    return {
+      id: policy.id,
+      roomTypeId: policy.roomTypeId,
+      roomTypeName: policy.roomType?.name || null,
+      amountPerBed: Number(policy.amountPerBed),
+      isRequired: policy.isRequired,
+      freeCancellationDays: policy.freeCancellationDays,
+      forfeitPercent: Number(policy.forfeitPercent),
+      isActive: policy.isActive,
+      updatedAt: policy.updatedAt
+    };
+  }
+}
+
+/**
+ * Guest cancellations at least freeCancellationDays before check-in are free.
+ * Bookings without a check-in date always are.
+ */
+function isWithinFreeCancellation(booking: MultiGuestBooking, cancelledAt: Date): boolean {
+  if (!booking.checkInDate) {
+    return true;
+  }
+
+  const freeDays = Number(booking.depositTerms?.freeCancellationDays ?? DEFAULT_TERMS.freeCancellationDays);
+  const deadline = new Date(booking.checkInDate);
+  deadline.setHours(0, 0, 0, 0);
+  deadline.setDate(deadline.getDate() - freeDays);
+
+  return cancelledAt <= deadline;
+}
+
+/**
+ * Split an amount into equal shares; the rounding remainder goes to the first share
+ */
+function splitAmount(amount: number, parts: number): number[] {
+  const share = Math.floor((amount / parts) * 100) / 100;
+  const shares = Array(parts).fill(share);
+  shares[0] = roundAmount(amount - share * (parts - 1));
+  return shares;
+}
+
+function roundAmount(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
@@ -0,0 +1,76 @@
+import {
+  adToBs,
+  bsToAd,
+  getBsMonthLength,
+  getBsMonthRange,
+  getNepaliFiscalYear,
+  getNepaliFiscalYearLabel,
+  getCalendarMonth,
+  getCalendarMonthLabel,
+  parseBsDate,
+  toDualDate,
+  CalendarSystem,
+  BS_MIN_YEAR,
+  BS_MAX_YEAR
+} from './bikram-sambat.util';
+
+describe('Bikram Sambat utils', () => {
+  describe('adToBs / bsToAd', () => {
+    it('should convert known new year and Shrawan dates', () => {
+      expect(adToBs(new Date(2013, 3, 14))).toEqual({ year: 2070, month: 1, day: 1 });
+      expect(adToBs(new Date(2024, 3, 13))).toEqual({ year: 2081, month: 1, day: 1 });
+      expect(adToBs(new Date(2025, 3, 14))).toEqual({ year: 2082, month: 1, day: 1 });
+      expect(adToBs(new Date(2025, 6, 17))).toEqual({ year: 2082, month: 4, day: 1 });
+      expect(adToBs(new Date(2025, 9, 19))).toEqual({ year: 2082, month: 7, day: 2 });
+    });
+
+    it('should round-trip every day of the supported range', () => {
+      let date = bsToAd(BS_MIN_YEAR, 1, 1);
+      const last = bsToAd(BS_MAX_YEAR, 12, getBsMonthLength(BS_MAX_YEAR, 12));
+
+      while (date <= last) {
+        const bsDate = adToBs(date);
+        expect(bsToAd(bsDate.year, bsDate.month, bsDate.day).getTime()).toBe(date.getTime());
+        date = new Date(date.getFullYear(), date.getMonth(), date.getDate() + 1);
+      }
+    });
+
+    it('should reject dates outside the table', () => {
+      expect(() => adToBs(new Date(2010, 0, 1))).toThrow(RangeError);
+      expect(() => bsToAd(2082, 1, 32)).toThrow(RangeError);
+      expect(() => parseBsDate('2082-13-01')).toThrow(RangeError);
+    });
+  });
+
+  describe('months', () => {
+    it('should return BS month lengths and AD ranges', () => {
+      expect(getBsMonthLength(2082, 3)).toBe(32);
+      const range = getBsMonthRange(2082, 7);
+      expect(range.start).toEqual(new Date(2025, 9, 18));
+      expect(range.end).toEqual(new Date(2025, 10, 16));
+    });
+
+    it('should key and label months in the hostel calendar', () => {
+      const date = new Date(2025, 9, 19);
+      expect(getCalendarMonth(date, CalendarSystem.BS)).toEqual({ year: 2082, month: 7, key: '2082-07', label: 'Kartik 2082' });
+      expect(getCalendarMonth(date, CalendarSystem.AD)).toEqual({ year: 2025, month: 10, key: '2025-10', label: 'October 2025' });
+      expect(getCalendarMonthLabel('2082-07', CalendarSystem.BS)).toBe('Kartik 2082');
+    });
+  });
+
+  describe('fiscal year', () => {
+    it('should start the fiscal year on 1 Shrawan', () => {
+      expect(getNepaliFiscalYear(new Date(2025, 6, 16))).toBe(2081);
+      expect(getNepaliFiscalYear(new Date(2025, 6, 17))).toBe(2082);
+      expect(getNepaliFiscalYearLabel(new Date(2025, 9, 19))).toBe('2082/83');
+    });
+  });
+
+  describe('toDualDate', () => {
+    it('should render AD and BS for date strings and Dates', () => {
+      expect(toDualDate('2025-10-19')).toEqual({ ad: '2025-10-19', bs: '2082-07-02', bsLabel: '2 Kartik 2082' });
+      expect(toDualDate(new Date(2025, 9, 19, 15, 30))?.bs).toBe('2082-07-02');
+      expect(toDualDate(null)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,242 @@
+/**
+ * Bikram Sambat (BS) calendar helpers.
+ *
+ * BS month lengths are set by the Nepali panchang every year and cannot be
+ * calculated, so conversions use the published month-length table below.
+ * Supported range: 2070 Baisakh 1 (2013-04-14) to the end of 2090 Chaitra.
+ *
+ * Months are 1-based (1 = Baisakh ... 12 = Chaitra). AD dates are handled as
+ * local calendar dates; the time of day is ignored.
+ */
+
+export enum CalendarSystem {
+  AD = 'AD',
+  BS = 'BS'
+}
+
+export interface BsDate {
+  year: number;
+  month: number;
+  day: number;
+}
+
+export const BS_MONTH_NAMES = [
+  'Baisakh', 'Jestha', 'Asar', 'Shrawan', 'Bhadra', 'Ashwin',
+  'Kartik', 'Mangsir', 'Poush', 'Magh', 'Falgun', 'Chaitra'
+];
+
+const AD_MONTH_NAMES = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December'
+];
+
+// Days in each BS month, Baisakh..Chaitra, starting at BS_MIN_YEAR
+const BS_MONTH_LENGTHS: number[][] = [
+  [31, 31, 31, 32, 31, 31, 29, 30, 30, 29, 30, 30], // 2070
+  [31, 31, 32, 31, 31, 31, 30, 29, 30, 29, 30, 30], // 2071
+  [31, 32, 31, 32, 31, 30, 30, 29, 30, 29, 30, 30], // 2072
+  [31, 32, 31, 32, 31, 30, 30, 30, 29, 29, 30, 31], // 2073
+  [31, 31, 31, 32, 31, 31, 30, 29, 30, 29, 30, 30], // 2074
+  [31, 31, 32, 31, 31, 31, 30, 29, 30, 29, 30, 30], // 2075
+  [31, 32, 31, 32, 31, 30, 30, 30, 29, 29, 30, 30], // 2076
+  [31, 32, 31, 32, 31, 30, 30, 30, 29, 30, 29, 31], // 2077
+  [31, 31, 31, 32, 31, 31, 30, 29, 30, 29, 30, 30], // 2078
+  [31, 31, 32, 31, 31, 31, 30, 29, 30, 29, 30, 30], // 2079
+  [31, 32, 31, 32, 31, 30, 30, 30, 29, 29, 30, 30], // 2080
+  [31, 32, 31, 32, 31, 30, 30, 30, 29, 30, 29, 31], // 2081
+  [31, 31, 32, 31, 31, 31, 30, 29, 30, 29, 30, 30], // 2082
+  [31, 31, 32, 31, 31, 30, 30, 30, 29, 30, 30, 30], // 2083
+  [31, 31, 32, 31, 31, 30, 30, 30, 29, 30, 30, 30], // 2084
+  [31, 32, 31, 32, 30, 31, 30, 30, 29, 30, 30, 30], // 2085
+  [30, 32, 31, 32, 31, 30, 30, 30, 29, 30, 30, 30], // 2086
+  [31, 31, 32, 31, 31, 31, 30, 30, 29, 30, 30, 30], // 2087
+  [30, 31, 32, 32, 30, 31, 30, 30, 29, 30, 30, 30], // 2088
+  [30, 32, 31, 32, 31, 30, 30, 30, 29, 30, 30, 30], // 2089
+  [30, 32, 31, 32, 31, 30, 30, 30, 29, 30, 30, 30]  // 2090
+];
+
+export const BS_MIN_YEAR = 2070;
+export const BS_MAX_YEAR = BS_MIN_YEAR + BS_MONTH_LENGTHS.length - 1;
+
+// 2070-01-01 BS
+const BS_EPOCH_AD = Date.UTC(2013, 3, 14);
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Fiscal year starts on 1 Shrawan
+const FISCAL_YEAR_START_MONTH = 4;
+
+export function getBsMonthLength(year: number, month: number): number {
+  assertBsYear(year);
+  if (month < 1 || month > 12) {
+    throw new RangeError(`Invalid BS month: ${month}`);
+  }
+  return BS_MONTH_LENGTHS[year - BS_MIN_YEAR][month - 1];
+}
+
+export function getBsYearLength(year: number): number {
+  assertBsYear(year);
+  return BS_MONTH_LENGTHS[year - BS_MIN_YEAR].reduce((sum, days) => sum + days, 0);
+}
+
+export function adToBs(date: Date): BsDate {
+  let remaining = Math.round(
+    (Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()) - BS_EPOCH_AD) / DAY_MS
+  );
+
+  if (remaining < 0) {
+    throw new RangeError(`Date ${date.toDateString()} is before ${BS_MIN_YEAR} BS`);
+  }
+
+  for (let year = BS_MIN_YEAR; year <= BS_MAX_YEAR; year++) {
+    const monthLengths = BS_MONTH_LENGTHS[year - BS_MIN_YEAR];
+    for (let month = 1; month <= 12; month++) {
+      if (remaining < monthLengths[month - 1]) {
+        return { year, month, day: remaining + 1 };
+      }
+      remaining -= monthLengths[month - 1];
+    }
+  }
+
+  throw new RangeError(`Date ${date.toDateString()} is after ${BS_MAX_YEAR} BS`);
+}
+
+/**
+ * Convert a BS date to an AD Date at local midnight
+ */
+export function bsToAd(year: number, month: number, day: number): Date {
+  if (day < 1 || day > getBsMonthLength(year, month)) {
+    throw new RangeError(`Invalid BS date: ${formatBsDate({ year, month, day })}`);
+  }
+
+  let days = day - 1;
+  for (let y = BS_MIN_YEAR; y < year; y++) {
+    days += getBsYearLength(y);
+  }
+  for (let m = 1; m < month; m++) {
+    days += getBsMonthLength(year, m);
+  }
+
+  const utc = new Date(BS_EPOCH_AD + days * DAY_MS);
+  return new Date(utc.getUTCFullYear(), utc.getUTCMonth(), utc.getUTCDate());
+}
+
+/**
+ * Parse "YYYY-MM-DD" (BS)
+ */
+export function parseBsDate(value: string): BsDate {
+  const match = /^(\d{4})-(\d{1,2})-(\d{1,2})$/.exec(String(value || '').trim());
+  if (!match) {
+    throw new RangeError(`Invalid BS date: ${value}`);
+  }
+
+  const bsDate = { year: Number(match[1]), month: Number(match[2]), day: Number(match[3]) };
+  // Validates month and day against the table
+  bsToAd(bsDate.year, bsDate.month, bsDate.day);
+  return bsDate;
+}
+
+export function formatBsDate(date: BsDate): string {
+  return `${date.year}-${String(date.month).padStart(2, '0')}-${String(date.day).padStart(2, '0')}`;
+}
+
+export function getBsMonthKey(year: number, month: number): string {
+  return `${year}-${String(month).padStart(2, '0')}`;
+}
+
+export function getBsMonthLabel(year: number, month: number): string {
+  return `${BS_MONTH_NAMES[month - 1]} ${year}`;
+}
+
+/**
+ * First and last AD day of a BS month
+ */
+export function getBsMonthRange(year: number, month: number): { start: Date; end: Date } {
+  return {
+    start: bsToAd(year, month, 1),
+    end: bsToAd(year, month, getBsMonthLength(year, month))
+  };
+}
+
+/**
+ * Nepali fiscal year (named after the BS year it starts in, 2082/83 -> 2082)
+ */
+export function getNepaliFiscalYear(date: Date = new Date()): number {
+  const bsDate = adToBs(date);
+  return bsDate.month >= FISCAL_YEAR_START_MONTH ? bsDate.year : bsDate.year - 1;
+}
+
+export function getNepaliFiscalYearLabel(date: Date = new Date()): string {
+  const fiscalYear = getNepaliFiscalYear(date);
+  return `${fiscalYear}/${String((fiscalYear + 1) % 100).padStart(2, '0')}`;
+}
+
+/**
+ * Calendar month of a date in the hostel's calendar.
+ * month is 1-based; key is "YYYY-MM" and label is e.g. "Kartik 2082" or "October 2025".
+ */
+export function getCalendarMonth(date: Date, calendar: CalendarSystem = CalendarSystem.AD) {
+  if (calendar === CalendarSystem.BS) {
+    const { year, month } = adToBs(date);
+    return { year, month, key: getBsMonthKey(year, month), label: getBsMonthLabel(year, month) };
+  }
+
+  const year = date.getFullYear();
+  const month = date.getMonth() + 1;
+  return { year, month, key: getBsMonthKey(year, month), label: `${AD_MONTH_NAMES[month - 1]} ${year}` };
+}
+
+/**
+ * First and last AD day of a (1-based) month in the given calendar
+ */
+export function getCalendarMonthRange(year: number, month: number, calendar: CalendarSystem = CalendarSystem.AD) {
+  if (calendar === CalendarSystem.BS) {
+    return getBsMonthRange(year, month);
+  }
+  return { start: new Date(year, month - 1, 1), end: new Date(year, month, 0) };
+}
+
+/**
+ * Label for a stored "YYYY-MM" month key
+ */
+export function getCalendarMonthLabel(monthKey: string, calendar: CalendarSystem = CalendarSystem.AD): string {
+  const [year, month] = String(monthKey || '').split('-').map(Number);
+  if (!year || !month || month < 1 || month > 12) {
+    return monthKey;
+  }
+  return calendar === CalendarSystem.BS
+    ? getBsMonthLabel(year, month)
+    : `${AD_MONTH_NAMES[month - 1]} ${year}`;
+}
+
+/**
+ * AD and BS representation of a date for API responses.
+ * bs is null when the date is outside the supported BS range.
+ */
+export function toDualDate(date: Date | string | null | undefined) {
+  if (!date) {
+    return null;
+  }
+
+  // Date columns come back as "YYYY-MM-DD" strings; read them as local dates, not UTC
+  const dateOnly = typeof date === 'string' ? /^(\d{4})-(\d{2})-(\d{2})$/.exec(date) : null;
+  const value = dateOnly
+    ? new Date(Number(dateOnly[1]), Number(dateOnly[2]) - 1, Number(dateOnly[3]))
+    : new Date(date);
+  const ad = `${value.getFullYear()}-${String(value.getMonth() + 1).padStart(2, '0')}-${String(value.getDate()).padStart(2, '0')}`;
+
+  try {
+    const bsDate = adToBs(value);
+    return {
+      ad,
+      bs: formatBsDate(bsDate),
+      bsLabel: `${bsDate.day} ${getBsMonthLabel(bsDate.year, bsDate.month)}`
+    };
+  } catch {
+    return { ad, bs: null, bsLabel: null };
+  }
+}
+
+function assertBsYear(year: number) {
+  if (year < BS_MIN_YEAR || year > BS_MAX_YEAR) {
+    throw new RangeError(`BS year ${year} is outside the supported range ${BS_MIN_YEAR}-${BS_MAX_YEAR}`);
+  }
+}
@@ -1,16 +1,24 @@
-import { Controller, Get, Query, HttpStatus, UseGuards } from "@nestjs/common";
-import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from "@nestjs/swagger";
+import { Controller, Get, Query, HttpStatus, UseGuards, Sse, MessageEvent } from "@nestjs/common";
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiQuery } from "@nestjs/swagger";
 import { DashboardService } from "./dashboard.service";
 import { PaginationDto } from "../common/dto/pagination.dto";
 import { GetHostelId } from "../hostel/decorators/hostel-context.decorator";
 import { HostelAuthWithContextGuard } from "../auth/guards/hostel-auth-with-context.guard";
+import { RolesGuard } from "../staff-roles/guards/roles.guard";
+import { Permissions } from "../staff-roles/decorators/permissions.decorator";
+import { Permission } from "../staff-roles/permissions";
+import { DomainEventsService } from "../events/domain-events.service";
+import { Observable } from "rxjs";
 
 @ApiTags("dashboard")
 @Controller("dashboard")
-@UseGuards(HostelAuthWithContextGuard)
+@UseGuards(HostelAuthWithContextGuard, RolesGuard)
 @ApiBearerAuth()
 export class DashboardController {
-  constructor(private readonly dashboardService: DashboardService) {}
+  constructor(
+    private readonly dashboardService: DashboardService,
+    private readonly domainEventsService: DomainEventsService,
+  ) {}
 
   @Get("stats")
   @ApiOperation({ summary: "Get dashboard statistics" })
@@ -169,4 +177,23 @@ export class DashboardController {
       data: summary,
     };
   }
+
+  @Sse("events")
+  @Permissions(Permission.DASHBOARD_EVENTS_VIEW)
+  @ApiOperation({
+    summary: "Stream live dashboard events (server-sent events)",
+    description:
+      "Pushes booking, payment, check-in/out, bed status and maintenance events of the current hostel as they happen. " +
+      "The event name is the event type (e.g. booking.created); a heartbeat event is sent every 25 seconds. " +
+      "Staff only. Send the business token in the Authorization header, or - for the browser's EventSource, " +
+      "which cannot set headers - in the access_token query parameter.",
+  })
+  @ApiQuery({ name: "access_token", required: false, description: "Business token, for EventSource clients" })
+  @ApiResponse({
+    status: 200,
+    description: "text/event-stream of { type, data, occurredAt } events",
+  })
+  streamEvents(@GetHostelId() hostelId: string): Observable<MessageEvent> {
+    return this.domainEventsService.stream(hostelId);
+  }
 }
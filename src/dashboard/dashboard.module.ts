@@ -14,6 +14,8 @@ import { StudentAttendance } from '../attendance/entities/student-attendance.ent
 import { StudentCheckInOut } from '../attendance/entities/student-checkin-checkout.entity';
 import { AuthModule } from '../auth/auth.module';
 import { HostelModule } from '../hostel/hostel.module';
+import { EventsModule } from '../events/events.module';
+import { StaffRolesModule } from '../staff-roles/staff-roles.module';
 
 @Module({
   imports: [
@@ -31,6 +33,8 @@ import { HostelModule } from '../hostel/hostel.module';
     AuthModule,
     HostelModule,
     LedgerV2Module,
+    EventsModule,
+    StaffRolesModule,
   ],
   controllers: [DashboardController],
   providers: [DashboardService],
@@ -4,7 +4,7 @@ import { Repository } from 'typeorm';
 import { Student, StudentStatus } from '../students/entities/student.entity';
 import { LedgerEntryV2 } from '../ledger-v2/entities/ledger-entry-v2.entity';
 import { LedgerV2Service } from '../ledger-v2/services/ledger-v2.service';
-import { Payment, PaymentStatus } from '../payments/entities/payment.entity';
+import { Payment, PaymentStatus, PaymentType } from '../payments/entities/payment.entity';
 import { Invoice, InvoiceStatus } from '../invoices/entities/invoice.entity';
 import { MultiGuestBooking, MultiGuestBookingStatus } from '../bookings/entities/multi-guest-booking.entity';
 import { Room } from '../rooms/entities/room.entity';
@@ -106,6 +106,7 @@ export class DashboardService {
       .select('SUM(payment.amount)', 'total')
       .where('payment.paymentDate >= :startDate', { startDate: firstDayOfMonth })
       .andWhere('payment.status = :status', { status: PaymentStatus.COMPLETED })
+      .andWhere('payment.paymentType != :refundType', { refundType: PaymentType.REFUND })
       .andWhere('student.hostelId = :hostelId', { hostelId })
       .getRawOne();
 
@@ -514,6 +515,7 @@ export class DashboardService {
       .where('payment.paymentDate >= :startDate', { startDate })
       .andWhere('payment.paymentDate <= :endDate', { endDate })
       .andWhere('payment.status = :status', { status: PaymentStatus.COMPLETED })
+      .andWhere('payment.paymentType != :refundType', { refundType: PaymentType.REFUND })
       .andWhere('student.hostelId = :hostelId', { hostelId })
       .groupBy('EXTRACT(YEAR FROM payment.paymentDate), EXTRACT(MONTH FROM payment.paymentDate)')
       .orderBy('year, month')
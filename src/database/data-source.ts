@@ -39,13 +39,40 @@ import { MaintenanceRequest } from '../maintenance/entities/maintenance-request.
 
 import { AdminCharge } from '../admin-charges/entities/admin-charge.entity';
 import { Hostel } from '../hostel/entities/hostel.entity';
+import { HostelSettings } from '../hostel/entities/hostel-settings.entity';
 import { MealPlan } from '../meal-plans/entities/meal-plan.entity';
 import { MealTiming } from '../meal-plans/entities/meal-timing.entity';
 import { StudentAttendance } from '../attendance/entities/student-attendance.entity';
 import { StudentCheckInOut } from '../attendance/entities/student-checkin-checkout.entity';
+import { AttendancePresencePolicy } from '../attendance/entities/attendance-presence-policy.entity';
+import { RejectedAttendanceAttempt } from '../attendance/entities/rejected-attendance-attempt.entity';
+import { CurfewPolicy } from '../attendance/entities/curfew-policy.entity';
+import { CurfewExemption } from '../attendance/entities/curfew-exemption.entity';
+import { CurfewViolation } from '../attendance/entities/curfew-violation.entity';
 
 import { Notification } from '../notification/entities/notification.entity';
+import { NotificationTemplate } from '../notification/entities/notification-template.entity';
+import { NotificationOutbox } from '../notification/entities/notification-outbox.entity';
+import { NotificationPreference } from '../notification/entities/notification-preference.entity';
+import { ScheduledBroadcast } from '../notification/entities/scheduled-broadcast.entity';
 import { Expense } from '../expenses/entities/expense.entity';
+import { DocumentSequence } from '../documents/entities/document-sequence.entity';
+import { ScheduledJob } from '../scheduler/entities/scheduled-job.entity';
+import { ScheduledJobRun } from '../scheduler/entities/scheduled-job-run.entity';
+import { MessageDelivery } from '../messaging/entities/message-delivery.entity';
+import { MessageDeliveryAttempt } from '../messaging/entities/message-delivery-attempt.entity';
+import { HostelStaffMember } from '../staff-roles/entities/hostel-staff-member.entity';
+import { AuditLog } from '../audit/entities/audit-log.entity';
+import { PaymentIntent } from '../payment-gateways/entities/payment-intent.entity';
+import { Refund } from '../refunds/entities/refund.entity';
+import { BankStatementMapping } from '../bank-statements/entities/bank-statement-mapping.entity';
+import { BankStatementImport } from '../bank-statements/entities/bank-statement-import.entity';
+import { BankStatementLine } from '../bank-statements/entities/bank-statement-line.entity';
+import { WaitlistEntry } from '../waitlist/entities/waitlist-entry.entity';
+import { BookingDepositPolicy } from '../bookings/entities/booking-deposit-policy.entity';
+import { RoomTransferRequest } from '../room-transfers/entities/room-transfer-request.entity';
+import { LeaveRequest } from '../leave-requests/entities/leave-request.entity';
+import { InvoiceLateFee } from '../late-fees/entities/invoice-late-fee.entity';
 
 // Load environment variables
 config();
@@ -101,6 +128,7 @@ export const dataSourceOptions: DataSourceOptions = {
     
     // Hostel entities
     Hostel,
+    HostelSettings,
     
     // Meal Plan entities
     MealPlan,
@@ -109,12 +137,64 @@ export const dataSourceOptions: DataSourceOptions = {
     // Attendance entities
     StudentAttendance,
     StudentCheckInOut,
+    AttendancePresencePolicy,
+    RejectedAttendanceAttempt,
+    CurfewPolicy,
+    CurfewExemption,
+    CurfewViolation,
     
     // Notification entities
     Notification,
+    NotificationTemplate,
+    NotificationOutbox,
+    NotificationPreference,
+    ScheduledBroadcast,
     
     // Expense entities
     Expense,
+
+    // Document numbering entities
+    DocumentSequence,
+
+    // Scheduler entities
+    ScheduledJob,
+    ScheduledJobRun,
+
+    // Messaging entities
+    MessageDelivery,
+    MessageDeliveryAttempt,
+
+    // Staff role entities
+    HostelStaffMember,
+
+    // Audit entities
+    AuditLog,
+
+    // Payment gateway entities
+    PaymentIntent,
+
+    // Refund entities
+    Refund,
+
+    // Bank statement entities
+    BankStatementMapping,
+    BankStatementImport,
+    BankStatementLine,
+
+    // Waitlist entities
+    WaitlistEntry,
+
+    // Booking deposit entities
+    BookingDepositPolicy,
+
+    // Room transfer entities
+    RoomTransferRequest,
+
+    // Leave request entities
+    LeaveRequest,
+
+    // Late fee entities
+    InvoiceLateFee,
   ],
   // Migrations disabled - using synchronize mode for development
   migrations: [],
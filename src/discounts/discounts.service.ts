@@ -1,11 +1,12 @@
 import { Injectable, NotFoundException, BadRequestException } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import { DataSource, Repository } from 'typeorm';
 import { Discount, DiscountStatus } from './entities/discount.entity';
 import { DiscountType, DiscountCategory } from './entities/discount-type.entity';
 import { Student, StudentStatus } from '../students/entities/student.entity';
 import { LedgerV2Service } from '../ledger-v2/services/ledger-v2.service';
 import { UnifiedNotificationService } from '../notification/unified-notification.service';
+import { NotificationTemplateKey } from '../notification/templates/default-notification-templates';
 
 @Injectable()
 export class DiscountsService {
@@ -18,6 +19,7 @@ export class DiscountsService {
     private studentRepository: Repository<Student>,
     private ledgerService: LedgerV2Service,
     private unifiedNotificationService: UnifiedNotificationService,
+    private dataSource: DataSource,
   ) { }
 
   async findAll(filters: any = {}, hostelId?: string) {
@@ -190,45 +192,41 @@ export class DiscountsService {
       referenceId: createDiscountDto.referenceId
     });
 
-    const savedDiscount = await this.discountRepository.save(discount);
+    // The discount, its ledger credit and the student's notification are
+    // committed together
+    const savedDiscount = await this.dataSource.transaction(async manager => {
+      const saved = await manager.save(discount);
 
-    // Create ledger entry if applied to ledger
-    if (savedDiscount.appliedTo === 'ledger') {
-      await this.ledgerService.createDiscountEntry(savedDiscount);
-    }
+      if (saved.appliedTo === 'ledger') {
+        await this.ledgerService.createDiscountEntry(saved, manager);
+      }
 
-    // 🔔 NEW: Send discount notification to student
-    if (adminJwt && student.userId && savedDiscount.status === DiscountStatus.ACTIVE) {
-      try {
-        console.log(`🎁 DISCOUNT NOTIFICATION START - Discount ID: ${savedDiscount.id}`);
-        console.log(`👤 Student: ${student.name} (${student.id})`);
-        console.log(`💰 Amount: NPR ${savedDiscount.amount}`);
-        console.log(`📝 Reason: ${savedDiscount.reason}`);
-        
-        await this.unifiedNotificationService.sendToUser({
+      if (adminJwt && student.userId && saved.status === DiscountStatus.ACTIVE) {
+        await this.unifiedNotificationService.sendTemplateToUser({
           userId: student.userId,
-          title: 'Discount Applied',
-          message: `A discount of NPR ${Number(savedDiscount.amount).toLocaleString()} has been applied to your account. Reason: ${savedDiscount.reason}`,
-          type: 'PAYMENT',
+          hostelId: student.hostelId,
+          template: NotificationTemplateKey.DISCOUNT_APPLIED,
+          variables: {
+            currency: 'NPR',
+            amount: Number(saved.amount).toLocaleString(),
+            reason: saved.reason
+          },
           metadata: {
-            discountId: savedDiscount.id,
-            amount: savedDiscount.amount,
-            reason: savedDiscount.reason,
-            appliedBy: savedDiscount.appliedBy,
-            discountDate: savedDiscount.date,
+            discountId: saved.id,
+            amount: saved.amount,
+            reason: saved.reason,
+            appliedBy: saved.appliedBy,
+            discountDate: saved.date,
             discountType: discountType?.name || 'General',
             studentId: student.id,
             studentName: student.name,
-            appliedTo: savedDiscount.appliedTo
+            appliedTo: saved.appliedTo
           }
-        }, adminJwt);
-        
-        console.log(`✅ DISCOUNT NOTIFICATION SENT SUCCESSFULLY`);
-      } catch (notifError) {
-        console.log(`❌ DISCOUNT NOTIFICATION FAILED: ${notifError.message}`);
-        // Don't let notification failure cause discount creation rollback
+        }, adminJwt, undefined, manager);
       }
-    }
+
+      return saved;
+    });
 
     return this.findOne(savedDiscount.id, student.hostelId);
   }
@@ -0,0 +1,22 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { DocumentSequence } from './entities/document-sequence.entity';
+import { DocumentNumberingService } from './services/document-numbering.service';
+import { DocumentRendererService } from './services/document-renderer.service';
+import { DocumentNumberSubscriber } from './subscribers/document-number.subscriber';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([DocumentSequence]),
+  ],
+  providers: [
+    DocumentNumberingService,
+    DocumentRendererService,
+    DocumentNumberSubscriber
+  ],
+  exports: [
+    DocumentNumberingService,
+    DocumentRendererService
+  ],
+})
+export class DocumentsModule {}
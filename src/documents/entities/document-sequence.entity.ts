@@ -0,0 +1,27 @@
+import { Entity, Column, Index } from 'typeorm';
+import { BaseEntity } from '../../common/entities/base.entity';
+
+export enum DocumentType {
+  INVOICE = 'invoice',
+  RECEIPT = 'receipt'
+}
+
+/**
+ * Last issued number per hostel, document type and fiscal year.
+ * Incremented inside the transaction that inserts the document so numbers stay gap-free.
+ */
+@Entity('document_sequences')
+@Index(['hostelId', 'documentType', 'fiscalYear'], { unique: true })
+export class DocumentSequence extends BaseEntity {
+  @Column({ name: 'hostel_id' })
+  hostelId: string;
+
+  @Column({ name: 'document_type', type: 'varchar', length: 20 })
+  documentType: DocumentType;
+
+  @Column({ name: 'fiscal_year', type: 'int' })
+  fiscalYear: number;
+
+  @Column({ name: 'last_number', type: 'int', default: 0 })
+  lastNumber: number;
+}
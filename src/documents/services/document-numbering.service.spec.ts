@@ -0,0 +1,96 @@
+import { DocumentNumberingService } from './document-numbering.service';
+import { DocumentType } from '../entities/document-sequence.entity';
+import { getNepaliFiscalYear } from '../../common/utils/bikram-sambat.util';
+
+describe('DocumentNumberingService', () => {
+  let service: DocumentNumberingService;
+
+  const mockManager = {
+    query: jest.fn(),
+    findOne: jest.fn(),
+    update: jest.fn(),
+  };
+
+  const mockDataSource = {
+    transaction: jest.fn(work => work(mockManager)),
+  };
+
+  beforeEach(() => {
+    service = new DocumentNumberingService(mockDataSource as any);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('nextNumber', () => {
+    it('should format the sequence as PREFIX-FISCALYEAR-NNNNN', async () => {
+      mockManager.query.mockResolvedValue([{ last_number: 42 }]);
+
+      const number = await service.nextNumber(
+        mockManager as any,
+        'hostel-1',
+        DocumentType.INVOICE,
+        new Date(2025, 9, 1)
+      );
+
+      expect(number).toBe('INV-2082-00042');
+      expect(mockManager.query).toHaveBeenCalledWith(
+        expect.stringContaining('ON CONFLICT (hostel_id, document_type, fiscal_year)'),
+        ['hostel-1', DocumentType.INVOICE, 2082]
+      );
+    });
+
+    it('should use the RCP prefix for receipts', async () => {
+      mockManager.query.mockResolvedValue([{ last_number: '7' }]);
+
+      const number = await service.nextNumber(
+        mockManager as any,
+        'hostel-1',
+        DocumentType.RECEIPT,
+        new Date(2025, 9, 1)
+      );
+
+      expect(number).toBe('RCP-2082-00007');
+    });
+  });
+
+  describe('assignNumber', () => {
+    it('should lock the document and store a new number', async () => {
+      mockManager.findOne.mockResolvedValue({ id: 'invoice-1', invoiceNumber: null });
+      mockManager.query.mockResolvedValue([{ last_number: 3 }]);
+
+      const number = await service.assignNumber(
+        'Invoice', 'invoice-1', 'invoiceNumber', 'hostel-1', DocumentType.INVOICE, new Date(2025, 9, 1)
+      );
+
+      expect(number).toBe('INV-2082-00003');
+      expect(mockManager.findOne).toHaveBeenCalledWith('Invoice', {
+        where: { id: 'invoice-1' },
+        lock: { mode: 'pessimistic_write' }
+      });
+      expect(mockManager.update).toHaveBeenCalledWith('Invoice', 'invoice-1', { invoiceNumber: 'INV-2082-00003' });
+    });
+
+    it('should reuse the number a concurrent print assigned while it waited', async () => {
+      mockManager.findOne.mockResolvedValue({ id: 'invoice-1', invoiceNumber: 'INV-2082-00002' });
+
+      const number = await service.assignNumber(
+        'Invoice', 'invoice-1', 'invoiceNumber', 'hostel-1', DocumentType.INVOICE, new Date(2025, 9, 1)
+      );
+
+      expect(number).toBe('INV-2082-00002');
+      expect(mockManager.query).not.toHaveBeenCalled();
+      expect(mockManager.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getNepaliFiscalYear', () => {
+    it('should roll over to the next fiscal year on 1 Shrawan', () => {
+      // 1 Shrawan 2082 = 17 July 2025
+      expect(getNepaliFiscalYear(new Date(2025, 6, 16))).toBe(2081);
+      expect(getNepaliFiscalYear(new Date(2025, 6, 17))).toBe(2082);
+      expect(getNepaliFiscalYear(new Date(2026, 0, 10))).toBe(2082);
+    });
+  });
+});
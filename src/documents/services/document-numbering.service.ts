@@ -0,0 +1,82 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectDataSource } from '@nestjs/typeorm';
+import { DataSource, EntityManager, EntityTarget, ObjectLiteral } from 'typeorm';
+import { DocumentType } from '../entities/document-sequence.entity';
+import { getNepaliFiscalYear } from '../../common/utils/bikram-sambat.util';
+
+const DOCUMENT_PREFIXES: Record<DocumentType, string> = {
+  [DocumentType.INVOICE]: 'INV',
+  [DocumentType.RECEIPT]: 'RCP'
+};
+
+/**
+ * Document Numbering Service
+ * Issues human readable, gap-free numbers per hostel and fiscal year
+ * (e.g. INV-2082-00042). The sequence row is incremented with a single
+ * upsert, which row-locks it until the surrounding transaction commits, so
+ * always pass the EntityManager of the transaction that saves the document.
+ */
+@Injectable()
+export class DocumentNumberingService {
+  private readonly logger = new Logger(DocumentNumberingService.name);
+
+  constructor(
+    @InjectDataSource()
+    private dataSource: DataSource,
+  ) {}
+
+  async nextNumber(
+    manager: EntityManager,
+    hostelId: string,
+    documentType: DocumentType,
+    date: Date = new Date()
+  ): Promise<string> {
+    const fiscalYear = getNepaliFiscalYear(date);
+
+    const rows = await manager.query(
+      `INSERT INTO document_sequences (hostel_id, document_type, fiscal_year, last_number)
+       VALUES ($1, $2, $3, 1)
+       ON CONFLICT (hostel_id, document_type, fiscal_year)
+       DO UPDATE SET last_number = document_sequences.last_number + 1, "updatedAt" = now()
+       RETURNING last_number`,
+      [hostelId, documentType, fiscalYear]
+    );
+
+    const sequence = Number(rows[0].last_number);
+    return this.formatNumber(documentType, fiscalYear, sequence);
+  }
+
+  /**
+   * Issue a number in its own transaction and store it with the given update.
+   * Used for documents created before sequential numbering existed. The
+   * document row is locked first, so a concurrent first print waits and
+   * reuses the number instead of taking another one.
+   */
+  async assignNumber(
+    entity: EntityTarget<ObjectLiteral>,
+    id: string,
+    column: string,
+    hostelId: string,
+    documentType: DocumentType,
+    date?: Date
+  ): Promise<string> {
+    return this.dataSource.transaction(async manager => {
+      const document = await manager.findOne(entity, {
+        where: { id },
+        lock: { mode: 'pessimistic_write' }
+      });
+      if (document?.[column]) {
+        return document[column] as string;
+      }
+
+      const number = await this.nextNumber(manager, hostelId, documentType, date);
+      await manager.update(entity, id, { [column]: number });
+      this.logger.log(`🔢 Assigned ${number} to ${documentType} ${id}`);
+      return number;
+    });
+  }
+
+  formatNumber(documentType: DocumentType, fiscalYear: number, sequence: number): string {
+    return `${DOCUMENT_PREFIXES[documentType]}-${fiscalYear}-${String(sequence).padStart(5, '0')}`;
+  }
+}
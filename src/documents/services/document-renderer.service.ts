@@ -0,0 +1,251 @@
+import { Injectable } from '@nestjs/common';
+import PDFDocument = require('pdfkit');
+import { Invoice } from '../../invoices/entities/invoice.entity';
+import { Payment } from '../../payments/entities/payment.entity';
+import { toDualDate } from '../../common/utils/bikram-sambat.util';
+
+export enum DocumentFormat {
+  PDF = 'pdf',
+  HTML = 'html'
+}
+
+export const DOCUMENT_CONTENT_TYPES: Record<DocumentFormat, string> = {
+  [DocumentFormat.PDF]: 'application/pdf',
+  [DocumentFormat.HTML]: 'text/html; charset=utf-8'
+};
+
+export interface PrintableDocument {
+  title: string;
+  number: string;
+  hostelName: string;
+  details: Array<{ label: string; value: string }>;
+  columns: Array<{ header: string; align?: 'left' | 'right' }>;
+  rows: string[][];
+  totals: Array<{ label: string; value: string; bold?: boolean }>;
+  notes?: string;
+}
+
+const PDF_MARGIN = 50;
+
+/**
+ * Document Renderer Service
+ * Builds printable invoices and payment receipts and renders them as PDF or HTML.
+ * Both formats are produced from the same PrintableDocument so they always match.
+ */
+@Injectable()
+export class DocumentRendererService {
+  /**
+   * Expects the invoice loaded with student, student.room, hostel and items
+   */
+  buildInvoiceDocument(invoice: Invoice): PrintableDocument {
+    const total = Number(invoice.total || 0);
+    const paid = Number(invoice.paymentTotal || 0);
+
+    return {
+      title: 'INVOICE',
+      number: invoice.invoiceNumber,
+      hostelName: invoice.hostel?.name || '',
+      details: [
+        { label: 'Invoice No.', value: invoice.invoiceNumber },
+        { label: 'Issue Date', value: this.formatDate(invoice.createdAt) },
+        { label: 'Due Date', value: this.formatDate(invoice.dueDate) },
+        { label: 'Billing Period', value: invoice.periodLabel || invoice.month },
+        { label: 'Status', value: invoice.status },
+        { label: 'Student', value: invoice.student?.name || '' },
+        { label: 'Room', value: invoice.student?.room?.roomNumber || 'Not assigned' }
+      ],
+      columns: [
+        { header: 'Description' },
+        { header: 'Qty', align: 'right' },
+        { header: 'Unit Price', align: 'right' },
+        { header: 'Amount', align: 'right' }
+      ],
+      rows: (invoice.items || []).map(item => [
+        item.description,
+        String(item.quantity || 1),
+        this.formatAmount(item.unitPrice ?? item.amount),
+        this.formatAmount(item.amount)
+      ]),
+      totals: [
+        { label: 'Subtotal', value: this.formatAmount(invoice.subtotal || total) },
+        { label: 'Discount', value: this.formatAmount(invoice.discountTotal) },
+        { label: 'Total', value: this.formatAmount(total), bold: true },
+        { label: 'Paid', value: this.formatAmount(paid) },
+        { label: 'Balance Due', value: this.formatAmount(total - paid), bold: true }
+      ],
+      notes: invoice.notes
+    };
+  }
+
+  /**
+   * Expects the payment loaded with student, student.room, hostel and invoiceAllocations.invoice
+   */
+  buildReceiptDocument(payment: Payment): PrintableDocument {
+    const allocations = payment.invoiceAllocations || [];
+
+    return {
+      title: 'PAYMENT RECEIPT',
+      number: payment.receiptNumber,
+      hostelName: payment.hostel?.name || '',
+      details: [
+        { label: 'Receipt No.', value: payment.receiptNumber },
+        { label: 'Payment Date', value: this.formatDate(payment.paymentDate) },
+        { label: 'Payment Method', value: payment.paymentMethod },
+        { label: 'Reference', value: payment.reference || payment.transactionId || '-' },
+        { label: 'Received From', value: payment.student?.name || '' },
+        { label: 'Room', value: payment.student?.room?.roomNumber || 'Not assigned' },
+        { label: 'Received By', value: payment.processedBy || '' }
+      ],
+      columns: [
+        { header: 'Applied To' },
+        { header: 'Period' },
+        { header: 'Amount', align: 'right' }
+      ],
+      rows: allocations.length > 0
+        ? allocations.map(allocation => [
+          allocation.invoice?.invoiceNumber || 'Invoice',
+          allocation.invoice?.month || '',
+          this.formatAmount(allocation.allocatedAmount)
+        ])
+        : [[payment.notes || 'Payment received', payment.monthCovered || '', this.formatAmount(payment.amount)]],
+      totals: [
+        { label: 'Amount Received', value: this.formatAmount(payment.amount), bold: true }
+      ],
+      notes: payment.notes
+    };
+  }
+
+  async render(document: PrintableDocument, format: DocumentFormat): Promise<Buffer> {
+    return format === DocumentFormat.HTML
+      ? Buffer.from(this.renderHtml(document), 'utf-8')
+      : this.renderPdf(document);
+  }
+
+  private renderHtml(document: PrintableDocument): string {
+    const escape = (value: string) => String(value ?? '')
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+    const alignOf = (index: number) => document.columns[index]?.align === 'right' ? ' class="right"' : '';
+
+    return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escape(document.title)} ${escape(document.number)}</title>
+<style>
+  body { font-family: Helvetica, Arial, sans-serif; font-size: 13px; color: #222; max-width: 800px; margin: 24px auto; }
+  h1 { font-size: 20px; margin: 0; }
+  h2 { font-size: 16px; margin: 4px 0 16px; color: #555; }
+  table { width: 100%; border-collapse: collapse; margin-bottom: 16px; }
+  .details td { padding: 2px 0; }
+  .details td:first-child { width: 160px; color: #555; }
+  .items th, .items td { border-bottom: 1px solid #ddd; padding: 6px 4px; text-align: left; }
+  .right { text-align: right !important; }
+  .totals td { padding: 3px 4px; }
+  .bold { font-weight: bold; }
+  @media print { body { margin: 0; } }
+</style>
+</head>
+<body>
+<h1>${escape(document.hostelName)}</h1>
+<h2>${escape(document.title)} &middot; ${escape(document.number)}</h2>
+<table class="details">
+${document.details.map(detail => `  <tr><td>${escape(detail.label)}</td><td>${escape(detail.value)}</td></tr>`).join('\n')}
+</table>
+<table class="items">
+  <tr>${document.columns.map((column, index) => `<th${alignOf(index)}>${escape(column.header)}</th>`).join('')}</tr>
+${document.rows.map(row => `  <tr>${row.map((cell, index) => `<td${alignOf(index)}>${escape(cell)}</td>`).join('')}</tr>`).join('\n')}
+</table>
+<table class="totals">
+${document.totals.map(total => `  <tr${total.bold ? ' class="bold"' : ''}><td class="right">${escape(total.label)}</td><td class="right" style="width:140px">${escape(total.value)}</td></tr>`).join('\n')}
+</table>
+${document.notes ? `<p>${escape(document.notes)}</p>` : ''}
+</body>
+</html>
+`;
+  }
+
+  private renderPdf(document: PrintableDocument): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      const pdf = new PDFDocument({ size: 'A4', margin: PDF_MARGIN });
+      const chunks: Buffer[] = [];
+
+      pdf.on('data', chunk => chunks.push(chunk));
+      pdf.on('end', () => resolve(Buffer.concat(chunks)));
+      pdf.on('error', reject);
+
+      const contentWidth = pdf.page.width - PDF_MARGIN * 2;
+
+      // Header
+      pdf.font('Helvetica-Bold').fontSize(18).text(document.hostelName, { width: contentWidth });
+      pdf.font('Helvetica').fontSize(12).fillColor('#555')
+        .text(`${document.title} - ${document.number}`, { width: contentWidth });
+      pdf.fillColor('#000').moveDown();
+
+      // Details
+      pdf.fontSize(10);
+      for (const detail of document.details) {
+        const y = pdf.y;
+        pdf.font('Helvetica').fillColor('#555').text(detail.label, PDF_MARGIN, y, { width: 120 });
+        pdf.fillColor('#000').text(detail.value || '', PDF_MARGIN + 130, y, { width: contentWidth - 130 });
+      }
+      pdf.moveDown();
+
+      // Line items
+      const columnWidth = contentWidth / document.columns.length;
+      const drawRow = (cells: string[], bold: boolean) => {
+        if (pdf.y > pdf.page.height - PDF_MARGIN - 40) {
+          pdf.addPage();
+        }
+        const y = pdf.y;
+        pdf.font(bold ? 'Helvetica-Bold' : 'Helvetica').fontSize(10);
+        cells.forEach((cell, index) => {
+          pdf.text(cell || '', PDF_MARGIN + index * columnWidth, y, {
+            width: columnWidth - 6,
+            align: document.columns[index]?.align || 'left'
+          });
+        });
+        const rowBottom = Math.max(pdf.y, y + 14);
+        pdf.moveTo(PDF_MARGIN, rowBottom + 2).lineTo(PDF_MARGIN + contentWidth, rowBottom + 2)
+          .strokeColor('#ddd').stroke();
+        pdf.y = rowBottom + 6;
+      };
+
+      drawRow(document.columns.map(column => column.header), true);
+      document.rows.forEach(row => drawRow(row, false));
+      pdf.moveDown();
+
+      // Totals
+      for (const total of document.totals) {
+        const y = pdf.y;
+        pdf.font(total.bold ? 'Helvetica-Bold' : 'Helvetica').fontSize(10);
+        pdf.text(total.label, PDF_MARGIN, y, { width: contentWidth - 130, align: 'right' });
+        pdf.text(total.value, PDF_MARGIN + contentWidth - 120, y, { width: 120, align: 'right' });
+      }
+
+      if (document.notes) {
+        pdf.moveDown(2).font('Helvetica').fontSize(9).fillColor('#555')
+          .text(document.notes, PDF_MARGIN, pdf.y, { width: contentWidth });
+      }
+
+      pdf.end();
+    });
+  }
+
+  private formatAmount(amount: number | string): string {
+    return `NPR ${Number(amount || 0).toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+  }
+
+  /**
+   * Printed in both calendars, e.g. "2025-10-19 (2082-07-02 BS)"
+   */
+  private formatDate(date: Date | string): string {
+    const dual = toDualDate(date);
+    if (!dual) {
+      return '';
+    }
+    return dual.bs ? `${dual.ad} (${dual.bs} BS)` : dual.ad;
+  }
+}
@@ -0,0 +1,46 @@
+import { Injectable } from '@nestjs/common';
+import { InjectDataSource } from '@nestjs/typeorm';
+import { DataSource, EntitySubscriberInterface, InsertEvent } from 'typeorm';
+import { Invoice } from '../../invoices/entities/invoice.entity';
+import { Payment } from '../../payments/entities/payment.entity';
+import { DocumentType } from '../entities/document-sequence.entity';
+import { DocumentNumberingService } from '../services/document-numbering.service';
+
+/**
+ * Assigns sequential invoice and receipt numbers on insert.
+ * Runs inside the insert's transaction (event.manager), so a rolled back
+ * insert also rolls back the sequence increment and no number is skipped.
+ * Documents that already carry a number (e.g. imported ones) are left alone.
+ */
+@Injectable()
+export class DocumentNumberSubscriber implements EntitySubscriberInterface {
+  constructor(
+    @InjectDataSource()
+    dataSource: DataSource,
+    private documentNumberingService: DocumentNumberingService,
+  ) {
+    dataSource.subscribers.push(this);
+  }
+
+  async beforeInsert(event: InsertEvent<any>): Promise<void> {
+    const entity = event.entity;
+    if (!entity || !entity.hostelId) {
+      return;
+    }
+
+    if (event.metadata.target === Invoice && !entity.invoiceNumber) {
+      entity.invoiceNumber = await this.documentNumberingService.nextNumber(
+        event.manager,
+        entity.hostelId,
+        DocumentType.INVOICE
+      );
+    } else if (event.metadata.target === Payment && !entity.receiptNumber) {
+      entity.receiptNumber = await this.documentNumberingService.nextNumber(
+        event.manager,
+        entity.hostelId,
+        DocumentType.RECEIPT,
+        entity.paymentDate ? new Date(entity.paymentDate) : new Date()
+      );
+    }
+  }
+}
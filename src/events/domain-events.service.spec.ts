@@ -0,0 +1,78 @@
+import { firstValueFrom, take, toArray } from 'rxjs';
+import { DomainEventsService, DomainEventType } from './domain-events.service';
+import { BedStatus } from '../rooms/entities/bed.entity';
+
+describe('DomainEventsService', () => {
+  let service: DomainEventsService;
+  let dataSource: { subscribers: any[] };
+
+  const transaction = () => {
+    const queryRunner = { isTransactionActive: true };
+    return { queryRunner, manager: { queryRunner } as any };
+  };
+
+  const commit = (queryRunner: any) => {
+    queryRunner.isTransactionActive = false;
+    service.afterTransactionCommit({ queryRunner } as any);
+  };
+
+  beforeEach(() => {
+    dataSource = { subscribers: [] };
+    service = new DomainEventsService(dataSource as any);
+  });
+
+  it('should register itself for transaction events', () => {
+    expect(dataSource.subscribers).toContain(service);
+  });
+
+  it('should stream only the events of the subscribed hostel', async () => {
+    const received = firstValueFrom(service.stream('hostel-1').pipe(take(2), toArray()));
+
+    service.publish({ type: DomainEventType.PAYMENT_RECORDED, hostelId: 'hostel-2', data: { paymentId: 'payment-0' } });
+    service.publish({ type: DomainEventType.PAYMENT_RECORDED, hostelId: 'hostel-1', data: { paymentId: 'payment-1' } });
+    service.publishBedStatus({ id: 'bed-1', hostelId: 'hostel-1', roomId: 'room-1', bedIdentifier: 'R1-B1', status: BedStatus.OCCUPIED });
+
+    const [payment, bed] = await received;
+    expect(payment).toMatchObject({
+      id: '2',
+      type: DomainEventType.PAYMENT_RECORDED,
+      data: { type: DomainEventType.PAYMENT_RECORDED, data: { paymentId: 'payment-1' }, occurredAt: expect.any(Date) }
+    });
+    expect(bed).toMatchObject({
+      type: DomainEventType.BED_STATUS_CHANGED,
+      data: { data: { bedId: 'bed-1', roomId: 'room-1', status: BedStatus.OCCUPIED } }
+    });
+  });
+
+  it('should hold events published in a transaction until it commits', async () => {
+    const received: any[] = [];
+    const subscription = service.stream('hostel-1').subscribe(event => received.push(event));
+    const { queryRunner, manager } = transaction();
+
+    service.publish({ type: DomainEventType.BOOKING_CREATED, hostelId: 'hostel-1', data: { bookingId: 'booking-1' } }, manager);
+    expect(received).toHaveLength(0);
+
+    // Releasing a savepoint is not the commit
+    service.afterTransactionCommit({ queryRunner } as any);
+    expect(received).toHaveLength(0);
+
+    commit(queryRunner);
+    expect(received.map(event => event.data.data)).toEqual([{ bookingId: 'booking-1' }]);
+
+    subscription.unsubscribe();
+  });
+
+  it('should drop events of a rolled back transaction', () => {
+    const received: any[] = [];
+    const subscription = service.stream('hostel-1').subscribe(event => received.push(event));
+    const { queryRunner, manager } = transaction();
+
+    service.publish({ type: DomainEventType.BOOKING_CONFIRMED, hostelId: 'hostel-1', data: { bookingId: 'booking-1' } }, manager);
+    queryRunner.isTransactionActive = false;
+    service.afterTransactionRollback({ queryRunner } as any);
+    service.afterTransactionCommit({ queryRunner } as any);
+
+    expect(received).toHaveLength(0);
+    subscription.unsubscribe();
+  });
+});
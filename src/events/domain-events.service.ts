@@ -0,0 +1,121 @@
+import { Injectable, Logger, MessageEvent } from '@nestjs/common';
+import { InjectDataSource } from '@nestjs/typeorm';
+import { DataSource, EntityManager, EntitySubscriberInterface, QueryRunner, TransactionCommitEvent, TransactionRollbackEvent } from 'typeorm';
+import { Observable, Subject, filter, interval, map, merge } from 'rxjs';
+import { Bed } from '../rooms/entities/bed.entity';
+
+export enum DomainEventType {
+  BOOKING_CREATED = 'booking.created',
+  BOOKING_CONFIRMED = 'booking.confirmed',
+  PAYMENT_RECORDED = 'payment.recorded',
+  STUDENT_CHECKED_IN = 'attendance.checked_in',
+  STUDENT_CHECKED_OUT = 'attendance.checked_out',
+  BED_STATUS_CHANGED = 'bed.status_changed',
+  MAINTENANCE_REQUEST_OPENED = 'maintenance.request_opened'
+}
+
+export interface DomainEvent {
+  type: DomainEventType;
+  hostelId: string;
+  // Enough for the dashboard to update in place; fetch the rest by id
+  data: Record<string, any>;
+  occurredAt?: Date;
+}
+
+// Keeps idle streams open through proxies that drop silent connections
+const HEARTBEAT_INTERVAL_MS = 25 * 1000;
+
+/**
+ * Domain Events Service
+ * In-process bus for the admin dashboard's live updates. Services publish
+ * what happened; each hostel's open event streams receive only their own
+ * hostel's events.
+ *
+ * An event published with the manager of an open transaction is held until
+ * that transaction commits and dropped if it rolls back, so the dashboard
+ * never shows a booking or payment that does not exist.
+ *
+ * Events reach only the streams connected to this instance; with several
+ * instances behind a load balancer a client sees the events of the
+ * instance that handled the write.
+ */
+@Injectable()
+export class DomainEventsService implements EntitySubscriberInterface {
+  private readonly logger = new Logger(DomainEventsService.name);
+  private readonly events$ = new Subject<DomainEvent & { id: number }>();
+  private readonly pending = new WeakMap<QueryRunner, DomainEvent[]>();
+  private sequence = 0;
+
+  constructor(
+    @InjectDataSource()
+    dataSource: DataSource,
+  ) {
+    dataSource.subscribers.push(this);
+  }
+
+  publish(event: DomainEvent, manager?: EntityManager) {
+    const stamped = { ...event, occurredAt: event.occurredAt ?? new Date() };
+    const queryRunner = manager?.queryRunner;
+
+    if (queryRunner?.isTransactionActive) {
+      const queued = this.pending.get(queryRunner) ?? [];
+      queued.push(stamped);
+      this.pending.set(queryRunner, queued);
+      return;
+    }
+
+    this.emit(stamped);
+  }
+
+  /**
+   * A bed's new status, so the room layout can recolour it
+   */
+  publishBedStatus(bed: Pick<Bed, 'id' | 'hostelId' | 'roomId' | 'bedIdentifier' | 'status'>, manager?: EntityManager) {
+    this.publish({
+      type: DomainEventType.BED_STATUS_CHANGED,
+      hostelId: bed.hostelId,
+      data: { bedId: bed.id, bedIdentifier: bed.bedIdentifier, roomId: bed.roomId, status: bed.status }
+    }, manager);
+  }
+
+  /**
+   * Server-sent events for one hostel, with a periodic `heartbeat` event
+   * the client can ignore
+   */
+  stream(hostelId: string): Observable<MessageEvent> {
+    const events = this.events$.pipe(
+      filter(event => event.hostelId === hostelId),
+      map(event => ({
+        id: String(event.id),
+        type: event.type,
+        data: { type: event.type, data: event.data, occurredAt: event.occurredAt }
+      }))
+    );
+    const heartbeat = interval(HEARTBEAT_INTERVAL_MS).pipe(
+      map(() => ({ type: 'heartbeat', data: { at: new Date() } }))
+    );
+
+    return merge(events, heartbeat);
+  }
+
+  // Also fired when a savepoint is released; wait for the outer commit
+  afterTransactionCommit(event: TransactionCommitEvent) {
+    const queued = this.pending.get(event.queryRunner);
+    if (!queued || event.queryRunner.isTransactionActive) {
+      return;
+    }
+    this.pending.delete(event.queryRunner);
+    queued.forEach(domainEvent => this.emit(domainEvent));
+  }
+
+  afterTransactionRollback(event: TransactionRollbackEvent) {
+    if (!event.queryRunner.isTransactionActive) {
+      this.pending.delete(event.queryRunner);
+    }
+  }
+
+  private emit(event: DomainEvent) {
+    this.events$.next({ ...event, id: ++this.sequence });
+    this.logger.debug(`📡 ${event.type} for hostel ${event.hostelId}`);
+  }
+}
@@ -5,7 +5,7 @@ import { Expense } from './entities/expense.entity';
 import { CreateExpenseDto } from './dto/create-expense.dto';
 import { UpdateExpenseDto } from './dto/update-expense.dto';
 import { ExpenseFilterDto } from './dto/expense-filter.dto';
-import { Payment, PaymentStatus } from '../payments/entities/payment.entity';
+import { Payment, PaymentStatus, PaymentType } from '../payments/entities/payment.entity';
 
 @Injectable()
 export class ExpensesService {
@@ -156,6 +156,7 @@ export class ExpensesService {
       .select('SUM(payment.amount)', 'total')
       .where('payment.hostelId = :hostelId', { hostelId })
       .andWhere('payment.status = :status', { status: PaymentStatus.COMPLETED })
+      .andWhere('payment.paymentType != :refundType', { refundType: PaymentType.REFUND })
       .andWhere('payment.paymentDate >= :startDate', { startDate })
       .andWhere('payment.paymentDate <= :endDate', { endDate })
       .getRawOne();
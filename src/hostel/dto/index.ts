@@ -0,0 +1,7 @@
+export {
+  UpdateHostelSettingsDto,
+  GeneralSettingsDto,
+  BillingSettingsDto,
+  LateFeeSettingsDto,
+  BookingSettingsDto
+} from './update-hostel-settings.dto';
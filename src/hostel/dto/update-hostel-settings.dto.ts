@@ -0,0 +1,127 @@
+import { IsBoolean, IsEnum, IsInt, IsNumber, IsOptional, IsString, Matches, Max, Min, ValidateNested } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { LateFeeType, LateFeeFrequency } from '../entities/hostel-settings.entity';
+import { NotificationLanguage } from '../../notification/entities/notification-template.entity';
+
+// Every field is optional: leave it out to keep the current value, send null to go back to the default
+
+export class GeneralSettingsDto {
+  @ApiPropertyOptional({ description: 'ISO 4217 currency code', example: 'NPR' })
+  @IsOptional()
+  @Matches(/^[A-Z]{3}$/, { message: 'currency must be a 3-letter ISO 4217 code' })
+  currency?: string | null;
+
+  @ApiPropertyOptional({ description: 'IANA timezone for attendance dates and times', example: 'Asia/Kathmandu' })
+  @IsOptional()
+  @IsString()
+  timezone?: string | null;
+
+  @ApiPropertyOptional({ enum: NotificationLanguage, description: 'Language notifications are rendered in' })
+  @IsOptional()
+  @IsEnum(NotificationLanguage)
+  language?: NotificationLanguage | null;
+}
+
+export class LateFeeSettingsDto {
+  @ApiPropertyOptional({ example: true })
+  @IsOptional()
+  @IsBoolean()
+  enabled?: boolean | null;
+
+  @ApiPropertyOptional({ enum: LateFeeType, example: LateFeeType.FLAT })
+  @IsOptional()
+  @IsEnum(LateFeeType)
+  type?: LateFeeType | null;
+
+  @ApiPropertyOptional({ description: 'Currency amount for flat fees, percent of the balance for percentage fees', example: 200 })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  amount?: number | null;
+
+  @ApiPropertyOptional({ description: 'Days after the due date before the fee applies', example: 3 })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(60)
+  graceDays?: number | null;
+
+  @ApiPropertyOptional({ enum: LateFeeFrequency, description: 'Charge once, or again for every day the invoice stays unpaid', example: LateFeeFrequency.DAILY })
+  @IsOptional()
+  @IsEnum(LateFeeFrequency)
+  frequency?: LateFeeFrequency | null;
+
+  @ApiPropertyOptional({ description: 'Most late fee one invoice can accrue; null for no cap', example: 1000 })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  maxAmount?: number | null;
+}
+
+export class BillingSettingsDto {
+  @ApiPropertyOptional({ description: 'Day of the billing month (1-28) invoices are raised for', example: 1 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(28)
+  billingDay?: number | null;
+
+  @ApiPropertyOptional({ description: 'Days after the billing day the invoice falls due', example: 9 })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(60)
+  dueDateOffsetDays?: number | null;
+
+  @ApiPropertyOptional({ type: LateFeeSettingsDto })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => LateFeeSettingsDto)
+  lateFee?: LateFeeSettingsDto | null;
+}
+
+export class BookingSettingsDto {
+  @ApiPropertyOptional({ description: 'Most guests one booking may hold', example: 10 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(10)
+  maxGuestsPerBooking?: number | null;
+
+  @ApiPropertyOptional({ description: 'How many days ahead check-in may be; null for no limit', example: 90 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  maxAdvanceBookingDays?: number | null;
+}
+
+export class UpdateHostelSettingsDto {
+  @ApiProperty({
+    description: 'Version the change is based on (from GET hostel/settings); rejected with 409 if someone saved in between',
+    required: false,
+    example: 3
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  version?: number;
+
+  @ApiPropertyOptional({ type: GeneralSettingsDto })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => GeneralSettingsDto)
+  general?: GeneralSettingsDto;
+
+  @ApiPropertyOptional({ type: BillingSettingsDto })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => BillingSettingsDto)
+  billing?: BillingSettingsDto;
+
+  @ApiPropertyOptional({ type: BookingSettingsDto })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => BookingSettingsDto)
+  bookings?: BookingSettingsDto;
+}
@@ -0,0 +1,90 @@
+import { Entity, Column, OneToOne, JoinColumn, Index } from 'typeorm';
+import { BaseEntity } from '../../common/entities/base.entity';
+import { Hostel } from './hostel.entity';
+import { NotificationLanguage } from '../../notification/entities/notification-template.entity';
+
+export enum LateFeeType {
+  FLAT = 'flat',             // Fixed amount per overdue invoice
+  PERCENTAGE = 'percentage'  // Percentage of the invoice's outstanding balance
+}
+
+export enum LateFeeFrequency {
+  ONCE = 'once',    // Charged once when the grace period ends
+  DAILY = 'daily'   // Charged again for every further day the invoice stays unpaid
+}
+
+export interface HostelSettingsValues {
+  general: {
+    currency: string;        // ISO 4217 code shown on invoices and messages
+    timezone: string;        // IANA zone used for attendance dates and times
+    language: NotificationLanguage;  // Language notifications are rendered in
+  };
+  billing: {
+    billingDay: number;         // Day of the billing month (1-28) the monthly billing job raises invoices on
+    dueDateOffsetDays: number;  // Days after the billing day the invoice falls due
+    lateFee: {
+      enabled: boolean;
+      type: LateFeeType;
+      amount: number;           // Currency amount (FLAT) or percent (PERCENTAGE)
+      graceDays: number;        // Days after the due date before the fee applies
+      frequency: LateFeeFrequency;
+      maxAmount: number | null; // Most that accrues on one invoice; null = no cap
+    };
+  };
+  bookings: {
+    maxGuestsPerBooking: number;
+    maxAdvanceBookingDays: number | null;  // How far ahead check-in may be; null = no limit
+  };
+}
+
+export const DEFAULT_HOSTEL_SETTINGS: HostelSettingsValues = {
+  general: {
+    currency: 'NPR',
+    timezone: 'Asia/Kathmandu',
+    language: NotificationLanguage.EN
+  },
+  billing: {
+    billingDay: 1,
+    dueDateOffsetDays: 9,
+    lateFee: {
+      enabled: false,
+      type: LateFeeType.FLAT,
+      amount: 0,
+      graceDays: 0,
+      frequency: LateFeeFrequency.ONCE,
+      maxAmount: null
+    }
+  },
+  bookings: {
+    maxGuestsPerBooking: 10,
+    maxAdvanceBookingDays: null
+  }
+};
+
+/**
+ * Per-hostel configuration. Only the values a hostel changed are stored;
+ * everything else falls back to DEFAULT_HOSTEL_SETTINGS, so new settings
+ * need no backfill. `version` goes up by one on every change and guards
+ * against two admins overwriting each other.
+ */
+@Entity('hostel_settings')
+@Index(['hostelId'], { unique: true })
+export class HostelSettings extends BaseEntity {
+  @Column({ name: 'hostel_id' })
+  hostelId: string;
+
+  // Overrides of DEFAULT_HOSTEL_SETTINGS, same shape with every key optional
+  @Column({ type: 'jsonb', default: {} })
+  settings: Record<string, any>;
+
+  @Column({ type: 'int', default: 1 })
+  version: number;
+
+  @Column({ name: 'updated_by', nullable: true })
+  updatedBy: string;
+
+  // Relations
+  @OneToOne(() => Hostel, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'hostel_id' })
+  hostel: Hostel;
+}
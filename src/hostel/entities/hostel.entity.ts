@@ -1,5 +1,6 @@
 import { Entity, Column, OneToMany, Index } from 'typeorm';
 import { BaseEntity } from '../../common/entities/base.entity';
+import { CalendarSystem } from '../../common/utils/bikram-sambat.util';
 
 @Entity('hostel_profiles')
 @Index(['businessId'], { unique: true })
@@ -13,6 +14,15 @@ export class Hostel extends BaseEntity {
   @Column({ name: 'is_active', default: true })
   isActive: boolean;
 
+  // Calendar used to bill, prorate, label invoices and group reports (AD or Bikram Sambat)
+  @Column({
+    name: 'calendar_system',
+    type: 'enum',
+    enum: CalendarSystem,
+    default: CalendarSystem.AD
+  })
+  calendarSystem: CalendarSystem;
+
   // Relations - using forward references to avoid circular imports
   @OneToMany('Room', 'hostel')
   rooms: any[];
@@ -46,4 +56,10 @@ export class Hostel extends BaseEntity {
 
   @OneToMany('Expense', 'hostel')
   expenses: any[];
+
+  @OneToMany('ScheduledJob', 'hostel')
+  scheduledJobs: any[];
+
+  @OneToMany('HostelStaffMember', 'hostel')
+  staffMembers: any[];
 }
\ No newline at end of file
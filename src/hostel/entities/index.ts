@@ -1,2 +1,3 @@
 
-export { Hostel } from './hostel.entity';
\ No newline at end of file
+export { Hostel } from './hostel.entity';
+export { HostelSettings } from './hostel-settings.entity';
\ No newline at end of file
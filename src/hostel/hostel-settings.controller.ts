@@ -0,0 +1,57 @@
+import { Controller, Get, Put, Body, HttpStatus, UseGuards } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
+import { HostelSettingsService } from './services/hostel-settings.service';
+import { UpdateHostelSettingsDto } from './dto';
+import { HostelSettings } from './entities/hostel-settings.entity';
+import { GetHostelId } from './decorators/hostel-context.decorator';
+import { HostelAuthWithContextGuard } from '../auth/guards/hostel-auth-with-context.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { JwtPayload } from '../auth/interfaces/jwt-payload.interface';
+import { RolesGuard } from '../staff-roles/guards/roles.guard';
+import { Permissions } from '../staff-roles/decorators/permissions.decorator';
+import { Permission } from '../staff-roles/permissions';
+import { Audited } from '../audit/decorators/audited.decorator';
+
+// Registered before HostelController so `hostel/:businessId` does not swallow `hostel/settings`
+@ApiTags('hostel')
+@Controller('hostel/settings')
+@UseGuards(HostelAuthWithContextGuard, RolesGuard)
+@Audited({ entity: HostelSettings })
+@ApiBearerAuth()
+export class HostelSettingsController {
+  constructor(private readonly hostelSettingsService: HostelSettingsService) { }
+
+  @Get()
+  @ApiOperation({ summary: 'Get the hostel\'s settings with their defaults and version' })
+  @ApiResponse({ status: 200, description: 'Settings retrieved successfully' })
+  async getSettings(@GetHostelId() hostelId: string) {
+    const settings = await this.hostelSettingsService.getSettingsDocument(hostelId);
+
+    return {
+      status: HttpStatus.OK,
+      data: settings
+    };
+  }
+
+  @Put()
+  @Permissions(Permission.HOSTEL_SETTINGS_MANAGE)
+  @ApiOperation({
+    summary: 'Update the hostel\'s settings',
+    description: 'Partial update: omitted fields are kept, null resets a field or section to its default'
+  })
+  @ApiResponse({ status: 200, description: 'Settings updated successfully' })
+  @ApiResponse({ status: 400, description: 'Invalid settings' })
+  @ApiResponse({ status: 409, description: 'Settings were changed since the given version' })
+  async updateSettings(
+    @GetHostelId() hostelId: string,
+    @Body() updateDto: UpdateHostelSettingsDto,
+    @CurrentUser() user: JwtPayload
+  ) {
+    const settings = await this.hostelSettingsService.updateSettings(hostelId, updateDto, user?.id);
+
+    return {
+      status: HttpStatus.OK,
+      data: settings
+    };
+  }
+}
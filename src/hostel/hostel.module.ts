@@ -1,17 +1,26 @@
-import { Module } from '@nestjs/common';
+import { Module, forwardRef } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { HostelController } from './hostel.controller';
+import { HostelSettingsController } from './hostel-settings.controller';
 import { HostelService } from './hostel.service';
 import { Hostel } from './entities/hostel.entity';
+import { HostelSettings } from './entities/hostel-settings.entity';
 import { HostelContextMiddleware } from './middleware/hostel-context.middleware';
 import { HostelAuditService } from './services/hostel-audit.service';
+import { AuditLog } from '../audit/entities/audit-log.entity';
 import { HostelContextInterceptor } from './interceptors/hostel-context.interceptor';
 import { BusinessIntegrationService } from './services/business-integration.service';
+import { HostelSettingsService } from './services/hostel-settings.service';
+import { StaffRolesModule } from '../staff-roles/staff-roles.module';
 
 @Module({
-  imports: [TypeOrmModule.forFeature([Hostel])],
-  controllers: [HostelController],
-  providers: [HostelService, HostelContextMiddleware, HostelAuditService, HostelContextInterceptor, BusinessIntegrationService],
-  exports: [HostelService, HostelContextMiddleware, HostelAuditService, HostelContextInterceptor, BusinessIntegrationService, TypeOrmModule],
+  imports: [
+    TypeOrmModule.forFeature([Hostel, HostelSettings, AuditLog]),
+    // For the settings RolesGuard and owner seeding; StaffRolesModule reaches back here through AuthModule
+    forwardRef(() => StaffRolesModule),
+  ],
+  controllers: [HostelSettingsController, HostelController],
+  providers: [HostelService, HostelSettingsService, HostelContextMiddleware, HostelAuditService, HostelContextInterceptor, BusinessIntegrationService],
+  exports: [HostelService, HostelSettingsService, HostelContextMiddleware, HostelAuditService, HostelContextInterceptor, BusinessIntegrationService, TypeOrmModule],
 })
 export class HostelModule {}
\ No newline at end of file
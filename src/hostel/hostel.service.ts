@@ -1,8 +1,10 @@
-import { Injectable, NotFoundException, Logger, ConflictException } from '@nestjs/common';
+import { Injectable, NotFoundException, Logger, ConflictException, Inject, forwardRef } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
 import { Hostel } from './entities/hostel.entity';
 import { BusinessIntegrationService, BusinessData } from './services/business-integration.service';
+import { CalendarSystem } from '../common/utils/bikram-sambat.util';
+import { StaffRolesService } from '../staff-roles/services/staff-roles.service';
 
 export interface CreateHostelDto {
   businessId: string;
@@ -24,6 +26,8 @@ export class HostelService {
     @InjectRepository(Hostel)
     private hostelRepository: Repository<Hostel>,
     private businessIntegrationService: BusinessIntegrationService,
+    @Inject(forwardRef(() => StaffRolesService))
+    private staffRolesService: StaffRolesService,
   ) {}
 
   /**
@@ -51,9 +55,10 @@ export class HostelService {
   }
 
   /**
-   * Create a new hostel
+   * Create a new hostel; ownerUserId, the business user creating it, is
+   * seeded as its first owner
    */
-  async createHostel(createHostelDto: CreateHostelDto): Promise<Hostel> {
+  async createHostel(createHostelDto: CreateHostelDto, ownerUserId?: string): Promise<Hostel> {
     this.logger.log(`Creating hostel for businessId: ${createHostelDto.businessId}`);
 
     try {
@@ -75,6 +80,10 @@ export class HostelService {
 
       const savedHostel = await this.hostelRepository.save(hostel);
 
+      if (ownerUserId) {
+        await this.staffRolesService.seedOwner(savedHostel.businessId, ownerUserId);
+      }
+
       this.logger.log(`Hostel created successfully for businessId: ${createHostelDto.businessId}`);
       return savedHostel;
     } catch (error) {
@@ -118,9 +127,10 @@ export class HostelService {
   }
 
   /**
-   * Auto-create hostel fallback mechanism for unknown businessId from JWT tokens
+   * Auto-create hostel fallback mechanism for unknown businessId from JWT tokens.
+   * ownerUserId is the business token's user, who owns a hostel created here
    */
-  async ensureHostelExists(businessId: string, defaultName?: string): Promise<Hostel> {
+  async ensureHostelExists(businessId: string, defaultName?: string, ownerUserId?: string): Promise<Hostel> {
     this.logger.debug(`Ensuring hostel exists for businessId: ${businessId}`);
 
     try {
@@ -136,7 +146,7 @@ export class HostelService {
           businessId,
           name: hostelName,
           isActive: true
-        });
+        }, ownerUserId);
 
         this.logger.log(`Auto-created hostel: ${hostel.name} for businessId: ${businessId}`);
       }
@@ -278,6 +288,35 @@ export class HostelService {
     }
   }
 
+  /**
+   * Calendar the hostel bills and reports in (defaults to AD)
+   */
+  async getCalendarSystem(hostelId: string): Promise<CalendarSystem> {
+    const hostel = await this.hostelRepository.findOne({
+      where: { id: hostelId },
+      select: ['id', 'calendarSystem']
+    });
+
+    return hostel?.calendarSystem || CalendarSystem.AD;
+  }
+
+  /**
+   * Switch the hostel between AD and Bikram Sambat billing/reporting
+   */
+  async updateCalendarSystem(hostelId: string, calendarSystem: CalendarSystem): Promise<Hostel> {
+    const hostel = await this.hostelRepository.findOne({ where: { id: hostelId } });
+
+    if (!hostel) {
+      throw new NotFoundException('Hostel not found');
+    }
+
+    hostel.calendarSystem = calendarSystem;
+    const savedHostel = await this.hostelRepository.save(hostel);
+
+    this.logger.log(`📅 Hostel ${hostelId} now uses the ${calendarSystem} calendar`);
+    return savedHostel;
+  }
+
   /**
    * Enhance single hostel with business data from kaha-main-v3
    */
@@ -294,6 +333,7 @@ export class HostelService {
           address: businessData.address,
           kahaId: businessData.kahaId,
           isActive: hostel.isActive,
+          calendarSystem: hostel.calendarSystem,
           createdAt: hostel.createdAt,
           updatedAt: hostel.updatedAt,
           // Keep original hostel name as fallback
@@ -307,6 +347,7 @@ export class HostelService {
         businessId: hostel.businessId,
         name: hostel.name,
         isActive: hostel.isActive,
+        calendarSystem: hostel.calendarSystem,
         createdAt: hostel.createdAt,
         updatedAt: hostel.updatedAt
       };
@@ -319,6 +360,7 @@ export class HostelService {
         businessId: hostel.businessId,
         name: hostel.name,
         isActive: hostel.isActive,
+        calendarSystem: hostel.calendarSystem,
         createdAt: hostel.createdAt,
         updatedAt: hostel.updatedAt
       };
@@ -366,6 +408,7 @@ export class HostelService {
           businessId: hostel.businessId,
           name: hostel.name,
           isActive: hostel.isActive,
+          calendarSystem: hostel.calendarSystem,
           createdAt: hostel.createdAt,
           updatedAt: hostel.updatedAt
         };
@@ -379,6 +422,7 @@ export class HostelService {
         businessId: hostel.businessId,
         name: hostel.name,
         isActive: hostel.isActive,
+        calendarSystem: hostel.calendarSystem,
         createdAt: hostel.createdAt,
         updatedAt: hostel.updatedAt
       }));
@@ -32,7 +32,7 @@ export class HostelContextInterceptor implements NestInterceptor {
         this.logger.log(`🏨 Setting up hostel context for businessId: ${businessId}`);
 
         // Validate and ensure hostel exists
-        const hostel = await this.hostelService.ensureHostelExists(businessId);
+        const hostel = await this.hostelService.ensureHostelExists(businessId, undefined, userId);
         
         if (hostel && hostel.isActive) {
           // Set hostel context in request
@@ -43,7 +43,7 @@ export class HostelContextMiddleware implements NestMiddleware {
       this.logger.log(`🏨 Setting up hostel context for businessId: ${businessId}`);
 
       // Validate and ensure hostel exists
-      const hostel = await this.hostelService.ensureHostelExists(businessId);
+      const hostel = await this.hostelService.ensureHostelExists(businessId, undefined, userId);
 
       // STRICT ENFORCEMENT: Reject invalid or inactive hostels
       if (!hostel || !hostel.isActive) {
@@ -1,4 +1,8 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Injectable, Logger, BadRequestException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { AuditLog, AuditOperation } from '../../audit/entities/audit-log.entity';
+import { AuditLogFilterDto } from '../../audit/dto';
 
 export interface HostelAuditLog {
   hostelId: string;
@@ -12,6 +16,15 @@ export interface HostelAuditLog {
   userAgent?: string;
   success: boolean;
   errorMessage?: string;
+  action?: string;
+  kahaId?: string;
+  before?: Record<string, any> | null;
+  after?: Record<string, any> | null;
+  changes?: Record<string, { from: any; to: any }> | null;
+  method?: string;
+  path?: string;
+  statusCode?: number;
+  durationMs?: number;
 }
 
 export interface SecurityViolationLog {
@@ -29,14 +42,25 @@ export interface SecurityViolationLog {
   details?: any;
 }
 
+/**
+ * Hostel Audit Service
+ * Writes hostel-scoped operations and security violations to the logger and
+ * to the audit_logs table. Persisting never throws: a failed audit write is
+ * logged and the request carries on.
+ */
 @Injectable()
 export class HostelAuditService {
   private readonly logger = new Logger(HostelAuditService.name);
 
+  constructor(
+    @InjectRepository(AuditLog)
+    private auditLogRepository: Repository<AuditLog>
+  ) { }
+
   /**
    * Log hostel-scoped operation
    */
-  logOperation(auditLog: HostelAuditLog): void {
+  async logOperation(auditLog: HostelAuditLog): Promise<void> {
     const logMessage = `Hostel Operation: ${auditLog.operation} on ${auditLog.entityType}`;
     
     const logData = {
@@ -58,12 +82,35 @@ export class HostelAuditService {
     } else {
       this.logger.error(`${logMessage} - FAILED: ${auditLog.errorMessage}`, logData);
     }
+
+    await this.persist({
+      hostelId: auditLog.hostelId,
+      userId: auditLog.userId,
+      kahaId: auditLog.kahaId,
+      operation: auditLog.operation,
+      action: auditLog.action,
+      entityType: auditLog.entityType,
+      entityId: auditLog.entityId,
+      success: auditLog.success,
+      errorMessage: auditLog.errorMessage,
+      before: auditLog.before,
+      after: auditLog.after,
+      changes: auditLog.changes,
+      details: auditLog.details,
+      method: auditLog.method,
+      path: auditLog.path,
+      statusCode: auditLog.statusCode,
+      durationMs: auditLog.durationMs,
+      ip: auditLog.ip,
+      userAgent: auditLog.userAgent,
+      createdAt: auditLog.timestamp
+    });
   }
 
   /**
    * Log security violation
    */
-  logSecurityViolation(violation: SecurityViolationLog): void {
+  async logSecurityViolation(violation: SecurityViolationLog): Promise<void> {
     const logMessage = `SECURITY VIOLATION: ${violation.violationType} - ${violation.operation} on ${violation.entityType}`;
     
     const logData = {
@@ -83,7 +130,25 @@ export class HostelAuditService {
 
     this.logger.error(logMessage, logData);
 
-    // In production, you might want to send alerts or store in a security log database
+    await this.persist({
+      hostelId: violation.hostelId === 'UNKNOWN' ? null : violation.hostelId,
+      userId: violation.userId,
+      operation: AuditOperation.SECURITY_VIOLATION,
+      action: violation.operation,
+      entityType: violation.entityType,
+      entityId: violation.entityId,
+      success: false,
+      violationType: violation.violationType,
+      details: {
+        ...(violation.details || {}),
+        requestedHostelId: violation.requestedHostelId,
+        actualHostelId: violation.actualHostelId
+      },
+      ip: violation.ip,
+      userAgent: violation.userAgent,
+      createdAt: violation.timestamp
+    });
+
     this.handleSecurityAlert(violation);
   }
 
@@ -96,8 +161,8 @@ export class HostelAuditService {
     entityId: string,
     userId?: string,
     details?: any
-  ): void {
-    this.logOperation({
+  ): Promise<void> {
+    return this.logOperation({
       hostelId,
       userId,
       operation: 'CREATE',
@@ -118,8 +183,8 @@ export class HostelAuditService {
     entityId?: string,
     userId?: string,
     details?: any
-  ): void {
-    this.logOperation({
+  ): Promise<void> {
+    return this.logOperation({
       hostelId,
       userId,
       operation: 'READ',
@@ -140,8 +205,8 @@ export class HostelAuditService {
     entityId: string,
     userId?: string,
     details?: any
-  ): void {
-    this.logOperation({
+  ): Promise<void> {
+    return this.logOperation({
       hostelId,
       userId,
       operation: 'UPDATE',
@@ -162,8 +227,8 @@ export class HostelAuditService {
     entityId: string,
     userId?: string,
     details?: any
-  ): void {
-    this.logOperation({
+  ): Promise<void> {
+    return this.logOperation({
       hostelId,
       userId,
       operation: 'DELETE',
@@ -186,8 +251,8 @@ export class HostelAuditService {
     entityId?: string,
     userId?: string,
     details?: any
-  ): void {
-    this.logOperation({
+  ): Promise<void> {
+    return this.logOperation({
       hostelId,
       userId,
       operation,
@@ -211,8 +276,8 @@ export class HostelAuditService {
     actualHostelId: string,
     userId?: string,
     details?: any
-  ): void {
-    this.logSecurityViolation({
+  ): Promise<void> {
+    return this.logSecurityViolation({
       violationType: 'CROSS_HOSTEL_ACCESS',
       hostelId: requestedHostelId,
       userId,
@@ -236,8 +301,8 @@ export class HostelAuditService {
     userId?: string,
     entityId?: string,
     details?: any
-  ): void {
-    this.logSecurityViolation({
+  ): Promise<void> {
+    return this.logSecurityViolation({
       violationType: 'UNAUTHORIZED_OPERATION',
       hostelId,
       userId,
@@ -257,8 +322,8 @@ export class HostelAuditService {
     entityType: string,
     userId?: string,
     details?: any
-  ): void {
-    this.logSecurityViolation({
+  ): Promise<void> {
+    return this.logSecurityViolation({
       violationType: 'INVALID_CONTEXT',
       hostelId: 'UNKNOWN',
       userId,
@@ -282,21 +347,131 @@ export class HostelAuditService {
     this.logger.warn(`Security alert triggered for violation: ${violation.violationType}`);
   }
 
+  /**
+   * Audit log entries for a hostel, newest first
+   */
+  async findLogs(hostelId: string, filters: AuditLogFilterDto) {
+    if (!hostelId) {
+      throw new BadRequestException('Hostel context required');
+    }
+
+    const { page = 1, limit = 10, entityType, entityId, userId, operation, success, dateFrom, dateTo } = filters;
+
+    const queryBuilder = this.auditLogRepository.createQueryBuilder('audit')
+      .where('audit.hostelId = :hostelId', { hostelId });
+
+    if (entityType) {
+      queryBuilder.andWhere('audit.entityType = :entityType', { entityType });
+    }
+
+    if (entityId) {
+      queryBuilder.andWhere('audit.entityId = :entityId', { entityId });
+    }
+
+    if (userId) {
+      queryBuilder.andWhere('audit.userId = :userId', { userId });
+    }
+
+    if (operation) {
+      queryBuilder.andWhere('audit.operation = :operation', { operation });
+    }
+
+    if (success !== undefined) {
+      queryBuilder.andWhere('audit.success = :success', { success });
+    }
+
+    if (dateFrom) {
+      queryBuilder.andWhere('audit.createdAt >= :dateFrom', { dateFrom: new Date(dateFrom) });
+    }
+
+    if (dateTo) {
+      queryBuilder.andWhere('audit.createdAt <= :dateTo', { dateTo: this.endOfDay(dateTo) });
+    }
+
+    const [logs, total] = await queryBuilder
+      .orderBy('audit.createdAt', 'DESC')
+      .skip((page - 1) * limit)
+      .take(limit)
+      .getManyAndCount();
+
+    return {
+      items: logs,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit)
+      }
+    };
+  }
+
   /**
    * Get audit summary for a hostel (for admin dashboard)
    */
-  getAuditSummary(hostelId: string, timeRange?: { from: Date; to: Date }) {
-    // This would typically query a database of audit logs
-    // For now, return a placeholder structure
+  async getAuditSummary(hostelId: string, timeRange?: { from: Date; to: Date }) {
+    const queryBuilder = this.auditLogRepository.createQueryBuilder('audit')
+      .where('audit.hostelId = :hostelId', { hostelId });
+
+    if (timeRange) {
+      queryBuilder.andWhere('audit.createdAt BETWEEN :from AND :to', timeRange);
+    }
+
+    const [totals, topOperations, topUsers] = await Promise.all([
+      queryBuilder.clone()
+        .select('COUNT(*)', 'total')
+        .addSelect('COUNT(*) FILTER (WHERE audit.success = true)', 'successful')
+        .addSelect(`COUNT(*) FILTER (WHERE audit.operation = '${AuditOperation.SECURITY_VIOLATION}')`, 'violations')
+        .getRawOne(),
+      queryBuilder.clone()
+        .select('audit.operation', 'operation')
+        .addSelect('audit.entityType', 'entityType')
+        .addSelect('COUNT(*)', 'count')
+        .groupBy('audit.operation')
+        .addGroupBy('audit.entityType')
+        .orderBy('count', 'DESC')
+        .limit(5)
+        .getRawMany(),
+      queryBuilder.clone()
+        .andWhere('audit.userId IS NOT NULL')
+        .select('audit.userId', 'userId')
+        .addSelect('COUNT(*)', 'count')
+        .groupBy('audit.userId')
+        .orderBy('count', 'DESC')
+        .limit(5)
+        .getRawMany()
+    ]);
+
+    const totalOperations = Number(totals?.total || 0);
+    const successfulOperations = Number(totals?.successful || 0);
+
     return {
       hostelId,
       timeRange,
-      totalOperations: 0,
-      successfulOperations: 0,
-      failedOperations: 0,
-      securityViolations: 0,
-      topOperations: [],
-      topUsers: []
+      totalOperations,
+      successfulOperations,
+      failedOperations: totalOperations - successfulOperations,
+      securityViolations: Number(totals?.violations || 0),
+      topOperations: topOperations.map(row => ({ ...row, count: Number(row.count) })),
+      topUsers: topUsers.map(row => ({ ...row, count: Number(row.count) }))
     };
   }
-}
\ No newline at end of file
+
+  private async persist(entry: Partial<AuditLog>): Promise<void> {
+    try {
+      await this.auditLogRepository.save(this.auditLogRepository.create(entry));
+    } catch (error) {
+      this.logger.error(`❌ Failed to persist audit log for ${entry.operation} on ${entry.entityType}: ${error.message}`);
+    }
+  }
+
+  /**
+   * "YYYY-MM-DD" means the whole day
+   */
+  private endOfDay(value: string): Date {
+    const date = new Date(value);
+    if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+      date.setUTCHours(23, 59, 59, 999);
+    }
+    return date;
+  }
+}
@@ -0,0 +1,86 @@
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { HostelSettingsService } from './hostel-settings.service';
+import { DEFAULT_HOSTEL_SETTINGS, LateFeeType, LateFeeFrequency } from '../entities/hostel-settings.entity';
+
+describe('HostelSettingsService', () => {
+  let service: HostelSettingsService;
+  let row: any;
+
+  const insertQuery = {
+    insert: jest.fn().mockReturnThis(),
+    into: jest.fn().mockReturnThis(),
+    values: jest.fn(function (values) {
+      row = { id: 'settings-1', ...values };
+      return this;
+    }),
+    orIgnore: jest.fn().mockReturnThis(),
+    returning: jest.fn().mockReturnThis(),
+    execute: jest.fn(async () => ({ raw: [{ id: 'settings-1' }] })),
+  };
+
+  const mockSettingsRepository = {
+    findOne: jest.fn(async () => (row ? { ...row } : null)),
+    update: jest.fn(async (criteria, changes) => {
+      if (!row || row.version !== criteria.version) {
+        return { affected: 0 };
+      }
+      Object.assign(row, changes);
+      return { affected: 1 };
+    }),
+    createQueryBuilder: jest.fn(() => insertQuery),
+  };
+
+  beforeEach(() => {
+    service = new HostelSettingsService(
+      mockSettingsRepository as any,
+      { get: jest.fn((key, fallback) => fallback) } as any
+    );
+
+    row = null;
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should resolve stored overrides over the defaults and cache the result', async () => {
+    row = { id: 'settings-1', hostelId: 'hostel-1', version: 2, settings: { billing: { dueDateOffsetDays: 4 }, retired: true } };
+
+    const settings = await service.getSettings('hostel-1');
+    await service.getSettings('hostel-1');
+
+    expect(settings.billing).toEqual({ ...DEFAULT_HOSTEL_SETTINGS.billing, dueDateOffsetDays: 4 });
+    expect(settings.general).toEqual(DEFAULT_HOSTEL_SETTINGS.general);
+    expect(settings).not.toHaveProperty('retired');
+    expect(mockSettingsRepository.findOne).toHaveBeenCalledTimes(1);
+  });
+
+  it('should merge updates, reset nulls to the default and bump the version', async () => {
+    const created = await service.updateSettings('hostel-1', {
+      general: { currency: 'USD' },
+      billing: { billingDay: 5, lateFee: { enabled: true, amount: 250 } }
+    }, 'admin-1');
+
+    expect(created.version).toBe(1);
+    expect(created.settings.billing.lateFee).toEqual({
+      enabled: true, type: LateFeeType.FLAT, amount: 250, graceDays: 0, frequency: LateFeeFrequency.ONCE, maxAmount: null
+    });
+
+    const updated = await service.updateSettings('hostel-1', { version: 1, general: { currency: null } }, 'admin-1');
+
+    expect(updated.version).toBe(2);
+    expect(updated.settings.general.currency).toBe('NPR');
+    expect(updated.overrides).toEqual({ billing: { billingDay: 5, lateFee: { enabled: true, amount: 250 } } });
+
+    await expect(service.updateSettings('hostel-1', { version: 1, billing: { billingDay: 2 } })).rejects.toThrow(ConflictException);
+  });
+
+  it('should reject settings that do not hold together', async () => {
+    await expect(service.updateSettings('hostel-1', { general: { timezone: 'Mars/Olympus_Mons' } }))
+      .rejects.toThrow(BadRequestException);
+    await expect(service.updateSettings('hostel-1', { billing: { lateFee: { type: LateFeeType.PERCENTAGE, amount: 150 } } }))
+      .rejects.toThrow('cannot be more than 100');
+
+    expect(insertQuery.execute).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,233 @@
+import { Injectable, Logger, BadRequestException, ConflictException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Repository } from 'typeorm';
+import { HostelSettings, HostelSettingsValues, DEFAULT_HOSTEL_SETTINGS, LateFeeType } from '../entities/hostel-settings.entity';
+import { UpdateHostelSettingsDto } from '../dto';
+
+const DEFAULT_CACHE_TTL_MS = 60 * 1000;
+
+interface LoadedSettings {
+  settings: HostelSettingsValues;
+  overrides: Record<string, any>;
+  version: number;
+  updatedAt: Date | null;
+  updatedBy: string | null;
+}
+
+export type HostelSettingsChangedHandler = (hostelId: string, settings: HostelSettingsValues) => Promise<void>;
+
+/**
+ * Hostel Settings Service
+ * Typed per-hostel configuration (currency, timezone, notification language,
+ * billing day and due date, late fee, booking limits) resolved over DEFAULT_HOSTEL_SETTINGS.
+ * Billing, attendance and bookings read it on every request, so resolved
+ * settings are kept in memory for HOSTEL_SETTINGS_CACHE_TTL_MS; a save
+ * clears this instance's copy, other instances pick it up once theirs expires.
+ */
+@Injectable()
+export class HostelSettingsService {
+  private readonly logger = new Logger(HostelSettingsService.name);
+  private readonly cache = new Map<string, { loaded: LoadedSettings; expiresAt: number }>();
+  private readonly changedHandlers: HostelSettingsChangedHandler[] = [];
+  private readonly cacheTtlMs: number;
+
+  constructor(
+    @InjectRepository(HostelSettings)
+    private settingsRepository: Repository<HostelSettings>,
+    private configService: ConfigService,
+  ) {
+    this.cacheTtlMs = Number(this.configService.get('HOSTEL_SETTINGS_CACHE_TTL_MS', DEFAULT_CACHE_TTL_MS));
+  }
+
+  /**
+   * Register what to do after a hostel's settings are saved
+   */
+  onChanged(handler: HostelSettingsChangedHandler) {
+    this.changedHandlers.push(handler);
+  }
+
+  /**
+   * Effective settings for the hostel (defaults for anything not overridden)
+   */
+  async getSettings(hostelId: string): Promise<HostelSettingsValues> {
+    return (await this.load(hostelId)).settings;
+  }
+
+  /**
+   * Settings with their version and what the hostel changed, for the admin API
+   */
+  async getSettingsDocument(hostelId: string) {
+    if (!hostelId) {
+      throw new BadRequestException('Hostel context required');
+    }
+
+    const loaded = await this.load(hostelId);
+
+    return {
+      hostelId,
+      version: loaded.version,
+      settings: loaded.settings,
+      overrides: loaded.overrides,
+      defaults: DEFAULT_HOSTEL_SETTINGS,
+      updatedAt: loaded.updatedAt,
+      updatedBy: loaded.updatedBy
+    };
+  }
+
+  /**
+   * Apply a partial update. Omitted fields keep their value, null resets a
+   * field (or a whole section) to the default.
+   */
+  async updateSettings(hostelId: string, updateDto: UpdateHostelSettingsDto, updatedBy?: string) {
+    if (!hostelId) {
+      throw new BadRequestException('Hostel context required');
+    }
+
+    const { version: expectedVersion, ...changes } = updateDto;
+    const existing = await this.settingsRepository.findOne({ where: { hostelId } });
+    const currentVersion = existing?.version ?? 0;
+
+    if (expectedVersion !== undefined && expectedVersion !== currentVersion) {
+      throw new ConflictException(
+        `Settings were changed by someone else (now at version ${currentVersion}); reload them and try again`
+      );
+    }
+
+    const overrides = mergeOverrides(existing?.settings || {}, JSON.parse(JSON.stringify(changes)));
+    validateSettings(resolveSettings(overrides));
+
+    if (existing) {
+      const result = await this.settingsRepository.update(
+        { id: existing.id, version: currentVersion },
+        { settings: overrides, version: currentVersion + 1, updatedBy }
+      );
+      if (!result.affected) {
+        throw new ConflictException('Settings were changed by someone else; reload them and try again');
+      }
+    } else {
+      const result = await this.settingsRepository.createQueryBuilder()
+        .insert()
+        .into(HostelSettings)
+        .values({ hostelId, settings: overrides, version: 1, updatedBy })
+        .orIgnore()
+        .returning('id')
+        .execute();
+      if (!result.raw?.length) {
+        throw new ConflictException('Settings were changed by someone else; reload them and try again');
+      }
+    }
+
+    this.cache.delete(hostelId);
+    this.logger.log(`⚙️ Hostel ${hostelId} settings saved (version ${currentVersion + 1})`);
+
+    const document = await this.getSettingsDocument(hostelId);
+    await this.notifyChanged(hostelId, document.settings);
+
+    return document;
+  }
+
+  // The settings are saved by now; a failing handler must not fail the update
+  private async notifyChanged(hostelId: string, settings: HostelSettingsValues) {
+    for (const handler of this.changedHandlers) {
+      try {
+        await handler(hostelId, settings);
+      } catch (error) {
+        this.logger.error(`❌ Settings change handler failed for hostel ${hostelId}: ${error.message}`);
+      }
+    }
+  }
+
+  private async load(hostelId: string): Promise<LoadedSettings> {
+    const cached = this.cache.get(hostelId);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.loaded;
+    }
+
+    const row = hostelId ? await this.settingsRepository.findOne({ where: { hostelId } }) : null;
+    const overrides = row?.settings || {};
+    const loaded: LoadedSettings = {
+      settings: resolveSettings(overrides),
+      overrides,
+      version: row?.version ?? 0,
+      updatedAt: row?.updatedAt || null,
+      updatedBy: row?.updatedBy || null
+    };
+
+    if (hostelId) {
+      this.cache.set(hostelId, { loaded, expiresAt: Date.now() + this.cacheTtlMs });
+    }
+
+    return loaded;
+  }
+}
+
+/**
+ * Stored overrides laid over the defaults. Only keys the defaults know are
+ * taken, so a removed setting left in the JSON is ignored.
+ */
+function resolveSettings(overrides: Record<string, any>): HostelSettingsValues {
+  return overlay(DEFAULT_HOSTEL_SETTINGS, overrides);
+}
+
+function overlay<T>(defaults: T, overrides: any): T {
+  if (!isPlainObject(defaults)) {
+    return overrides === undefined || overrides === null ? defaults : overrides;
+  }
+
+  const result: any = {};
+  for (const [key, value] of Object.entries(defaults)) {
+    result[key] = overlay(value, isPlainObject(overrides) ? overrides[key] : undefined);
+  }
+  return result;
+}
+
+/**
+ * Merge a change into the stored overrides; null deletes the override
+ */
+function mergeOverrides(current: Record<string, any>, changes: Record<string, any>): Record<string, any> {
+  const result = { ...current };
+
+  for (const [key, value] of Object.entries(changes)) {
+    if (value === null) {
+      delete result[key];
+    } else if (isPlainObject(value)) {
+      const merged = mergeOverrides(isPlainObject(result[key]) ? result[key] : {}, value);
+      if (Object.keys(merged).length > 0) {
+        result[key] = merged;
+      } else {
+        delete result[key];
+      }
+    } else if (value !== undefined) {
+      result[key] = value;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Checks that need more than one field or more than the DTO decorators can express
+ */
+function validateSettings(settings: HostelSettingsValues) {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: settings.general.timezone });
+  } catch {
+    throw new BadRequestException(`Unknown timezone: ${settings.general.timezone}`);
+  }
+
+  const { lateFee } = settings.billing;
+  if (lateFee.type === LateFeeType.PERCENTAGE && lateFee.amount > 100) {
+    throw new BadRequestException('A percentage late fee cannot be more than 100');
+  }
+  if (lateFee.enabled && lateFee.amount <= 0) {
+    throw new BadRequestException('Set a late fee amount before enabling late fees');
+  }
+  if (lateFee.maxAmount !== null && lateFee.maxAmount <= 0) {
+    throw new BadRequestException('The late fee cap must be more than 0; use null for no cap');
+  }
+}
+
+function isPlainObject(value: any): value is Record<string, any> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
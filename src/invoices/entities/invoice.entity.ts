@@ -4,6 +4,7 @@ import { Student } from '../../students/entities/student.entity';
 import { InvoiceItem } from './invoice-item.entity';
 import { PaymentInvoiceAllocation } from '../../payments/entities/payment-invoice-allocation.entity';
 import { Hostel } from '../../hostel/entities/hostel.entity';
+import { CalendarSystem, getCalendarMonthLabel } from '../../common/utils/bikram-sambat.util';
 
 export enum InvoiceStatus {
   PAID = 'Paid',
@@ -30,6 +31,14 @@ export class Invoice extends BaseEntity {
   @Column({ length: 20 }) // YYYY-MM format with extra space for safety
   month: string;
 
+  // Calendar the month key is in: "2025-10" (AD) or "2082-07" (BS)
+  @Column({
+    type: 'enum',
+    enum: CalendarSystem,
+    default: CalendarSystem.AD
+  })
+  calendar: CalendarSystem;
+
   @Column({ type: 'decimal', precision: 10, scale: 2, default: 0 })
   total: number;
 
@@ -99,6 +108,9 @@ export class Invoice extends BaseEntity {
       const end = this.periodEnd.toLocaleDateString();
       return `${start} - ${end}`;
     }
+    if (this.calendar === CalendarSystem.BS) {
+      return getCalendarMonthLabel(this.month, CalendarSystem.BS);
+    }
     return this.month; // Fallback to calendar month
   }
 
@@ -1,9 +1,13 @@
-import { Controller, Get, Post, Put, Delete, Body, Param, Query, HttpStatus, ValidationPipe, UseGuards } from '@nestjs/common';
+import { Controller, Get, Post, Put, Delete, Body, Param, Query, HttpStatus, ValidationPipe, UseGuards, Res, StreamableFile, ParseEnumPipe } from '@nestjs/common';
+import { Response } from 'express';
 import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
 import { InvoicesService } from './invoices.service';
 import { CreateInvoiceDto, UpdateInvoiceDto, UpdateInvoiceStatusDto, SendInvoiceDto } from './dto';
 import { GetHostelId } from '../hostel/decorators/hostel-context.decorator';
 import { HostelAuthWithContextGuard } from '../auth/guards/hostel-auth-with-context.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { JwtPayload } from '../auth/interfaces/jwt-payload.interface';
+import { DocumentFormat } from '../documents/services/document-renderer.service';
 
 @ApiTags('invoices')
 @Controller('invoices')
@@ -49,6 +53,26 @@ export class InvoicesController {
     };
   }
 
+  @Get(':id/document')
+  @ApiOperation({ summary: 'Get printable invoice document (PDF or HTML)' })
+  @ApiResponse({ status: 200, description: 'Invoice document' })
+  @ApiResponse({ status: 404, description: 'Invoice not found' })
+  async getInvoiceDocument(
+    @GetHostelId() hostelId: string,
+    @Param('id') id: string,
+    @Query('format', new ParseEnumPipe(DocumentFormat, { optional: true })) format: DocumentFormat = DocumentFormat.PDF,
+    @Res({ passthrough: true }) res: Response
+  ) {
+    const document = await this.invoicesService.getInvoiceDocument(id, hostelId, format);
+
+    res.set({
+      'Content-Type': document.contentType,
+      'Content-Disposition': `inline; filename="${document.fileName}"`
+    });
+
+    return new StreamableFile(document.content);
+  }
+
   @Post()
   @ApiOperation({ summary: 'Create new invoice' })
   @ApiResponse({ status: 201, description: 'Invoice created successfully' })
@@ -124,8 +148,14 @@ export class InvoicesController {
   @Post(':id/send')
   @ApiOperation({ summary: 'Send invoice to student' })
   @ApiResponse({ status: 200, description: 'Invoice sent successfully' })
-  async sendInvoice(@GetHostelId() hostelId: string, @Param('id') id: string) {
-    const result = await this.invoicesService.sendInvoice(id, hostelId);
+  @ApiResponse({ status: 400, description: 'Student has no email address or phone number for the chosen method' })
+  async sendInvoice(
+    @GetHostelId() hostelId: string,
+    @Param('id') id: string,
+    @Body(ValidationPipe) sendInvoiceDto: SendInvoiceDto,
+    @CurrentUser() user: JwtPayload
+  ) {
+    const result = await this.invoicesService.sendInvoice(id, hostelId, sendInvoiceDto, user?.id);
     
     return {
       status: HttpStatus.OK,
@@ -133,6 +163,18 @@ export class InvoicesController {
     };
   }
 
+  @Get(':id/deliveries')
+  @ApiOperation({ summary: 'Get delivery history (email/SMS/WhatsApp) of an invoice' })
+  @ApiResponse({ status: 200, description: 'Invoice deliveries retrieved successfully' })
+  async getInvoiceDeliveries(@GetHostelId() hostelId: string, @Param('id') id: string) {
+    const deliveries = await this.invoicesService.getInvoiceDeliveries(id, hostelId);
+
+    return {
+      status: HttpStatus.OK,
+      data: deliveries
+    };
+  }
+
   @Get('overdue/list')
   @ApiOperation({ summary: 'Get overdue invoices' })
   @ApiResponse({ status: 200, description: 'Overdue invoices retrieved successfully' })
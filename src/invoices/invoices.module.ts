@@ -9,6 +9,9 @@ import { LedgerV2Module } from '../ledger-v2/ledger-v2.module';
 import { Hostel } from '../hostel/entities/hostel.entity';
 import { AuthModule } from '../auth/auth.module';
 import { HostelModule } from '../hostel/hostel.module';
+import { DocumentsModule } from '../documents/documents.module';
+import { MessagingModule } from '../messaging/messaging.module';
+import { LateFeesModule } from '../late-fees/late-fees.module';
 
 @Module({
   imports: [
@@ -21,6 +24,9 @@ import { HostelModule } from '../hostel/hostel.module';
     LedgerV2Module,
     AuthModule,
     HostelModule,
+    DocumentsModule,
+    MessagingModule,
+    LateFeesModule,
   ],
   controllers: [InvoicesController],
   providers: [InvoicesService],
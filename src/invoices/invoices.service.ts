@@ -1,13 +1,22 @@
-import { Injectable, NotFoundException, BadRequestException } from '@nestjs/common';
+import { Injectable, NotFoundException, BadRequestException, OnModuleInit } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository, In } from 'typeorm';
 import { Invoice, InvoiceStatus } from './entities/invoice.entity';
 import { InvoiceItem } from './entities/invoice-item.entity';
 import { Student, StudentStatus } from '../students/entities/student.entity';
 import { LedgerV2Service } from '../ledger-v2/services/ledger-v2.service';
+import { DocumentNumberingService } from '../documents/services/document-numbering.service';
+import { DocumentRendererService, DocumentFormat, DOCUMENT_CONTENT_TYPES } from '../documents/services/document-renderer.service';
+import { DocumentType } from '../documents/entities/document-sequence.entity';
+import { MessagingService } from '../messaging/services/messaging.service';
+import { LateFeesService } from '../late-fees/services/late-fees.service';
+import { MessageChannel, MessageDeliveryStatus } from '../messaging/entities/message-delivery.entity';
+import { INVOICE_MESSAGE_TEMPLATES, formatMessageTemplate } from '../messaging/templates/invoice-message.templates';
+import { SendInvoiceDto } from './dto';
+import { toDualDate } from '../common/utils/bikram-sambat.util';
 
 @Injectable()
-export class InvoicesService {
+export class InvoicesService implements OnModuleInit {
   constructor(
     @InjectRepository(Invoice)
     private invoiceRepository: Repository<Invoice>,
@@ -16,8 +25,17 @@ export class InvoicesService {
     @InjectRepository(Student)
     private studentRepository: Repository<Student>,
     private ledgerService: LedgerV2Service,
+    private documentNumberingService: DocumentNumberingService,
+    private documentRendererService: DocumentRendererService,
+    private messagingService: MessagingService,
+    private lateFeesService: LateFeesService,
   ) { }
 
+  onModuleInit() {
+    // Covers both the first attempt and background retries of a sendInvoice message
+    this.messagingService.onSent('invoice', delivery => this.markInvoiceSent(delivery.referenceId));
+  }
+
   async findAll(filters: any = {}, hostelId: string) {
     // Validate hostelId is present
     if (!hostelId) {
@@ -135,7 +153,7 @@ export class InvoicesService {
       discountTotal: createInvoiceDto.discountTotal || 0,
       paymentTotal: createInvoiceDto.paymentTotal || 0,
       notes: createInvoiceDto.notes,
-      invoiceNumber: createInvoiceDto.invoiceNumber || this.generateInvoiceNumber(),
+      invoiceNumber: createInvoiceDto.invoiceNumber, // sequential number assigned on insert when empty
       generatedBy: createInvoiceDto.generatedBy || 'system',
       
       // NEW: Configuration-based billing fields
@@ -272,14 +290,19 @@ export class InvoicesService {
     // Return EXACT same structure as current JSON
     return {
       id: invoice.id,
+      invoiceNumber: invoice.invoiceNumber,
       studentId: invoice.studentId,
       studentName: invoice.student?.name || '',
       roomNumber: invoice.student?.room?.roomNumber || '',
       month: invoice.month,
+      calendar: invoice.calendar,
+      monthLabel: invoice.periodLabel,
       total: invoice.total,
       status: invoice.status,
       dueDate: invoice.dueDate,
+      dueDateBs: toDualDate(invoice.dueDate)?.bs ?? null,
       createdAt: invoice.createdAt,
+      createdAtBs: toDualDate(invoice.createdAt)?.bs ?? null,
       items: items,
       payments: payments,
       discounts: [], // Will be populated from discount service
@@ -291,6 +314,78 @@ export class InvoicesService {
     };
   }
 
+  /**
+   * Printable invoice (PDF or HTML)
+   */
+  async getInvoiceDocument(id: string, hostelId: string, format: DocumentFormat = DocumentFormat.PDF) {
+    // Validate hostelId is present
+    if (!hostelId) {
+      throw new BadRequestException('Hostel context required');
+    }
+
+    const invoice = await this.findPrintableInvoice(id, hostelId);
+    return this.renderInvoiceDocument(invoice, format);
+  }
+
+  async getInvoiceDeliveries(id: string, hostelId: string) {
+    // Validate hostelId is present
+    if (!hostelId) {
+      throw new BadRequestException('Hostel context required');
+    }
+
+    const invoice = await this.invoiceRepository.findOne({ where: { id, hostelId } });
+    if (!invoice) {
+      throw new NotFoundException('Invoice not found');
+    }
+
+    return this.messagingService.getDeliveriesForReference(hostelId, 'invoice', id);
+  }
+
+  /**
+   * Load an invoice with everything the printable document needs
+   */
+  private async findPrintableInvoice(id: string, hostelId: string): Promise<Invoice> {
+    const invoice = await this.invoiceRepository.findOne({
+      where: { id, hostelId },
+      relations: ['student', 'student.room', 'items', 'hostel']
+    });
+
+    if (!invoice) {
+      throw new NotFoundException('Invoice not found');
+    }
+
+    // Invoices created before sequential numbering get their number on first print
+    if (!invoice.invoiceNumber) {
+      invoice.invoiceNumber = await this.documentNumberingService.assignNumber(
+        Invoice, invoice.id, 'invoiceNumber', hostelId, DocumentType.INVOICE, invoice.createdAt
+      );
+    }
+
+    return invoice;
+  }
+
+  /**
+   * "2025-11-10 (2082-07-24 BS)" for message bodies
+   */
+  private formatDualDate(date: Date | string): string {
+    const dual = toDualDate(date);
+    if (!dual) {
+      return '-';
+    }
+    return dual.bs ? `${dual.ad} (${dual.bs} BS)` : dual.ad;
+  }
+
+  private async renderInvoiceDocument(invoice: Invoice, format: DocumentFormat) {
+    const document = this.documentRendererService.buildInvoiceDocument(invoice);
+    const content = await this.documentRendererService.render(document, format);
+
+    return {
+      content,
+      contentType: DOCUMENT_CONTENT_TYPES[format],
+      fileName: `${invoice.invoiceNumber}.${format}`
+    };
+  }
+
   private async createInvoiceItems(invoiceId: string, items: any[]) {
     const invoiceItems = items.map(item => ({
       // REMOVED: id field - let TypeORM generate UUID automatically
@@ -318,14 +413,6 @@ export class InvoicesService {
     }
   }
 
-  private generateInvoiceNumber(): string {
-    const date = new Date();
-    const year = date.getFullYear();
-    const month = String(date.getMonth() + 1).padStart(2, '0');
-    const timestamp = Date.now().toString().slice(-6);
-    return `INV-${year}${month}-${timestamp}`;
-  }
-
   async findByStudentId(studentId: string, hostelId: string) {
     // Validate hostelId is present
     if (!hostelId) {
@@ -388,6 +475,9 @@ export class InvoicesService {
       status: InvoiceStatus.CANCELLED
     });
 
+    // A voided invoice no longer carries late fees
+    await this.lateFeesService.reverseForInvoice(id);
+
     return {
       success: true,
       message: 'Invoice cancelled successfully',
@@ -408,6 +498,10 @@ export class InvoicesService {
       notes: notes || invoice.notes
     });
 
+    if (status === InvoiceStatus.CANCELLED) {
+      await this.lateFeesService.reverseForInvoice(id);
+    }
+
     return {
       success: true,
       message: 'Invoice status updated successfully',
@@ -416,28 +510,76 @@ export class InvoicesService {
     };
   }
 
-  async sendInvoice(id: string, hostelId: string) {
+  async sendInvoice(id: string, hostelId: string, sendInvoiceDto: SendInvoiceDto, requestedBy?: string) {
     // Validate hostelId is present
     if (!hostelId) {
       throw new BadRequestException('Hostel context required');
     }
 
-    const invoice = await this.findOne(id, hostelId);
+    const invoice = await this.findPrintableInvoice(id, hostelId);
+    const channel = sendInvoiceDto.method as string as MessageChannel;
 
-    // Mark as sent
-    await this.invoiceRepository.update(id, {
-      status: InvoiceStatus.SENT
+    const recipient = channel === MessageChannel.EMAIL ? invoice.student?.email : invoice.student?.phone;
+    if (!recipient) {
+      throw new BadRequestException(
+        `Student has no ${channel === MessageChannel.EMAIL ? 'email address' : 'phone number'} on file`
+      );
+    }
+
+    const total = Number(invoice.total || 0);
+    const formatAmount = (amount: number) =>
+      `NPR ${amount.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+    const customMessage = sendInvoiceDto.customMessage
+      ? (channel === MessageChannel.SMS ? ` ${sendInvoiceDto.customMessage}` : `\n${sendInvoiceDto.customMessage}\n`)
+      : '';
+
+    const message = formatMessageTemplate(INVOICE_MESSAGE_TEMPLATES[channel], {
+      studentName: invoice.student?.name || 'Student',
+      hostelName: invoice.hostel?.name || 'Hostel',
+      invoiceNumber: invoice.invoiceNumber,
+      period: invoice.periodLabel || invoice.month,
+      amount: formatAmount(total),
+      balanceDue: formatAmount(total - Number(invoice.paymentTotal || 0)),
+      dueDate: this.formatDualDate(invoice.dueDate),
+      customMessage
+    });
+
+    // SMS cannot carry attachments; email and WhatsApp get the PDF
+    const attachments = [];
+    if (channel !== MessageChannel.SMS) {
+      const document = await this.renderInvoiceDocument(invoice, DocumentFormat.PDF);
+      attachments.push({ fileName: document.fileName, contentType: document.contentType, content: document.content });
+    }
+
+    const delivery = await this.messagingService.send({
+      hostelId,
+      channel,
+      recipient,
+      subject: message.subject,
+      body: message.body,
+      attachments,
+      referenceType: 'invoice',
+      referenceId: id,
+      requestedBy
     });
 
     return {
-      success: true,
-      method: 'email',
-      sentTo: invoice.student?.email || invoice.student?.phone,
-      sentAt: new Date(),
-      invoiceId: id
+      success: delivery.status === MessageDeliveryStatus.SENT,
+      method: sendInvoiceDto.method,
+      sentTo: recipient,
+      sentAt: delivery.sentAt,
+      invoiceId: id,
+      delivery: this.messagingService.transformDeliveryToApiResponse(delivery)
     };
   }
 
+  // Only unpaid invoices move to SENT; paid or overdue invoices keep their status
+  private async markInvoiceSent(id: string) {
+    await this.invoiceRepository.update({ id, status: InvoiceStatus.UNPAID }, {
+      status: InvoiceStatus.SENT
+    });
+  }
+
   async getOverdueInvoices(hostelId: string) {
     // Validate hostelId is present
     if (!hostelId) {
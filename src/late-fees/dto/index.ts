@@ -0,0 +1,2 @@
+export { LateFeeFilterDto } from './late-fee-filter.dto';
+export { WaiveLateFeeDto } from './waive-late-fee.dto';
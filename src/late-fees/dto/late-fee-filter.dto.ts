@@ -0,0 +1,21 @@
+import { IsEnum, IsOptional, IsUUID } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { PaginationDto } from '../../common/dto/pagination.dto';
+import { LateFeeStatus } from '../entities/invoice-late-fee.entity';
+
+export class LateFeeFilterDto extends PaginationDto {
+  @ApiPropertyOptional({ description: 'Filter by status', enum: LateFeeStatus })
+  @IsOptional()
+  @IsEnum(LateFeeStatus)
+  status?: LateFeeStatus;
+
+  @ApiPropertyOptional({ description: 'Filter by student' })
+  @IsOptional()
+  @IsUUID()
+  studentId?: string;
+
+  @ApiPropertyOptional({ description: 'Filter by invoice' })
+  @IsOptional()
+  @IsUUID()
+  invoiceId?: string;
+}
@@ -0,0 +1,10 @@
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class WaiveLateFeeDto {
+  @ApiProperty({ description: 'Why the fee is forgiven', example: 'Bank transfer was sent before the due date' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(1000)
+  reason: string;
+}
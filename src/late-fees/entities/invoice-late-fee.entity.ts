@@ -0,0 +1,85 @@
+import { Entity, Column, ManyToOne, JoinColumn, Index } from 'typeorm';
+import { BaseEntity } from '../../common/entities/base.entity';
+import { Hostel } from '../../hostel/entities/hostel.entity';
+import { Student } from '../../students/entities/student.entity';
+import { Invoice } from '../../invoices/entities/invoice.entity';
+import { AdminCharge } from '../../admin-charges/entities/admin-charge.entity';
+
+export enum LateFeeStatus {
+  APPLIED = 'applied',    // Admin charge and ledger debit are in place
+  WAIVED = 'waived',      // Forgiven by staff; the ledger debit is reversed
+  REVERSED = 'reversed'   // The invoice was voided, so the fee no longer stands
+}
+
+/**
+ * One late fee accrual on an overdue invoice. The fee itself is an
+ * AdminCharge (category `late_fee`) with its LedgerV2 debit; this row ties it
+ * to the invoice and the day it accrued for, so a re-run of the job cannot
+ * charge the same day twice. Daily fees get one row per run, covering every
+ * day since the previous one.
+ */
+@Entity('invoice_late_fees')
+@Index(['invoiceId', 'accrualDate'], { unique: true })
+@Index(['hostelId', 'status'])
+@Index(['studentId'])
+export class InvoiceLateFee extends BaseEntity {
+  @Column({ name: 'hostel_id' })
+  hostelId: string;
+
+  @Column({ name: 'invoice_id' })
+  invoiceId: string;
+
+  @Column({ name: 'student_id' })
+  studentId: string;
+
+  // Hostel-local day the fee accrued up to
+  @Column({ name: 'accrual_date', type: 'date' })
+  accrualDate: string;
+
+  // Overdue days this accrual covers (always 1 for one-off fees)
+  @Column({ type: 'int', default: 1 })
+  days: number;
+
+  @Column({ type: 'decimal', precision: 10, scale: 2 })
+  amount: number;
+
+  @Column({
+    type: 'enum',
+    enum: LateFeeStatus,
+    default: LateFeeStatus.APPLIED
+  })
+  status: LateFeeStatus;
+
+  @Column({ name: 'admin_charge_id', nullable: true })
+  adminChargeId: string;
+
+  @Column({ name: 'ledger_entry_id', nullable: true })
+  ledgerEntryId: string;
+
+  // Waiver or reversal
+  @Column({ name: 'resolved_by', nullable: true })
+  resolvedBy: string;
+
+  @Column({ name: 'resolved_at', type: 'timestamp', nullable: true })
+  resolvedAt: Date;
+
+  @Column({ name: 'resolution_reason', type: 'text', nullable: true })
+  resolutionReason: string;
+
+  // Relations
+  @ManyToOne(() => Hostel, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'hostel_id' })
+  hostel: Hostel;
+
+  @ManyToOne(() => Invoice, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'invoice_id' })
+  invoice: Invoice;
+
+  @ManyToOne(() => Student, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'student_id' })
+  student: Student;
+
+  @ManyToOne(() => AdminCharge, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'admin_charge_id' })
+  adminCharge: AdminCharge;
+}
@@ -0,0 +1,81 @@
+import { Controller, Get, Post, Body, Param, Query, HttpStatus, UseGuards } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
+import { LateFeesService } from './services/late-fees.service';
+import { LateFeeFilterDto, WaiveLateFeeDto } from './dto';
+import { InvoiceLateFee } from './entities/invoice-late-fee.entity';
+import { GetHostelId } from '../hostel/decorators/hostel-context.decorator';
+import { HostelAuthWithContextGuard } from '../auth/guards/hostel-auth-with-context.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { JwtPayload } from '../auth/interfaces/jwt-payload.interface';
+import { RolesGuard } from '../staff-roles/guards/roles.guard';
+import { Permissions } from '../staff-roles/decorators/permissions.decorator';
+import { Permission } from '../staff-roles/permissions';
+import { Audited } from '../audit/decorators/audited.decorator';
+
+@ApiTags('late-fees')
+@Controller('late-fees')
+@UseGuards(HostelAuthWithContextGuard, RolesGuard)
+@Audited({ entity: InvoiceLateFee })
+@ApiBearerAuth()
+export class LateFeesController {
+  constructor(private readonly lateFeesService: LateFeesService) { }
+
+  @Get()
+  @ApiOperation({ summary: 'Get late fees charged on overdue invoices' })
+  @ApiResponse({ status: 200, description: 'Late fees retrieved successfully' })
+  async getLateFees(@GetHostelId() hostelId: string, @Query() filters: LateFeeFilterDto) {
+    const fees = await this.lateFeesService.findAll(hostelId, filters);
+
+    return {
+      status: HttpStatus.OK,
+      data: fees
+    };
+  }
+
+  @Post('apply')
+  @Permissions(Permission.LATE_FEE_MANAGE)
+  @ApiOperation({
+    summary: 'Apply late fees now',
+    description: 'Runs the same accrual as the daily scheduled job; days already charged are skipped'
+  })
+  @ApiResponse({ status: 201, description: 'Summary of the fees applied' })
+  async applyLateFees(@GetHostelId() hostelId: string) {
+    const summary = await this.lateFeesService.applyLateFees(hostelId);
+
+    return {
+      status: HttpStatus.CREATED,
+      data: summary
+    };
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get late fee by ID' })
+  @ApiResponse({ status: 200, description: 'Late fee retrieved successfully' })
+  async getLateFee(@GetHostelId() hostelId: string, @Param('id') id: string) {
+    const fee = await this.lateFeesService.findOne(id, hostelId);
+
+    return {
+      status: HttpStatus.OK,
+      data: fee
+    };
+  }
+
+  @Post(':id/waive')
+  @Permissions(Permission.LATE_FEE_MANAGE)
+  @ApiOperation({ summary: 'Waive a late fee; its ledger debit is reversed and the invoice accrues no more fees' })
+  @ApiResponse({ status: 200, description: 'Late fee waived' })
+  @ApiResponse({ status: 400, description: 'Late fee already waived or reversed' })
+  async waiveLateFee(
+    @GetHostelId() hostelId: string,
+    @Param('id') id: string,
+    @Body() waiveDto: WaiveLateFeeDto,
+    @CurrentUser() user: JwtPayload
+  ) {
+    const fee = await this.lateFeesService.waive(id, hostelId, waiveDto.reason, user?.id);
+
+    return {
+      status: HttpStatus.OK,
+      data: fee
+    };
+  }
+}
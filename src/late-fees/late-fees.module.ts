@@ -0,0 +1,27 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { LateFeesController } from './late-fees.controller';
+import { LateFeesService } from './services/late-fees.service';
+import { InvoiceLateFee } from './entities/invoice-late-fee.entity';
+import { Invoice } from '../invoices/entities/invoice.entity';
+import { AdminCharge } from '../admin-charges/entities/admin-charge.entity';
+import { AuthModule } from '../auth/auth.module';
+import { HostelModule } from '../hostel/hostel.module';
+import { StaffRolesModule } from '../staff-roles/staff-roles.module';
+import { LedgerV2Module } from '../ledger-v2/ledger-v2.module';
+import { NotificationModule } from '../notification/notification.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([InvoiceLateFee, Invoice, AdminCharge]),
+    AuthModule,
+    HostelModule,
+    StaffRolesModule,
+    LedgerV2Module,
+    NotificationModule,
+  ],
+  controllers: [LateFeesController],
+  providers: [LateFeesService],
+  exports: [LateFeesService],
+})
+export class LateFeesModule {}
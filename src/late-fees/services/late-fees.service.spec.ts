@@ -0,0 +1,237 @@
+import { BadRequestException } from '@nestjs/common';
+import { LateFeesService, LATE_FEE_CATEGORY } from './late-fees.service';
+import { LateFeeStatus } from '../entities/invoice-late-fee.entity';
+import { InvoiceStatus } from '../../invoices/entities/invoice.entity';
+import { AdminCharge, AdminChargeStatus, AdminChargeType } from '../../admin-charges/entities/admin-charge.entity';
+import { DEFAULT_HOSTEL_SETTINGS, LateFeeFrequency, LateFeeType } from '../../hostel/entities/hostel-settings.entity';
+
+describe('LateFeesService', () => {
+  let service: LateFeesService;
+  let fees: any[];
+  let invoices: any[];
+  let lateFee: any;
+
+  // 06:00 UTC is 11:45 on 10 October in Kathmandu
+  const now = new Date('2026-10-10T06:00:00Z');
+
+  const invoice = (overrides: any = {}) => ({
+    id: 'invoice-1',
+    hostelId: 'hostel-1',
+    studentId: 'student-1',
+    student: { id: 'student-1', userId: 'user-1' },
+    invoiceNumber: 'INV-001',
+    month: '2026-09',
+    status: InvoiceStatus.OVERDUE,
+    dueDate: '2026-10-01',
+    total: 5000,
+    paymentTotal: 0,
+    ...overrides
+  });
+
+  const feeQuery = {
+    insert: jest.fn().mockReturnThis(),
+    into: jest.fn().mockReturnThis(),
+    values: jest.fn(function (values) {
+      this.pending = values;
+      return this;
+    }),
+    orIgnore: jest.fn().mockReturnThis(),
+    returning: jest.fn().mockReturnThis(),
+    execute: jest.fn(async function () {
+      const fee = { id: `fee-${fees.length + 1}`, ...this.pending };
+      fees.push(fee);
+      return { raw: [{ id: fee.id }] };
+    }),
+    innerJoin: jest.fn().mockReturnThis(),
+    select: jest.fn().mockReturnThis(),
+    where: jest.fn().mockReturnThis(),
+    andWhere: jest.fn().mockReturnThis(),
+    getRawMany: jest.fn().mockResolvedValue([]),
+  };
+
+  const invoiceQuery = {
+    leftJoinAndSelect: jest.fn().mockReturnThis(),
+    where: jest.fn().mockReturnThis(),
+    andWhere: jest.fn().mockReturnThis(),
+    getMany: jest.fn(async () => invoices),
+  };
+
+  const mockLateFeeRepository = {
+    createQueryBuilder: jest.fn(() => feeQuery),
+    find: jest.fn(async ({ where }) => fees.filter(fee =>
+      (where.invoiceId?._value ? where.invoiceId._value.includes(fee.invoiceId) : fee.invoiceId === where.invoiceId) &&
+      (!where.status || fee.status === where.status)
+    )),
+    findOne: jest.fn(async ({ where }) => fees.find(fee => fee.id === where.id && fee.hostelId === where.hostelId) || null),
+    update: jest.fn(async (criteria, changes) => {
+      const fee = fees.find(candidate => candidate.id === (criteria.id ?? criteria) && (!criteria.status || candidate.status === criteria.status));
+      if (!fee) {
+        return { affected: 0 };
+      }
+      Object.assign(fee, changes);
+      return { affected: 1 };
+    }),
+  };
+
+  const mockInvoiceRepository = {
+    createQueryBuilder: jest.fn(() => invoiceQuery),
+  };
+
+  const mockAdminChargeRepository = {
+    create: jest.fn(data => ({ ...data })),
+    save: jest.fn(async charge => ({ id: 'charge-1', ...charge })),
+    update: jest.fn().mockResolvedValue({ affected: 1 }),
+  };
+
+  const mockHostelSettingsService = {
+    getSettings: jest.fn(async () => ({
+      ...DEFAULT_HOSTEL_SETTINGS,
+      billing: { ...DEFAULT_HOSTEL_SETTINGS.billing, lateFee }
+    })),
+  };
+
+  const mockLedgerService = {
+    createAdminChargeEntry: jest.fn().mockResolvedValue({ id: 'entry-1' }),
+    reverseEntry: jest.fn().mockResolvedValue({}),
+  };
+
+  const mockNotificationService = {
+    sendTemplateToUser: jest.fn().mockResolvedValue(undefined),
+  };
+
+  const mockManager = {
+    createQueryBuilder: jest.fn(() => feeQuery),
+    save: jest.fn(charge => mockAdminChargeRepository.save(charge)),
+    update: jest.fn((entity, criteria, changes) => entity === AdminCharge
+      ? mockAdminChargeRepository.update(criteria, changes)
+      : mockLateFeeRepository.update(criteria, changes)),
+  };
+
+  // Rolls the fees back when the work fails
+  const mockDataSource = {
+    transaction: jest.fn(async work => {
+      const committed = fees.map(fee => ({ ...fee }));
+      try {
+        return await work(mockManager);
+      } catch (error) {
+        fees = committed;
+        throw error;
+      }
+    }),
+  };
+
+  beforeEach(() => {
+    service = new LateFeesService(
+      mockLateFeeRepository as any,
+      mockInvoiceRepository as any,
+      mockAdminChargeRepository as any,
+      mockHostelSettingsService as any,
+      mockLedgerService as any,
+      mockNotificationService as any,
+      mockDataSource as any
+    );
+
+    fees = [];
+    invoices = [];
+    lateFee = {
+      enabled: true,
+      type: LateFeeType.FLAT,
+      amount: 250,
+      graceDays: 3,
+      frequency: LateFeeFrequency.ONCE,
+      maxAmount: null
+    };
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should accrue daily fees for every day since the last run up to the cap', async () => {
+    lateFee = { ...lateFee, type: LateFeeType.PERCENTAGE, amount: 2, frequency: LateFeeFrequency.DAILY, maxAmount: 700 };
+    invoices = [invoice()];
+
+    // Fees start on the 5th (due the 1st + 3 grace days): 6 days at 2% of 5000
+    const first = await service.applyLateFees('hostel-1', now);
+
+    expect(first).toMatchObject({ applied: 1, totalAmount: 600, failed: 0 });
+    expect(fees[0]).toMatchObject({
+      accrualDate: '2026-10-10',
+      days: 6,
+      amount: 600,
+      adminChargeId: 'charge-1',
+      ledgerEntryId: 'entry-1'
+    });
+    expect(mockAdminChargeRepository.create).toHaveBeenCalledWith(expect.objectContaining({
+      chargeType: AdminChargeType.DAILY,
+      category: LATE_FEE_CATEGORY,
+      status: AdminChargeStatus.PENDING
+    }));
+    expect(mockAdminChargeRepository.update).toHaveBeenCalledWith('charge-1', expect.objectContaining({ status: AdminChargeStatus.APPLIED }));
+    expect(mockNotificationService.sendTemplateToUser).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: 'user-1', variables: expect.objectContaining({ amount: (600).toLocaleString() }) }),
+      undefined,
+      undefined,
+      mockManager
+    );
+
+    // Same day again: nothing new
+    const rerun = await service.applyLateFees('hostel-1', now);
+    expect(rerun).toMatchObject({ applied: 0, skipped: 1 });
+
+    // Two days later only the 100 left under the cap is charged
+    const later = await service.applyLateFees('hostel-1', new Date('2026-10-12T06:00:00Z'));
+    expect(later).toMatchObject({ applied: 1, totalAmount: 100 });
+    expect(fees[1]).toMatchObject({ accrualDate: '2026-10-12', days: 2, amount: 100 });
+  });
+
+  it('should charge one-off fees once, stop after a waiver and release the day when the ledger fails', async () => {
+    invoices = [
+      invoice(),
+      invoice({ id: 'invoice-2' }),
+      invoice({ id: 'invoice-3' })
+    ];
+    fees = [
+      { id: 'fee-a', hostelId: 'hostel-1', invoiceId: 'invoice-2', accrualDate: '2026-10-05', amount: 250, status: LateFeeStatus.APPLIED },
+      { id: 'fee-b', hostelId: 'hostel-1', invoiceId: 'invoice-3', accrualDate: '2026-10-05', amount: 250, status: LateFeeStatus.WAIVED }
+    ];
+
+    const summary = await service.applyLateFees('hostel-1', now);
+
+    expect(summary).toMatchObject({ candidates: 3, applied: 1, skipped: 2, totalAmount: 250 });
+    expect(fees[2]).toMatchObject({ invoiceId: 'invoice-1', accrualDate: '2026-10-05', days: 1, amount: 250 });
+
+    mockLedgerService.createAdminChargeEntry.mockRejectedValueOnce(new Error('ledger down'));
+    invoices = [invoice({ id: 'invoice-4' })];
+
+    const failed = await service.applyLateFees('hostel-1', now);
+
+    expect(failed).toMatchObject({ applied: 0, failed: 1 });
+    expect(mockNotificationService.sendTemplateToUser).toHaveBeenCalledTimes(1);
+    expect(fees.some(fee => fee.invoiceId === 'invoice-4')).toBe(false);
+
+    lateFee = { ...lateFee, enabled: false };
+    await service.applyLateFees('hostel-1', now);
+    expect(mockInvoiceRepository.createQueryBuilder).toHaveBeenCalledTimes(2);
+  });
+
+  it('should reverse the ledger entry when a fee is waived or its invoice is voided', async () => {
+    fees = [
+      { id: 'fee-1', hostelId: 'hostel-1', invoiceId: 'invoice-1', status: LateFeeStatus.APPLIED, adminChargeId: 'charge-1', ledgerEntryId: 'entry-1', amount: 250 },
+      { id: 'fee-2', hostelId: 'hostel-1', invoiceId: 'invoice-2', status: LateFeeStatus.APPLIED, adminChargeId: 'charge-2', ledgerEntryId: 'entry-2', amount: 250 }
+    ];
+
+    const waived = await service.waive('fee-1', 'hostel-1', 'Paid at the bank on time', 'admin-1');
+
+    expect(waived).toMatchObject({ status: LateFeeStatus.WAIVED, resolvedBy: 'admin-1', resolutionReason: 'Paid at the bank on time' });
+    expect(mockLedgerService.reverseEntry).toHaveBeenCalledWith('entry-1', 'admin-1', 'Late fee waived: Paid at the bank on time');
+    expect(mockAdminChargeRepository.update).toHaveBeenCalledWith('charge-1', expect.objectContaining({ status: AdminChargeStatus.CANCELLED }));
+    await expect(service.waive('fee-1', 'hostel-1', 'again')).rejects.toThrow(BadRequestException);
+
+    const reversed = await service.reverseForInvoice('invoice-2');
+
+    expect(reversed).toBe(1);
+    expect(fees[1].status).toBe(LateFeeStatus.REVERSED);
+    expect(mockLedgerService.reverseEntry).toHaveBeenCalledWith('entry-2', 'system', 'Late fee reversed: Invoice voided');
+  });
+});
@@ -0,0 +1,463 @@
+import { Injectable, Logger, BadRequestException, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { DataSource, EntityManager, In, Repository } from 'typeorm';
+import { InvoiceLateFee, LateFeeStatus } from '../entities/invoice-late-fee.entity';
+import { Invoice, InvoiceStatus } from '../../invoices/entities/invoice.entity';
+import { AdminCharge, AdminChargeStatus, AdminChargeType } from '../../admin-charges/entities/admin-charge.entity';
+import { LateFeeFrequency, LateFeeType, HostelSettingsValues } from '../../hostel/entities/hostel-settings.entity';
+import { HostelSettingsService } from '../../hostel/services/hostel-settings.service';
+import { LedgerV2Service } from '../../ledger-v2/services/ledger-v2.service';
+import { UnifiedNotificationService } from '../../notification/unified-notification.service';
+import { NotificationTemplateKey } from '../../notification/templates/default-notification-templates';
+import { LateFeeFilterDto } from '../dto';
+
+export const LATE_FEE_CATEGORY = 'late_fee';
+
+// Invoices that still have money owing on them
+const CHARGEABLE_STATUSES = [InvoiceStatus.UNPAID, InvoiceStatus.SENT, InvoiceStatus.OVERDUE, InvoiceStatus.PARTIALLY_PAID];
+
+type LateFeePolicy = HostelSettingsValues['billing']['lateFee'];
+
+/**
+ * Late Fees Service
+ * Charges the hostel's late fee policy (settings `billing.lateFee`) on
+ * invoices still unpaid `graceDays` after their due date. Each fee is an
+ * AdminCharge with a LedgerV2 debit, tracked per invoice in
+ * invoice_late_fees. Waiving a fee reverses its debit and stops further
+ * accrual on that invoice; voiding the invoice reverses all of its fees.
+ */
+@Injectable()
+export class LateFeesService {
+  private readonly logger = new Logger(LateFeesService.name);
+
+  constructor(
+    @InjectRepository(InvoiceLateFee)
+    private lateFeeRepository: Repository<InvoiceLateFee>,
+    @InjectRepository(Invoice)
+    private invoiceRepository: Repository<Invoice>,
+    @InjectRepository(AdminCharge)
+    private adminChargeRepository: Repository<AdminCharge>,
+    private hostelSettingsService: HostelSettingsService,
+    private ledgerService: LedgerV2Service,
+    private unifiedNotificationService: UnifiedNotificationService,
+    private dataSource: DataSource,
+  ) {}
+
+  /**
+   * Accrue late fees for the hostel up to today (hostel time). Safe to re-run:
+   * a day that already has a fee on an invoice is not charged again.
+   */
+  async applyLateFees(hostelId: string, now: Date = new Date()) {
+    if (!hostelId) {
+      throw new BadRequestException('Hostel context required');
+    }
+
+    const settings = await this.hostelSettingsService.getSettings(hostelId);
+    const policy = settings.billing.lateFee;
+    const summary = {
+      enabled: policy.enabled,
+      candidates: 0,
+      applied: 0,
+      skipped: 0,
+      failed: 0,
+      totalAmount: 0,
+      reversed: await this.reverseForVoidedInvoices(hostelId),
+      errors: [] as string[]
+    };
+
+    if (!policy.enabled) {
+      return summary;
+    }
+
+    const today = toLocalDate(now, settings.general.timezone);
+    const invoices = await this.invoiceRepository.createQueryBuilder('invoice')
+      .leftJoinAndSelect('invoice.student', 'student')
+      .where('invoice.hostelId = :hostelId', { hostelId })
+      .andWhere('invoice.status IN (:...statuses)', { statuses: CHARGEABLE_STATUSES })
+      .andWhere('invoice.dueDate <= :lastDueDate', { lastDueDate: addDays(today, -(policy.graceDays + 1)) })
+      .andWhere('invoice.total > invoice.paymentTotal')
+      .getMany();
+    summary.candidates = invoices.length;
+
+    if (invoices.length === 0) {
+      return summary;
+    }
+
+    const existingFees = await this.lateFeeRepository.find({
+      where: { invoiceId: In(invoices.map(invoice => invoice.id)) }
+    });
+    const feesByInvoice = new Map<string, InvoiceLateFee[]>();
+    for (const fee of existingFees) {
+      feesByInvoice.set(fee.invoiceId, [...(feesByInvoice.get(fee.invoiceId) || []), fee]);
+    }
+
+    for (const invoice of invoices) {
+      const accrual = calculateAccrual(invoice, feesByInvoice.get(invoice.id) || [], policy, today);
+      if (!accrual) {
+        summary.skipped++;
+        continue;
+      }
+
+      try {
+        const applied = await this.applyFee(invoice, accrual, policy, settings.general.currency);
+        if (applied) {
+          summary.applied++;
+          summary.totalAmount = roundAmount(summary.totalAmount + accrual.amount);
+        } else {
+          summary.skipped++;
+        }
+      } catch (error) {
+        summary.failed++;
+        summary.errors.push(`Invoice ${invoice.id}: ${error.message}`);
+        this.logger.error(`❌ Failed to apply late fee on invoice ${invoice.id}: ${error.message}`);
+      }
+    }
+
+    this.logger.log(`💸 Applied ${summary.applied} late fees (${settings.general.currency} ${summary.totalAmount}) for hostel ${hostelId}`);
+
+    return summary;
+  }
+
+  async findAll(hostelId: string, filters: LateFeeFilterDto) {
+    if (!hostelId) {
+      throw new BadRequestException('Hostel context required');
+    }
+
+    const { page = 1, limit = 10, status, studentId, invoiceId } = filters;
+
+    const queryBuilder = this.lateFeeRepository.createQueryBuilder('fee')
+      .leftJoinAndSelect('fee.student', 'student')
+      .leftJoinAndSelect('fee.invoice', 'invoice')
+      .where('fee.hostelId = :hostelId', { hostelId });
+
+    if (status) {
+      queryBuilder.andWhere('fee.status = :status', { status });
+    }
+    if (studentId) {
+      queryBuilder.andWhere('fee.studentId = :studentId', { studentId });
+    }
+    if (invoiceId) {
+      queryBuilder.andWhere('fee.invoiceId = :invoiceId', { invoiceId });
+    }
+
+    const [fees, total] = await queryBuilder
+      .orderBy('fee.accrualDate', 'DESC')
+      .addOrderBy('fee.createdAt', 'DESC')
+      .skip((page - 1) * limit)
+      .take(limit)
+      .getManyAndCount();
+
+    return {
+      items: fees.map(fee => this.transformToApiResponse(fee)),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit)
+      }
+    };
+  }
+
+  async findOne(id: string, hostelId: string) {
+    const fee = await this.getFee(id, hostelId);
+    return this.transformToApiResponse(fee);
+  }
+
+  /**
+   * Forgive a late fee. The ledger debit is reversed, the admin charge is
+   * cancelled and no further fees accrue on the invoice.
+   */
+  async waive(id: string, hostelId: string, reason: string, waivedBy?: string) {
+    const fee = await this.getFee(id, hostelId);
+
+    if (fee.status !== LateFeeStatus.APPLIED) {
+      throw new BadRequestException(`Late fee is already ${fee.status}`);
+    }
+
+    const resolved = await this.resolveFee(fee, LateFeeStatus.WAIVED, reason, waivedBy || 'admin');
+    if (!resolved) {
+      throw new BadRequestException('Late fee was changed by someone else; reload it and try again');
+    }
+
+    this.logger.log(`🧾 Late fee ${id} on invoice ${fee.invoiceId} waived: ${reason}`);
+
+    return this.findOne(id, hostelId);
+  }
+
+  /**
+   * Reverse every applied late fee on an invoice that has been voided.
+   * Failures are logged and picked up again by the next late fee run.
+   */
+  async reverseForInvoice(invoiceId: string, reason: string = 'Invoice voided', reversedBy: string = 'system'): Promise<number> {
+    const fees = await this.lateFeeRepository.find({
+      where: { invoiceId, status: LateFeeStatus.APPLIED }
+    });
+
+    let reversed = 0;
+    for (const fee of fees) {
+      try {
+        if (await this.resolveFee(fee, LateFeeStatus.REVERSED, reason, reversedBy)) {
+          reversed++;
+        }
+      } catch (error) {
+        this.logger.warn(`⚠️ Failed to reverse late fee ${fee.id} on invoice ${invoiceId}: ${error.message}`);
+      }
+    }
+
+    if (reversed > 0) {
+      this.logger.log(`↩️ Reversed ${reversed} late fees on voided invoice ${invoiceId}`);
+    }
+
+    return reversed;
+  }
+
+  private async reverseForVoidedInvoices(hostelId: string): Promise<number> {
+    const rows = await this.lateFeeRepository.createQueryBuilder('fee')
+      .innerJoin('fee.invoice', 'invoice')
+      .select('DISTINCT fee.invoiceId', 'invoiceId')
+      .where('fee.hostelId = :hostelId', { hostelId })
+      .andWhere('fee.status = :status', { status: LateFeeStatus.APPLIED })
+      .andWhere('invoice.status = :cancelled', { cancelled: InvoiceStatus.CANCELLED })
+      .getRawMany();
+
+    let reversed = 0;
+    for (const row of rows) {
+      reversed += await this.reverseForInvoice(row.invoiceId);
+    }
+
+    return reversed;
+  }
+
+  /**
+   * Claim the accrual day so a concurrent run cannot charge it too, then
+   * create the admin charge, its ledger debit and the student's notification.
+   * All of it commits together, so a failure leaves nothing behind and the
+   * next run tries the day again. Returns false when the day was already
+   * claimed.
+   */
+  private async applyFee(invoice: Invoice, accrual: LateFeeAccrual, policy: LateFeePolicy, currency: string): Promise<boolean> {
+    return this.dataSource.transaction(async manager => {
+      const claim = await manager.createQueryBuilder()
+        .insert()
+        .into(InvoiceLateFee)
+        .values({
+          hostelId: invoice.hostelId,
+          invoiceId: invoice.id,
+          studentId: invoice.studentId,
+          accrualDate: accrual.accrualDate,
+          days: accrual.days,
+          amount: accrual.amount,
+          status: LateFeeStatus.APPLIED
+        })
+        .orIgnore()
+        .returning('id')
+        .execute();
+      if (!claim.raw?.length) {
+        return false;
+      }
+
+      const feeId = claim.raw[0].id;
+      const invoiceLabel = invoice.invoiceNumber || invoice.month;
+
+      const charge = await manager.save(this.adminChargeRepository.create({
+        studentId: invoice.studentId,
+        hostelId: invoice.hostelId,
+        title: `Late fee - Invoice ${invoiceLabel}`,
+        description: policy.frequency === LateFeeFrequency.DAILY
+          ? `${accrual.days} day(s) overdue up to ${accrual.accrualDate}`
+          : `Invoice due ${toDateString(invoice.dueDate)} not paid`,
+        amount: accrual.amount,
+        chargeType: policy.frequency === LateFeeFrequency.DAILY ? AdminChargeType.DAILY : AdminChargeType.ONE_TIME,
+        status: AdminChargeStatus.PENDING,
+        category: LATE_FEE_CATEGORY,
+        createdBy: 'system'
+      }));
+
+      const entry = await this.ledgerService.createAdminChargeEntry(charge, manager);
+
+      await manager.update(AdminCharge, charge.id, {
+        status: AdminChargeStatus.APPLIED,
+        appliedDate: new Date()
+      });
+      await manager.update(InvoiceLateFee, feeId, {
+        adminChargeId: charge.id,
+        ledgerEntryId: entry.id
+      });
+      await this.notifyStudent(invoice, accrual, feeId, charge.id, invoiceLabel, currency, manager);
+
+      return true;
+    });
+  }
+
+  private async notifyStudent(
+    invoice: Invoice,
+    accrual: LateFeeAccrual,
+    feeId: string,
+    chargeId: string,
+    invoiceLabel: string,
+    currency: string,
+    manager: EntityManager
+  ) {
+    if (!invoice.student?.userId) {
+      return;
+    }
+
+    await this.unifiedNotificationService.sendTemplateToUser({
+      userId: invoice.student.userId,
+      hostelId: invoice.hostelId,
+      template: NotificationTemplateKey.LATE_FEE_APPLIED,
+      variables: {
+        currency,
+        amount: accrual.amount.toLocaleString(),
+        invoice: invoiceLabel
+      },
+      metadata: {
+        lateFeeId: feeId,
+        chargeId,
+        invoiceId: invoice.id,
+        amount: accrual.amount,
+        accrualDate: accrual.accrualDate
+      }
+    }, undefined, undefined, manager);
+  }
+
+  /**
+   * Move an applied fee to WAIVED or REVERSED and undo its debit. Returns
+   * false when the fee was no longer applied (resolved concurrently).
+   */
+  private async resolveFee(fee: InvoiceLateFee, status: LateFeeStatus, reason: string, resolvedBy: string): Promise<boolean> {
+    const result = await this.lateFeeRepository.update(
+      { id: fee.id, status: LateFeeStatus.APPLIED },
+      { status, resolvedBy, resolvedAt: new Date(), resolutionReason: reason }
+    );
+    if (!result.affected) {
+      return false;
+    }
+
+    try {
+      if (fee.ledgerEntryId) {
+        await this.ledgerService.reverseEntry(fee.ledgerEntryId, resolvedBy, `Late fee ${status}: ${reason}`);
+      }
+    } catch (error) {
+      await this.lateFeeRepository.update(
+        { id: fee.id, status },
+        { status: LateFeeStatus.APPLIED, resolvedBy: null, resolvedAt: null, resolutionReason: null }
+      );
+      throw error;
+    }
+
+    if (fee.adminChargeId) {
+      await this.adminChargeRepository.update(fee.adminChargeId, {
+        status: AdminChargeStatus.CANCELLED,
+        adminNotes: `Late fee ${status}: ${reason}`
+      });
+    }
+
+    return true;
+  }
+
+  private async getFee(id: string, hostelId: string): Promise<InvoiceLateFee> {
+    if (!hostelId) {
+      throw new BadRequestException('Hostel context required');
+    }
+
+    const fee = await this.lateFeeRepository.findOne({
+      where: { id, hostelId },
+      relations: ['student', 'invoice']
+    });
+    if (!fee) {
+      throw new NotFoundException(`Late fee with ID ${id} not found`);
+    }
+
+    return fee;
+  }
+
+  private transformToApiResponse(fee: InvoiceLateFee) {
+    return {
+      id: fee.id,
+      invoiceId: fee.invoiceId,
+      invoiceNumber: fee.invoice?.invoiceNumber,
+      invoiceMonth: fee.invoice?.month,
+      studentId: fee.studentId,
+      studentName: fee.student?.name,
+      accrualDate: fee.accrualDate,
+      days: fee.days,
+      amount: Number(fee.amount),
+      status: fee.status,
+      adminChargeId: fee.adminChargeId,
+      ledgerEntryId: fee.ledgerEntryId,
+      resolvedBy: fee.resolvedBy,
+      resolvedAt: fee.resolvedAt,
+      resolutionReason: fee.resolutionReason,
+      createdAt: fee.createdAt
+    };
+  }
+}
+
+interface LateFeeAccrual {
+  accrualDate: string;
+  days: number;
+  amount: number;
+}
+
+/**
+ * What to charge on an invoice today, or null when nothing is due: a waived
+ * or reversed fee ends accrual, a one-off fee is charged once and a daily fee
+ * covers the days since its last accrual. The cap limits the applied total.
+ */
+function calculateAccrual(invoice: Invoice, fees: InvoiceLateFee[], policy: LateFeePolicy, today: string): LateFeeAccrual | null {
+  if (fees.some(fee => fee.status !== LateFeeStatus.APPLIED)) {
+    return null;
+  }
+
+  const firstFeeDate = addDays(toDateString(invoice.dueDate), policy.graceDays + 1);
+  let accrualDate = firstFeeDate;
+  let days = 1;
+
+  if (policy.frequency === LateFeeFrequency.DAILY) {
+    const lastAccrual = fees.map(fee => fee.accrualDate).sort().pop();
+    if (lastAccrual && lastAccrual >= today) {
+      return null;
+    }
+    accrualDate = today;
+    days = daysBetween(lastAccrual ? addDays(lastAccrual, 1) : firstFeeDate, today) + 1;
+  } else if (fees.length > 0) {
+    return null;
+  }
+
+  const rate = policy.type === LateFeeType.PERCENTAGE
+    ? (Number(invoice.total) - Number(invoice.paymentTotal)) * policy.amount / 100
+    : policy.amount;
+  let amount = roundAmount(rate * days);
+
+  if (policy.maxAmount !== null) {
+    const accrued = fees.reduce((sum, fee) => sum + Number(fee.amount), 0);
+    amount = roundAmount(Math.min(amount, policy.maxAmount - accrued));
+  }
+
+  return amount > 0 ? { accrualDate, days, amount } : null;
+}
+
+function toLocalDate(instant: Date, timezone: string): string {
+  // en-CA formats as YYYY-MM-DD
+  return new Intl.DateTimeFormat('en-CA', { timeZone: timezone, year: 'numeric', month: '2-digit', day: '2-digit' })
+    .format(instant);
+}
+
+// Date columns come back from Postgres as YYYY-MM-DD strings
+function toDateString(value: Date | string): string {
+  return typeof value === 'string' ? value.slice(0, 10) : value.toISOString().slice(0, 10);
+}
+
+function addDays(date: string, days: number): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / (24 * 60 * 60 * 1000));
+}
+
+function roundAmount(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
@@ -0,0 +1,35 @@
+import { IsBoolean, IsDateString, IsNotEmpty, IsOptional, IsString, MaxLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class CreateLeaveRequestDto {
+  @ApiProperty({ description: 'First day away (YYYY-MM-DD)', example: '2025-11-07' })
+  @IsDateString()
+  startDate: string;
+
+  @ApiProperty({ description: 'Last day away (YYYY-MM-DD); back the day after', example: '2025-11-09' })
+  @IsDateString()
+  endDate: string;
+
+  @ApiProperty({ description: 'Where the student is going', example: 'Home, Pokhara' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  destination: string;
+
+  @ApiPropertyOptional({ description: 'Why the student is going', example: 'Tihar with family' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  reason?: string;
+
+  @ApiPropertyOptional({ description: 'Phone number the student can be reached on while away', example: '9800000000' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(20)
+  contactPhone?: string;
+
+  @ApiPropertyOptional({ description: 'Skip hostel meals on the leave days', default: false })
+  @IsOptional()
+  @IsBoolean()
+  mealOptOut?: boolean;
+}
@@ -0,0 +1,3 @@
+export { CreateLeaveRequestDto } from './create-leave-request.dto';
+export { ApproveLeaveRequestDto, RejectLeaveRequestDto, RecordGuardianResponseDto, GuardianResponseDto } from './review-leave-request.dto';
+export { LeaveRequestFilterDto } from './leave-request-filter.dto';
@@ -0,0 +1,26 @@
+import { IsDateString, IsEnum, IsOptional, IsUUID } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { PaginationDto } from '../../common/dto/pagination.dto';
+import { LeaveRequestStatus } from '../entities/leave-request.entity';
+
+export class LeaveRequestFilterDto extends PaginationDto {
+  @ApiPropertyOptional({ description: 'Filter by status', enum: LeaveRequestStatus })
+  @IsOptional()
+  @IsEnum(LeaveRequestStatus)
+  status?: LeaveRequestStatus;
+
+  @ApiPropertyOptional({ description: 'Filter by student' })
+  @IsOptional()
+  @IsUUID()
+  studentId?: string;
+
+  @ApiPropertyOptional({ description: 'Leaves overlapping this day or later (YYYY-MM-DD)' })
+  @IsOptional()
+  @IsDateString()
+  dateFrom?: string;
+
+  @ApiPropertyOptional({ description: 'Leaves overlapping this day or earlier (YYYY-MM-DD)' })
+  @IsOptional()
+  @IsDateString()
+  dateTo?: string;
+}
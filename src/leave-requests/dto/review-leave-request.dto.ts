@@ -0,0 +1,38 @@
+import { IsBoolean, IsNotEmpty, IsOptional, IsString, MaxLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class ApproveLeaveRequestDto {
+  @ApiPropertyOptional({ description: 'Notes for the student', example: 'Sign out at the gate before leaving' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  notes?: string;
+}
+
+export class RejectLeaveRequestDto {
+  @ApiProperty({ description: 'Why the leave is refused', example: 'Exams on Monday' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(1000)
+  reason: string;
+}
+
+export class RecordGuardianResponseDto {
+  @ApiProperty({ description: 'Whether the guardian agreed' })
+  @IsBoolean()
+  approved: boolean;
+
+  @ApiPropertyOptional({ description: 'How and when the guardian answered', example: 'Father confirmed by phone' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  notes?: string;
+}
+
+export class GuardianResponseDto {
+  @ApiPropertyOptional({ description: 'Message for the hostel', example: 'Please make sure she leaves before dark' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  notes?: string;
+}
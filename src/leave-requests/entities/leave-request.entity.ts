@@ -0,0 +1,117 @@
+import { Entity, Column, ManyToOne, JoinColumn, Index } from 'typeorm';
+import { BaseEntity } from '../../common/entities/base.entity';
+import { Hostel } from '../../hostel/entities/hostel.entity';
+import { Student } from '../../students/entities/student.entity';
+import { StudentContact } from '../../students/entities/student-contact.entity';
+
+export enum LeaveRequestStatus {
+  PENDING_GUARDIAN = 'pending_guardian',  // Waiting for the guardian's answer to the SMS link
+  PENDING_WARDEN = 'pending_warden',      // Guardian agreed (or has no contact on file), waiting for the hostel
+  APPROVED = 'approved',
+  REJECTED = 'rejected',                  // By the hostel, or declined by the guardian
+  CANCELLED = 'cancelled'                 // Withdrawn by the student or called off by staff
+}
+
+export enum GuardianApprovalStatus {
+  NOT_REQUIRED = 'not_required',  // No guardian/parent contact on file
+  PENDING = 'pending',
+  APPROVED = 'approved',
+  DECLINED = 'declined'
+}
+
+/**
+ * Out-pass for days a student spends away from the hostel (weekend at home,
+ * trips). An approved leave covers every night from startDate to endDate:
+ * curfew and absence are not flagged for them, current status shows the
+ * student as on leave and, with mealOptOut, the kitchen does not count them.
+ */
+@Entity('leave_requests')
+@Index(['hostelId', 'status'])
+@Index(['studentId', 'startDate', 'endDate'])
+export class LeaveRequest extends BaseEntity {
+  @Column({ name: 'hostel_id' })
+  hostelId: string;
+
+  @Column({ name: 'student_id' })
+  studentId: string;
+
+  @Column({
+    type: 'enum',
+    enum: LeaveRequestStatus,
+    default: LeaveRequestStatus.PENDING_WARDEN
+  })
+  status: LeaveRequestStatus;
+
+  // First and last day away; the student is expected back the day after endDate
+  @Column({ name: 'start_date', type: 'date' })
+  startDate: string;
+
+  @Column({ name: 'end_date', type: 'date' })
+  endDate: string;
+
+  @Column({ length: 255 })
+  destination: string;
+
+  @Column({ type: 'text', nullable: true })
+  reason: string;
+
+  // Where the student can be reached while away
+  @Column({ name: 'contact_phone', length: 20, nullable: true })
+  contactPhone: string;
+
+  // Skip the student's meals from startDate to endDate
+  @Column({ name: 'meal_opt_out', default: false })
+  mealOptOut: boolean;
+
+  // Guardian approval
+  @Column({
+    name: 'guardian_status',
+    type: 'enum',
+    enum: GuardianApprovalStatus,
+    default: GuardianApprovalStatus.NOT_REQUIRED
+  })
+  guardianStatus: GuardianApprovalStatus;
+
+  @Column({ name: 'guardian_contact_id', nullable: true })
+  guardianContactId: string;
+
+  // SHA-256 of the token in the link sent to the guardian; cleared once used
+  @Column({ name: 'guardian_token_hash', length: 64, nullable: true, select: false })
+  guardianTokenHash: string;
+
+  @Column({ name: 'guardian_responded_at', type: 'timestamp', nullable: true })
+  guardianRespondedAt: Date;
+
+  @Column({ name: 'guardian_notes', type: 'text', nullable: true })
+  guardianNotes: string;
+
+  // Staff user who recorded the guardian's answer given by phone or in person
+  @Column({ name: 'guardian_confirmed_by', nullable: true })
+  guardianConfirmedBy: string;
+
+  // Hostel review
+  @Column({ name: 'reviewed_by', nullable: true })
+  reviewedBy: string;
+
+  @Column({ name: 'reviewed_at', type: 'timestamp', nullable: true })
+  reviewedAt: Date;
+
+  @Column({ name: 'review_notes', type: 'text', nullable: true })
+  reviewNotes: string;
+
+  @Column({ name: 'requested_by', nullable: true })
+  requestedBy: string;
+
+  // Relations
+  @ManyToOne(() => Hostel, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'hostel_id' })
+  hostel: Hostel;
+
+  @ManyToOne(() => Student, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'student_id' })
+  student: Student;
+
+  @ManyToOne(() => StudentContact, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'guardian_contact_id' })
+  guardianContact: StudentContact;
+}
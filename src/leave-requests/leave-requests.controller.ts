@@ -0,0 +1,231 @@
+import { Controller, Get, Post, Body, Param, Query, HttpStatus, UseGuards } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiQuery } from '@nestjs/swagger';
+import { LeaveRequestsService } from './services/leave-requests.service';
+import {
+  CreateLeaveRequestDto,
+  ApproveLeaveRequestDto,
+  RejectLeaveRequestDto,
+  RecordGuardianResponseDto,
+  GuardianResponseDto,
+  LeaveRequestFilterDto
+} from './dto';
+import { LeaveRequest } from './entities/leave-request.entity';
+import { GetHostelId } from '../hostel/decorators/hostel-context.decorator';
+import { HostelAuthWithContextGuard } from '../auth/guards/hostel-auth-with-context.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { Public } from '../auth/decorators/public.decorator';
+import { JwtPayload } from '../auth/interfaces/jwt-payload.interface';
+import { RolesGuard } from '../staff-roles/guards/roles.guard';
+import { Permissions } from '../staff-roles/decorators/permissions.decorator';
+import { Permission } from '../staff-roles/permissions';
+import { Audited } from '../audit/decorators/audited.decorator';
+
+@ApiTags('leave-requests')
+@Controller('leave-requests')
+@UseGuards(HostelAuthWithContextGuard, RolesGuard)
+@Audited({ entity: LeaveRequest })
+@ApiBearerAuth()
+export class LeaveRequestsController {
+  constructor(private readonly leaveRequestsService: LeaveRequestsService) { }
+
+  // Student endpoints (must come before parameterized routes)
+  @Post('my')
+  @ApiOperation({ summary: 'Request leave for a date range (Student)' })
+  @ApiResponse({ status: 201, description: 'Request created; guardian is sent an approval link when one is on file' })
+  @ApiResponse({ status: 400, description: 'Invalid dates or overlapping leave' })
+  async createMyRequest(
+    @GetHostelId() hostelId: string,
+    @Body() createDto: CreateLeaveRequestDto,
+    @CurrentUser() user: JwtPayload
+  ) {
+    const request = await this.leaveRequestsService.createForUser(user.id, hostelId, createDto);
+
+    return {
+      status: HttpStatus.CREATED,
+      data: request
+    };
+  }
+
+  @Get('my')
+  @ApiOperation({ summary: 'Get the student\'s leave requests (Student)' })
+  @ApiResponse({ status: 200, description: 'Requests retrieved successfully' })
+  async getMyRequests(@GetHostelId() hostelId: string, @CurrentUser() user: JwtPayload) {
+    const requests = await this.leaveRequestsService.getUserRequests(user.id, hostelId);
+
+    return {
+      status: HttpStatus.OK,
+      data: requests
+    };
+  }
+
+  @Post('my/:id/cancel')
+  @ApiOperation({ summary: 'Withdraw a leave request that has not started (Student)' })
+  @ApiResponse({ status: 200, description: 'Request cancelled' })
+  async cancelMyRequest(
+    @GetHostelId() hostelId: string,
+    @Param('id') id: string,
+    @CurrentUser() user: JwtPayload
+  ) {
+    const request = await this.leaveRequestsService.cancelForUser(id, user.id, hostelId);
+
+    return {
+      status: HttpStatus.OK,
+      data: request
+    };
+  }
+
+  // Guardian endpoints, opened from the SMS link
+  @Public()
+  @Get('guardian/:token')
+  @ApiOperation({ summary: 'Show a leave request to the guardian (no login)' })
+  @ApiResponse({ status: 200, description: 'Leave details' })
+  @ApiResponse({ status: 404, description: 'Link invalid or already used' })
+  async getGuardianRequest(@Param('token') token: string) {
+    const request = await this.leaveRequestsService.getForGuardian(token);
+
+    return {
+      status: HttpStatus.OK,
+      data: request
+    };
+  }
+
+  @Public()
+  @Post('guardian/:token/approve')
+  @ApiOperation({ summary: 'Guardian agrees to the leave (no login)' })
+  @ApiResponse({ status: 200, description: 'Request sent to the hostel for approval' })
+  async approveAsGuardian(@Param('token') token: string, @Body() responseDto: GuardianResponseDto) {
+    const result = await this.leaveRequestsService.respondAsGuardian(token, true, responseDto);
+
+    return {
+      status: HttpStatus.OK,
+      data: result
+    };
+  }
+
+  @Public()
+  @Post('guardian/:token/decline')
+  @ApiOperation({ summary: 'Guardian declines the leave (no login)' })
+  @ApiResponse({ status: 200, description: 'Request declined' })
+  async declineAsGuardian(@Param('token') token: string, @Body() responseDto: GuardianResponseDto) {
+    const result = await this.leaveRequestsService.respondAsGuardian(token, false, responseDto);
+
+    return {
+      status: HttpStatus.OK,
+      data: result
+    };
+  }
+
+  // Admin endpoints
+  @Get()
+  @ApiOperation({ summary: 'Get leave requests' })
+  @ApiResponse({ status: 200, description: 'Requests retrieved successfully' })
+  async getRequests(@GetHostelId() hostelId: string, @Query() filters: LeaveRequestFilterDto) {
+    const requests = await this.leaveRequestsService.findAll(hostelId, filters);
+
+    return {
+      status: HttpStatus.OK,
+      data: requests
+    };
+  }
+
+  @Get('meal-opt-outs')
+  @ApiOperation({ summary: 'Students on leave who skip meals on a date (kitchen headcount)' })
+  @ApiQuery({ name: 'date', required: false, description: 'YYYY-MM-DD, defaults to today' })
+  @ApiResponse({ status: 200, description: 'Opt-outs and expected diners' })
+  async getMealOptOuts(@GetHostelId() hostelId: string, @Query('date') date?: string) {
+    const optOuts = await this.leaveRequestsService.getMealOptOuts(hostelId, date || undefined);
+
+    return {
+      status: HttpStatus.OK,
+      data: optOuts
+    };
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get leave request by ID' })
+  @ApiResponse({ status: 200, description: 'Request retrieved successfully' })
+  async getRequest(@GetHostelId() hostelId: string, @Param('id') id: string) {
+    const request = await this.leaveRequestsService.findOne(id, hostelId);
+
+    return {
+      status: HttpStatus.OK,
+      data: request
+    };
+  }
+
+  @Post(':id/guardian-response')
+  @Permissions(Permission.LEAVE_APPROVE)
+  @ApiOperation({ summary: 'Record the guardian\'s answer given by phone or in person' })
+  @ApiResponse({ status: 200, description: 'Guardian answer recorded' })
+  @ApiResponse({ status: 400, description: 'Request is not waiting for the guardian' })
+  async recordGuardianResponse(
+    @GetHostelId() hostelId: string,
+    @Param('id') id: string,
+    @Body() responseDto: RecordGuardianResponseDto,
+    @CurrentUser() user: JwtPayload
+  ) {
+    const request = await this.leaveRequestsService.recordGuardianResponse(id, hostelId, responseDto, user?.id);
+
+    return {
+      status: HttpStatus.OK,
+      data: request
+    };
+  }
+
+  @Post(':id/approve')
+  @Permissions(Permission.LEAVE_APPROVE)
+  @ApiOperation({ summary: 'Approve a leave request the guardian has agreed to' })
+  @ApiResponse({ status: 200, description: 'Leave approved' })
+  @ApiResponse({ status: 400, description: 'Request not waiting for the hostel' })
+  async approveRequest(
+    @GetHostelId() hostelId: string,
+    @Param('id') id: string,
+    @Body() approveDto: ApproveLeaveRequestDto,
+    @CurrentUser() user: JwtPayload
+  ) {
+    const request = await this.leaveRequestsService.approve(id, hostelId, approveDto, user?.id);
+
+    return {
+      status: HttpStatus.OK,
+      data: request
+    };
+  }
+
+  @Post(':id/reject')
+  @Permissions(Permission.LEAVE_APPROVE)
+  @ApiOperation({ summary: 'Reject an open leave request' })
+  @ApiResponse({ status: 200, description: 'Request rejected' })
+  async rejectRequest(
+    @GetHostelId() hostelId: string,
+    @Param('id') id: string,
+    @Body() rejectDto: RejectLeaveRequestDto,
+    @CurrentUser() user: JwtPayload
+  ) {
+    const request = await this.leaveRequestsService.reject(id, hostelId, rejectDto, user?.id);
+
+    return {
+      status: HttpStatus.OK,
+      data: request
+    };
+  }
+
+  @Post(':id/cancel')
+  @Permissions(Permission.LEAVE_APPROVE)
+  @ApiOperation({
+    summary: 'Cancel a leave request',
+    description: 'A leave that has already started is ended yesterday instead, e.g. when the student comes back early'
+  })
+  @ApiResponse({ status: 200, description: 'Request cancelled or ended' })
+  async cancelRequest(
+    @GetHostelId() hostelId: string,
+    @Param('id') id: string,
+    @CurrentUser() user: JwtPayload
+  ) {
+    const request = await this.leaveRequestsService.cancel(id, hostelId, user?.id);
+
+    return {
+      status: HttpStatus.OK,
+      data: request
+    };
+  }
+}
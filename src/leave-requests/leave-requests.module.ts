@@ -0,0 +1,27 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { LeaveRequestsController } from './leave-requests.controller';
+import { LeaveRequestsService } from './services/leave-requests.service';
+import { LeaveRequest } from './entities/leave-request.entity';
+import { Student } from '../students/entities/student.entity';
+import { StudentContact } from '../students/entities/student-contact.entity';
+import { AuthModule } from '../auth/auth.module';
+import { HostelModule } from '../hostel/hostel.module';
+import { StaffRolesModule } from '../staff-roles/staff-roles.module';
+import { NotificationModule } from '../notification/notification.module';
+import { MessagingModule } from '../messaging/messaging.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([LeaveRequest, Student, StudentContact]),
+    AuthModule,
+    HostelModule,
+    StaffRolesModule,
+    NotificationModule,
+    MessagingModule,
+  ],
+  controllers: [LeaveRequestsController],
+  providers: [LeaveRequestsService],
+  exports: [LeaveRequestsService],
+})
+export class LeaveRequestsModule {}
@@ -0,0 +1,159 @@
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { LeaveRequestsService } from './leave-requests.service';
+import { LeaveRequestStatus, GuardianApprovalStatus } from '../entities/leave-request.entity';
+import { StudentStatus } from '../../students/entities/student.entity';
+import { NotificationTemplateKey } from '../../notification/templates/default-notification-templates';
+
+describe('LeaveRequestsService', () => {
+  let service: LeaveRequestsService;
+  let requests: any[];
+
+  const student = { id: 'student-1', userId: 'user-1', hostelId: 'hostel-1', name: 'Sita', status: StudentStatus.ACTIVE };
+  const guardian = { id: 'contact-1', studentId: 'student-1', name: 'Ram', phone: '9800000000' };
+
+  const matches = (request: any, where: any) => Object.entries(where).every(([key, value]: [string, any]) =>
+    value?._value !== undefined && value._type === 'in' ? value._value.includes(request[key]) : request[key] === value
+  );
+
+  const mockLeaveRepository = {
+    findOne: jest.fn(async ({ where }) => requests.find(request =>
+      (!where.id || request.id === where.id) &&
+      (!where.guardianTokenHash || request.guardianTokenHash === where.guardianTokenHash) &&
+      (!where.studentId || request.studentId === where.studentId) &&
+      (!where.status || where.status._value?.includes(request.status)) &&
+      (!where.startDate || request.startDate <= where.startDate._value) &&
+      (!where.endDate || request.endDate >= where.endDate._value)
+    ) || null),
+    find: jest.fn(async () => requests),
+    create: jest.fn(data => ({ ...data })),
+    save: jest.fn(async request => {
+      const saved = { id: `leave-${requests.length + 1}`, ...request };
+      requests.push(saved);
+      return saved;
+    }),
+    update: jest.fn(async (criteria, changes) => {
+      const request = requests.find(candidate => matches(candidate, criteria));
+      if (!request) {
+        return { affected: 0 };
+      }
+      Object.assign(request, changes);
+      return { affected: 1 };
+    }),
+  };
+
+  const mockStudentRepository = {
+    findOne: jest.fn().mockResolvedValue(student),
+    count: jest.fn().mockResolvedValue(40),
+  };
+
+  const mockContactRepository = {
+    findOne: jest.fn(),
+  };
+
+  const mockStaffRolesService = {
+    getActiveUserIds: jest.fn().mockResolvedValue(['warden-1']),
+  };
+
+  const mockNotificationService = {
+    sendTemplateToUser: jest.fn().mockResolvedValue(undefined),
+  };
+
+  const mockMessagingService = {
+    send: jest.fn().mockResolvedValue({ id: 'message-1' }),
+  };
+
+  const mockManager = {
+    save: jest.fn(request => mockLeaveRepository.save(request)),
+    update: jest.fn((_entity, criteria, changes) => mockLeaveRepository.update(criteria, changes)),
+  };
+
+  const mockDataSource = {
+    transaction: jest.fn(work => work(mockManager)),
+  };
+
+  beforeEach(() => {
+    service = new LeaveRequestsService(
+      mockLeaveRepository as any,
+      mockStudentRepository as any,
+      mockContactRepository as any,
+      mockStaffRolesService as any,
+      mockNotificationService as any,
+      mockMessagingService as any,
+      { get: jest.fn((key, fallback) => fallback) } as any,
+      mockDataSource as any
+    );
+
+    requests = [];
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should wait for the guardian link, then the warden, before approving', async () => {
+    mockContactRepository.findOne.mockResolvedValueOnce(guardian);
+
+    const created = await service.createForUser('user-1', 'hostel-1', {
+      startDate: '2099-01-09',
+      endDate: '2099-01-11',
+      destination: 'Pokhara',
+      mealOptOut: true
+    });
+
+    expect(created.status).toBe(LeaveRequestStatus.PENDING_GUARDIAN);
+    const sms = mockMessagingService.send.mock.calls[0][0];
+    expect(sms.recipient).toBe('9800000000');
+    const token = sms.body.match(/leave-requests\/guardian\/([a-f0-9]+)$/)[1];
+
+    await expect(service.approve(created.id, 'hostel-1', {}, 'admin-1')).rejects.toThrow(BadRequestException);
+
+    await service.respondAsGuardian(token, true, { notes: 'Coming home' });
+    expect(requests[0]).toEqual(expect.objectContaining({
+      status: LeaveRequestStatus.PENDING_WARDEN,
+      guardianStatus: GuardianApprovalStatus.APPROVED,
+      guardianTokenHash: null
+    }));
+    expect(mockNotificationService.sendTemplateToUser).toHaveBeenCalledWith(expect.objectContaining({
+      userId: 'warden-1',
+      template: NotificationTemplateKey.LEAVE_REVIEW_REQUESTED
+    }), undefined, undefined, mockManager);
+
+    // The link only works once
+    await expect(service.respondAsGuardian(token, false)).rejects.toThrow(NotFoundException);
+
+    const approved = await service.approve(created.id, 'hostel-1', {}, 'admin-1');
+    expect(approved.status).toBe(LeaveRequestStatus.APPROVED);
+  });
+
+  it('should go straight to the warden without a guardian and refuse overlapping leave', async () => {
+    mockContactRepository.findOne.mockResolvedValue(null);
+
+    const created = await service.createForUser('user-1', 'hostel-1', {
+      startDate: '2099-01-09',
+      endDate: '2099-01-11',
+      destination: 'Pokhara'
+    });
+
+    expect(created.status).toBe(LeaveRequestStatus.PENDING_WARDEN);
+    expect(created.guardian.status).toBe(GuardianApprovalStatus.NOT_REQUIRED);
+    expect(mockMessagingService.send).not.toHaveBeenCalled();
+
+    await expect(service.createForUser('user-1', 'hostel-1', {
+      startDate: '2099-01-11',
+      endDate: '2099-01-12',
+      destination: 'Chitwan'
+    })).rejects.toThrow('already have a leave request');
+  });
+
+  it('should count meal opt-outs for the kitchen', async () => {
+    requests = [
+      { id: 'leave-1', studentId: 'student-1', startDate: '2099-01-09', endDate: '2099-01-11', mealOptOut: true, student: { name: 'Sita', room: { roomNumber: '101' } } },
+      { id: 'leave-2', studentId: 'student-2', startDate: '2099-01-10', endDate: '2099-01-10', mealOptOut: false, student: { name: 'Gita' } }
+    ];
+
+    const result = await service.getMealOptOuts('hostel-1', '2099-01-10');
+
+    expect(result).toEqual(expect.objectContaining({ date: '2099-01-10', activeStudents: 40, optedOut: 1, expectedDiners: 39 }));
+    expect(result.students).toEqual([expect.objectContaining({ studentId: 'student-1', roomNumber: '101', leaveRequestId: 'leave-1' })]);
+  });
+});
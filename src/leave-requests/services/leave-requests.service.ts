@@ -0,0 +1,544 @@
+import { Injectable, Logger, BadRequestException, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { DataSource, EntityManager, In, LessThanOrEqual, MoreThanOrEqual, Repository } from 'typeorm';
+import * as crypto from 'crypto';
+import { LeaveRequest, LeaveRequestStatus, GuardianApprovalStatus } from '../entities/leave-request.entity';
+import { Student, StudentStatus } from '../../students/entities/student.entity';
+import { StudentContact, ContactType } from '../../students/entities/student-contact.entity';
+import { HostelStaffRole } from '../../staff-roles/entities/hostel-staff-member.entity';
+import { StaffRolesService } from '../../staff-roles/services/staff-roles.service';
+import { UnifiedNotificationService } from '../../notification/unified-notification.service';
+import { NotificationTemplateKey } from '../../notification/templates/default-notification-templates';
+import { MessagingService } from '../../messaging/services/messaging.service';
+import { MessageChannel } from '../../messaging/entities/message-delivery.entity';
+import {
+  CreateLeaveRequestDto,
+  ApproveLeaveRequestDto,
+  RejectLeaveRequestDto,
+  RecordGuardianResponseDto,
+  GuardianResponseDto,
+  LeaveRequestFilterDto
+} from '../dto';
+
+const OPEN_STATUSES = [LeaveRequestStatus.PENDING_GUARDIAN, LeaveRequestStatus.PENDING_WARDEN];
+const DEFAULT_APPROVAL_BASE_URL = 'http://localhost:3001/hostel/api/v1';
+// Nepal has no daylight saving: always UTC+05:45
+const NEPAL_UTC_OFFSET_MS = 345 * 60 * 1000;
+
+/**
+ * Leave Requests Service
+ * Students ask for leave from the app. When a guardian or parent contact is
+ * on file they get an SMS link to agree first; the hostel approves after
+ * that. Staff can record a guardian's answer given by phone. Approved
+ * leaves are read by attendance (current status, reports, curfew) and by
+ * the kitchen through getMealOptOuts().
+ */
+@Injectable()
+export class LeaveRequestsService {
+  private readonly logger = new Logger(LeaveRequestsService.name);
+
+  constructor(
+    @InjectRepository(LeaveRequest)
+    private leaveRepository: Repository<LeaveRequest>,
+    @InjectRepository(Student)
+    private studentRepository: Repository<Student>,
+    @InjectRepository(StudentContact)
+    private contactRepository: Repository<StudentContact>,
+    private staffRolesService: StaffRolesService,
+    private unifiedNotificationService: UnifiedNotificationService,
+    private messagingService: MessagingService,
+    private configService: ConfigService,
+    private dataSource: DataSource,
+  ) {}
+
+  async createForUser(userId: string, hostelId: string, createDto: CreateLeaveRequestDto) {
+    const student = await this.getStudentForUser(userId, hostelId);
+
+    if (createDto.endDate < createDto.startDate) {
+      throw new BadRequestException('endDate must be on or after startDate');
+    }
+    if (createDto.endDate < toNepalDate(new Date())) {
+      throw new BadRequestException('Leave cannot end in the past');
+    }
+
+    const overlapping = await this.leaveRepository.findOne({
+      where: {
+        studentId: student.id,
+        status: In([...OPEN_STATUSES, LeaveRequestStatus.APPROVED]),
+        startDate: LessThanOrEqual(createDto.endDate),
+        endDate: MoreThanOrEqual(createDto.startDate)
+      }
+    });
+    if (overlapping) {
+      throw new BadRequestException(
+        `You already have a leave request from ${overlapping.startDate} to ${overlapping.endDate} (status: ${overlapping.status})`
+      );
+    }
+
+    const guardian = await this.contactRepository.findOne({
+      where: { studentId: student.id, type: In([ContactType.GUARDIAN, ContactType.PARENT]), isActive: true },
+      order: { type: 'ASC', isPrimary: 'DESC', createdAt: 'ASC' }
+    });
+    const token = guardian ? crypto.randomBytes(24).toString('hex') : null;
+
+    // Wardens are told in the request's own transaction; the guardian's SMS goes through messaging
+    const request = await this.dataSource.transaction(async manager => {
+      const created = await manager.save(this.leaveRepository.create({
+        hostelId,
+      studentId: student.id,
+      startDate: createDto.startDate,
+      endDate: createDto.endDate,
+      destination: createDto.destination,
+      reason: createDto.reason,
+      contactPhone: createDto.contactPhone,
+      mealOptOut: createDto.mealOptOut ?? false,
+      status: guardian ? LeaveRequestStatus.PENDING_GUARDIAN : LeaveRequestStatus.PENDING_WARDEN,
+      guardianStatus: guardian ? GuardianApprovalStatus.PENDING : GuardianApprovalStatus.NOT_REQUIRED,
+      guardianContactId: guardian?.id || null,
+        guardianTokenHash: token ? hashToken(token) : null,
+        requestedBy: userId
+      }));
+      if (!guardian) {
+        await this.notifyWardens(created, student, manager);
+      }
+      return created;
+    });
+
+    if (guardian) {
+      await this.sendGuardianLink(request, student, guardian, token);
+    }
+
+    this.logger.log(`🧳 Leave request ${request.id} created for ${student.name} (${request.startDate} → ${request.endDate})`);
+    return this.findOne(request.id, hostelId);
+  }
+
+  async getUserRequests(userId: string, hostelId: string) {
+    const student = await this.getStudentForUser(userId, hostelId);
+    const requests = await this.leaveRepository.find({
+      where: { studentId: student.id, hostelId },
+      order: { startDate: 'DESC' }
+    });
+
+    return requests.map(request => this.transformToApiResponse(request));
+  }
+
+  async cancelForUser(id: string, userId: string, hostelId: string) {
+    const student = await this.getStudentForUser(userId, hostelId);
+    const request = await this.leaveRepository.findOne({ where: { id, hostelId, studentId: student.id } });
+    if (!request) {
+      throw new NotFoundException(`Leave request with ID ${id} not found`);
+    }
+    if (request.status === LeaveRequestStatus.APPROVED && request.startDate <= toNepalDate(new Date())) {
+      throw new BadRequestException('Leave has already started; ask the hostel to end it');
+    }
+
+    return this.cancelRequest(request, userId);
+  }
+
+  /**
+   * What the guardian sees when they open the SMS link
+   */
+  async getForGuardian(token: string) {
+    const request = await this.getRequestForGuardian(token);
+
+    return {
+      studentName: request.student?.name,
+      hostelName: request.hostel?.name,
+      startDate: request.startDate,
+      endDate: request.endDate,
+      destination: request.destination,
+      reason: request.reason,
+      contactPhone: request.contactPhone,
+      status: request.status
+    };
+  }
+
+  async respondAsGuardian(token: string, approved: boolean, responseDto: GuardianResponseDto = {}) {
+    const request = await this.getRequestForGuardian(token);
+    await this.applyGuardianResponse(request, approved, responseDto.notes, null);
+
+    return {
+      success: true,
+      message: approved
+        ? 'Thank you. The hostel will now review the leave request.'
+        : 'Thank you. The leave request has been declined.'
+    };
+  }
+
+  async findAll(hostelId: string, filters: LeaveRequestFilterDto) {
+    if (!hostelId) {
+      throw new BadRequestException('Hostel context required');
+    }
+
+    const { page = 1, limit = 10, status, studentId, dateFrom, dateTo } = filters;
+
+    const queryBuilder = this.leaveRepository.createQueryBuilder('leave')
+      .leftJoinAndSelect('leave.student', 'student')
+      .leftJoinAndSelect('leave.guardianContact', 'guardianContact')
+      .where('leave.hostelId = :hostelId', { hostelId });
+
+    if (status) {
+      queryBuilder.andWhere('leave.status = :status', { status });
+    }
+    if (studentId) {
+      queryBuilder.andWhere('leave.studentId = :studentId', { studentId });
+    }
+    if (dateFrom) {
+      queryBuilder.andWhere('leave.endDate >= :dateFrom', { dateFrom });
+    }
+    if (dateTo) {
+      queryBuilder.andWhere('leave.startDate <= :dateTo', { dateTo });
+    }
+
+    const [requests, total] = await queryBuilder
+      .orderBy('leave.startDate', 'DESC')
+      .addOrderBy('leave.createdAt', 'DESC')
+      .skip((page - 1) * limit)
+      .take(limit)
+      .getManyAndCount();
+
+    return {
+      items: requests.map(request => this.transformToApiResponse(request)),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit)
+      }
+    };
+  }
+
+  async findOne(id: string, hostelId: string) {
+    const request = await this.getRequest(id, hostelId);
+    return this.transformToApiResponse(request);
+  }
+
+  /**
+   * Guardian answered by phone or in person instead of through the link
+   */
+  async recordGuardianResponse(id: string, hostelId: string, responseDto: RecordGuardianResponseDto, recordedBy: string) {
+    const request = await this.getRequest(id, hostelId);
+    await this.applyGuardianResponse(request, responseDto.approved, responseDto.notes, recordedBy);
+    return this.findOne(id, hostelId);
+  }
+
+  async approve(id: string, hostelId: string, approveDto: ApproveLeaveRequestDto, reviewedBy?: string) {
+    const request = await this.getRequest(id, hostelId);
+
+    if (request.status === LeaveRequestStatus.PENDING_GUARDIAN) {
+      throw new BadRequestException('Waiting for the guardian; record their answer first if they replied by phone');
+    }
+
+    await this.dataSource.transaction(async manager => {
+      const claimed = await manager.update(LeaveRequest,
+        { id: request.id, status: LeaveRequestStatus.PENDING_WARDEN },
+        { status: LeaveRequestStatus.APPROVED, reviewedBy, reviewedAt: new Date(), reviewNotes: approveDto.notes || null }
+      );
+      if (!claimed.affected) {
+        throw new BadRequestException(`Only requests waiting for the hostel can be approved (status: ${request.status})`);
+      }
+
+      await this.notifyStudent(request, NotificationTemplateKey.LEAVE_APPROVED, { notes: approveDto.notes || '' }, manager);
+    });
+
+    return this.findOne(id, hostelId);
+  }
+
+  async reject(id: string, hostelId: string, rejectDto: RejectLeaveRequestDto, reviewedBy?: string) {
+    const request = await this.getRequest(id, hostelId);
+
+    await this.dataSource.transaction(async manager => {
+      const claimed = await manager.update(LeaveRequest,
+        { id: request.id, status: In(OPEN_STATUSES) },
+        { status: LeaveRequestStatus.REJECTED, reviewedBy, reviewedAt: new Date(), reviewNotes: rejectDto.reason, guardianTokenHash: null }
+      );
+      if (!claimed.affected) {
+        throw new BadRequestException(`Only open requests can be rejected (status: ${request.status})`);
+      }
+
+      await this.notifyStudent(request, NotificationTemplateKey.LEAVE_REJECTED, { reason: rejectDto.reason }, manager);
+    });
+
+    return this.findOne(id, hostelId);
+  }
+
+  /**
+   * Staff call off a leave; one that has started is ended yesterday instead,
+   * so the days already spent away stay covered
+   */
+  async cancel(id: string, hostelId: string, cancelledBy?: string) {
+    const request = await this.getRequest(id, hostelId);
+    const today = toNepalDate(new Date());
+
+    if (request.status === LeaveRequestStatus.APPROVED && request.startDate < today) {
+      if (request.endDate < today) {
+        throw new BadRequestException('Leave is already over');
+      }
+
+      await this.leaveRepository.update(
+        { id: request.id, status: LeaveRequestStatus.APPROVED },
+        { endDate: addDays(today, -1), reviewNotes: `Ended early on ${today}` }
+      );
+      return this.findOne(id, hostelId);
+    }
+
+    await this.cancelRequest(request, cancelledBy);
+    return this.findOne(id, hostelId);
+  }
+
+  /**
+   * Approved leaves overlapping the date range, with their students
+   */
+  async getApprovedLeaves(hostelId: string, dateFrom: string, dateTo: string = dateFrom): Promise<LeaveRequest[]> {
+    return this.leaveRepository.find({
+      where: {
+        hostelId,
+        status: LeaveRequestStatus.APPROVED,
+        startDate: LessThanOrEqual(dateTo),
+        endDate: MoreThanOrEqual(dateFrom)
+      },
+      relations: ['student', 'student.room'],
+      order: { startDate: 'ASC' }
+    });
+  }
+
+  async isOnLeave(studentId: string, date: string): Promise<boolean> {
+    return this.leaveRepository.exist({
+      where: {
+        studentId,
+        status: LeaveRequestStatus.APPROVED,
+        startDate: LessThanOrEqual(date),
+        endDate: MoreThanOrEqual(date)
+      }
+    });
+  }
+
+  /**
+   * Students on approved leave who skip meals on the date, for the kitchen headcount
+   */
+  async getMealOptOuts(hostelId: string, date: string = toNepalDate(new Date())) {
+    if (!hostelId) {
+      throw new BadRequestException('Hostel context required');
+    }
+
+    const leaves = (await this.getApprovedLeaves(hostelId, date)).filter(leave => leave.mealOptOut);
+    const activeStudents = await this.studentRepository.count({
+      where: { hostelId, isConfigured: true, status: StudentStatus.ACTIVE }
+    });
+
+    return {
+      date,
+      activeStudents,
+      optedOut: leaves.length,
+      expectedDiners: Math.max(0, activeStudents - leaves.length),
+      students: leaves.map(leave => ({
+        studentId: leave.studentId,
+        studentName: leave.student?.name,
+        roomNumber: leave.student?.room?.roomNumber,
+        leaveRequestId: leave.id,
+        startDate: leave.startDate,
+        endDate: leave.endDate
+      }))
+    };
+  }
+
+  private async applyGuardianResponse(request: LeaveRequest, approved: boolean, notes: string | undefined, recordedBy: string | null) {
+    const student = request.student || await this.studentRepository.findOne({ where: { id: request.studentId } });
+
+    await this.dataSource.transaction(async manager => {
+      const claimed = await manager.update(LeaveRequest,
+        { id: request.id, status: LeaveRequestStatus.PENDING_GUARDIAN },
+        {
+          status: approved ? LeaveRequestStatus.PENDING_WARDEN : LeaveRequestStatus.REJECTED,
+          guardianStatus: approved ? GuardianApprovalStatus.APPROVED : GuardianApprovalStatus.DECLINED,
+          guardianRespondedAt: new Date(),
+          guardianNotes: notes || null,
+          guardianConfirmedBy: recordedBy,
+          guardianTokenHash: null
+        }
+      );
+      if (!claimed.affected) {
+        throw new BadRequestException(`Leave request is no longer waiting for the guardian (status: ${request.status})`);
+      }
+
+      if (approved) {
+        await this.notifyWardens(request, student, manager);
+      } else {
+        await this.notifyStudent(request, NotificationTemplateKey.LEAVE_GUARDIAN_DECLINED, { notes: notes || '' }, manager);
+      }
+    });
+  }
+
+  private async cancelRequest(request: LeaveRequest, cancelledBy?: string) {
+    const claimed = await this.leaveRepository.update(
+      { id: request.id, status: In([...OPEN_STATUSES, LeaveRequestStatus.APPROVED]) },
+      { status: LeaveRequestStatus.CANCELLED, reviewedBy: cancelledBy, reviewedAt: new Date(), guardianTokenHash: null }
+    );
+    if (!claimed.affected) {
+      throw new BadRequestException(`Only open or approved requests can be cancelled (status: ${request.status})`);
+    }
+
+    return this.findOne(request.id, request.hostelId);
+  }
+
+  private async sendGuardianLink(request: LeaveRequest, student: Student, guardian: StudentContact, token: string) {
+    const baseUrl = this.configService.get('LEAVE_APPROVAL_BASE_URL', DEFAULT_APPROVAL_BASE_URL).replace(/\/$/, '');
+
+    try {
+      await this.messagingService.send({
+        hostelId: request.hostelId,
+        channel: MessageChannel.SMS,
+        recipient: guardian.phone,
+        body: `Dear ${guardian.name}, ${student.name} has asked for leave from the hostel from ${request.startDate} to ${request.endDate} ` +
+          `(${request.destination}). Please approve or decline: ${baseUrl}/leave-requests/guardian/${token}`,
+        referenceType: 'leave_request',
+        referenceId: request.id
+      });
+    } catch (error) {
+      this.logger.warn(`⚠️ Failed to send leave approval link for ${request.id}: ${error.message}`);
+    }
+  }
+
+  private async notifyWardens(request: LeaveRequest, student: Student, manager: EntityManager) {
+    let userIds = await this.staffRolesService.getActiveUserIds(request.hostelId, [HostelStaffRole.WARDEN]);
+    if (userIds.length === 0) {
+      userIds = await this.staffRolesService.getActiveUserIds(request.hostelId, [HostelStaffRole.OWNER, HostelStaffRole.MANAGER]);
+    }
+
+    for (const userId of userIds) {
+      await this.unifiedNotificationService.sendTemplateToUser({
+        userId,
+        hostelId: request.hostelId,
+        template: NotificationTemplateKey.LEAVE_REVIEW_REQUESTED,
+        variables: {
+          studentName: student?.name || 'A student',
+          startDate: request.startDate,
+          endDate: request.endDate,
+          destination: request.destination
+        },
+        metadata: {
+          source: 'leave_request',
+          requestId: request.id,
+          studentId: request.studentId
+        }
+      }, undefined, undefined, manager);
+    }
+  }
+
+  // Start and end dates are filled in here; `variables` carries the rest
+  private async notifyStudent(
+    request: LeaveRequest,
+    template: NotificationTemplateKey,
+    variables: Record<string, string>,
+    manager: EntityManager
+  ) {
+    const student = await this.studentRepository.findOne({ where: { id: request.studentId } });
+    if (!student?.userId) {
+      return;
+    }
+
+    await this.unifiedNotificationService.sendTemplateToUser({
+      userId: student.userId,
+      hostelId: request.hostelId,
+      template,
+      variables: {
+        startDate: request.startDate,
+        endDate: request.endDate,
+        ...variables
+      },
+      metadata: {
+        source: 'leave_request',
+        requestId: request.id,
+        studentId: request.studentId
+      }
+    }, undefined, undefined, manager);
+  }
+
+  private async getStudentForUser(userId: string, hostelId: string): Promise<Student> {
+    if (!hostelId) {
+      throw new BadRequestException('Hostel context required');
+    }
+
+    const student = await this.studentRepository.findOne({ where: { userId, hostelId } });
+    if (!student) {
+      throw new NotFoundException(`No student record found for user ${userId}`);
+    }
+    if (student.status !== StudentStatus.ACTIVE) {
+      throw new BadRequestException('Only active students can request leave');
+    }
+
+    return student;
+  }
+
+  private async getRequest(id: string, hostelId: string): Promise<LeaveRequest> {
+    if (!hostelId) {
+      throw new BadRequestException('Hostel context required');
+    }
+
+    const request = await this.leaveRepository.findOne({
+      where: { id, hostelId },
+      relations: ['student', 'guardianContact']
+    });
+    if (!request) {
+      throw new NotFoundException(`Leave request with ID ${id} not found`);
+    }
+
+    return request;
+  }
+
+  private async getRequestForGuardian(token: string): Promise<LeaveRequest> {
+    const request = token
+      ? await this.leaveRepository.findOne({
+        where: { guardianTokenHash: hashToken(token) },
+        relations: ['student', 'hostel']
+      })
+      : null;
+
+    if (!request || request.status !== LeaveRequestStatus.PENDING_GUARDIAN) {
+      throw new NotFoundException('This leave request link is invalid or has already been used');
+    }
+
+    return request;
+  }
+
+  private transformToApiResponse(request: LeaveRequest) {
+    return {
+      id: request.id,
+      studentId: request.studentId,
+      studentName: request.student?.name,
+      status: request.status,
+      startDate: request.startDate,
+      endDate: request.endDate,
+      destination: request.destination,
+      reason: request.reason,
+      contactPhone: request.contactPhone,
+      mealOptOut: request.mealOptOut,
+      guardian: {
+        status: request.guardianStatus,
+        contactName: request.guardianContact?.name,
+        respondedAt: request.guardianRespondedAt,
+        notes: request.guardianNotes,
+        recordedBy: request.guardianConfirmedBy
+      },
+      reviewedBy: request.reviewedBy,
+      reviewedAt: request.reviewedAt,
+      reviewNotes: request.reviewNotes,
+      createdAt: request.createdAt,
+      updatedAt: request.updatedAt
+    };
+  }
+}
+
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+function toNepalDate(instant: Date): string {
+  return new Date(instant.getTime() + NEPAL_UTC_OFFSET_MS).toISOString().slice(0, 10);
+}
+
+function addDays(date: string, days: number): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+}
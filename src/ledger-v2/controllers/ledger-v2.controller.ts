@@ -33,10 +33,16 @@ import {
 } from '../dto/ledger-response-v2.dto';
 import { HostelContext, GetHostelId } from '../../hostel/decorators/hostel-context.decorator';
 import { HostelAuthWithContextGuard } from '../../auth/guards/hostel-auth-with-context.guard';
+import { RolesGuard } from '../../staff-roles/guards/roles.guard';
+import { Permissions } from '../../staff-roles/decorators/permissions.decorator';
+import { Permission } from '../../staff-roles/permissions';
+import { Audited, SkipAudit } from '../../audit/decorators/audited.decorator';
+import { LedgerEntryV2 } from '../entities/ledger-entry-v2.entity';
 
 @ApiTags('ledger-v2')
 @Controller('ledger-v2')
-@UseGuards(HostelAuthWithContextGuard)
+@UseGuards(HostelAuthWithContextGuard, RolesGuard)
+@Audited({ entity: LedgerEntryV2, idParam: 'entryId' })
 @ApiBearerAuth()
 export class LedgerV2Controller {
   constructor(private readonly ledgerV2Service: LedgerV2Service) {}
@@ -158,6 +164,7 @@ export class LedgerV2Controller {
   }
 
   @Post('students/:studentId/reconcile')
+  @SkipAudit()
   @ApiOperation({ 
     summary: 'Reconcile student balance',
     description: 'Verify and reconcile student balance by recalculating from all entries'
@@ -180,6 +187,7 @@ export class LedgerV2Controller {
   }
 
   @Post('adjustments')
+  @Permissions(Permission.LEDGER_ADJUST)
   @ApiOperation({ 
     summary: 'Create a balance adjustment entry',
     description: 'Create a manual adjustment entry (debit or credit) for a student'
@@ -202,6 +210,7 @@ export class LedgerV2Controller {
   }
 
   @Post('entries/:entryId/reverse')
+  @Permissions(Permission.LEDGER_REVERSE)
   @ApiOperation({ 
     summary: 'Reverse a ledger entry',
     description: 'Create a reversal entry to cancel the effect of an existing entry'
@@ -280,6 +289,7 @@ export class LedgerV2Controller {
   }
 
   @Post('bulk-reconcile')
+  @SkipAudit()
   @ApiOperation({ 
     summary: 'Bulk reconcile all student balances',
     description: 'Reconcile balances for all students (admin operation)'
@@ -13,10 +13,12 @@ import { Discount } from '../discounts/entities/discount.entity';
 import { Invoice } from '../invoices/entities/invoice.entity';
 import { Hostel } from '../hostel/entities/hostel.entity';
 import { HostelModule } from '../hostel/hostel.module';
+import { StaffRolesModule } from '../staff-roles/staff-roles.module';
 
 @Module({
   imports: [
     HostelModule,
+    StaffRolesModule,
     TypeOrmModule.forFeature([
       // New V2 entities
       LedgerEntryV2,
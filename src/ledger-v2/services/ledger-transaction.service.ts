@@ -16,49 +16,52 @@ export class LedgerTransactionService {
 
   /**
    * ✅ BULLETPROOF: Create ledger entry with full transaction safety
+   * Pass the manager of an open transaction to post the entry in it.
    */
   async createEntryWithTransaction(
-    entryData: CreateLedgerEntryV2Dto
+    entryData: CreateLedgerEntryV2Dto,
+    manager?: EntityManager
   ): Promise<LedgerEntryV2> {
     // Validate entry data first
     this.calculationService.validateEntryAmounts(entryData.debit, entryData.credit);
 
-    return await this.dataSource.transaction(async manager => {
-      
-      // 1. ✅ Get current balance with ROW LOCK (prevents race conditions)
-      const currentBalance = await this.getCurrentBalanceWithLock(
-        entryData.studentId, 
-        manager
-      );
-
-      // 2. ✅ Calculate new balance (NEVER use Math.abs)
-      const newBalance = this.calculationService.calculateRunningBalance(
-        currentBalance,
-        entryData.debit,
-        entryData.credit
-      );
-
-      // 3. ✅ Create entry
-      const entry = manager.create(LedgerEntryV2, {
-        studentId: entryData.studentId,
-        hostelId: entryData.hostelId,
-        type: entryData.type,
-        description: entryData.description,
-        referenceId: entryData.referenceId,
-        debit: entryData.debit,
-        credit: entryData.credit,
-        runningBalance: newBalance, // ACTUAL balance, not absolute
-        balanceType: this.calculationService.determineBalanceType(newBalance),
-        date: entryData.date ? new Date(entryData.date) : new Date(),
-        notes: entryData.notes,
-        isReversed: false
-      });
+    if (!manager) {
+      return await this.dataSource.transaction(own => this.createEntryWithTransaction(entryData, own));
+    }
 
-      // 4. ✅ Save entry atomically
-      const savedEntry = await manager.save(entry);
+    // 1. ✅ Get current balance with ROW LOCK (prevents race conditions)
+    const currentBalance = await this.getCurrentBalanceWithLock(
+      entryData.studentId, 
+      manager
+    );
 
-      return savedEntry;
+    // 2. ✅ Calculate new balance (NEVER use Math.abs)
+    const newBalance = this.calculationService.calculateRunningBalance(
+      currentBalance,
+      entryData.debit,
+      entryData.credit
+    );
+
+    // 3. ✅ Create entry
+    const entry = manager.create(LedgerEntryV2, {
+      studentId: entryData.studentId,
+      hostelId: entryData.hostelId,
+      type: entryData.type,
+      description: entryData.description,
+      referenceId: entryData.referenceId,
+      debit: entryData.debit,
+      credit: entryData.credit,
+      runningBalance: newBalance, // ACTUAL balance, not absolute
+      balanceType: this.calculationService.determineBalanceType(newBalance),
+      date: entryData.date ? new Date(entryData.date) : new Date(),
+      notes: entryData.notes,
+      isReversed: false
     });
+
+    // 4. ✅ Save entry atomically
+    const savedEntry = await manager.save(entry);
+
+    return savedEntry;
   }
 
   /**
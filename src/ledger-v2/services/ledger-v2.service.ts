@@ -1,12 +1,13 @@
 import { Injectable, NotFoundException } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import { Repository, EntityManager } from 'typeorm';
 import { LedgerEntryV2 } from '../entities/ledger-entry-v2.entity';
 import { Student } from '../../students/entities/student.entity';
 import { Payment, PaymentStatus } from '../../payments/entities/payment.entity';
 import { AdminCharge } from '../../admin-charges/entities/admin-charge.entity';
 import { Discount } from '../../discounts/entities/discount.entity';
 import { Invoice } from '../../invoices/entities/invoice.entity';
+import { Refund } from '../../refunds/entities/refund.entity';
 import { LedgerEntryType } from '../../ledger/entities/ledger-entry.entity';
 import { LedgerTransactionService } from './ledger-transaction.service';
 import { LedgerCalculationService } from './ledger-calculation.service';
@@ -212,8 +213,9 @@ export class LedgerV2Service {
 
   /**
    * ✅ BULLETPROOF: Create payment entry
+   * (in the caller's transaction when its manager is passed)
    */
-  async createPaymentEntry(payment: Payment) {
+  async createPaymentEntry(payment: Payment, manager?: EntityManager) {
     const student = await this.studentRepository.findOne({ where: { id: payment.studentId } });
     if (!student) {
       throw new NotFoundException('Student not found');
@@ -231,7 +233,7 @@ export class LedgerV2Service {
       notes: payment.notes
     };
 
-    const savedEntry = await this.transactionService.createEntryWithTransaction(entryData);
+    const savedEntry = await this.transactionService.createEntryWithTransaction(entryData, manager);
     return this.transformToApiResponse(savedEntry);
   }
 
@@ -260,8 +262,9 @@ export class LedgerV2Service {
 
   /**
    * ✅ BULLETPROOF: Create admin charge entry
+   * (in the caller's transaction when its manager is passed)
    */
-  async createAdminChargeEntry(charge: AdminCharge) {
+  async createAdminChargeEntry(charge: AdminCharge, manager?: EntityManager) {
     const student = await this.studentRepository.findOne({ where: { id: charge.studentId } });
     if (!student) {
       throw new NotFoundException('Student not found');
@@ -278,14 +281,15 @@ export class LedgerV2Service {
       notes: charge.description
     };
 
-    const savedEntry = await this.transactionService.createEntryWithTransaction(entryData);
+    const savedEntry = await this.transactionService.createEntryWithTransaction(entryData, manager);
     return this.transformToApiResponse(savedEntry);
   }
 
   /**
    * ✅ BULLETPROOF: Create discount entry
+   * (in the caller's transaction when its manager is passed)
    */
-  async createDiscountEntry(discount: Discount) {
+  async createDiscountEntry(discount: Discount, manager?: EntityManager) {
     const student = await this.studentRepository.findOne({ where: { id: discount.studentId } });
     if (!student) {
       throw new NotFoundException('Student not found');
@@ -303,6 +307,32 @@ export class LedgerV2Service {
       notes: discount.notes
     };
 
+    const savedEntry = await this.transactionService.createEntryWithTransaction(entryData, manager);
+    return this.transformToApiResponse(savedEntry);
+  }
+
+  /**
+   * ✅ BULLETPROOF: Create refund entry
+   * Money paid back to the student is a debit - it undoes the credit of the refunded payment
+   */
+  async createRefundEntry(refund: Refund) {
+    const student = await this.studentRepository.findOne({ where: { id: refund.studentId } });
+    if (!student) {
+      throw new NotFoundException('Student not found');
+    }
+
+    const entryData: CreateLedgerEntryV2Dto = {
+      studentId: refund.studentId,
+      hostelId: refund.hostelId || student.hostelId,
+      type: LedgerEntryType.REFUND,
+      description: `Refund paid - ${refund.payoutMethod} - ${student.name}`,
+      referenceId: refund.id,
+      debit: parseFloat(refund.amount.toString()),
+      credit: 0,
+      date: (refund.paidAt || new Date()).toISOString(),
+      notes: refund.reason
+    };
+
     const savedEntry = await this.transactionService.createEntryWithTransaction(entryData);
     return this.transformToApiResponse(savedEntry);
   }
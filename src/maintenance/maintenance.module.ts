@@ -5,12 +5,14 @@ import { MaintenanceService } from './maintenance.service';
 import { MaintenanceRequest } from './entities/maintenance-request.entity';
 import { AuthModule } from '../auth/auth.module';
 import { HostelModule } from '../hostel/hostel.module';
+import { EventsModule } from '../events/events.module';
 
 @Module({
   imports: [
     TypeOrmModule.forFeature([MaintenanceRequest]),
     AuthModule,
     HostelModule,
+    EventsModule,
   ],
   controllers: [MaintenanceController],
   providers: [MaintenanceService],
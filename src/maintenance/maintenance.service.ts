@@ -3,12 +3,14 @@ import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
 import { MaintenanceRequest, MaintenanceStatus } from './entities/maintenance-request.entity';
 import { CreateMaintenanceRequestDto, UpdateMaintenanceRequestDto } from './dto/maintenance-request.dto';
+import { DomainEventsService, DomainEventType } from '../events/domain-events.service';
 
 @Injectable()
 export class MaintenanceService {
   constructor(
     @InjectRepository(MaintenanceRequest)
     private maintenanceRepository: Repository<MaintenanceRequest>,
+    private domainEventsService: DomainEventsService,
   ) {}
 
   async getAllRequests(filters: {
@@ -83,7 +85,15 @@ export class MaintenanceService {
       hostelId,
       reportedAt: new Date()
     });
-    return await this.maintenanceRepository.save(request);
+    const saved = await this.maintenanceRepository.save(request);
+
+    this.domainEventsService.publish({
+      type: DomainEventType.MAINTENANCE_REQUEST_OPENED,
+      hostelId,
+      data: { requestId: saved.id, title: saved.title, priority: saved.priority, status: saved.status }
+    });
+
+    return saved;
   }
 
   async updateRequest(id: string, updateRequestDto: UpdateMaintenanceRequestDto, hostelId: string): Promise<MaintenanceRequest> {
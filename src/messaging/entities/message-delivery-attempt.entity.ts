@@ -0,0 +1,45 @@
+import { Entity, Column, ManyToOne, JoinColumn, Index } from 'typeorm';
+import { BaseEntity } from '../../common/entities/base.entity';
+import { MessageDelivery } from './message-delivery.entity';
+
+export enum MessageDeliveryAttemptStatus {
+  SUCCEEDED = 'succeeded',
+  FAILED = 'failed'
+}
+
+@Entity('message_delivery_attempts')
+@Index(['deliveryId', 'attemptNumber'])
+export class MessageDeliveryAttempt extends BaseEntity {
+  @Column({ name: 'delivery_id' })
+  deliveryId: string;
+
+  @Column({ name: 'attempt_number', type: 'int' })
+  attemptNumber: number;
+
+  @Column({
+    type: 'enum',
+    enum: MessageDeliveryAttemptStatus
+  })
+  status: MessageDeliveryAttemptStatus;
+
+  // Name of the transport that handled the attempt (local, smtp, sparrow, whatsapp-cloud)
+  @Column({ type: 'varchar', length: 50 })
+  transport: string;
+
+  @Column({ name: 'provider_message_id', type: 'varchar', length: 255, nullable: true })
+  providerMessageId: string;
+
+  @Column({ name: 'error_message', type: 'text', nullable: true })
+  errorMessage: string;
+
+  @Column({ name: 'started_at', type: 'timestamp' })
+  startedAt: Date;
+
+  @Column({ name: 'duration_ms', type: 'int', nullable: true })
+  durationMs: number;
+
+  // Relations
+  @ManyToOne(() => MessageDelivery, delivery => delivery.attempts, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'delivery_id' })
+  delivery: MessageDelivery;
+}
@@ -0,0 +1,87 @@
+import { Entity, Column, OneToMany, Index } from 'typeorm';
+import { BaseEntity } from '../../common/entities/base.entity';
+
+export enum MessageChannel {
+  EMAIL = 'email',
+  SMS = 'sms',
+  WHATSAPP = 'whatsapp'
+}
+
+export enum MessageDeliveryStatus {
+  PENDING = 'pending',
+  RETRYING = 'retrying',
+  SENT = 'sent',
+  FAILED = 'failed'
+}
+
+export interface StoredMessageAttachment {
+  fileName: string;
+  contentType: string;
+  path: string;
+  size: number;
+}
+
+@Entity('message_deliveries')
+@Index(['hostelId', 'referenceType', 'referenceId'])
+@Index(['status', 'nextAttemptAt'])
+export class MessageDelivery extends BaseEntity {
+  @Column({ name: 'hostel_id' })
+  hostelId: string;
+
+  @Column({
+    type: 'enum',
+    enum: MessageChannel
+  })
+  channel: MessageChannel;
+
+  @Column({ type: 'varchar', length: 255 })
+  recipient: string;
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  subject: string;
+
+  @Column({ type: 'text' })
+  body: string;
+
+  @Column({ type: 'jsonb', default: () => "'[]'" })
+  attachments: StoredMessageAttachment[];
+
+  @Column({
+    type: 'enum',
+    enum: MessageDeliveryStatus,
+    default: MessageDeliveryStatus.PENDING
+  })
+  status: MessageDeliveryStatus;
+
+  // What the message is about, e.g. reference_type 'invoice' + the invoice id
+  @Column({ name: 'reference_type', type: 'varchar', length: 50, nullable: true })
+  referenceType: string;
+
+  @Column({ name: 'reference_id', type: 'varchar', length: 255, nullable: true })
+  referenceId: string;
+
+  @Column({ name: 'attempt_count', type: 'int', default: 0 })
+  attemptCount: number;
+
+  @Column({ name: 'max_attempts', type: 'int', default: 3 })
+  maxAttempts: number;
+
+  @Column({ name: 'next_attempt_at', type: 'timestamp', nullable: true })
+  nextAttemptAt: Date;
+
+  @Column({ name: 'sent_at', type: 'timestamp', nullable: true })
+  sentAt: Date;
+
+  @Column({ name: 'provider_message_id', type: 'varchar', length: 255, nullable: true })
+  providerMessageId: string;
+
+  @Column({ name: 'last_error', type: 'text', nullable: true })
+  lastError: string;
+
+  @Column({ name: 'requested_by', type: 'varchar', length: 255, nullable: true })
+  requestedBy: string;
+
+  // Relations
+  @OneToMany('MessageDeliveryAttempt', 'delivery')
+  attempts: any[];
+}
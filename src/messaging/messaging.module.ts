@@ -0,0 +1,34 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { HttpModule } from '@nestjs/axios';
+import { MessageDelivery } from './entities/message-delivery.entity';
+import { MessageDeliveryAttempt } from './entities/message-delivery-attempt.entity';
+import { MessagingService } from './services/messaging.service';
+import { MESSAGE_TRANSPORTS } from './transports/message-transport.interface';
+import { LocalFileTransport } from './transports/local-file.transport';
+import { SmtpEmailTransport } from './transports/smtp-email.transport';
+import { SparrowSmsTransport } from './transports/sparrow-sms.transport';
+import { WhatsAppCloudTransport } from './transports/whatsapp-cloud.transport';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([MessageDelivery, MessageDeliveryAttempt]),
+    HttpModule.register({
+      timeout: 15000,
+    }),
+  ],
+  providers: [
+    MessagingService,
+    LocalFileTransport,
+    SmtpEmailTransport,
+    SparrowSmsTransport,
+    WhatsAppCloudTransport,
+    {
+      provide: MESSAGE_TRANSPORTS,
+      useFactory: (...transports) => transports,
+      inject: [LocalFileTransport, SmtpEmailTransport, SparrowSmsTransport, WhatsAppCloudTransport]
+    }
+  ],
+  exports: [MessagingService],
+})
+export class MessagingModule {}
@@ -0,0 +1,209 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { MessagingService } from './messaging.service';
+import { MessageDelivery, MessageChannel, MessageDeliveryStatus } from '../entities/message-delivery.entity';
+import { MessageDeliveryAttempt, MessageDeliveryAttemptStatus } from '../entities/message-delivery-attempt.entity';
+import { MESSAGE_TRANSPORTS } from '../transports/message-transport.interface';
+import { INVOICE_MESSAGE_TEMPLATES, formatMessageTemplate } from '../templates/invoice-message.templates';
+
+describe('MessagingService', () => {
+  let service: MessagingService;
+  let savedAttempts: any[];
+
+  const localTransport = {
+    name: 'local',
+    supports: jest.fn(() => true),
+    send: jest.fn(),
+  };
+
+  const mockDeliveryRepository = {
+    create: jest.fn(data => data),
+    save: jest.fn(async delivery => ({ id: 'delivery-1', ...delivery })),
+    findOne: jest.fn(),
+    find: jest.fn(),
+    update: jest.fn(),
+  };
+
+  const mockAttemptRepository = {
+    create: jest.fn(data => data),
+    save: jest.fn(async attempt => {
+      savedAttempts.push(attempt);
+      return attempt;
+    }),
+  };
+
+  const config: Record<string, any> = {
+    MESSAGING_MAX_ATTEMPTS: 2,
+    MESSAGING_RETRY_BASE_DELAY_MS: 1000,
+  };
+
+  beforeEach(async () => {
+    savedAttempts = [];
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        MessagingService,
+        { provide: getRepositoryToken(MessageDelivery), useValue: mockDeliveryRepository },
+        { provide: getRepositoryToken(MessageDeliveryAttempt), useValue: mockAttemptRepository },
+        { provide: MESSAGE_TRANSPORTS, useValue: [localTransport] },
+        { provide: ConfigService, useValue: { get: jest.fn((key, defaultValue) => config[key] ?? defaultValue) } },
+      ],
+    }).compile();
+
+    service = module.get<MessagingService>(MessagingService);
+    mockDeliveryRepository.findOne.mockImplementation(async () => mockDeliveryRepository.save.mock.results.at(-1)?.value);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('send', () => {
+    it('should record a succeeded attempt and mark the delivery sent', async () => {
+      localTransport.send.mockResolvedValue({ providerMessageId: 'local-1' });
+
+      const delivery = await service.send({
+        hostelId: 'hostel-1',
+        channel: MessageChannel.SMS,
+        recipient: '9800000000',
+        body: 'Invoice INV-2082-00001'
+      });
+
+      expect(localTransport.send).toHaveBeenCalledWith(expect.objectContaining({ to: '9800000000', channel: MessageChannel.SMS }));
+      expect(delivery.status).toBe(MessageDeliveryStatus.SENT);
+      expect(delivery.attemptCount).toBe(1);
+      expect(delivery.providerMessageId).toBe('local-1');
+      expect(savedAttempts).toEqual([
+        expect.objectContaining({ attemptNumber: 1, status: MessageDeliveryAttemptStatus.SUCCEEDED, transport: 'local' })
+      ]);
+    });
+
+    it('should schedule a retry with backoff when the first attempt fails', async () => {
+      localTransport.send.mockRejectedValue(new Error('provider down'));
+
+      const before = Date.now();
+      const delivery = await service.send({
+        hostelId: 'hostel-1',
+        channel: MessageChannel.SMS,
+        recipient: '9800000000',
+        body: 'Invoice INV-2082-00001'
+      });
+
+      expect(delivery.status).toBe(MessageDeliveryStatus.RETRYING);
+      expect(delivery.lastError).toBe('provider down');
+      expect(delivery.nextAttemptAt.getTime()).toBeGreaterThanOrEqual(before + 1000);
+      expect(savedAttempts[0]).toEqual(expect.objectContaining({
+        status: MessageDeliveryAttemptStatus.FAILED,
+        errorMessage: 'provider down'
+      }));
+    });
+
+    it('should record a failed attempt when the channel has no usable transport', async () => {
+      config.MESSAGING_SMS_TRANSPORT = 'sparrow';
+
+      try {
+        const delivery = await service.send({
+          hostelId: 'hostel-1',
+          channel: MessageChannel.SMS,
+          recipient: '9800000000',
+          body: 'Invoice INV-2082-00001'
+        });
+
+        expect(localTransport.send).not.toHaveBeenCalled();
+        expect(delivery.status).toBe(MessageDeliveryStatus.RETRYING);
+        expect(delivery.nextAttemptAt).toBeInstanceOf(Date);
+        expect(savedAttempts).toEqual([
+          expect.objectContaining({ status: MessageDeliveryAttemptStatus.FAILED, transport: 'sparrow' })
+        ]);
+      } finally {
+        delete config.MESSAGING_SMS_TRANSPORT;
+      }
+    });
+  });
+
+  describe('retryDueDeliveries', () => {
+    it('should give up once max attempts are reached', async () => {
+      const delivery = {
+        id: 'delivery-2',
+        channel: MessageChannel.SMS,
+        recipient: '9800000000',
+        body: 'Invoice',
+        attachments: [],
+        status: MessageDeliveryStatus.RETRYING,
+        attemptCount: 1,
+        maxAttempts: 2,
+        nextAttemptAt: new Date(Date.now() - 1000)
+      };
+      mockDeliveryRepository.find.mockResolvedValue([delivery]);
+      mockDeliveryRepository.update.mockResolvedValue({ affected: 1 });
+      localTransport.send.mockRejectedValue(new Error('still down'));
+
+      await service.retryDueDeliveries();
+
+      expect(delivery.status).toBe(MessageDeliveryStatus.FAILED);
+      expect(delivery.attemptCount).toBe(2);
+      expect(delivery.nextAttemptAt).toBeNull();
+      expect(savedAttempts[0]).toEqual(expect.objectContaining({ attemptNumber: 2 }));
+    });
+
+    it('should notify the reference handler when a retry succeeds', async () => {
+      const onInvoiceSent = jest.fn(async () => undefined);
+      service.onSent('invoice', onInvoiceSent);
+
+      const delivery = {
+        id: 'delivery-4',
+        channel: MessageChannel.EMAIL,
+        recipient: 'ram@example.com',
+        body: 'Invoice',
+        attachments: [],
+        referenceType: 'invoice',
+        referenceId: 'invoice-1',
+        status: MessageDeliveryStatus.RETRYING,
+        attemptCount: 1,
+        maxAttempts: 3,
+        nextAttemptAt: new Date(Date.now() - 1000)
+      };
+      mockDeliveryRepository.find.mockResolvedValue([delivery]);
+      mockDeliveryRepository.update.mockResolvedValue({ affected: 1 });
+      localTransport.send.mockResolvedValue({ providerMessageId: 'local-2' });
+
+      await service.retryDueDeliveries();
+
+      expect(onInvoiceSent).toHaveBeenCalledWith(expect.objectContaining({
+        referenceId: 'invoice-1',
+        status: MessageDeliveryStatus.SENT
+      }));
+    });
+
+    it('should skip deliveries claimed by another instance', async () => {
+      mockDeliveryRepository.find.mockResolvedValue([{ id: 'delivery-3', nextAttemptAt: new Date() }]);
+      mockDeliveryRepository.update.mockResolvedValue({ affected: 0 });
+
+      const retried = await service.retryDueDeliveries();
+
+      expect(retried).toBe(0);
+      expect(localTransport.send).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('invoice templates', () => {
+    it('should include amount, due date and custom message', () => {
+      const message = formatMessageTemplate(INVOICE_MESSAGE_TEMPLATES[MessageChannel.EMAIL], {
+        studentName: 'Ram',
+        hostelName: 'Kaha Hostel',
+        invoiceNumber: 'INV-2082-00001',
+        period: 'Kartik 2082',
+        amount: 'NPR 8,000.00',
+        balanceDue: 'NPR 8,000.00',
+        dueDate: '2025-11-10',
+        customMessage: '\nPay at the front desk.\n'
+      });
+
+      expect(message.subject).toBe('Invoice INV-2082-00001 from Kaha Hostel');
+      expect(message.body).toContain('Invoice amount: NPR 8,000.00');
+      expect(message.body).toContain('Due date: 2025-11-10');
+      expect(message.body).toContain('Pay at the front desk.');
+    });
+  });
+});
@@ -0,0 +1,339 @@
+import { Injectable, Inject, Logger, OnModuleInit, OnModuleDestroy } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { In, LessThanOrEqual, Repository } from 'typeorm';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { MessageDelivery, MessageChannel, MessageDeliveryStatus, StoredMessageAttachment } from '../entities/message-delivery.entity';
+import { MessageDeliveryAttempt, MessageDeliveryAttemptStatus } from '../entities/message-delivery-attempt.entity';
+import { MESSAGE_TRANSPORTS, MessageAttachment, MessageTransport } from '../transports/message-transport.interface';
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+const DEFAULT_RETRY_BASE_DELAY_MS = 60 * 1000;
+const DEFAULT_RETRY_INTERVAL_MS = 60 * 1000;
+const RETRY_BATCH_SIZE = 50;
+
+/**
+ * Transport used per channel unless overridden with MESSAGING_<CHANNEL>_TRANSPORT
+ */
+const TRANSPORT_CONFIG_KEYS: Record<MessageChannel, string> = {
+  [MessageChannel.EMAIL]: 'MESSAGING_EMAIL_TRANSPORT',
+  [MessageChannel.SMS]: 'MESSAGING_SMS_TRANSPORT',
+  [MessageChannel.WHATSAPP]: 'MESSAGING_WHATSAPP_TRANSPORT'
+};
+
+export interface SendMessageRequest {
+  hostelId: string;
+  channel: MessageChannel;
+  recipient: string;
+  subject?: string;
+  body: string;
+  attachments?: MessageAttachment[];
+  referenceType?: string;
+  referenceId?: string;
+  requestedBy?: string;
+}
+
+/**
+ * Called once a delivery is sent, on the first attempt or a later retry
+ */
+export type MessageSentHandler = (delivery: MessageDelivery) => Promise<void>;
+
+/**
+ * Messaging Service
+ * Outbound email/SMS/WhatsApp delivery. Every message is stored in message_deliveries
+ * and each transport call is recorded in message_delivery_attempts.
+ *
+ * The first attempt runs inline; failed deliveries are retried in the background with
+ * exponential backoff (MESSAGING_RETRY_BASE_DELAY_MS * 2^(attempt-1)) until
+ * MESSAGING_MAX_ATTEMPTS is reached. Attachments are kept on disk so retries resend them.
+ *
+ * Transports are chosen per channel (MESSAGING_EMAIL_TRANSPORT=smtp, MESSAGING_SMS_TRANSPORT=sparrow,
+ * MESSAGING_WHATSAPP_TRANSPORT=whatsapp-cloud) and default to the local file transport.
+ */
+@Injectable()
+export class MessagingService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(MessagingService.name);
+  private readonly storageDir: string;
+  private readonly maxAttempts: number;
+  private readonly retryBaseDelayMs: number;
+  private timer: NodeJS.Timeout | null = null;
+  private retrying = false;
+  private readonly sentHandlers = new Map<string, MessageSentHandler>();
+
+  constructor(
+    @InjectRepository(MessageDelivery)
+    private deliveryRepository: Repository<MessageDelivery>,
+    @InjectRepository(MessageDeliveryAttempt)
+    private attemptRepository: Repository<MessageDeliveryAttempt>,
+    @Inject(MESSAGE_TRANSPORTS)
+    private transports: MessageTransport[],
+    private configService: ConfigService,
+  ) {
+    this.storageDir = path.resolve(this.configService.get('MESSAGING_STORAGE_DIR', path.join('storage', 'messaging')));
+    this.maxAttempts = Number(this.configService.get('MESSAGING_MAX_ATTEMPTS', DEFAULT_MAX_ATTEMPTS));
+    this.retryBaseDelayMs = Number(this.configService.get('MESSAGING_RETRY_BASE_DELAY_MS', DEFAULT_RETRY_BASE_DELAY_MS));
+  }
+
+  onModuleInit() {
+    const retryInterval = Number(this.configService.get('MESSAGING_RETRY_INTERVAL_MS', DEFAULT_RETRY_INTERVAL_MS));
+    this.timer = setInterval(() => this.retryDueDeliveries(), retryInterval);
+  }
+
+  onModuleDestroy() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Register what to do when a message about a referenceType (e.g. 'invoice') is sent
+   */
+  onSent(referenceType: string, handler: MessageSentHandler) {
+    this.sentHandlers.set(referenceType, handler);
+  }
+
+  /**
+   * Store the message and make the first delivery attempt.
+   * Returns the delivery with its attempts; a failed first attempt is not an error,
+   * the delivery is left in RETRYING (or FAILED when retries are disabled).
+   */
+  async send(request: SendMessageRequest): Promise<MessageDelivery> {
+    let delivery = await this.deliveryRepository.save(
+      this.deliveryRepository.create({
+        hostelId: request.hostelId,
+        channel: request.channel,
+        recipient: request.recipient,
+        subject: request.subject,
+        body: request.body,
+        attachments: [],
+        status: MessageDeliveryStatus.PENDING,
+        referenceType: request.referenceType,
+        referenceId: request.referenceId,
+        requestedBy: request.requestedBy,
+        attemptCount: 0,
+        maxAttempts: Math.max(1, this.maxAttempts),
+        // Lets the retry sweep pick the message up if this process dies before the first attempt
+        nextAttemptAt: new Date(Date.now() + this.retryBaseDelayMs)
+      })
+    );
+
+    if (request.attachments?.length) {
+      delivery.attachments = await this.storeAttachments(delivery.id, request.attachments);
+      delivery = await this.deliveryRepository.save(delivery);
+    }
+
+    await this.attemptDelivery(delivery, request.attachments || []);
+
+    return this.getDelivery(delivery.id);
+  }
+
+  async getDelivery(id: string): Promise<MessageDelivery> {
+    return this.deliveryRepository.findOne({
+      where: { id },
+      relations: ['attempts'],
+      order: { attempts: { attemptNumber: 'ASC' } }
+    });
+  }
+
+  async getDeliveriesForReference(hostelId: string, referenceType: string, referenceId: string) {
+    const deliveries = await this.deliveryRepository.find({
+      where: { hostelId, referenceType, referenceId },
+      relations: ['attempts'],
+      order: { createdAt: 'DESC', attempts: { attemptNumber: 'ASC' } }
+    });
+
+    return deliveries.map(delivery => this.transformDeliveryToApiResponse(delivery));
+  }
+
+  /**
+   * Retry deliveries whose backoff has elapsed. Each delivery is claimed by pushing
+   * next_attempt_at forward first, so two instances never retry the same message.
+   */
+  async retryDueDeliveries(): Promise<number> {
+    if (this.retrying) {
+      return 0;
+    }
+    this.retrying = true;
+
+    let retried = 0;
+    try {
+      const dueDeliveries = await this.deliveryRepository.find({
+        where: {
+          status: In([MessageDeliveryStatus.PENDING, MessageDeliveryStatus.RETRYING]),
+          nextAttemptAt: LessThanOrEqual(new Date())
+        },
+        order: { nextAttemptAt: 'ASC' },
+        take: RETRY_BATCH_SIZE
+      });
+
+      for (const delivery of dueDeliveries) {
+        const claim = await this.deliveryRepository.update(
+          { id: delivery.id, nextAttemptAt: delivery.nextAttemptAt },
+          { nextAttemptAt: new Date(Date.now() + this.retryBaseDelayMs) }
+        );
+        if (!claim.affected) {
+          continue;
+        }
+
+        try {
+          await this.attemptDelivery(delivery, await this.loadAttachments(delivery.attachments));
+          retried++;
+        } catch (error) {
+          this.logger.error(`❌ Retry of message ${delivery.id} failed: ${error.message}`);
+        }
+      }
+    } catch (error) {
+      this.logger.error(`❌ Message retry sweep failed: ${error.message}`, error.stack);
+    } finally {
+      this.retrying = false;
+    }
+
+    return retried;
+  }
+
+  private async attemptDelivery(delivery: MessageDelivery, attachments: MessageAttachment[]): Promise<MessageDelivery> {
+    const attemptNumber = delivery.attemptCount + 1;
+    const startedAt = new Date();
+
+    const attempt = this.attemptRepository.create({
+      deliveryId: delivery.id,
+      attemptNumber,
+      transport: this.transportName(delivery.channel),
+      startedAt
+    });
+
+    try {
+      // A channel without a usable transport is a failed attempt, retried like any other
+      const transport = this.resolveTransport(delivery.channel);
+      const result = await transport.send({
+        channel: delivery.channel,
+        to: delivery.recipient,
+        subject: delivery.subject,
+        body: delivery.body,
+        attachments
+      });
+
+      attempt.status = MessageDeliveryAttemptStatus.SUCCEEDED;
+      attempt.providerMessageId = result.providerMessageId;
+
+      delivery.status = MessageDeliveryStatus.SENT;
+      delivery.sentAt = new Date();
+      delivery.providerMessageId = result.providerMessageId;
+      delivery.nextAttemptAt = null;
+      delivery.lastError = null;
+
+      this.logger.log(`✅ ${delivery.channel} message ${delivery.id} sent via ${transport.name} (attempt ${attemptNumber})`);
+    } catch (error) {
+      attempt.status = MessageDeliveryAttemptStatus.FAILED;
+      attempt.errorMessage = error.message;
+
+      delivery.lastError = error.message;
+      if (attemptNumber >= delivery.maxAttempts) {
+        delivery.status = MessageDeliveryStatus.FAILED;
+        delivery.nextAttemptAt = null;
+        this.logger.error(`❌ ${delivery.channel} message ${delivery.id} failed after ${attemptNumber} attempt(s): ${error.message}`);
+      } else {
+        delivery.status = MessageDeliveryStatus.RETRYING;
+        delivery.nextAttemptAt = new Date(Date.now() + this.retryBaseDelayMs * Math.pow(2, attemptNumber - 1));
+        this.logger.warn(`⚠️ ${delivery.channel} message ${delivery.id} attempt ${attemptNumber} failed, retrying at ${delivery.nextAttemptAt.toISOString()}: ${error.message}`);
+      }
+    }
+
+    attempt.durationMs = Date.now() - startedAt.getTime();
+    delivery.attemptCount = attemptNumber;
+
+    await this.attemptRepository.save(attempt);
+    const saved = await this.deliveryRepository.save(delivery);
+
+    if (saved.status === MessageDeliveryStatus.SENT) {
+      await this.notifySent(saved);
+    }
+    return saved;
+  }
+
+  // A failing handler must not turn a sent message into a failed one
+  private async notifySent(delivery: MessageDelivery) {
+    const handler = delivery.referenceType && this.sentHandlers.get(delivery.referenceType);
+    if (!handler) {
+      return;
+    }
+
+    try {
+      await handler(delivery);
+    } catch (error) {
+      this.logger.error(`❌ Sent handler for ${delivery.referenceType} ${delivery.referenceId} failed: ${error.message}`);
+    }
+  }
+
+  private transportName(channel: MessageChannel): string {
+    return this.configService.get(TRANSPORT_CONFIG_KEYS[channel], 'local');
+  }
+
+  private resolveTransport(channel: MessageChannel): MessageTransport {
+    const name = this.transportName(channel);
+    const transport = this.transports.find(candidate => candidate.name === name && candidate.supports(channel));
+
+    if (!transport) {
+      throw new Error(`No "${name}" transport available for ${channel}`);
+    }
+
+    return transport;
+  }
+
+  private async storeAttachments(deliveryId: string, attachments: MessageAttachment[]): Promise<StoredMessageAttachment[]> {
+    const directory = path.join(this.storageDir, 'attachments', deliveryId);
+    await fs.mkdir(directory, { recursive: true });
+
+    const stored: StoredMessageAttachment[] = [];
+    for (const attachment of attachments) {
+      const filePath = path.join(directory, path.basename(attachment.fileName));
+      await fs.writeFile(filePath, attachment.content);
+      stored.push({
+        fileName: attachment.fileName,
+        contentType: attachment.contentType,
+        path: filePath,
+        size: attachment.content.length
+      });
+    }
+
+    return stored;
+  }
+
+  private async loadAttachments(attachments: StoredMessageAttachment[]): Promise<MessageAttachment[]> {
+    return Promise.all((attachments || []).map(async attachment => ({
+      fileName: attachment.fileName,
+      contentType: attachment.contentType,
+      content: await fs.readFile(attachment.path)
+    })));
+  }
+
+  transformDeliveryToApiResponse(delivery: MessageDelivery) {
+    return {
+      id: delivery.id,
+      channel: delivery.channel,
+      recipient: delivery.recipient,
+      subject: delivery.subject,
+      status: delivery.status,
+      attemptCount: delivery.attemptCount,
+      maxAttempts: delivery.maxAttempts,
+      nextAttemptAt: delivery.nextAttemptAt,
+      sentAt: delivery.sentAt,
+      providerMessageId: delivery.providerMessageId,
+      lastError: delivery.lastError,
+      attachments: (delivery.attachments || []).map(({ fileName, contentType, size }) => ({ fileName, contentType, size })),
+      requestedBy: delivery.requestedBy,
+      createdAt: delivery.createdAt,
+      attempts: (delivery.attempts || []).map(attempt => ({
+        attemptNumber: attempt.attemptNumber,
+        status: attempt.status,
+        transport: attempt.transport,
+        providerMessageId: attempt.providerMessageId,
+        errorMessage: attempt.errorMessage,
+        startedAt: attempt.startedAt,
+        durationMs: attempt.durationMs
+      }))
+    };
+  }
+}
@@ -0,0 +1,55 @@
+import { MessageChannel } from '../entities/message-delivery.entity';
+
+export interface MessageTemplate {
+  subject?: string;
+  body: string;
+  variables?: string[];
+}
+
+const INVOICE_VARIABLES = ['studentName', 'hostelName', 'invoiceNumber', 'period', 'amount', 'balanceDue', 'dueDate', 'customMessage'];
+
+export const INVOICE_MESSAGE_TEMPLATES: Record<MessageChannel, MessageTemplate> = {
+  [MessageChannel.EMAIL]: {
+    subject: "Invoice {invoiceNumber} from {hostelName}",
+    body: "Dear {studentName},\n\n" +
+      "Please find attached invoice {invoiceNumber} for {period}.\n\n" +
+      "Invoice amount: {amount}\n" +
+      "Balance due: {balanceDue}\n" +
+      "Due date: {dueDate}\n" +
+      "{customMessage}\n" +
+      "Thank you,\n{hostelName}",
+    variables: INVOICE_VARIABLES
+  },
+
+  [MessageChannel.SMS]: {
+    body: "{hostelName}: Invoice {invoiceNumber} for {period}. Amount {amount}, balance due {balanceDue} by {dueDate}.{customMessage}",
+    variables: INVOICE_VARIABLES
+  },
+
+  [MessageChannel.WHATSAPP]: {
+    body: "Namaste {studentName},\n\n" +
+      "Your invoice {invoiceNumber} for {period} from {hostelName} is attached.\n" +
+      "Amount: {amount}\n" +
+      "Balance due: {balanceDue}\n" +
+      "Due date: {dueDate}\n" +
+      "{customMessage}",
+    variables: INVOICE_VARIABLES
+  }
+};
+
+/**
+ * Fill {placeholders} in a message template. Unknown placeholders are left as-is.
+ */
+export function formatMessageTemplate(
+  template: MessageTemplate,
+  variables: Record<string, string | number>
+): { subject?: string; body: string } {
+  const fill = (text: string) => text.replace(/\{(\w+)\}/g, (placeholder, key) =>
+    key in variables ? String(variables[key] ?? '') : placeholder
+  );
+
+  return {
+    subject: template.subject ? fill(template.subject) : undefined,
+    body: fill(template.body).trim()
+  };
+}
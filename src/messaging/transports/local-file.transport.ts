@@ -0,0 +1,61 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import { MessageChannel } from '../entities/message-delivery.entity';
+import { MessageTransport, OutboundMessage, TransportSendResult } from './message-transport.interface';
+
+/**
+ * Local File Transport
+ * Development/test stand-in for every channel. Instead of contacting a provider it
+ * writes the message (as JSON) and its attachments to <MESSAGING_STORAGE_DIR>/outbox/<channel>
+ * and logs a one-line summary to the console.
+ */
+@Injectable()
+export class LocalFileTransport implements MessageTransport {
+  readonly name = 'local';
+  private readonly logger = new Logger(LocalFileTransport.name);
+  private readonly outboxDir: string;
+
+  constructor(private configService: ConfigService) {
+    this.outboxDir = path.resolve(
+      this.configService.get('MESSAGING_STORAGE_DIR', path.join('storage', 'messaging')),
+      'outbox'
+    );
+  }
+
+  supports(channel: MessageChannel): boolean {
+    return Object.values(MessageChannel).includes(channel);
+  }
+
+  async send(message: OutboundMessage): Promise<TransportSendResult> {
+    const messageId = `local-${randomUUID()}`;
+    const directory = path.join(this.outboxDir, message.channel);
+    await fs.mkdir(directory, { recursive: true });
+
+    const attachments = [];
+    for (const attachment of message.attachments || []) {
+      const fileName = `${messageId}-${attachment.fileName}`;
+      await fs.writeFile(path.join(directory, fileName), attachment.content);
+      attachments.push({ fileName, contentType: attachment.contentType, size: attachment.content.length });
+    }
+
+    await fs.writeFile(
+      path.join(directory, `${messageId}.json`),
+      JSON.stringify({
+        id: messageId,
+        channel: message.channel,
+        to: message.to,
+        subject: message.subject,
+        body: message.body,
+        attachments,
+        writtenAt: new Date().toISOString()
+      }, null, 2)
+    );
+
+    this.logger.log(`📨 [${message.channel}] → ${message.to}: ${message.subject || message.body.split('\n')[0]} (${attachments.length} attachment(s), ${directory})`);
+
+    return { providerMessageId: messageId };
+  }
+}
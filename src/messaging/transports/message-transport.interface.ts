@@ -0,0 +1,32 @@
+import { MessageChannel } from '../entities/message-delivery.entity';
+
+export interface MessageAttachment {
+  fileName: string;
+  contentType: string;
+  content: Buffer;
+}
+
+export interface OutboundMessage {
+  channel: MessageChannel;
+  to: string;
+  subject?: string;
+  body: string;
+  attachments?: MessageAttachment[];
+}
+
+export interface TransportSendResult {
+  providerMessageId?: string;
+}
+
+/**
+ * A transport delivers messages for one or more channels.
+ * send() resolves when the provider accepted the message and throws otherwise;
+ * retries are handled by MessagingService, not by transports.
+ */
+export interface MessageTransport {
+  readonly name: string;
+  supports(channel: MessageChannel): boolean;
+  send(message: OutboundMessage): Promise<TransportSendResult>;
+}
+
+export const MESSAGE_TRANSPORTS = 'MESSAGE_TRANSPORTS';
@@ -0,0 +1,57 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as nodemailer from 'nodemailer';
+import { MessageChannel } from '../entities/message-delivery.entity';
+import { MessageTransport, OutboundMessage, TransportSendResult } from './message-transport.interface';
+
+/**
+ * SMTP Email Transport
+ * Sends email through the SMTP server configured with SMTP_HOST, SMTP_PORT,
+ * SMTP_SECURE, SMTP_USER, SMTP_PASS and MAIL_FROM.
+ */
+@Injectable()
+export class SmtpEmailTransport implements MessageTransport {
+  readonly name = 'smtp';
+  private transporter: nodemailer.Transporter | null = null;
+
+  constructor(private configService: ConfigService) {}
+
+  supports(channel: MessageChannel): boolean {
+    return channel === MessageChannel.EMAIL;
+  }
+
+  async send(message: OutboundMessage): Promise<TransportSendResult> {
+    const info = await this.getTransporter().sendMail({
+      from: this.configService.get('MAIL_FROM'),
+      to: message.to,
+      subject: message.subject,
+      text: message.body,
+      attachments: (message.attachments || []).map(attachment => ({
+        filename: attachment.fileName,
+        content: attachment.content,
+        contentType: attachment.contentType
+      }))
+    });
+
+    return { providerMessageId: info.messageId };
+  }
+
+  private getTransporter(): nodemailer.Transporter {
+    if (!this.transporter) {
+      const host = this.configService.get('SMTP_HOST');
+      if (!host) {
+        throw new Error('SMTP_HOST is not configured');
+      }
+
+      const user = this.configService.get('SMTP_USER');
+      this.transporter = nodemailer.createTransport({
+        host,
+        port: Number(this.configService.get('SMTP_PORT', 587)),
+        secure: this.configService.get('SMTP_SECURE', 'false') === 'true',
+        auth: user ? { user, pass: this.configService.get('SMTP_PASS') } : undefined
+      });
+    }
+
+    return this.transporter;
+  }
+}
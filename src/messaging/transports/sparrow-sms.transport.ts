@@ -0,0 +1,57 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { HttpService } from '@nestjs/axios';
+import { firstValueFrom } from 'rxjs';
+import { MessageChannel } from '../entities/message-delivery.entity';
+import { MessageTransport, OutboundMessage, TransportSendResult } from './message-transport.interface';
+
+const DEFAULT_SPARROW_SMS_URL = 'https://api.sparrowsms.com/v2/sms/';
+
+/**
+ * Sparrow SMS Transport
+ * Sends SMS through Sparrow SMS (SPARROW_SMS_TOKEN, SPARROW_SMS_FROM).
+ * SMS cannot carry attachments, so only the message body is sent.
+ */
+@Injectable()
+export class SparrowSmsTransport implements MessageTransport {
+  readonly name = 'sparrow';
+
+  constructor(
+    private httpService: HttpService,
+    private configService: ConfigService,
+  ) {}
+
+  supports(channel: MessageChannel): boolean {
+    return channel === MessageChannel.SMS;
+  }
+
+  async send(message: OutboundMessage): Promise<TransportSendResult> {
+    const token = this.configService.get('SPARROW_SMS_TOKEN');
+    if (!token) {
+      throw new Error('SPARROW_SMS_TOKEN is not configured');
+    }
+
+    const response = await firstValueFrom(
+      this.httpService.post(this.configService.get('SPARROW_SMS_URL', DEFAULT_SPARROW_SMS_URL), {
+        token,
+        from: this.configService.get('SPARROW_SMS_FROM'),
+        to: toLocalMobileNumber(message.to),
+        text: message.body
+      })
+    );
+
+    if (response.data?.response_code !== 200) {
+      throw new Error(`Sparrow SMS rejected the message: ${response.data?.response || 'unknown error'}`);
+    }
+
+    return { providerMessageId: response.data?.message_id ? String(response.data.message_id) : undefined };
+  }
+}
+
+/**
+ * Sparrow expects 10 digit Nepali mobile numbers without the country code
+ */
+function toLocalMobileNumber(phone: string): string {
+  const digits = phone.replace(/\D/g, '');
+  return digits.length > 10 && digits.startsWith('977') ? digits.substring(3) : digits;
+}
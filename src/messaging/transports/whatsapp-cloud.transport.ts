@@ -0,0 +1,88 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { HttpService } from '@nestjs/axios';
+import { firstValueFrom } from 'rxjs';
+import { MessageChannel } from '../entities/message-delivery.entity';
+import { MessageAttachment, MessageTransport, OutboundMessage, TransportSendResult } from './message-transport.interface';
+
+const DEFAULT_WHATSAPP_API_URL = 'https://graph.facebook.com/v19.0';
+
+/**
+ * WhatsApp Cloud API Transport
+ * Sends WhatsApp messages through Meta's Cloud API (WHATSAPP_PHONE_NUMBER_ID,
+ * WHATSAPP_ACCESS_TOKEN). When the message has an attachment the first one is
+ * uploaded as media and sent as a document with the body as its caption.
+ */
+@Injectable()
+export class WhatsAppCloudTransport implements MessageTransport {
+  readonly name = 'whatsapp-cloud';
+
+  constructor(
+    private httpService: HttpService,
+    private configService: ConfigService,
+  ) {}
+
+  supports(channel: MessageChannel): boolean {
+    return channel === MessageChannel.WHATSAPP;
+  }
+
+  async send(message: OutboundMessage): Promise<TransportSendResult> {
+    const phoneNumberId = this.configService.get('WHATSAPP_PHONE_NUMBER_ID');
+    const accessToken = this.configService.get('WHATSAPP_ACCESS_TOKEN');
+    if (!phoneNumberId || !accessToken) {
+      throw new Error('WHATSAPP_PHONE_NUMBER_ID and WHATSAPP_ACCESS_TOKEN must be configured');
+    }
+
+    const baseUrl = `${this.configService.get('WHATSAPP_API_URL', DEFAULT_WHATSAPP_API_URL)}/${phoneNumberId}`;
+    const headers = { Authorization: `Bearer ${accessToken}` };
+    const attachment = message.attachments?.[0];
+
+    const payload: Record<string, any> = {
+      messaging_product: 'whatsapp',
+      to: toInternationalNumber(message.to)
+    };
+
+    if (attachment) {
+      payload.type = 'document';
+      payload.document = {
+        id: await this.uploadMedia(baseUrl, headers, attachment),
+        filename: attachment.fileName,
+        caption: message.body
+      };
+    } else {
+      payload.type = 'text';
+      payload.text = { body: message.body };
+    }
+
+    const response = await firstValueFrom(
+      this.httpService.post(`${baseUrl}/messages`, payload, { headers })
+    );
+
+    return { providerMessageId: response.data?.messages?.[0]?.id };
+  }
+
+  private async uploadMedia(baseUrl: string, headers: Record<string, string>, attachment: MessageAttachment): Promise<string> {
+    const form = new FormData();
+    form.append('messaging_product', 'whatsapp');
+    form.append('type', attachment.contentType);
+    form.append('file', new Blob([new Uint8Array(attachment.content)], { type: attachment.contentType }), attachment.fileName);
+
+    const response = await firstValueFrom(
+      this.httpService.post(`${baseUrl}/media`, form, { headers })
+    );
+
+    if (!response.data?.id) {
+      throw new Error('WhatsApp media upload returned no media id');
+    }
+
+    return response.data.id;
+  }
+}
+
+/**
+ * WhatsApp needs the country code; local 10 digit numbers are assumed to be Nepali (+977)
+ */
+function toInternationalNumber(phone: string): string {
+  const digits = phone.replace(/\D/g, '');
+  return digits.length === 10 ? `977${digits}` : digits;
+}
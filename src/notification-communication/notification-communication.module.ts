@@ -3,12 +3,14 @@ import { HttpModule } from '@nestjs/axios';
 import { ConfigModule } from '@nestjs/config';
 import { NotificationCommunicationService } from './notification-communication.service';
 import { HostelModule } from '../hostel/hostel.module';
+import { NotificationModule } from '../notification/notification.module';
 
 @Module({
   imports: [
     HttpModule,
     ConfigModule,
     HostelModule, // Import HostelModule to use HostelService
+    NotificationModule, // Booking messages are rendered from notification templates
   ],
   providers: [NotificationCommunicationService],
   exports: [NotificationCommunicationService],
@@ -8,11 +8,9 @@ import {
   BookingNotificationDto 
 } from './dto/send-notification.dto';
 import { PushNotificationTypeEnum } from './enums/notification-types.enum';
-import { 
-  BOOKING_NOTIFICATION_MESSAGES, 
-  formatNotificationMessage 
-} from './templates/booking-notification-messages';
 import { HostelService } from '../hostel/hostel.service';
+import { NotificationTemplateService } from '../notification/notification-template.service';
+import { NotificationTemplateKey } from '../notification/templates/default-notification-templates';
 
 @Injectable()
 export class NotificationCommunicationService {
@@ -24,6 +22,7 @@ export class NotificationCommunicationService {
     private readonly httpService: HttpService,
     private readonly configService: ConfigService,
     private readonly hostelService: HostelService,
+    private readonly notificationTemplateService: NotificationTemplateService,
   ) {
     // Get URLs from centralized config
     const apiConfig = getExternalApiConfig(this.configService);
@@ -154,8 +153,7 @@ export class NotificationCommunicationService {
   async sendBookingRequestNotification(data: BookingNotificationDto): Promise<void> {
     console.log('📱 Preparing BOOKING_REQUEST notification with data:', JSON.stringify(data, null, 2));
     
-    const template = BOOKING_NOTIFICATION_MESSAGES[PushNotificationTypeEnum.BOOKING_REQUEST];
-    const { title, message } = formatNotificationMessage(template, {
+    const { title, message } = await this.notificationTemplateService.render(data.hostelId, NotificationTemplateKey.BOOKING_REQUEST, {
       contactName: data.contactName,
       checkInDate: data.checkInDate,
       guestCount: data.guestCount || 1
@@ -191,8 +189,7 @@ export class NotificationCommunicationService {
    * Send booking approval notification to contact person (user notification)
    */
   async sendBookingApprovedNotification(data: BookingNotificationDto): Promise<void> {
-    const template = BOOKING_NOTIFICATION_MESSAGES[PushNotificationTypeEnum.BOOKING_APPROVED];
-    const { title, message } = formatNotificationMessage(template, {
+    const { title, message } = await this.notificationTemplateService.render(data.hostelId, NotificationTemplateKey.BOOKING_APPROVED, {
       checkInDate: data.checkInDate,
       hostelName: data.hostelName
     });
@@ -219,8 +216,7 @@ export class NotificationCommunicationService {
    * Send booking rejection notification to contact person (user notification)
    */
   async sendBookingRejectedNotification(data: BookingNotificationDto): Promise<void> {
-    const template = BOOKING_NOTIFICATION_MESSAGES[PushNotificationTypeEnum.BOOKING_REJECTED];
-    const { title, message } = formatNotificationMessage(template, {
+    const { title, message } = await this.notificationTemplateService.render(data.hostelId, NotificationTemplateKey.BOOKING_REJECTED, {
       checkInDate: data.checkInDate,
       reason: data.reason || 'No specific reason provided'
     });
@@ -247,8 +243,7 @@ export class NotificationCommunicationService {
    * Send multi-guest booking confirmation notification to contact person (user notification)
    */
   async sendBookingConfirmedNotification(data: BookingNotificationDto): Promise<void> {
-    const template = BOOKING_NOTIFICATION_MESSAGES[PushNotificationTypeEnum.BOOKING_CONFIRMED];
-    const { title, message } = formatNotificationMessage(template, {
+    const { title, message } = await this.notificationTemplateService.render(data.hostelId, NotificationTemplateKey.BOOKING_CONFIRMED, {
       guestCount: data.guestCount || 1,
       checkInDate: data.checkInDate,
       hostelName: data.hostelName
@@ -276,8 +271,7 @@ export class NotificationCommunicationService {
    * Send booking cancellation notification to contact person (user notification)
    */
   async sendBookingCancelledNotification(data: BookingNotificationDto): Promise<void> {
-    const template = BOOKING_NOTIFICATION_MESSAGES[PushNotificationTypeEnum.BOOKING_CANCELLED];
-    const { title, message } = formatNotificationMessage(template, {
+    const { title, message } = await this.notificationTemplateService.render(data.hostelId, NotificationTemplateKey.BOOKING_CANCELLED, {
       checkInDate: data.checkInDate,
       reason: data.reason || 'No specific reason provided'
     });
@@ -0,0 +1,27 @@
+import { IsEnum, IsInt, IsOptional, Max, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { PaginationDto } from '../../common/dto/pagination.dto';
+import { NotificationChannel, OutboxStatus } from '../entities/notification-outbox.entity';
+
+export class NotificationOutboxFilterDto extends PaginationDto {
+  @ApiPropertyOptional({ description: 'Filter by delivery status; `dead` lists the dead letters', enum: OutboxStatus })
+  @IsOptional()
+  @IsEnum(OutboxStatus)
+  status?: OutboxStatus;
+
+  @ApiPropertyOptional({ description: 'Filter by channel', enum: NotificationChannel })
+  @IsOptional()
+  @IsEnum(NotificationChannel)
+  channel?: NotificationChannel;
+}
+
+export class NotificationMetricsQueryDto {
+  @ApiPropertyOptional({ description: 'Look back this many hours', minimum: 1, maximum: 720, default: 24 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(720)
+  hours?: number = 24;
+}
@@ -0,0 +1,62 @@
+import { IsArray, IsEnum, IsOptional, IsString, Matches, MaxLength, ValidateIf } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { NotificationCategory } from '../entities/notification.entity';
+import { NotificationChannel } from '../entities/notification-outbox.entity';
+import { DigestMode } from '../entities/notification-preference.entity';
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+/**
+ * Fields left out keep their current value
+ */
+export class UpdateNotificationPreferenceDto {
+  @ApiPropertyOptional({
+    description: 'Categories the user does not want pushed',
+    enum: NotificationCategory,
+    isArray: true,
+    example: [NotificationCategory.BULK_MESSAGE]
+  })
+  @IsOptional()
+  @IsArray()
+  @IsEnum(NotificationCategory, { each: true })
+  mutedCategories?: NotificationCategory[];
+
+  @ApiPropertyOptional({
+    description: 'Channels the user does not want pushed',
+    enum: NotificationChannel,
+    isArray: true,
+    example: []
+  })
+  @IsOptional()
+  @IsArray()
+  @IsEnum(NotificationChannel, { each: true })
+  mutedChannels?: NotificationChannel[];
+
+  @ApiPropertyOptional({ description: 'Start of quiet hours (HH:mm); null turns quiet hours off', example: '22:00', nullable: true })
+  @IsOptional()
+  @ValidateIf((_, value) => value !== null)
+  @Matches(TIME_PATTERN, { message: 'quietHoursStart must be HH:mm' })
+  quietHoursStart?: string | null;
+
+  @ApiPropertyOptional({ description: 'End of quiet hours (HH:mm); may be the next morning', example: '07:00', nullable: true })
+  @IsOptional()
+  @ValidateIf((_, value) => value !== null)
+  @Matches(TIME_PATTERN, { message: 'quietHoursEnd must be HH:mm' })
+  quietHoursEnd?: string | null;
+
+  @ApiPropertyOptional({ description: 'IANA timezone for quiet hours and the digest time', example: 'Asia/Kathmandu' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(64)
+  timezone?: string;
+
+  @ApiPropertyOptional({ enum: DigestMode, description: 'daily holds pushes and sends one summary at digestTime' })
+  @IsOptional()
+  @IsEnum(DigestMode)
+  digestMode?: DigestMode;
+
+  @ApiPropertyOptional({ description: 'When the daily digest is sent (HH:mm)', example: '19:00' })
+  @IsOptional()
+  @Matches(TIME_PATTERN, { message: 'digestTime must be HH:mm' })
+  digestTime?: string;
+}
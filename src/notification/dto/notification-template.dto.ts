@@ -0,0 +1,86 @@
+import { IsArray, IsEnum, IsNotEmpty, IsObject, IsOptional, IsString, Matches, MaxLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { NotificationCategory } from '../entities/notification.entity';
+import { NotificationLanguage } from '../entities/notification-template.entity';
+
+export class UpsertNotificationTemplateDto {
+  @ApiProperty({ description: 'Title; may use {variable} placeholders', example: 'Payment Received' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  title: string;
+
+  @ApiProperty({
+    description: 'Message; may use {variable} placeholders',
+    example: 'We received {currency} {amount}. Thank you!'
+  })
+  @IsString()
+  @IsNotEmpty()
+  message: string;
+
+  @ApiPropertyOptional({
+    description: 'Variables the text may use. Fixed for built-in keys; required for custom keys that use placeholders',
+    example: ['currency', 'amount']
+  })
+  @IsOptional()
+  @IsArray()
+  @Matches(/^\w+$/, { each: true, message: 'variables must be letters, digits or underscores' })
+  variables?: string[];
+
+  @ApiPropertyOptional({ enum: NotificationCategory, description: 'Category of a custom key; fixed for built-in keys' })
+  @IsOptional()
+  @IsEnum(NotificationCategory)
+  category?: NotificationCategory;
+
+  @ApiPropertyOptional({ description: 'When the template is sent', example: 'Student: a payment was recorded' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  description?: string;
+}
+
+export class PreviewNotificationTemplateDto {
+  @ApiProperty({ example: 'Payment Received' })
+  @IsString()
+  @IsNotEmpty()
+  title: string;
+
+  @ApiProperty({ example: 'We received {currency} {amount}. Thank you!' })
+  @IsString()
+  @IsNotEmpty()
+  message: string;
+
+  @ApiPropertyOptional({ description: 'Declared variables to check the text against', example: ['currency', 'amount'] })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  variables?: string[];
+
+  @ApiPropertyOptional({ description: 'Sample values; missing ones are left as placeholders', example: { currency: 'NPR', amount: '5,000' } })
+  @IsOptional()
+  @IsObject()
+  values?: Record<string, string | number>;
+}
+
+export class RenderNotificationTemplateDto {
+  @ApiPropertyOptional({ enum: NotificationLanguage, description: 'Defaults to the hostel\'s notification language' })
+  @IsOptional()
+  @IsEnum(NotificationLanguage)
+  language?: NotificationLanguage;
+
+  @ApiProperty({ description: 'A value for every variable of the template', example: { currency: 'NPR', amount: '5,000' } })
+  @IsObject()
+  variables: Record<string, string | number>;
+}
+
+export class NotificationTemplateFilterDto {
+  @ApiPropertyOptional({ enum: NotificationCategory })
+  @IsOptional()
+  @IsEnum(NotificationCategory)
+  category?: NotificationCategory;
+
+  @ApiPropertyOptional({ enum: NotificationLanguage })
+  @IsOptional()
+  @IsEnum(NotificationLanguage)
+  language?: NotificationLanguage;
+}
@@ -0,0 +1,126 @@
+import {
+  IsArray,
+  IsBoolean,
+  IsDateString,
+  IsEnum,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUUID,
+  MaxLength,
+  ValidateNested
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { PaginationDto } from '../../common/dto/pagination.dto';
+import { Gender } from '../../rooms/entities/room.entity';
+import {
+  BroadcastPaymentStatus,
+  BroadcastRecurrence,
+  BroadcastStatus
+} from '../entities/scheduled-broadcast.entity';
+
+const ROOM_GENDERS = [Gender.MALE, Gender.FEMALE, Gender.MIXED];
+
+/**
+ * Filters left out do not narrow the audience; an empty audience is every
+ * active student of the hostel
+ */
+export class BroadcastAudienceDto {
+  @ApiPropertyOptional({ description: 'Only these students', type: [String] })
+  @IsOptional()
+  @IsArray()
+  @IsUUID('4', { each: true })
+  studentIds?: string[];
+
+  @ApiPropertyOptional({ description: 'Students in rooms on these floors', type: [Number], example: [1, 2] })
+  @IsOptional()
+  @IsArray()
+  @IsInt({ each: true })
+  floors?: number[];
+
+  @ApiPropertyOptional({ description: 'Students in rooms of these room types', type: [String] })
+  @IsOptional()
+  @IsArray()
+  @IsUUID('4', { each: true })
+  roomTypeIds?: string[];
+
+  @ApiPropertyOptional({ description: 'Students in rooms for these genders', enum: ROOM_GENDERS, isArray: true })
+  @IsOptional()
+  @IsArray()
+  @IsIn(ROOM_GENDERS, { each: true })
+  genders?: string[];
+
+  @ApiPropertyOptional({
+    description: '`paid`: nothing outstanding, `due`: unpaid invoices not yet overdue, `overdue`: an overdue invoice',
+    enum: BroadcastPaymentStatus,
+    isArray: true
+  })
+  @IsOptional()
+  @IsArray()
+  @IsEnum(BroadcastPaymentStatus, { each: true })
+  paymentStatuses?: BroadcastPaymentStatus[];
+
+  @ApiPropertyOptional({ description: 'Only students who checked out of the building today (hostel time)' })
+  @IsOptional()
+  @IsBoolean()
+  checkedOutToday?: boolean;
+}
+
+export class CreateScheduledBroadcastDto {
+  @ApiProperty({ description: 'Notification title', example: 'Rent reminder' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  title: string;
+
+  @ApiProperty({ description: 'Notification message', example: 'Rent for this month is due on Sunday' })
+  @IsString()
+  @IsNotEmpty()
+  message: string;
+
+  @ApiPropertyOptional({ description: 'Optional image URL for notification' })
+  @IsOptional()
+  @IsString()
+  imageUrl?: string;
+
+  @ApiPropertyOptional({ type: BroadcastAudienceDto })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => BroadcastAudienceDto)
+  audience?: BroadcastAudienceDto;
+
+  @ApiPropertyOptional({
+    description: 'First send (ISO 8601 with offset); defaults to now',
+    example: '2026-10-23T18:00:00+05:45'
+  })
+  @IsOptional()
+  @IsDateString()
+  sendAt?: string;
+
+  @ApiPropertyOptional({
+    description: 'Repeat at the local time of sendAt; monthly repeats on its day of month (1-28)',
+    enum: BroadcastRecurrence,
+    default: BroadcastRecurrence.NONE
+  })
+  @IsOptional()
+  @IsEnum(BroadcastRecurrence)
+  recurrence?: BroadcastRecurrence;
+
+  @ApiPropertyOptional({ description: 'Stop a recurring broadcast after this time' })
+  @IsOptional()
+  @IsDateString()
+  endsAt?: string;
+}
+
+export class ScheduledBroadcastFilterDto extends PaginationDto {
+  @ApiPropertyOptional({
+    description: 'Filter by status; without it only upcoming (scheduled) broadcasts are listed',
+    enum: BroadcastStatus
+  })
+  @IsOptional()
+  @IsEnum(BroadcastStatus)
+  status?: BroadcastStatus;
+}
@@ -4,3 +4,13 @@ export {
   NotificationCategory, 
   DeliveryStatus 
 } from './notification.entity';
+export { NotificationTemplate, NotificationLanguage } from './notification-template.entity';
+export { NotificationOutbox, NotificationChannel, OutboxStatus } from './notification-outbox.entity';
+export { NotificationPreference, DigestMode } from './notification-preference.entity';
+export {
+  ScheduledBroadcast,
+  BroadcastRecurrence,
+  BroadcastStatus,
+  BroadcastPaymentStatus,
+  BroadcastAudience
+} from './scheduled-broadcast.entity';
@@ -0,0 +1,92 @@
+import { Entity, Column, ManyToOne, JoinColumn, Index } from 'typeorm';
+import { BaseEntity } from '../../common/entities/base.entity';
+import { Notification } from './notification.entity';
+
+export enum NotificationChannel {
+  GENERAL_PUSH = 'general_push',  // Express send-general-notification (no deep link)
+  BOOKING_PUSH = 'booking_push'   // Express send-hostel-booking-notification (opens the booking)
+}
+
+export enum OutboxStatus {
+  PENDING = 'pending',        // Waiting for its first or next attempt
+  PROCESSING = 'processing',  // Claimed by the dispatcher
+  SENT = 'sent',
+  SKIPPED = 'skipped',        // Recipient has no registered device
+  DEAD = 'dead'               // Out of attempts; only a manual retry sends it again
+}
+
+/**
+ * Delivery job for one Notification. Written in the same transaction as the
+ * notification record (and the business change, when the caller passes its
+ * EntityManager), then picked up by the dispatcher, which looks up the
+ * recipient's devices and posts `payload` to the channel's endpoint.
+ */
+@Entity('notification_outbox')
+@Index(['notificationId'], { unique: true })
+@Index(['status', 'nextAttemptAt'])
+@Index(['hostelId', 'status'])
+@Index(['channel', 'createdAt'])
+export class NotificationOutbox extends BaseEntity {
+  @Column({ name: 'notification_id' })
+  notificationId: string;
+
+  @Column({ name: 'hostel_id', nullable: true })
+  hostelId: string;
+
+  @Column({ type: 'enum', enum: NotificationChannel })
+  channel: NotificationChannel;
+
+  // Whose devices get the push: a user, or the owner of a business (looked up at send time)
+  @Column({ name: 'target_user_id', nullable: true })
+  targetUserId: string;
+
+  @Column({ name: 'target_business_id', nullable: true })
+  targetBusinessId: string;
+
+  // Request body for the channel endpoint; the device token is added when sending
+  @Column({ type: 'jsonb' })
+  payload: Record<string, any>;
+
+  @Column({
+    type: 'enum',
+    enum: OutboxStatus,
+    default: OutboxStatus.PENDING
+  })
+  status: OutboxStatus;
+
+  @Column({ type: 'int', default: 0 })
+  attempts: number;
+
+  @Column({ name: 'max_attempts', type: 'int' })
+  maxAttempts: number;
+
+  @Column({ name: 'next_attempt_at', type: 'timestamp with time zone' })
+  nextAttemptAt: Date;
+
+  // When the first attempt was due: enqueue time, or later for quiet hours and digests
+  // (null on jobs queued before preferences existed, which were due at createdAt)
+  @Column({ name: 'scheduled_for', type: 'timestamp with time zone', nullable: true })
+  scheduledFor: Date;
+
+  // Held for the recipient's digest; due digest jobs of one user go out as a single push
+  @Column({ type: 'boolean', default: false })
+  digest: boolean;
+
+  @Column({ name: 'locked_at', type: 'timestamp with time zone', nullable: true })
+  lockedAt: Date;
+
+  @Column({ name: 'last_error', type: 'text', nullable: true })
+  lastError: string;
+
+  @Column({ name: 'delivered_at', type: 'timestamp with time zone', nullable: true })
+  deliveredAt: Date;
+
+  // From scheduledFor to delivery, retries included
+  @Column({ name: 'latency_ms', type: 'int', nullable: true })
+  latencyMs: number;
+
+  // Relations
+  @ManyToOne(() => Notification, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'notification_id' })
+  notification: Notification;
+}
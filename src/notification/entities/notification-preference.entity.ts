@@ -0,0 +1,49 @@
+import { Entity, Column, Index } from 'typeorm';
+import { BaseEntity } from '../../common/entities/base.entity';
+import { NotificationCategory } from './notification.entity';
+import { NotificationChannel } from './notification-outbox.entity';
+
+export enum DigestMode {
+  OFF = 'off',      // Push each notification as it comes
+  DAILY = 'daily'   // Hold pushes and send one summary at digestTime
+}
+
+/**
+ * A user's choices for push notifications, applied when a notification is
+ * queued. Muted categories and channels are recorded but not pushed; quiet
+ * hours and digest mode only delay the push. Users without a row get every
+ * notification immediately.
+ */
+@Entity('notification_preferences')
+@Index(['userId'], { unique: true })
+export class NotificationPreference extends BaseEntity {
+  @Column({ name: 'user_id' })
+  userId: string;
+
+  @Column({ name: 'muted_categories', type: 'jsonb', default: () => "'[]'" })
+  mutedCategories: NotificationCategory[];
+
+  @Column({ name: 'muted_channels', type: 'jsonb', default: () => "'[]'" })
+  mutedChannels: NotificationChannel[];
+
+  // HH:mm in `timezone`; the window may run past midnight (22:00 - 07:00)
+  @Column({ name: 'quiet_hours_start', length: 5, nullable: true })
+  quietHoursStart: string;
+
+  @Column({ name: 'quiet_hours_end', length: 5, nullable: true })
+  quietHoursEnd: string;
+
+  @Column({ length: 64, default: 'Asia/Kathmandu' })
+  timezone: string;
+
+  @Column({
+    name: 'digest_mode',
+    type: 'enum',
+    enum: DigestMode,
+    default: DigestMode.OFF
+  })
+  digestMode: DigestMode;
+
+  @Column({ name: 'digest_time', length: 5, default: '19:00' })
+  digestTime: string;
+}
@@ -0,0 +1,59 @@
+import { Entity, Column, ManyToOne, JoinColumn, Index } from 'typeorm';
+import { BaseEntity } from '../../common/entities/base.entity';
+import { Hostel } from '../../hostel/entities/hostel.entity';
+import { NotificationCategory } from './notification.entity';
+
+export enum NotificationLanguage {
+  EN = 'en',
+  NE = 'ne'  // Nepali (Devanagari)
+}
+
+/**
+ * A hostel's own wording for a notification in one language. Built-in
+ * templates live in DEFAULT_NOTIFICATION_TEMPLATES; a row here replaces the
+ * default for that hostel and language, deleting it goes back to the
+ * default. Hostels can also add keys of their own.
+ *
+ * `title` and `message` use {variable} placeholders, and only the declared
+ * `variables` may appear in them.
+ */
+@Entity('notification_templates')
+@Index(['hostelId', 'key', 'language'], { unique: true })
+@Index(['hostelId', 'category'])
+export class NotificationTemplate extends BaseEntity {
+  @Column({ name: 'hostel_id' })
+  hostelId: string;
+
+  @Column({ length: 100 })
+  key: string;
+
+  @Column({ type: 'enum', enum: NotificationCategory })
+  category: NotificationCategory;
+
+  @Column({
+    type: 'enum',
+    enum: NotificationLanguage,
+    default: NotificationLanguage.EN
+  })
+  language: NotificationLanguage;
+
+  @Column({ length: 255 })
+  title: string;
+
+  @Column({ type: 'text' })
+  message: string;
+
+  @Column({ type: 'jsonb', default: [] })
+  variables: string[];
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  description: string;
+
+  @Column({ name: 'updated_by', nullable: true })
+  updatedBy: string;
+
+  // Relations
+  @ManyToOne(() => Hostel, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'hostel_id' })
+  hostel: Hostel;
+}
@@ -22,7 +22,8 @@ export enum DeliveryStatus {
   PENDING = 'PENDING',
   SENT = 'SENT',
   FAILED = 'FAILED',
-  SKIPPED = 'SKIPPED'
+  SKIPPED = 'SKIPPED',
+  DEAD_LETTER = 'DEAD_LETTER'  // Delivery gave up after its retries; can be retried by an admin
 }
 
 @Entity('notifications')
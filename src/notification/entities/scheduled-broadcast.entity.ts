@@ -0,0 +1,113 @@
+import { Entity, Column, Index } from 'typeorm';
+import { BaseEntity } from '../../common/entities/base.entity';
+
+export enum BroadcastRecurrence {
+  NONE = 'none',
+  DAILY = 'daily',
+  WEEKLY = 'weekly',     // Same weekday and time as sendAt
+  MONTHLY = 'monthly'    // Same day of month as sendAt (1-28)
+}
+
+export enum BroadcastStatus {
+  SCHEDULED = 'scheduled',   // Waiting for nextRunAt
+  SENDING = 'sending',       // Claimed by the sweep
+  COMPLETED = 'completed',   // One-off sent, or recurrence ended
+  CANCELLED = 'cancelled',
+  FAILED = 'failed'          // One-off that could not be sent
+}
+
+export enum BroadcastPaymentStatus {
+  PAID = 'paid',         // No outstanding invoices
+  DUE = 'due',           // Unpaid or partially paid invoices, none overdue yet
+  OVERDUE = 'overdue'    // At least one overdue invoice
+}
+
+/**
+ * Who a broadcast goes to. Every filter that is set narrows the audience;
+ * within a filter any listed value matches. No filters means every active
+ * student. Resolved again at each send, so recurring broadcasts follow
+ * students moving in, out and between rooms.
+ */
+export interface BroadcastAudience {
+  studentIds?: string[];
+  floors?: number[];
+  roomTypeIds?: string[];
+  genders?: string[];                          // Room gender (Male, Female, Mixed)
+  paymentStatuses?: BroadcastPaymentStatus[];
+  checkedOutToday?: boolean;                   // Attendance check-out today, hostel time
+}
+
+/**
+ * An announcement to send to the hostel's students at a future time, once
+ * or on a recurrence, via the bulk message path of send-to-students.
+ */
+@Entity('scheduled_broadcasts')
+@Index(['status', 'nextRunAt'])
+@Index(['hostelId', 'status'])
+export class ScheduledBroadcast extends BaseEntity {
+  @Column({ name: 'hostel_id' })
+  hostelId: string;
+
+  @Column({ length: 255 })
+  title: string;
+
+  @Column({ type: 'text' })
+  message: string;
+
+  @Column({ name: 'image_url', nullable: true })
+  imageUrl: string;
+
+  @Column({ type: 'jsonb', default: () => "'{}'" })
+  audience: BroadcastAudience;
+
+  @Column({
+    type: 'enum',
+    enum: BroadcastRecurrence,
+    default: BroadcastRecurrence.NONE
+  })
+  recurrence: BroadcastRecurrence;
+
+  @Column({
+    type: 'enum',
+    enum: BroadcastStatus,
+    default: BroadcastStatus.SCHEDULED
+  })
+  status: BroadcastStatus;
+
+  // First send; later sends keep its local time of day
+  @Column({ name: 'send_at', type: 'timestamp with time zone' })
+  sendAt: Date;
+
+  @Column({ name: 'next_run_at', type: 'timestamp with time zone', nullable: true })
+  nextRunAt: Date;
+
+  // Recurring broadcasts stop after this time
+  @Column({ name: 'ends_at', type: 'timestamp with time zone', nullable: true })
+  endsAt: Date;
+
+  @Column({ name: 'last_run_at', type: 'timestamp with time zone', nullable: true })
+  lastRunAt: Date;
+
+  @Column({ name: 'run_count', type: 'int', default: 0 })
+  runCount: number;
+
+  // { recipients, sent, failed, skipped } of the last send
+  @Column({ name: 'last_result', type: 'jsonb', nullable: true })
+  lastResult: Record<string, any>;
+
+  @Column({ name: 'last_error', type: 'text', nullable: true })
+  lastError: string;
+
+  @Column({ name: 'created_by' })
+  createdBy: string;
+
+  // The creator's business, used as the sender name
+  @Column({ name: 'business_id', nullable: true })
+  businessId: string;
+
+  @Column({ name: 'cancelled_by', nullable: true })
+  cancelledBy: string;
+
+  @Column({ name: 'cancelled_at', type: 'timestamp with time zone', nullable: true })
+  cancelledAt: Date;
+}
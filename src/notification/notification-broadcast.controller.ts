@@ -0,0 +1,89 @@
+import { Controller, Get, Post, Body, Param, Query, HttpStatus, HttpCode, UseGuards, ParseUUIDPipe } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
+import { NotificationBroadcastService } from './notification-broadcast.service';
+import { CreateScheduledBroadcastDto, ScheduledBroadcastFilterDto } from './dto/scheduled-broadcast.dto';
+import { ScheduledBroadcast } from './entities/scheduled-broadcast.entity';
+import { GetHostelId } from '../hostel/decorators/hostel-context.decorator';
+import { HostelAuthWithContextGuard } from '../auth/guards/hostel-auth-with-context.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { JwtPayload } from '../auth/interfaces/jwt-payload.interface';
+import { RolesGuard } from '../staff-roles/guards/roles.guard';
+import { Permissions } from '../staff-roles/decorators/permissions.decorator';
+import { Permission } from '../staff-roles/permissions';
+import { Audited } from '../audit/decorators/audited.decorator';
+
+@ApiTags('Notification Broadcasts')
+@Controller('notification/broadcasts')
+@UseGuards(HostelAuthWithContextGuard, RolesGuard)
+@Audited({ entity: ScheduledBroadcast })
+@ApiBearerAuth()
+export class NotificationBroadcastController {
+  constructor(private readonly notificationBroadcastService: NotificationBroadcastService) { }
+
+  @Post()
+  @Permissions(Permission.NOTIFICATION_BROADCAST)
+  @ApiOperation({
+    summary: 'Schedule a broadcast to students',
+    description: 'Sent once at sendAt, or repeated daily, weekly or monthly. ' +
+      'The audience is resolved at each send from room type, gender, floor, payment status and attendance filters'
+  })
+  @ApiResponse({ status: 201, description: 'Broadcast scheduled' })
+  @ApiResponse({ status: 400, description: 'Invalid schedule' })
+  async schedule(
+    @GetHostelId() hostelId: string,
+    @CurrentUser() user: JwtPayload,
+    @Body() createDto: CreateScheduledBroadcastDto
+  ) {
+    const broadcast = await this.notificationBroadcastService.schedule(hostelId, createDto, user);
+
+    return {
+      status: HttpStatus.CREATED,
+      data: broadcast
+    };
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List upcoming broadcasts, soonest first, or past ones by status' })
+  @ApiResponse({ status: 200, description: 'Broadcasts retrieved successfully' })
+  async findAll(@GetHostelId() hostelId: string, @Query() filters: ScheduledBroadcastFilterDto) {
+    const result = await this.notificationBroadcastService.findAll(hostelId, filters);
+
+    return {
+      status: HttpStatus.OK,
+      data: result
+    };
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a broadcast with the result of its last send' })
+  @ApiResponse({ status: 200, description: 'Broadcast retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Broadcast not found' })
+  async findOne(@GetHostelId() hostelId: string, @Param('id', ParseUUIDPipe) id: string) {
+    const broadcast = await this.notificationBroadcastService.findOne(id, hostelId);
+
+    return {
+      status: HttpStatus.OK,
+      data: broadcast
+    };
+  }
+
+  @Post(':id/cancel')
+  @HttpCode(HttpStatus.OK)
+  @Permissions(Permission.NOTIFICATION_BROADCAST)
+  @ApiOperation({ summary: 'Cancel a scheduled broadcast and all its later occurrences' })
+  @ApiResponse({ status: 200, description: 'Broadcast cancelled' })
+  @ApiResponse({ status: 400, description: 'Broadcast is not scheduled' })
+  @ApiResponse({ status: 404, description: 'Broadcast not found' })
+  async cancel(
+    @GetHostelId() hostelId: string,
+    @CurrentUser() user: JwtPayload,
+    @Param('id', ParseUUIDPipe) id: string
+  ) {
+    const broadcast = await this.notificationBroadcastService.cancel(id, hostelId, user.id);
+
+    return {
+      status: HttpStatus.OK,
+      data: broadcast
+    };
+  }
+}
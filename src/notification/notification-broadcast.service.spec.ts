@@ -0,0 +1,213 @@
+import { BadRequestException } from '@nestjs/common';
+import { NotificationBroadcastService } from './notification-broadcast.service';
+import {
+  BroadcastPaymentStatus,
+  BroadcastRecurrence,
+  BroadcastStatus
+} from './entities/scheduled-broadcast.entity';
+
+describe('NotificationBroadcastService', () => {
+  let service: NotificationBroadcastService;
+  let broadcasts: any[];
+  let students: any[];
+  let conditions: string[];
+  let sendFails: boolean;
+
+  const matches = (row: any, where: any) =>
+    Object.entries(where).every(([field, value]: [string, any]) => {
+      if (value?._type === 'lessThan') return row[field] < value._value;
+      if (value?._type === 'lessThanOrEqual') return row[field] <= value._value;
+      return row[field] === value;
+    });
+
+  const mockBroadcastRepository = {
+    create: jest.fn(data => ({ ...data })),
+    save: jest.fn(async data => {
+      const broadcast = { runCount: 0, ...data, id: `broadcast-${broadcasts.length + 1}`, updatedAt: new Date() };
+      broadcasts.push(broadcast);
+      return broadcast;
+    }),
+    find: jest.fn(async ({ where }) => broadcasts.filter(row => matches(row, where))),
+    findOne: jest.fn(async ({ where }) => broadcasts.find(row => matches(row, where)) || null),
+    findAndCount: jest.fn(async ({ where }) => {
+      const found = broadcasts.filter(row => matches(row, where));
+      return [found, found.length];
+    }),
+    update: jest.fn(async (where, patch) => {
+      const hit = broadcasts.filter(row => matches(row, typeof where === 'string' ? { id: where } : where));
+      hit.forEach(row => Object.assign(row, patch));
+      return { affected: hit.length };
+    }),
+  };
+
+  // Records the WHERE conditions of the audience query
+  const queryBuilder: any = {
+    select: jest.fn(() => queryBuilder),
+    where: jest.fn(() => queryBuilder),
+    innerJoin: jest.fn(() => queryBuilder),
+    setParameters: jest.fn(() => queryBuilder),
+    andWhere: jest.fn(condition => {
+      if (typeof condition === 'string') {
+        conditions.push(condition);
+      } else {
+        const alternatives: string[] = [];
+        condition.whereFactory({ orWhere: (alternative: string) => alternatives.push(alternative) });
+        conditions.push(alternatives.join(' OR '));
+      }
+      return queryBuilder;
+    }),
+    subQuery: jest.fn(() => {
+      const subQuery: any = {
+        select: () => subQuery,
+        from: (_entity, alias) => Object.assign(subQuery, { alias }),
+        where: () => subQuery,
+        andWhere: () => subQuery,
+        getQuery: () => `(${subQuery.alias})`,
+      };
+      return subQuery;
+    }),
+    getMany: jest.fn(async () => students),
+  };
+
+  const mockStudentRepository = {
+    createQueryBuilder: jest.fn(() => queryBuilder),
+  };
+
+  const mockConfigService = {
+    get: jest.fn((_key: string, fallback?: any) => fallback),
+  };
+
+  const mockUnifiedNotificationService = {
+    sendBulkNotification: jest.fn(async payload => {
+      if (sendFails) {
+        throw new Error('Database connection lost');
+      }
+      return { sent: payload.studentIds.length, failed: 0, skipped: 0, details: {} };
+    }),
+  };
+
+  const mockHostelSettingsService = {
+    getSettings: jest.fn(async () => ({ general: { timezone: 'Asia/Kathmandu' } })),
+  };
+
+  const warden = { id: 'warden-1', kahaId: 'kaha-1', businessId: 'business-1' };
+
+  // Make every scheduled broadcast due now
+  const elapse = () => broadcasts.forEach(row => row.nextRunAt = new Date(Date.now() - 1));
+
+  beforeEach(() => {
+    service = new NotificationBroadcastService(
+      mockBroadcastRepository as any,
+      mockStudentRepository as any,
+      mockConfigService as any,
+      mockUnifiedNotificationService as any,
+      mockHostelSettingsService as any
+    );
+
+    broadcasts = [];
+    students = [{ id: 'student-1' }, { id: 'student-2' }];
+    conditions = [];
+    sendFails = false;
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should send a one-off broadcast once it is due and list only upcoming ones', async () => {
+    const sendAt = new Date(Date.now() + 60 * 60 * 1000);
+    const broadcast = await service.schedule('hostel-1', {
+      title: 'Water supply',
+      message: 'No water on Saturday morning',
+      sendAt: sendAt.toISOString(),
+      audience: { floors: [2], genders: [], checkedOutToday: false }
+    }, warden);
+
+    expect(broadcast).toMatchObject({ status: BroadcastStatus.SCHEDULED, nextRunAt: sendAt, audience: { floors: [2] } });
+    await expect(service.findAll('hostel-1')).resolves.toMatchObject({ pagination: { total: 1 } });
+
+    // Not due yet
+    await expect(service.sendDue()).resolves.toEqual({ sent: 0, failed: 0 });
+
+    elapse();
+    await expect(service.sendDue()).resolves.toEqual({ sent: 1, failed: 0 });
+    expect(mockUnifiedNotificationService.sendBulkNotification).toHaveBeenCalledWith(
+      expect.objectContaining({ studentIds: ['student-1', 'student-2'], type: 'BULK_MESSAGE', metadata: { broadcastId: broadcast.id } }),
+      expect.objectContaining({ id: 'warden-1', businessId: 'business-1' }),
+      { hostelId: 'hostel-1' }
+    );
+    expect(broadcasts[0]).toMatchObject({
+      status: BroadcastStatus.COMPLETED,
+      nextRunAt: null,
+      runCount: 1,
+      lastResult: { recipients: 2, sent: 2, failed: 0, skipped: 0 }
+    });
+    await expect(service.findAll('hostel-1')).resolves.toMatchObject({ pagination: { total: 0 } });
+  });
+
+  it('should repeat weekly at the same local time until cancelled', async () => {
+    jest.useFakeTimers({ now: new Date('2026-10-20T00:00:00Z'), doNotFake: ['nextTick', 'setImmediate'] });
+    try {
+      // Friday 18:00 in Kathmandu
+      await service.schedule('hostel-1', {
+        title: 'Rent reminder',
+        message: 'Rent is due on Sunday',
+        sendAt: '2026-10-23T18:00:00+05:45',
+        recurrence: BroadcastRecurrence.WEEKLY
+      }, warden);
+
+      jest.setSystemTime(new Date('2026-10-23T12:16:00Z'));
+      await service.sendDue();
+      expect(broadcasts[0]).toMatchObject({ status: BroadcastStatus.SCHEDULED, runCount: 1 });
+      expect(broadcasts[0].nextRunAt).toEqual(new Date('2026-10-30T12:15:00Z'));
+
+      // A failed send is recorded and the schedule carries on
+      sendFails = true;
+      jest.setSystemTime(new Date('2026-10-30T12:16:00Z'));
+      await expect(service.sendDue()).resolves.toEqual({ sent: 0, failed: 1 });
+      expect(broadcasts[0]).toMatchObject({ status: BroadcastStatus.SCHEDULED, lastError: 'Database connection lost' });
+      expect(broadcasts[0].nextRunAt).toEqual(new Date('2026-11-06T12:15:00Z'));
+
+      const cancelled = await service.cancel('broadcast-1', 'hostel-1', 'warden-1');
+      expect(cancelled).toMatchObject({ status: BroadcastStatus.CANCELLED, nextRunAt: null, cancelledBy: 'warden-1' });
+      await expect(service.cancel('broadcast-1', 'hostel-1', 'warden-1')).rejects.toThrow(BadRequestException);
+      await expect(service.cancel('broadcast-1', 'hostel-2', 'warden-1')).rejects.toThrow('not found');
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('should reject schedules in the past, stray end dates and months without the start day', async () => {
+    await expect(service.schedule('hostel-1', {
+      title: 'Late', message: 'Too late', sendAt: '2020-01-01T00:00:00Z'
+    }, warden)).rejects.toThrow('sendAt must not be in the past');
+
+    await expect(service.schedule('hostel-1', {
+      title: 'Once', message: 'Only once', endsAt: new Date(Date.now() + 86400000).toISOString()
+    }, warden)).rejects.toThrow('endsAt only applies to recurring broadcasts');
+
+    const nextYear = new Date().getUTCFullYear() + 1;
+    await expect(service.schedule('hostel-1', {
+      title: 'Month end', message: 'Month end', sendAt: `${nextYear}-01-30T10:00:00+05:45`, recurrence: BroadcastRecurrence.MONTHLY
+    }, warden)).rejects.toThrow('Monthly broadcasts must start on day 1-28 of the month');
+  });
+
+  it('should narrow the audience by room, payment and attendance filters', async () => {
+    await service.resolveAudience('hostel-1', {
+      roomTypeIds: ['room-type-1'],
+      genders: ['Female'],
+      paymentStatuses: [BroadcastPaymentStatus.DUE, BroadcastPaymentStatus.OVERDUE],
+      checkedOutToday: true
+    }, 'Asia/Kathmandu');
+
+    expect(queryBuilder.innerJoin).toHaveBeenCalledWith('student.room', 'room');
+    expect(conditions).toEqual([
+      'student.status = :status',
+      'room.roomTypeId IN (:...roomTypeIds)',
+      'room.gender IN (:...genders)',
+      '(EXISTS (due_invoice) AND NOT EXISTS (overdue_invoice)) OR EXISTS (overdue_invoice)',
+      'EXISTS (checkout)'
+    ]);
+    expect(queryBuilder.setParameters).toHaveBeenCalledWith({ checkedOut: 'CHECKED_OUT', timezone: 'Asia/Kathmandu' });
+  });
+});
@@ -0,0 +1,438 @@
+import { Injectable, Logger, NotFoundException, BadRequestException, OnModuleInit, OnModuleDestroy } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Brackets, LessThan, LessThanOrEqual, Repository, SelectQueryBuilder } from 'typeorm';
+import {
+  ScheduledBroadcast,
+  BroadcastAudience,
+  BroadcastPaymentStatus,
+  BroadcastRecurrence,
+  BroadcastStatus
+} from './entities/scheduled-broadcast.entity';
+import { Student, StudentStatus } from '../students/entities/student.entity';
+import { Invoice, InvoiceStatus } from '../invoices/entities/invoice.entity';
+import { StudentCheckInOut, CheckInOutStatus } from '../attendance/entities/student-checkin-checkout.entity';
+import { UnifiedNotificationService } from './unified-notification.service';
+import { HostelSettingsService } from '../hostel/services/hostel-settings.service';
+import { CreateScheduledBroadcastDto, ScheduledBroadcastFilterDto } from './dto/scheduled-broadcast.dto';
+import { JwtPayload } from '../auth/interfaces/jwt-payload.interface';
+
+const DEFAULT_SWEEP_INTERVAL_MS = 60 * 1000;
+const SWEEP_BATCH_SIZE = 20;
+// A SENDING broadcast older than this belongs to a sweep that died mid-send
+const STALE_SEND_MS = 30 * 60 * 1000;
+// sendAt this far in the past is still accepted, to allow for clock skew
+const SEND_AT_GRACE_MS = 60 * 1000;
+const MAX_MONTHLY_DAY = 28;
+
+const DUE_INVOICE_STATUSES = [InvoiceStatus.UNPAID, InvoiceStatus.PARTIALLY_PAID, InvoiceStatus.SENT];
+const OUTSTANDING_INVOICE_STATUSES = [...DUE_INVOICE_STATUSES, InvoiceStatus.OVERDUE];
+
+/**
+ * Notification Broadcast Service
+ * Stores announcements to send later, once or on a daily, weekly or monthly
+ * recurrence in the hostel's timezone. A sweep every
+ * NOTIFICATION_BROADCAST_INTERVAL_MS (off when SCHEDULER_ENABLED=false)
+ * claims due broadcasts, resolves their audience at that moment and sends
+ * them as BULK_MESSAGE notifications, as send-to-students does.
+ *
+ * Sends missed while the server was down are not caught up: a recurring
+ * broadcast goes out once and moves on to its next future occurrence.
+ */
+@Injectable()
+export class NotificationBroadcastService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(NotificationBroadcastService.name);
+  private timer: NodeJS.Timeout | null = null;
+  private sweeping = false;
+
+  constructor(
+    @InjectRepository(ScheduledBroadcast)
+    private broadcastRepository: Repository<ScheduledBroadcast>,
+    @InjectRepository(Student)
+    private studentRepository: Repository<Student>,
+    private configService: ConfigService,
+    private unifiedNotificationService: UnifiedNotificationService,
+    private hostelSettingsService: HostelSettingsService,
+  ) { }
+
+  onModuleInit() {
+    if (this.configService.get('SCHEDULER_ENABLED', 'true') === 'false') {
+      return;
+    }
+
+    const interval = Number(this.configService.get('NOTIFICATION_BROADCAST_INTERVAL_MS', DEFAULT_SWEEP_INTERVAL_MS));
+    this.timer = setInterval(() => this.sendDue(), interval);
+  }
+
+  onModuleDestroy() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  async schedule(hostelId: string, dto: CreateScheduledBroadcastDto, user: JwtPayload) {
+    if (!hostelId) {
+      throw new BadRequestException('Hostel context required');
+    }
+
+    const now = new Date();
+    const recurrence = dto.recurrence ?? BroadcastRecurrence.NONE;
+    const sendAt = dto.sendAt ? new Date(dto.sendAt) : now;
+    const endsAt = dto.endsAt ? new Date(dto.endsAt) : null;
+
+    if (sendAt.getTime() < now.getTime() - SEND_AT_GRACE_MS) {
+      throw new BadRequestException('sendAt must not be in the past');
+    }
+    if (endsAt && recurrence === BroadcastRecurrence.NONE) {
+      throw new BadRequestException('endsAt only applies to recurring broadcasts');
+    }
+    if (endsAt && endsAt <= sendAt) {
+      throw new BadRequestException('endsAt must be after sendAt');
+    }
+    if (recurrence === BroadcastRecurrence.MONTHLY) {
+      const { timezone } = (await this.hostelSettingsService.getSettings(hostelId)).general;
+      const day = toLocalWallClock(sendAt, timezone).getUTCDate();
+      if (day > MAX_MONTHLY_DAY) {
+        throw new BadRequestException(`Monthly broadcasts must start on day 1-${MAX_MONTHLY_DAY} of the month`);
+      }
+    }
+
+    const broadcast = await this.broadcastRepository.save(this.broadcastRepository.create({
+      hostelId,
+      title: dto.title,
+      message: dto.message,
+      imageUrl: dto.imageUrl,
+      audience: compactAudience(dto.audience),
+      recurrence,
+      status: BroadcastStatus.SCHEDULED,
+      sendAt,
+      nextRunAt: sendAt,
+      endsAt,
+      createdBy: user.id,
+      businessId: user.businessId
+    }));
+
+    this.logger.log(`📅 Broadcast ${broadcast.id} scheduled for ${sendAt.toISOString()} (${recurrence})`);
+    return broadcast;
+  }
+
+  async findAll(hostelId: string, filters: ScheduledBroadcastFilterDto = {}) {
+    if (!hostelId) {
+      throw new BadRequestException('Hostel context required');
+    }
+
+    const { page = 1, limit = 20, status = BroadcastStatus.SCHEDULED } = filters;
+
+    const [broadcasts, total] = await this.broadcastRepository.findAndCount({
+      where: { hostelId, status },
+      order: { nextRunAt: 'ASC', createdAt: 'DESC' },
+      skip: (page - 1) * limit,
+      take: limit
+    });
+
+    return {
+      items: broadcasts,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit)
+      }
+    };
+  }
+
+  async findOne(id: string, hostelId: string) {
+    const broadcast = await this.broadcastRepository.findOne({ where: { id, hostelId } });
+    if (!broadcast) {
+      throw new NotFoundException(`Broadcast with ID ${id} not found`);
+    }
+    return broadcast;
+  }
+
+  /**
+   * Stop a scheduled broadcast, including every later occurrence of a
+   * recurring one. A broadcast being sent right now cannot be cancelled.
+   */
+  async cancel(id: string, hostelId: string, cancelledBy: string) {
+    const broadcast = await this.findOne(id, hostelId);
+
+    const result = await this.broadcastRepository.update(
+      { id, status: BroadcastStatus.SCHEDULED },
+      { status: BroadcastStatus.CANCELLED, nextRunAt: null, cancelledBy, cancelledAt: new Date() }
+    );
+    if (!result.affected) {
+      throw new BadRequestException(`Only scheduled broadcasts can be cancelled; this one is ${broadcast.status}`);
+    }
+
+    this.logger.log(`🛑 Broadcast ${id} cancelled by ${cancelledBy}`);
+    return this.findOne(id, hostelId);
+  }
+
+  /**
+   * Send every broadcast that is due; returns how many went out and how
+   * many could not be sent
+   */
+  async sendDue(): Promise<{ sent: number; failed: number }> {
+    const summary = { sent: 0, failed: 0 };
+    if (this.sweeping) {
+      return summary;
+    }
+    this.sweeping = true;
+
+    try {
+      await this.releaseStaleSends();
+
+      const due = await this.broadcastRepository.find({
+        where: { status: BroadcastStatus.SCHEDULED, nextRunAt: LessThanOrEqual(new Date()) },
+        order: { nextRunAt: 'ASC' },
+        take: SWEEP_BATCH_SIZE
+      });
+
+      for (const broadcast of due) {
+        const claimed = await this.broadcastRepository.update(
+          { id: broadcast.id, status: BroadcastStatus.SCHEDULED },
+          { status: BroadcastStatus.SENDING }
+        );
+        if (!claimed.affected) {
+          continue;
+        }
+
+        const delivered = await this.run(broadcast);
+        delivered ? summary.sent++ : summary.failed++;
+      }
+    } catch (error) {
+      this.logger.error(`❌ Broadcast sweep failed: ${error.message}`);
+    } finally {
+      this.sweeping = false;
+    }
+
+    return summary;
+  }
+
+  /**
+   * Active students of the hostel matching every filter of the audience
+   */
+  async resolveAudience(hostelId: string, audience: BroadcastAudience, timezone: string): Promise<string[]> {
+    const query = this.studentRepository
+      .createQueryBuilder('student')
+      .select(['student.id'])
+      .where('student.hostelId = :hostelId', { hostelId })
+      .andWhere('student.status = :status', { status: StudentStatus.ACTIVE });
+
+    if (audience.studentIds?.length) {
+      query.andWhere('student.id IN (:...studentIds)', { studentIds: audience.studentIds });
+    }
+
+    if (audience.floors?.length || audience.roomTypeIds?.length || audience.genders?.length) {
+      query.innerJoin('student.room', 'room');
+      if (audience.floors?.length) {
+        query.andWhere('room.floor IN (:...floors)', { floors: audience.floors });
+      }
+      if (audience.roomTypeIds?.length) {
+        query.andWhere('room.roomTypeId IN (:...roomTypeIds)', { roomTypeIds: audience.roomTypeIds });
+      }
+      if (audience.genders?.length) {
+        query.andWhere('room.gender IN (:...genders)', { genders: audience.genders });
+      }
+    }
+
+    if (audience.paymentStatuses?.length) {
+      const overdue = invoiceExists(query, 'overdue_invoice', 'overdueStatuses');
+      const outstanding = invoiceExists(query, 'outstanding_invoice', 'outstandingStatuses');
+      const due = invoiceExists(query, 'due_invoice', 'dueStatuses');
+      const conditions: Record<BroadcastPaymentStatus, string> = {
+        [BroadcastPaymentStatus.PAID]: `NOT EXISTS ${outstanding}`,
+        [BroadcastPaymentStatus.DUE]: `(EXISTS ${due} AND NOT EXISTS ${overdue})`,
+        [BroadcastPaymentStatus.OVERDUE]: `EXISTS ${overdue}`
+      };
+
+      query
+        .andWhere(new Brackets(payment => {
+          audience.paymentStatuses.forEach(status => payment.orWhere(conditions[status]));
+        }))
+        .setParameters({
+          overdueStatuses: [InvoiceStatus.OVERDUE],
+          outstandingStatuses: OUTSTANDING_INVOICE_STATUSES,
+          dueStatuses: DUE_INVOICE_STATUSES
+        });
+    }
+
+    if (audience.checkedOutToday) {
+      const checkedOut = query.subQuery()
+        .select('1')
+        .from(StudentCheckInOut, 'checkout')
+        .where('checkout.studentId = student.id')
+        .andWhere('checkout.status = :checkedOut')
+        .andWhere('(checkout.checkOutTime AT TIME ZONE :timezone)::date = (NOW() AT TIME ZONE :timezone)::date')
+        .getQuery();
+
+      query
+        .andWhere(`EXISTS ${checkedOut}`)
+        .setParameters({ checkedOut: CheckInOutStatus.CHECKED_OUT, timezone });
+    }
+
+    const students = await query.getMany();
+    return students.map(student => student.id);
+  }
+
+  /**
+   * Send one claimed broadcast and schedule its next occurrence. A failed
+   * send of a recurring broadcast is recorded and retried at the next one.
+   */
+  private async run(broadcast: ScheduledBroadcast): Promise<boolean> {
+    const now = new Date();
+    const { timezone } = (await this.hostelSettingsService.getSettings(broadcast.hostelId)).general;
+    let lastResult: Record<string, any> = null;
+    let lastError: string = null;
+
+    try {
+      const studentIds = await this.resolveAudience(broadcast.hostelId, broadcast.audience ?? {}, timezone);
+      const result = studentIds.length
+        ? await this.unifiedNotificationService.sendBulkNotification({
+          studentIds,
+          title: broadcast.title,
+          message: broadcast.message,
+          type: 'BULK_MESSAGE',
+          imageUrl: broadcast.imageUrl,
+          metadata: { broadcastId: broadcast.id }
+        }, { id: broadcast.createdBy, businessId: broadcast.businessId } as JwtPayload, { hostelId: broadcast.hostelId })
+        : { sent: 0, failed: 0, skipped: 0 };
+
+      lastResult = { recipients: studentIds.length, sent: result.sent, failed: result.failed, skipped: result.skipped };
+      this.logger.log(`📣 Broadcast ${broadcast.id} sent to ${result.sent}/${studentIds.length} students`);
+    } catch (error) {
+      lastError = error.message;
+      this.logger.error(`❌ Broadcast ${broadcast.id} failed: ${error.message}`);
+    }
+
+    const nextRunAt = nextOccurrence(broadcast, timezone, now);
+    await this.broadcastRepository.update(broadcast.id, {
+      status: nextRunAt
+        ? BroadcastStatus.SCHEDULED
+        : (lastError && broadcast.recurrence === BroadcastRecurrence.NONE ? BroadcastStatus.FAILED : BroadcastStatus.COMPLETED),
+      nextRunAt,
+      lastRunAt: now,
+      runCount: broadcast.runCount + 1,
+      lastResult,
+      lastError
+    });
+
+    return !lastError;
+  }
+
+  /**
+   * Broadcasts left SENDING by a sweep that died are not sent again, as some
+   * students may already have them: they move on to their next occurrence.
+   */
+  private async releaseStaleSends() {
+    const now = new Date();
+    const stale = await this.broadcastRepository.find({
+      where: { status: BroadcastStatus.SENDING, updatedAt: LessThan(new Date(now.getTime() - STALE_SEND_MS)) }
+    });
+
+    for (const broadcast of stale) {
+      const { timezone } = (await this.hostelSettingsService.getSettings(broadcast.hostelId)).general;
+      const nextRunAt = nextOccurrence(broadcast, timezone, now);
+      await this.broadcastRepository.update(
+        { id: broadcast.id, status: BroadcastStatus.SENDING },
+        {
+          status: nextRunAt ? BroadcastStatus.SCHEDULED : BroadcastStatus.FAILED,
+          nextRunAt,
+          lastError: 'Interrupted while sending'
+        }
+      );
+      this.logger.warn(`⚠️ Broadcast ${broadcast.id} was interrupted while sending`);
+    }
+  }
+}
+
+/**
+ * Drop empty filters so they are not stored as constraints
+ */
+function compactAudience(audience: Partial<BroadcastAudience> = {}): BroadcastAudience {
+  const compact: BroadcastAudience = {};
+  for (const [key, value] of Object.entries(audience) as [string, any][]) {
+    if (value === undefined || value === null || value === false || (Array.isArray(value) && !value.length)) {
+      continue;
+    }
+    compact[key] = Array.isArray(value) ? [...new Set(value)] : value;
+  }
+  return compact;
+}
+
+function invoiceExists(query: SelectQueryBuilder<Student>, alias: string, statusesParam: string): string {
+  return query.subQuery()
+    .select('1')
+    .from(Invoice, alias)
+    .where(`${alias}.studentId = student.id`)
+    .andWhere(`${alias}.status IN (:...${statusesParam})`)
+    .getQuery();
+}
+
+/**
+ * The first occurrence after `now`, or null when the broadcast does not
+ * recur or its recurrence has ended
+ */
+function nextOccurrence(broadcast: ScheduledBroadcast, timezone: string, now: Date): Date | null {
+  if (broadcast.recurrence === BroadcastRecurrence.NONE) {
+    return null;
+  }
+
+  let next = advance(broadcast.nextRunAt ?? broadcast.sendAt, broadcast.recurrence, timezone);
+  while (next <= now) {
+    next = advance(next, broadcast.recurrence, timezone);
+  }
+
+  return broadcast.endsAt && next > broadcast.endsAt ? null : next;
+}
+
+/**
+ * One recurrence step, keeping the local time of day across DST changes
+ */
+function advance(from: Date, recurrence: BroadcastRecurrence, timezone: string): Date {
+  const local = toLocalWallClock(from, timezone);
+  if (recurrence === BroadcastRecurrence.DAILY) {
+    local.setUTCDate(local.getUTCDate() + 1);
+  } else if (recurrence === BroadcastRecurrence.WEEKLY) {
+    local.setUTCDate(local.getUTCDate() + 7);
+  } else {
+    local.setUTCMonth(local.getUTCMonth() + 1);
+  }
+
+  const guess = new Date(local.getTime() - offsetMs(local, timezone));
+  return new Date(local.getTime() - offsetMs(guess, timezone));
+}
+
+/**
+ * The local date and time in `timezone`, expressed as a UTC Date so
+ * calendar arithmetic can use the getUTC and setUTC methods
+ */
+function toLocalWallClock(instant: Date, timezone: string): Date {
+  return new Date(instant.getTime() + offsetMs(instant, timezone));
+}
+
+function offsetMs(instant: Date, timezone: string): number {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    }).formatToParts(instant).map(part => [part.type, part.value])
+  );
+
+  const localAsUtc = Date.UTC(
+    Number(parts.year),
+    Number(parts.month) - 1,
+    Number(parts.day),
+    Number(parts.hour),
+    Number(parts.minute),
+    Number(parts.second)
+  );
+  return localAsUtc - Math.floor(instant.getTime() / 1000) * 1000;
+}
@@ -131,6 +131,42 @@ export class NotificationLogService {
     }
   }
 
+  /**
+   * Mark notification as dead-lettered (delivery gave up after its last retry)
+   */
+  async markAsDeadLetter(id: string, errorMessage: string): Promise<void> {
+    try {
+      const notification = await this.notificationRepository.findOne({ where: { id } });
+      if (notification) {
+        await this.notificationRepository.update({ id }, {
+          status: DeliveryStatus.DEAD_LETTER,
+          metadata: {
+            ...(notification.metadata || {}),
+            error: errorMessage,
+            deadLetteredAt: new Date().toISOString(),
+          } as Record<string, any>,
+        });
+        this.logger.log(`☠️ Marked notification ${id} as DEAD_LETTER: ${errorMessage}`);
+      }
+    } catch (error) {
+      this.logger.error(`❌ Failed to mark notification ${id} as dead letter: ${error.message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Mark notification as pending again (queued for a manual retry)
+   */
+  async markAsPending(id: string): Promise<void> {
+    try {
+      await this.notificationRepository.update({ id }, { status: DeliveryStatus.PENDING });
+      this.logger.log(`🔁 Marked notification ${id} as PENDING`);
+    } catch (error) {
+      this.logger.error(`❌ Failed to mark notification ${id} as pending: ${error.message}`);
+      throw error;
+    }
+  }
+
   /**
    * Mark notification as seen by recipient
    */
@@ -0,0 +1,63 @@
+import { Controller, Get, Post, Param, Query, HttpStatus, HttpCode, UseGuards, ParseUUIDPipe } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
+import { NotificationOutboxService } from './notification-outbox.service';
+import { NotificationOutboxFilterDto, NotificationMetricsQueryDto } from './dto/notification-outbox.dto';
+import { Notification } from './entities/notification.entity';
+import { GetHostelId } from '../hostel/decorators/hostel-context.decorator';
+import { HostelAuthWithContextGuard } from '../auth/guards/hostel-auth-with-context.guard';
+import { RolesGuard } from '../staff-roles/guards/roles.guard';
+import { Permissions } from '../staff-roles/decorators/permissions.decorator';
+import { Permission } from '../staff-roles/permissions';
+import { Audited } from '../audit/decorators/audited.decorator';
+
+@ApiTags('Notification Delivery')
+@Controller('notification')
+@UseGuards(HostelAuthWithContextGuard, RolesGuard)
+@Audited({ entity: Notification })
+@ApiBearerAuth()
+export class NotificationOutboxController {
+  constructor(private readonly notificationOutboxService: NotificationOutboxService) { }
+
+  @Get('outbox')
+  @ApiOperation({ summary: 'List the hostel\'s queued, sent and dead-lettered push notifications' })
+  @ApiResponse({ status: 200, description: 'Deliveries retrieved successfully' })
+  async getOutbox(@GetHostelId() hostelId: string, @Query() filters: NotificationOutboxFilterDto) {
+    const result = await this.notificationOutboxService.findAll(hostelId, filters);
+
+    return {
+      status: HttpStatus.OK,
+      data: result
+    };
+  }
+
+  @Get('outbox/metrics')
+  @ApiOperation({
+    summary: 'Delivery counts and latency per channel',
+    description: 'Latency is measured from queueing to delivery, retries included'
+  })
+  @ApiResponse({ status: 200, description: 'Metrics retrieved successfully' })
+  async getMetrics(@GetHostelId() hostelId: string, @Query() query: NotificationMetricsQueryDto) {
+    const metrics = await this.notificationOutboxService.getMetrics(hostelId, query.hours);
+
+    return {
+      status: HttpStatus.OK,
+      data: metrics
+    };
+  }
+
+  @Post(':id/retry')
+  @HttpCode(HttpStatus.OK)
+  @Permissions(Permission.NOTIFICATION_RETRY)
+  @ApiOperation({ summary: 'Send a dead-lettered notification again' })
+  @ApiResponse({ status: 200, description: 'Notification queued for delivery' })
+  @ApiResponse({ status: 400, description: 'Notification is not dead-lettered' })
+  @ApiResponse({ status: 404, description: 'Notification not found' })
+  async retry(@GetHostelId() hostelId: string, @Param('id', ParseUUIDPipe) id: string) {
+    const entry = await this.notificationOutboxService.retry(id, hostelId);
+
+    return {
+      status: HttpStatus.OK,
+      data: entry
+    };
+  }
+}
@@ -0,0 +1,233 @@
+import { BadRequestException } from '@nestjs/common';
+import { of, throwError } from 'rxjs';
+import { NotificationOutboxService } from './notification-outbox.service';
+import { NotificationChannel, OutboxStatus } from './entities/notification-outbox.entity';
+import { Notification, RecipientType, NotificationCategory } from './entities/notification.entity';
+
+describe('NotificationOutboxService', () => {
+  let service: NotificationOutboxService;
+  let rows: any[];
+  let notifications: any[];
+  let tokens: string[];
+  let expressUp: boolean;
+  let decision: any;
+
+  const matches = (row: any, where: any) =>
+    typeof where === 'string'
+      ? row.id === where
+      : Object.entries(where).every(([field, value]: [string, any]) => {
+        if (value?._type === 'lessThan') return row[field] < value._value;
+        if (value?._type === 'lessThanOrEqual') return row[field] <= value._value;
+        return row[field] === value;
+      });
+
+  const mockOutboxRepository = {
+    find: jest.fn(async ({ where }) => rows.filter(row => matches(row, where))),
+    findOne: jest.fn(async ({ where }) => rows.find(row => matches(row, where)) || null),
+    update: jest.fn(async (where, patch) => {
+      const hit = rows.filter(row => matches(row, where));
+      hit.forEach(row => Object.assign(row, patch));
+      return { affected: hit.length };
+    }),
+  };
+
+  const mockManager = {
+    create: jest.fn((_entity, data) => ({ ...data })),
+    save: jest.fn(async (entity, data) => {
+      if (entity === Notification) {
+        const notification = { ...data, id: `notification-${notifications.length + 1}` };
+        notifications.push(notification);
+        return notification;
+      }
+      const row = { ...data, id: `outbox-${rows.length + 1}`, createdAt: new Date() };
+      rows.push(row);
+      return row;
+    }),
+  };
+
+  const mockDataSource = {
+    transaction: jest.fn(async work => work(mockManager)),
+    getRepository: jest.fn(() => ({
+      find: jest.fn(async ({ where }) => notifications.filter(notification => where.id._value.includes(notification.id))),
+    })),
+  };
+
+  const mockHttpService = {
+    get: jest.fn(url => url.includes('/businesses/owner')
+      ? of({ data: { id: 'owner-1' } })
+      : of({ data: { tokens: tokens.map(fcmToken => ({ fcmToken })) } })),
+    post: jest.fn(() => expressUp ? of({ data: { success: true } }) : throwError(() => new Error('connect ECONNREFUSED'))),
+  };
+
+  const mockConfigService = {
+    get: jest.fn((key: string, fallback?: any) => ({ NOTIFICATION_MAX_ATTEMPTS: '3', NOTIFICATION_RETRY_BASE_MS: '1000' }[key] ?? fallback)),
+  };
+
+  const mockNotificationLogService = {
+    markAsSent: jest.fn(),
+    markAsSkipped: jest.fn(),
+    markAsDeadLetter: jest.fn(),
+    markAsPending: jest.fn(),
+  };
+
+  const mockNotificationPreferenceService = {
+    resolveDelivery: jest.fn(async (_userId, _category, _channel, now) => decision ?? { deliver: true, notBefore: now, digest: false }),
+  };
+
+  const mockNotificationTemplateService = {
+    render: jest.fn(async (_hostelId, _key, variables) => ({
+      title: `You have ${variables.count} new notifications`,
+      message: `Latest: ${variables.titles}`
+    })),
+  };
+
+  const message = (overrides: any = {}) => ({
+    notification: {
+      recipientType: RecipientType.USER,
+      recipientId: 'user-1',
+      category: NotificationCategory.PAYMENT,
+      title: 'Payment Received',
+      message: 'We received NPR 5,000'
+    },
+    hostelId: 'hostel-1',
+    channel: NotificationChannel.BOOKING_PUSH,
+    targetUserId: 'user-1',
+    payload: { recipientId: 'user-1', recipientType: 'USER' },
+    ...overrides
+  });
+
+  // Make every PENDING row due now, as if its backoff had passed
+  const elapseBackoff = () => rows.forEach(row => row.nextAttemptAt = new Date(Date.now() - 1));
+
+  beforeEach(() => {
+    service = new NotificationOutboxService(
+      mockOutboxRepository as any,
+      mockDataSource as any,
+      mockHttpService as any,
+      mockConfigService as any,
+      mockNotificationLogService as any,
+      mockNotificationPreferenceService as any,
+      mockNotificationTemplateService as any
+    );
+
+    rows = [];
+    notifications = [];
+    tokens = ['fcm-token-1'];
+    expressUp = true;
+    decision = null;
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should write the notification and its job in the caller\'s transaction and send it on dispatch', async () => {
+    const callerManager = { ...mockManager };
+    const notification = await service.enqueue(message(), callerManager as any);
+
+    expect(mockDataSource.transaction).not.toHaveBeenCalled();
+    expect(callerManager.save).toHaveBeenCalledTimes(2);
+    expect(rows[0]).toMatchObject({ notificationId: notification.id, status: OutboxStatus.PENDING, attempts: 0, maxAttempts: 3 });
+
+    await expect(service.dispatchDue()).resolves.toEqual({ sent: 1, skipped: 0, failed: 0 });
+
+    expect(mockHttpService.post).toHaveBeenCalledWith(
+      expect.stringContaining('/send-hostel-booking-notification'),
+      { recipientId: 'user-1', recipientType: 'USER', fcmToken: 'fcm-token-1' },
+      expect.any(Object)
+    );
+    expect(rows[0]).toMatchObject({ status: OutboxStatus.SENT, attempts: 1, lockedAt: null });
+    expect(rows[0].latencyMs).toBeGreaterThanOrEqual(0);
+    expect(mockNotificationLogService.markAsSent).toHaveBeenCalledWith(notification.id, 'fcm-token-1');
+
+    // Already sent: nothing left to do
+    await expect(service.dispatchDue()).resolves.toEqual({ sent: 0, skipped: 0, failed: 0 });
+  });
+
+  it('should back off, dead-letter after the last attempt and send again on retry', async () => {
+    const notification = await service.enqueue(message({ channel: NotificationChannel.GENERAL_PUSH }));
+    expect(mockDataSource.transaction).toHaveBeenCalledTimes(1);
+    expressUp = false;
+
+    await service.dispatchDue();
+    expect(rows[0]).toMatchObject({ status: OutboxStatus.PENDING, attempts: 1, lastError: 'connect ECONNREFUSED' });
+    const firstDelay = rows[0].nextAttemptAt.getTime() - Date.now();
+    expect(firstDelay).toBeGreaterThan(500);
+    expect(firstDelay).toBeLessThanOrEqual(1000);
+
+    // Not due yet
+    await expect(service.dispatchDue()).resolves.toEqual({ sent: 0, skipped: 0, failed: 0 });
+
+    elapseBackoff();
+    await service.dispatchDue();
+    expect(rows[0].attempts).toBe(2);
+    expect(rows[0].nextAttemptAt.getTime() - Date.now()).toBeGreaterThan(1500);
+
+    elapseBackoff();
+    await service.dispatchDue();
+    expect(rows[0]).toMatchObject({ status: OutboxStatus.DEAD, attempts: 3 });
+    expect(mockNotificationLogService.markAsDeadLetter).toHaveBeenCalledWith(notification.id, 'connect ECONNREFUSED');
+
+    await expect(service.retry(notification.id, 'hostel-2')).rejects.toThrow('not found');
+
+    expressUp = true;
+    const retried = await service.retry(notification.id, 'hostel-1');
+    expect(retried).toMatchObject({ status: OutboxStatus.PENDING, attempts: 0, lastError: null });
+    expect(mockNotificationLogService.markAsPending).toHaveBeenCalledWith(notification.id);
+
+    await expect(service.dispatchDue()).resolves.toEqual({ sent: 1, skipped: 0, failed: 0 });
+    expect(mockHttpService.post).toHaveBeenLastCalledWith(
+      expect.stringContaining('/send-general-notification'),
+      expect.any(Object),
+      expect.any(Object)
+    );
+    await expect(service.retry(notification.id, 'hostel-1')).rejects.toThrow(BadRequestException);
+  });
+
+  it('should skip recipients without devices and look up the owner of a business', async () => {
+    tokens = [];
+    const notification = await service.enqueue(message({ targetUserId: undefined, targetBusinessId: 'business-1' }));
+
+    await expect(service.dispatchDue()).resolves.toEqual({ sent: 0, skipped: 1, failed: 0 });
+    expect(mockHttpService.get).toHaveBeenCalledWith(expect.stringContaining('/businesses/owner'), expect.objectContaining({ params: { businessId: 'business-1' } }));
+    expect(mockHttpService.get).toHaveBeenCalledWith(expect.stringContaining('/notification-devices/tokens'), { params: { userIds: 'owner-1' } });
+    expect(rows[0].status).toBe(OutboxStatus.SKIPPED);
+    expect(mockNotificationLogService.markAsSkipped).toHaveBeenCalledWith(notification.id, 'No FCM tokens found');
+    expect(mockHttpService.post).not.toHaveBeenCalled();
+  });
+
+  it('should release jobs left processing by a dispatcher that died', async () => {
+    await service.enqueue(message());
+    Object.assign(rows[0], { status: OutboxStatus.PROCESSING, lockedAt: new Date(Date.now() - 10 * 60 * 1000) });
+
+    await expect(service.dispatchDue()).resolves.toEqual({ sent: 1, skipped: 0, failed: 0 });
+    expect(rows[0].status).toBe(OutboxStatus.SENT);
+  });
+
+  it('should record muted notifications as skipped and send a user\'s due digest as one push', async () => {
+    decision = { deliver: false, reason: 'User muted BULK_MESSAGE notifications' };
+    const muted = await service.enqueue(message());
+    expect(muted).toMatchObject({ status: 'SKIPPED', metadata: { skipReason: 'User muted BULK_MESSAGE notifications' } });
+    expect(rows).toHaveLength(0);
+
+    const digestAt = new Date(Date.now() + 60 * 60 * 1000);
+    decision = { deliver: true, notBefore: digestAt, digest: true };
+    await service.enqueue(message());
+    await service.enqueue(message({ notification: { ...message().notification, title: 'Invoice Ready' } }));
+    expect(rows.map(row => [row.digest, row.nextAttemptAt])).toEqual([[true, digestAt], [true, digestAt]]);
+
+    // Held until the digest time
+    await expect(service.dispatchDue()).resolves.toEqual({ sent: 0, skipped: 0, failed: 0 });
+
+    elapseBackoff();
+    await expect(service.dispatchDue()).resolves.toEqual({ sent: 2, skipped: 0, failed: 0 });
+    expect(mockHttpService.post).toHaveBeenCalledTimes(1);
+    expect(mockHttpService.post).toHaveBeenCalledWith(
+      expect.stringContaining('/send-general-notification'),
+      expect.objectContaining({ title: 'You have 2 new notifications', message: 'Latest: Payment Received · Invoice Ready', fcmToken: 'fcm-token-1' }),
+      expect.any(Object)
+    );
+    expect(rows.every(row => row.status === OutboxStatus.SENT)).toBe(true);
+    expect(mockNotificationLogService.markAsSent).toHaveBeenCalledTimes(2);
+  });
+});
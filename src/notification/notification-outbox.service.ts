@@ -0,0 +1,523 @@
+import { Injectable, Logger, NotFoundException, BadRequestException, OnModuleInit, OnModuleDestroy } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { HttpService } from '@nestjs/axios';
+import { ConfigService } from '@nestjs/config';
+import { firstValueFrom } from 'rxjs';
+import { DataSource, EntityManager, In, LessThan, LessThanOrEqual, Repository } from 'typeorm';
+import { NotificationOutbox, NotificationChannel, OutboxStatus } from './entities/notification-outbox.entity';
+import { Notification, DeliveryStatus } from './entities/notification.entity';
+import { NotificationLogService, CreateNotificationDto } from './notification-log.service';
+import { NotificationPreferenceService } from './notification-preference.service';
+import { NotificationTemplateService } from './notification-template.service';
+import {
+  DEFAULT_NOTIFICATION_TEMPLATES,
+  NotificationTemplateKey,
+  renderTemplateText
+} from './templates/default-notification-templates';
+import { NotificationOutboxFilterDto } from './dto/notification-outbox.dto';
+import { getExternalApiConfig } from '../config/environment.config';
+
+const DEFAULT_DISPATCH_INTERVAL_MS = 5 * 1000;
+const DEFAULT_MAX_ATTEMPTS = 6;
+const DEFAULT_RETRY_BASE_MS = 30 * 1000;
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+// A PROCESSING row older than this belongs to a dispatcher that died mid-send
+const STALE_LOCK_MS = 5 * 60 * 1000;
+const DISPATCH_BATCH_SIZE = 50;
+const SEND_TIMEOUT_MS = 30 * 1000;
+// Titles quoted in a digest push; the rest are only counted
+const DIGEST_TITLE_COUNT = 3;
+
+const CHANNEL_ENDPOINTS: Record<NotificationChannel, string> = {
+  [NotificationChannel.GENERAL_PUSH]: '/hostelno/api/v1/send-general-notification',
+  [NotificationChannel.BOOKING_PUSH]: '/hostelno/api/v1/send-hostel-booking-notification'
+};
+
+export interface OutboxMessage {
+  notification: CreateNotificationDto;
+  hostelId?: string;
+  channel: NotificationChannel;
+  // Exactly one: the user's devices, or those of the business owner
+  targetUserId?: string;
+  targetBusinessId?: string;
+  payload: Record<string, any>;
+}
+
+/**
+ * Notification Outbox Service
+ * Push notifications are not sent inline. enqueue() writes the notification
+ * record and its delivery job in the caller's transaction, so a notification
+ * exists exactly when the business change it reports was committed.
+ *
+ * A dispatcher running every NOTIFICATION_DISPATCH_INTERVAL_MS (disabled
+ * together with the scheduler via SCHEDULER_ENABLED=false) sends due jobs.
+ * Failures are retried with exponential backoff; after
+ * NOTIFICATION_MAX_ATTEMPTS the job is dead-lettered until an admin retries it.
+ *
+ * Pushes to a user follow their NotificationPreference: muted ones are only
+ * recorded (SKIPPED), quiet hours delay them, and digest jobs that fall due
+ * together go out as one summary push.
+ */
+@Injectable()
+export class NotificationOutboxService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(NotificationOutboxService.name);
+  private readonly maxAttempts: number;
+  private readonly retryBaseMs: number;
+  private readonly KAHA_NOTIFICATION_URL: string;
+  private readonly EXPRESS_NOTIFICATION_URL: string;
+  private readonly KAHA_MAIN_API_URL: string;
+  private timer: NodeJS.Timeout | null = null;
+  private dispatching = false;
+
+  constructor(
+    @InjectRepository(NotificationOutbox)
+    private outboxRepository: Repository<NotificationOutbox>,
+    private dataSource: DataSource,
+    private httpService: HttpService,
+    private configService: ConfigService,
+    private notificationLogService: NotificationLogService,
+    private notificationPreferenceService: NotificationPreferenceService,
+    private notificationTemplateService: NotificationTemplateService,
+  ) {
+    this.maxAttempts = Number(this.configService.get('NOTIFICATION_MAX_ATTEMPTS', DEFAULT_MAX_ATTEMPTS));
+    this.retryBaseMs = Number(this.configService.get('NOTIFICATION_RETRY_BASE_MS', DEFAULT_RETRY_BASE_MS));
+
+    const apiConfig = getExternalApiConfig(this.configService);
+    this.KAHA_NOTIFICATION_URL = apiConfig.kahaNotificationUrl;
+    this.EXPRESS_NOTIFICATION_URL = apiConfig.expressNotificationUrl;
+    this.KAHA_MAIN_API_URL = apiConfig.kahaMainApiUrl;
+  }
+
+  onModuleInit() {
+    if (this.configService.get('SCHEDULER_ENABLED', 'true') === 'false') {
+      return;
+    }
+
+    const interval = Number(this.configService.get('NOTIFICATION_DISPATCH_INTERVAL_MS', DEFAULT_DISPATCH_INTERVAL_MS));
+    this.timer = setInterval(() => this.dispatchDue(), interval);
+  }
+
+  onModuleDestroy() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Record a notification and queue its delivery. Pass the manager of the
+   * transaction making the business change so both commit or roll back
+   * together; without one they are written in a transaction of their own.
+   * A push the recipient opted out of is recorded as SKIPPED and not queued.
+   */
+  async enqueue(message: OutboxMessage, manager?: EntityManager): Promise<Notification> {
+    if (!manager) {
+      return this.dataSource.transaction(own => this.enqueue(message, own));
+    }
+
+    const now = new Date();
+    const decision = message.targetUserId
+      ? await this.notificationPreferenceService.resolveDelivery(
+        message.targetUserId,
+        message.notification.category,
+        message.channel,
+        now
+      )
+      : { deliver: true as const, notBefore: now, digest: false };
+
+    if (decision.deliver === false) {
+      const skipped = await manager.save(Notification, manager.create(Notification, {
+        ...message.notification,
+        status: DeliveryStatus.SKIPPED,
+        metadata: {
+          ...(message.notification.metadata || {}),
+          skipReason: decision.reason,
+          skippedAt: now.toISOString()
+        }
+      }));
+      this.logger.log(`🔕 Notification ${skipped.id} not queued: ${decision.reason}`);
+      return skipped;
+    }
+
+    const notification = await manager.save(Notification, manager.create(Notification, {
+      ...message.notification,
+      status: DeliveryStatus.PENDING
+    }));
+
+    await manager.save(NotificationOutbox, manager.create(NotificationOutbox, {
+      notificationId: notification.id,
+      hostelId: message.hostelId ?? null,
+      channel: message.channel,
+      targetUserId: message.targetUserId ?? null,
+      targetBusinessId: message.targetBusinessId ?? null,
+      payload: message.payload,
+      status: OutboxStatus.PENDING,
+      attempts: 0,
+      maxAttempts: this.maxAttempts,
+      nextAttemptAt: decision.notBefore,
+      scheduledFor: decision.notBefore,
+      digest: decision.digest
+    }));
+
+    this.logger.log(`📥 Queued ${message.channel} notification ${notification.id} for ${message.notification.recipientType}:${message.notification.recipientId}`);
+    return notification;
+  }
+
+  /**
+   * Send every job that is due. Jobs are claimed one at a time with a
+   * conditional update, so overlapping dispatchers never send one twice.
+   * Counts are per job; a digest push counts each job it carries.
+   */
+  async dispatchDue(): Promise<{ sent: number; skipped: number; failed: number }> {
+    const summary = { sent: 0, skipped: 0, failed: 0 };
+    if (this.dispatching) {
+      return summary;
+    }
+    this.dispatching = true;
+
+    try {
+      await this.releaseStaleLocks();
+
+      const due = await this.outboxRepository.find({
+        where: { status: OutboxStatus.PENDING, nextAttemptAt: LessThanOrEqual(new Date()) },
+        order: { nextAttemptAt: 'ASC' },
+        take: DISPATCH_BATCH_SIZE
+      });
+
+      for (const batch of groupForDelivery(due)) {
+        const claimed: NotificationOutbox[] = [];
+        for (const entry of batch) {
+          const result = await this.outboxRepository.update(
+            { id: entry.id, status: OutboxStatus.PENDING },
+            { status: OutboxStatus.PROCESSING, lockedAt: new Date() }
+          );
+          if (result.affected) {
+            claimed.push(entry);
+          }
+        }
+        if (!claimed.length) {
+          continue;
+        }
+
+        const outcome = await this.deliver(claimed);
+        summary[outcome] += claimed.length;
+      }
+    } catch (error) {
+      this.logger.error(`❌ Notification dispatch failed: ${error.message}`, error.stack);
+    } finally {
+      this.dispatching = false;
+    }
+
+    return summary;
+  }
+
+  /**
+   * Send a dead-lettered notification again, with a fresh set of attempts
+   */
+  async retry(notificationId: string, hostelId: string) {
+    if (!hostelId) {
+      throw new BadRequestException('Hostel context required');
+    }
+
+    const entry = await this.outboxRepository.findOne({ where: { notificationId, hostelId } });
+    if (!entry) {
+      throw new NotFoundException(`Notification with ID ${notificationId} not found`);
+    }
+
+    const result = await this.outboxRepository.update(
+      { id: entry.id, status: OutboxStatus.DEAD },
+      { status: OutboxStatus.PENDING, attempts: 0, nextAttemptAt: new Date(), lockedAt: null, lastError: null }
+    );
+    if (!result.affected) {
+      throw new BadRequestException(`Only dead-lettered notifications can be retried; this one is ${entry.status}`);
+    }
+
+    await this.notificationLogService.markAsPending(notificationId);
+    this.logger.log(`🔁 Notification ${notificationId} queued for retry`);
+
+    return this.transformToApiResponse(await this.outboxRepository.findOne({ where: { id: entry.id } }));
+  }
+
+  async findAll(hostelId: string, filters: NotificationOutboxFilterDto = {}) {
+    if (!hostelId) {
+      throw new BadRequestException('Hostel context required');
+    }
+
+    const { page = 1, limit = 20, status, channel } = filters;
+
+    const [entries, total] = await this.outboxRepository.findAndCount({
+      where: { hostelId, ...(status && { status }), ...(channel && { channel }) },
+      relations: ['notification'],
+      order: { createdAt: 'DESC' },
+      skip: (page - 1) * limit,
+      take: limit
+    });
+
+    return {
+      items: entries.map(entry => this.transformToApiResponse(entry)),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit)
+      }
+    };
+  }
+
+  /**
+   * Delivery counts and latency (enqueue to delivery, retries included) per
+   * channel for notifications queued in the last `hours`
+   */
+  async getMetrics(hostelId: string, hours = 24) {
+    if (!hostelId) {
+      throw new BadRequestException('Hostel context required');
+    }
+
+    const since = new Date(Date.now() - hours * 60 * 60 * 1000);
+
+    const rows = await this.outboxRepository
+      .createQueryBuilder('outbox')
+      .select('outbox.channel', 'channel')
+      .addSelect('COUNT(*)', 'total')
+      .addSelect('COUNT(*) FILTER (WHERE outbox.status = :sent)', 'sent')
+      .addSelect('COUNT(*) FILTER (WHERE outbox.status = :skipped)', 'skipped')
+      .addSelect('COUNT(*) FILTER (WHERE outbox.status IN (:...inFlight))', 'pending')
+      .addSelect('COUNT(*) FILTER (WHERE outbox.status = :dead)', 'dead')
+      .addSelect('COUNT(*) FILTER (WHERE outbox.status = :sent AND outbox.attempts > 1)', 'retried')
+      .addSelect('AVG(outbox.latencyMs)', 'avgLatencyMs')
+      .addSelect('PERCENTILE_CONT(0.5) WITHIN GROUP (ORDER BY outbox.latencyMs)', 'p50LatencyMs')
+      .addSelect('PERCENTILE_CONT(0.95) WITHIN GROUP (ORDER BY outbox.latencyMs)', 'p95LatencyMs')
+      .addSelect('MAX(outbox.latencyMs)', 'maxLatencyMs')
+      .where('outbox.hostelId = :hostelId', { hostelId })
+      .andWhere('outbox.createdAt >= :since', { since })
+      .groupBy('outbox.channel')
+      .setParameters({
+        sent: OutboxStatus.SENT,
+        skipped: OutboxStatus.SKIPPED,
+        dead: OutboxStatus.DEAD,
+        inFlight: [OutboxStatus.PENDING, OutboxStatus.PROCESSING]
+      })
+      .getRawMany();
+
+    return {
+      since,
+      channels: Object.values(NotificationChannel).map(channel => {
+        const row = rows.find(r => r.channel === channel);
+        return {
+          channel,
+          total: Number(row?.total ?? 0),
+          sent: Number(row?.sent ?? 0),
+          skipped: Number(row?.skipped ?? 0),
+          pending: Number(row?.pending ?? 0),
+          dead: Number(row?.dead ?? 0),
+          retried: Number(row?.retried ?? 0),
+          latencyMs: {
+            avg: toMilliseconds(row?.avgLatencyMs),
+            p50: toMilliseconds(row?.p50LatencyMs),
+            p95: toMilliseconds(row?.p95LatencyMs),
+            max: toMilliseconds(row?.maxLatencyMs)
+          }
+        };
+      })
+    };
+  }
+
+  private async releaseStaleLocks() {
+    const result = await this.outboxRepository.update(
+      { status: OutboxStatus.PROCESSING, lockedAt: LessThan(new Date(Date.now() - STALE_LOCK_MS)) },
+      { status: OutboxStatus.PENDING, lockedAt: null }
+    );
+    if (result.affected) {
+      this.logger.warn(`⚠️ Released ${result.affected} notification(s) stuck in processing`);
+    }
+  }
+
+  // One job, or a user's due digest jobs sent together as one summary push
+  private async deliver(entries: NotificationOutbox[]): Promise<'sent' | 'skipped' | 'failed'> {
+    const [first] = entries;
+
+    try {
+      const userId = first.targetUserId ?? await this.getBusinessOwnerId(first.targetBusinessId);
+      const fcmTokens = await this.getFcmTokens(userId);
+
+      if (!fcmTokens.length) {
+        for (const entry of entries) {
+          await this.outboxRepository.update(entry.id, { status: OutboxStatus.SKIPPED, lockedAt: null, lastError: null });
+          await this.notificationLogService.markAsSkipped(entry.notificationId, 'No FCM tokens found');
+        }
+        return 'skipped';
+      }
+
+      const isDigest = entries.length > 1;
+      const channel = isDigest ? NotificationChannel.GENERAL_PUSH : first.channel;
+      const payload = isDigest ? await this.buildDigestPayload(entries) : first.payload;
+
+      await firstValueFrom(
+        this.httpService.post(
+          `${this.EXPRESS_NOTIFICATION_URL}${CHANNEL_ENDPOINTS[channel]}`,
+          { ...payload, fcmToken: fcmTokens[0] },
+          { timeout: SEND_TIMEOUT_MS }
+        )
+      );
+
+      const deliveredAt = new Date();
+      for (const entry of entries) {
+        await this.outboxRepository.update(entry.id, {
+          status: OutboxStatus.SENT,
+          attempts: entry.attempts + 1,
+          lockedAt: null,
+          lastError: null,
+          deliveredAt,
+          latencyMs: deliveredAt.getTime() - new Date(entry.scheduledFor ?? entry.createdAt).getTime()
+        });
+        await this.notificationLogService.markAsSent(entry.notificationId, fcmTokens[0]);
+      }
+      return 'sent';
+    } catch (error) {
+      for (const entry of entries) {
+        await this.recordFailure(entry, error);
+      }
+      return 'failed';
+    }
+  }
+
+  private async buildDigestPayload(entries: NotificationOutbox[]) {
+    const notifications = await this.dataSource.getRepository(Notification).find({
+      where: { id: In(entries.map(entry => entry.notificationId)) },
+      order: { createdAt: 'DESC' }
+    });
+    const variables = {
+      count: entries.length,
+      titles: notifications.slice(0, DIGEST_TITLE_COUNT).map(notification => notification.title).join(' · ')
+    };
+
+    // Digests of hostel-less notifications use the English default text
+    const hostelId = entries.find(entry => entry.hostelId)?.hostelId;
+    const { title, message } = hostelId
+      ? await this.notificationTemplateService.render(hostelId, NotificationTemplateKey.NOTIFICATION_DIGEST, variables)
+      : {
+        title: renderTemplateText(DEFAULT_NOTIFICATION_TEMPLATES[NotificationTemplateKey.NOTIFICATION_DIGEST].translations.en.title, variables),
+        message: renderTemplateText(DEFAULT_NOTIFICATION_TEMPLATES[NotificationTemplateKey.NOTIFICATION_DIGEST].translations.en.message, variables)
+      };
+
+    return {
+      senderName: entries[0].payload?.senderName || 'Your Hostel',
+      recipientId: entries[0].targetUserId,
+      recipientType: 'USER',
+      title,
+      message,
+      meta: {
+        type: 'digest',
+        notificationIds: entries.map(entry => entry.notificationId),
+        timestamp: new Date().toISOString()
+      }
+    };
+  }
+
+  private async recordFailure(entry: NotificationOutbox, error: any) {
+    const attempts = entry.attempts + 1;
+    const reason = error.response?.status ? `${error.response.status}: ${error.message}` : error.message;
+
+    if (attempts >= entry.maxAttempts) {
+      await this.outboxRepository.update(entry.id, {
+        status: OutboxStatus.DEAD,
+        attempts,
+        lockedAt: null,
+        lastError: reason
+      });
+      await this.notificationLogService.markAsDeadLetter(entry.notificationId, reason);
+      this.logger.error(`☠️ Notification ${entry.notificationId} dead-lettered after ${attempts} attempts: ${reason}`);
+      return;
+    }
+
+    const delay = Math.min(this.retryBaseMs * 2 ** (attempts - 1), MAX_RETRY_DELAY_MS);
+    await this.outboxRepository.update(entry.id, {
+      status: OutboxStatus.PENDING,
+      attempts,
+      lockedAt: null,
+      lastError: reason,
+      nextAttemptAt: new Date(Date.now() + delay)
+    });
+    this.logger.warn(`⚠️ Notification ${entry.notificationId} attempt ${attempts} failed, retrying in ${Math.round(delay / 1000)}s: ${reason}`);
+  }
+
+  /**
+   * NOTE: KAHA_NOTIFICATION_URL already includes /api/v3. A failed lookup
+   * throws so the job is retried rather than skipped.
+   */
+  private async getFcmTokens(userId: string): Promise<string[]> {
+    const response = await firstValueFrom(
+      this.httpService.get(`${this.KAHA_NOTIFICATION_URL}/notification-devices/tokens`, {
+        params: { userIds: userId }
+      })
+    );
+
+    const tokenObjects = response.data?.tokens || [];
+    return tokenObjects.map(obj => obj.fcmToken).filter(token => token);
+  }
+
+  private async getBusinessOwnerId(businessId: string): Promise<string> {
+    const response = await firstValueFrom(
+      this.httpService.get(`${this.KAHA_MAIN_API_URL}/businesses/owner`, {
+        params: { businessId },
+        headers: { 'accept': '*/*' }
+      })
+    );
+
+    const ownerId = response.data?.id;
+    if (!ownerId) {
+      throw new Error(`Owner not found for business ${businessId}`);
+    }
+    return ownerId;
+  }
+
+  private transformToApiResponse(entry: NotificationOutbox) {
+    return {
+      id: entry.id,
+      notificationId: entry.notificationId,
+      channel: entry.channel,
+      status: entry.status,
+      attempts: entry.attempts,
+      maxAttempts: entry.maxAttempts,
+      nextAttemptAt: entry.nextAttemptAt,
+      lastError: entry.lastError,
+      deliveredAt: entry.deliveredAt,
+      latencyMs: entry.latencyMs,
+      createdAt: entry.createdAt,
+      notification: entry.notification ? {
+        recipientType: entry.notification.recipientType,
+        recipientId: entry.notification.recipientId,
+        category: entry.notification.category,
+        title: entry.notification.title,
+        message: entry.notification.message
+      } : undefined
+    };
+  }
+}
+
+// Each job is its own batch, except digest jobs, which are batched per user
+function groupForDelivery(entries: NotificationOutbox[]): NotificationOutbox[][] {
+  const batches: NotificationOutbox[][] = [];
+  const digests = new Map<string, NotificationOutbox[]>();
+
+  for (const entry of entries) {
+    if (!entry.digest || !entry.targetUserId) {
+      batches.push([entry]);
+      continue;
+    }
+
+    let batch = digests.get(entry.targetUserId);
+    if (!batch) {
+      batch = [];
+      digests.set(entry.targetUserId, batch);
+      batches.push(batch);
+    }
+    batch.push(entry);
+  }
+
+  return batches;
+}
+
+function toMilliseconds(value: string | number | null | undefined): number | null {
+  return value === null || value === undefined ? null : Math.round(Number(value));
+}
@@ -0,0 +1,47 @@
+import { Controller, Get, Put, Body, HttpStatus, UseGuards } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
+import { NotificationPreferenceService } from './notification-preference.service';
+import { UpdateNotificationPreferenceDto } from './dto/notification-preference.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { JwtPayload } from '../auth/interfaces/jwt-payload.interface';
+
+@ApiTags('Notification Preferences')
+@Controller('notification/preferences')
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth()
+export class NotificationPreferenceController {
+  constructor(private readonly notificationPreferenceService: NotificationPreferenceService) { }
+
+  @Get()
+  @ApiOperation({
+    summary: 'Get the current user\'s push notification preferences',
+    description: 'Users who never saved preferences get every notification immediately'
+  })
+  @ApiResponse({ status: 200, description: 'Preferences retrieved successfully' })
+  async getPreferences(@CurrentUser() user: JwtPayload) {
+    const preferences = await this.notificationPreferenceService.getPreferences(user.id);
+
+    return {
+      status: HttpStatus.OK,
+      data: preferences
+    };
+  }
+
+  @Put()
+  @ApiOperation({
+    summary: 'Update the current user\'s push notification preferences',
+    description: 'Muted categories and channels are still listed in the app but not pushed; ' +
+      'quiet hours and the daily digest delay pushes'
+  })
+  @ApiResponse({ status: 200, description: 'Preferences saved' })
+  @ApiResponse({ status: 400, description: 'Invalid quiet hours or timezone' })
+  async updatePreferences(@CurrentUser() user: JwtPayload, @Body() updateDto: UpdateNotificationPreferenceDto) {
+    const preferences = await this.notificationPreferenceService.updatePreferences(user.id, updateDto);
+
+    return {
+      status: HttpStatus.OK,
+      data: preferences
+    };
+  }
+}
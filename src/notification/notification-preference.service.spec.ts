@@ -0,0 +1,97 @@
+import { BadRequestException } from '@nestjs/common';
+import { NotificationPreferenceService } from './notification-preference.service';
+import { DigestMode } from './entities/notification-preference.entity';
+import { NotificationCategory } from './entities/notification.entity';
+import { NotificationChannel } from './entities/notification-outbox.entity';
+
+describe('NotificationPreferenceService', () => {
+  let service: NotificationPreferenceService;
+  let stored: any;
+
+  const mockPreferenceRepository = {
+    findOne: jest.fn(async () => stored),
+    create: jest.fn(data => ({ ...data })),
+    save: jest.fn(async preference => {
+      stored = { ...preference, id: 'preference-1', updatedAt: new Date() };
+      return stored;
+    }),
+  };
+
+  // 23:30 in Kathmandu (UTC+5:45)
+  const lateNight = new Date('2026-03-10T17:45:00Z');
+  // 12:00 in Kathmandu
+  const noon = new Date('2026-03-10T06:15:00Z');
+
+  const resolve = (now: Date, category = NotificationCategory.PAYMENT, channel = NotificationChannel.BOOKING_PUSH) =>
+    service.resolveDelivery('user-1', category, channel, now);
+
+  beforeEach(() => {
+    service = new NotificationPreferenceService(mockPreferenceRepository as any);
+    stored = null;
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should send immediately for users without preferences', async () => {
+    await expect(resolve(lateNight)).resolves.toEqual({ deliver: true, notBefore: lateNight, digest: false });
+    await expect(service.getPreferences('user-1')).resolves.toMatchObject({
+      mutedCategories: [],
+      quietHoursStart: null,
+      timezone: 'Asia/Kathmandu',
+      digestMode: DigestMode.OFF
+    });
+  });
+
+  it('should skip muted categories and channels and hold pushes during quiet hours', async () => {
+    await service.updatePreferences('user-1', {
+      mutedCategories: [NotificationCategory.BULK_MESSAGE, NotificationCategory.BULK_MESSAGE],
+      mutedChannels: [NotificationChannel.GENERAL_PUSH],
+      quietHoursStart: '22:00',
+      quietHoursEnd: '07:00'
+    });
+    expect(stored.mutedCategories).toEqual([NotificationCategory.BULK_MESSAGE]);
+
+    await expect(resolve(noon, NotificationCategory.BULK_MESSAGE))
+      .resolves.toEqual({ deliver: false, reason: 'User muted BULK_MESSAGE notifications' });
+    await expect(resolve(noon, NotificationCategory.PAYMENT, NotificationChannel.GENERAL_PUSH))
+      .resolves.toEqual({ deliver: false, reason: 'User muted the general_push channel' });
+
+    await expect(resolve(noon)).resolves.toEqual({ deliver: true, notBefore: noon, digest: false });
+    // 07:00 Kathmandu the next morning
+    await expect(resolve(lateNight)).resolves.toEqual({
+      deliver: true,
+      notBefore: new Date('2026-03-11T01:15:00Z'),
+      digest: false
+    });
+  });
+
+  it('should hold pushes for the daily digest in the user\'s timezone', async () => {
+    await service.updatePreferences('user-1', { digestMode: DigestMode.DAILY, digestTime: '08:30', timezone: 'UTC' });
+
+    await expect(resolve(noon)).resolves.toEqual({
+      deliver: true,
+      notBefore: new Date('2026-03-10T08:30:00Z'),
+      digest: true
+    });
+    await expect(resolve(lateNight)).resolves.toEqual({
+      deliver: true,
+      notBefore: new Date('2026-03-11T08:30:00Z'),
+      digest: true
+    });
+  });
+
+  it('should reject half-set quiet hours and unknown timezones', async () => {
+    await expect(service.updatePreferences('user-1', { quietHoursStart: '22:00' }))
+      .rejects.toThrow('Set both quietHoursStart and quietHoursEnd, or neither');
+    await expect(service.updatePreferences('user-1', { quietHoursStart: '22:00', quietHoursEnd: '22:00' }))
+      .rejects.toThrow(BadRequestException);
+    await expect(service.updatePreferences('user-1', { timezone: 'Mars/Olympus' }))
+      .rejects.toThrow('Unknown timezone: Mars/Olympus');
+
+    await service.updatePreferences('user-1', { quietHoursStart: '22:00', quietHoursEnd: '07:00' });
+    await expect(service.updatePreferences('user-1', { quietHoursStart: null, quietHoursEnd: null }))
+      .resolves.toMatchObject({ quietHoursStart: null, quietHoursEnd: null });
+  });
+});
@@ -0,0 +1,153 @@
+import { Injectable, Logger, BadRequestException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { NotificationPreference, DigestMode } from './entities/notification-preference.entity';
+import { NotificationCategory } from './entities/notification.entity';
+import { NotificationChannel } from './entities/notification-outbox.entity';
+import { UpdateNotificationPreferenceDto } from './dto/notification-preference.dto';
+
+const DEFAULT_TIMEZONE = 'Asia/Kathmandu';
+const DEFAULT_DIGEST_TIME = '19:00';
+const MINUTES_PER_DAY = 24 * 60;
+
+export type DeliveryDecision =
+  | { deliver: false; reason: string }
+  | { deliver: true; notBefore: Date; digest: boolean };
+
+/**
+ * Notification Preference Service
+ * Stores each user's push preferences and decides, when a notification is
+ * queued, whether and when it may be pushed. The notification record is
+ * always kept so it still shows in the app.
+ */
+@Injectable()
+export class NotificationPreferenceService {
+  private readonly logger = new Logger(NotificationPreferenceService.name);
+
+  constructor(
+    @InjectRepository(NotificationPreference)
+    private preferenceRepository: Repository<NotificationPreference>,
+  ) {}
+
+  async getPreferences(userId: string) {
+    const preference = await this.preferenceRepository.findOne({ where: { userId } });
+    return this.transformToApiResponse(userId, preference);
+  }
+
+  async updatePreferences(userId: string, dto: UpdateNotificationPreferenceDto) {
+    const preference = await this.preferenceRepository.findOne({ where: { userId } })
+      ?? this.preferenceRepository.create({
+        userId,
+        mutedCategories: [],
+        mutedChannels: [],
+        timezone: DEFAULT_TIMEZONE,
+        digestMode: DigestMode.OFF,
+        digestTime: DEFAULT_DIGEST_TIME
+      });
+
+    const updated = { ...preference, ...stripUndefined(dto) } as NotificationPreference;
+
+    if (!updated.quietHoursStart !== !updated.quietHoursEnd) {
+      throw new BadRequestException('Set both quietHoursStart and quietHoursEnd, or neither');
+    }
+    if (updated.quietHoursStart && updated.quietHoursStart === updated.quietHoursEnd) {
+      throw new BadRequestException('Quiet hours cannot start and end at the same time');
+    }
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: updated.timezone });
+    } catch {
+      throw new BadRequestException(`Unknown timezone: ${updated.timezone}`);
+    }
+
+    Object.assign(preference, {
+      ...updated,
+      mutedCategories: [...new Set(updated.mutedCategories)],
+      mutedChannels: [...new Set(updated.mutedChannels)],
+      quietHoursStart: updated.quietHoursStart ?? null,
+      quietHoursEnd: updated.quietHoursEnd ?? null
+    });
+
+    const saved = await this.preferenceRepository.save(preference);
+    this.logger.log(`🔕 Notification preferences updated for user ${userId}`);
+
+    return this.transformToApiResponse(userId, saved);
+  }
+
+  /**
+   * Whether a push for this category and channel may go to the user, and
+   * the earliest time it may be sent. Muting wins over quiet hours and
+   * digests; a digest user's pushes wait for the digest, not quiet hours.
+   */
+  async resolveDelivery(
+    userId: string,
+    category: NotificationCategory,
+    channel: NotificationChannel,
+    now = new Date()
+  ): Promise<DeliveryDecision> {
+    const preference = await this.preferenceRepository.findOne({ where: { userId } });
+    if (!preference) {
+      return { deliver: true, notBefore: now, digest: false };
+    }
+
+    if (preference.mutedCategories?.includes(category)) {
+      return { deliver: false, reason: `User muted ${category} notifications` };
+    }
+    if (preference.mutedChannels?.includes(channel)) {
+      return { deliver: false, reason: `User muted the ${channel} channel` };
+    }
+
+    if (preference.digestMode === DigestMode.DAILY) {
+      return { deliver: true, notBefore: nextLocalTime(now, preference.digestTime, preference.timezone), digest: true };
+    }
+
+    if (preference.quietHoursStart && preference.quietHoursEnd
+      && isWithin(localMinutes(now, preference.timezone), toMinutes(preference.quietHoursStart), toMinutes(preference.quietHoursEnd))) {
+      return { deliver: true, notBefore: nextLocalTime(now, preference.quietHoursEnd, preference.timezone), digest: false };
+    }
+
+    return { deliver: true, notBefore: now, digest: false };
+  }
+
+  private transformToApiResponse(userId: string, preference: NotificationPreference | null) {
+    return {
+      userId,
+      mutedCategories: preference?.mutedCategories ?? [],
+      mutedChannels: preference?.mutedChannels ?? [],
+      quietHoursStart: preference?.quietHoursStart ?? null,
+      quietHoursEnd: preference?.quietHoursEnd ?? null,
+      timezone: preference?.timezone ?? DEFAULT_TIMEZONE,
+      digestMode: preference?.digestMode ?? DigestMode.OFF,
+      digestTime: preference?.digestTime ?? DEFAULT_DIGEST_TIME,
+      updatedAt: preference?.updatedAt ?? null
+    };
+  }
+}
+
+function stripUndefined<T extends object>(values: T): Partial<T> {
+  return Object.fromEntries(Object.entries(values).filter(([, value]) => value !== undefined)) as Partial<T>;
+}
+
+function toMinutes(time: string): number {
+  const [hour, minute] = time.split(':').map(Number);
+  return hour * 60 + minute;
+}
+
+// Minutes since local midnight in `timezone`
+function localMinutes(instant: Date, timezone: string): number {
+  const time = new Intl.DateTimeFormat('en-GB', { timeZone: timezone, hour: '2-digit', minute: '2-digit', hourCycle: 'h23' })
+    .format(instant);
+  return toMinutes(time);
+}
+
+// Quiet hours may wrap past midnight; the end minute is not included
+function isWithin(minute: number, start: number, end: number): boolean {
+  return start < end ? minute >= start && minute < end : minute >= start || minute < end;
+}
+
+// The next instant (now, or later today or tomorrow) the wall clock in `timezone` shows `time`
+function nextLocalTime(now: Date, time: string, timezone: string): Date {
+  const wait = (toMinutes(time) - localMinutes(now, timezone) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  const minuteStart = new Date(now);
+  minuteStart.setUTCSeconds(0, 0);
+  return wait === 0 ? now : new Date(minuteStart.getTime() + wait * 60 * 1000);
+}
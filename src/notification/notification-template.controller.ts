@@ -0,0 +1,132 @@
+import { Controller, Get, Post, Put, Delete, Body, Param, Query, HttpStatus, UseGuards, ParseEnumPipe } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
+import { NotificationTemplateService } from './notification-template.service';
+import {
+  UpsertNotificationTemplateDto,
+  PreviewNotificationTemplateDto,
+  RenderNotificationTemplateDto,
+  NotificationTemplateFilterDto
+} from './dto/notification-template.dto';
+import { NotificationTemplate, NotificationLanguage } from './entities/notification-template.entity';
+import { GetHostelId } from '../hostel/decorators/hostel-context.decorator';
+import { HostelAuthWithContextGuard } from '../auth/guards/hostel-auth-with-context.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { JwtPayload } from '../auth/interfaces/jwt-payload.interface';
+import { RolesGuard } from '../staff-roles/guards/roles.guard';
+import { Permissions } from '../staff-roles/decorators/permissions.decorator';
+import { Permission } from '../staff-roles/permissions';
+import { Audited, SkipAudit } from '../audit/decorators/audited.decorator';
+
+@ApiTags('Notification Templates')
+@Controller('notification/templates')
+@UseGuards(HostelAuthWithContextGuard, RolesGuard)
+@Audited({ entity: NotificationTemplate })
+@ApiBearerAuth()
+export class NotificationTemplateController {
+  constructor(private readonly notificationTemplateService: NotificationTemplateService) { }
+
+  @Get()
+  @ApiOperation({ summary: 'Get the hostel\'s notification templates, built-in and custom' })
+  @ApiResponse({ status: 200, description: 'Templates retrieved successfully' })
+  async getTemplates(@GetHostelId() hostelId: string, @Query() filters: NotificationTemplateFilterDto) {
+    const templates = await this.notificationTemplateService.findAll(hostelId, filters);
+
+    return {
+      status: HttpStatus.OK,
+      data: templates
+    };
+  }
+
+  @Post('preview')
+  @SkipAudit()
+  @ApiOperation({
+    summary: 'Preview unsaved template text',
+    description: 'Fills in the sample values and reports undeclared variables and missing values'
+  })
+  @ApiResponse({ status: 200, description: 'Rendered preview' })
+  async previewTemplate(@Body() previewDto: PreviewNotificationTemplateDto) {
+    return {
+      status: HttpStatus.OK,
+      data: this.notificationTemplateService.preview(previewDto)
+    };
+  }
+
+  @Get(':key/:language')
+  @ApiOperation({ summary: 'Get the template the hostel sends for a key and language' })
+  @ApiResponse({ status: 200, description: 'Template retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Unknown template key' })
+  async getTemplate(
+    @GetHostelId() hostelId: string,
+    @Param('key') key: string,
+    @Param('language', new ParseEnumPipe(NotificationLanguage)) language: NotificationLanguage
+  ) {
+    const template = await this.notificationTemplateService.findOne(hostelId, key, language);
+
+    return {
+      status: HttpStatus.OK,
+      data: template
+    };
+  }
+
+  @Put(':key/:language')
+  @Permissions(Permission.NOTIFICATION_TEMPLATES_MANAGE)
+  @ApiOperation({
+    summary: 'Replace a built-in template or save a custom one',
+    description: 'Placeholders must be among the template\'s variables'
+  })
+  @ApiResponse({ status: 200, description: 'Template saved' })
+  @ApiResponse({ status: 400, description: 'Undeclared variables or invalid key' })
+  async upsertTemplate(
+    @GetHostelId() hostelId: string,
+    @Param('key') key: string,
+    @Param('language', new ParseEnumPipe(NotificationLanguage)) language: NotificationLanguage,
+    @Body() upsertDto: UpsertNotificationTemplateDto,
+    @CurrentUser() user: JwtPayload
+  ) {
+    const template = await this.notificationTemplateService.upsert(hostelId, key, language, upsertDto, user?.id);
+
+    return {
+      status: HttpStatus.OK,
+      data: template
+    };
+  }
+
+  @Delete(':key/:language')
+  @Permissions(Permission.NOTIFICATION_TEMPLATES_MANAGE)
+  @ApiOperation({ summary: 'Delete the hostel\'s template; built-in keys go back to the default text' })
+  @ApiResponse({ status: 200, description: 'Template deleted; returns the default now in use, if any' })
+  @ApiResponse({ status: 404, description: 'The hostel has no template for this key and language' })
+  async removeTemplate(
+    @GetHostelId() hostelId: string,
+    @Param('key') key: string,
+    @Param('language', new ParseEnumPipe(NotificationLanguage)) language: NotificationLanguage
+  ) {
+    const fallback = await this.notificationTemplateService.remove(hostelId, key, language);
+
+    return {
+      status: HttpStatus.OK,
+      data: fallback
+    };
+  }
+
+  @Post(':key/render')
+  @SkipAudit()
+  @ApiOperation({
+    summary: 'Render a template the way it would be sent',
+    description: 'Uses the hostel\'s notification language unless one is given; falls back to English'
+  })
+  @ApiResponse({ status: 200, description: 'Rendered title and message' })
+  @ApiResponse({ status: 400, description: 'A variable has no value' })
+  async renderTemplate(
+    @GetHostelId() hostelId: string,
+    @Param('key') key: string,
+    @Body() renderDto: RenderNotificationTemplateDto
+  ) {
+    const rendered = await this.notificationTemplateService.render(hostelId, key, renderDto.variables, renderDto.language);
+
+    return {
+      status: HttpStatus.OK,
+      data: rendered
+    };
+  }
+}
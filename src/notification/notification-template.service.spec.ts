@@ -0,0 +1,133 @@
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { NotificationTemplateService } from './notification-template.service';
+import { NotificationLanguage } from './entities/notification-template.entity';
+import { NotificationCategory } from './entities/notification.entity';
+import { NotificationTemplateKey } from './templates/default-notification-templates';
+import { DEFAULT_HOSTEL_SETTINGS } from '../hostel/entities/hostel-settings.entity';
+
+describe('NotificationTemplateService', () => {
+  let service: NotificationTemplateService;
+  let templates: any[];
+  let language: NotificationLanguage;
+
+  const matches = (template: any, where: any) =>
+    Object.entries(where).every(([field, value]: [string, any]) =>
+      value?._type === 'in' ? value._value.includes(template[field]) : template[field] === value);
+
+  const mockTemplateRepository = {
+    find: jest.fn(async ({ where }) => templates.filter(template => matches(template, where))),
+    findOne: jest.fn(async ({ where }) => templates.find(template => matches(template, where)) || null),
+    create: jest.fn(data => ({ ...data })),
+    save: jest.fn(async template => {
+      if (!template.id) {
+        template.id = `template-${templates.length + 1}`;
+        templates.push(template);
+      }
+      return template;
+    }),
+    delete: jest.fn(async where => {
+      const before = templates.length;
+      templates = templates.filter(template => !matches(template, where));
+      return { affected: before - templates.length };
+    }),
+  };
+
+  const mockHostelSettingsService = {
+    getSettings: jest.fn(async () => ({
+      ...DEFAULT_HOSTEL_SETTINGS,
+      general: { ...DEFAULT_HOSTEL_SETTINGS.general, language }
+    })),
+  };
+
+  beforeEach(() => {
+    service = new NotificationTemplateService(
+      mockTemplateRepository as any,
+      mockHostelSettingsService as any
+    );
+
+    templates = [];
+    language = NotificationLanguage.EN;
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should render in the hostel language, prefer its own wording and fall back to English', async () => {
+    const variables = { currency: 'NPR', amount: '5,000' };
+
+    language = NotificationLanguage.NE;
+    const nepali = await service.render('hostel-1', NotificationTemplateKey.PAYMENT_RECEIVED, variables);
+    expect(nepali).toMatchObject({ language: NotificationLanguage.NE, category: NotificationCategory.PAYMENT, title: 'भुक्तानी प्राप्त भयो' });
+    expect(nepali.message).toContain('NPR 5,000');
+
+    await service.upsert('hostel-1', NotificationTemplateKey.PAYMENT_RECEIVED, NotificationLanguage.NE, {
+      title: 'रकम प्राप्त',
+      message: '{amount} {currency} प्राप्त भयो, धन्यवाद!'
+    }, 'admin-1');
+    await expect(service.render('hostel-1', NotificationTemplateKey.PAYMENT_RECEIVED, variables))
+      .resolves.toMatchObject({ title: 'रकम प्राप्त', message: '5,000 NPR प्राप्त भयो, धन्यवाद!' });
+
+    // A custom key with only an English version is sent in English
+    await service.upsert('hostel-1', 'events.dashain', NotificationLanguage.EN, {
+      title: 'Happy Dashain',
+      message: 'The mess closes on {date}',
+      variables: ['date'],
+      category: NotificationCategory.GENERAL
+    });
+    await expect(service.render('hostel-1', 'events.dashain', { date: 'Asoj 30' }))
+      .resolves.toMatchObject({ language: NotificationLanguage.EN, message: 'The mess closes on Asoj 30' });
+
+    await expect(service.render('hostel-1', 'events.tihar', {})).rejects.toThrow(NotFoundException);
+    await expect(service.render('hostel-1', NotificationTemplateKey.PAYMENT_RECEIVED, { currency: 'NPR' }))
+      .rejects.toThrow('Missing values for template payment.received: amount');
+  });
+
+  it('should only accept the declared variables', async () => {
+    await expect(service.upsert('hostel-1', NotificationTemplateKey.LATE_FEE_APPLIED, NotificationLanguage.EN, {
+      title: 'Late fee for {studentName}',
+      message: '{currency} {amount} added to {invoice}'
+    })).rejects.toThrow('Template uses undeclared variables: studentName');
+
+    await expect(service.upsert('hostel-1', NotificationTemplateKey.LATE_FEE_APPLIED, NotificationLanguage.EN, {
+      title: 'Late fee',
+      message: '{currency} {amount}',
+      category: NotificationCategory.GENERAL
+    })).rejects.toThrow(BadRequestException);
+
+    await expect(service.upsert('hostel-1', 'Custom Key', NotificationLanguage.EN, {
+      title: 'Hi',
+      message: 'Hello',
+      category: NotificationCategory.GENERAL
+    })).rejects.toThrow(BadRequestException);
+
+    await expect(service.upsert('hostel-1', 'events.open_day', NotificationLanguage.EN, {
+      title: 'Open day',
+      message: 'Visit us on {date}'
+    })).rejects.toThrow('category is required for a custom template');
+
+    expect(service.preview({ title: 'Hi {name}', message: 'Room {room}', variables: ['name'], values: { name: 'Sita' } }))
+      .toEqual({ title: 'Hi Sita', message: 'Room {room}', variables: ['name', 'room'], undeclaredVariables: ['room'], missingValues: ['room'] });
+  });
+
+  it('should list defaults with hostel overrides and revert to the default on delete', async () => {
+    await service.upsert('hostel-1', NotificationTemplateKey.DISCOUNT_APPLIED, NotificationLanguage.EN, {
+      title: 'You got a discount',
+      message: '{currency} {amount} off: {reason}'
+    }, 'admin-1');
+
+    const payments = await service.findAll('hostel-1', { category: NotificationCategory.PAYMENT, language: NotificationLanguage.EN });
+    expect(payments.map(template => template.key)).toEqual([
+      NotificationTemplateKey.DISCOUNT_APPLIED,
+      NotificationTemplateKey.PAYMENT_RECEIVED,
+      NotificationTemplateKey.PAYMENT_REMINDER
+    ]);
+    expect(payments[0]).toMatchObject({ source: 'hostel', builtIn: true, title: 'You got a discount', updatedBy: 'admin-1' });
+    expect(payments[1]).toMatchObject({ source: 'default', builtIn: true });
+
+    const reverted = await service.remove('hostel-1', NotificationTemplateKey.DISCOUNT_APPLIED, NotificationLanguage.EN);
+    expect(reverted).toMatchObject({ source: 'default', title: 'Discount Applied' });
+    await expect(service.remove('hostel-1', NotificationTemplateKey.DISCOUNT_APPLIED, NotificationLanguage.EN))
+      .rejects.toThrow(NotFoundException);
+  });
+});
@@ -0,0 +1,281 @@
+import { Injectable, Logger, BadRequestException, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, Repository } from 'typeorm';
+import { NotificationTemplate, NotificationLanguage } from './entities/notification-template.entity';
+import { NotificationCategory } from './entities/notification.entity';
+import { HostelSettingsService } from '../hostel/services/hostel-settings.service';
+import {
+  DEFAULT_NOTIFICATION_TEMPLATES,
+  NotificationTemplateDefinition,
+  extractTemplateVariables,
+  renderTemplateText
+} from './templates/default-notification-templates';
+import {
+  UpsertNotificationTemplateDto,
+  PreviewNotificationTemplateDto,
+  NotificationTemplateFilterDto
+} from './dto/notification-template.dto';
+
+// Custom keys follow the built-in style: lowercase words joined by dots, e.g. `events.fee_reminder`
+const TEMPLATE_KEY_PATTERN = /^[a-z0-9_]+(\.[a-z0-9_]+)*$/;
+
+export interface RenderedNotification {
+  key: string;
+  category: NotificationCategory;
+  language: NotificationLanguage;
+  title: string;
+  message: string;
+}
+
+/**
+ * Notification Template Service
+ * Resolves notification text by template key for a hostel: the hostel's own
+ * template when it has one, otherwise the built-in default. A key that is
+ * missing in the requested language falls back to English.
+ */
+@Injectable()
+export class NotificationTemplateService {
+  private readonly logger = new Logger(NotificationTemplateService.name);
+
+  constructor(
+    @InjectRepository(NotificationTemplate)
+    private templateRepository: Repository<NotificationTemplate>,
+    private hostelSettingsService: HostelSettingsService,
+  ) {}
+
+  /**
+   * Every template the hostel can send: the built-ins (with the hostel's
+   * wording where it has replaced them) and its own custom keys.
+   */
+  async findAll(hostelId: string, filters: NotificationTemplateFilterDto = {}) {
+    if (!hostelId) {
+      throw new BadRequestException('Hostel context required');
+    }
+
+    const { category, language } = filters;
+    const languages = language ? [language] : Object.values(NotificationLanguage);
+
+    const stored = await this.templateRepository.find({
+      where: { hostelId, language: In(languages), ...(category && { category }) }
+    });
+    const storedByKey = new Map(stored.map(template => [`${template.key}:${template.language}`, template]));
+
+    const items = [];
+    for (const [key, definition] of Object.entries(DEFAULT_NOTIFICATION_TEMPLATES)) {
+      if (category && definition.category !== category) {
+        continue;
+      }
+      for (const lang of languages) {
+        const override = storedByKey.get(`${key}:${lang}`);
+        storedByKey.delete(`${key}:${lang}`);
+        items.push(override ? this.transformToApiResponse(override, true) : this.defaultToApiResponse(key, definition, lang));
+      }
+    }
+    for (const custom of storedByKey.values()) {
+      items.push(this.transformToApiResponse(custom, false));
+    }
+
+    return items.sort((a, b) => a.key.localeCompare(b.key) || a.language.localeCompare(b.language));
+  }
+
+  async findOne(hostelId: string, key: string, language: NotificationLanguage) {
+    if (!hostelId) {
+      throw new BadRequestException('Hostel context required');
+    }
+
+    const stored = await this.templateRepository.findOne({ where: { hostelId, key, language } });
+    if (stored) {
+      return this.transformToApiResponse(stored, !!DEFAULT_NOTIFICATION_TEMPLATES[key]);
+    }
+
+    const definition = DEFAULT_NOTIFICATION_TEMPLATES[key];
+    if (!definition) {
+      throw new NotFoundException(`Notification template ${key} (${language}) not found`);
+    }
+
+    return this.defaultToApiResponse(key, definition, language);
+  }
+
+  /**
+   * Save the hostel's wording for a key and language. Built-in keys keep
+   * their category and variables; a custom key declares its own.
+   */
+  async upsert(hostelId: string, key: string, language: NotificationLanguage, dto: UpsertNotificationTemplateDto, updatedBy?: string) {
+    if (!hostelId) {
+      throw new BadRequestException('Hostel context required');
+    }
+
+    const definition: NotificationTemplateDefinition | undefined = DEFAULT_NOTIFICATION_TEMPLATES[key];
+    let category: NotificationCategory;
+    let variables: string[];
+
+    if (definition) {
+      if (dto.category && dto.category !== definition.category) {
+        throw new BadRequestException(`Template ${key} is a built-in ${definition.category} template; its category cannot change`);
+      }
+      category = definition.category;
+      variables = definition.variables;
+    } else {
+      if (!TEMPLATE_KEY_PATTERN.test(key) || key.length > 100) {
+        throw new BadRequestException('Template key must be lowercase words joined by dots, e.g. events.fee_reminder');
+      }
+      // Other languages of the same custom key set the defaults
+      const sibling = await this.templateRepository.findOne({ where: { hostelId, key } });
+      category = dto.category ?? sibling?.category;
+      variables = dto.variables ?? sibling?.variables ?? [];
+      if (!category) {
+        throw new BadRequestException('category is required for a custom template');
+      }
+    }
+
+    const undeclared = findUndeclaredVariables(dto.title, dto.message, variables);
+    if (undeclared.length > 0) {
+      throw new BadRequestException(
+        `Template uses undeclared variables: ${undeclared.join(', ')}. Allowed: ${variables.join(', ') || 'none'}`
+      );
+    }
+
+    const existing = await this.templateRepository.findOne({ where: { hostelId, key, language } });
+    const template = existing ?? this.templateRepository.create({ hostelId, key, language });
+    Object.assign(template, {
+      category,
+      title: dto.title,
+      message: dto.message,
+      variables,
+      description: dto.description ?? existing?.description ?? definition?.description ?? null,
+      updatedBy: updatedBy || 'admin'
+    });
+
+    const saved = await this.templateRepository.save(template);
+    this.logger.log(`📝 Notification template ${key} (${language}) saved for hostel ${hostelId}`);
+
+    return this.transformToApiResponse(saved, !!definition);
+  }
+
+  /**
+   * Drop the hostel's wording. A built-in key goes back to the default text.
+   */
+  async remove(hostelId: string, key: string, language: NotificationLanguage) {
+    if (!hostelId) {
+      throw new BadRequestException('Hostel context required');
+    }
+
+    const result = await this.templateRepository.delete({ hostelId, key, language });
+    if (!result.affected) {
+      throw new NotFoundException(`Hostel has no ${language} template for ${key}`);
+    }
+
+    this.logger.log(`🗑️ Notification template ${key} (${language}) removed for hostel ${hostelId}`);
+
+    const definition = DEFAULT_NOTIFICATION_TEMPLATES[key];
+    return definition ? this.defaultToApiResponse(key, definition, language) : null;
+  }
+
+  /**
+   * Render a template for sending. Uses the hostel's notification language
+   * unless one is given; every placeholder must have a value.
+   */
+  async render(
+    hostelId: string,
+    key: string,
+    variables: Record<string, string | number>,
+    language?: NotificationLanguage
+  ): Promise<RenderedNotification> {
+    if (!hostelId) {
+      throw new BadRequestException('Hostel context required');
+    }
+
+    const requested = language ?? (await this.hostelSettingsService.getSettings(hostelId)).general.language;
+    const template = await this.resolve(hostelId, key, requested);
+
+    const missing = extractTemplateVariables(`${template.title} ${template.message}`)
+      .filter(name => variables[name] === undefined || variables[name] === null);
+    if (missing.length > 0) {
+      throw new BadRequestException(`Missing values for template ${key}: ${missing.join(', ')}`);
+    }
+
+    return {
+      key,
+      category: template.category,
+      language: template.language,
+      title: renderTemplateText(template.title, variables),
+      message: renderTemplateText(template.message, variables)
+    };
+  }
+
+  /**
+   * Try out unsaved text. Never fails on the values: unknown placeholders and
+   * missing values are reported, and missing ones are left in the output.
+   */
+  preview(dto: PreviewNotificationTemplateDto) {
+    const values = dto.values || {};
+    const used = extractTemplateVariables(`${dto.title} ${dto.message}`);
+
+    return {
+      title: renderTemplateText(dto.title, values),
+      message: renderTemplateText(dto.message, values),
+      variables: used,
+      undeclaredVariables: dto.variables ? findUndeclaredVariables(dto.title, dto.message, dto.variables) : [],
+      missingValues: used.filter(name => values[name] === undefined || values[name] === null)
+    };
+  }
+
+  // Hostel template in the language, then the default, then the same in English
+  private async resolve(hostelId: string, key: string, language: NotificationLanguage) {
+    const languages = [...new Set([language, NotificationLanguage.EN])];
+    const stored = await this.templateRepository.find({
+      where: { hostelId, key, language: In(languages) }
+    });
+    const definition = DEFAULT_NOTIFICATION_TEMPLATES[key];
+
+    for (const lang of languages) {
+      const override = stored.find(template => template.language === lang);
+      if (override) {
+        return override;
+      }
+      if (definition?.translations[lang]) {
+        return { ...definition.translations[lang], category: definition.category, language: lang };
+      }
+    }
+
+    throw new NotFoundException(`Notification template ${key} not found`);
+  }
+
+  private defaultToApiResponse(key: string, definition: NotificationTemplateDefinition, language: NotificationLanguage) {
+    return {
+      id: null,
+      key,
+      category: definition.category,
+      language,
+      title: definition.translations[language].title,
+      message: definition.translations[language].message,
+      variables: definition.variables,
+      description: definition.description,
+      source: 'default' as const,
+      builtIn: true,
+      updatedBy: null,
+      updatedAt: null
+    };
+  }
+
+  private transformToApiResponse(template: NotificationTemplate, builtIn: boolean) {
+    return {
+      id: template.id,
+      key: template.key,
+      category: template.category,
+      language: template.language,
+      title: template.title,
+      message: template.message,
+      variables: template.variables,
+      description: template.description,
+      source: 'hostel' as const,
+      builtIn,
+      updatedBy: template.updatedBy,
+      updatedAt: template.updatedAt
+    };
+  }
+}
+
+function findUndeclaredVariables(title: string, message: string, declared: string[]): string[] {
+  return extractTemplateVariables(`${title} ${message}`).filter(name => !declared.includes(name));
+}
@@ -8,10 +8,23 @@ import { NotificationTestController } from './notification-test.controller';
 import { NotificationPublicController } from './notification-public.controller';
 import { UnifiedNotificationService } from './unified-notification.service';
 import { NotificationLogService } from './notification-log.service';
+import { NotificationTemplateService } from './notification-template.service';
+import { NotificationTemplateController } from './notification-template.controller';
+import { NotificationOutboxService } from './notification-outbox.service';
+import { NotificationOutboxController } from './notification-outbox.controller';
+import { NotificationPreferenceService } from './notification-preference.service';
+import { NotificationPreferenceController } from './notification-preference.controller';
+import { NotificationBroadcastService } from './notification-broadcast.service';
+import { NotificationBroadcastController } from './notification-broadcast.controller';
 import { Student } from '../students/entities/student.entity';
 import { Notification } from './entities/notification.entity';
+import { NotificationTemplate } from './entities/notification-template.entity';
+import { NotificationOutbox } from './entities/notification-outbox.entity';
+import { NotificationPreference } from './entities/notification-preference.entity';
+import { ScheduledBroadcast } from './entities/scheduled-broadcast.entity';
 import { HostelModule } from '../hostel/hostel.module';
 import { JwtTokenModule } from '../auth/jwt-token.module';
+import { StaffRolesModule } from '../staff-roles/staff-roles.module';
 
 @Module({
   imports: [
@@ -20,12 +33,13 @@ import { JwtTokenModule } from '../auth/jwt-token.module';
       maxRedirects: 5,
     }),
     ConfigModule,
-    TypeOrmModule.forFeature([Student, Notification]),
+    TypeOrmModule.forFeature([Student, Notification, NotificationTemplate, NotificationOutbox, NotificationPreference, ScheduledBroadcast]),
     HostelModule, // 🔔 Add HostelModule to provide HostelService for the guard
     JwtTokenModule, // 🔔 Add JwtTokenModule to provide JwtTokenService for token verification
+    StaffRolesModule,
   ],
-  controllers: [NotificationController, NotificationTestController, NotificationPublicController],
-  providers: [NotificationService, UnifiedNotificationService, NotificationLogService],
-  exports: [NotificationService, UnifiedNotificationService, NotificationLogService], // Export all services
+  controllers: [NotificationTemplateController, NotificationOutboxController, NotificationPreferenceController, NotificationBroadcastController, NotificationController, NotificationTestController, NotificationPublicController],
+  providers: [NotificationService, UnifiedNotificationService, NotificationLogService, NotificationTemplateService, NotificationOutboxService, NotificationPreferenceService, NotificationBroadcastService],
+  exports: [NotificationService, UnifiedNotificationService, NotificationLogService, NotificationTemplateService, NotificationOutboxService, NotificationPreferenceService, NotificationBroadcastService], // Export all services
 })
 export class NotificationModule {}
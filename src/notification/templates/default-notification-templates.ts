@@ -0,0 +1,679 @@
+import { NotificationCategory } from '../entities/notification.entity';
+import { NotificationLanguage } from '../entities/notification-template.entity';
+
+/**
+ * Keys of the built-in templates. Senders pick a key, the text comes from
+ * the hostel's override or DEFAULT_NOTIFICATION_TEMPLATES.
+ */
+export enum NotificationTemplateKey {
+  // Payments and charges
+  PAYMENT_RECEIVED = 'payment.received',
+  PAYMENT_REMINDER = 'payment.reminder',
+  DISCOUNT_APPLIED = 'discount.applied',
+  ADMIN_CHARGE_ADDED = 'admin_charge.added',
+  LATE_FEE_APPLIED = 'late_fee.applied',
+
+  // Bookings (guest)
+  BOOKING_APPROVED = 'booking.approved',
+  BOOKING_REJECTED = 'booking.rejected',
+  BOOKING_CONFIRMED = 'booking.confirmed',
+  BOOKING_CANCELLED = 'booking.cancelled',
+  BOOKING_GUEST_CONFIRMED = 'booking.guest_confirmed',
+  BOOKING_GUEST_REJECTED = 'booking.guest_rejected',
+  BOOKING_HOLD_ENDING = 'booking.hold_ending',
+  BOOKING_HOLD_EXPIRED = 'booking.hold_expired',
+
+  // Bookings (hostel admin)
+  BOOKING_REQUEST = 'booking.request',
+  BOOKING_ADMIN_NEW_REQUEST = 'booking.admin_new_request',
+  BOOKING_ADMIN_CANCELLED = 'booking.admin_cancelled',
+  BOOKING_ADMIN_EXPIRING = 'booking.admin_expiring',
+  BOOKING_ADMIN_EXPIRED = 'booking.admin_expired',
+
+  // Waitlist
+  WAITLIST_BEDS_OFFERED = 'waitlist.beds_offered',
+  WAITLIST_HOLD_EXPIRED = 'waitlist.hold_expired',
+
+  // Leave requests
+  LEAVE_REVIEW_REQUESTED = 'leave.review_requested',
+  LEAVE_APPROVED = 'leave.approved',
+  LEAVE_REJECTED = 'leave.rejected',
+  LEAVE_GUARDIAN_DECLINED = 'leave.guardian_declined',
+
+  // Room transfers
+  ROOM_TRANSFER_SWAP_REQUESTED = 'room_transfer.swap_requested',
+  ROOM_TRANSFER_SWAP_ACCEPTED = 'room_transfer.swap_accepted',
+  ROOM_TRANSFER_SWAP_DECLINED = 'room_transfer.swap_declined',
+  ROOM_TRANSFER_APPROVED = 'room_transfer.approved',
+  ROOM_TRANSFER_SWAP_APPROVED = 'room_transfer.swap_approved',
+  ROOM_TRANSFER_REJECTED = 'room_transfer.rejected',
+
+  // Curfew
+  CURFEW_EXEMPTION_REQUESTED = 'curfew.exemption_requested',
+  CURFEW_EXEMPTION_APPROVED = 'curfew.exemption_approved',
+  CURFEW_EXEMPTION_DECLINED = 'curfew.exemption_declined',
+  CURFEW_LATE_RETURN = 'curfew.late_return',
+  CURFEW_MISSED = 'curfew.missed',
+
+  // Students
+  STUDENT_ROOM_SETUP_COMPLETE = 'student.room_setup_complete',
+  STUDENT_CHECKOUT_COMPLETE = 'student.checkout_complete',
+
+  // Delivery
+  NOTIFICATION_DIGEST = 'notification.digest'
+}
+
+export interface NotificationTemplateText {
+  title: string;
+  message: string;
+}
+
+export interface NotificationTemplateDefinition {
+  category: NotificationCategory;
+  description: string;
+  variables: string[];
+  translations: Record<NotificationLanguage, NotificationTemplateText>;
+}
+
+export const DEFAULT_NOTIFICATION_TEMPLATES: Record<NotificationTemplateKey, NotificationTemplateDefinition> = {
+  [NotificationTemplateKey.PAYMENT_RECEIVED]: {
+    category: NotificationCategory.PAYMENT,
+    description: 'Student: a payment was recorded',
+    variables: ['currency', 'amount'],
+    translations: {
+      en: {
+        title: 'Payment Received',
+        message: 'Your payment of {currency} {amount} has been received and processed successfully.'
+      },
+      ne: {
+        title: 'भुक्तानी प्राप्त भयो',
+        message: 'तपाईंको {currency} {amount} भुक्तानी प्राप्त भई सफलतापूर्वक प्रशोधन गरिएको छ।'
+      }
+    }
+  },
+  [NotificationTemplateKey.PAYMENT_REMINDER]: {
+    category: NotificationCategory.PAYMENT,
+    description: 'Student: scheduled reminder for rent that is due or overdue',
+    variables: ['statusMessage', 'currency', 'amount'],
+    translations: {
+      en: {
+        title: '💰 Payment Reminder',
+        message: '{statusMessage}. Amount: {currency} {amount}'
+      },
+      ne: {
+        title: '💰 भुक्तानी सम्झना',
+        message: '{statusMessage}। रकम: {currency} {amount}'
+      }
+    }
+  },
+  [NotificationTemplateKey.DISCOUNT_APPLIED]: {
+    category: NotificationCategory.PAYMENT,
+    description: 'Student: a discount was applied to their account',
+    variables: ['currency', 'amount', 'reason'],
+    translations: {
+      en: {
+        title: 'Discount Applied',
+        message: 'A discount of {currency} {amount} has been applied to your account. Reason: {reason}'
+      },
+      ne: {
+        title: 'छुट लागू भयो',
+        message: 'तपाईंको खातामा {currency} {amount} छुट लागू गरिएको छ। कारण: {reason}'
+      }
+    }
+  },
+  [NotificationTemplateKey.ADMIN_CHARGE_ADDED]: {
+    category: NotificationCategory.ADMIN_CHARGE,
+    description: 'Student: an admin charge was added to their account',
+    variables: ['currency', 'amount', 'chargeType'],
+    translations: {
+      en: {
+        title: 'New Charge Added',
+        message: 'A charge of {currency} {amount} has been added to your account for {chargeType}.'
+      },
+      ne: {
+        title: 'नयाँ शुल्क थपियो',
+        message: 'तपाईंको खातामा {chargeType} बापत {currency} {amount} शुल्क थपिएको छ।'
+      }
+    }
+  },
+  [NotificationTemplateKey.LATE_FEE_APPLIED]: {
+    category: NotificationCategory.ADMIN_CHARGE,
+    description: 'Student: a late fee was charged on an overdue invoice',
+    variables: ['currency', 'amount', 'invoice'],
+    translations: {
+      en: {
+        title: 'Late Fee Added',
+        message: 'A late fee of {currency} {amount} was added because invoice {invoice} is past its due date.'
+      },
+      ne: {
+        title: 'ढिला भुक्तानी शुल्क थपियो',
+        message: 'बिल {invoice} को भुक्तानी मिति नाघेकोले {currency} {amount} ढिला भुक्तानी शुल्क थपिएको छ।'
+      }
+    }
+  },
+
+  [NotificationTemplateKey.BOOKING_APPROVED]: {
+    category: NotificationCategory.BOOKING,
+    description: 'Guest: booking request approved',
+    variables: ['checkInDate', 'hostelName'],
+    translations: {
+      en: {
+        title: 'Booking Approved ✅',
+        message: 'Great news! Your booking has been approved for {checkInDate}. Welcome to {hostelName}! Check-in details will be shared shortly.'
+      },
+      ne: {
+        title: 'बुकिङ स्वीकृत भयो ✅',
+        message: 'खुसीको खबर! {checkInDate} को लागि तपाईंको बुकिङ स्वीकृत भएको छ। {hostelName} मा स्वागत छ! चेक-इनको विवरण छिट्टै पठाइनेछ।'
+      }
+    }
+  },
+  [NotificationTemplateKey.BOOKING_REJECTED]: {
+    category: NotificationCategory.BOOKING,
+    description: 'Guest: booking request could not be approved',
+    variables: ['checkInDate', 'reason'],
+    translations: {
+      en: {
+        title: 'Booking Update',
+        message: 'We regret to inform you that your booking request for {checkInDate} could not be approved. Reason: {reason}'
+      },
+      ne: {
+        title: 'बुकिङ अपडेट',
+        message: 'माफ गर्नुहोस्, {checkInDate} को लागि तपाईंको बुकिङ अनुरोध स्वीकृत हुन सकेन। कारण: {reason}'
+      }
+    }
+  },
+  [NotificationTemplateKey.BOOKING_CONFIRMED]: {
+    category: NotificationCategory.BOOKING,
+    description: 'Guest: group booking confirmed',
+    variables: ['guestCount', 'checkInDate', 'hostelName'],
+    translations: {
+      en: {
+        title: 'Booking Confirmed 🎉',
+        message: 'Your group booking for {guestCount} guests has been confirmed! Check-in date: {checkInDate}. Welcome to {hostelName}!'
+      },
+      ne: {
+        title: 'बुकिङ पक्का भयो 🎉',
+        message: '{guestCount} जना अतिथिको तपाईंको समूह बुकिङ पक्का भएको छ! चेक-इन मिति: {checkInDate}। {hostelName} मा स्वागत छ!'
+      }
+    }
+  },
+  [NotificationTemplateKey.BOOKING_CANCELLED]: {
+    category: NotificationCategory.BOOKING,
+    description: 'Guest: booking cancelled',
+    variables: ['checkInDate', 'reason'],
+    translations: {
+      en: {
+        title: 'Booking Cancelled',
+        message: 'Your booking for {checkInDate} has been cancelled. Reason: {reason}. Please contact us for any queries.'
+      },
+      ne: {
+        title: 'बुकिङ रद्द भयो',
+        message: '{checkInDate} को तपाईंको बुकिङ रद्द गरिएको छ। कारण: {reason}। कुनै जिज्ञासा भए हामीलाई सम्पर्क गर्नुहोस्।'
+      }
+    }
+  },
+  [NotificationTemplateKey.BOOKING_GUEST_CONFIRMED]: {
+    category: NotificationCategory.BOOKING,
+    description: 'Guest: the hostel confirmed their booking',
+    variables: ['roomName', 'hostelName'],
+    translations: {
+      en: {
+        title: 'Booking Confirmed - {roomName}',
+        message: 'Your booking at {hostelName} has been confirmed'
+      },
+      ne: {
+        title: 'बुकिङ पक्का भयो - {roomName}',
+        message: '{hostelName} मा तपाईंको बुकिङ पक्का भएको छ'
+      }
+    }
+  },
+  [NotificationTemplateKey.BOOKING_GUEST_REJECTED]: {
+    category: NotificationCategory.BOOKING,
+    description: 'Guest: the hostel rejected their booking',
+    variables: ['roomName', 'hostelName', 'reason'],
+    translations: {
+      en: {
+        title: 'Booking Rejected - {roomName}',
+        message: 'Your booking at {hostelName} has been rejected. Reason: {reason}'
+      },
+      ne: {
+        title: 'बुकिङ अस्वीकृत - {roomName}',
+        message: '{hostelName} मा तपाईंको बुकिङ अस्वीकृत गरिएको छ। कारण: {reason}'
+      }
+    }
+  },
+  [NotificationTemplateKey.BOOKING_HOLD_ENDING]: {
+    category: NotificationCategory.BOOKING,
+    description: 'Guest: their pending booking\'s bed hold ends soon',
+    variables: ['bookingReference', 'hostelName', 'expiresAt'],
+    translations: {
+      en: {
+        title: '⏳ Booking hold ending soon',
+        message: 'Your booking {bookingReference} at {hostelName} is still waiting for confirmation. The beds are held until {expiresAt}; please contact the hostel if you still need them.'
+      },
+      ne: {
+        title: '⏳ बुकिङ होल्ड सकिँदैछ',
+        message: '{hostelName} मा तपाईंको बुकिङ {bookingReference} अझै पुष्टि हुन बाँकी छ। बेडहरू {expiresAt} सम्म राखिएका छन्; अझै चाहिन्छ भने होस्टेललाई सम्पर्क गर्नुहोस्।'
+      }
+    }
+  },
+  [NotificationTemplateKey.BOOKING_HOLD_EXPIRED]: {
+    category: NotificationCategory.BOOKING,
+    description: 'Guest: their pending booking was cancelled when the hold ran out',
+    variables: ['bookingReference', 'hostelName'],
+    translations: {
+      en: {
+        title: '⌛ Booking expired',
+        message: 'Your booking {bookingReference} at {hostelName} was not confirmed in time and has been cancelled. The beds have been released.'
+      },
+      ne: {
+        title: '⌛ बुकिङ म्याद सकियो',
+        message: '{hostelName} मा तपाईंको बुकिङ {bookingReference} समयमै पुष्टि नभएकोले रद्द गरिएको छ। बेडहरू खुला गरिएका छन्।'
+      }
+    }
+  },
+
+  [NotificationTemplateKey.BOOKING_REQUEST]: {
+    category: NotificationCategory.BOOKING,
+    description: 'Hostel owner: a new booking request came in',
+    variables: ['contactName', 'checkInDate', 'guestCount'],
+    translations: {
+      en: {
+        title: 'New Booking Request',
+        message: 'New booking request from {contactName} for {checkInDate}. {guestCount} guest(s) requesting accommodation.'
+      },
+      ne: {
+        title: 'नयाँ बुकिङ अनुरोध',
+        message: '{checkInDate} को लागि {contactName} बाट नयाँ बुकिङ अनुरोध। {guestCount} जना अतिथिले बसोबास माग गरेका छन्।'
+      }
+    }
+  },
+  [NotificationTemplateKey.BOOKING_ADMIN_NEW_REQUEST]: {
+    category: NotificationCategory.BOOKING,
+    description: 'Hostel owner: a guest booked from the app',
+    variables: ['roomName', 'contactName'],
+    translations: {
+      en: {
+        title: 'New Booking Request - {roomName}',
+        message: '{contactName} has requested a booking'
+      },
+      ne: {
+        title: 'नयाँ बुकिङ अनुरोध - {roomName}',
+        message: '{contactName} ले बुकिङ अनुरोध गर्नुभएको छ'
+      }
+    }
+  },
+  [NotificationTemplateKey.BOOKING_ADMIN_CANCELLED]: {
+    category: NotificationCategory.BOOKING,
+    description: 'Hostel owner: a guest cancelled their booking',
+    variables: ['roomName', 'contactName'],
+    translations: {
+      en: {
+        title: 'Booking Cancelled - {roomName}',
+        message: '{contactName} has cancelled their booking'
+      },
+      ne: {
+        title: 'बुकिङ रद्द - {roomName}',
+        message: '{contactName} ले आफ्नो बुकिङ रद्द गर्नुभएको छ'
+      }
+    }
+  },
+  [NotificationTemplateKey.BOOKING_ADMIN_EXPIRING]: {
+    category: NotificationCategory.BOOKING,
+    description: 'Hostel owner: a pending booking will be cancelled unless confirmed',
+    variables: ['roomName', 'contactName', 'expiresAt'],
+    translations: {
+      en: {
+        title: 'Booking Expiring - {roomName}',
+        message: '{contactName}\'s booking will be cancelled at {expiresAt} unless it is confirmed'
+      },
+      ne: {
+        title: 'बुकिङ म्याद सकिँदैछ - {roomName}',
+        message: '{contactName} को बुकिङ पुष्टि नगरे {expiresAt} मा रद्द हुनेछ'
+      }
+    }
+  },
+  [NotificationTemplateKey.BOOKING_ADMIN_EXPIRED]: {
+    category: NotificationCategory.BOOKING,
+    description: 'Hostel owner: a pending booking was cancelled automatically',
+    variables: ['roomName', 'contactName'],
+    translations: {
+      en: {
+        title: 'Booking Expired - {roomName}',
+        message: '{contactName}\'s booking was not confirmed in time and has been cancelled'
+      },
+      ne: {
+        title: 'बुकिङ म्याद सकियो - {roomName}',
+        message: '{contactName} को बुकिङ समयमै पुष्टि नभएकोले रद्द गरिएको छ'
+      }
+    }
+  },
+
+  [NotificationTemplateKey.WAITLIST_BEDS_OFFERED]: {
+    category: NotificationCategory.BOOKING,
+    description: 'Waitlisted guest: beds are on hold for them',
+    variables: ['bedCount', 'beds', 'holdExpiresAt'],
+    translations: {
+      en: {
+        title: '🛏️ Beds available for you',
+        message: '{bedCount} bed(s) ({beds}) are on hold for you until {holdExpiresAt}. Accept the offer before then to keep them.'
+      },
+      ne: {
+        title: '🛏️ तपाईंको लागि बेड उपलब्ध',
+        message: '{bedCount} वटा बेड ({beds}) {holdExpiresAt} सम्म तपाईंको लागि राखिएका छन्। राख्न चाहनुहुन्छ भने त्यसअघि प्रस्ताव स्वीकार गर्नुहोस्।'
+      }
+    }
+  },
+  [NotificationTemplateKey.WAITLIST_HOLD_EXPIRED]: {
+    category: NotificationCategory.BOOKING,
+    description: 'Waitlisted guest: the beds held for them went to the next guest',
+    variables: [],
+    translations: {
+      en: {
+        title: '⌛ Bed hold expired',
+        message: 'The beds held for you were not confirmed in time and have been offered to the next guest on the waitlist.'
+      },
+      ne: {
+        title: '⌛ बेड होल्डको म्याद सकियो',
+        message: 'तपाईंको लागि राखिएका बेड समयमै पुष्टि नभएकोले प्रतीक्षा सूचीका अर्को अतिथिलाई प्रस्ताव गरिएको छ।'
+      }
+    }
+  },
+
+  [NotificationTemplateKey.LEAVE_REVIEW_REQUESTED]: {
+    category: NotificationCategory.GENERAL,
+    description: 'Warden: a leave request is waiting for the hostel',
+    variables: ['studentName', 'startDate', 'endDate', 'destination'],
+    translations: {
+      en: {
+        title: 'Leave request to review',
+        message: '{studentName} asked for leave from {startDate} to {endDate} ({destination})'
+      },
+      ne: {
+        title: 'बिदा अनुरोध समीक्षाको लागि',
+        message: '{studentName} ले {startDate} देखि {endDate} सम्म बिदा माग्नुभएको छ ({destination})'
+      }
+    }
+  },
+  [NotificationTemplateKey.LEAVE_APPROVED]: {
+    category: NotificationCategory.GENERAL,
+    description: 'Student: leave approved; notes are the warden\'s, possibly empty',
+    variables: ['startDate', 'endDate', 'notes'],
+    translations: {
+      en: {
+        title: 'Leave approved',
+        message: 'Your leave from {startDate} to {endDate} was approved. {notes}'
+      },
+      ne: {
+        title: 'बिदा स्वीकृत',
+        message: '{startDate} देखि {endDate} सम्मको तपाईंको बिदा स्वीकृत भयो। {notes}'
+      }
+    }
+  },
+  [NotificationTemplateKey.LEAVE_REJECTED]: {
+    category: NotificationCategory.GENERAL,
+    description: 'Student: leave not approved',
+    variables: ['startDate', 'endDate', 'reason'],
+    translations: {
+      en: {
+        title: 'Leave not approved',
+        message: 'Your leave from {startDate} to {endDate} was not approved: {reason}'
+      },
+      ne: {
+        title: 'बिदा अस्वीकृत',
+        message: '{startDate} देखि {endDate} सम्मको तपाईंको बिदा स्वीकृत भएन: {reason}'
+      }
+    }
+  },
+  [NotificationTemplateKey.LEAVE_GUARDIAN_DECLINED]: {
+    category: NotificationCategory.GENERAL,
+    description: 'Student: their guardian did not agree to the leave; notes possibly empty',
+    variables: ['startDate', 'endDate', 'notes'],
+    translations: {
+      en: {
+        title: 'Leave declined by guardian',
+        message: 'Your guardian did not agree to your leave from {startDate} to {endDate}. {notes}'
+      },
+      ne: {
+        title: 'अभिभावकले बिदा अस्वीकार गर्नुभयो',
+        message: '{startDate} देखि {endDate} सम्मको तपाईंको बिदामा अभिभावकको सहमति भएन। {notes}'
+      }
+    }
+  },
+
+  [NotificationTemplateKey.ROOM_TRANSFER_SWAP_REQUESTED]: {
+    category: NotificationCategory.GENERAL,
+    description: 'Student: another student asked to swap beds with them',
+    variables: ['studentName', 'bed'],
+    translations: {
+      en: {
+        title: '🔁 Bed swap request',
+        message: '{studentName} ({bed}) would like to swap beds with you. Open the app to accept or decline.'
+      },
+      ne: {
+        title: '🔁 बेड साट्ने अनुरोध',
+        message: '{studentName} ({bed}) तपाईंसँग बेड साट्न चाहनुहुन्छ। स्वीकार वा अस्वीकार गर्न एप खोल्नुहोस्।'
+      }
+    }
+  },
+  [NotificationTemplateKey.ROOM_TRANSFER_SWAP_ACCEPTED]: {
+    category: NotificationCategory.GENERAL,
+    description: 'Student: the other student agreed to swap',
+    variables: ['studentName'],
+    translations: {
+      en: {
+        title: '🔁 Swap accepted',
+        message: '{studentName} agreed to swap beds. The hostel will review the request.'
+      },
+      ne: {
+        title: '🔁 साट्न सहमति',
+        message: '{studentName} बेड साट्न सहमत हुनुभयो। होस्टेलले अनुरोधको समीक्षा गर्नेछ।'
+      }
+    }
+  },
+  [NotificationTemplateKey.ROOM_TRANSFER_SWAP_DECLINED]: {
+    category: NotificationCategory.GENERAL,
+    description: 'Student: the other student declined to swap',
+    variables: ['studentName'],
+    translations: {
+      en: {
+        title: '🔁 Swap declined',
+        message: '{studentName} declined your bed swap request.'
+      },
+      ne: {
+        title: '🔁 साट्न अस्वीकार',
+        message: '{studentName} ले तपाईंको बेड साट्ने अनुरोध अस्वीकार गर्नुभयो।'
+      }
+    }
+  },
+  [NotificationTemplateKey.ROOM_TRANSFER_APPROVED]: {
+    category: NotificationCategory.GENERAL,
+    description: 'Student: room transfer approved',
+    variables: ['effectiveDate'],
+    translations: {
+      en: {
+        title: '✅ Room transfer approved',
+        message: 'Your room transfer request was approved. You move on {effectiveDate}.'
+      },
+      ne: {
+        title: '✅ कोठा सरुवा स्वीकृत',
+        message: 'तपाईंको कोठा सरुवा अनुरोध स्वीकृत भयो। तपाईं {effectiveDate} मा सर्नुहुनेछ।'
+      }
+    }
+  },
+  [NotificationTemplateKey.ROOM_TRANSFER_SWAP_APPROVED]: {
+    category: NotificationCategory.GENERAL,
+    description: 'Swap partner: bed swap approved',
+    variables: ['effectiveDate'],
+    translations: {
+      en: {
+        title: '✅ Bed swap approved',
+        message: 'Your room transfer request was approved. You move on {effectiveDate}.'
+      },
+      ne: {
+        title: '✅ बेड साट्ने अनुरोध स्वीकृत',
+        message: 'बेड साट्ने अनुरोध स्वीकृत भयो। तपाईं {effectiveDate} मा सर्नुहुनेछ।'
+      }
+    }
+  },
+  [NotificationTemplateKey.ROOM_TRANSFER_REJECTED]: {
+    category: NotificationCategory.GENERAL,
+    description: 'Student: room transfer rejected',
+    variables: ['reason'],
+    translations: {
+      en: {
+        title: '❌ Room transfer rejected',
+        message: 'Your room transfer request was not approved: {reason}'
+      },
+      ne: {
+        title: '❌ कोठा सरुवा अस्वीकृत',
+        message: 'तपाईंको कोठा सरुवा अनुरोध स्वीकृत भएन: {reason}'
+      }
+    }
+  },
+
+  [NotificationTemplateKey.CURFEW_EXEMPTION_REQUESTED]: {
+    category: NotificationCategory.GENERAL,
+    description: 'Warden: a student asked to be excused from curfew',
+    variables: ['studentName', 'nights', 'reason'],
+    translations: {
+      en: {
+        title: 'Curfew exemption request',
+        message: '{studentName} asked to be excused from curfew {nights}: {reason}'
+      },
+      ne: {
+        title: 'कर्फ्यु छुट अनुरोध',
+        message: '{studentName} ले {nights} कर्फ्युबाट छुट माग्नुभएको छ: {reason}'
+      }
+    }
+  },
+  [NotificationTemplateKey.CURFEW_EXEMPTION_APPROVED]: {
+    category: NotificationCategory.GENERAL,
+    description: 'Student: curfew exemption approved; notes possibly empty',
+    variables: ['nights', 'notes'],
+    translations: {
+      en: {
+        title: 'Curfew exemption approved',
+        message: 'Your curfew exemption {nights} was approved. {notes}'
+      },
+      ne: {
+        title: 'कर्फ्यु छुट स्वीकृत',
+        message: '{nights} को तपाईंको कर्फ्यु छुट स्वीकृत भयो। {notes}'
+      }
+    }
+  },
+  [NotificationTemplateKey.CURFEW_EXEMPTION_DECLINED]: {
+    category: NotificationCategory.GENERAL,
+    description: 'Student: curfew exemption declined; notes possibly empty',
+    variables: ['nights', 'notes'],
+    translations: {
+      en: {
+        title: 'Curfew exemption declined',
+        message: 'Your curfew exemption {nights} was declined. {notes}'
+      },
+      ne: {
+        title: 'कर्फ्यु छुट अस्वीकृत',
+        message: '{nights} को तपाईंको कर्फ्यु छुट अस्वीकृत भयो। {notes}'
+      }
+    }
+  },
+  [NotificationTemplateKey.CURFEW_LATE_RETURN]: {
+    category: NotificationCategory.GENERAL,
+    description: 'Warden: a student checked in after curfew',
+    variables: ['studentName', 'roomNumber', 'returnedAt', 'minutesLate', 'curfewTime'],
+    translations: {
+      en: {
+        title: 'Late return after curfew',
+        message: '{studentName} (room {roomNumber}) checked in at {returnedAt}, {minutesLate} after the {curfewTime} curfew.'
+      },
+      ne: {
+        title: 'कर्फ्युपछि ढिलो फर्किनुभयो',
+        message: '{studentName} (कोठा {roomNumber}) {curfewTime} को कर्फ्युभन्दा {minutesLate} ढिलो, {returnedAt} मा चेक-इन गर्नुभयो।'
+      }
+    }
+  },
+  [NotificationTemplateKey.CURFEW_MISSED]: {
+    category: NotificationCategory.GENERAL,
+    description: 'Warden: a student was still out at curfew',
+    variables: ['studentName', 'roomNumber', 'curfewTime', 'curfewDate'],
+    translations: {
+      en: {
+        title: 'Student not back by curfew',
+        message: '{studentName} (room {roomNumber}) was still checked out at the {curfewTime} curfew on {curfewDate}.'
+      },
+      ne: {
+        title: 'कर्फ्युसम्म विद्यार्थी फर्किनुभएन',
+        message: '{studentName} (कोठा {roomNumber}) {curfewDate} को {curfewTime} कर्फ्युमा अझै बाहिर हुनुहुन्थ्यो।'
+      }
+    }
+  },
+
+  [NotificationTemplateKey.STUDENT_ROOM_SETUP_COMPLETE]: {
+    category: NotificationCategory.CONFIGURATION,
+    description: 'Student: the hostel set up their room and billing',
+    variables: ['hostelName'],
+    translations: {
+      en: {
+        title: '🏠 Room Setup Complete',
+        message: 'Your room and billing has been configured at {hostelName}'
+      },
+      ne: {
+        title: '🏠 कोठा तयार भयो',
+        message: '{hostelName} मा तपाईंको कोठा र बिलिङ मिलाइएको छ'
+      }
+    }
+  },
+  [NotificationTemplateKey.STUDENT_CHECKOUT_COMPLETE]: {
+    category: NotificationCategory.CHECKOUT,
+    description: 'Student: the hostel processed their checkout',
+    variables: ['hostelName'],
+    translations: {
+      en: {
+        title: '👋 Checkout Complete',
+        message: 'Your checkout from {hostelName} has been processed. Thank you for staying with us!'
+      },
+      ne: {
+        title: '👋 चेक-आउट सम्पन्न',
+        message: '{hostelName} बाट तपाईंको चेक-आउट सम्पन्न भयो। हामीसँग बस्नुभएकोमा धन्यवाद!'
+      }
+    }
+  },
+
+  [NotificationTemplateKey.NOTIFICATION_DIGEST]: {
+    category: NotificationCategory.GENERAL,
+    description: 'User in digest mode: one push for the notifications held since the last digest',
+    variables: ['count', 'titles'],
+    translations: {
+      en: {
+        title: 'You have {count} new notifications',
+        message: 'Latest: {titles}'
+      },
+      ne: {
+        title: 'तपाईंलाई {count} नयाँ सूचना छन्',
+        message: 'पछिल्लो: {titles}'
+      }
+    }
+  }
+};
+
+/**
+ * Placeholder names used in a template text, e.g. ['amount', 'currency']
+ */
+export function extractTemplateVariables(text: string): string[] {
+  const names = new Set<string>();
+  for (const match of text.matchAll(/\{(\w+)\}/g)) {
+    names.add(match[1]);
+  }
+  return [...names];
+}
+
+/**
+ * Fill {variable} placeholders. Placeholders without a value are left as
+ * they are; the caller decides whether that is an error.
+ */
+export function renderTemplateText(text: string, values: Record<string, string | number>): string {
+  return text
+    .replace(/\{(\w+)\}/g, (placeholder, name) =>
+      values[name] === undefined || values[name] === null ? placeholder : String(values[name]))
+    .trim();
+}
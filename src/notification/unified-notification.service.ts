@@ -5,11 +5,13 @@ import { firstValueFrom } from 'rxjs';
 import { JwtPayload } from '../auth/interfaces/jwt-payload.interface';
 import { getExternalApiConfig, logApiConfig } from '../config/environment.config';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import { EntityManager, Repository } from 'typeorm';
 import { Student } from '../students/entities/student.entity';
 import { HostelService } from '../hostel/hostel.service';
-import { NotificationLogService } from './notification-log.service';
+import { NotificationTemplateService } from './notification-template.service';
+import { NotificationOutboxService } from './notification-outbox.service';
 import { RecipientType, NotificationCategory } from './entities/notification.entity';
+import { NotificationChannel } from './entities/notification-outbox.entity';
 
 export interface NotificationPayload {
   userId: string;
@@ -20,6 +22,15 @@ export interface NotificationPayload {
   imageUrl?: string;
 }
 
+export interface TemplateNotificationPayload {
+  userId: string;
+  hostelId: string;
+  template: string;   // NotificationTemplateKey or a hostel's custom key
+  variables: Record<string, string | number>;
+  metadata?: any;
+  imageUrl?: string;
+}
+
 export interface BulkNotificationPayload {
   studentIds: string[];
   title: string;
@@ -37,9 +48,6 @@ export interface BulkNotificationPayload {
 export class UnifiedNotificationService {
   private readonly logger = new Logger(UnifiedNotificationService.name);
   
-  // Notification servers
-  private readonly KAHA_NOTIFICATION_URL: string;
-  private readonly EXPRESS_NOTIFICATION_URL: string;
   private readonly KAHA_MAIN_API_URL: string;
 
   constructor(
@@ -48,115 +56,47 @@ export class UnifiedNotificationService {
     @InjectRepository(Student)
     private readonly studentRepository: Repository<Student>,
     private readonly hostelService: HostelService,
-    private readonly notificationLogService: NotificationLogService,
+    private readonly notificationTemplateService: NotificationTemplateService,
+    private readonly notificationOutboxService: NotificationOutboxService,
   ) {
     // Get URLs from centralized config
     const apiConfig = getExternalApiConfig(this.configService);
-    this.KAHA_NOTIFICATION_URL = apiConfig.kahaNotificationUrl;
-    this.EXPRESS_NOTIFICATION_URL = apiConfig.expressNotificationUrl;
     this.KAHA_MAIN_API_URL = apiConfig.kahaMainApiUrl;
     logApiConfig('UnifiedNotificationService', apiConfig);
   }
 
   /**
    * Send notification to a single user
-   * Uses the same pattern as configuration notifications
+   * The notification is recorded and queued for the outbox dispatcher; pass
+   * the manager of the caller's transaction to commit it with the change it
+   * reports. Without a manager it never throws - notification failure
+   * shouldn't break main flow. With one, a failure to queue is rethrown so
+   * the caller's transaction rolls back instead of committing half of it.
    */
   async sendToUser(
     payload: NotificationPayload,
     adminJwt?: JwtPayload,
-    hostelContext?: any
+    hostelContext?: any,
+    manager?: EntityManager
   ): Promise<void> {
-    let notificationId: string | null = null;
     const sessionId = `unified_${payload.type}_${Date.now()}`;
-    
+
     try {
-      console.log(`\n🔔 ===== UNIFIED NOTIFICATION START =====`);
-      console.log(`📋 Session ID: ${sessionId}`);
-      console.log(`📋 Notification Type: ${payload.type}`);
-      console.log(`👤 Target userId: ${payload.userId}`);
-      console.log(`📧 Title: ${payload.title}`);
-      console.log(`💬 Message: ${payload.message}`);
-      console.log(`🖼️ Image URL: ${payload.imageUrl || 'None'}`);
-      console.log(`📦 Metadata:`, JSON.stringify(payload.metadata, null, 2));
-      console.log(`👤 Admin JWT:`, adminJwt ? JSON.stringify(adminJwt, null, 2) : 'None');
-      console.log(`🏨 Hostel Context:`, hostelContext ? JSON.stringify(hostelContext, null, 2) : 'None');
-      
-      // 🔔 NEW: Create notification record before sending
-      console.log(`\n📝 STEP 1: Creating notification database record`);
-      const notificationData = {
-        recipientType: RecipientType.USER,
-        recipientId: payload.userId,
-        category: payload.type as NotificationCategory,
-        title: payload.title,
-        message: payload.message,
-        metadata: {
-          ...payload.metadata,
-          imageUrl: payload.imageUrl,
-          source: 'unified_notification_service',
-          adminJwtId: adminJwt?.id,
-          businessId: adminJwt?.businessId,
-          sessionId: sessionId,
-          timestamp: new Date().toISOString()
-        },
-      };
-      
-      console.log(`📝 Notification Data:`, JSON.stringify(notificationData, null, 2));
-      
-      const notification = await this.notificationLogService.createNotification(notificationData);
-      notificationId = notification.id;
-      
-      console.log(`✅ Notification record created with ID: ${notificationId}`);
-      
-      // 1. Get user FCM tokens
-      console.log(`\n🔍 STEP 2: Fetching FCM tokens for user ${payload.userId}`);
-      const userFcmTokens = await this.getFcmTokens(payload.userId, false);
-      console.log(`📱 FCM Tokens Found: ${userFcmTokens.length}`);
-      console.log(`📱 FCM Tokens:`, userFcmTokens.map(token => `${token.substring(0, 20)}...`));
-      
-      if (!userFcmTokens.length) {
-        console.log(`⚠️ NO FCM TOKENS - Notification will be skipped`);
-        this.logger.warn(`⚠️ No FCM token found for user ${payload.userId}`);
-        
-        // 🔔 NEW: Mark as skipped
-        if (notificationId) {
-          await this.notificationLogService.markAsSkipped(notificationId, 'No FCM tokens found');
-          console.log(`📝 Notification ${notificationId} marked as SKIPPED`);
-        }
-        console.log(`⚠️ ===== UNIFIED NOTIFICATION SKIPPED - NO FCM =====\n`);
-        return;
-      }
-      
-      // 2. Get business/hostel name from JWT businessId
-      console.log(`\n🏢 STEP 3: Getting business/hostel name`);
+      this.logger.log(`🔔 Queueing ${payload.type} notification for user ${payload.userId}`);
+
       let businessName = 'Your Hostel'; // Default fallback
-      
       if (adminJwt && adminJwt.businessId) {
-        console.log(`🔍 Getting hostel name from businessId: ${adminJwt.businessId}`);
         businessName = await this.getBusinessName(adminJwt.businessId);
-        console.log(`🏢 Using hostel name from businessId: ${businessName}`);
       } else if (hostelContext && hostelContext.hostelName) {
         businessName = hostelContext.hostelName;
-        console.log(`🏨 Using hostel name from context: ${businessName}`);
-      } else {
-        console.log(`🏢 Using default business name: ${businessName}`);
       }
-      
-      console.log(`📝 Final sender name: ${businessName}`);
-      
-      // 3. Compose payload for express server
-      console.log(`\n📦 STEP 4: Composing express server payload`);
-      
-      // Determine if this is a bulk message or booking-related notification
+
+      // Bulk messages use the general format (no redirect to booking details)
       const isBulkMessage = payload.type === 'BULK_MESSAGE' || payload.type === 'GENERAL';
-      
-      let expressPayload: any;
-      let endpoint: string;
-      
-      if (isBulkMessage) {
-        // Use general notification format (no redirect to booking details)
-        expressPayload = {
-          fcmToken: userFcmTokens[0],
+      const timestamp = new Date().toISOString();
+
+      const expressPayload = isBulkMessage
+        ? {
           senderName: businessName,
           recipientId: payload.userId,
           recipientType: 'USER',
@@ -167,16 +107,11 @@ export class UnifiedNotificationService {
             type: 'general',
             notificationType: payload.type,
             metadata: payload.metadata,
-            timestamp: new Date().toISOString(),
-            sessionId: sessionId
+            timestamp,
+            sessionId
           }
-        };
-        endpoint = `${this.EXPRESS_NOTIFICATION_URL}/hostelno/api/v1/send-general-notification`;
-        console.log(`📧 Using GENERAL notification endpoint (no redirect)`);
-      } else {
-        // Use booking notification format (redirects to booking details)
-        expressPayload = {
-          fcmToken: userFcmTokens[0],
+        }
+        : {
           bookingStatus: 'Confirmed',
           senderName: businessName,
           recipientId: payload.userId,
@@ -189,61 +124,76 @@ export class UnifiedNotificationService {
             title: payload.title,
             message: payload.message,
             metadata: payload.metadata,
-            timestamp: new Date().toISOString(),
-            sessionId: sessionId
+            timestamp,
+            sessionId
           }
         };
-        endpoint = `${this.EXPRESS_NOTIFICATION_URL}/hostelno/api/v1/send-hostel-booking-notification`;
-        console.log(`🏨 Using BOOKING notification endpoint (redirects to booking)`);
-      }
-      
-      console.log(`📦 COMPLETE EXPRESS PAYLOAD:`);
-      console.log(JSON.stringify(expressPayload, null, 2));
-      console.log(`📦 Payload Size: ${JSON.stringify(expressPayload).length} bytes`);
-      
-      // 4. Send to express server
-      console.log(`\n🚀 STEP 5: Sending to Express server`);
-      console.log(`🌐 Express URL: ${endpoint}`);
-      
-      const startTime = Date.now();
-      await this.sendNotificationToEndpoint(endpoint, expressPayload);
-      const endTime = Date.now();
-      
-      console.log(`⏱️ Notification sent in ${endTime - startTime}ms`);
-      
-      // 🔔 NEW: Mark as sent on success
-      if (notificationId) {
-        await this.notificationLogService.markAsSent(notificationId, userFcmTokens[0]);
-        console.log(`📝 Notification ${notificationId} marked as SENT`);
-      }
-      
-      console.log(`✅ UNIFIED NOTIFICATION SENT SUCCESSFULLY - Type: ${payload.type}`);
-      console.log(`🔔 ===== UNIFIED NOTIFICATION END =====\n`);
+
+      await this.notificationOutboxService.enqueue({
+        notification: {
+          recipientType: RecipientType.USER,
+          recipientId: payload.userId,
+          category: payload.type as NotificationCategory,
+          title: payload.title,
+          message: payload.message,
+          metadata: {
+            ...payload.metadata,
+            imageUrl: payload.imageUrl,
+            source: 'unified_notification_service',
+            adminJwtId: adminJwt?.id,
+            businessId: adminJwt?.businessId,
+            sessionId,
+            timestamp
+          }
+        },
+        hostelId: hostelContext?.hostelId,
+        channel: isBulkMessage ? NotificationChannel.GENERAL_PUSH : NotificationChannel.BOOKING_PUSH,
+        targetUserId: payload.userId,
+        payload: expressPayload
+      }, manager);
     } catch (error) {
-      console.log(`\n❌ ===== UNIFIED NOTIFICATION FAILED =====`);
-      console.log(`📋 Session ID: ${sessionId}`);
-      console.log(`📋 Notification Type: ${payload.type}`);
-      console.log(`👤 Target userId: ${payload.userId}`);
-      console.log(`📋 Notification ID: ${notificationId}`);
-      console.log(`❌ Error Message: ${error.message}`);
-      console.log(`❌ Error Stack:`, error.stack);
-      console.log(`❌ Error Response:`, error.response?.data);
-      console.log(`❌ Error Status:`, error.response?.status);
-      console.log(`❌ ===== UNIFIED NOTIFICATION FAILED END =====\n`);
-      
-      this.logger.error(`❌ Failed to send unified notification: ${error.message}`);
+      this.logger.error(`❌ Failed to queue unified notification: ${error.message}`);
       this.logger.error(error.stack);
-      
-      // 🔔 NEW: Mark as failed on error
-      if (notificationId) {
-        await this.notificationLogService.markAsFailed(notificationId, error.message);
-        console.log(`📝 Notification ${notificationId} marked as FAILED`);
+      if (manager) {
+        throw error;
       }
-      
       // Don't throw - notification failure shouldn't break main flow
     }
   }
 
+  /**
+   * Send a notification rendered from the hostel's template for `template`
+   * in its notification language. A template that cannot be rendered is
+   * logged and nothing is sent; queueing fails as in sendToUser.
+   */
+  async sendTemplateToUser(
+    payload: TemplateNotificationPayload,
+    adminJwt?: JwtPayload,
+    hostelContext?: any,
+    manager?: EntityManager
+  ): Promise<void> {
+    let rendered;
+    try {
+      rendered = await this.notificationTemplateService.render(payload.hostelId, payload.template, payload.variables);
+    } catch (error) {
+      this.logger.error(`❌ Could not render notification template ${payload.template} for hostel ${payload.hostelId}: ${error.message}`);
+      return;
+    }
+
+    await this.sendToUser({
+      userId: payload.userId,
+      title: rendered.title,
+      message: rendered.message,
+      type: rendered.category as NotificationPayload['type'],
+      metadata: {
+        ...payload.metadata,
+        template: rendered.key,
+        language: rendered.language
+      },
+      imageUrl: payload.imageUrl
+    }, adminJwt, hostelContext ?? { hostelId: payload.hostelId }, manager);
+  }
+
   /**
    * Send bulk notifications to multiple students
    * Loops through each student and sends individual notifications
@@ -325,59 +275,6 @@ export class UnifiedNotificationService {
     return results;
   }
 
-  /**
-   * Get FCM token from kaha-notification server
-   * Same as existing implementation
-   * 
-   * NOTE: KAHA_NOTIFICATION_URL already includes /api/v3, so we don't add it again
-   */
-  private async getFcmTokens(id: string, isBusiness: boolean): Promise<string[]> {
-    const endpoint = `${this.KAHA_NOTIFICATION_URL}/notification-devices/tokens`;
-    const params = { [isBusiness ? 'businessIds' : 'userIds']: id };
-
-    try {
-      this.logger.log(`🔍 Fetching FCM tokens for ${isBusiness ? 'business' : 'user'}: ${id}`);
-      
-      const response = await firstValueFrom(
-        this.httpService.get(endpoint, { params })
-      );
-      
-      const tokenObjects = response.data?.tokens || [];
-      const fcmTokens = tokenObjects.map(obj => obj.fcmToken).filter(token => token);
-      
-      this.logger.log(`✅ Retrieved ${fcmTokens.length} FCM token(s)`);
-      
-      return fcmTokens;
-    } catch (error) {
-      this.logger.error(`❌ Failed to fetch FCM tokens: ${error.message}`);
-      if (error.response?.data) {
-        this.logger.error('Error details:', error.response.data);
-      }
-      return [];
-    }
-  }
-
-  /**
-   * Send notification to express server endpoint
-   * Unified method that works with any endpoint
-   */
-  private async sendNotificationToEndpoint(endpoint: string, payload: any): Promise<void> {
-    try {
-      const response = await firstValueFrom(
-        this.httpService.post(endpoint, payload)
-      );
-      
-      this.logger.log(`✅ Express server response:`, response.data);
-    } catch (error) {
-      this.logger.error(`❌ Failed to send to express server: ${error.message}`);
-      if (error.response) {
-        this.logger.error(`   Status: ${error.response.status}`);
-        this.logger.error(`   Data:`, error.response.data);
-      }
-      throw error;
-    }
-  }
-
   /**
    * Get business/hostel name by businessId from JWT
    * Now actually fetches the real hostel name!
@@ -0,0 +1,38 @@
+import { IsEnum, IsNumber, IsOptional, IsPositive, IsUrl, IsUUID, MaxLength } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { PaymentGatewayName } from '../entities/payment-intent.entity';
+
+export class CreatePaymentIntentDto {
+  @ApiProperty({ description: 'Student paying' })
+  @IsUUID()
+  studentId: string;
+
+  @ApiProperty({ description: 'Gateway to pay with', enum: PaymentGatewayName, example: PaymentGatewayName.KHALTI })
+  @IsEnum(PaymentGatewayName)
+  gateway: PaymentGatewayName;
+
+  @ApiPropertyOptional({ description: 'Invoice to pay; omit to pay towards the outstanding balance' })
+  @IsOptional()
+  @IsUUID()
+  invoiceId?: string;
+
+  @ApiPropertyOptional({ description: 'Amount to pay (NPR); defaults to the full amount due', example: 8500 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @IsPositive()
+  amount?: number;
+
+  @ApiPropertyOptional({ description: 'Where to send the payer after a successful payment' })
+  @IsOptional()
+  @IsUrl({ require_tld: false })
+  @MaxLength(500)
+  successUrl?: string;
+
+  @ApiPropertyOptional({ description: 'Where to send the payer after a failed or cancelled payment' })
+  @IsOptional()
+  @IsUrl({ require_tld: false })
+  @MaxLength(500)
+  failureUrl?: string;
+}
@@ -0,0 +1,2 @@
+export { CreatePaymentIntentDto } from './create-payment-intent.dto';
+export { PaymentIntentFilterDto } from './payment-intent-filter.dto';
@@ -0,0 +1,21 @@
+import { IsEnum, IsOptional, IsUUID } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { PaginationDto } from '../../common/dto/pagination.dto';
+import { PaymentGatewayName, PaymentIntentStatus } from '../entities/payment-intent.entity';
+
+export class PaymentIntentFilterDto extends PaginationDto {
+  @ApiPropertyOptional({ description: 'Filter by student' })
+  @IsOptional()
+  @IsUUID()
+  studentId?: string;
+
+  @ApiPropertyOptional({ description: 'Filter by status', enum: PaymentIntentStatus })
+  @IsOptional()
+  @IsEnum(PaymentIntentStatus)
+  status?: PaymentIntentStatus;
+
+  @ApiPropertyOptional({ description: 'Filter by gateway', enum: PaymentGatewayName })
+  @IsOptional()
+  @IsEnum(PaymentGatewayName)
+  gateway?: PaymentGatewayName;
+}
@@ -0,0 +1,125 @@
+import { Entity, Column, ManyToOne, JoinColumn, Index } from 'typeorm';
+import { BaseEntity } from '../../common/entities/base.entity';
+import { Hostel } from '../../hostel/entities/hostel.entity';
+import { Student } from '../../students/entities/student.entity';
+import { Invoice } from '../../invoices/entities/invoice.entity';
+import { Payment } from '../../payments/entities/payment.entity';
+
+export enum PaymentGatewayName {
+  ESEWA = 'esewa',
+  KHALTI = 'khalti',
+  FAKE = 'fake'
+}
+
+export enum PaymentIntentStatus {
+  CREATED = 'created',
+  PENDING = 'pending',
+  COMPLETED = 'completed',
+  FAILED = 'failed'
+}
+
+export enum PaymentIntentPurpose {
+  INVOICE = 'invoice',
+  OUTSTANDING_BALANCE = 'outstanding_balance'
+}
+
+/**
+ * An online payment started with a gateway. Once the gateway confirms the
+ * transaction it is converted into exactly one Payment (payment_id); the
+ * unique indexes stop a replayed callback or a reused gateway transaction
+ * from creating a second one.
+ */
+@Entity('payment_intents')
+@Index(['hostelId', 'status'])
+@Index(['studentId'])
+@Index(['gateway', 'gatewayReference'], { unique: true })
+@Index(['gateway', 'gatewayTransactionId'], { unique: true })
+@Index(['paymentId'], { unique: true })
+export class PaymentIntent extends BaseEntity {
+  @Column({ name: 'hostel_id' })
+  hostelId: string;
+
+  @Column({ name: 'student_id' })
+  studentId: string;
+
+  @Column({ name: 'invoice_id', nullable: true })
+  invoiceId: string;
+
+  @Column({
+    type: 'enum',
+    enum: PaymentIntentPurpose
+  })
+  purpose: PaymentIntentPurpose;
+
+  @Column({
+    type: 'enum',
+    enum: PaymentGatewayName
+  })
+  gateway: PaymentGatewayName;
+
+  @Column({ type: 'decimal', precision: 10, scale: 2 })
+  amount: number;
+
+  @Column({ length: 3, default: 'NPR' })
+  currency: string;
+
+  @Column({
+    type: 'enum',
+    enum: PaymentIntentStatus,
+    default: PaymentIntentStatus.CREATED
+  })
+  status: PaymentIntentStatus;
+
+  // Gateway's id for the checkout (eSewa transaction_uuid, Khalti pidx)
+  @Column({ name: 'gateway_reference', type: 'varchar', length: 255, nullable: true })
+  gatewayReference: string;
+
+  // Gateway's id for the settled transaction (eSewa ref_id, Khalti transaction_id)
+  @Column({ name: 'gateway_transaction_id', type: 'varchar', length: 255, nullable: true })
+  gatewayTransactionId: string;
+
+  // Where to send the payer's browser: { url, method, fields }
+  @Column({ type: 'jsonb', nullable: true })
+  checkout: Record<string, any>;
+
+  @Column({ name: 'gateway_response', type: 'jsonb', nullable: true })
+  gatewayResponse: Record<string, any>;
+
+  @Column({ name: 'success_url', type: 'varchar', length: 500, nullable: true })
+  successUrl: string;
+
+  @Column({ name: 'failure_url', type: 'varchar', length: 500, nullable: true })
+  failureUrl: string;
+
+  @Column({ name: 'payment_id', nullable: true })
+  paymentId: string;
+
+  @Column({ name: 'ledger_entry_id', type: 'varchar', length: 255, nullable: true })
+  ledgerEntryId: string;
+
+  @Column({ name: 'failure_reason', type: 'text', nullable: true })
+  failureReason: string;
+
+  @Column({ name: 'verified_at', type: 'timestamp', nullable: true })
+  verifiedAt: Date;
+
+  @Column({ name: 'requested_by', type: 'varchar', length: 255, nullable: true })
+  requestedBy: string;
+
+  // Relations
+  @ManyToOne(() => Hostel, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'hostel_id' })
+  hostel: Hostel;
+
+  @ManyToOne(() => Student, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'student_id' })
+  student: Student;
+
+  @ManyToOne(() => Invoice, { onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'invoice_id' })
+  invoice: Invoice;
+
+  @ManyToOne(() => Payment, { onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'payment_id' })
+  payment: Payment;
+}
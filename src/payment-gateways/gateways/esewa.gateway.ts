@@ -0,0 +1,138 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { HttpService } from '@nestjs/axios';
+import { firstValueFrom } from 'rxjs';
+import * as crypto from 'crypto';
+import { PaymentGatewayName, PaymentIntent, PaymentIntentStatus } from '../entities/payment-intent.entity';
+import { GatewayCheckout, GatewayVerification, PaymentGateway } from './payment-gateway.interface';
+
+// eSewa ePay v2 sandbox; set ESEWA_FORM_URL / ESEWA_STATUS_URL for production
+const DEFAULT_ESEWA_FORM_URL = 'https://rc-epay.esewa.com.np/api/epay/main/v2/form';
+const DEFAULT_ESEWA_STATUS_URL = 'https://rc.esewa.com.np/api/epay/transaction/status/';
+const SIGNED_FIELD_NAMES = 'total_amount,transaction_uuid,product_code';
+
+/**
+ * eSewa Gateway (ePay v2)
+ * The payer is sent to eSewa with an HMAC-SHA256 signed form
+ * (ESEWA_PRODUCT_CODE, ESEWA_SECRET_KEY). eSewa redirects back with a signed,
+ * base64 encoded "data" parameter; the transaction status API is the source
+ * of truth for whether it was paid.
+ */
+@Injectable()
+export class EsewaGateway implements PaymentGateway {
+  readonly name = PaymentGatewayName.ESEWA;
+
+  constructor(
+    private httpService: HttpService,
+    private configService: ConfigService,
+  ) {}
+
+  isConfigured(): boolean {
+    return !!(this.configService.get('ESEWA_PRODUCT_CODE') && this.configService.get('ESEWA_SECRET_KEY'));
+  }
+
+  async initiate(intent: PaymentIntent, callbackUrl: string): Promise<GatewayCheckout> {
+    const fields: Record<string, string> = {
+      amount: formatAmount(intent.amount),
+      tax_amount: '0',
+      product_service_charge: '0',
+      product_delivery_charge: '0',
+      total_amount: formatAmount(intent.amount),
+      transaction_uuid: intent.id,
+      product_code: this.configService.get('ESEWA_PRODUCT_CODE'),
+      success_url: callbackUrl,
+      failure_url: `${callbackUrl}?transaction_uuid=${encodeURIComponent(intent.id)}`,
+      signed_field_names: SIGNED_FIELD_NAMES
+    };
+    fields.signature = this.sign(fields, SIGNED_FIELD_NAMES);
+
+    return {
+      gatewayReference: intent.id,
+      url: this.configService.get('ESEWA_FORM_URL', DEFAULT_ESEWA_FORM_URL),
+      method: 'POST',
+      fields
+    };
+  }
+
+  parseCallback(payload: Record<string, any>): string {
+    // Failure redirects carry no data, only the reference we put on failure_url
+    if (!payload?.data) {
+      if (!payload?.transaction_uuid) {
+        throw new Error('eSewa callback is missing data');
+      }
+      return String(payload.transaction_uuid);
+    }
+
+    let data: Record<string, any>;
+    try {
+      data = JSON.parse(Buffer.from(String(payload.data), 'base64').toString('utf-8'));
+    } catch {
+      throw new Error('eSewa callback data is not valid base64 JSON');
+    }
+
+    const expected = this.sign(data, String(data.signed_field_names || ''));
+    if (!data.signature || !safeEqual(expected, String(data.signature))) {
+      throw new Error('eSewa callback signature mismatch');
+    }
+
+    return String(data.transaction_uuid);
+  }
+
+  async verify(intent: PaymentIntent): Promise<GatewayVerification> {
+    const response = await firstValueFrom(
+      this.httpService.get(this.configService.get('ESEWA_STATUS_URL', DEFAULT_ESEWA_STATUS_URL), {
+        params: {
+          product_code: this.configService.get('ESEWA_PRODUCT_CODE'),
+          total_amount: formatAmount(intent.amount),
+          transaction_uuid: intent.gatewayReference
+        }
+      })
+    );
+    const data = response.data || {};
+
+    switch (data.status) {
+      case 'COMPLETE':
+        return {
+          status: PaymentIntentStatus.COMPLETED,
+          transactionId: data.ref_id,
+          amount: Number(data.total_amount),
+          raw: data
+        };
+      case 'PENDING':
+      case 'AMBIGUOUS':
+        return { status: PaymentIntentStatus.PENDING, raw: data };
+      default:
+        return {
+          status: PaymentIntentStatus.FAILED,
+          failureReason: `eSewa status ${data.status || 'unknown'}`,
+          raw: data
+        };
+    }
+  }
+
+  private sign(data: Record<string, any>, signedFieldNames: string): string {
+    const message = signedFieldNames
+      .split(',')
+      .filter(Boolean)
+      .map(field => `${field}=${data[field]}`)
+      .join(',');
+
+    return crypto
+      .createHmac('sha256', this.configService.get('ESEWA_SECRET_KEY', ''))
+      .update(message)
+      .digest('base64');
+  }
+}
+
+/**
+ * eSewa signs amounts exactly as sent, so always format them the same way
+ */
+function formatAmount(amount: number | string): string {
+  return String(Number(amount));
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && crypto.timingSafeEqual(left, right);
+}
@@ -0,0 +1,90 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as crypto from 'crypto';
+import { PaymentGatewayName, PaymentIntent, PaymentIntentStatus } from '../entities/payment-intent.entity';
+import { GatewayCheckout, GatewayVerification, PaymentGateway } from './payment-gateway.interface';
+
+/**
+ * Fake Gateway
+ * Local stand-in for development and tests. Off unless FAKE_GATEWAY_ENABLED=true
+ * and FAKE_GATEWAY_SECRET is set, and always off when NODE_ENV=production.
+ *
+ * The checkout points at our own callback carrying only the reference; it
+ * settles nothing until a payload with status "completed" or "failed" is
+ * signed with FAKE_GATEWAY_SECRET (see signPayload()) and posted to it.
+ */
+@Injectable()
+export class FakeGateway implements PaymentGateway {
+  readonly name = PaymentGatewayName.FAKE;
+
+  constructor(private configService: ConfigService) {}
+
+  isConfigured(): boolean {
+    return this.configService.get('FAKE_GATEWAY_ENABLED') === 'true' &&
+      !!this.configService.get('FAKE_GATEWAY_SECRET') &&
+      this.configService.get('NODE_ENV') !== 'production';
+  }
+
+  async initiate(intent: PaymentIntent, callbackUrl: string): Promise<GatewayCheckout> {
+    const fields = {
+      reference: `fake_${intent.id}`,
+      amount: String(Number(intent.amount))
+    };
+
+    return {
+      gatewayReference: fields.reference,
+      url: `${callbackUrl}?${new URLSearchParams(fields).toString()}`,
+      method: 'GET',
+      fields
+    };
+  }
+
+  /**
+   * Signed payload the fake gateway would send; exposed for tests and local tooling
+   */
+  signPayload(payload: { reference: string; status: string; transactionId: string; amount: string }): Record<string, string> {
+    return { ...payload, signature: this.sign(payload) };
+  }
+
+  parseCallback(payload: Record<string, any>, headers: Record<string, any> = {}): string {
+    const signature = String(payload?.signature || headers['x-fake-signature'] || '');
+    const expected = this.sign(payload || {});
+
+    if (!payload?.reference || signature.length !== expected.length ||
+      !crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected))) {
+      throw new Error('Fake gateway signature mismatch');
+    }
+
+    return String(payload.reference);
+  }
+
+  async verify(intent: PaymentIntent, payload?: Record<string, any>): Promise<GatewayVerification> {
+    // The fake gateway has no status API: only a signed callback can settle an intent
+    if (!payload?.signature || payload.reference !== intent.gatewayReference) {
+      return { status: PaymentIntentStatus.PENDING };
+    }
+
+    this.parseCallback(payload);
+
+    return payload.status === 'completed'
+      ? {
+        status: PaymentIntentStatus.COMPLETED,
+        transactionId: payload.transactionId,
+        amount: Number(payload.amount),
+        raw: payload
+      }
+      : { status: PaymentIntentStatus.FAILED, failureReason: 'Payment declined by fake gateway', raw: payload };
+  }
+
+  private sign(payload: Record<string, any>): string {
+    const secret = this.configService.get('FAKE_GATEWAY_SECRET');
+    if (!secret) {
+      throw new Error('FAKE_GATEWAY_SECRET is not set');
+    }
+
+    return crypto
+      .createHmac('sha256', secret)
+      .update([payload.reference, payload.status, payload.transactionId, payload.amount].join('|'))
+      .digest('hex');
+  }
+}
@@ -0,0 +1,93 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { HttpService } from '@nestjs/axios';
+import { firstValueFrom } from 'rxjs';
+import { PaymentGatewayName, PaymentIntent, PaymentIntentStatus } from '../entities/payment-intent.entity';
+import { GatewayCheckout, GatewayVerification, PaymentGateway } from './payment-gateway.interface';
+
+// Khalti ePayment sandbox; set KHALTI_BASE_URL=https://khalti.com/api/v2 for production
+const DEFAULT_KHALTI_BASE_URL = 'https://dev.khalti.com/api/v2';
+
+/**
+ * Khalti Gateway (ePayment / KPG-2)
+ * Checkouts are created server side with KHALTI_SECRET_KEY. Khalti's return
+ * redirect is not signed, so every callback is confirmed with the lookup API.
+ * Amounts are sent to Khalti in paisa.
+ */
+@Injectable()
+export class KhaltiGateway implements PaymentGateway {
+  readonly name = PaymentGatewayName.KHALTI;
+
+  constructor(
+    private httpService: HttpService,
+    private configService: ConfigService,
+  ) {}
+
+  isConfigured(): boolean {
+    return !!this.configService.get('KHALTI_SECRET_KEY');
+  }
+
+  async initiate(intent: PaymentIntent, callbackUrl: string): Promise<GatewayCheckout> {
+    const response = await firstValueFrom(
+      this.httpService.post(`${this.baseUrl()}/epayment/initiate/`, {
+        return_url: callbackUrl,
+        website_url: this.configService.get('KHALTI_WEBSITE_URL', new URL(callbackUrl).origin),
+        amount: Math.round(Number(intent.amount) * 100),
+        purchase_order_id: intent.id,
+        purchase_order_name: intent.invoiceId ? `Invoice ${intent.invoiceId}` : 'Hostel fee payment'
+      }, { headers: this.headers() })
+    );
+
+    if (!response.data?.pidx || !response.data?.payment_url) {
+      throw new Error('Khalti did not return a payment URL');
+    }
+
+    return {
+      gatewayReference: response.data.pidx,
+      url: response.data.payment_url,
+      method: 'GET',
+      raw: response.data
+    };
+  }
+
+  parseCallback(payload: Record<string, any>): string {
+    if (!payload?.pidx) {
+      throw new Error('Khalti callback is missing pidx');
+    }
+    return String(payload.pidx);
+  }
+
+  async verify(intent: PaymentIntent): Promise<GatewayVerification> {
+    const response = await firstValueFrom(
+      this.httpService.post(`${this.baseUrl()}/epayment/lookup/`, { pidx: intent.gatewayReference }, { headers: this.headers() })
+    );
+    const data = response.data || {};
+
+    switch (data.status) {
+      case 'Completed':
+        return {
+          status: PaymentIntentStatus.COMPLETED,
+          transactionId: data.transaction_id,
+          amount: Number(data.total_amount) / 100,
+          raw: data
+        };
+      case 'Pending':
+      case 'Initiated':
+        return { status: PaymentIntentStatus.PENDING, raw: data };
+      default:
+        return {
+          status: PaymentIntentStatus.FAILED,
+          failureReason: `Khalti status ${data.status || 'unknown'}`,
+          raw: data
+        };
+    }
+  }
+
+  private baseUrl(): string {
+    return this.configService.get('KHALTI_BASE_URL', DEFAULT_KHALTI_BASE_URL).replace(/\/$/, '');
+  }
+
+  private headers() {
+    return { Authorization: `Key ${this.configService.get('KHALTI_SECRET_KEY')}` };
+  }
+}
@@ -0,0 +1,36 @@
+import { PaymentGatewayName, PaymentIntent, PaymentIntentStatus } from '../entities/payment-intent.entity';
+
+export interface GatewayCheckout {
+  // Gateway id for this checkout, used to match callbacks to the intent
+  gatewayReference: string;
+  // Where the payer's browser goes next; for POST, submit `fields` as a form
+  url: string;
+  method: 'GET' | 'POST';
+  fields?: Record<string, string>;
+  raw?: Record<string, any>;
+}
+
+export interface GatewayVerification {
+  status: PaymentIntentStatus.COMPLETED | PaymentIntentStatus.PENDING | PaymentIntentStatus.FAILED;
+  transactionId?: string;
+  amount?: number;
+  failureReason?: string;
+  raw?: Record<string, any>;
+}
+
+/**
+ * A payment gateway adapter.
+ * parseCallback() authenticates a callback/webhook and returns the gateway
+ * reference it belongs to; it throws for tampered or malformed payloads.
+ * verify() returns the gateway's authoritative status for an intent, so a
+ * forged browser redirect can never mark an intent as paid on its own.
+ */
+export interface PaymentGateway {
+  readonly name: PaymentGatewayName;
+  isConfigured(): boolean;
+  initiate(intent: PaymentIntent, callbackUrl: string): Promise<GatewayCheckout>;
+  parseCallback(payload: Record<string, any>, headers: Record<string, any>): string;
+  verify(intent: PaymentIntent, payload?: Record<string, any>): Promise<GatewayVerification>;
+}
+
+export const PAYMENT_GATEWAYS = 'PAYMENT_GATEWAYS';
@@ -0,0 +1,134 @@
+import { Controller, Get, Post, Body, Param, Query, Headers, HttpStatus, UseGuards, Res } from '@nestjs/common';
+import { Response } from 'express';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
+import { PaymentGatewayService } from './services/payment-gateway.service';
+import { CreatePaymentIntentDto, PaymentIntentFilterDto } from './dto';
+import { PaymentIntent, PaymentIntentStatus } from './entities/payment-intent.entity';
+import { GetHostelId } from '../hostel/decorators/hostel-context.decorator';
+import { HostelAuthWithContextGuard } from '../auth/guards/hostel-auth-with-context.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { JwtPayload } from '../auth/interfaces/jwt-payload.interface';
+import { Public } from '../auth/decorators/public.decorator';
+import { Audited } from '../audit/decorators/audited.decorator';
+import { RolesGuard } from '../staff-roles/guards/roles.guard';
+import { Permissions } from '../staff-roles/decorators/permissions.decorator';
+import { Permission } from '../staff-roles/permissions';
+
+@ApiTags('payment-gateways')
+@Controller('payment-gateways')
+@UseGuards(HostelAuthWithContextGuard, RolesGuard)
+@Audited({ entity: PaymentIntent })
+@ApiBearerAuth()
+export class PaymentGatewaysController {
+  constructor(private readonly paymentGatewayService: PaymentGatewayService) { }
+
+  @Get()
+  @ApiOperation({ summary: 'Get the online payment gateways that are configured' })
+  @ApiResponse({ status: 200, description: 'Gateways retrieved successfully' })
+  async getGateways() {
+    return {
+      status: HttpStatus.OK,
+      data: this.paymentGatewayService.getAvailableGateways()
+    };
+  }
+
+  @Post('intents')
+  @Permissions(Permission.PAYMENT_INTENTS_MANAGE)
+  @ApiOperation({ summary: 'Start an online payment for an invoice or the outstanding balance' })
+  @ApiResponse({ status: 201, description: 'Payment intent created; redirect the payer to data.checkout' })
+  @ApiResponse({ status: 400, description: 'Gateway unavailable or nothing due' })
+  async createIntent(
+    @GetHostelId() hostelId: string,
+    @Body() createDto: CreatePaymentIntentDto,
+    @CurrentUser() user: JwtPayload
+  ) {
+    const intent = await this.paymentGatewayService.createIntent(hostelId, createDto, user?.id);
+
+    return {
+      status: HttpStatus.CREATED,
+      data: intent
+    };
+  }
+
+  @Get('intents')
+  @Permissions(Permission.PAYMENT_INTENTS_MANAGE)
+  @ApiOperation({ summary: 'Get payment intents' })
+  @ApiResponse({ status: 200, description: 'Payment intents retrieved successfully' })
+  async getIntents(@GetHostelId() hostelId: string, @Query() filters: PaymentIntentFilterDto) {
+    const intents = await this.paymentGatewayService.getIntents(hostelId, filters);
+
+    return {
+      status: HttpStatus.OK,
+      data: intents
+    };
+  }
+
+  @Get('intents/:id')
+  @Permissions(Permission.PAYMENT_INTENTS_MANAGE)
+  @ApiOperation({ summary: 'Get payment intent by ID' })
+  @ApiResponse({ status: 200, description: 'Payment intent retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Payment intent not found' })
+  async getIntent(@GetHostelId() hostelId: string, @Param('id') id: string) {
+    const intent = await this.paymentGatewayService.getIntent(id, hostelId);
+
+    return {
+      status: HttpStatus.OK,
+      data: intent
+    };
+  }
+
+  @Post('intents/:id/verify')
+  @Permissions(Permission.PAYMENT_INTENTS_MANAGE)
+  @ApiOperation({ summary: 'Re-check a payment intent with its gateway' })
+  @ApiResponse({ status: 200, description: 'Payment intent verified' })
+  async verifyIntent(@GetHostelId() hostelId: string, @Param('id') id: string) {
+    const intent = await this.paymentGatewayService.verifyIntent(id, hostelId);
+
+    return {
+      status: HttpStatus.OK,
+      data: intent
+    };
+  }
+
+  @Public()
+  @Get(':gateway/callback')
+  @ApiOperation({ summary: 'Gateway return URL; redirects the payer to the intent success/failure URL' })
+  async handleCallback(
+    @Param('gateway') gateway: string,
+    @Query() query: Record<string, any>,
+    @Headers() headers: Record<string, any>,
+    @Res() res: Response
+  ) {
+    const intent = await this.paymentGatewayService.handleCallback(gateway, query, headers);
+    const redirectUrl = intent.status === PaymentIntentStatus.COMPLETED ? intent.successUrl : intent.failureUrl;
+
+    if (redirectUrl && intent.status !== PaymentIntentStatus.PENDING) {
+      const url = new URL(redirectUrl);
+      url.searchParams.set('intentId', intent.id);
+      url.searchParams.set('status', intent.status);
+      return res.redirect(url.toString());
+    }
+
+    return res.status(HttpStatus.OK).json({
+      status: HttpStatus.OK,
+      data: intent
+    });
+  }
+
+  @Public()
+  @Post(':gateway/webhook')
+  @ApiOperation({ summary: 'Server-to-server payment notification from a gateway' })
+  async handleWebhook(
+    @Param('gateway') gateway: string,
+    @Query() query: Record<string, any>,
+    @Body() body: Record<string, any>,
+    @Headers() headers: Record<string, any>
+  ) {
+    const intent = await this.paymentGatewayService.handleCallback(gateway, { ...query, ...body }, headers);
+
+    return {
+      status: HttpStatus.OK,
+      data: { id: intent.id, status: intent.status, paymentId: intent.paymentId }
+    };
+  }
+}
@@ -0,0 +1,44 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { HttpModule } from '@nestjs/axios';
+import { PaymentGatewaysController } from './payment-gateways.controller';
+import { PaymentGatewayService } from './services/payment-gateway.service';
+import { PaymentIntent } from './entities/payment-intent.entity';
+import { PAYMENT_GATEWAYS } from './gateways/payment-gateway.interface';
+import { EsewaGateway } from './gateways/esewa.gateway';
+import { KhaltiGateway } from './gateways/khalti.gateway';
+import { FakeGateway } from './gateways/fake.gateway';
+import { Student } from '../students/entities/student.entity';
+import { Invoice } from '../invoices/entities/invoice.entity';
+import { LedgerEntryV2 } from '../ledger-v2/entities/ledger-entry-v2.entity';
+import { AuthModule } from '../auth/auth.module';
+import { HostelModule } from '../hostel/hostel.module';
+import { LedgerV2Module } from '../ledger-v2/ledger-v2.module';
+import { StaffRolesModule } from '../staff-roles/staff-roles.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([PaymentIntent, Student, Invoice, LedgerEntryV2]),
+    HttpModule.register({
+      timeout: 15000,
+    }),
+    AuthModule,
+    HostelModule,
+    LedgerV2Module,
+    StaffRolesModule,
+  ],
+  controllers: [PaymentGatewaysController],
+  providers: [
+    PaymentGatewayService,
+    EsewaGateway,
+    KhaltiGateway,
+    FakeGateway,
+    {
+      provide: PAYMENT_GATEWAYS,
+      useFactory: (...gateways) => gateways,
+      inject: [EsewaGateway, KhaltiGateway, FakeGateway]
+    }
+  ],
+  exports: [PaymentGatewayService],
+})
+export class PaymentGatewaysModule {}
@@ -0,0 +1,170 @@
+import { BadRequestException } from '@nestjs/common';
+import { PaymentGatewayService } from './payment-gateway.service';
+import { FakeGateway } from '../gateways/fake.gateway';
+import {
+  PaymentGatewayName,
+  PaymentIntentPurpose,
+  PaymentIntentStatus
+} from '../entities/payment-intent.entity';
+import { PaymentInvoiceAllocation } from '../../payments/entities/payment-invoice-allocation.entity';
+import { Invoice, InvoiceStatus } from '../../invoices/entities/invoice.entity';
+
+describe('PaymentGatewayService', () => {
+  let service: PaymentGatewayService;
+  let fakeGateway: FakeGateway;
+  let intent: any;
+  let invoice: any;
+  let saved: any[];
+
+  const config: Record<string, any> = {
+    FAKE_GATEWAY_ENABLED: 'true',
+    FAKE_GATEWAY_SECRET: 'test-secret',
+  };
+  const configService = {
+    get: jest.fn((key: string, defaultValue?: any) => config[key] ?? defaultValue),
+  };
+
+  const mockIntentRepository = {
+    findOne: jest.fn(),
+    save: jest.fn(async entity => entity),
+  };
+
+  const mockLedgerEntryRepository = {
+    findOne: jest.fn().mockResolvedValue(null),
+  };
+
+  const mockLedgerV2Service = {
+    createPaymentEntry: jest.fn().mockResolvedValue({ id: 'ledger-1' }),
+    getStudentBalance: jest.fn(),
+  };
+
+  const mockManager = {
+    findOne: jest.fn(async () => intent),
+    find: jest.fn(async () => [invoice]),
+    create: jest.fn((target, data) => ({ ...data, __target: target })),
+    save: jest.fn(async entity => {
+      saved.push(entity);
+      return entity.__target && !entity.id ? { ...entity, id: `${entity.__target.name}-1` } : entity;
+    }),
+  };
+
+  const mockDataSource = {
+    transaction: jest.fn(async work => work(mockManager)),
+    getRepository: jest.fn(() => ({ findOne: jest.fn().mockResolvedValue({ id: 'Payment-1', amount: 5000 }) })),
+  };
+
+  const callbackFor = (status: string, amount = '5000') => fakeGateway.signPayload({
+    reference: 'fake_intent-1',
+    status,
+    transactionId: 'FAKE-TXN-1',
+    amount
+  });
+
+  beforeEach(() => {
+    saved = [];
+    fakeGateway = new FakeGateway(configService as any);
+    service = new PaymentGatewayService(
+      mockIntentRepository as any,
+      {} as any,
+      {} as any,
+      mockLedgerEntryRepository as any,
+      mockDataSource as any,
+      [fakeGateway],
+      mockLedgerV2Service as any,
+      configService as any
+    );
+
+    intent = {
+      id: 'intent-1',
+      hostelId: 'hostel-1',
+      studentId: 'student-1',
+      invoiceId: 'invoice-1',
+      purpose: PaymentIntentPurpose.INVOICE,
+      gateway: PaymentGatewayName.FAKE,
+      amount: '5000.00',
+      status: PaymentIntentStatus.PENDING,
+      gatewayReference: 'fake_intent-1'
+    };
+    invoice = { id: 'invoice-1', total: '8000.00', paymentTotal: '0.00', status: InvoiceStatus.UNPAID };
+    mockIntentRepository.findOne.mockResolvedValue(intent);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('handleCallback', () => {
+    it('should reject callbacks with an invalid signature', async () => {
+      const payload = { ...callbackFor('completed'), amount: '1' };
+
+      await expect(service.handleCallback('fake', payload)).rejects.toThrow(BadRequestException);
+      expect(mockDataSource.transaction).not.toHaveBeenCalled();
+    });
+
+    it('should convert a verified transaction into a payment, allocation and ledger credit', async () => {
+      const result = await service.handleCallback('fake', callbackFor('completed'));
+
+      expect(result.status).toBe(PaymentIntentStatus.COMPLETED);
+      expect(result.paymentId).toBe('Payment-1');
+      expect(result.gatewayTransactionId).toBe('FAKE-TXN-1');
+
+      const allocation = saved.find(entity => entity.__target === PaymentInvoiceAllocation);
+      expect(allocation).toEqual(expect.objectContaining({ invoiceId: 'invoice-1', allocatedAmount: 5000 }));
+
+      const updatedInvoice = saved.find(entity => entity.id === 'invoice-1');
+      expect(updatedInvoice.paymentTotal).toBe(5000);
+      expect(updatedInvoice.status).toBe(InvoiceStatus.PARTIALLY_PAID);
+      expect(mockManager.find).toHaveBeenCalledWith(Invoice, expect.anything());
+
+      expect(mockLedgerV2Service.createPaymentEntry).toHaveBeenCalledTimes(1);
+      expect(intent.ledgerEntryId).toBe('ledger-1');
+    });
+
+    it('should be idempotent when the same callback arrives twice', async () => {
+      await service.handleCallback('fake', callbackFor('completed'));
+      const savedAfterFirst = saved.length;
+
+      const result = await service.handleCallback('fake', callbackFor('completed'));
+
+      expect(result.status).toBe(PaymentIntentStatus.COMPLETED);
+      expect(saved.length).toBe(savedAfterFirst);
+      expect(mockDataSource.transaction).toHaveBeenCalledTimes(1);
+      expect(mockLedgerV2Service.createPaymentEntry).toHaveBeenCalledTimes(1);
+    });
+
+    it('should fail the intent when the paid amount does not match', async () => {
+      const result = await service.handleCallback('fake', callbackFor('completed', '10'));
+
+      expect(result.status).toBe(PaymentIntentStatus.FAILED);
+      expect(result.failureReason).toContain('does not match');
+      expect(mockDataSource.transaction).not.toHaveBeenCalled();
+    });
+
+    it('should fail the intent when the gateway declined the payment', async () => {
+      const result = await service.handleCallback('fake', callbackFor('failed'));
+
+      expect(result.status).toBe(PaymentIntentStatus.FAILED);
+      expect(result.paymentId).toBeUndefined();
+    });
+
+    it('should not settle anything from the unsigned fake checkout URL', async () => {
+      const checkout = await fakeGateway.initiate(intent, 'http://localhost/payment-gateways/fake/callback');
+
+      expect(checkout.fields).toEqual({ reference: 'fake_intent-1', amount: '5000' });
+      await expect(service.handleCallback('fake', checkout.fields)).rejects.toThrow(BadRequestException);
+      expect(mockDataSource.transaction).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('FakeGateway', () => {
+    it('should only be available when explicitly enabled with a secret outside production', () => {
+      const gatewayWith = (settings: Record<string, any>) =>
+        new FakeGateway({ get: (key: string) => settings[key] } as any).isConfigured();
+
+      expect(gatewayWith({ NODE_ENV: 'development' })).toBe(false);
+      expect(gatewayWith({ NODE_ENV: 'development', FAKE_GATEWAY_ENABLED: 'true' })).toBe(false);
+      expect(gatewayWith({ NODE_ENV: 'production', FAKE_GATEWAY_ENABLED: 'true', FAKE_GATEWAY_SECRET: 'secret' })).toBe(false);
+      expect(gatewayWith({ NODE_ENV: 'development', FAKE_GATEWAY_ENABLED: 'true', FAKE_GATEWAY_SECRET: 'secret' })).toBe(true);
+    });
+  });
+});
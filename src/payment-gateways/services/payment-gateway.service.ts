@@ -0,0 +1,444 @@
+import { Injectable, Inject, Logger, NotFoundException, BadRequestException } from '@nestjs/common';
+import { InjectRepository, InjectDataSource } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { DataSource, EntityManager, In, QueryFailedError, Repository } from 'typeorm';
+import {
+  PaymentIntent,
+  PaymentIntentStatus,
+  PaymentIntentPurpose,
+  PaymentGatewayName
+} from '../entities/payment-intent.entity';
+import { PAYMENT_GATEWAYS, PaymentGateway, GatewayVerification } from '../gateways/payment-gateway.interface';
+import { CreatePaymentIntentDto, PaymentIntentFilterDto } from '../dto';
+import { Payment, PaymentMethod, PaymentStatus } from '../../payments/entities/payment.entity';
+import { PaymentInvoiceAllocation } from '../../payments/entities/payment-invoice-allocation.entity';
+import { Invoice, InvoiceStatus } from '../../invoices/entities/invoice.entity';
+import { Student, StudentStatus } from '../../students/entities/student.entity';
+import { LedgerEntryV2 } from '../../ledger-v2/entities/ledger-entry-v2.entity';
+import { LedgerEntryType } from '../../ledger/entities/ledger-entry.entity';
+import { LedgerV2Service } from '../../ledger-v2/services/ledger-v2.service';
+
+const DEFAULT_CALLBACK_BASE_URL = 'http://localhost:3001/hostel/api/v1';
+
+// Invoices that can still receive money, oldest due date first
+const PAYABLE_INVOICE_STATUSES = [
+  InvoiceStatus.UNPAID,
+  InvoiceStatus.SENT,
+  InvoiceStatus.PARTIALLY_PAID,
+  InvoiceStatus.OVERDUE
+];
+
+const GATEWAY_PAYMENT_METHODS: Record<PaymentGatewayName, PaymentMethod> = {
+  [PaymentGatewayName.ESEWA]: PaymentMethod.MOBILE_WALLET,
+  [PaymentGatewayName.KHALTI]: PaymentMethod.MOBILE_WALLET,
+  [PaymentGatewayName.FAKE]: PaymentMethod.ONLINE
+};
+
+const GATEWAY_LABELS: Record<PaymentGatewayName, string> = {
+  [PaymentGatewayName.ESEWA]: 'eSewa',
+  [PaymentGatewayName.KHALTI]: 'Khalti',
+  [PaymentGatewayName.FAKE]: 'Fake Gateway'
+};
+
+/**
+ * Payment Gateway Service
+ * Creates payment intents for an invoice or a student's outstanding balance,
+ * sends the payer to the gateway and turns verified transactions into
+ * payments. Conversion runs under a row lock on the intent, so callbacks,
+ * webhooks and manual re-checks can race safely: the first one creates the
+ * Payment, its invoice allocations and the LedgerV2 credit, the rest return it.
+ */
+@Injectable()
+export class PaymentGatewayService {
+  private readonly logger = new Logger(PaymentGatewayService.name);
+
+  constructor(
+    @InjectRepository(PaymentIntent)
+    private intentRepository: Repository<PaymentIntent>,
+    @InjectRepository(Student)
+    private studentRepository: Repository<Student>,
+    @InjectRepository(Invoice)
+    private invoiceRepository: Repository<Invoice>,
+    @InjectRepository(LedgerEntryV2)
+    private ledgerEntryRepository: Repository<LedgerEntryV2>,
+    @InjectDataSource()
+    private dataSource: DataSource,
+    @Inject(PAYMENT_GATEWAYS)
+    private gateways: PaymentGateway[],
+    private ledgerV2Service: LedgerV2Service,
+    private configService: ConfigService,
+  ) { }
+
+  getAvailableGateways() {
+    return this.gateways
+      .filter(gateway => gateway.isConfigured())
+      .map(gateway => ({ name: gateway.name, label: GATEWAY_LABELS[gateway.name] }));
+  }
+
+  async createIntent(hostelId: string, createDto: CreatePaymentIntentDto, requestedBy?: string) {
+    if (!hostelId) {
+      throw new BadRequestException('Hostel context required');
+    }
+
+    const gateway = this.getGateway(createDto.gateway);
+
+    const student = await this.studentRepository.findOne({
+      where: { id: createDto.studentId, hostelId }
+    });
+    if (!student) {
+      throw new NotFoundException(`Student with ID ${createDto.studentId} not found in this hostel`);
+    }
+    if (student.status === StudentStatus.INACTIVE) {
+      throw new BadRequestException(
+        `Cannot collect payment. Student "${student.name}" has been checked out and is inactive.`
+      );
+    }
+
+    const amountDue = await this.getAmountDue(hostelId, student.id, createDto.invoiceId);
+    const amount = createDto.amount ?? amountDue;
+    if (amount <= 0) {
+      throw new BadRequestException('Nothing is due for this student');
+    }
+    if (amount > amountDue) {
+      throw new BadRequestException(`Amount NPR ${amount} is more than the NPR ${amountDue} due`);
+    }
+
+    const intent = await this.intentRepository.save(this.intentRepository.create({
+      hostelId,
+      studentId: student.id,
+      invoiceId: createDto.invoiceId,
+      purpose: createDto.invoiceId ? PaymentIntentPurpose.INVOICE : PaymentIntentPurpose.OUTSTANDING_BALANCE,
+      gateway: gateway.name,
+      amount,
+      status: PaymentIntentStatus.CREATED,
+      successUrl: createDto.successUrl,
+      failureUrl: createDto.failureUrl,
+      requestedBy
+    }));
+
+    try {
+      const checkout = await gateway.initiate(intent, this.getCallbackUrl(gateway.name));
+
+      intent.gatewayReference = checkout.gatewayReference;
+      intent.checkout = { url: checkout.url, method: checkout.method, fields: checkout.fields };
+      intent.gatewayResponse = checkout.raw;
+      intent.status = PaymentIntentStatus.PENDING;
+    } catch (error) {
+      intent.status = PaymentIntentStatus.FAILED;
+      intent.failureReason = `Gateway initiation failed: ${error.message}`;
+      this.logger.error(`❌ ${gateway.name} initiation failed for intent ${intent.id}: ${error.message}`);
+    }
+
+    const saved = await this.intentRepository.save(intent);
+    this.logger.log(`💳 Payment intent ${saved.id} for NPR ${amount} via ${gateway.name} (${saved.status})`);
+
+    return this.transformToApiResponse(saved);
+  }
+
+  async getIntents(hostelId: string, filters: PaymentIntentFilterDto) {
+    if (!hostelId) {
+      throw new BadRequestException('Hostel context required');
+    }
+
+    const { page = 1, limit = 10, studentId, status, gateway } = filters;
+
+    const queryBuilder = this.intentRepository.createQueryBuilder('intent')
+      .where('intent.hostelId = :hostelId', { hostelId });
+
+    if (studentId) {
+      queryBuilder.andWhere('intent.studentId = :studentId', { studentId });
+    }
+
+    if (status) {
+      queryBuilder.andWhere('intent.status = :status', { status });
+    }
+
+    if (gateway) {
+      queryBuilder.andWhere('intent.gateway = :gateway', { gateway });
+    }
+
+    const [intents, total] = await queryBuilder
+      .orderBy('intent.createdAt', 'DESC')
+      .skip((page - 1) * limit)
+      .take(limit)
+      .getManyAndCount();
+
+    return {
+      items: intents.map(intent => this.transformToApiResponse(intent)),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit)
+      }
+    };
+  }
+
+  async getIntent(id: string, hostelId: string) {
+    return this.transformToApiResponse(await this.findIntent(id, hostelId));
+  }
+
+  /**
+   * Ask the gateway for the current status (for payers who never came back)
+   */
+  async verifyIntent(id: string, hostelId: string) {
+    const intent = await this.findIntent(id, hostelId);
+    return this.transformToApiResponse(await this.settle(intent));
+  }
+
+  /**
+   * Browser redirect or server webhook from a gateway
+   */
+  async handleCallback(gatewayName: string, payload: Record<string, any>, headers: Record<string, any> = {}) {
+    const gateway = this.getGateway(gatewayName);
+
+    let reference: string;
+    try {
+      reference = gateway.parseCallback(payload, headers);
+    } catch (error) {
+      this.logger.warn(`⚠️ Rejected ${gateway.name} callback: ${error.message}`);
+      throw new BadRequestException(`Invalid ${gateway.name} callback: ${error.message}`);
+    }
+
+    const intent = await this.intentRepository.findOne({
+      where: { gateway: gateway.name, gatewayReference: reference }
+    });
+    if (!intent) {
+      throw new NotFoundException(`No payment intent for ${gateway.name} reference ${reference}`);
+    }
+
+    return this.transformToApiResponse(await this.settle(intent, payload));
+  }
+
+  /**
+   * Verify with the gateway and apply the result. Safe to call repeatedly.
+   */
+  private async settle(intent: PaymentIntent, payload?: Record<string, any>): Promise<PaymentIntent> {
+    if (intent.status === PaymentIntentStatus.COMPLETED) {
+      return this.ensureLedgerCredit(intent);
+    }
+    if (!intent.gatewayReference) {
+      return intent;
+    }
+
+    let verification: GatewayVerification;
+    try {
+      verification = await this.getGateway(intent.gateway).verify(intent, payload);
+    } catch (error) {
+      this.logger.error(`❌ ${intent.gateway} verification failed for intent ${intent.id}: ${error.message}`);
+      throw new BadRequestException(`Could not verify payment with ${intent.gateway}: ${error.message}`);
+    }
+
+    if (verification.status === PaymentIntentStatus.PENDING) {
+      return intent;
+    }
+
+    if (verification.status === PaymentIntentStatus.FAILED) {
+      return this.markFailed(intent, verification.failureReason || 'Payment failed', verification.raw);
+    }
+
+    if (verification.amount !== undefined && Math.abs(verification.amount - Number(intent.amount)) > 0.005) {
+      return this.markFailed(
+        intent,
+        `Gateway amount NPR ${verification.amount} does not match intent amount NPR ${intent.amount}`,
+        verification.raw
+      );
+    }
+
+    try {
+      const completed = await this.dataSource.transaction(manager => this.convertToPayment(manager, intent.id, verification));
+      return this.ensureLedgerCredit(completed);
+    } catch (error) {
+      // Unique (gateway, gateway_transaction_id): this transaction already paid another intent
+      if (error instanceof QueryFailedError && (error as any).code === '23505') {
+        return this.markFailed(intent, `Gateway transaction ${verification.transactionId} was already used`, verification.raw);
+      }
+      throw error;
+    }
+  }
+
+  private async convertToPayment(manager: EntityManager, intentId: string, verification: GatewayVerification): Promise<PaymentIntent> {
+    const intent = await manager.findOne(PaymentIntent, {
+      where: { id: intentId },
+      lock: { mode: 'pessimistic_write' }
+    });
+
+    if (intent.paymentId) {
+      return intent;
+    }
+
+    const payment = await manager.save(manager.create(Payment, {
+      studentId: intent.studentId,
+      hostelId: intent.hostelId,
+      amount: Number(intent.amount),
+      paymentMethod: GATEWAY_PAYMENT_METHODS[intent.gateway],
+      paymentDate: new Date(),
+      reference: verification.transactionId,
+      transactionId: verification.transactionId,
+      notes: `Online payment via ${GATEWAY_LABELS[intent.gateway]}`,
+      status: PaymentStatus.COMPLETED,
+      processedBy: intent.gateway
+    }));
+
+    await this.allocateToInvoices(manager, intent, payment);
+
+    intent.status = PaymentIntentStatus.COMPLETED;
+    intent.paymentId = payment.id;
+    intent.gatewayTransactionId = verification.transactionId;
+    intent.gatewayResponse = verification.raw;
+    intent.verifiedAt = new Date();
+    intent.failureReason = null;
+
+    this.logger.log(`✅ Intent ${intent.id} converted to payment ${payment.id} (${intent.gateway} ${verification.transactionId})`);
+    return manager.save(intent);
+  }
+
+  /**
+   * Pay the intent's invoice, or the student's open invoices oldest first.
+   * Whatever is left over stays on the ledger as advance.
+   */
+  private async allocateToInvoices(manager: EntityManager, intent: PaymentIntent, payment: Payment) {
+    const invoices = await manager.find(Invoice, {
+      where: intent.invoiceId
+        ? { id: intent.invoiceId, hostelId: intent.hostelId }
+        : { studentId: intent.studentId, hostelId: intent.hostelId, status: In(PAYABLE_INVOICE_STATUSES) },
+      order: { dueDate: 'ASC', createdAt: 'ASC' },
+      lock: { mode: 'pessimistic_write' }
+    });
+
+    let remaining = Number(payment.amount);
+
+    for (const invoice of invoices) {
+      const due = Number(invoice.total || 0) - Number(invoice.paymentTotal || 0);
+      const allocated = Math.min(remaining, due);
+      if (allocated <= 0) {
+        continue;
+      }
+
+      await manager.save(manager.create(PaymentInvoiceAllocation, {
+        paymentId: payment.id,
+        invoiceId: invoice.id,
+        allocatedAmount: allocated,
+        allocationDate: new Date(),
+        allocatedBy: intent.gateway,
+        notes: `Online payment via ${GATEWAY_LABELS[intent.gateway]}`
+      }));
+
+      invoice.paymentTotal = Number(invoice.paymentTotal || 0) + allocated;
+      invoice.status = invoice.paymentTotal >= Number(invoice.total) ? InvoiceStatus.PAID : InvoiceStatus.PARTIALLY_PAID;
+      await manager.save(invoice);
+
+      remaining -= allocated;
+      if (remaining <= 0) {
+        break;
+      }
+    }
+  }
+
+  /**
+   * Post the LedgerV2 credit for a converted intent if it is not there yet.
+   * A failure is logged and retried on the next callback or verify call.
+   */
+  private async ensureLedgerCredit(intent: PaymentIntent): Promise<PaymentIntent> {
+    if (intent.ledgerEntryId || !intent.paymentId) {
+      return intent;
+    }
+
+    try {
+      const existing = await this.ledgerEntryRepository.findOne({
+        where: { referenceId: intent.paymentId, type: LedgerEntryType.PAYMENT, isReversed: false }
+      });
+
+      let ledgerEntryId = existing?.id;
+      if (!ledgerEntryId) {
+        const payment = await this.dataSource.getRepository(Payment).findOne({ where: { id: intent.paymentId } });
+        const entry = await this.ledgerV2Service.createPaymentEntry(payment);
+        ledgerEntryId = entry.id;
+      }
+
+      intent.ledgerEntryId = ledgerEntryId;
+      return this.intentRepository.save(intent);
+    } catch (error) {
+      this.logger.error(`❌ Ledger credit for payment ${intent.paymentId} failed, will retry: ${error.message}`);
+      return intent;
+    }
+  }
+
+  private async markFailed(intent: PaymentIntent, reason: string, raw?: Record<string, any>): Promise<PaymentIntent> {
+    intent.status = PaymentIntentStatus.FAILED;
+    intent.failureReason = reason;
+    intent.gatewayResponse = raw ?? intent.gatewayResponse;
+    intent.verifiedAt = new Date();
+
+    this.logger.warn(`⚠️ Payment intent ${intent.id} failed: ${reason}`);
+    return this.intentRepository.save(intent);
+  }
+
+  private async getAmountDue(hostelId: string, studentId: string, invoiceId?: string): Promise<number> {
+    if (invoiceId) {
+      const invoice = await this.invoiceRepository.findOne({ where: { id: invoiceId, hostelId, studentId } });
+      if (!invoice) {
+        throw new NotFoundException(`Invoice with ID ${invoiceId} not found for this student`);
+      }
+      if (invoice.status === InvoiceStatus.CANCELLED) {
+        throw new BadRequestException('Cannot pay a cancelled invoice');
+      }
+      return roundAmount(Number(invoice.total || 0) - Number(invoice.paymentTotal || 0));
+    }
+
+    const balance = await this.ledgerV2Service.getStudentBalance(studentId, hostelId);
+    return roundAmount(Math.max(balance.currentBalance, 0));
+  }
+
+  private async findIntent(id: string, hostelId: string): Promise<PaymentIntent> {
+    if (!hostelId) {
+      throw new BadRequestException('Hostel context required');
+    }
+
+    const intent = await this.intentRepository.findOne({ where: { id, hostelId } });
+    if (!intent) {
+      throw new NotFoundException(`Payment intent with ID ${id} not found`);
+    }
+    return intent;
+  }
+
+  private getGateway(name: string): PaymentGateway {
+    const gateway = this.gateways.find(candidate => candidate.name === name);
+    if (!gateway || !gateway.isConfigured()) {
+      throw new BadRequestException(`Payment gateway "${name}" is not available`);
+    }
+    return gateway;
+  }
+
+  private getCallbackUrl(gateway: PaymentGatewayName): string {
+    const baseUrl = this.configService.get('PAYMENT_CALLBACK_BASE_URL', DEFAULT_CALLBACK_BASE_URL).replace(/\/$/, '');
+    return `${baseUrl}/payment-gateways/${gateway}/callback`;
+  }
+
+  transformToApiResponse(intent: PaymentIntent) {
+    return {
+      id: intent.id,
+      studentId: intent.studentId,
+      invoiceId: intent.invoiceId,
+      purpose: intent.purpose,
+      gateway: intent.gateway,
+      amount: Number(intent.amount),
+      currency: intent.currency,
+      status: intent.status,
+      checkout: intent.status === PaymentIntentStatus.PENDING ? intent.checkout : null,
+      gatewayReference: intent.gatewayReference,
+      gatewayTransactionId: intent.gatewayTransactionId,
+      paymentId: intent.paymentId,
+      failureReason: intent.failureReason,
+      successUrl: intent.successUrl,
+      failureUrl: intent.failureUrl,
+      verifiedAt: intent.verifiedAt,
+      createdAt: intent.createdAt,
+      updatedAt: intent.updatedAt
+    };
+  }
+}
+
+function roundAmount(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
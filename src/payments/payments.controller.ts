@@ -1,13 +1,18 @@
-import { Controller, Get, Post, Put, Delete, Body, Param, Query, HttpStatus, ValidationPipe, UseGuards, Req } from '@nestjs/common';
+import { Controller, Get, Post, Put, Delete, Body, Param, Query, HttpStatus, ValidationPipe, UseGuards, Req, Res, StreamableFile, ParseEnumPipe } from '@nestjs/common';
+import { Response } from 'express';
 import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
 import { PaymentsService } from './payments.service';
 import { CreatePaymentDto, UpdatePaymentDto } from './dto';
 import { GetHostelId } from '../hostel/decorators/hostel-context.decorator';
 import { HostelAuthWithContextGuard } from '../auth/guards/hostel-auth-with-context.guard';
+import { DocumentFormat } from '../documents/services/document-renderer.service';
+import { Audited } from '../audit/decorators/audited.decorator';
+import { Payment } from './entities/payment.entity';
 
 @ApiTags('payments')
 @Controller('payments')
 @UseGuards(HostelAuthWithContextGuard)
+@Audited({ entity: Payment })
 @ApiBearerAuth()
 export class PaymentsController {
   constructor(private readonly paymentsService: PaymentsService) {}
@@ -61,6 +66,26 @@ export class PaymentsController {
     };
   }
 
+  @Get(':id/receipt')
+  @ApiOperation({ summary: 'Get printable payment receipt (PDF or HTML)' })
+  @ApiResponse({ status: 200, description: 'Payment receipt document' })
+  @ApiResponse({ status: 404, description: 'Payment not found' })
+  async getPaymentReceipt(
+    @GetHostelId() hostelId: string,
+    @Param('id') id: string,
+    @Query('format', new ParseEnumPipe(DocumentFormat, { optional: true })) format: DocumentFormat = DocumentFormat.PDF,
+    @Res({ passthrough: true }) res: Response
+  ) {
+    const receipt = await this.paymentsService.getPaymentReceipt(id, hostelId, format);
+
+    res.set({
+      'Content-Type': receipt.contentType,
+      'Content-Disposition': `inline; filename="${receipt.fileName}"`
+    });
+
+    return new StreamableFile(receipt.content);
+  }
+
   @Post()
   @ApiOperation({ summary: 'Record new payment' })
   @ApiResponse({ status: 201, description: 'Payment recorded successfully' })
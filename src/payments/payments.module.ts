@@ -10,6 +10,8 @@ import { Hostel } from '../hostel/entities/hostel.entity';
 import { AuthModule } from '../auth/auth.module';
 import { HostelModule } from '../hostel/hostel.module';
 import { NotificationModule } from '../notification/notification.module';
+import { DocumentsModule } from '../documents/documents.module';
+import { EventsModule } from '../events/events.module';
 
 @Module({
   imports: [
@@ -23,6 +25,8 @@ import { NotificationModule } from '../notification/notification.module';
     AuthModule,
     HostelModule,
     NotificationModule,
+    DocumentsModule,
+    EventsModule,
   ],
   controllers: [PaymentsController],
   providers: [PaymentsService],
@@ -1,12 +1,18 @@
 import { Injectable, NotFoundException, BadRequestException } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import { DataSource, Repository } from 'typeorm';
 import { Payment, PaymentStatus, PaymentMethod, PaymentType } from './entities/payment.entity';
 import { PaymentInvoiceAllocation } from './entities/payment-invoice-allocation.entity';
 import { Student, StudentStatus } from '../students/entities/student.entity';
 import { LedgerV2Service } from '../ledger-v2/services/ledger-v2.service';
 import { UnifiedNotificationService } from '../notification/unified-notification.service';
+import { NotificationTemplateKey } from '../notification/templates/default-notification-templates';
 import { JwtPayload } from '../auth/interfaces/jwt-payload.interface';
+import { DocumentNumberingService } from '../documents/services/document-numbering.service';
+import { DocumentRendererService, DocumentFormat, DOCUMENT_CONTENT_TYPES } from '../documents/services/document-renderer.service';
+import { DocumentType } from '../documents/entities/document-sequence.entity';
+import { toDualDate } from '../common/utils/bikram-sambat.util';
+import { DomainEventsService, DomainEventType } from '../events/domain-events.service';
 
 @Injectable()
 export class PaymentsService {
@@ -19,6 +25,10 @@ export class PaymentsService {
     private studentRepository: Repository<Student>,
     private ledgerService: LedgerV2Service,
     private unifiedNotificationService: UnifiedNotificationService,
+    private documentNumberingService: DocumentNumberingService,
+    private documentRendererService: DocumentRendererService,
+    private domainEventsService: DomainEventsService,
+    private dataSource: DataSource,
   ) { }
 
   async findAll(filters: any = {}, hostelId: string) {
@@ -164,7 +174,7 @@ export class PaymentsService {
       notes: createPaymentDto.notes,
       status: createPaymentDto.status || PaymentStatus.COMPLETED,
       transactionId: createPaymentDto.transactionId,
-      receiptNumber: createPaymentDto.receiptNumber || this.generateReceiptNumber(),
+      receiptNumber: createPaymentDto.receiptNumber, // sequential number assigned on insert when empty
       processedBy: createPaymentDto.processedBy || 'admin',
       bankName: createPaymentDto.bankName,
       chequeNumber: createPaymentDto.chequeNumber,
@@ -175,48 +185,58 @@ export class PaymentsService {
       isConfigurationAdvance: createPaymentDto.isConfigurationAdvance || false
     });
 
-    const savedPayment = await this.paymentRepository.save(payment);
+    // The payment, its ledger credit and the student's notification are
+    // committed together
+    const savedPayment = await this.dataSource.transaction(async manager => {
+      const saved = await manager.save(payment);
 
-    // Create ledger entry for completed payments
-    if (savedPayment.status === PaymentStatus.COMPLETED) {
-      await this.ledgerService.createPaymentEntry(savedPayment);
-    }
-
-    // Create invoice allocations if provided
-    if (createPaymentDto.invoiceIds && createPaymentDto.invoiceIds.length > 0) {
-      await this.allocatePaymentToInvoices(savedPayment.id, createPaymentDto.invoiceIds);
-    }
+      if (saved.status === PaymentStatus.COMPLETED) {
+        await this.ledgerService.createPaymentEntry(saved, manager);
+      }
 
-    // 🔔 NEW: Send payment notification to student
-    if (adminJwt && student.userId && savedPayment.status === PaymentStatus.COMPLETED) {
-      try {
-        console.log(`💰 PAYMENT NOTIFICATION START - Payment ID: ${savedPayment.id}`);
-        console.log(`👤 Student: ${student.name} (${student.id})`);
-        console.log(`💵 Amount: NPR ${savedPayment.amount}`);
-        
-        await this.unifiedNotificationService.sendToUser({
+      if (adminJwt && student.userId && saved.status === PaymentStatus.COMPLETED) {
+        await this.unifiedNotificationService.sendTemplateToUser({
           userId: student.userId,
-          title: 'Payment Received',
-          message: `Your payment of NPR ${Number(savedPayment.amount).toLocaleString()} has been received and processed successfully.`,
-          type: 'PAYMENT',
+          hostelId,
+          template: NotificationTemplateKey.PAYMENT_RECEIVED,
+          variables: {
+            currency: 'NPR',
+            amount: Number(saved.amount).toLocaleString()
+          },
           metadata: {
-            paymentId: savedPayment.id,
-            amount: savedPayment.amount,
-            paymentMethod: savedPayment.paymentMethod,
-            paymentDate: savedPayment.paymentDate,
-            receiptNumber: savedPayment.receiptNumber,
+            paymentId: saved.id,
+            amount: saved.amount,
+            paymentMethod: saved.paymentMethod,
+            paymentDate: saved.paymentDate,
+            receiptNumber: saved.receiptNumber,
             studentId: student.id,
             studentName: student.name
           }
-        }, adminJwt);
-        
-        console.log(`✅ PAYMENT NOTIFICATION SENT SUCCESSFULLY`);
-      } catch (notifError) {
-        console.log(`❌ PAYMENT NOTIFICATION FAILED: ${notifError.message}`);
-        // Don't let notification failure cause payment creation rollback
+        }, adminJwt, undefined, manager);
       }
+
+      return saved;
+    });
+
+    // Create invoice allocations if provided
+    if (createPaymentDto.invoiceIds && createPaymentDto.invoiceIds.length > 0) {
+      await this.allocatePaymentToInvoices(savedPayment.id, createPaymentDto.invoiceIds);
     }
 
+    this.domainEventsService.publish({
+      type: DomainEventType.PAYMENT_RECORDED,
+      hostelId,
+      data: {
+        paymentId: savedPayment.id,
+        studentId: student.id,
+        studentName: student.name,
+        amount: Number(savedPayment.amount),
+        paymentMethod: savedPayment.paymentMethod,
+        status: savedPayment.status,
+        receiptNumber: savedPayment.receiptNumber
+      }
+    });
+
     return this.findOne(savedPayment.id, hostelId);
   }
 
@@ -278,6 +298,8 @@ export class PaymentsService {
       .addSelect('AVG(payment.amount)', 'averageAmount')
       .where('payment.status = :status', { status: PaymentStatus.COMPLETED })
       .andWhere('payment.hostelId = :hostelId', { hostelId })
+      // Refund payouts are money paid out, not received
+      .andWhere('payment.paymentType != :refundType', { refundType: PaymentType.REFUND })
       .getRawOne();
 
     // Payment method breakdown
@@ -288,6 +310,7 @@ export class PaymentsService {
       .addSelect('SUM(payment.amount)', 'amount')
       .where('payment.status = :status', { status: PaymentStatus.COMPLETED })
       .andWhere('payment.hostelId = :hostelId', { hostelId })
+      .andWhere('payment.paymentType != :refundType', { refundType: PaymentType.REFUND })
       .groupBy('payment.paymentMethod')
       .getRawMany();
 
@@ -369,11 +392,13 @@ export class PaymentsService {
     // Return EXACT same structure as current JSON
     return {
       id: payment.id,
+      receiptNumber: payment.receiptNumber,
       studentId: payment.studentId,
       studentName: payment.student?.name || '',
       amount: payment.amount,
       paymentMethod: payment.paymentMethod,
       paymentDate: payment.paymentDate,
+      paymentDateBs: toDualDate(payment.paymentDate)?.bs ?? null,
       reference: payment.reference,
       notes: payment.notes,
       status: payment.status,
@@ -385,12 +410,40 @@ export class PaymentsService {
 
 
 
-  private generateReceiptNumber(): string {
-    const date = new Date();
-    const year = date.getFullYear();
-    const month = String(date.getMonth() + 1).padStart(2, '0');
-    const timestamp = Date.now().toString().slice(-6);
-    return `RCP-${year}${month}-${timestamp}`;
+
+  /**
+   * Printable payment receipt (PDF or HTML)
+   */
+  async getPaymentReceipt(id: string, hostelId: string, format: DocumentFormat = DocumentFormat.PDF) {
+    // Validate hostelId is present
+    if (!hostelId) {
+      throw new BadRequestException('Hostel context required');
+    }
+
+    const payment = await this.paymentRepository.findOne({
+      where: { id, hostelId },
+      relations: ['student', 'student.room', 'hostel', 'invoiceAllocations', 'invoiceAllocations.invoice']
+    });
+
+    if (!payment) {
+      throw new NotFoundException('Payment not found');
+    }
+
+    // Payments recorded before sequential numbering get their number on first print
+    if (!payment.receiptNumber) {
+      payment.receiptNumber = await this.documentNumberingService.assignNumber(
+        Payment, payment.id, 'receiptNumber', hostelId, DocumentType.RECEIPT, new Date(payment.paymentDate)
+      );
+    }
+
+    const document = this.documentRendererService.buildReceiptDocument(payment);
+    const content = await this.documentRendererService.render(document, format);
+
+    return {
+      content,
+      contentType: DOCUMENT_CONTENT_TYPES[format],
+      fileName: `${payment.receiptNumber}.${format}`
+    };
   }
 
   async getPaymentMethods() {
@@ -463,6 +516,7 @@ export class PaymentsService {
       .andWhere('payment.paymentDate <= :endDate', { endDate })
       .andWhere('payment.status = :status', { status: PaymentStatus.COMPLETED })
       .andWhere('payment.hostelId = :hostelId', { hostelId })
+      .andWhere('payment.paymentType != :refundType', { refundType: PaymentType.REFUND })
       .groupBy('EXTRACT(YEAR FROM payment.paymentDate), EXTRACT(MONTH FROM payment.paymentDate)')
       .orderBy('year, month')
       .getRawMany();
@@ -0,0 +1,33 @@
+import { IsNumber, IsOptional, IsPositive, IsString, IsUUID, MaxLength } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class CreateRefundDto {
+  @ApiPropertyOptional({ description: 'Payment to refund; omit for a settlement refund' })
+  @IsOptional()
+  @IsUUID()
+  paymentId?: string;
+
+  @ApiPropertyOptional({ description: 'Student to refund; required when no payment is given' })
+  @IsOptional()
+  @IsUUID()
+  studentId?: string;
+
+  @ApiPropertyOptional({ description: 'Amount to refund (NPR); defaults to the unrefunded part of the payment', example: 4000 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @IsPositive()
+  amount?: number;
+
+  @ApiProperty({ description: 'Why the money is being returned', example: 'Paid twice for Kartik' })
+  @IsString()
+  @MaxLength(1000)
+  reason: string;
+
+  @ApiPropertyOptional({ description: 'Internal notes' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  notes?: string;
+}
@@ -0,0 +1,4 @@
+export { CreateRefundDto } from './create-refund.dto';
+export { ApproveRefundDto, RejectRefundDto } from './review-refund.dto';
+export { PayRefundDto } from './pay-refund.dto';
+export { RefundFilterDto } from './refund-filter.dto';
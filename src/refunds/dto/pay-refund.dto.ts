@@ -0,0 +1,26 @@
+import { IsDateString, IsEnum, IsOptional, IsString, MaxLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { PaymentMethod } from '../../payments/entities/payment.entity';
+
+export class PayRefundDto {
+  @ApiProperty({ description: 'How the money was paid out', enum: PaymentMethod, example: PaymentMethod.BANK_TRANSFER })
+  @IsEnum(PaymentMethod)
+  payoutMethod: PaymentMethod;
+
+  @ApiPropertyOptional({ description: 'Cheque number or bank/wallet transaction ID', example: 'NIBL-TXN-88213' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  payoutReference?: string;
+
+  @ApiPropertyOptional({ description: 'Date the money was paid out; defaults to today', example: '2025-11-05' })
+  @IsOptional()
+  @IsDateString()
+  payoutDate?: string;
+
+  @ApiPropertyOptional({ description: 'Payout notes' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  notes?: string;
+}
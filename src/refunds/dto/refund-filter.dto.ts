@@ -0,0 +1,36 @@
+import { IsDateString, IsEnum, IsOptional, IsUUID } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { PaginationDto } from '../../common/dto/pagination.dto';
+import { RefundSource, RefundStatus } from '../entities/refund.entity';
+
+export class RefundFilterDto extends PaginationDto {
+  @ApiPropertyOptional({ description: 'Filter by student' })
+  @IsOptional()
+  @IsUUID()
+  studentId?: string;
+
+  @ApiPropertyOptional({ description: 'Filter by refunded payment' })
+  @IsOptional()
+  @IsUUID()
+  paymentId?: string;
+
+  @ApiPropertyOptional({ description: 'Filter by status', enum: RefundStatus })
+  @IsOptional()
+  @IsEnum(RefundStatus)
+  status?: RefundStatus;
+
+  @ApiPropertyOptional({ description: 'Filter by source', enum: RefundSource })
+  @IsOptional()
+  @IsEnum(RefundSource)
+  source?: RefundSource;
+
+  @ApiPropertyOptional({ description: 'Requested on or after (inclusive)', example: '2025-11-01' })
+  @IsOptional()
+  @IsDateString()
+  dateFrom?: string;
+
+  @ApiPropertyOptional({ description: 'Requested on or before (inclusive)', example: '2025-11-30' })
+  @IsOptional()
+  @IsDateString()
+  dateTo?: string;
+}
@@ -0,0 +1,17 @@
+import { IsOptional, IsString, MaxLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class ApproveRefundDto {
+  @ApiPropertyOptional({ description: 'Approval notes' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  notes?: string;
+}
+
+export class RejectRefundDto {
+  @ApiProperty({ description: 'Why the refund was rejected', example: 'Payment was already adjusted against Mangsir' })
+  @IsString()
+  @MaxLength(1000)
+  reason: string;
+}
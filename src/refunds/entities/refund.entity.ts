@@ -0,0 +1,131 @@
+import { Entity, Column, ManyToOne, JoinColumn, Index } from 'typeorm';
+import { BaseEntity } from '../../common/entities/base.entity';
+import { Hostel } from '../../hostel/entities/hostel.entity';
+import { Student } from '../../students/entities/student.entity';
+import { Payment, PaymentMethod } from '../../payments/entities/payment.entity';
+
+export enum RefundSource {
+  PAYMENT = 'payment',
+  SETTLEMENT = 'settlement'
+}
+
+export enum RefundStatus {
+  PENDING = 'pending',
+  APPROVED = 'approved',
+  PAID = 'paid',
+  REJECTED = 'rejected'
+}
+
+/**
+ * Money going back to a student, either out of a payment they made or the
+ * refund due from a checkout settlement. A refund moves
+ * pending -> approved -> paid (or pending/approved -> rejected); paying it
+ * records a REFUND payment, posts a LedgerV2 debit and, for payment refunds,
+ * takes the amount back off the invoices the payment was allocated to.
+ */
+@Entity('refunds')
+@Index(['hostelId', 'status'])
+@Index(['studentId'])
+@Index(['paymentId'])
+@Index(['refundPaymentId'], { unique: true })
+export class Refund extends BaseEntity {
+  @Column({ name: 'hostel_id' })
+  hostelId: string;
+
+  @Column({ name: 'student_id' })
+  studentId: string;
+
+  @Column({
+    type: 'enum',
+    enum: RefundSource
+  })
+  source: RefundSource;
+
+  // Payment being refunded (source = payment)
+  @Column({ name: 'payment_id', nullable: true })
+  paymentId: string;
+
+  @Column({ type: 'decimal', precision: 10, scale: 2 })
+  amount: number;
+
+  @Column({ type: 'text' })
+  reason: string;
+
+  @Column({
+    type: 'enum',
+    enum: RefundStatus,
+    default: RefundStatus.PENDING
+  })
+  status: RefundStatus;
+
+  @Column({ name: 'requested_by', type: 'varchar', length: 255, nullable: true })
+  requestedBy: string;
+
+  @Column({ name: 'approved_by', type: 'varchar', length: 255, nullable: true })
+  approvedBy: string;
+
+  @Column({ name: 'approved_at', type: 'timestamp', nullable: true })
+  approvedAt: Date;
+
+  @Column({ name: 'rejected_by', type: 'varchar', length: 255, nullable: true })
+  rejectedBy: string;
+
+  @Column({ name: 'rejected_at', type: 'timestamp', nullable: true })
+  rejectedAt: Date;
+
+  @Column({ name: 'rejection_reason', type: 'text', nullable: true })
+  rejectionReason: string;
+
+  @Column({
+    name: 'payout_method',
+    type: 'enum',
+    enum: PaymentMethod,
+    nullable: true
+  })
+  payoutMethod: PaymentMethod;
+
+  // Cheque number, bank or wallet transaction id of the payout
+  @Column({ name: 'payout_reference', type: 'varchar', length: 255, nullable: true })
+  payoutReference: string;
+
+  @Column({ name: 'paid_by', type: 'varchar', length: 255, nullable: true })
+  paidBy: string;
+
+  @Column({ name: 'paid_at', type: 'timestamp', nullable: true })
+  paidAt: Date;
+
+  // The REFUND payment recorded when the refund was paid out
+  @Column({ name: 'refund_payment_id', nullable: true })
+  refundPaymentId: string;
+
+  @Column({ name: 'ledger_entry_id', type: 'varchar', length: 255, nullable: true })
+  ledgerEntryId: string;
+
+  // Invoice allocations taken back on payout: [{ allocationId, invoiceId, amount }]
+  @Column({ name: 'reversed_allocations', type: 'jsonb', nullable: true })
+  reversedAllocations: Array<{ allocationId: string; invoiceId: string; amount: number }>;
+
+  // Checkout settlement snapshot (source = settlement)
+  @Column({ name: 'settlement_details', type: 'jsonb', nullable: true })
+  settlementDetails: Record<string, any>;
+
+  @Column({ type: 'text', nullable: true })
+  notes: string;
+
+  // Relations
+  @ManyToOne(() => Hostel, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'hostel_id' })
+  hostel: Hostel;
+
+  @ManyToOne(() => Student, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'student_id' })
+  student: Student;
+
+  @ManyToOne(() => Payment, { onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'payment_id' })
+  payment: Payment;
+
+  @ManyToOne(() => Payment, { onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'refund_payment_id' })
+  refundPayment: Payment;
+}
@@ -0,0 +1,140 @@
+import { Controller, Get, Post, Body, Param, Query, HttpStatus, UseGuards } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiQuery } from '@nestjs/swagger';
+import { RefundsService } from './services/refunds.service';
+import { CreateRefundDto, ApproveRefundDto, RejectRefundDto, PayRefundDto, RefundFilterDto } from './dto';
+import { Refund } from './entities/refund.entity';
+import { GetHostelId } from '../hostel/decorators/hostel-context.decorator';
+import { HostelAuthWithContextGuard } from '../auth/guards/hostel-auth-with-context.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { JwtPayload } from '../auth/interfaces/jwt-payload.interface';
+import { RolesGuard } from '../staff-roles/guards/roles.guard';
+import { Permissions } from '../staff-roles/decorators/permissions.decorator';
+import { Permission } from '../staff-roles/permissions';
+import { Audited } from '../audit/decorators/audited.decorator';
+
+@ApiTags('refunds')
+@Controller('refunds')
+@UseGuards(HostelAuthWithContextGuard, RolesGuard)
+@Audited({ entity: Refund })
+@ApiBearerAuth()
+export class RefundsController {
+  constructor(private readonly refundsService: RefundsService) { }
+
+  @Post()
+  @ApiOperation({ summary: 'Request a full or partial refund of a payment, or a settlement refund for a student' })
+  @ApiResponse({ status: 201, description: 'Refund requested; it must be approved before it can be paid' })
+  @ApiResponse({ status: 400, description: 'Payment not refundable or amount too high' })
+  async createRefund(
+    @GetHostelId() hostelId: string,
+    @Body() createDto: CreateRefundDto,
+    @CurrentUser() user: JwtPayload
+  ) {
+    const refund = await this.refundsService.create(hostelId, createDto, user?.id);
+
+    return {
+      status: HttpStatus.CREATED,
+      data: refund
+    };
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'Get refunds' })
+  @ApiResponse({ status: 200, description: 'Refunds retrieved successfully' })
+  async getRefunds(@GetHostelId() hostelId: string, @Query() filters: RefundFilterDto) {
+    const refunds = await this.refundsService.findAll(hostelId, filters);
+
+    return {
+      status: HttpStatus.OK,
+      data: refunds
+    };
+  }
+
+  @Get('summary')
+  @ApiOperation({ summary: 'Refund totals by status, source and payout method' })
+  @ApiQuery({ name: 'dateFrom', required: false, example: '2025-11-01' })
+  @ApiQuery({ name: 'dateTo', required: false, example: '2025-11-30' })
+  @ApiResponse({ status: 200, description: 'Refund summary retrieved successfully' })
+  async getSummary(
+    @GetHostelId() hostelId: string,
+    @Query('dateFrom') dateFrom?: string,
+    @Query('dateTo') dateTo?: string
+  ) {
+    const summary = await this.refundsService.getSummary(hostelId, dateFrom, dateTo);
+
+    return {
+      status: HttpStatus.OK,
+      data: summary
+    };
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get refund by ID' })
+  @ApiResponse({ status: 200, description: 'Refund retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Refund not found' })
+  async getRefund(@GetHostelId() hostelId: string, @Param('id') id: string) {
+    const refund = await this.refundsService.findOne(id, hostelId);
+
+    return {
+      status: HttpStatus.OK,
+      data: refund
+    };
+  }
+
+  @Post(':id/approve')
+  @Permissions(Permission.REFUND_APPROVE)
+  @ApiOperation({ summary: 'Approve a pending refund' })
+  @ApiResponse({ status: 200, description: 'Refund approved' })
+  async approveRefund(
+    @GetHostelId() hostelId: string,
+    @Param('id') id: string,
+    @Body() approveDto: ApproveRefundDto,
+    @CurrentUser() user: JwtPayload
+  ) {
+    const refund = await this.refundsService.approve(id, hostelId, approveDto, user?.id);
+
+    return {
+      status: HttpStatus.OK,
+      data: refund
+    };
+  }
+
+  @Post(':id/reject')
+  @Permissions(Permission.REFUND_APPROVE)
+  @ApiOperation({ summary: 'Reject a pending or approved refund' })
+  @ApiResponse({ status: 200, description: 'Refund rejected' })
+  async rejectRefund(
+    @GetHostelId() hostelId: string,
+    @Param('id') id: string,
+    @Body() rejectDto: RejectRefundDto,
+    @CurrentUser() user: JwtPayload
+  ) {
+    const refund = await this.refundsService.reject(id, hostelId, rejectDto, user?.id);
+
+    return {
+      status: HttpStatus.OK,
+      data: refund
+    };
+  }
+
+  @Post(':id/pay')
+  @Permissions(Permission.REFUND_PAY)
+  @ApiOperation({
+    summary: 'Record the payout of an approved refund',
+    description: 'Creates the refund payment, posts the ledger debit and reverses the refunded invoice allocations'
+  })
+  @ApiResponse({ status: 200, description: 'Refund paid' })
+  @ApiResponse({ status: 400, description: 'Refund is not approved' })
+  async payRefund(
+    @GetHostelId() hostelId: string,
+    @Param('id') id: string,
+    @Body() payDto: PayRefundDto,
+    @CurrentUser() user: JwtPayload
+  ) {
+    const refund = await this.refundsService.pay(id, hostelId, payDto, user?.id);
+
+    return {
+      status: HttpStatus.OK,
+      data: refund
+    };
+  }
+}
@@ -0,0 +1,26 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { RefundsController } from './refunds.controller';
+import { RefundsService } from './services/refunds.service';
+import { Refund } from './entities/refund.entity';
+import { Payment } from '../payments/entities/payment.entity';
+import { Student } from '../students/entities/student.entity';
+import { LedgerEntryV2 } from '../ledger-v2/entities/ledger-entry-v2.entity';
+import { AuthModule } from '../auth/auth.module';
+import { HostelModule } from '../hostel/hostel.module';
+import { LedgerV2Module } from '../ledger-v2/ledger-v2.module';
+import { StaffRolesModule } from '../staff-roles/staff-roles.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([Refund, Payment, Student, LedgerEntryV2]),
+    AuthModule,
+    HostelModule,
+    LedgerV2Module,
+    StaffRolesModule,
+  ],
+  controllers: [RefundsController],
+  providers: [RefundsService],
+  exports: [RefundsService],
+})
+export class RefundsModule {}
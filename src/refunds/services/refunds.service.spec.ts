@@ -0,0 +1,187 @@
+import { BadRequestException } from '@nestjs/common';
+import { RefundsService } from './refunds.service';
+import { Refund, RefundSource, RefundStatus } from '../entities/refund.entity';
+import { Payment, PaymentMethod, PaymentStatus, PaymentType } from '../../payments/entities/payment.entity';
+import { PaymentInvoiceAllocation } from '../../payments/entities/payment-invoice-allocation.entity';
+import { Invoice, InvoiceStatus } from '../../invoices/entities/invoice.entity';
+
+describe('RefundsService', () => {
+  let service: RefundsService;
+  let refund: any;
+  let payment: any;
+  let invoices: Record<string, any>;
+  let allocations: any[];
+  let paidRefunds: any[];
+  let saved: any[];
+  let removed: any[];
+
+  const mockRefundRepository = {
+    findOne: jest.fn(),
+    find: jest.fn().mockResolvedValue([]),
+    create: jest.fn(data => data),
+    save: jest.fn(async entity => ({ id: 'refund-new', ...entity })),
+  };
+
+  const mockPaymentRepository = {
+    findOne: jest.fn(),
+  };
+
+  const mockLedgerEntryRepository = {
+    findOne: jest.fn().mockResolvedValue(null),
+  };
+
+  const mockLedgerV2Service = {
+    createRefundEntry: jest.fn().mockResolvedValue({ id: 'ledger-1' }),
+  };
+
+  const mockManager = {
+    findOne: jest.fn(async (target, options) => {
+      if (target === Refund) return refund;
+      if (target === Payment) return payment;
+      if (target === Invoice) return invoices[options.where.id];
+      return null;
+    }),
+    find: jest.fn(async target => target === PaymentInvoiceAllocation ? allocations : paidRefunds),
+    create: jest.fn((target, data) => ({ ...data, __target: target })),
+    save: jest.fn(async entity => {
+      saved.push(entity);
+      return entity.__target && !entity.id ? { ...entity, id: `${entity.__target.name}-1` } : entity;
+    }),
+    remove: jest.fn(async entity => removed.push(entity)),
+  };
+
+  const mockDataSource = {
+    transaction: jest.fn(async work => work(mockManager)),
+  };
+
+  const payDto = { payoutMethod: PaymentMethod.BANK_TRANSFER, payoutReference: 'TXN-1' };
+
+  beforeEach(() => {
+    saved = [];
+    removed = [];
+    paidRefunds = [];
+    service = new RefundsService(
+      mockRefundRepository as any,
+      mockPaymentRepository as any,
+      {} as any,
+      mockLedgerEntryRepository as any,
+      mockDataSource as any,
+      mockLedgerV2Service as any
+    );
+
+    payment = {
+      id: 'payment-1',
+      studentId: 'student-1',
+      hostelId: 'hostel-1',
+      amount: '10000.00',
+      status: PaymentStatus.COMPLETED,
+      paymentType: PaymentType.MONTHLY
+    };
+    invoices = {
+      'invoice-old': { id: 'invoice-old', total: '5000.00', paymentTotal: '5000.00', status: InvoiceStatus.PAID },
+      'invoice-new': { id: 'invoice-new', total: '5000.00', paymentTotal: '3000.00', status: InvoiceStatus.PARTIALLY_PAID }
+    };
+    // Newest first, as loaded by the service; 2000 of the payment was never allocated
+    allocations = [
+      { id: 'allocation-new', paymentId: 'payment-1', invoiceId: 'invoice-new', allocatedAmount: '3000.00' },
+      { id: 'allocation-old', paymentId: 'payment-1', invoiceId: 'invoice-old', allocatedAmount: '5000.00' }
+    ];
+    refund = {
+      id: 'refund-1',
+      hostelId: 'hostel-1',
+      studentId: 'student-1',
+      source: RefundSource.PAYMENT,
+      paymentId: 'payment-1',
+      amount: '4000.00',
+      reason: 'Paid twice',
+      status: RefundStatus.APPROVED
+    };
+    mockRefundRepository.findOne.mockResolvedValue(refund);
+    mockPaymentRepository.findOne.mockResolvedValue(payment);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('create', () => {
+    it('should refuse a refund larger than what is left of the payment', async () => {
+      mockRefundRepository.find.mockResolvedValueOnce([{ amount: '7000.00', status: RefundStatus.PAID }]);
+
+      await expect(
+        service.create('hostel-1', { paymentId: 'payment-1', amount: 4000, reason: 'Paid twice' })
+      ).rejects.toThrow(BadRequestException);
+      expect(mockRefundRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should default to the unrefunded amount and start pending', async () => {
+      mockRefundRepository.find.mockResolvedValueOnce([{ amount: '2500.00', status: RefundStatus.PENDING }]);
+
+      const result = await service.create('hostel-1', { paymentId: 'payment-1', reason: 'Left early' }, 'user-1');
+
+      expect(result.amount).toBe(7500);
+      expect(result.status).toBe(RefundStatus.PENDING);
+      expect(result.source).toBe(RefundSource.PAYMENT);
+      expect(result.requestedBy).toBe('user-1');
+    });
+  });
+
+  describe('pay', () => {
+    it('should not pay a refund that has not been approved', async () => {
+      refund.status = RefundStatus.PENDING;
+
+      await expect(service.pay('refund-1', 'hostel-1', payDto, 'user-1')).rejects.toThrow(BadRequestException);
+      expect(mockManager.create).not.toHaveBeenCalled();
+    });
+
+    it('should record the payout, reverse the newest allocations and post a ledger debit', async () => {
+      const result = await service.pay('refund-1', 'hostel-1', payDto, 'user-1');
+
+      expect(result.status).toBe(RefundStatus.PAID);
+      expect(result.refundPaymentId).toBe('Payment-1');
+      expect(result.ledgerEntryId).toBe('ledger-1');
+
+      const refundPayment = saved.find(entity => entity.__target === Payment);
+      expect(refundPayment).toEqual(expect.objectContaining({
+        amount: 4000,
+        paymentType: PaymentType.REFUND,
+        paymentMethod: PaymentMethod.BANK_TRANSFER
+      }));
+
+      // 2000 comes out of the unallocated part, the other 2000 off the newest invoice
+      expect(result.reversedAllocations).toEqual([
+        { allocationId: 'allocation-new', invoiceId: 'invoice-new', amount: 2000 }
+      ]);
+      expect(invoices['invoice-new'].paymentTotal).toBe(1000);
+      expect(invoices['invoice-new'].status).toBe(InvoiceStatus.PARTIALLY_PAID);
+      expect(invoices['invoice-old'].status).toBe(InvoiceStatus.PAID);
+      expect(payment.status).toBe(PaymentStatus.COMPLETED);
+
+      expect(mockLedgerV2Service.createRefundEntry).toHaveBeenCalledWith(expect.objectContaining({ id: 'refund-1' }));
+    });
+
+    it('should mark the payment refunded and reopen its invoices on a full refund', async () => {
+      refund.amount = '10000.00';
+
+      await service.pay('refund-1', 'hostel-1', payDto, 'user-1');
+
+      expect(payment.status).toBe(PaymentStatus.REFUNDED);
+      expect(invoices['invoice-new'].paymentTotal).toBe(0);
+      expect(invoices['invoice-old'].paymentTotal).toBe(0);
+      expect(invoices['invoice-old'].status).toBe(InvoiceStatus.UNPAID);
+      expect(removed.map(allocation => allocation.id)).toEqual(['allocation-new', 'allocation-old']);
+    });
+
+    it('should only retry the ledger debit when the refund is already paid', async () => {
+      refund.status = RefundStatus.PAID;
+      refund.refundPaymentId = 'Payment-0';
+      mockLedgerEntryRepository.findOne.mockResolvedValueOnce({ id: 'ledger-existing' });
+
+      const result = await service.pay('refund-1', 'hostel-1', payDto, 'user-1');
+
+      expect(result.ledgerEntryId).toBe('ledger-existing');
+      expect(mockManager.create).not.toHaveBeenCalled();
+      expect(mockLedgerV2Service.createRefundEntry).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,510 @@
+import { Injectable, Logger, BadRequestException, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { DataSource, EntityManager, Not, Repository } from 'typeorm';
+import { Refund, RefundSource, RefundStatus } from '../entities/refund.entity';
+import { Payment, PaymentStatus, PaymentType } from '../../payments/entities/payment.entity';
+import { PaymentInvoiceAllocation } from '../../payments/entities/payment-invoice-allocation.entity';
+import { Invoice, InvoiceStatus } from '../../invoices/entities/invoice.entity';
+import { Student } from '../../students/entities/student.entity';
+import { LedgerEntryV2 } from '../../ledger-v2/entities/ledger-entry-v2.entity';
+import { LedgerEntryType } from '../../ledger/entities/ledger-entry.entity';
+import { LedgerV2Service } from '../../ledger-v2/services/ledger-v2.service';
+import { CreateRefundDto, ApproveRefundDto, RejectRefundDto, PayRefundDto, RefundFilterDto } from '../dto';
+
+/**
+ * Refunds Service
+ * Runs refund requests through approval and payout. Payout happens under a
+ * row lock on the refund (and on the refunded payment), so a double-click or
+ * two accountants paying at once produce one REFUND payment; the LedgerV2
+ * debit is posted after commit and retried on the next pay call if it fails.
+ */
+@Injectable()
+export class RefundsService {
+  private readonly logger = new Logger(RefundsService.name);
+
+  constructor(
+    @InjectRepository(Refund)
+    private refundRepository: Repository<Refund>,
+    @InjectRepository(Payment)
+    private paymentRepository: Repository<Payment>,
+    @InjectRepository(Student)
+    private studentRepository: Repository<Student>,
+    @InjectRepository(LedgerEntryV2)
+    private ledgerEntryRepository: Repository<LedgerEntryV2>,
+    private dataSource: DataSource,
+    private ledgerV2Service: LedgerV2Service,
+  ) {}
+
+  async create(hostelId: string, createDto: CreateRefundDto, requestedBy?: string) {
+    if (!hostelId) {
+      throw new BadRequestException('Hostel context required');
+    }
+
+    if (!createDto.paymentId) {
+      if (!createDto.studentId || !createDto.amount) {
+        throw new BadRequestException('studentId and amount are required for a refund without a payment');
+      }
+      const refund = await this.createSettlementRefund(
+        hostelId,
+        createDto.studentId,
+        createDto.amount,
+        createDto.reason,
+        null,
+        requestedBy,
+        createDto.notes
+      );
+      return this.transformToApiResponse(refund);
+    }
+
+    const payment = await this.paymentRepository.findOne({ where: { id: createDto.paymentId, hostelId } });
+    if (!payment) {
+      throw new NotFoundException(`Payment with ID ${createDto.paymentId} not found`);
+    }
+    if (payment.paymentType === PaymentType.REFUND) {
+      throw new BadRequestException('A refund payment cannot be refunded');
+    }
+    if (payment.status !== PaymentStatus.COMPLETED) {
+      throw new BadRequestException(`Only completed payments can be refunded (payment is ${payment.status})`);
+    }
+    if (createDto.studentId && createDto.studentId !== payment.studentId) {
+      throw new BadRequestException('Payment does not belong to this student');
+    }
+
+    const refundable = await this.getRefundableAmount(payment);
+    const amount = roundAmount(createDto.amount ?? refundable);
+    if (refundable <= 0) {
+      throw new BadRequestException('Payment has already been fully refunded or has refunds in progress');
+    }
+    if (amount > refundable) {
+      throw new BadRequestException(`Refund amount NPR ${amount} exceeds the refundable NPR ${refundable}`);
+    }
+
+    const saved = await this.refundRepository.save(this.refundRepository.create({
+      hostelId,
+      studentId: payment.studentId,
+      source: RefundSource.PAYMENT,
+      paymentId: payment.id,
+      amount,
+      reason: createDto.reason,
+      notes: createDto.notes,
+      status: RefundStatus.PENDING,
+      requestedBy
+    }));
+
+    this.logger.log(`💸 Refund ${saved.id} requested: NPR ${amount} of payment ${payment.id}`);
+    return this.transformToApiResponse(saved);
+  }
+
+  /**
+   * Refund request that is not tied to a single payment, e.g. the refund due
+   * from a checkout settlement. It goes through the same approval and payout.
+   */
+  async createSettlementRefund(
+    hostelId: string,
+    studentId: string,
+    amount: number,
+    reason: string,
+    settlementDetails?: Record<string, any>,
+    requestedBy?: string,
+    notes?: string
+  ): Promise<Refund> {
+    const student = await this.studentRepository.findOne({ where: { id: studentId, hostelId } });
+    if (!student) {
+      throw new NotFoundException('Student not found');
+    }
+    if (!(amount > 0)) {
+      throw new BadRequestException('Refund amount must be greater than zero');
+    }
+
+    const saved = await this.refundRepository.save(this.refundRepository.create({
+      hostelId,
+      studentId,
+      source: RefundSource.SETTLEMENT,
+      amount: roundAmount(amount),
+      reason,
+      notes,
+      settlementDetails,
+      status: RefundStatus.PENDING,
+      requestedBy
+    }));
+
+    this.logger.log(`💸 Settlement refund ${saved.id} requested: NPR ${saved.amount} for ${student.name}`);
+    return saved;
+  }
+
+  async findAll(hostelId: string, filters: RefundFilterDto) {
+    if (!hostelId) {
+      throw new BadRequestException('Hostel context required');
+    }
+
+    const { page = 1, limit = 10, studentId, paymentId, status, source, dateFrom, dateTo } = filters;
+
+    const queryBuilder = this.refundRepository.createQueryBuilder('refund')
+      .leftJoinAndSelect('refund.student', 'student')
+      .where('refund.hostelId = :hostelId', { hostelId });
+
+    if (studentId) {
+      queryBuilder.andWhere('refund.studentId = :studentId', { studentId });
+    }
+
+    if (paymentId) {
+      queryBuilder.andWhere('refund.paymentId = :paymentId', { paymentId });
+    }
+
+    if (status) {
+      queryBuilder.andWhere('refund.status = :status', { status });
+    }
+
+    if (source) {
+      queryBuilder.andWhere('refund.source = :source', { source });
+    }
+
+    this.applyDateRange(queryBuilder, dateFrom, dateTo);
+
+    const [refunds, total] = await queryBuilder
+      .orderBy('refund.createdAt', 'DESC')
+      .skip((page - 1) * limit)
+      .take(limit)
+      .getManyAndCount();
+
+    return {
+      items: refunds.map(refund => this.transformToApiResponse(refund)),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit)
+      }
+    };
+  }
+
+  async findOne(id: string, hostelId: string) {
+    return this.transformToApiResponse(await this.findRefund(id, hostelId, ['student']));
+  }
+
+  async approve(id: string, hostelId: string, approveDto: ApproveRefundDto, approvedBy: string) {
+    const refund = await this.findRefund(id, hostelId);
+    if (refund.status !== RefundStatus.PENDING) {
+      throw new BadRequestException(`Only pending refunds can be approved (refund is ${refund.status})`);
+    }
+
+    refund.status = RefundStatus.APPROVED;
+    refund.approvedBy = approvedBy;
+    refund.approvedAt = new Date();
+    if (approveDto.notes) {
+      refund.notes = refund.notes ? `${refund.notes}\n${approveDto.notes}` : approveDto.notes;
+    }
+
+    const saved = await this.refundRepository.save(refund);
+    this.logger.log(`✅ Refund ${id} approved by ${approvedBy}`);
+    return this.transformToApiResponse(saved);
+  }
+
+  async reject(id: string, hostelId: string, rejectDto: RejectRefundDto, rejectedBy: string) {
+    const refund = await this.findRefund(id, hostelId);
+    if (refund.status !== RefundStatus.PENDING && refund.status !== RefundStatus.APPROVED) {
+      throw new BadRequestException(`Only pending or approved refunds can be rejected (refund is ${refund.status})`);
+    }
+
+    refund.status = RefundStatus.REJECTED;
+    refund.rejectedBy = rejectedBy;
+    refund.rejectedAt = new Date();
+    refund.rejectionReason = rejectDto.reason;
+
+    const saved = await this.refundRepository.save(refund);
+    this.logger.log(`🚫 Refund ${id} rejected by ${rejectedBy}: ${rejectDto.reason}`);
+    return this.transformToApiResponse(saved);
+  }
+
+  /**
+   * Record the payout of an approved refund. Paying an already paid refund
+   * only retries a missing ledger debit.
+   */
+  async pay(id: string, hostelId: string, payDto: PayRefundDto, paidBy: string) {
+    await this.findRefund(id, hostelId);
+
+    const refund = await this.dataSource.transaction(manager => this.payOut(manager, id, payDto, paidBy));
+    return this.transformToApiResponse(await this.ensureLedgerDebit(refund));
+  }
+
+  /**
+   * Refund totals for a date range (by requested date)
+   */
+  async getSummary(hostelId: string, dateFrom?: string, dateTo?: string) {
+    if (!hostelId) {
+      throw new BadRequestException('Hostel context required');
+    }
+
+    const queryBuilder = this.refundRepository.createQueryBuilder('refund')
+      .where('refund.hostelId = :hostelId', { hostelId });
+    this.applyDateRange(queryBuilder, dateFrom, dateTo);
+
+    const refunds = await queryBuilder.getMany();
+
+    const byStatus: Record<string, { count: number; amount: number }> = {};
+    const bySource: Record<string, { count: number; amount: number }> = {};
+    const byPayoutMethod: Record<string, { count: number; amount: number }> = {};
+    const add = (bucket: Record<string, { count: number; amount: number }>, key: string, amount: number) => {
+      bucket[key] = bucket[key] || { count: 0, amount: 0 };
+      bucket[key].count += 1;
+      bucket[key].amount = roundAmount(bucket[key].amount + amount);
+    };
+
+    for (const refund of refunds) {
+      const amount = Number(refund.amount);
+      add(byStatus, refund.status, amount);
+      add(bySource, refund.source, amount);
+      if (refund.status === RefundStatus.PAID) {
+        add(byPayoutMethod, refund.payoutMethod, amount);
+      }
+    }
+
+    const totalFor = (status: RefundStatus) => byStatus[status]?.amount || 0;
+
+    return {
+      totalRefunds: refunds.length,
+      totalRequested: roundAmount(refunds
+        .filter(refund => refund.status !== RefundStatus.REJECTED)
+        .reduce((sum, refund) => sum + Number(refund.amount), 0)),
+      totalPending: totalFor(RefundStatus.PENDING),
+      totalApproved: totalFor(RefundStatus.APPROVED),
+      totalPaid: totalFor(RefundStatus.PAID),
+      totalRejected: totalFor(RefundStatus.REJECTED),
+      byStatus,
+      bySource,
+      byPayoutMethod,
+      period: { dateFrom: dateFrom || null, dateTo: dateTo || null }
+    };
+  }
+
+  private async payOut(manager: EntityManager, id: string, payDto: PayRefundDto, paidBy: string): Promise<Refund> {
+    const refund = await manager.findOne(Refund, {
+      where: { id },
+      lock: { mode: 'pessimistic_write' }
+    });
+
+    if (refund.status === RefundStatus.PAID) {
+      return refund;
+    }
+    if (refund.status !== RefundStatus.APPROVED) {
+      throw new BadRequestException(`Only approved refunds can be paid (refund is ${refund.status})`);
+    }
+
+    if (refund.paymentId) {
+      const payment = await manager.findOne(Payment, {
+        where: { id: refund.paymentId },
+        lock: { mode: 'pessimistic_write' }
+      });
+
+      const paidRefunds = await manager.find(Refund, {
+        where: { paymentId: refund.paymentId, status: RefundStatus.PAID }
+      });
+      const alreadyRefunded = paidRefunds.reduce((sum, paid) => sum + Number(paid.amount), 0);
+      const refundedTotal = roundAmount(alreadyRefunded + Number(refund.amount));
+
+      if (refundedTotal > Number(payment.amount)) {
+        throw new BadRequestException(
+          `Refund would take NPR ${refundedTotal} back from a payment of NPR ${Number(payment.amount)}`
+        );
+      }
+
+      refund.reversedAllocations = await this.reverseAllocations(manager, payment, alreadyRefunded, Number(refund.amount));
+
+      if (refundedTotal >= Number(payment.amount)) {
+        payment.status = PaymentStatus.REFUNDED;
+        await manager.save(payment);
+      }
+    }
+
+    const refundPayment = await manager.save(manager.create(Payment, {
+      studentId: refund.studentId,
+      hostelId: refund.hostelId,
+      amount: Number(refund.amount),
+      paymentType: PaymentType.REFUND,
+      paymentMethod: payDto.payoutMethod,
+      paymentDate: payDto.payoutDate ? new Date(payDto.payoutDate) : new Date(),
+      reference: payDto.payoutReference,
+      status: PaymentStatus.COMPLETED,
+      notes: payDto.notes || `Refund - ${refund.reason}`,
+      processedBy: paidBy
+    }));
+
+    refund.status = RefundStatus.PAID;
+    refund.payoutMethod = payDto.payoutMethod;
+    refund.payoutReference = payDto.payoutReference;
+    refund.paidBy = paidBy;
+    refund.paidAt = new Date();
+    refund.refundPaymentId = refundPayment.id;
+
+    this.logger.log(`✅ Refund ${refund.id} paid: NPR ${Number(refund.amount)} by ${payDto.payoutMethod}`);
+    return manager.save(refund);
+  }
+
+  /**
+   * Take a payment refund back off the invoices it paid. The part of the
+   * payment that was never allocated (advance) is refunded first, then
+   * allocations are reduced newest first so older invoices stay paid.
+   */
+  private async reverseAllocations(
+    manager: EntityManager,
+    payment: Payment,
+    alreadyRefunded: number,
+    amount: number
+  ): Promise<Array<{ allocationId: string; invoiceId: string; amount: number }>> {
+    const allocations = await manager.find(PaymentInvoiceAllocation, {
+      where: { paymentId: payment.id },
+      order: { allocationDate: 'DESC', createdAt: 'DESC' }
+    });
+
+    const allocated = allocations.reduce((sum, allocation) => sum + Number(allocation.allocatedAmount), 0);
+    const unallocated = Math.max(0, Number(payment.amount) - alreadyRefunded - allocated);
+    let remaining = roundAmount(amount - Math.min(amount, unallocated));
+    const reversed = [];
+
+    for (const allocation of allocations) {
+      if (remaining <= 0) {
+        break;
+      }
+
+      const taken = roundAmount(Math.min(remaining, Number(allocation.allocatedAmount)));
+      if (taken <= 0) {
+        continue;
+      }
+
+      const invoice = await manager.findOne(Invoice, {
+        where: { id: allocation.invoiceId },
+        lock: { mode: 'pessimistic_write' }
+      });
+
+      if (invoice) {
+        invoice.paymentTotal = roundAmount(Math.max(0, Number(invoice.paymentTotal || 0) - taken));
+        invoice.status = getInvoiceStatusAfterRefund(invoice);
+        await manager.save(invoice);
+      }
+
+      allocation.allocatedAmount = roundAmount(Number(allocation.allocatedAmount) - taken);
+      if (allocation.allocatedAmount > 0) {
+        await manager.save(allocation);
+      } else {
+        await manager.remove(allocation);
+      }
+
+      reversed.push({ allocationId: allocation.id, invoiceId: allocation.invoiceId, amount: taken });
+      remaining = roundAmount(remaining - taken);
+    }
+
+    return reversed;
+  }
+
+  /**
+   * Post the LedgerV2 debit for a paid refund if it is not there yet.
+   * A failure is logged and retried on the next pay call.
+   */
+  private async ensureLedgerDebit(refund: Refund): Promise<Refund> {
+    if (refund.ledgerEntryId || refund.status !== RefundStatus.PAID) {
+      return refund;
+    }
+
+    try {
+      const existing = await this.ledgerEntryRepository.findOne({
+        where: { referenceId: refund.id, type: LedgerEntryType.REFUND, isReversed: false }
+      });
+
+      let ledgerEntryId = existing?.id;
+      if (!ledgerEntryId) {
+        const entry = await this.ledgerV2Service.createRefundEntry(refund);
+        ledgerEntryId = entry.id;
+      }
+
+      refund.ledgerEntryId = ledgerEntryId;
+      return this.refundRepository.save(refund);
+    } catch (error) {
+      this.logger.error(`❌ Ledger debit for refund ${refund.id} failed, will retry: ${error.message}`);
+      return refund;
+    }
+  }
+
+  /**
+   * What is left of a payment after refunds that are not rejected
+   */
+  private async getRefundableAmount(payment: Payment): Promise<number> {
+    const refunds = await this.refundRepository.find({
+      where: { paymentId: payment.id, status: Not(RefundStatus.REJECTED) }
+    });
+    const claimed = refunds.reduce((sum, refund) => sum + Number(refund.amount), 0);
+    return roundAmount(Number(payment.amount) - claimed);
+  }
+
+  private applyDateRange(queryBuilder: any, dateFrom?: string, dateTo?: string) {
+    if (dateFrom) {
+      queryBuilder.andWhere('refund.createdAt >= :dateFrom', { dateFrom: new Date(dateFrom) });
+    }
+
+    if (dateTo) {
+      const end = new Date(dateTo);
+      end.setHours(23, 59, 59, 999);
+      queryBuilder.andWhere('refund.createdAt <= :dateTo', { dateTo: end });
+    }
+  }
+
+  private async findRefund(id: string, hostelId: string, relations: string[] = []): Promise<Refund> {
+    if (!hostelId) {
+      throw new BadRequestException('Hostel context required');
+    }
+
+    const refund = await this.refundRepository.findOne({ where: { id, hostelId }, relations });
+    if (!refund) {
+      throw new NotFoundException(`Refund with ID ${id} not found`);
+    }
+    return refund;
+  }
+
+  transformToApiResponse(refund: Refund) {
+    return {
+      id: refund.id,
+      studentId: refund.studentId,
+      studentName: refund.student?.name,
+      source: refund.source,
+      paymentId: refund.paymentId,
+      amount: Number(refund.amount),
+      reason: refund.reason,
+      status: refund.status,
+      requestedBy: refund.requestedBy,
+      approvedBy: refund.approvedBy,
+      approvedAt: refund.approvedAt,
+      rejectedBy: refund.rejectedBy,
+      rejectedAt: refund.rejectedAt,
+      rejectionReason: refund.rejectionReason,
+      payoutMethod: refund.payoutMethod,
+      payoutReference: refund.payoutReference,
+      paidBy: refund.paidBy,
+      paidAt: refund.paidAt,
+      refundPaymentId: refund.refundPaymentId,
+      ledgerEntryId: refund.ledgerEntryId,
+      reversedAllocations: refund.reversedAllocations || [],
+      settlementDetails: refund.settlementDetails,
+      notes: refund.notes,
+      createdAt: refund.createdAt,
+      updatedAt: refund.updatedAt
+    };
+  }
+}
+
+function getInvoiceStatusAfterRefund(invoice: Invoice): InvoiceStatus {
+  if (invoice.status === InvoiceStatus.CANCELLED) {
+    return invoice.status;
+  }
+
+  const paid = Number(invoice.paymentTotal || 0);
+  if (paid >= Number(invoice.total)) {
+    return InvoiceStatus.PAID;
+  }
+  if (paid > 0) {
+    return InvoiceStatus.PARTIALLY_PAID;
+  }
+  return invoice.dueDate && new Date(invoice.dueDate) < new Date() ? InvoiceStatus.OVERDUE : InvoiceStatus.UNPAID;
+}
+
+function roundAmount(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
@@ -1,4 +1,5 @@
 import { IsString, IsOptional, IsDateString, IsEnum, IsObject } from 'class-validator';
+import { ReportFormat } from '../entities/report.entity';
 
 export enum ReportType {
   OCCUPANCY = 'occupancy',
@@ -7,13 +8,18 @@ export enum ReportType {
   PAYMENT = 'payment',
   BOOKING = 'booking',
   LEDGER = 'ledger',
-  MONTHLY = 'monthly'
+  MONTHLY = 'monthly',
+  REFUND = 'refund'
 }
 
 export class GenerateReportDto {
   @IsEnum(ReportType)
   type: ReportType;
 
+  @IsOptional()
+  @IsEnum(ReportFormat)
+  format?: ReportFormat;
+
   @IsOptional()
   @IsObject()
   parameters?: {
@@ -43,6 +49,10 @@ export class GenerateOccupancyReportDto {
   @IsOptional()
   @IsString()
   generatedBy?: string;
+
+  @IsOptional()
+  @IsEnum(ReportFormat)
+  format?: ReportFormat;
 }
 
 export class GenerateFinancialReportDto {
@@ -57,6 +67,10 @@ export class GenerateFinancialReportDto {
   @IsOptional()
   @IsString()
   generatedBy?: string;
+
+  @IsOptional()
+  @IsEnum(ReportFormat)
+  format?: ReportFormat;
 }
 
 export class GenerateStudentReportDto {
@@ -75,6 +89,10 @@ export class GenerateStudentReportDto {
   @IsOptional()
   @IsString()
   generatedBy?: string;
+
+  @IsOptional()
+  @IsEnum(ReportFormat)
+  format?: ReportFormat;
 }
 
 export class GeneratePaymentReportDto {
@@ -93,6 +111,10 @@ export class GeneratePaymentReportDto {
   @IsOptional()
   @IsString()
   generatedBy?: string;
+
+  @IsOptional()
+  @IsEnum(ReportFormat)
+  format?: ReportFormat;
 }
 
 export class GenerateLedgerReportDto {
@@ -115,4 +137,8 @@ export class GenerateLedgerReportDto {
   @IsOptional()
   @IsString()
   generatedBy?: string;
+
+  @IsOptional()
+  @IsEnum(ReportFormat)
+  format?: ReportFormat;
 }
\ No newline at end of file
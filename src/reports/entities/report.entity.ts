@@ -10,7 +10,8 @@ export enum ReportType {
   STUDENT = 'student',
   ROOM = 'room',
   OCCUPANCY = 'occupancy',
-  BOOKING = 'booking'
+  BOOKING = 'booking',
+  REFUND = 'refund'
 }
 
 export enum ReportFormat {
@@ -72,9 +73,14 @@ export class Report extends BaseEntity {
   @Column({ name: 'file_path', length: 500, nullable: true })
   filePath: string;
 
+  // Size in bytes of the rendered file
   @Column({ name: 'file_size', length: 20, nullable: true })
   fileSize: string;
 
+  // SHA-256 of the rendered file, hex encoded
+  @Column({ type: 'varchar', length: 64, nullable: true })
+  checksum: string;
+
   @Column({
     type: 'enum',
     enum: ReportStatus,
@@ -1,4 +1,5 @@
-import { Controller, Get, Post, Body, Param, Query, HttpStatus, UseGuards } from '@nestjs/common';
+import { Controller, Get, Post, Body, Param, Query, HttpStatus, UseGuards, Res, StreamableFile } from '@nestjs/common';
+import { Response } from 'express';
 import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
 import { ReportsService } from './reports.service';
 import { 
@@ -46,6 +47,27 @@ export class ReportsController {
     };
   }
 
+  @Get(':id/download')
+  @ApiOperation({ summary: 'Download the generated report file (PDF, Excel, CSV or JSON)' })
+  @ApiResponse({ status: 200, description: 'Report file' })
+  @ApiResponse({ status: 404, description: 'Report or report file not found' })
+  async downloadReport(
+    @GetHostelId() hostelId: string,
+    @Param('id') id: string,
+    @Res({ passthrough: true }) res: Response
+  ) {
+    const file = await this.reportsService.downloadReport(id, hostelId);
+
+    res.set({
+      'Content-Type': file.contentType,
+      'Content-Disposition': `attachment; filename="${file.fileName}"`,
+      'Content-Length': String(file.content.length),
+      ...(file.checksum ? { 'X-Checksum-SHA256': file.checksum } : {})
+    });
+
+    return new StreamableFile(file.content);
+  }
+
   @Get(':id/data')
   @ApiOperation({ summary: 'Get report data by ID' })
   @ApiResponse({ status: 200, description: 'Report data retrieved successfully' })
@@ -66,7 +88,7 @@ export class ReportsController {
   async generateReport(@GetHostelId() hostelId: string, @Body() generateReportDto: GenerateReportDto) {
     const report = await this.reportsService.generateReport(
       generateReportDto.type,
-      generateReportDto.parameters || {},
+      { ...(generateReportDto.parameters || {}), format: generateReportDto.format },
       hostelId
     );
     
@@ -2,6 +2,7 @@ import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { ReportsController } from './reports.controller';
 import { ReportsService } from './reports.service';
+import { ReportRendererService } from './services/report-renderer.service';
 import { Report } from './entities/report.entity';
 import { Student } from '../students/entities/student.entity';
 import { Room } from '../rooms/entities/room.entity';
@@ -10,6 +11,7 @@ import { Payment } from '../payments/entities/payment.entity';
 import { LedgerEntry } from '../ledger/entities/ledger-entry.entity';
 import { Discount } from '../discounts/entities/discount.entity';
 import { Hostel } from '../hostel/entities/hostel.entity';
+import { Refund } from '../refunds/entities/refund.entity';
 import { AuthModule } from '../auth/auth.module';
 import { HostelModule } from '../hostel/hostel.module';
 
@@ -23,13 +25,14 @@ import { HostelModule } from '../hostel/hostel.module';
       Payment,
       LedgerEntry,
       Discount,
-      Hostel
+      Hostel,
+      Refund
     ]),
     AuthModule,
     HostelModule,
   ],
   controllers: [ReportsController],
-  providers: [ReportsService],
+  providers: [ReportsService, ReportRendererService],
   exports: [ReportsService],
 })
 export class ReportsModule {}
\ No newline at end of file
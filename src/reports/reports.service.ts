@@ -1,16 +1,26 @@
 import { Injectable, NotFoundException } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
 import { Repository } from 'typeorm';
-import { Report, ReportStatus, ReportType } from './entities/report.entity';
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { Report, ReportFormat, ReportStatus, ReportType } from './entities/report.entity';
 import { Student } from '../students/entities/student.entity';
 import { Room } from '../rooms/entities/room.entity';
 import { Invoice } from '../invoices/entities/invoice.entity';
 import { Payment } from '../payments/entities/payment.entity';
 import { LedgerEntry } from '../ledger/entities/ledger-entry.entity';
 import { Discount } from '../discounts/entities/discount.entity';
+import { Hostel } from '../hostel/entities/hostel.entity';
+import { Refund, RefundStatus } from '../refunds/entities/refund.entity';
+import { ReportRendererService, REPORT_CONTENT_TYPES, REPORT_FILE_EXTENSIONS } from './services/report-renderer.service';
+import { CalendarSystem, getCalendarMonth } from '../common/utils/bikram-sambat.util';
 
 @Injectable()
 export class ReportsService {
+  private readonly storageDir: string;
+
   constructor(
     @InjectRepository(Report)
     private reportRepository: Repository<Report>,
@@ -26,7 +36,18 @@ export class ReportsService {
     private ledgerRepository: Repository<LedgerEntry>,
     @InjectRepository(Discount)
     private discountRepository: Repository<Discount>,
-  ) { }
+    @InjectRepository(Hostel)
+    private hostelRepository: Repository<Hostel>,
+    @InjectRepository(Refund)
+    private refundRepository: Repository<Refund>,
+    private reportRendererService: ReportRendererService,
+    private configService: ConfigService,
+  ) {
+    this.storageDir = this.configService.get(
+      'REPORTS_STORAGE_DIR',
+      path.join(process.cwd(), 'storage', 'reports')
+    );
+  }
 
   async findAll(filters: any = {}, hostelId?: string) {
     const {
@@ -106,6 +127,7 @@ export class ReportsService {
   }
 
   async generateReport(reportType: string, parameters: any = {}, hostelId?: string) {
+    const format: ReportFormat = parameters.format || ReportFormat.PDF;
     let reportData;
     let reportName;
     let description;
@@ -141,6 +163,12 @@ export class ReportsService {
         description = 'Detailed ledger entries and balance analysis';
         break;
 
+      case 'refund':
+        reportData = await this.generateRefundReport(parameters, hostelId);
+        reportName = 'Refunds Report';
+        description = 'Refund requests, approvals and payouts';
+        break;
+
       default:
         throw new Error(`Unsupported report type: ${reportType}`);
     }
@@ -153,6 +181,7 @@ export class ReportsService {
       description: description,
       parameters: parameters,
       data: reportData,
+      format,
       status: ReportStatus.COMPLETED,
       generatedBy: parameters.generatedBy || 'system',
       generatedAt: new Date(),
@@ -161,16 +190,92 @@ export class ReportsService {
 
     const savedReport = await this.reportRepository.save(report);
 
+    // Render and store the file for download
+    const file = await this.renderReportFile(savedReport);
+    savedReport.filePath = file.filePath;
+    savedReport.fileSize = String(file.fileSize);
+    savedReport.checksum = file.checksum;
+    await this.reportRepository.save(savedReport);
+
     return {
       reportId: savedReport.id,
       name: reportName,
       type: reportType,
+      format,
       status: ReportStatus.COMPLETED,
       generatedAt: savedReport.generatedAt,
+      fileSize: file.fileSize,
+      checksum: file.checksum,
       data: reportData
     };
   }
 
+  /**
+   * Get the stored report file for download and bump the download counter
+   */
+  async downloadReport(id: string, hostelId: string) {
+    const report = await this.reportRepository.findOne({ where: { id, hostelId } });
+
+    if (!report) {
+      throw new NotFoundException('Report not found');
+    }
+
+    if (!report.filePath) {
+      throw new NotFoundException('Report file not available');
+    }
+
+    let content: Buffer;
+    try {
+      content = await fs.readFile(report.filePath);
+    } catch (error) {
+      throw new NotFoundException('Report file not available');
+    }
+
+    await this.reportRepository.increment({ id: report.id }, 'downloadCount', 1);
+
+    const format = report.format || ReportFormat.PDF;
+    const dateStamp = new Date(report.generatedAt).toISOString().split('T')[0];
+
+    return {
+      content,
+      contentType: REPORT_CONTENT_TYPES[format],
+      fileName: `${report.type}-report-${dateStamp}.${REPORT_FILE_EXTENSIONS[format]}`,
+      checksum: report.checksum
+    };
+  }
+
+  /**
+   * Render the report in its format and write it under the hostel's storage folder
+   */
+  private async renderReportFile(report: Report) {
+    const hostel = report.hostelId
+      ? await this.hostelRepository.findOne({ where: { id: report.hostelId } })
+      : null;
+
+    const content = await this.reportRendererService.render(
+      report.format,
+      {
+        title: report.name,
+        hostelName: hostel?.name || 'Hostel',
+        generatedAt: report.generatedAt,
+        sections: this.reportRendererService.buildSections(report.data)
+      },
+      report.data
+    );
+
+    const directory = path.join(this.storageDir, report.hostelId || 'shared');
+    await fs.mkdir(directory, { recursive: true });
+
+    const filePath = path.join(directory, `${report.id}.${REPORT_FILE_EXTENSIONS[report.format]}`);
+    await fs.writeFile(filePath, content);
+
+    return {
+      filePath,
+      fileSize: content.length,
+      checksum: createHash('sha256').update(content).digest('hex')
+    };
+  }
+
   async getReportData(id: string, hostelId: string) {
     const report = await this.reportRepository.findOne({ where: { id, hostelId } });
 
@@ -196,6 +301,9 @@ export class ReportsService {
       case ReportType.LEDGER:
         reportData = await this.generateLedgerReport(report.parameters, hostelId);
         break;
+      case ReportType.REFUND:
+        reportData = await this.generateRefundReport(report.parameters, hostelId);
+        break;
       default:
         throw new Error(`Unsupported report type: ${report.type}`);
     }
@@ -383,6 +491,7 @@ export class ReportsService {
     }
 
     const payments = await queryBuilder.getMany();
+    const calendar = await this.getHostelCalendar(hostelId);
 
     const methodBreakdown = {};
     const statusBreakdown = {};
@@ -402,8 +511,10 @@ export class ReportsService {
       },
       breakdowns: {
         byMethod: methodBreakdown,
-        byStatus: statusBreakdown
+        byStatus: statusBreakdown,
+        byMonth: this.groupByMonth(payments, payment => payment.paymentDate, payment => parseFloat(payment.amount?.toString() || '0'), calendar)
       },
+      calendar,
       generatedAt: new Date()
     };
   }
@@ -425,6 +536,7 @@ export class ReportsService {
     }
 
     const entries = await queryBuilder.getMany();
+    const calendar = await this.getHostelCalendar(hostelId);
 
     const typeBreakdown = {};
     let totalDebits = 0;
@@ -444,12 +556,134 @@ export class ReportsService {
         netBalance: totalDebits - totalCredits
       },
       breakdowns: {
-        byType: typeBreakdown
+        byType: typeBreakdown,
+        byMonth: this.groupByMonth(
+          entries,
+          entry => entry.date,
+          entry => parseFloat(entry.debit?.toString() || '0') - parseFloat(entry.credit?.toString() || '0'),
+          calendar
+        )
+      },
+      calendar,
+      generatedAt: new Date()
+    };
+  }
+
+  private async generateRefundReport(parameters: any, hostelId?: string) {
+    const { dateFrom, dateTo } = parameters;
+
+    const queryBuilder = this.refundRepository.createQueryBuilder('refund')
+      .leftJoinAndSelect('refund.student', 'student');
+
+    if (dateFrom) {
+      queryBuilder.andWhere('refund.createdAt >= :dateFrom', { dateFrom });
+    }
+    if (dateTo) {
+      queryBuilder.andWhere('refund.createdAt <= :dateTo', { dateTo });
+    }
+    if (hostelId) {
+      queryBuilder.andWhere('refund.hostelId = :hostelId', { hostelId });
+    }
+
+    const refunds = await queryBuilder.orderBy('refund.createdAt', 'ASC').getMany();
+    const calendar = await this.getHostelCalendar(hostelId);
+
+    const statusBreakdown = {};
+    const methodBreakdown = {};
+    let totalRequested = 0;
+    let totalPaid = 0;
+
+    refunds.forEach(refund => {
+      const amount = parseFloat(refund.amount?.toString() || '0');
+      statusBreakdown[refund.status] = (statusBreakdown[refund.status] || 0) + amount;
+      if (refund.status !== RefundStatus.REJECTED) {
+        totalRequested += amount;
+      }
+      if (refund.status === RefundStatus.PAID) {
+        totalPaid += amount;
+        methodBreakdown[refund.payoutMethod] = (methodBreakdown[refund.payoutMethod] || 0) + amount;
+      }
+    });
+
+    const paidRefunds = refunds.filter(refund => refund.status === RefundStatus.PAID);
+
+    return {
+      summary: {
+        totalRefunds: refunds.length,
+        totalRequested,
+        totalPaid,
+        outstanding: totalRequested - totalPaid
+      },
+      breakdowns: {
+        byStatus: statusBreakdown,
+        byPayoutMethod: methodBreakdown,
+        byMonth: this.groupByMonth(paidRefunds, refund => refund.paidAt, refund => parseFloat(refund.amount?.toString() || '0'), calendar)
       },
+      refunds: refunds.map(refund => ({
+        student: refund.student?.name || '',
+        source: refund.source,
+        amount: parseFloat(refund.amount?.toString() || '0'),
+        status: refund.status,
+        reason: refund.reason,
+        approvedBy: refund.approvedBy || '',
+        payoutMethod: refund.payoutMethod || '',
+        paidAt: refund.paidAt ? new Date(refund.paidAt).toISOString().split('T')[0] : ''
+      })),
+      calendar,
       generatedAt: new Date()
     };
   }
 
+  private async getHostelCalendar(hostelId?: string): Promise<CalendarSystem> {
+    if (!hostelId) {
+      return CalendarSystem.AD;
+    }
+
+    const hostel = await this.hostelRepository.findOne({
+      where: { id: hostelId },
+      select: ['id', 'calendarSystem']
+    });
+
+    return hostel?.calendarSystem || CalendarSystem.AD;
+  }
+
+  /**
+   * Sum values per month in the hostel's calendar ("Kartik 2082" or "October 2025"), oldest first
+   */
+  private groupByMonth<T>(
+    items: T[],
+    getDate: (item: T) => Date | string,
+    getValue: (item: T) => number,
+    calendar: CalendarSystem
+  ): Record<string, number> {
+    const months = new Map<string, { label: string; total: number }>();
+
+    for (const item of items) {
+      const date = getDate(item);
+      if (!date) {
+        continue;
+      }
+
+      // Dates outside the BS table (before 2070 BS) fall back to AD months
+      let calendarMonth: { key: string; label: string };
+      try {
+        calendarMonth = getCalendarMonth(new Date(date), calendar);
+      } catch {
+        calendarMonth = getCalendarMonth(new Date(date), CalendarSystem.AD);
+      }
+      const { key, label } = calendarMonth;
+      const month = months.get(key) || { label, total: 0 };
+      month.total += getValue(item);
+      months.set(key, month);
+    }
+
+    return Object.fromEntries(
+      Array.from(months.entries())
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([, month]) => [month.label, Math.round(month.total * 100) / 100])
+    );
+  }
+
   private transformToApiResponse(report: Report) {
     return {
       id: report.id,
@@ -460,7 +694,11 @@ export class ReportsService {
       generatedBy: report.generatedBy,
       generatedAt: report.generatedAt,
       createdAt: report.createdAt,
-      parameters: report.parameters
+      parameters: report.parameters,
+      format: report.format,
+      fileSize: report.fileSize ? Number(report.fileSize) : null,
+      checksum: report.checksum,
+      downloadCount: report.downloadCount
     };
   }
 
@@ -0,0 +1,83 @@
+import { ReportRendererService } from './report-renderer.service';
+import { ReportFormat } from '../entities/report.entity';
+
+describe('ReportRendererService', () => {
+  let service: ReportRendererService;
+
+  const reportData = {
+    summary: { totalRooms: 2, overallOccupancyRate: 75 },
+    roomDetails: [
+      { roomNumber: 'A-101', capacity: 2, status: 'Active' },
+      { roomNumber: 'A-102', capacity: 2, status: 'Under "repair", closed' }
+    ],
+    breakdowns: { byStatus: { Active: 1, Maintenance: 1 } },
+    generatedAt: new Date('2025-01-01T00:00:00Z')
+  };
+
+  const buildDocument = () => ({
+    title: 'Room Occupancy Report',
+    hostelName: 'Test Hostel',
+    generatedAt: new Date('2025-01-01T00:00:00Z'),
+    sections: service.buildSections(reportData)
+  });
+
+  beforeEach(() => {
+    service = new ReportRendererService();
+  });
+
+  describe('buildSections', () => {
+    it('should turn summaries, arrays and breakdowns into tabular sections', () => {
+      const sections = service.buildSections(reportData);
+
+      expect(sections.map(section => section.name)).toEqual([
+        'Summary',
+        'Room Details',
+        'Breakdowns - By Status'
+      ]);
+      expect(sections[0].rows).toEqual([
+        { metric: 'Total Rooms', value: 2 },
+        { metric: 'Overall Occupancy Rate', value: 75 }
+      ]);
+      expect(sections[1].columns.map(column => column.header)).toEqual(['Room Number', 'Capacity', 'Status']);
+      expect(sections[2].rows).toEqual([
+        { metric: 'Active', value: 1 },
+        { metric: 'Maintenance', value: 1 }
+      ]);
+    });
+  });
+
+  describe('render', () => {
+    it('should render CSV with escaped values', async () => {
+      const csv = (await service.render(ReportFormat.CSV, buildDocument())).toString('utf-8');
+
+      expect(csv).toContain('Hostel,Test Hostel');
+      expect(csv).toContain('Room Number,Capacity,Status');
+      expect(csv).toContain('A-102,2,"Under ""repair"", closed"');
+    });
+
+    it('should render an XLSX workbook', async () => {
+      const xlsx = await service.render(ReportFormat.EXCEL, buildDocument());
+
+      // XLSX files are zip archives
+      expect(xlsx.subarray(0, 2).toString()).toBe('PK');
+    });
+
+    it('should render a PDF document', async () => {
+      const pdf = await service.render(ReportFormat.PDF, buildDocument());
+
+      expect(pdf.subarray(0, 5).toString()).toBe('%PDF-');
+    });
+
+    it('should embed a Devanagari font in the PDF instead of Helvetica', async () => {
+      const pdf = await service.render(ReportFormat.PDF, {
+        ...buildDocument(),
+        hostelName: 'शान्ति होस्टल',
+        sections: service.buildSections({ students: [{ name: 'राम बहादुर', room: 'A-101' }] })
+      });
+
+      const content = pdf.toString('latin1');
+      expect(content).toContain('NotoSansDevanagari');
+      expect(content).not.toContain('Helvetica');
+    });
+  });
+});
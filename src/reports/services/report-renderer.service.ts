@@ -0,0 +1,309 @@
+import { Injectable } from '@nestjs/common';
+import * as ExcelJS from 'exceljs';
+import PDFDocument = require('pdfkit');
+import { ReportFormat } from '../entities/report.entity';
+
+export interface ReportColumn {
+  key: string;
+  header: string;
+}
+
+export interface ReportSection {
+  name: string;
+  columns: ReportColumn[];
+  rows: Array<Record<string, any>>;
+}
+
+export interface ReportDocument {
+  title: string;
+  hostelName: string;
+  generatedAt: Date;
+  sections: ReportSection[];
+}
+
+export const REPORT_CONTENT_TYPES: Record<ReportFormat, string> = {
+  [ReportFormat.PDF]: 'application/pdf',
+  [ReportFormat.EXCEL]: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  [ReportFormat.CSV]: 'text/csv; charset=utf-8',
+  [ReportFormat.JSON]: 'application/json'
+};
+
+export const REPORT_FILE_EXTENSIONS: Record<ReportFormat, string> = {
+  [ReportFormat.PDF]: 'pdf',
+  [ReportFormat.EXCEL]: 'xlsx',
+  [ReportFormat.CSV]: 'csv',
+  [ReportFormat.JSON]: 'json'
+};
+
+const PDF_MARGIN = 40;
+const PDF_HEADER_HEIGHT = 70;
+const PDF_ROW_HEIGHT = 18;
+
+// The built-in Helvetica has no Devanagari glyphs; Noto Sans Devanagari also covers Latin
+const PDF_FONT = 'NotoSansDevanagari';
+const PDF_FONT_BOLD = 'NotoSansDevanagari-Bold';
+const PDF_FONT_FILES: Record<string, string> = {
+  [PDF_FONT]: require.resolve('@expo-google-fonts/noto-sans-devanagari/400Regular/NotoSansDevanagari_400Regular.ttf'),
+  [PDF_FONT_BOLD]: require.resolve('@expo-google-fonts/noto-sans-devanagari/700Bold/NotoSansDevanagari_700Bold.ttf')
+};
+
+/**
+ * Report Renderer Service
+ * Turns generated report data into downloadable files. Report data is first
+ * flattened into tabular sections so every format shows the same content:
+ * CSV (sections one after another), XLSX (one sheet per section) and PDF
+ * (paginated tables with the hostel header on every page).
+ */
+@Injectable()
+export class ReportRendererService {
+  /**
+   * Flatten report data into tabular sections.
+   * Plain objects become Metric/Value tables, arrays of objects become tables
+   * with one column per key and nested objects (breakdowns) become one section each.
+   */
+  buildSections(data: Record<string, any>, sectionName?: string): ReportSection[] {
+    const sections: ReportSection[] = [];
+    const keyValueRows: Array<Record<string, any>> = [];
+
+    for (const [key, value] of Object.entries(data || {})) {
+      if (key === 'generatedAt') {
+        continue;
+      }
+
+      const name = sectionName ? `${sectionName} - ${this.humanize(key)}` : this.humanize(key);
+
+      if (Array.isArray(value)) {
+        const columnKeys = Array.from(new Set(value.flatMap(row => Object.keys(row || {}))));
+        sections.push({
+          name,
+          columns: columnKeys.map(columnKey => ({ key: columnKey, header: this.humanize(columnKey) })),
+          rows: value
+        });
+      } else if (value && typeof value === 'object' && !(value instanceof Date)) {
+        sections.push(...this.buildSections(value, name));
+      } else {
+        keyValueRows.push({ metric: this.humanize(key), value });
+      }
+    }
+
+    if (keyValueRows.length > 0) {
+      sections.unshift({
+        name: sectionName || 'Summary',
+        columns: [
+          { key: 'metric', header: 'Metric' },
+          { key: 'value', header: 'Value' }
+        ],
+        rows: keyValueRows
+      });
+    }
+
+    return sections;
+  }
+
+  async render(format: ReportFormat, document: ReportDocument, rawData?: any): Promise<Buffer> {
+    switch (format) {
+      case ReportFormat.CSV:
+        return this.renderCsv(document);
+      case ReportFormat.EXCEL:
+        return this.renderExcel(document);
+      case ReportFormat.PDF:
+        return this.renderPdf(document);
+      case ReportFormat.JSON:
+        return Buffer.from(JSON.stringify(rawData ?? document, null, 2), 'utf-8');
+      default:
+        throw new Error(`Unsupported report format: ${format}`);
+    }
+  }
+
+  private renderCsv(document: ReportDocument): Buffer {
+    const lines: string[] = [
+      this.toCsvRow([document.title]),
+      this.toCsvRow(['Hostel', document.hostelName]),
+      this.toCsvRow(['Generated At', document.generatedAt.toISOString()])
+    ];
+
+    for (const section of document.sections) {
+      lines.push('');
+      lines.push(this.toCsvRow([section.name]));
+      lines.push(this.toCsvRow(section.columns.map(column => column.header)));
+      for (const row of section.rows) {
+        lines.push(this.toCsvRow(section.columns.map(column => row[column.key])));
+      }
+    }
+
+    // BOM so Excel opens UTF-8 (Nepali names) correctly
+    return Buffer.from('\uFEFF' + lines.join('\r\n') + '\r\n', 'utf-8');
+  }
+
+  private async renderExcel(document: ReportDocument): Promise<Buffer> {
+    const workbook = new ExcelJS.Workbook();
+    workbook.creator = document.hostelName;
+    workbook.created = document.generatedAt;
+
+    const usedNames = new Set<string>();
+
+    for (const section of document.sections) {
+      const sheet = workbook.addWorksheet(this.toSheetName(section.name, usedNames));
+
+      sheet.addRow([document.hostelName]).font = { bold: true, size: 14 };
+      sheet.addRow([`${document.title} - ${section.name}`]).font = { bold: true };
+      sheet.addRow([`Generated at ${document.generatedAt.toISOString()}`]);
+      sheet.addRow([]);
+
+      const headerRow = sheet.addRow(section.columns.map(column => column.header));
+      headerRow.font = { bold: true };
+
+      for (const row of section.rows) {
+        sheet.addRow(section.columns.map(column => this.toCellValue(row[column.key])));
+      }
+
+      section.columns.forEach((column, index) => {
+        sheet.getColumn(index + 1).width = Math.max(12, Math.min(40, column.header.length + 4));
+      });
+    }
+
+    if (document.sections.length === 0) {
+      workbook.addWorksheet('Summary').addRow(['No data']);
+    }
+
+    const buffer = await workbook.xlsx.writeBuffer();
+    return Buffer.from(buffer as ArrayBuffer);
+  }
+
+  private renderPdf(document: ReportDocument): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      const pdf = new PDFDocument({ size: 'A4', margin: PDF_MARGIN, bufferPages: true });
+      const chunks: Buffer[] = [];
+
+      pdf.on('data', chunk => chunks.push(chunk));
+      pdf.on('end', () => resolve(Buffer.concat(chunks)));
+      pdf.on('error', reject);
+
+      for (const [name, file] of Object.entries(PDF_FONT_FILES)) {
+        pdf.registerFont(name, file);
+      }
+
+      const contentWidth = pdf.page.width - PDF_MARGIN * 2;
+      const bottomLimit = () => pdf.page.height - PDF_MARGIN - PDF_ROW_HEIGHT * 2;
+
+      const drawHeader = () => {
+        pdf.font(PDF_FONT_BOLD).fontSize(14)
+          .text(document.hostelName, PDF_MARGIN, PDF_MARGIN, { width: contentWidth });
+        pdf.font(PDF_FONT).fontSize(10)
+          .text(`${document.title}  |  Generated ${document.generatedAt.toLocaleString()}`, { width: contentWidth });
+        const lineY = PDF_MARGIN + PDF_HEADER_HEIGHT - 20;
+        pdf.moveTo(PDF_MARGIN, lineY).lineTo(PDF_MARGIN + contentWidth, lineY).stroke();
+        pdf.y = PDF_MARGIN + PDF_HEADER_HEIGHT;
+      };
+
+      const drawRow = (values: string[], bold: boolean) => {
+        const columnWidth = contentWidth / Math.max(values.length, 1);
+        const y = pdf.y;
+        pdf.font(bold ? PDF_FONT_BOLD : PDF_FONT).fontSize(9);
+        values.forEach((value, index) => {
+          pdf.text(value, PDF_MARGIN + index * columnWidth, y, {
+            width: columnWidth - 4,
+            height: PDF_ROW_HEIGHT,
+            ellipsis: true,
+            lineBreak: false
+          });
+        });
+        pdf.y = y + PDF_ROW_HEIGHT;
+      };
+
+      pdf.on('pageAdded', drawHeader);
+      drawHeader();
+
+      for (const section of document.sections) {
+        if (pdf.y + PDF_ROW_HEIGHT * 3 > bottomLimit()) {
+          pdf.addPage();
+        }
+
+        pdf.moveDown(0.5);
+        pdf.font(PDF_FONT_BOLD).fontSize(11).text(section.name, PDF_MARGIN, pdf.y, { width: contentWidth });
+        pdf.moveDown(0.3);
+
+        const headers = section.columns.map(column => column.header);
+        drawRow(headers, true);
+
+        for (const row of section.rows) {
+          if (pdf.y > bottomLimit()) {
+            pdf.addPage();
+            drawRow(headers, true);
+          }
+          drawRow(section.columns.map(column => this.toText(row[column.key])), false);
+        }
+      }
+
+      // Page numbers, written once every page exists
+      const range = pdf.bufferedPageRange();
+      for (let i = range.start; i < range.start + range.count; i++) {
+        pdf.switchToPage(i);
+        // Footer sits inside the bottom margin; lift the margin so pdfkit doesn't add a page
+        pdf.page.margins.bottom = 0;
+        pdf.font(PDF_FONT).fontSize(8).text(
+          `Page ${i + 1} of ${range.count}`,
+          PDF_MARGIN,
+          pdf.page.height - PDF_MARGIN + 10,
+          { width: contentWidth, align: 'right', lineBreak: false }
+        );
+      }
+
+      pdf.end();
+    });
+  }
+
+  private toCsvRow(values: any[]): string {
+    return values.map(value => {
+      const text = this.toText(value);
+      return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    }).join(',');
+  }
+
+  private toCellValue(value: any): any {
+    if (value === null || value === undefined) {
+      return '';
+    }
+    if (typeof value === 'number' || value instanceof Date) {
+      return value;
+    }
+    return this.toText(value);
+  }
+
+  private toText(value: any): string {
+    if (value === null || value === undefined) {
+      return '';
+    }
+    if (value instanceof Date) {
+      return value.toISOString();
+    }
+    if (typeof value === 'number') {
+      return Number.isInteger(value) ? String(value) : value.toFixed(2);
+    }
+    if (typeof value === 'object') {
+      return JSON.stringify(value);
+    }
+    return String(value);
+  }
+
+  /**
+   * Excel sheet names: max 31 chars, no []:*?/\ and unique per workbook
+   */
+  private toSheetName(name: string, usedNames: Set<string>): string {
+    const base = name.replace(/[\[\]:*?\/\\]/g, ' ').substring(0, 28).trim() || 'Sheet';
+    let candidate = base;
+    let suffix = 2;
+    while (usedNames.has(candidate.toLowerCase())) {
+      candidate = `${base} ${suffix++}`;
+    }
+    usedNames.add(candidate.toLowerCase());
+    return candidate;
+  }
+
+  private humanize(key: string): string {
+    return key
+      .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+      .replace(/[_-]+/g, ' ')
+      .replace(/^\w/, char => char.toUpperCase());
+  }
+}
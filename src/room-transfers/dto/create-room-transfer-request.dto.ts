@@ -0,0 +1,40 @@
+import { IsEnum, IsInt, IsOptional, IsString, IsUUID, MaxLength, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { RoomTransferType } from '../entities/room-transfer-request.entity';
+
+export class TransferPreferencesDto {
+  @ApiPropertyOptional({ description: 'Room the student would like to move to' })
+  @IsOptional()
+  @IsUUID()
+  preferredRoomId?: string;
+
+  @ApiPropertyOptional({ description: 'Floor the student would like to move to', example: 2 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  preferredFloor?: number;
+
+  @ApiPropertyOptional({ description: 'Specific free bed the student would like' })
+  @IsOptional()
+  @IsUUID()
+  preferredBedId?: string;
+
+  @ApiPropertyOptional({ description: 'Student to exchange beds with (swap requests)' })
+  @IsOptional()
+  @IsUUID()
+  swapWithStudentId?: string;
+}
+
+export class CreateRoomTransferRequestDto extends TransferPreferencesDto {
+  @ApiProperty({ description: 'Move to a free bed or swap with another student', enum: RoomTransferType })
+  @IsEnum(RoomTransferType)
+  type: RoomTransferType;
+
+  @ApiPropertyOptional({ description: 'Why the student wants to move', example: 'Room is too noisy for exam preparation' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  reason?: string;
+}
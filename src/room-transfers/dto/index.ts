@@ -0,0 +1,3 @@
+export { CreateRoomTransferRequestDto, TransferPreferencesDto } from './create-room-transfer-request.dto';
+export { ApproveRoomTransferRequestDto, RejectRoomTransferRequestDto, RespondToSwapDto } from './review-room-transfer-request.dto';
+export { RoomTransferFilterDto } from './room-transfer-filter.dto';
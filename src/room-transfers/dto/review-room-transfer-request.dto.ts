@@ -0,0 +1,29 @@
+import { IsDateString, IsOptional, IsString, IsUUID, MaxLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class ApproveRoomTransferRequestDto {
+  @ApiPropertyOptional({ description: 'Free bed to move the student to; defaults to the bed they asked for' })
+  @IsOptional()
+  @IsUUID()
+  bedId?: string;
+
+  @ApiPropertyOptional({ description: 'Effective date of the move (ISO format), today if omitted', example: '2025-11-03' })
+  @IsOptional()
+  @IsDateString()
+  effectiveDate?: string;
+}
+
+export class RejectRoomTransferRequestDto {
+  @ApiProperty({ description: 'Why the request was turned down', example: 'No free beds on the second floor this month' })
+  @IsString()
+  @MaxLength(1000)
+  reason: string;
+}
+
+export class RespondToSwapDto {
+  @ApiPropertyOptional({ description: 'Optional note to the requesting student when declining' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  reason?: string;
+}
@@ -0,0 +1,21 @@
+import { IsEnum, IsOptional, IsUUID } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { PaginationDto } from '../../common/dto/pagination.dto';
+import { RoomTransferStatus, RoomTransferType } from '../entities/room-transfer-request.entity';
+
+export class RoomTransferFilterDto extends PaginationDto {
+  @ApiPropertyOptional({ description: 'Filter by status', enum: RoomTransferStatus })
+  @IsOptional()
+  @IsEnum(RoomTransferStatus)
+  status?: RoomTransferStatus;
+
+  @ApiPropertyOptional({ description: 'Filter by type', enum: RoomTransferType })
+  @IsOptional()
+  @IsEnum(RoomTransferType)
+  type?: RoomTransferType;
+
+  @ApiPropertyOptional({ description: 'Filter by requesting or swap partner student' })
+  @IsOptional()
+  @IsUUID()
+  studentId?: string;
+}
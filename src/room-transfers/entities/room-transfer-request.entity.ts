@@ -0,0 +1,118 @@
+import { Entity, Column, ManyToOne, JoinColumn, Index } from 'typeorm';
+import { BaseEntity } from '../../common/entities/base.entity';
+import { Hostel } from '../../hostel/entities/hostel.entity';
+import { Student } from '../../students/entities/student.entity';
+
+export enum RoomTransferType {
+  MOVE = 'move',  // Move to a free bed, optionally in a preferred room or on a preferred floor
+  SWAP = 'swap'   // Exchange beds with another student
+}
+
+export enum RoomTransferStatus {
+  AWAITING_PARTNER = 'awaiting_partner',  // Swap waiting for the other student's consent
+  PENDING = 'pending',                    // Waiting for the hostel
+  APPROVED = 'approved',                  // Carried out through the bed switch
+  REJECTED = 'rejected',                  // By the hostel, or declined by the swap partner
+  CANCELLED = 'cancelled'                 // Withdrawn by the requesting student
+}
+
+/**
+ * A student's request to change beds, made from the app. Moves go straight
+ * to the hostel; swaps first need the other student's consent. Approval runs
+ * the existing bed switch (or a two-sided swap), which writes the
+ * BedSwitchAudit rows referenced here. Rates are captured at request time for
+ * the price difference preview and compared again on approval.
+ */
+@Entity('room_transfer_requests')
+@Index(['hostelId', 'status'])
+@Index(['studentId'])
+@Index(['swapStudentId'])
+export class RoomTransferRequest extends BaseEntity {
+  @Column({ name: 'hostel_id' })
+  hostelId: string;
+
+  @Column({ name: 'student_id' })
+  studentId: string;
+
+  @Column({
+    type: 'enum',
+    enum: RoomTransferType
+  })
+  type: RoomTransferType;
+
+  @Column({
+    type: 'enum',
+    enum: RoomTransferStatus,
+    default: RoomTransferStatus.PENDING
+  })
+  status: RoomTransferStatus;
+
+  // Where the student was when they asked
+  @Column({ name: 'current_bed_id' })
+  currentBedId: string;
+
+  @Column({ name: 'current_rate', type: 'decimal', precision: 10, scale: 2, default: 0 })
+  currentRate: number;
+
+  // Move preferences - all optional, the hostel picks the bed on approval if none is given
+  @Column({ name: 'preferred_room_id', nullable: true })
+  preferredRoomId: string;
+
+  @Column({ name: 'preferred_floor', type: 'int', nullable: true })
+  preferredFloor: number;
+
+  @Column({ name: 'preferred_bed_id', nullable: true })
+  preferredBedId: string;
+
+  // Swap partner and the bed they were in when asked
+  @Column({ name: 'swap_student_id', nullable: true })
+  swapStudentId: string;
+
+  @Column({ name: 'swap_bed_id', nullable: true })
+  swapBedId: string;
+
+  @Column({ name: 'partner_responded_at', type: 'timestamp', nullable: true })
+  partnerRespondedAt: Date;
+
+  // Cheapest and dearest rate the request could end up at (equal for a specific bed or a swap)
+  @Column({ name: 'min_new_rate', type: 'decimal', precision: 10, scale: 2, nullable: true })
+  minNewRate: number;
+
+  @Column({ name: 'max_new_rate', type: 'decimal', precision: 10, scale: 2, nullable: true })
+  maxNewRate: number;
+
+  @Column({ type: 'text', nullable: true })
+  reason: string;
+
+  @Column({ name: 'reviewed_by', nullable: true })
+  reviewedBy: string;
+
+  @Column({ name: 'reviewed_at', type: 'timestamp', nullable: true })
+  reviewedAt: Date;
+
+  @Column({ name: 'rejection_reason', type: 'text', nullable: true })
+  rejectionReason: string;
+
+  @Column({ name: 'assigned_bed_id', nullable: true })
+  assignedBedId: string;
+
+  @Column({ name: 'effective_date', type: 'date', nullable: true })
+  effectiveDate: Date;
+
+  // BedSwitchAudit rows written when the request was carried out
+  @Column({ name: 'bed_switch_audit_ids', type: 'jsonb', nullable: true })
+  bedSwitchAuditIds: string[];
+
+  // Relations
+  @ManyToOne(() => Hostel, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'hostel_id' })
+  hostel: Hostel;
+
+  @ManyToOne(() => Student, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'student_id' })
+  student: Student;
+
+  @ManyToOne(() => Student, { nullable: true, onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'swap_student_id' })
+  swapStudent: Student;
+}
@@ -0,0 +1,189 @@
+import { Controller, Get, Post, Body, Param, Query, HttpStatus, UseGuards } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
+import { RoomTransfersService } from './services/room-transfers.service';
+import {
+  CreateRoomTransferRequestDto,
+  TransferPreferencesDto,
+  ApproveRoomTransferRequestDto,
+  RejectRoomTransferRequestDto,
+  RespondToSwapDto,
+  RoomTransferFilterDto
+} from './dto';
+import { RoomTransferRequest } from './entities/room-transfer-request.entity';
+import { GetHostelId } from '../hostel/decorators/hostel-context.decorator';
+import { HostelAuthWithContextGuard } from '../auth/guards/hostel-auth-with-context.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { JwtPayload } from '../auth/interfaces/jwt-payload.interface';
+import { RolesGuard } from '../staff-roles/guards/roles.guard';
+import { Permissions } from '../staff-roles/decorators/permissions.decorator';
+import { Permission } from '../staff-roles/permissions';
+import { Audited } from '../audit/decorators/audited.decorator';
+
+@ApiTags('room-transfers')
+@Controller('room-transfers')
+@UseGuards(HostelAuthWithContextGuard, RolesGuard)
+@Audited({ entity: RoomTransferRequest })
+@ApiBearerAuth()
+export class RoomTransfersController {
+  constructor(private readonly roomTransfersService: RoomTransfersService) { }
+
+  // Student endpoints (must come before parameterized routes)
+  @Get('my/preview')
+  @ApiOperation({ summary: 'Preview the beds and monthly price difference of a transfer (Student)' })
+  @ApiResponse({ status: 200, description: 'Candidate beds with their rate difference' })
+  async previewMyTransfer(
+    @GetHostelId() hostelId: string,
+    @Query() preferences: TransferPreferencesDto,
+    @CurrentUser() user: JwtPayload
+  ) {
+    const preview = await this.roomTransfersService.previewForUser(user.id, hostelId, preferences);
+
+    return {
+      status: HttpStatus.OK,
+      data: preview
+    };
+  }
+
+  @Post('my')
+  @ApiOperation({ summary: 'Request a move to another bed or a swap with another student (Student)' })
+  @ApiResponse({ status: 201, description: 'Request created; swaps wait for the other student first' })
+  @ApiResponse({ status: 400, description: 'Open request already exists or preferences are invalid' })
+  async createMyRequest(
+    @GetHostelId() hostelId: string,
+    @Body() createDto: CreateRoomTransferRequestDto,
+    @CurrentUser() user: JwtPayload
+  ) {
+    const request = await this.roomTransfersService.createForUser(user.id, hostelId, createDto);
+
+    return {
+      status: HttpStatus.CREATED,
+      data: request
+    };
+  }
+
+  @Get('my')
+  @ApiOperation({ summary: 'Get the student\'s transfer requests and swaps waiting for their answer (Student)' })
+  @ApiResponse({ status: 200, description: 'Requests retrieved successfully' })
+  async getMyRequests(@GetHostelId() hostelId: string, @CurrentUser() user: JwtPayload) {
+    const requests = await this.roomTransfersService.getUserRequests(user.id, hostelId);
+
+    return {
+      status: HttpStatus.OK,
+      data: requests
+    };
+  }
+
+  @Post('my/:id/accept')
+  @ApiOperation({ summary: 'Agree to a bed swap another student asked for (Student)' })
+  @ApiResponse({ status: 200, description: 'Swap accepted and sent to the hostel for approval' })
+  async acceptSwap(
+    @GetHostelId() hostelId: string,
+    @Param('id') id: string,
+    @CurrentUser() user: JwtPayload
+  ) {
+    const request = await this.roomTransfersService.respondToSwap(id, user.id, hostelId, true);
+
+    return {
+      status: HttpStatus.OK,
+      data: request
+    };
+  }
+
+  @Post('my/:id/decline')
+  @ApiOperation({ summary: 'Decline a bed swap another student asked for (Student)' })
+  @ApiResponse({ status: 200, description: 'Swap declined' })
+  async declineSwap(
+    @GetHostelId() hostelId: string,
+    @Param('id') id: string,
+    @Body() respondDto: RespondToSwapDto,
+    @CurrentUser() user: JwtPayload
+  ) {
+    const request = await this.roomTransfersService.respondToSwap(id, user.id, hostelId, false, respondDto);
+
+    return {
+      status: HttpStatus.OK,
+      data: request
+    };
+  }
+
+  @Post('my/:id/cancel')
+  @ApiOperation({ summary: 'Withdraw an open transfer request (Student)' })
+  @ApiResponse({ status: 200, description: 'Request cancelled' })
+  async cancelMyRequest(
+    @GetHostelId() hostelId: string,
+    @Param('id') id: string,
+    @CurrentUser() user: JwtPayload
+  ) {
+    const request = await this.roomTransfersService.cancelForUser(id, user.id, hostelId);
+
+    return {
+      status: HttpStatus.OK,
+      data: request
+    };
+  }
+
+  // Admin endpoints
+  @Get()
+  @ApiOperation({ summary: 'Get room transfer requests' })
+  @ApiResponse({ status: 200, description: 'Requests retrieved successfully' })
+  async getRequests(@GetHostelId() hostelId: string, @Query() filters: RoomTransferFilterDto) {
+    const requests = await this.roomTransfersService.findAll(hostelId, filters);
+
+    return {
+      status: HttpStatus.OK,
+      data: requests
+    };
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get room transfer request by ID' })
+  @ApiResponse({ status: 200, description: 'Request retrieved successfully' })
+  async getRequest(@GetHostelId() hostelId: string, @Param('id') id: string) {
+    const request = await this.roomTransfersService.findOne(id, hostelId);
+
+    return {
+      status: HttpStatus.OK,
+      data: request
+    };
+  }
+
+  @Post(':id/approve')
+  @Permissions(Permission.ROOM_TRANSFER_APPROVE)
+  @ApiOperation({
+    summary: 'Approve a pending request and carry out the bed switch',
+    description: 'Moves use the bed given here or the one the student asked for; swaps exchange both students\' beds'
+  })
+  @ApiResponse({ status: 200, description: 'Request approved and bed switch recorded' })
+  @ApiResponse({ status: 400, description: 'Request not pending, no bed chosen or bed no longer available' })
+  async approveRequest(
+    @GetHostelId() hostelId: string,
+    @Param('id') id: string,
+    @Body() approveDto: ApproveRoomTransferRequestDto,
+    @CurrentUser() user: JwtPayload
+  ) {
+    const request = await this.roomTransfersService.approve(id, hostelId, approveDto, user?.id);
+
+    return {
+      status: HttpStatus.OK,
+      data: request
+    };
+  }
+
+  @Post(':id/reject')
+  @Permissions(Permission.ROOM_TRANSFER_APPROVE)
+  @ApiOperation({ summary: 'Reject an open request' })
+  @ApiResponse({ status: 200, description: 'Request rejected' })
+  async rejectRequest(
+    @GetHostelId() hostelId: string,
+    @Param('id') id: string,
+    @Body() rejectDto: RejectRoomTransferRequestDto,
+    @CurrentUser() user: JwtPayload
+  ) {
+    const request = await this.roomTransfersService.reject(id, hostelId, rejectDto, user?.id);
+
+    return {
+      status: HttpStatus.OK,
+      data: request
+    };
+  }
+}
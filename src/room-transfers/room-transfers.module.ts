@@ -0,0 +1,27 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { RoomTransfersController } from './room-transfers.controller';
+import { RoomTransfersService } from './services/room-transfers.service';
+import { RoomTransferRequest } from './entities/room-transfer-request.entity';
+import { Student } from '../students/entities/student.entity';
+import { Bed } from '../rooms/entities/bed.entity';
+import { AuthModule } from '../auth/auth.module';
+import { HostelModule } from '../hostel/hostel.module';
+import { StudentsModule } from '../students/students.module';
+import { StaffRolesModule } from '../staff-roles/staff-roles.module';
+import { NotificationModule } from '../notification/notification.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([RoomTransferRequest, Student, Bed]),
+    AuthModule,
+    HostelModule,
+    StudentsModule,
+    StaffRolesModule,
+    NotificationModule,
+  ],
+  controllers: [RoomTransfersController],
+  providers: [RoomTransfersService],
+  exports: [RoomTransfersService],
+})
+export class RoomTransfersModule {}
@@ -0,0 +1,179 @@
+import { BadRequestException } from '@nestjs/common';
+import { RoomTransfersService } from './room-transfers.service';
+import { RoomTransferStatus, RoomTransferType } from '../entities/room-transfer-request.entity';
+import { StudentStatus } from '../../students/entities/student.entity';
+import { BedStatus } from '../../rooms/entities/bed.entity';
+import { NotificationTemplateKey } from '../../notification/templates/default-notification-templates';
+
+describe('RoomTransfersService', () => {
+  let service: RoomTransfersService;
+  let requests: any[];
+
+  const students = {
+    'student-1': { id: 'student-1', userId: 'user-1', hostelId: 'hostel-1', name: 'Sita', status: StudentStatus.ACTIVE },
+    'student-2': { id: 'student-2', userId: 'user-2', hostelId: 'hostel-1', name: 'Gita', status: StudentStatus.ACTIVE }
+  };
+
+  const beds = {
+    'student-1': { id: 'bed-a', bedIdentifier: 'R101-B1', monthlyRate: 8000, currentOccupantId: 'student-1', room: { roomNumber: '101' } },
+    'student-2': { id: 'bed-b', bedIdentifier: 'R201-B1', monthlyRate: 9500, currentOccupantId: 'student-2', room: { roomNumber: '201' } }
+  };
+
+  const mockTransferRepository = {
+    findOne: jest.fn(async ({ where }) => requests.find(request =>
+      (!where.id || request.id === where.id) &&
+      (!where.studentId || request.studentId === where.studentId) &&
+      (!where.swapStudentId || request.swapStudentId === where.swapStudentId) &&
+      (!where.status || where.status._value?.includes(request.status))
+    ) || null),
+    create: jest.fn(data => ({ ...data })),
+    save: jest.fn(async request => {
+      const saved = { id: `request-${requests.length + 1}`, ...request };
+      requests.push(saved);
+      return saved;
+    }),
+    update: jest.fn(async (criteria, changes) => {
+      const id = typeof criteria === 'string' ? criteria : criteria.id;
+      const request = requests.find(candidate => candidate.id === id);
+      const expected = typeof criteria === 'string' ? undefined : criteria.status;
+      const statusMatches = !expected || (expected._value ? expected._value.includes(request.status) : expected === request.status);
+      if (!request || !statusMatches) {
+        return { affected: 0 };
+      }
+      Object.assign(request, changes);
+      return { affected: 1 };
+    }),
+  };
+
+  const mockStudentRepository = {
+    findOne: jest.fn(async ({ where }) =>
+      Object.values(students).find(student => (where.id ? student.id === where.id : student.userId === where.userId)) || null),
+  };
+
+  const mockBedRepository = {
+    findOne: jest.fn(async ({ where }) => beds[where.currentOccupantId] || null),
+    find: jest.fn(async () => Object.values(beds)),
+  };
+
+  const mockStudentsService = {
+    switchBed: jest.fn(),
+    swapBeds: jest.fn().mockResolvedValue({
+      bedSwaps: [
+        { auditId: 'audit-1', effectiveDate: '2025-11-03' },
+        { auditId: 'audit-2', effectiveDate: '2025-11-03' }
+      ]
+    }),
+  };
+
+  const mockNotificationService = {
+    sendTemplateToUser: jest.fn().mockResolvedValue(undefined),
+  };
+
+  const mockManager = {
+    save: jest.fn(request => mockTransferRepository.save(request)),
+    update: jest.fn((_entity, criteria, changes) => mockTransferRepository.update(criteria, changes)),
+  };
+
+  const mockDataSource = {
+    transaction: jest.fn(work => work(mockManager)),
+  };
+
+  beforeEach(() => {
+    service = new RoomTransfersService(
+      mockTransferRepository as any,
+      mockStudentRepository as any,
+      mockBedRepository as any,
+      mockStudentsService as any,
+      mockNotificationService as any,
+      mockDataSource as any
+    );
+
+    requests = [];
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should wait for the swap partner, then carry out the swap on approval', async () => {
+    const created = await service.createForUser('user-1', 'hostel-1', {
+      type: RoomTransferType.SWAP,
+      swapWithStudentId: 'student-2'
+    });
+
+    expect(created.status).toBe(RoomTransferStatus.AWAITING_PARTNER);
+    expect(created.priceDifference).toEqual(expect.objectContaining({ currentRate: 8000, minMonthlyDifference: 1500 }));
+    expect(mockNotificationService.sendTemplateToUser).toHaveBeenCalledWith(expect.objectContaining({
+      userId: 'user-2',
+      template: NotificationTemplateKey.ROOM_TRANSFER_SWAP_REQUESTED,
+      variables: expect.objectContaining({ bed: expect.any(String) })
+    }), undefined, undefined, mockManager);
+
+    await expect(service.approve(created.id, 'hostel-1', {}, 'admin-1')).rejects.toThrow(BadRequestException);
+
+    const accepted = await service.respondToSwap(created.id, 'user-2', 'hostel-1', true);
+    expect(accepted.status).toBe(RoomTransferStatus.PENDING);
+
+    const approved = await service.approve(created.id, 'hostel-1', {}, 'admin-1');
+
+    expect(mockStudentsService.swapBeds).toHaveBeenCalledWith('student-1', 'student-2', expect.objectContaining({ approvedBy: 'admin-1' }), 'hostel-1');
+    expect(approved).toEqual(expect.objectContaining({
+      status: RoomTransferStatus.APPROVED,
+      assignedBedId: 'bed-b',
+      bedSwitchAuditIds: ['audit-1', 'audit-2']
+    }));
+  });
+
+  it('should mark a declined swap as rejected', async () => {
+    const created = await service.createForUser('user-1', 'hostel-1', {
+      type: RoomTransferType.SWAP,
+      swapWithStudentId: 'student-2'
+    });
+
+    const declined = await service.respondToSwap(created.id, 'user-2', 'hostel-1', false, { reason: 'I like my room' });
+
+    expect(declined.status).toBe(RoomTransferStatus.REJECTED);
+    expect(declined.rejectionReason).toBe('Declined by Gita: I like my room');
+  });
+
+  it('should put the request back to pending when the bed switch fails', async () => {
+    requests = [{
+      id: 'request-1',
+      hostelId: 'hostel-1',
+      studentId: 'student-1',
+      type: RoomTransferType.MOVE,
+      status: RoomTransferStatus.PENDING,
+      currentBedId: 'bed-a',
+      currentRate: 8000,
+      preferredBedId: 'bed-c'
+    }];
+    mockStudentsService.switchBed.mockRejectedValueOnce(
+      new BadRequestException(`Bed switch failed: Target bed is not available (status: ${BedStatus.OCCUPIED})`)
+    );
+
+    await expect(service.approve('request-1', 'hostel-1', {}, 'admin-1')).rejects.toThrow('Target bed is not available');
+
+    expect(mockStudentsService.switchBed).toHaveBeenCalledWith('student-1', expect.objectContaining({ newBedId: 'bed-c' }), 'hostel-1');
+    expect(requests[0]).toEqual(expect.objectContaining({ status: RoomTransferStatus.PENDING, reviewedBy: null }));
+  });
+
+  it('should refuse to approve at rates other than the ones previewed', async () => {
+    requests = [{
+      id: 'request-1',
+      hostelId: 'hostel-1',
+      studentId: 'student-1',
+      type: RoomTransferType.MOVE,
+      status: RoomTransferStatus.PENDING,
+      currentBedId: 'bed-a',
+      currentRate: 8000,
+      preferredBedId: 'bed-b',
+      minNewRate: 9000,
+      maxNewRate: 9000
+    }];
+
+    await expect(service.approve('request-1', 'hostel-1', {}, 'admin-1')).rejects.toThrow('Bed rates changed');
+
+    expect(mockStudentsService.switchBed).not.toHaveBeenCalled();
+    expect(requests[0].status).toBe(RoomTransferStatus.PENDING);
+  });
+});
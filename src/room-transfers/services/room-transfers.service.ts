@@ -0,0 +1,546 @@
+import { Injectable, Logger, BadRequestException, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Brackets, DataSource, EntityManager, In, Repository } from 'typeorm';
+import { RoomTransferRequest, RoomTransferStatus, RoomTransferType } from '../entities/room-transfer-request.entity';
+import { Student, StudentStatus } from '../../students/entities/student.entity';
+import { Bed, BedStatus } from '../../rooms/entities/bed.entity';
+import { StudentsService } from '../../students/students.service';
+import { UnifiedNotificationService } from '../../notification/unified-notification.service';
+import { NotificationTemplateKey } from '../../notification/templates/default-notification-templates';
+import {
+  CreateRoomTransferRequestDto,
+  TransferPreferencesDto,
+  ApproveRoomTransferRequestDto,
+  RejectRoomTransferRequestDto,
+  RespondToSwapDto,
+  RoomTransferFilterDto
+} from '../dto';
+
+const OPEN_STATUSES = [RoomTransferStatus.AWAITING_PARTNER, RoomTransferStatus.PENDING];
+const MAX_PREVIEW_OPTIONS = 20;
+
+/**
+ * Room Transfers Service
+ * Students ask to move from the app instead of going through the admin-only
+ * bed switch. A swap is only shown to the hostel once the other student has
+ * agreed; approval then runs StudentsService.switchBed (or swapBeds), so rate
+ * changes, ledger adjustments and BedSwitchAudit rows work exactly as for a
+ * switch made by the admin.
+ *
+ * Every notification is queued in the transaction of the change it reports.
+ */
+@Injectable()
+export class RoomTransfersService {
+  private readonly logger = new Logger(RoomTransfersService.name);
+
+  constructor(
+    @InjectRepository(RoomTransferRequest)
+    private transferRepository: Repository<RoomTransferRequest>,
+    @InjectRepository(Student)
+    private studentRepository: Repository<Student>,
+    @InjectRepository(Bed)
+    private bedRepository: Repository<Bed>,
+    private studentsService: StudentsService,
+    private unifiedNotificationService: UnifiedNotificationService,
+    private dataSource: DataSource,
+  ) {}
+
+  /**
+   * Price difference preview for the beds a request could end up in
+   */
+  async previewForUser(userId: string, hostelId: string, preferences: TransferPreferencesDto) {
+    const student = await this.getStudentForUser(userId, hostelId);
+    const currentBed = await this.getCurrentBed(student);
+
+    return this.buildPreview(hostelId, student, currentBed, preferences);
+  }
+
+  async createForUser(userId: string, hostelId: string, createDto: CreateRoomTransferRequestDto) {
+    const student = await this.getStudentForUser(userId, hostelId);
+    const currentBed = await this.getCurrentBed(student);
+
+    if (createDto.type === RoomTransferType.SWAP && !createDto.swapWithStudentId) {
+      throw new BadRequestException('swapWithStudentId is required for a swap request');
+    }
+    if (createDto.type === RoomTransferType.MOVE && createDto.swapWithStudentId) {
+      throw new BadRequestException('swapWithStudentId is only allowed on swap requests');
+    }
+
+    const openRequest = await this.transferRepository.findOne({
+      where: { studentId: student.id, status: In(OPEN_STATUSES) }
+    });
+    if (openRequest) {
+      throw new BadRequestException('You already have an open room transfer request');
+    }
+
+    const preview = await this.buildPreview(hostelId, student, currentBed, createDto);
+
+    const request = this.transferRepository.create({
+      hostelId,
+      studentId: student.id,
+      type: createDto.type,
+      status: createDto.type === RoomTransferType.SWAP ? RoomTransferStatus.AWAITING_PARTNER : RoomTransferStatus.PENDING,
+      currentBedId: currentBed.id,
+      currentRate: preview.currentBed.rate,
+      preferredRoomId: createDto.preferredRoomId,
+      preferredFloor: createDto.preferredFloor,
+      preferredBedId: createDto.preferredBedId,
+      swapStudentId: createDto.swapWithStudentId,
+      swapBedId: preview.swapPartner?.bedId,
+      minNewRate: preview.minNewRate,
+      maxNewRate: preview.maxNewRate,
+      reason: createDto.reason
+    });
+
+    const saved = await this.dataSource.transaction(async manager => {
+      const created = await manager.save(request);
+      if (created.type === RoomTransferType.SWAP) {
+        await this.notifyStudent(created.swapStudentId, created, NotificationTemplateKey.ROOM_TRANSFER_SWAP_REQUESTED, {
+          studentName: student.name,
+          bed: currentBed.bedIdentifier
+        }, manager);
+      }
+      return created;
+    });
+    this.logger.log(`🔁 ${student.name} requested a room ${saved.type} (${saved.id})`);
+
+    return this.findOne(saved.id, hostelId);
+  }
+
+  /**
+   * Requests the user made, and swaps other students asked them to agree to
+   */
+  async getUserRequests(userId: string, hostelId: string) {
+    const student = await this.getStudentForUser(userId, hostelId);
+
+    const requests = await this.transferRepository.find({
+      where: [
+        { hostelId, studentId: student.id },
+        { hostelId, swapStudentId: student.id }
+      ],
+      relations: ['student', 'swapStudent'],
+      order: { createdAt: 'DESC' }
+    });
+
+    return requests.map(request => this.transformToApiResponse(request));
+  }
+
+  async respondToSwap(id: string, userId: string, hostelId: string, accept: boolean, respondDto: RespondToSwapDto = {}) {
+    const student = await this.getStudentForUser(userId, hostelId);
+    const request = await this.transferRepository.findOne({ where: { id, hostelId, swapStudentId: student.id } });
+    if (!request) {
+      throw new NotFoundException(`Room transfer request with ID ${id} not found`);
+    }
+
+    const update = accept
+      ? { status: RoomTransferStatus.PENDING, partnerRespondedAt: new Date() }
+      : {
+        status: RoomTransferStatus.REJECTED,
+        partnerRespondedAt: new Date(),
+        rejectionReason: `Declined by ${student.name}${respondDto.reason ? `: ${respondDto.reason}` : ''}`
+      };
+
+    await this.dataSource.transaction(async manager => {
+      const claimed = await manager.update(RoomTransferRequest,
+        { id: request.id, status: RoomTransferStatus.AWAITING_PARTNER },
+        update
+      );
+      if (!claimed.affected) {
+        throw new BadRequestException(`This swap is no longer waiting for your answer (status: ${request.status})`);
+      }
+
+      await this.notifyStudent(request.studentId, request,
+        accept ? NotificationTemplateKey.ROOM_TRANSFER_SWAP_ACCEPTED : NotificationTemplateKey.ROOM_TRANSFER_SWAP_DECLINED,
+        { studentName: student.name }, manager);
+    });
+
+    this.logger.log(`🔁 ${student.name} ${accept ? 'accepted' : 'declined'} swap request ${request.id}`);
+
+    return this.findOne(request.id, hostelId);
+  }
+
+  async cancelForUser(id: string, userId: string, hostelId: string) {
+    const student = await this.getStudentForUser(userId, hostelId);
+    const request = await this.transferRepository.findOne({ where: { id, hostelId, studentId: student.id } });
+    if (!request) {
+      throw new NotFoundException(`Room transfer request with ID ${id} not found`);
+    }
+
+    const claimed = await this.transferRepository.update(
+      { id: request.id, status: In(OPEN_STATUSES) },
+      { status: RoomTransferStatus.CANCELLED }
+    );
+    if (!claimed.affected) {
+      throw new BadRequestException(`Only open requests can be cancelled (status: ${request.status})`);
+    }
+
+    return this.findOne(request.id, hostelId);
+  }
+
+  async findAll(hostelId: string, filters: RoomTransferFilterDto) {
+    if (!hostelId) {
+      throw new BadRequestException('Hostel context required');
+    }
+
+    const { page = 1, limit = 10, status, type, studentId } = filters;
+
+    const queryBuilder = this.transferRepository.createQueryBuilder('request')
+      .leftJoinAndSelect('request.student', 'student')
+      .leftJoinAndSelect('request.swapStudent', 'swapStudent')
+      .where('request.hostelId = :hostelId', { hostelId });
+
+    if (status) {
+      queryBuilder.andWhere('request.status = :status', { status });
+    }
+
+    if (type) {
+      queryBuilder.andWhere('request.type = :type', { type });
+    }
+
+    if (studentId) {
+      queryBuilder.andWhere(new Brackets(qb => {
+        qb.where('request.studentId = :studentId', { studentId })
+          .orWhere('request.swapStudentId = :studentId', { studentId });
+      }));
+    }
+
+    const [requests, total] = await queryBuilder
+      .orderBy('request.createdAt', 'DESC')
+      .skip((page - 1) * limit)
+      .take(limit)
+      .getManyAndCount();
+
+    return {
+      items: requests.map(request => this.transformToApiResponse(request)),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit)
+      }
+    };
+  }
+
+  async findOne(id: string, hostelId: string) {
+    const request = await this.getRequest(id, hostelId);
+    return this.transformToApiResponse(request);
+  }
+
+  /**
+   * Carry out a pending request. The request is claimed first so two admins
+   * cannot run the same switch; it goes back to pending if the switch fails.
+   */
+  async approve(id: string, hostelId: string, approveDto: ApproveRoomTransferRequestDto, reviewedBy?: string) {
+    const request = await this.getRequest(id, hostelId);
+
+    if (request.status !== RoomTransferStatus.PENDING) {
+      throw new BadRequestException(`Only pending requests can be approved (status: ${request.status})`);
+    }
+
+    const targetBedId = approveDto.bedId || request.preferredBedId;
+    if (request.type === RoomTransferType.MOVE && !targetBedId) {
+      throw new BadRequestException('Choose the bed to move the student to');
+    }
+
+    await this.assertRatesUnchanged(request, request.type === RoomTransferType.SWAP ? request.swapBedId : targetBedId);
+
+    const claimed = await this.transferRepository.update(
+      { id: request.id, status: RoomTransferStatus.PENDING },
+      { status: RoomTransferStatus.APPROVED, reviewedBy, reviewedAt: new Date() }
+    );
+    if (!claimed.affected) {
+      throw new BadRequestException('Request is already being processed');
+    }
+
+    const switchDetails = {
+      effectiveDate: approveDto.effectiveDate,
+      reason: `Room transfer request${request.reason ? `: ${request.reason}` : ''}`,
+      approvedBy: reviewedBy
+    };
+
+    let assignedBedId: string;
+    let auditIds: string[];
+    let effectiveDate: string;
+
+    try {
+      if (request.type === RoomTransferType.SWAP) {
+        await this.assertSwapUnchanged(request);
+        const result = await this.studentsService.swapBeds(request.studentId, request.swapStudentId, switchDetails, hostelId);
+        assignedBedId = request.swapBedId;
+        auditIds = result.bedSwaps.map(swap => swap.auditId);
+        effectiveDate = result.bedSwaps[0].effectiveDate;
+      } else {
+        const result = await this.studentsService.switchBed(request.studentId, { ...switchDetails, newBedId: targetBedId }, hostelId);
+        assignedBedId = targetBedId;
+        auditIds = [result.bedSwitch.auditId];
+        effectiveDate = result.bedSwitch.effectiveDate;
+      }
+    } catch (error) {
+      await this.transferRepository.update(
+        { id: request.id, status: RoomTransferStatus.APPROVED },
+        { status: RoomTransferStatus.PENDING, reviewedBy: null, reviewedAt: null }
+      );
+      throw error;
+    }
+
+    await this.dataSource.transaction(async manager => {
+      await manager.update(RoomTransferRequest, request.id, {
+        assignedBedId,
+        effectiveDate: new Date(effectiveDate),
+        bedSwitchAuditIds: auditIds
+      });
+
+      await this.notifyStudent(request.studentId, request, NotificationTemplateKey.ROOM_TRANSFER_APPROVED, { effectiveDate }, manager);
+      if (request.swapStudentId) {
+        await this.notifyStudent(request.swapStudentId, request, NotificationTemplateKey.ROOM_TRANSFER_SWAP_APPROVED, { effectiveDate }, manager);
+      }
+    });
+
+    this.logger.log(`✅ Room transfer request ${request.id} approved by ${reviewedBy || 'admin'}`);
+
+    return this.findOne(request.id, hostelId);
+  }
+
+  async reject(id: string, hostelId: string, rejectDto: RejectRoomTransferRequestDto, reviewedBy?: string) {
+    const request = await this.getRequest(id, hostelId);
+
+    await this.dataSource.transaction(async manager => {
+      const claimed = await manager.update(RoomTransferRequest,
+        { id: request.id, status: In(OPEN_STATUSES) },
+        { status: RoomTransferStatus.REJECTED, rejectionReason: rejectDto.reason, reviewedBy, reviewedAt: new Date() }
+      );
+      if (!claimed.affected) {
+        throw new BadRequestException(`Only open requests can be rejected (status: ${request.status})`);
+      }
+
+      await this.notifyStudent(request.studentId, request, NotificationTemplateKey.ROOM_TRANSFER_REJECTED, { reason: rejectDto.reason }, manager);
+    });
+
+    return this.findOne(request.id, hostelId);
+  }
+
+  private async buildPreview(hostelId: string, student: Student, currentBed: Bed, preferences: TransferPreferencesDto) {
+    const currentRate = Number(currentBed.monthlyRate || 0);
+    let options: Bed[];
+    let swapPartner: { studentId: string; name: string; bedId: string } | undefined;
+
+    if (preferences.swapWithStudentId) {
+      const partner = await this.studentRepository.findOne({ where: { id: preferences.swapWithStudentId, hostelId } });
+      if (!partner || partner.status !== StudentStatus.ACTIVE) {
+        throw new BadRequestException('Swap partner must be an active student of this hostel');
+      }
+      if (partner.id === student.id) {
+        throw new BadRequestException('You cannot swap beds with yourself');
+      }
+
+      const partnerBed = await this.getCurrentBed(partner);
+      swapPartner = { studentId: partner.id, name: partner.name, bedId: partnerBed.id };
+      options = [partnerBed];
+    } else if (preferences.preferredBedId) {
+      const bed = await this.bedRepository.findOne({
+        where: { id: preferences.preferredBedId, hostelId },
+        relations: ['room']
+      });
+      if (!bed) {
+        throw new NotFoundException(`Bed with ID ${preferences.preferredBedId} not found`);
+      }
+      if (bed.status !== BedStatus.AVAILABLE) {
+        throw new BadRequestException(`Bed ${bed.bedIdentifier} is not available (status: ${bed.status})`);
+      }
+      options = [bed];
+    } else {
+      const queryBuilder = this.bedRepository.createQueryBuilder('bed')
+        .leftJoinAndSelect('bed.room', 'room')
+        .where('bed.hostelId = :hostelId', { hostelId })
+        .andWhere('bed.status = :status', { status: BedStatus.AVAILABLE })
+        .andWhere('bed.id != :currentBedId', { currentBedId: currentBed.id });
+
+      if (preferences.preferredRoomId) {
+        queryBuilder.andWhere('bed.roomId = :roomId', { roomId: preferences.preferredRoomId });
+      }
+
+      if (preferences.preferredFloor !== undefined && preferences.preferredFloor !== null) {
+        queryBuilder.andWhere('room.floor = :floor', { floor: preferences.preferredFloor });
+      }
+
+      options = await queryBuilder
+        .orderBy('bed.monthlyRate', 'ASC')
+        .addOrderBy('bed.bedIdentifier', 'ASC')
+        .take(MAX_PREVIEW_OPTIONS)
+        .getMany();
+    }
+
+    const rates = options.map(bed => Number(bed.monthlyRate || 0));
+    const minNewRate = rates.length > 0 ? Math.min(...rates) : null;
+    const maxNewRate = rates.length > 0 ? Math.max(...rates) : null;
+
+    return {
+      currentBed: {
+        id: currentBed.id,
+        bedIdentifier: currentBed.bedIdentifier,
+        roomNumber: currentBed.room?.roomNumber,
+        rate: currentRate
+      },
+      swapPartner,
+      options: options.map(bed => ({
+        bedId: bed.id,
+        bedIdentifier: bed.bedIdentifier,
+        roomId: bed.roomId,
+        roomNumber: bed.room?.roomNumber,
+        floor: bed.room?.floor,
+        rate: Number(bed.monthlyRate || 0),
+        monthlyDifference: roundAmount(Number(bed.monthlyRate || 0) - currentRate)
+      })),
+      minNewRate,
+      maxNewRate,
+      priceDifference: buildPriceDifference(currentRate, minNewRate, maxNewRate)
+    };
+  }
+
+  /**
+   * Both students must still be in the beds the swap was agreed on
+   */
+  private async assertSwapUnchanged(request: RoomTransferRequest) {
+    const beds = await this.bedRepository.find({
+      where: { currentOccupantId: In([request.studentId, request.swapStudentId]) }
+    });
+    const bedOf = (studentId: string) => beds.find(bed => bed.currentOccupantId === studentId)?.id;
+
+    if (bedOf(request.studentId) !== request.currentBedId || bedOf(request.swapStudentId) !== request.swapBedId) {
+      throw new BadRequestException('Bed assignments changed since the swap was agreed; ask the students to request it again');
+    }
+  }
+
+  /**
+   * The student saw a price difference when asking; approving at other rates
+   * would bill them something they did not agree to
+   */
+  private async assertRatesUnchanged(request: RoomTransferRequest, targetBedId: string) {
+    const beds = await this.bedRepository.find({ where: { id: In([request.currentBedId, targetBedId]) } });
+    const rateOf = (bedId: string) => Number(beds.find(bed => bed.id === bedId)?.monthlyRate || 0);
+
+    const newRate = rateOf(targetBedId);
+    const previewedNewRate = request.minNewRate === null || request.minNewRate === undefined
+      || (newRate >= Number(request.minNewRate) && newRate <= Number(request.maxNewRate));
+
+    if (rateOf(request.currentBedId) !== Number(request.currentRate) || !previewedNewRate) {
+      throw new BadRequestException('Bed rates changed since the request was made; ask the student to request it again');
+    }
+  }
+
+  private async getStudentForUser(userId: string, hostelId: string): Promise<Student> {
+    if (!hostelId) {
+      throw new BadRequestException('Hostel context required');
+    }
+
+    const student = await this.studentRepository.findOne({ where: { userId, hostelId } });
+    if (!student) {
+      throw new NotFoundException(`No student record found for user ${userId}`);
+    }
+    if (student.status !== StudentStatus.ACTIVE) {
+      throw new BadRequestException('Only active students can request a room transfer');
+    }
+
+    return student;
+  }
+
+  private async getCurrentBed(student: Student): Promise<Bed> {
+    const bed = await this.bedRepository.findOne({
+      where: { currentOccupantId: student.id },
+      relations: ['room']
+    });
+    if (!bed) {
+      throw new BadRequestException(`${student.name} has no bed assigned`);
+    }
+
+    return bed;
+  }
+
+  private async getRequest(id: string, hostelId: string): Promise<RoomTransferRequest> {
+    if (!hostelId) {
+      throw new BadRequestException('Hostel context required');
+    }
+
+    const request = await this.transferRepository.findOne({
+      where: { id, hostelId },
+      relations: ['student', 'swapStudent']
+    });
+    if (!request) {
+      throw new NotFoundException(`Room transfer request with ID ${id} not found`);
+    }
+
+    return request;
+  }
+
+  private async notifyStudent(
+    studentId: string,
+    request: RoomTransferRequest,
+    template: NotificationTemplateKey,
+    variables: Record<string, string | number>,
+    manager: EntityManager
+  ) {
+    const student = await this.studentRepository.findOne({ where: { id: studentId } });
+    if (!student?.userId) {
+      return;
+    }
+
+    await this.unifiedNotificationService.sendTemplateToUser({
+      userId: student.userId,
+      hostelId: request.hostelId,
+      template,
+      variables,
+      metadata: {
+        source: 'room_transfer',
+        requestId: request.id,
+        type: request.type,
+        studentId
+      }
+    }, undefined, undefined, manager);
+  }
+
+  private transformToApiResponse(request: RoomTransferRequest) {
+    const currentRate = Number(request.currentRate || 0);
+    const minNewRate = request.minNewRate !== null && request.minNewRate !== undefined ? Number(request.minNewRate) : null;
+    const maxNewRate = request.maxNewRate !== null && request.maxNewRate !== undefined ? Number(request.maxNewRate) : null;
+
+    return {
+      id: request.id,
+      type: request.type,
+      status: request.status,
+      studentId: request.studentId,
+      studentName: request.student?.name,
+      currentBedId: request.currentBedId,
+      preferredRoomId: request.preferredRoomId,
+      preferredFloor: request.preferredFloor,
+      preferredBedId: request.preferredBedId,
+      swapStudentId: request.swapStudentId,
+      swapStudentName: request.swapStudent?.name,
+      swapBedId: request.swapBedId,
+      partnerRespondedAt: request.partnerRespondedAt,
+      reason: request.reason,
+      priceDifference: buildPriceDifference(currentRate, minNewRate, maxNewRate),
+      reviewedBy: request.reviewedBy,
+      reviewedAt: request.reviewedAt,
+      rejectionReason: request.rejectionReason,
+      assignedBedId: request.assignedBedId,
+      effectiveDate: request.effectiveDate,
+      bedSwitchAuditIds: request.bedSwitchAuditIds || [],
+      createdAt: request.createdAt,
+      updatedAt: request.updatedAt
+    };
+  }
+}
+
+function buildPriceDifference(currentRate: number, minNewRate: number | null, maxNewRate: number | null) {
+  return {
+    currentRate,
+    minNewRate,
+    maxNewRate,
+    minMonthlyDifference: minNewRate !== null ? roundAmount(minNewRate - currentRate) : null,
+    maxMonthlyDifference: maxNewRate !== null ? roundAmount(maxNewRate - currentRate) : null
+  };
+}
+
+function roundAmount(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
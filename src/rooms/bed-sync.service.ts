@@ -4,6 +4,7 @@ import { Repository } from 'typeorm';
 import { Bed, BedStatus } from './entities/bed.entity';
 import { Room } from './entities/room.entity';
 import { RoomLayout } from './entities/room-layout.entity';
+import { DomainEventsService } from '../events/domain-events.service';
 
 export interface BedPosition {
   id: string; // bed1, bed2, etc.
@@ -47,6 +48,7 @@ export class BedSyncService {
     private roomRepository: Repository<Room>,
     @InjectRepository(RoomLayout)
     private roomLayoutRepository: Repository<RoomLayout>,
+    private domainEventsService: DomainEventsService,
   ) { }
 
   /**
@@ -771,6 +773,7 @@ export class BedSyncService {
 
         // Update bed status
         await this.bedRepository.update(bed.id, updateData);
+        this.domainEventsService.publishBedStatus({ ...bed, status: newStatus });
 
         // Log the status change with color information
         const oldColor = this.getBedStatusColor(oldStatus);
@@ -852,6 +855,7 @@ export class BedSyncService {
           occupiedSince: new Date(),
           notes: `Occupied by ${assignment.guestName} via booking confirmation ${bookingId}`
         });
+        this.domainEventsService.publishBedStatus({ ...bed, status: BedStatus.OCCUPIED });
 
         // Log the confirmation with color change
         const occupiedColor = this.getBedStatusColor(BedStatus.OCCUPIED);
@@ -899,6 +903,7 @@ export class BedSyncService {
           occupiedSince: null,
           notes: `Released due to booking cancellation: ${reason}`
         });
+        this.domainEventsService.publishBedStatus({ ...bed, status: BedStatus.AVAILABLE });
 
         // Log the cancellation with color change
         const availableColor = this.getBedStatusColor(BedStatus.AVAILABLE);
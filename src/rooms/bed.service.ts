@@ -5,6 +5,8 @@ import { Bed, BedStatus } from './entities/bed.entity';
 import { Room } from './entities/room.entity';
 import { BedSyncService } from './bed-sync.service';
 import { Hostel } from '../hostel/entities/hostel.entity';
+import { WaitlistService } from '../waitlist/services/waitlist.service';
+import { DomainEventsService } from '../events/domain-events.service';
 
 export interface CreateBedDto {
   roomId: string;
@@ -58,6 +60,8 @@ export class BedService {
     @InjectRepository(Hostel)
     private hostelRepository: Repository<Hostel>,
     private bedSyncService: BedSyncService,
+    private waitlistService: WaitlistService,
+    private domainEventsService: DomainEventsService,
   ) { }
 
   /**
@@ -193,13 +197,17 @@ export class BedService {
       const bed = await this.findOne(id);
 
       // Validate status change
-      if (updateBedDto.status && updateBedDto.status !== bed.status) {
+      const statusChanged = updateBedDto.status && updateBedDto.status !== bed.status;
+      if (statusChanged) {
         await this.validateStatusChange(bed, updateBedDto.status);
       }
 
       // Update bed entity
       Object.assign(bed, updateBedDto);
       const updatedBed = await this.bedRepository.save(bed);
+      if (statusChanged) {
+        this.domainEventsService.publishBedStatus(updatedBed);
+      }
 
       this.logger.log(`✅ Updated bed ${updatedBed.bedIdentifier}`);
       return updatedBed;
@@ -315,6 +323,7 @@ export class BedService {
       bed.occupiedSince = assignDto.checkInDate || new Date();
 
       const updatedBed = await this.bedRepository.save(bed);
+      this.domainEventsService.publishBedStatus(updatedBed);
 
       // Trigger sync with bedPositions
       await this.syncBedStatusToPositions([updatedBed.roomId]);
@@ -349,6 +358,7 @@ export class BedService {
       bed.occupiedSince = assignDto.checkInDate || new Date();
 
       const updatedBed = await this.bedRepository.save(bed);
+      this.domainEventsService.publishBedStatus(updatedBed);
 
       // Trigger sync with bedPositions
       await this.syncBedStatusToPositions([updatedBed.roomId]);
@@ -383,12 +393,15 @@ export class BedService {
       bed.occupiedSince = null;
 
       const updatedBed = await this.bedRepository.save(bed);
+      this.domainEventsService.publishBedStatus(updatedBed);
 
       // Trigger sync with bedPositions
       await this.syncBedStatusToPositions([updatedBed.roomId]);
 
       this.logger.log(`✅ Released occupant from bed ${updatedBed.bedIdentifier}`);
 
+      await this.offerToWaitlist(updatedBed);
+
       return updatedBed;
     } catch (error) {
       this.logger.error(`❌ Error releasing occupant from bed ${bedId}:`, error);
@@ -417,6 +430,7 @@ export class BedService {
       }
 
       const updatedBed = await this.bedRepository.save(bed);
+      this.domainEventsService.publishBedStatus(updatedBed);
 
       // Trigger sync with bedPositions
       await this.syncBedStatusToPositions([updatedBed.roomId]);
@@ -448,12 +462,15 @@ export class BedService {
       bed.status = BedStatus.AVAILABLE;
 
       const updatedBed = await this.bedRepository.save(bed);
+      this.domainEventsService.publishBedStatus(updatedBed);
 
       // Trigger sync with bedPositions
       await this.syncBedStatusToPositions([updatedBed.roomId]);
 
       this.logger.log(`✅ Cancelled reservation for bed ${updatedBed.bedIdentifier}`);
 
+      await this.offerToWaitlist(updatedBed);
+
       return updatedBed;
     } catch (error) {
       this.logger.error(`❌ Error cancelling reservation for bed ${bedId}:`, error);
@@ -487,6 +504,7 @@ export class BedService {
       }
 
       const updatedBed = await this.bedRepository.save(bed);
+      this.domainEventsService.publishBedStatus(updatedBed);
       this.logger.log(`✅ Updated bed ${updatedBed.bedIdentifier} status to ${newStatus}`);
 
       return updatedBed;
@@ -913,6 +931,18 @@ export class BedService {
     }
   }
 
+  /**
+   * Offer a bed that just became available to the hostel's waitlist.
+   * A waitlist failure must not undo the release itself.
+   */
+  private async offerToWaitlist(bed: Bed): Promise<void> {
+    try {
+      await this.waitlistService.handleBedFreed(bed);
+    } catch (error) {
+      this.logger.warn(`⚠️ Could not offer bed ${bed.bedIdentifier} to the waitlist: ${error.message}`);
+    }
+  }
+
   /**
    * Trigger sync of bed status to bedPositions for specified rooms
    * This ensures bedPositions reflect current bed entity status
@@ -18,10 +18,13 @@ import { RoomsService } from './rooms.service';
 import { GetHostelId } from '../hostel/decorators/hostel-context.decorator';
 import { HostelAuthWithContextGuard } from '../auth/guards/hostel-auth-with-context.guard';
 import { UpdateRoomDto } from './dto/update-room.dto';
+import { Audited } from '../audit/decorators/audited.decorator';
+import { Room } from './entities/room.entity';
 
 @ApiTags('room-updates')
 @Controller('rooms')
 @UseGuards(HostelAuthWithContextGuard)
+@Audited({ entity: Room })
 @ApiBearerAuth()
 export class RoomUpdateController {
   constructor(private readonly roomsService: RoomsService) {
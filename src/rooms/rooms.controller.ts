@@ -4,17 +4,20 @@ import { RoomsService } from './rooms.service';
 import { BedService } from './bed.service';
 import { BedSyncService } from './bed-sync.service';
 import { CreateRoomDto, UpdateRoomDto, AssignStudentDto, VacateStudentDto, MaintenanceDto } from './dto';
-import { BedStatus } from './entities/bed.entity';
+import { Bed, BedStatus } from './entities/bed.entity';
+import { Room } from './entities/room.entity';
 import { GetHostelId } from '../hostel/decorators/hostel-context.decorator';
 import { HostelAuthWithContextGuard } from '../auth/guards/hostel-auth-with-context.guard';
 import { CurrentUser } from '../auth/decorators/current-user.decorator';
 import { JwtPayload } from '../auth/interfaces/jwt-payload.interface';
 import { HostelService } from '../hostel/hostel.service';
 import { Public } from '../auth/decorators/public.decorator';
+import { Audited, SkipAudit } from '../audit/decorators/audited.decorator';
 
 @ApiTags('rooms')
 @Controller('rooms')
 @UseGuards(HostelAuthWithContextGuard)
+@Audited({ entity: Room })
 @ApiBearerAuth()
 export class RoomsController {
   constructor(
@@ -148,7 +151,7 @@ async getBedsWithHostels() {
     console.log('🖼️ CONTROLLER DEBUG - DTO images length:', createRoomDto.images?.length || 0);
 
     // Get hostel ID from the authenticated user's businessId
-    const hostel = await this.hostelService.ensureHostelExists(user.businessId);
+    const hostel = await this.hostelService.ensureHostelExists(user.businessId, undefined, user.id);
 
     console.log('🏨 Using hostel:', hostel.name, 'ID:', hostel.id);
 
@@ -277,6 +280,7 @@ async getBedsWithHostels() {
   }
 
   @Post('beds/validate-availability')
+  @SkipAudit()
   @UseGuards(HostelAuthWithContextGuard)
   @ApiBearerAuth()
   @ApiOperation({ summary: 'Validate multiple bed availability' })
@@ -338,6 +342,7 @@ async getBedsWithHostels() {
   }
 
   @Put('beds/:bedId/status')
+  @Audited({ entity: Bed, idParam: 'bedId' })
   @UseGuards(HostelAuthWithContextGuard)
   @ApiBearerAuth()
   @ApiOperation({ summary: 'Update bed status' })
@@ -355,6 +360,7 @@ async getBedsWithHostels() {
   }
 
   @Post('beds/:bedId/assign')
+  @Audited({ entity: Bed, idParam: 'bedId' })
   @UseGuards(HostelAuthWithContextGuard)
   @ApiBearerAuth()
   @ApiOperation({ summary: 'Assign occupant to bed' })
@@ -376,6 +382,7 @@ async getBedsWithHostels() {
   }
 
   @Post('beds/:bedId/release')
+  @Audited({ entity: Bed, idParam: 'bedId' })
   @UseGuards(HostelAuthWithContextGuard)
   @ApiBearerAuth()
   @ApiOperation({ summary: 'Release occupant from bed' })
@@ -390,6 +397,7 @@ async getBedsWithHostels() {
   }
 
   @Post('beds/:bedId/reserve')
+  @Audited({ entity: Bed, idParam: 'bedId' })
   @UseGuards(HostelAuthWithContextGuard)
   @ApiBearerAuth()
   @ApiOperation({ summary: 'Reserve bed' })
@@ -407,6 +415,7 @@ async getBedsWithHostels() {
   }
 
   @Post('beds/:bedId/cancel-reservation')
+  @Audited({ entity: Bed, idParam: 'bedId' })
   @UseGuards(HostelAuthWithContextGuard)
   @ApiBearerAuth()
   @ApiOperation({ summary: 'Cancel bed reservation' })
@@ -433,6 +442,7 @@ async getBedsWithHostels() {
   }
 
   @Post(':roomId/beds/sync')
+  @Audited({ entity: Room, idParam: 'roomId' })
   @UseGuards(HostelAuthWithContextGuard)
   @ApiBearerAuth()
   @ApiOperation({ summary: 'Sync bed entities from bedPositions' })
@@ -1,4 +1,4 @@
-import { Module } from '@nestjs/common';
+import { Module, forwardRef } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { RoomsController } from './rooms.controller';
 import { RoomsService } from './rooms.service';
@@ -21,6 +21,8 @@ import { Bed } from './entities/bed.entity';
 import { Hostel } from '../hostel/entities/hostel.entity';
 import { HostelModule } from '../hostel/hostel.module';
 import { AuthModule } from '../auth/auth.module';
+import { WaitlistModule } from '../waitlist/waitlist.module';
+import { EventsModule } from '../events/events.module';
 
 @Module({
   imports: [
@@ -38,6 +40,8 @@ import { AuthModule } from '../auth/auth.module';
     ]),
     HostelModule,
     AuthModule,
+    forwardRef(() => WaitlistModule),
+    EventsModule,
   ],
   controllers: [RoomsController, RoomsNewController, RoomsOptimizedController, RoomUpdateController],
   providers: [RoomsService, RoomsNewService, RoomsOptimizedService, BedSyncService, BedService],
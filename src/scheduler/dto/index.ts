@@ -0,0 +1,3 @@
+export { UpdateScheduledJobDto } from './update-scheduled-job.dto';
+export { RunScheduledJobDto } from './run-scheduled-job.dto';
+export { ScheduledJobRunFilterDto } from './scheduled-job-run-filter.dto';
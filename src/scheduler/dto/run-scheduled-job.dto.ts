@@ -0,0 +1,29 @@
+import { IsDateString, IsInt, IsOptional, Max, Min } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+
+export class RunScheduledJobDto {
+  @ApiPropertyOptional({
+    description: 'Billing month (1-12) in the hostel calendar (AD or BS). Monthly billing only, defaults to the current month',
+    example: 1,
+    minimum: 1,
+    maximum: 12
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(12)
+  month?: number;
+
+  @ApiPropertyOptional({ description: 'Billing year. Monthly billing only', example: 2025 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  year?: number;
+
+  @ApiPropertyOptional({ description: 'Due date for generated invoices. Monthly billing only', example: '2025-01-10' })
+  @IsOptional()
+  @IsDateString()
+  dueDate?: string;
+}
@@ -0,0 +1,17 @@
+import { IsEnum, IsOptional } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { PaginationDto } from '../../common/dto/pagination.dto';
+import { ScheduledJobType } from '../entities/scheduled-job.entity';
+import { ScheduledJobRunStatus } from '../entities/scheduled-job-run.entity';
+
+export class ScheduledJobRunFilterDto extends PaginationDto {
+  @ApiPropertyOptional({ description: 'Filter by job type', enum: ScheduledJobType })
+  @IsOptional()
+  @IsEnum(ScheduledJobType)
+  jobType?: ScheduledJobType;
+
+  @ApiPropertyOptional({ description: 'Filter by run status', enum: ScheduledJobRunStatus })
+  @IsOptional()
+  @IsEnum(ScheduledJobRunStatus)
+  status?: ScheduledJobRunStatus;
+}
@@ -0,0 +1,37 @@
+import { IsBoolean, IsEnum, IsInt, IsObject, IsOptional, Max, Min } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { ScheduledJobFrequency } from '../entities/scheduled-job.entity';
+
+export class UpdateScheduledJobDto {
+  @ApiPropertyOptional({ description: 'Enable or disable the job for this hostel', example: true })
+  @IsOptional()
+  @IsBoolean()
+  isEnabled?: boolean;
+
+  @ApiPropertyOptional({ description: 'How often the job runs', enum: ScheduledJobFrequency })
+  @IsOptional()
+  @IsEnum(ScheduledJobFrequency)
+  frequency?: ScheduledJobFrequency;
+
+  @ApiPropertyOptional({ description: 'Day of month for monthly jobs (1-28); monthly billing follows the billing day of the hostel settings', example: 1, minimum: 1, maximum: 28 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(28)
+  dayOfMonth?: number;
+
+  @ApiPropertyOptional({ description: 'Hour of day the job runs at (0-23, server time)', example: 6, minimum: 0, maximum: 23 })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(23)
+  runAtHour?: number;
+
+  @ApiPropertyOptional({
+    description: 'Job specific options (e.g. { "dueDayOfMonth": 10 } for billing, { "holdHours": 48, "reminderHoursBefore": 12 } for booking expiry)',
+    example: { dueDayOfMonth: 10 }
+  })
+  @IsOptional()
+  @IsObject()
+  config?: Record<string, any>;
+}
@@ -0,0 +1,73 @@
+import { Entity, Column, ManyToOne, JoinColumn, Index } from 'typeorm';
+import { BaseEntity } from '../../common/entities/base.entity';
+import { ScheduledJob, ScheduledJobType } from './scheduled-job.entity';
+
+export enum ScheduledJobRunStatus {
+  RUNNING = 'running',
+  SUCCEEDED = 'succeeded',
+  FAILED = 'failed'
+}
+
+export enum ScheduledJobTrigger {
+  SCHEDULED = 'scheduled',
+  MANUAL = 'manual'
+}
+
+@Entity('scheduled_job_runs')
+@Index(['jobId'])
+@Index(['hostelId', 'jobType'])
+@Index(['startedAt'])
+export class ScheduledJobRun extends BaseEntity {
+  @Column({ name: 'job_id' })
+  jobId: string;
+
+  @Column({ name: 'hostel_id' })
+  hostelId: string;
+
+  @Column({
+    name: 'job_type',
+    type: 'enum',
+    enum: ScheduledJobType
+  })
+  jobType: ScheduledJobType;
+
+  @Column({
+    type: 'enum',
+    enum: ScheduledJobTrigger,
+    default: ScheduledJobTrigger.SCHEDULED
+  })
+  trigger: ScheduledJobTrigger;
+
+  @Column({
+    type: 'enum',
+    enum: ScheduledJobRunStatus,
+    default: ScheduledJobRunStatus.RUNNING
+  })
+  status: ScheduledJobRunStatus;
+
+  @Column({ name: 'triggered_by', type: 'varchar', length: 255, nullable: true })
+  triggeredBy: string;
+
+  @Column({ name: 'instance_id', type: 'varchar', length: 255, nullable: true })
+  instanceId: string;
+
+  @Column({ name: 'started_at', type: 'timestamp' })
+  startedAt: Date;
+
+  @Column({ name: 'finished_at', type: 'timestamp', nullable: true })
+  finishedAt: Date;
+
+  @Column({ name: 'duration_ms', type: 'int', nullable: true })
+  durationMs: number;
+
+  @Column({ type: 'jsonb', nullable: true })
+  result: Record<string, any>;
+
+  @Column({ name: 'error_message', type: 'text', nullable: true })
+  errorMessage: string;
+
+  // Relations
+  @ManyToOne(() => ScheduledJob, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'job_id' })
+  job: ScheduledJob;
+}
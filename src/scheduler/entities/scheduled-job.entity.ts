@@ -0,0 +1,76 @@
+import { Entity, Column, ManyToOne, JoinColumn, Index } from 'typeorm';
+import { BaseEntity } from '../../common/entities/base.entity';
+import { Hostel } from '../../hostel/entities/hostel.entity';
+
+export enum ScheduledJobType {
+  MONTHLY_BILLING = 'monthly_billing',
+  OVERDUE_MARKING = 'overdue_marking',
+  PAYMENT_REMINDER = 'payment_reminder',
+  BOOKING_EXPIRY = 'booking_expiry',
+  LATE_FEES = 'late_fees'
+}
+
+export enum ScheduledJobFrequency {
+  HOURLY = 'hourly',
+  DAILY = 'daily',
+  MONTHLY = 'monthly'
+}
+
+/**
+ * Per-hostel job definition. One row per (hostel, job type); the scheduler
+ * picks up enabled rows whose next_run_at has passed.
+ */
+@Entity('scheduled_jobs')
+@Index(['hostelId', 'jobType'], { unique: true })
+@Index(['isEnabled', 'nextRunAt'])
+export class ScheduledJob extends BaseEntity {
+  @Column({ name: 'hostel_id' })
+  hostelId: string;
+
+  @Column({
+    name: 'job_type',
+    type: 'enum',
+    enum: ScheduledJobType
+  })
+  jobType: ScheduledJobType;
+
+  @Column({ name: 'is_enabled', default: true })
+  isEnabled: boolean;
+
+  @Column({
+    type: 'enum',
+    enum: ScheduledJobFrequency,
+    default: ScheduledJobFrequency.DAILY
+  })
+  frequency: ScheduledJobFrequency;
+
+  // Only used by MONTHLY jobs (1-28 so every month has the day)
+  @Column({ name: 'day_of_month', type: 'int', default: 1 })
+  dayOfMonth: number;
+
+  // Server local time, 0-23 (not used by HOURLY jobs, which run at the top of every hour)
+  @Column({ name: 'run_at_hour', type: 'int', default: 6 })
+  runAtHour: number;
+
+  // Job specific options, e.g. { dueDayOfMonth: 10 }, { statuses: ['DUE_TODAY'] } or { holdHours: 48 }
+  @Column({ type: 'jsonb', nullable: true })
+  config: Record<string, any>;
+
+  @Column({ name: 'next_run_at', type: 'timestamp', nullable: true })
+  nextRunAt: Date;
+
+  @Column({ name: 'last_run_at', type: 'timestamp', nullable: true })
+  lastRunAt: Date;
+
+  // Lock held by the instance currently running the job
+  @Column({ name: 'locked_by', type: 'varchar', length: 255, nullable: true })
+  lockedBy: string;
+
+  @Column({ name: 'locked_until', type: 'timestamp', nullable: true })
+  lockedUntil: Date;
+
+  // Relations
+  @ManyToOne(() => Hostel, hostel => hostel.scheduledJobs, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'hostel_id' })
+  hostel: Hostel;
+}
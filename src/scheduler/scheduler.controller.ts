@@ -0,0 +1,89 @@
+import { Controller, Get, Post, Put, Body, Param, Query, HttpStatus, UseGuards, ParseEnumPipe } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
+import { SchedulerService } from './services/scheduler.service';
+import { ScheduledJobType } from './entities/scheduled-job.entity';
+import { UpdateScheduledJobDto, RunScheduledJobDto, ScheduledJobRunFilterDto } from './dto';
+import { GetHostelId } from '../hostel/decorators/hostel-context.decorator';
+import { HostelAuthWithContextGuard } from '../auth/guards/hostel-auth-with-context.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { JwtPayload } from '../auth/interfaces/jwt-payload.interface';
+import { RolesGuard } from '../staff-roles/guards/roles.guard';
+import { Permissions } from '../staff-roles/decorators/permissions.decorator';
+import { Permission } from '../staff-roles/permissions';
+
+@ApiTags('scheduler')
+@Controller('scheduler')
+@UseGuards(HostelAuthWithContextGuard, RolesGuard)
+@ApiBearerAuth()
+export class SchedulerController {
+  constructor(private readonly schedulerService: SchedulerService) { }
+
+  @Get('jobs')
+  @ApiOperation({ summary: 'Get scheduled job definitions for the hostel' })
+  @ApiResponse({ status: 200, description: 'Scheduled jobs retrieved successfully' })
+  async getJobs(@GetHostelId() hostelId: string) {
+    const jobs = await this.schedulerService.getJobs(hostelId);
+
+    return {
+      status: HttpStatus.OK,
+      data: jobs
+    };
+  }
+
+  @Put('jobs/:jobType')
+  @Permissions(Permission.SCHEDULER_MANAGE)
+  @ApiOperation({ summary: 'Update a scheduled job definition (enable/disable, schedule, options)' })
+  @ApiResponse({ status: 200, description: 'Scheduled job updated successfully' })
+  async updateJob(
+    @GetHostelId() hostelId: string,
+    @Param('jobType', new ParseEnumPipe(ScheduledJobType)) jobType: ScheduledJobType,
+    @Body() updateDto: UpdateScheduledJobDto
+  ) {
+    const job = await this.schedulerService.updateJob(hostelId, jobType, updateDto);
+
+    return {
+      status: HttpStatus.OK,
+      data: job
+    };
+  }
+
+  @Post('jobs/:jobType/run')
+  @Permissions(Permission.SCHEDULER_MANAGE)
+  @ApiOperation({ summary: 'Run a scheduled job now (manual re-run)' })
+  @ApiResponse({ status: 201, description: 'Job executed, run record returned' })
+  @ApiResponse({ status: 409, description: 'Job is already running' })
+  async runJob(
+    @GetHostelId() hostelId: string,
+    @Param('jobType', new ParseEnumPipe(ScheduledJobType)) jobType: ScheduledJobType,
+    @Body() runDto: RunScheduledJobDto,
+    @CurrentUser() user: JwtPayload
+  ) {
+    const run = await this.schedulerService.runJobNow(
+      hostelId,
+      jobType,
+      {
+        month: runDto.month,
+        year: runDto.year,
+        dueDate: runDto.dueDate ? new Date(runDto.dueDate) : undefined
+      },
+      user?.id
+    );
+
+    return {
+      status: HttpStatus.CREATED,
+      data: run
+    };
+  }
+
+  @Get('runs')
+  @ApiOperation({ summary: 'Get scheduled job run history' })
+  @ApiResponse({ status: 200, description: 'Job runs retrieved successfully' })
+  async getRuns(@GetHostelId() hostelId: string, @Query() filters: ScheduledJobRunFilterDto) {
+    const runs = await this.schedulerService.getRuns(hostelId, filters);
+
+    return {
+      status: HttpStatus.OK,
+      data: runs
+    };
+  }
+}
@@ -0,0 +1,38 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { SchedulerController } from './scheduler.controller';
+import { SchedulerService } from './services/scheduler.service';
+import { BillingJobsService } from './services/billing-jobs.service';
+import { BookingJobsService } from './services/booking-jobs.service';
+import { ScheduledJob } from './entities/scheduled-job.entity';
+import { ScheduledJobRun } from './entities/scheduled-job-run.entity';
+import { Invoice } from '../invoices/entities/invoice.entity';
+import { Student } from '../students/entities/student.entity';
+import { Hostel } from '../hostel/entities/hostel.entity';
+import { MultiGuestBooking } from '../bookings/entities/multi-guest-booking.entity';
+import { AuthModule } from '../auth/auth.module';
+import { HostelModule } from '../hostel/hostel.module';
+import { BillingModule } from '../billing/billing.module';
+import { NotificationModule } from '../notification/notification.module';
+import { BookingsModule } from '../bookings/bookings.module';
+import { WaitlistModule } from '../waitlist/waitlist.module';
+import { LateFeesModule } from '../late-fees/late-fees.module';
+import { StaffRolesModule } from '../staff-roles/staff-roles.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([ScheduledJob, ScheduledJobRun, Invoice, Student, Hostel, MultiGuestBooking]),
+    AuthModule,
+    HostelModule,
+    BillingModule,
+    NotificationModule,
+    BookingsModule,
+    WaitlistModule,
+    LateFeesModule,
+    StaffRolesModule,
+  ],
+  controllers: [SchedulerController],
+  providers: [SchedulerService, BillingJobsService, BookingJobsService],
+  exports: [SchedulerService],
+})
+export class SchedulerModule {}
@@ -0,0 +1,178 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, LessThan, Repository } from 'typeorm';
+import { Invoice, InvoiceStatus } from '../../invoices/entities/invoice.entity';
+import { Student } from '../../students/entities/student.entity';
+import { Hostel } from '../../hostel/entities/hostel.entity';
+import { NepalesesBillingService } from '../../billing/services/nepalese-billing.service';
+import { UnifiedNotificationService } from '../../notification/unified-notification.service';
+import { NotificationTemplateKey } from '../../notification/templates/default-notification-templates';
+import { LateFeesService } from '../../late-fees/services/late-fees.service';
+import { HostelSettingsService } from '../../hostel/services/hostel-settings.service';
+import { ScheduledJob } from '../entities/scheduled-job.entity';
+import { CalendarSystem, bsToAd, getCalendarMonth } from '../../common/utils/bikram-sambat.util';
+
+export interface MonthlyBillingJobOptions {
+  month?: number; // 1-12, in the hostel's calendar
+  year?: number;
+  dueDate?: Date;
+}
+
+const DEFAULT_REMINDER_STATUSES = ['DUE_TOMORROW', 'DUE_TODAY', 'OVERDUE'];
+
+/**
+ * Billing Jobs Service
+ * The actual work behind each scheduled job type. Every method is scoped to a
+ * single hostel and returns a small summary that is stored on the job run.
+ */
+@Injectable()
+export class BillingJobsService {
+  private readonly logger = new Logger(BillingJobsService.name);
+
+  constructor(
+    @InjectRepository(Invoice)
+    private invoiceRepository: Repository<Invoice>,
+    @InjectRepository(Student)
+    private studentRepository: Repository<Student>,
+    @InjectRepository(Hostel)
+    private hostelRepository: Repository<Hostel>,
+    private nepalesesBillingService: NepalesesBillingService,
+    private unifiedNotificationService: UnifiedNotificationService,
+    private lateFeesService: LateFeesService,
+    private hostelSettingsService: HostelSettingsService,
+  ) {}
+
+  /**
+   * Generate invoices for the billing month (current month unless overridden).
+   * Safe to re-run: students who already have an invoice for the month are skipped.
+   */
+  async runMonthlyBilling(job: ScheduledJob, options: MonthlyBillingJobOptions = {}) {
+    // Month and year are in the hostel's calendar (Kartik 2082 for BS hostels)
+    const hostel = await this.hostelRepository.findOne({
+      where: { id: job.hostelId },
+      select: ['id', 'calendarSystem']
+    });
+    const calendar = hostel?.calendarSystem || CalendarSystem.AD;
+    const current = getCalendarMonth(new Date(), calendar);
+
+    const month = options.month ? options.month - 1 : current.month - 1;
+    const year = options.year || current.year;
+
+    let dueDate = options.dueDate;
+    if (!dueDate && job.config?.dueDayOfMonth) {
+      dueDate = calendar === CalendarSystem.BS
+        ? bsToAd(year, month + 1, Number(job.config.dueDayOfMonth))
+        : new Date(year, month, Number(job.config.dueDayOfMonth));
+    }
+
+    const result = await this.nepalesesBillingService.generateMonthlyInvoices(month, year, dueDate, job.hostelId);
+
+    return {
+      month: `${year}-${String(month + 1).padStart(2, '0')}`,
+      calendar,
+      generated: result.generated,
+      skipped: result.skipped,
+      failed: result.failed,
+      totalAmount: result.totalAmount,
+      errors: result.errors
+    };
+  }
+
+  /**
+   * Flip unpaid invoices past their due date to OVERDUE.
+   * Partially paid invoices keep their status so the paid amount stays visible.
+   */
+  async markOverdueInvoices(job: ScheduledJob) {
+    const startOfToday = new Date();
+    startOfToday.setHours(0, 0, 0, 0);
+
+    const overdueInvoices = await this.invoiceRepository.find({
+      select: ['id'],
+      where: {
+        hostelId: job.hostelId,
+        status: In([InvoiceStatus.UNPAID, InvoiceStatus.SENT]),
+        dueDate: LessThan(startOfToday)
+      }
+    });
+
+    const invoiceIds = overdueInvoices.map(invoice => invoice.id);
+
+    if (invoiceIds.length > 0) {
+      await this.invoiceRepository.update({ id: In(invoiceIds) }, { status: InvoiceStatus.OVERDUE });
+    }
+
+    this.logger.log(`⏰ Marked ${invoiceIds.length} invoices as overdue for hostel ${job.hostelId}`);
+
+    return {
+      markedOverdue: invoiceIds.length,
+      invoiceIds
+    };
+  }
+
+  /**
+   * Charge the hostel's late fee policy (hostel settings) on invoices past
+   * their due date and grace days, and reverse fees on voided invoices.
+   */
+  async applyLateFees(job: ScheduledJob) {
+    return this.lateFeesService.applyLateFees(job.hostelId);
+  }
+
+  /**
+   * Notify students whose payment status matches the configured statuses
+   * (defaults to due tomorrow, due today and overdue).
+   */
+  async sendPaymentReminders(job: ScheduledJob) {
+    const statuses: string[] = job.config?.statuses || DEFAULT_REMINDER_STATUSES;
+
+    const dueStudents = (await this.nepalesesBillingService.getPaymentDueStudents(job.hostelId))
+      .filter(entry => statuses.includes(entry.paymentStatus.status));
+
+    const summary = { candidates: dueStudents.length, sent: 0, skipped: 0, failed: 0 };
+
+    if (dueStudents.length === 0) {
+      return summary;
+    }
+
+    const hostel = await this.hostelRepository.findOne({ where: { id: job.hostelId } });
+    const settings = await this.hostelSettingsService.getSettings(job.hostelId);
+    const students = await this.studentRepository.find({
+      select: ['id', 'userId'],
+      where: { id: In(dueStudents.map(entry => entry.studentId)) }
+    });
+    const userIdByStudent = new Map(students.map(student => [student.id, student.userId]));
+
+    for (const entry of dueStudents) {
+      const userId = userIdByStudent.get(entry.studentId);
+      if (!userId) {
+        summary.skipped++;
+        continue;
+      }
+
+      try {
+        await this.unifiedNotificationService.sendTemplateToUser({
+          userId,
+          hostelId: job.hostelId,
+          template: NotificationTemplateKey.PAYMENT_REMINDER,
+          variables: {
+            statusMessage: entry.paymentStatus.message,
+            currency: settings.general.currency,
+            amount: Number(entry.paymentStatus.dueAmount || entry.monthlyFee).toLocaleString()
+          },
+          metadata: {
+            source: 'scheduled_payment_reminder',
+            studentId: entry.studentId,
+            paymentStatus: entry.paymentStatus.status,
+            dueAmount: entry.paymentStatus.dueAmount,
+            dueDate: entry.paymentStatus.dueDate
+          }
+        }, undefined, { hostelId: job.hostelId, hostelName: hostel?.name });
+        summary.sent++;
+      } catch (error) {
+        summary.failed++;
+        this.logger.warn(`⚠️ Failed to send payment reminder to student ${entry.studentId}: ${error.message}`);
+      }
+    }
+
+    return summary;
+  }
+}
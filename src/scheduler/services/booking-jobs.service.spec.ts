@@ -0,0 +1,136 @@
+import { BookingJobsService } from './booking-jobs.service';
+import { ScheduledJob, ScheduledJobType } from '../entities/scheduled-job.entity';
+import { MultiGuestBooking, MultiGuestBookingStatus } from '../../bookings/entities/multi-guest-booking.entity';
+import { NotificationTemplateKey } from '../../notification/templates/default-notification-templates';
+
+describe('BookingJobsService', () => {
+  let service: BookingJobsService;
+
+  const hoursAgo = (hours: number) => new Date(Date.now() - hours * 60 * 60 * 1000);
+
+  const job = {
+    id: 'job-1',
+    hostelId: 'hostel-1',
+    jobType: ScheduledJobType.BOOKING_EXPIRY,
+    config: { holdHours: 24, reminderHoursBefore: 6 }
+  } as unknown as ScheduledJob;
+
+  const booking = (id: string, createdAt: Date) => ({
+    id,
+    hostelId: 'hostel-1',
+    userId: `user-${id}`,
+    bookingReference: `MGB-${id}`,
+    status: MultiGuestBookingStatus.PENDING,
+    createdAt,
+    hostel: { id: 'hostel-1', name: 'Kathmandu Boys Hostel' },
+    guests: []
+  });
+
+  const mockBookingRepository = {
+    find: jest.fn(),
+  };
+
+  const mockManager = {
+    update: jest.fn(),
+  };
+
+  const mockDataSource = {
+    transaction: jest.fn(work => work(mockManager)),
+  };
+
+  // Runs the caller's hook in the cancellation's transaction
+  const mockMultiGuestBookingService = {
+    cancelBooking: jest.fn(async (...args: any[]) => {
+      await args[5]?.(mockManager);
+      return { success: true };
+    }),
+  };
+
+  const mockHostelNotificationService = {
+    notifyAdminOfBookingExpiry: jest.fn(),
+  };
+
+  const mockUnifiedNotificationService = {
+    sendTemplateToUser: jest.fn(),
+  };
+
+  const mockWaitlistService = {
+    processQueue: jest.fn().mockResolvedValue(0),
+  };
+
+  beforeEach(() => {
+    service = new BookingJobsService(
+      mockBookingRepository as any,
+      mockMultiGuestBookingService as any,
+      mockHostelNotificationService as any,
+      mockUnifiedNotificationService as any,
+      mockWaitlistService as any,
+      mockDataSource as any
+    );
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should cancel bookings past their hold, notify both sides and offer the beds to the waitlist', async () => {
+    mockBookingRepository.find
+      .mockResolvedValueOnce([booking('old', hoursAgo(30))])
+      .mockResolvedValueOnce([]);
+
+    const result = await service.expireStaleBookings(job);
+
+    expect(result.expired).toBe(1);
+    expect(mockMultiGuestBookingService.cancelBooking).toHaveBeenCalledWith(
+      'old',
+      expect.stringContaining('24 hours'),
+      'hostel-1',
+      undefined,
+      false,
+      expect.any(Function)
+    );
+    expect(mockUnifiedNotificationService.sendTemplateToUser).toHaveBeenCalledWith(
+      expect.objectContaining({
+        userId: 'user-old',
+        template: NotificationTemplateKey.BOOKING_HOLD_EXPIRED,
+        variables: expect.objectContaining({ bookingReference: 'MGB-old' }),
+        metadata: expect.objectContaining({ expired: true })
+      }),
+      undefined,
+      expect.anything(),
+      mockManager
+    );
+    expect(mockHostelNotificationService.notifyAdminOfBookingExpiry).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'old' }), expect.any(Date), true, mockManager
+    );
+    expect(mockWaitlistService.processQueue).toHaveBeenCalledWith('hostel-1');
+  });
+
+  it('should warn once before the hold ends without cancelling', async () => {
+    mockBookingRepository.find
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([booking('soon', hoursAgo(20))]);
+
+    const result = await service.expireStaleBookings(job);
+
+    expect(result).toEqual(expect.objectContaining({ expired: 0, reminded: 1 }));
+    expect(mockMultiGuestBookingService.cancelBooking).not.toHaveBeenCalled();
+    expect(mockManager.update).toHaveBeenCalledWith(MultiGuestBooking, 'soon', { expiryReminderSentAt: expect.any(Date) });
+    expect(mockHostelNotificationService.notifyAdminOfBookingExpiry).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'soon' }), expect.any(Date), false, mockManager
+    );
+    expect(mockWaitlistService.processQueue).not.toHaveBeenCalled();
+  });
+
+  it('should keep going when one booking cannot be cancelled', async () => {
+    mockBookingRepository.find
+      .mockResolvedValueOnce([booking('a', hoursAgo(30)), booking('b', hoursAgo(40))])
+      .mockResolvedValueOnce([]);
+    mockMultiGuestBookingService.cancelBooking.mockRejectedValueOnce(new Error('Booking is already cancelled'));
+
+    const result = await service.expireStaleBookings(job);
+
+    expect(result).toEqual(expect.objectContaining({ expired: 1, failed: 1 }));
+    expect(result.errors[0]).toContain('MGB-a');
+  });
+});
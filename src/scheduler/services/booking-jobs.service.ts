@@ -0,0 +1,155 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { DataSource, EntityManager, IsNull, LessThanOrEqual, Repository } from 'typeorm';
+import { MultiGuestBooking, MultiGuestBookingStatus } from '../../bookings/entities/multi-guest-booking.entity';
+import { MultiGuestBookingService } from '../../bookings/multi-guest-booking.service';
+import { HostelNotificationService } from '../../bookings/hostel-notification.service';
+import { UnifiedNotificationService } from '../../notification/unified-notification.service';
+import { NotificationTemplateKey } from '../../notification/templates/default-notification-templates';
+import { WaitlistService } from '../../waitlist/services/waitlist.service';
+import { ScheduledJob } from '../entities/scheduled-job.entity';
+
+const DEFAULT_HOLD_HOURS = 48;
+const DEFAULT_REMINDER_HOURS_BEFORE = 12;
+
+/**
+ * Booking Jobs Service
+ * Pending multi-guest bookings keep their beds RESERVED until an admin
+ * confirms or cancels them. This job gives each pending booking a hold of
+ * `holdHours` from when it was requested (job config, per hostel), warns the
+ * guest and the admin `reminderHoursBefore` the hold ends and cancels the
+ * booking once it has. The notifications are queued in the same transaction
+ * as the cancellation or the reminder marker.
+ */
+@Injectable()
+export class BookingJobsService {
+  private readonly logger = new Logger(BookingJobsService.name);
+
+  constructor(
+    @InjectRepository(MultiGuestBooking)
+    private bookingRepository: Repository<MultiGuestBooking>,
+    private multiGuestBookingService: MultiGuestBookingService,
+    private hostelNotificationService: HostelNotificationService,
+    private unifiedNotificationService: UnifiedNotificationService,
+    private waitlistService: WaitlistService,
+    private dataSource: DataSource,
+  ) {}
+
+  async expireStaleBookings(job: ScheduledJob) {
+    const holdHours = Number(job.config?.holdHours ?? DEFAULT_HOLD_HOURS);
+    const reminderHoursBefore = Number(job.config?.reminderHoursBefore ?? DEFAULT_REMINDER_HOURS_BEFORE);
+    const now = new Date();
+
+    const summary = { holdHours, reminded: 0, expired: 0, failed: 0, errors: [] as string[] };
+
+    // Bookings requested before this have run out of hold time
+    const expiryCutoff = new Date(now.getTime() - hoursToMs(holdHours));
+    const staleBookings = await this.bookingRepository.find({
+      where: {
+        hostelId: job.hostelId,
+        status: MultiGuestBookingStatus.PENDING,
+        createdAt: LessThanOrEqual(expiryCutoff)
+      },
+      relations: ['hostel', 'guests']
+    });
+
+    for (const booking of staleBookings) {
+      const expiresAt = this.getHoldExpiry(booking, holdHours);
+
+      try {
+        await this.multiGuestBookingService.cancelBooking(
+          booking.id,
+          `Booking hold expired after ${holdHours} hours without confirmation`,
+          job.hostelId,
+          undefined,
+          false,
+          async manager => {
+            await this.notifyGuest(booking, expiresAt, true, manager);
+            await this.hostelNotificationService.notifyAdminOfBookingExpiry(booking, expiresAt, true, manager);
+          }
+        );
+      } catch (error) {
+        summary.failed++;
+        summary.errors.push(`${booking.bookingReference}: ${error.message}`);
+        this.logger.error(`❌ Failed to expire booking ${booking.bookingReference}: ${error.message}`);
+        continue;
+      }
+
+      summary.expired++;
+      this.logger.log(`⌛ Booking ${booking.bookingReference} expired and was cancelled`);
+    }
+
+    if (summary.expired > 0) {
+      // Released beds go to anyone on the waitlist
+      try {
+        await this.waitlistService.processQueue(job.hostelId);
+      } catch (error) {
+        this.logger.warn(`⚠️ Could not offer released beds to the waitlist: ${error.message}`);
+      }
+    }
+
+    // Bookings whose hold ends within the reminder window and were not warned yet
+    const reminderCutoff = new Date(now.getTime() - hoursToMs(Math.max(0, holdHours - reminderHoursBefore)));
+    const expiringBookings = reminderHoursBefore > 0
+      ? await this.bookingRepository.find({
+        where: {
+          hostelId: job.hostelId,
+          status: MultiGuestBookingStatus.PENDING,
+          createdAt: LessThanOrEqual(reminderCutoff),
+          expiryReminderSentAt: IsNull()
+        },
+        relations: ['hostel', 'guests']
+      })
+      : [];
+
+    for (const booking of expiringBookings) {
+      const expiresAt = this.getHoldExpiry(booking, holdHours);
+      if (expiresAt <= now) {
+        continue;
+      }
+
+      await this.dataSource.transaction(async manager => {
+        await manager.update(MultiGuestBooking, booking.id, { expiryReminderSentAt: now });
+        await this.notifyGuest(booking, expiresAt, false, manager);
+        await this.hostelNotificationService.notifyAdminOfBookingExpiry(booking, expiresAt, false, manager);
+      });
+      summary.reminded++;
+    }
+
+    this.logger.log(`⌛ Booking expiry for hostel ${job.hostelId}: ${summary.expired} expired, ${summary.reminded} reminded`);
+
+    return summary;
+  }
+
+  private getHoldExpiry(booking: MultiGuestBooking, holdHours: number): Date {
+    return new Date(new Date(booking.createdAt).getTime() + hoursToMs(holdHours));
+  }
+
+  private async notifyGuest(booking: MultiGuestBooking, expiresAt: Date, expired: boolean, manager: EntityManager) {
+    if (!booking.userId) {
+      return;
+    }
+
+    await this.unifiedNotificationService.sendTemplateToUser({
+      userId: booking.userId,
+      hostelId: booking.hostelId,
+      template: expired ? NotificationTemplateKey.BOOKING_HOLD_EXPIRED : NotificationTemplateKey.BOOKING_HOLD_ENDING,
+      variables: {
+        bookingReference: booking.bookingReference,
+        hostelName: booking.hostel?.name || 'the hostel',
+        expiresAt: expiresAt.toLocaleString()
+      },
+      metadata: {
+        source: 'booking_expiry',
+        bookingId: booking.id,
+        bookingReference: booking.bookingReference,
+        expiresAt: expiresAt.toISOString(),
+        expired
+      }
+    }, undefined, { hostelId: booking.hostelId, hostelName: booking.hostel?.name }, manager);
+  }
+}
+
+function hoursToMs(hours: number): number {
+  return hours * 60 * 60 * 1000;
+}
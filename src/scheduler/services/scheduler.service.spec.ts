@@ -0,0 +1,159 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { SchedulerService } from './scheduler.service';
+import { BillingJobsService } from './billing-jobs.service';
+import { BookingJobsService } from './booking-jobs.service';
+import { ScheduledJob, ScheduledJobType, ScheduledJobFrequency } from '../entities/scheduled-job.entity';
+import { ScheduledJobRun, ScheduledJobRunStatus, ScheduledJobTrigger } from '../entities/scheduled-job-run.entity';
+import { Hostel } from '../../hostel/entities/hostel.entity';
+import { DEFAULT_HOSTEL_SETTINGS } from '../../hostel/entities/hostel-settings.entity';
+import { HostelSettingsService } from '../../hostel/services/hostel-settings.service';
+
+describe('SchedulerService', () => {
+  let service: SchedulerService;
+
+  const job = {
+    id: 'job-1',
+    hostelId: 'hostel-1',
+    jobType: ScheduledJobType.OVERDUE_MARKING,
+    frequency: ScheduledJobFrequency.DAILY,
+    dayOfMonth: 1,
+    runAtHour: 1,
+    isEnabled: true,
+    config: {}
+  } as ScheduledJob;
+
+  const lockQueryBuilder = {
+    update: jest.fn().mockReturnThis(),
+    set: jest.fn().mockReturnThis(),
+    where: jest.fn().mockReturnThis(),
+    andWhere: jest.fn().mockReturnThis(),
+    execute: jest.fn(),
+  };
+
+  const mockJobRepository = {
+    find: jest.fn(),
+    findOne: jest.fn(),
+    update: jest.fn(),
+    create: jest.fn(),
+    save: jest.fn(),
+    createQueryBuilder: jest.fn(() => lockQueryBuilder),
+  };
+
+  const mockRunRepository = {
+    create: jest.fn(data => data),
+    save: jest.fn(async run => ({ id: 'run-1', ...run })),
+  };
+
+  const mockBillingJobsService = {
+    runMonthlyBilling: jest.fn(),
+    markOverdueInvoices: jest.fn(),
+    sendPaymentReminders: jest.fn(),
+  };
+
+  const mockHostelSettingsService = {
+    getSettings: jest.fn(async () => DEFAULT_HOSTEL_SETTINGS),
+    onChanged: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SchedulerService,
+        { provide: getRepositoryToken(ScheduledJob), useValue: mockJobRepository },
+        { provide: getRepositoryToken(ScheduledJobRun), useValue: mockRunRepository },
+        { provide: getRepositoryToken(Hostel), useValue: { find: jest.fn(), findOne: jest.fn() } },
+        { provide: BillingJobsService, useValue: mockBillingJobsService },
+        { provide: BookingJobsService, useValue: { expireStaleBookings: jest.fn() } },
+        { provide: HostelSettingsService, useValue: mockHostelSettingsService },
+        { provide: ConfigService, useValue: { get: jest.fn((key, defaultValue) => defaultValue) } },
+      ],
+    }).compile();
+
+    service = module.get<SchedulerService>(SchedulerService);
+
+    // All default jobs already exist for the hostel
+    mockJobRepository.find.mockResolvedValue(
+      Object.values(ScheduledJobType).map(jobType => ({ jobType }))
+    );
+    mockJobRepository.findOne.mockResolvedValue(job);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('runJobNow', () => {
+    it('should run the job under a lock and record a succeeded run', async () => {
+      lockQueryBuilder.execute.mockResolvedValue({ affected: 1 });
+      mockBillingJobsService.markOverdueInvoices.mockResolvedValue({ markedOverdue: 2, invoiceIds: ['a', 'b'] });
+
+      const result = await service.runJobNow('hostel-1', ScheduledJobType.OVERDUE_MARKING, {}, 'admin-1');
+
+      expect(mockBillingJobsService.markOverdueInvoices).toHaveBeenCalledWith(job);
+      expect(result.status).toBe(ScheduledJobRunStatus.SUCCEEDED);
+      expect(result.trigger).toBe(ScheduledJobTrigger.MANUAL);
+      expect(result.triggeredBy).toBe('admin-1');
+      expect(result.result).toEqual({ markedOverdue: 2, invoiceIds: ['a', 'b'] });
+      expect(mockJobRepository.update).toHaveBeenCalledWith(
+        { id: 'job-1', lockedBy: expect.any(String) },
+        expect.objectContaining({ lockedBy: null, lockedUntil: null })
+      );
+    });
+
+    it('should record a failed run and still release the lock', async () => {
+      lockQueryBuilder.execute.mockResolvedValue({ affected: 1 });
+      mockBillingJobsService.markOverdueInvoices.mockRejectedValue(new Error('db down'));
+
+      const result = await service.runJobNow('hostel-1', ScheduledJobType.OVERDUE_MARKING);
+
+      expect(result.status).toBe(ScheduledJobRunStatus.FAILED);
+      expect(result.errorMessage).toBe('db down');
+      expect(mockJobRepository.update).toHaveBeenCalled();
+    });
+
+    it('should throw ConflictException when another instance holds the lock', async () => {
+      lockQueryBuilder.execute.mockResolvedValue({ affected: 0 });
+
+      await expect(
+        service.runJobNow('hostel-1', ScheduledJobType.OVERDUE_MARKING)
+      ).rejects.toThrow(ConflictException);
+      expect(mockBillingJobsService.markOverdueInvoices).not.toHaveBeenCalled();
+      expect(mockRunRepository.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('monthly billing day', () => {
+    const billingJob = { ...job, id: 'job-2', jobType: ScheduledJobType.MONTHLY_BILLING, frequency: ScheduledJobFrequency.MONTHLY } as ScheduledJob;
+
+    it('should move the billing job when the billing day setting changes', async () => {
+      mockJobRepository.findOne.mockResolvedValue({ ...billingJob });
+      service.onModuleInit();
+      service.onModuleDestroy();
+      const [onChanged] = mockHostelSettingsService.onChanged.mock.calls[0];
+
+      await onChanged('hostel-1', { ...DEFAULT_HOSTEL_SETTINGS, billing: { ...DEFAULT_HOSTEL_SETTINGS.billing, billingDay: 5 } });
+
+      const [criteria, changes] = mockJobRepository.update.mock.calls[0];
+      expect(criteria).toEqual({ id: 'job-2' });
+      expect(changes.dayOfMonth).toBe(5);
+      expect(changes.nextRunAt.getDate()).toBe(5);
+
+      mockJobRepository.update.mockClear();
+      await onChanged('hostel-1', DEFAULT_HOSTEL_SETTINGS);
+      await onChanged('hostel-1', DEFAULT_HOSTEL_SETTINGS);
+      expect(mockJobRepository.update).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not let the billing job be moved off the billing day directly', async () => {
+      mockJobRepository.findOne.mockResolvedValue({ ...billingJob });
+
+      await expect(
+        service.updateJob('hostel-1', ScheduledJobType.MONTHLY_BILLING, { dayOfMonth: 15 })
+      ).rejects.toThrow(BadRequestException);
+      expect(mockJobRepository.save).not.toHaveBeenCalled();
+    });
+  });
+});
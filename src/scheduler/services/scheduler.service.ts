@@ -0,0 +1,500 @@
+import { Injectable, Logger, OnModuleInit, OnModuleDestroy, NotFoundException, BadRequestException, ConflictException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { LessThanOrEqual, Repository } from 'typeorm';
+import * as os from 'os';
+import { ScheduledJob, ScheduledJobType, ScheduledJobFrequency } from '../entities/scheduled-job.entity';
+import { ScheduledJobRun, ScheduledJobRunStatus, ScheduledJobTrigger } from '../entities/scheduled-job-run.entity';
+import { Hostel } from '../../hostel/entities/hostel.entity';
+import { HostelSettingsValues } from '../../hostel/entities/hostel-settings.entity';
+import { HostelSettingsService } from '../../hostel/services/hostel-settings.service';
+import { BillingJobsService, MonthlyBillingJobOptions } from './billing-jobs.service';
+import { BookingJobsService } from './booking-jobs.service';
+import { UpdateScheduledJobDto, ScheduledJobRunFilterDto } from '../dto';
+import { CalendarSystem, adToBs, bsToAd } from '../../common/utils/bikram-sambat.util';
+
+const DEFAULT_TICK_INTERVAL_MS = 60 * 1000;
+const DEFAULT_LOCK_TTL_MS = 30 * 60 * 1000;
+
+/**
+ * Job definitions created for every hostel the first time the scheduler sees it.
+ * Monthly billing runs on the hostel's billing day and takes the due date from
+ * its billing settings.
+ */
+const DEFAULT_JOB_DEFINITIONS: Array<Partial<ScheduledJob>> = [
+  {
+    jobType: ScheduledJobType.MONTHLY_BILLING,
+    frequency: ScheduledJobFrequency.MONTHLY,
+    dayOfMonth: 1,
+    runAtHour: 6,
+    config: {}
+  },
+  {
+    jobType: ScheduledJobType.OVERDUE_MARKING,
+    frequency: ScheduledJobFrequency.DAILY,
+    dayOfMonth: 1,
+    runAtHour: 1,
+    config: {}
+  },
+  {
+    jobType: ScheduledJobType.PAYMENT_REMINDER,
+    frequency: ScheduledJobFrequency.DAILY,
+    dayOfMonth: 1,
+    runAtHour: 9,
+    config: { statuses: ['DUE_TOMORROW', 'DUE_TODAY', 'OVERDUE'] }
+  },
+  {
+    jobType: ScheduledJobType.BOOKING_EXPIRY,
+    frequency: ScheduledJobFrequency.HOURLY,
+    dayOfMonth: 1,
+    runAtHour: 0,
+    config: { holdHours: 48, reminderHoursBefore: 12 }
+  },
+  {
+    jobType: ScheduledJobType.LATE_FEES,
+    frequency: ScheduledJobFrequency.DAILY,
+    dayOfMonth: 1,
+    runAtHour: 2,
+    config: {}
+  }
+];
+
+/**
+ * Scheduler Service
+ * In-process job runner. Every tick it picks up enabled jobs that are due and
+ * runs them under a row-level lock (locked_by / locked_until) so only one app
+ * instance executes a given hostel's job at a time. Each execution is recorded
+ * in scheduled_job_runs.
+ *
+ * Set SCHEDULER_ENABLED=false to stop this instance from running scheduled jobs;
+ * manual runs through the API keep working.
+ *
+ * The monthly billing job's day of month follows billing.billingDay of the
+ * hostel settings and is moved whenever the settings are saved.
+ */
+@Injectable()
+export class SchedulerService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(SchedulerService.name);
+  private readonly instanceId = `${os.hostname()}:${process.pid}`;
+  private readonly lockTtlMs: number;
+  private timer: NodeJS.Timeout | null = null;
+  private ticking = false;
+
+  constructor(
+    @InjectRepository(ScheduledJob)
+    private jobRepository: Repository<ScheduledJob>,
+    @InjectRepository(ScheduledJobRun)
+    private runRepository: Repository<ScheduledJobRun>,
+    @InjectRepository(Hostel)
+    private hostelRepository: Repository<Hostel>,
+    private billingJobsService: BillingJobsService,
+    private bookingJobsService: BookingJobsService,
+    private hostelSettingsService: HostelSettingsService,
+    private configService: ConfigService,
+  ) {
+    this.lockTtlMs = Number(this.configService.get('SCHEDULER_LOCK_TTL_MS', DEFAULT_LOCK_TTL_MS));
+  }
+
+  onModuleInit() {
+    this.hostelSettingsService.onChanged((hostelId, settings) => this.followBillingDay(hostelId, settings));
+
+    if (this.configService.get('SCHEDULER_ENABLED', 'true') === 'false') {
+      this.logger.log('⏸️ Scheduler disabled via SCHEDULER_ENABLED=false');
+      return;
+    }
+
+    const tickInterval = Number(this.configService.get('SCHEDULER_TICK_INTERVAL_MS', DEFAULT_TICK_INTERVAL_MS));
+    this.timer = setInterval(() => this.tick(), tickInterval);
+    this.logger.log(`⏱️ Scheduler started on ${this.instanceId} (tick every ${tickInterval}ms)`);
+  }
+
+  onModuleDestroy() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Run every due job once. Overlapping ticks on the same instance are skipped.
+   */
+  async tick(): Promise<void> {
+    if (this.ticking) {
+      return;
+    }
+    this.ticking = true;
+
+    try {
+      await this.ensureDefaultJobsForActiveHostels();
+
+      const dueJobs = await this.jobRepository.find({
+        where: {
+          isEnabled: true,
+          nextRunAt: LessThanOrEqual(new Date())
+        },
+        order: { nextRunAt: 'ASC' }
+      });
+
+      for (const job of dueJobs) {
+        try {
+          await this.executeJob(job, ScheduledJobTrigger.SCHEDULED);
+        } catch (error) {
+          this.logger.error(`❌ Scheduled job ${job.jobType} failed for hostel ${job.hostelId}: ${error.message}`);
+        }
+      }
+    } catch (error) {
+      this.logger.error(`❌ Scheduler tick failed: ${error.message}`, error.stack);
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  async getJobs(hostelId: string) {
+    if (!hostelId) {
+      throw new BadRequestException('Hostel context required');
+    }
+
+    await this.ensureDefaultJobs(hostelId);
+
+    const jobs = await this.jobRepository.find({
+      where: { hostelId },
+      order: { jobType: 'ASC' }
+    });
+
+    return jobs.map(job => this.transformJobToApiResponse(job));
+  }
+
+  async updateJob(hostelId: string, jobType: ScheduledJobType, updateDto: UpdateScheduledJobDto) {
+    const job = await this.findJob(hostelId, jobType);
+
+    if (jobType === ScheduledJobType.MONTHLY_BILLING && updateDto.dayOfMonth !== undefined && updateDto.dayOfMonth !== job.dayOfMonth) {
+      throw new BadRequestException('Monthly billing runs on the billing day of the hostel settings; change billing.billingDay there');
+    }
+
+    Object.assign(job, updateDto);
+    job.nextRunAt = this.computeNextRunAt(job, new Date(), await this.getCalendar(hostelId));
+
+    const saved = await this.jobRepository.save(job);
+    return this.transformJobToApiResponse(saved);
+  }
+
+  /**
+   * Manual re-run. Uses the same lock as scheduled runs, so it fails with 409
+   * while another instance is running the job.
+   */
+  async runJobNow(
+    hostelId: string,
+    jobType: ScheduledJobType,
+    options: MonthlyBillingJobOptions = {},
+    triggeredBy?: string
+  ) {
+    const job = await this.findJob(hostelId, jobType);
+    const run = await this.executeJob(job, ScheduledJobTrigger.MANUAL, triggeredBy, options);
+    return this.transformRunToApiResponse(run);
+  }
+
+  async getRuns(hostelId: string, filters: ScheduledJobRunFilterDto) {
+    if (!hostelId) {
+      throw new BadRequestException('Hostel context required');
+    }
+
+    const { page = 1, limit = 10, jobType, status } = filters;
+
+    const queryBuilder = this.runRepository.createQueryBuilder('run')
+      .where('run.hostelId = :hostelId', { hostelId });
+
+    if (jobType) {
+      queryBuilder.andWhere('run.jobType = :jobType', { jobType });
+    }
+
+    if (status) {
+      queryBuilder.andWhere('run.status = :status', { status });
+    }
+
+    const [runs, total] = await queryBuilder
+      .orderBy('run.startedAt', 'DESC')
+      .skip((page - 1) * limit)
+      .take(limit)
+      .getManyAndCount();
+
+    return {
+      items: runs.map(run => this.transformRunToApiResponse(run)),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit)
+      }
+    };
+  }
+
+  private async findJob(hostelId: string, jobType: ScheduledJobType): Promise<ScheduledJob> {
+    if (!hostelId) {
+      throw new BadRequestException('Hostel context required');
+    }
+
+    await this.ensureDefaultJobs(hostelId);
+
+    const job = await this.jobRepository.findOne({ where: { hostelId, jobType } });
+    if (!job) {
+      throw new NotFoundException(`Scheduled job ${jobType} not found`);
+    }
+
+    return job;
+  }
+
+  private async executeJob(
+    job: ScheduledJob,
+    trigger: ScheduledJobTrigger,
+    triggeredBy?: string,
+    options: MonthlyBillingJobOptions = {}
+  ): Promise<ScheduledJobRun> {
+    const locked = await this.acquireLock(job);
+    if (!locked) {
+      if (trigger === ScheduledJobTrigger.MANUAL) {
+        throw new ConflictException(`Job ${job.jobType} is already running`);
+      }
+      this.logger.log(`🔒 Job ${job.jobType} for hostel ${job.hostelId} is locked by another instance, skipping`);
+      return null;
+    }
+
+    const startedAt = new Date();
+    let run = await this.runRepository.save(this.runRepository.create({
+      jobId: job.id,
+      hostelId: job.hostelId,
+      jobType: job.jobType,
+      trigger,
+      triggeredBy: triggeredBy || null,
+      instanceId: this.instanceId,
+      status: ScheduledJobRunStatus.RUNNING,
+      startedAt
+    }));
+
+    this.logger.log(`▶️ Running ${job.jobType} for hostel ${job.hostelId} (${trigger})`);
+
+    try {
+      const result = await this.dispatch(job, options);
+      run.status = ScheduledJobRunStatus.SUCCEEDED;
+      run.result = result;
+      this.logger.log(`✅ ${job.jobType} finished for hostel ${job.hostelId}: ${JSON.stringify(result)}`);
+    } catch (error) {
+      run.status = ScheduledJobRunStatus.FAILED;
+      run.errorMessage = error.message;
+      this.logger.error(`❌ ${job.jobType} failed for hostel ${job.hostelId}: ${error.message}`);
+    } finally {
+      run.finishedAt = new Date();
+      run.durationMs = run.finishedAt.getTime() - startedAt.getTime();
+      run = await this.runRepository.save(run);
+      await this.releaseLock(job, startedAt);
+    }
+
+    return run;
+  }
+
+  private async dispatch(job: ScheduledJob, options: MonthlyBillingJobOptions): Promise<Record<string, any>> {
+    switch (job.jobType) {
+      case ScheduledJobType.MONTHLY_BILLING:
+        return this.billingJobsService.runMonthlyBilling(job, options);
+      case ScheduledJobType.OVERDUE_MARKING:
+        return this.billingJobsService.markOverdueInvoices(job);
+      case ScheduledJobType.PAYMENT_REMINDER:
+        return this.billingJobsService.sendPaymentReminders(job);
+      case ScheduledJobType.BOOKING_EXPIRY:
+        return this.bookingJobsService.expireStaleBookings(job);
+      case ScheduledJobType.LATE_FEES:
+        return this.billingJobsService.applyLateFees(job);
+      default:
+        throw new BadRequestException(`Unsupported job type: ${job.jobType}`);
+    }
+  }
+
+  /**
+   * Atomically claim the job. Expired locks (crashed instance) can be taken over.
+   */
+  private async acquireLock(job: ScheduledJob): Promise<boolean> {
+    const now = new Date();
+    const result = await this.jobRepository.createQueryBuilder()
+      .update(ScheduledJob)
+      .set({
+        lockedBy: this.instanceId,
+        lockedUntil: new Date(now.getTime() + this.lockTtlMs)
+      })
+      .where('id = :id', { id: job.id })
+      .andWhere('(locked_until IS NULL OR locked_until < :now)', { now })
+      .execute();
+
+    return result.affected === 1;
+  }
+
+  private async releaseLock(job: ScheduledJob, ranAt: Date): Promise<void> {
+    const calendar = await this.getCalendar(job.hostelId);
+
+    await this.jobRepository.update(
+      { id: job.id, lockedBy: this.instanceId },
+      {
+        lockedBy: null,
+        lockedUntil: null,
+        lastRunAt: ranAt,
+        nextRunAt: this.computeNextRunAt(job, new Date(), calendar)
+      }
+    );
+  }
+
+  private async ensureDefaultJobsForActiveHostels(): Promise<void> {
+    const hostels = await this.hostelRepository.find({
+      select: ['id'],
+      where: { isActive: true }
+    });
+
+    for (const hostel of hostels) {
+      await this.ensureDefaultJobs(hostel.id);
+    }
+  }
+
+  /**
+   * Insert any missing default job definitions for the hostel.
+   * ON CONFLICT DO NOTHING keeps this safe when several instances race.
+   */
+  private async ensureDefaultJobs(hostelId: string): Promise<void> {
+    const existing = await this.jobRepository.find({
+      select: ['jobType'],
+      where: { hostelId }
+    });
+    const existingTypes = new Set(existing.map(job => job.jobType));
+    if (DEFAULT_JOB_DEFINITIONS.every(definition => existingTypes.has(definition.jobType))) {
+      return;
+    }
+
+    const calendar = await this.getCalendar(hostelId);
+    const { billing } = await this.hostelSettingsService.getSettings(hostelId);
+
+    const missing = DEFAULT_JOB_DEFINITIONS
+      .filter(definition => !existingTypes.has(definition.jobType))
+      .map(definition => {
+        const job = this.jobRepository.create({ ...definition, hostelId, isEnabled: true });
+        if (job.jobType === ScheduledJobType.MONTHLY_BILLING) {
+          job.dayOfMonth = billing.billingDay;
+        }
+        job.nextRunAt = this.computeNextRunAt(job, new Date(), calendar);
+        return job;
+      });
+
+    if (missing.length === 0) {
+      return;
+    }
+
+    await this.jobRepository.createQueryBuilder()
+      .insert()
+      .into(ScheduledJob)
+      .values(missing)
+      .orIgnore()
+      .execute();
+
+    this.logger.log(`🆕 Created ${missing.length} default scheduled jobs for hostel ${hostelId}`);
+  }
+
+  /**
+   * Move the hostel's monthly billing job to its billing day. A hostel without
+   * the job yet gets it on that day when the defaults are created.
+   */
+  private async followBillingDay(hostelId: string, settings: HostelSettingsValues): Promise<void> {
+    const { billingDay } = settings.billing;
+    const job = await this.jobRepository.findOne({
+      where: { hostelId, jobType: ScheduledJobType.MONTHLY_BILLING }
+    });
+    if (!job || job.dayOfMonth === billingDay) {
+      return;
+    }
+
+    job.dayOfMonth = billingDay;
+    const nextRunAt = this.computeNextRunAt(job, new Date(), await this.getCalendar(hostelId));
+    await this.jobRepository.update({ id: job.id }, { dayOfMonth: billingDay, nextRunAt });
+
+    this.logger.log(`📅 Monthly billing for hostel ${hostelId} moved to day ${billingDay}`);
+  }
+
+  /**
+   * Next slot strictly after `from`, in server local time.
+   * Monthly jobs of BS hostels run on the given day of the Bikram Sambat month.
+   * Hourly jobs run at the top of the next hour.
+   */
+  private computeNextRunAt(
+    job: Pick<ScheduledJob, 'frequency' | 'dayOfMonth' | 'runAtHour'>,
+    from: Date,
+    calendar: CalendarSystem = CalendarSystem.AD
+  ): Date {
+    const next = new Date(from);
+    next.setMinutes(0, 0, 0);
+
+    if (job.frequency === ScheduledJobFrequency.HOURLY) {
+      next.setHours(next.getHours() + 1);
+      return next;
+    }
+
+    next.setHours(job.runAtHour);
+
+    if (job.frequency === ScheduledJobFrequency.MONTHLY && calendar === CalendarSystem.BS) {
+      let { year, month } = adToBs(from);
+      let candidate = bsToAd(year, month, job.dayOfMonth);
+      candidate.setHours(job.runAtHour);
+      if (candidate <= from) {
+        [year, month] = month === 12 ? [year + 1, 1] : [year, month + 1];
+        candidate = bsToAd(year, month, job.dayOfMonth);
+        candidate.setHours(job.runAtHour);
+      }
+      return candidate;
+    }
+
+    if (job.frequency === ScheduledJobFrequency.MONTHLY) {
+      next.setDate(job.dayOfMonth);
+      if (next <= from) {
+        next.setMonth(next.getMonth() + 1);
+      }
+    } else if (next <= from) {
+      next.setDate(next.getDate() + 1);
+    }
+
+    return next;
+  }
+
+  private async getCalendar(hostelId: string): Promise<CalendarSystem> {
+    const hostel = await this.hostelRepository.findOne({
+      where: { id: hostelId },
+      select: ['id', 'calendarSystem']
+    });
+
+    return hostel?.calendarSystem || CalendarSystem.AD;
+  }
+
+  private transformJobToApiResponse(job: ScheduledJob) {
+    return {
+      id: job.id,
+      jobType: job.jobType,
+      isEnabled: job.isEnabled,
+      frequency: job.frequency,
+      dayOfMonth: job.dayOfMonth,
+      runAtHour: job.runAtHour,
+      config: job.config || {},
+      nextRunAt: job.nextRunAt,
+      lastRunAt: job.lastRunAt,
+      isRunning: !!job.lockedUntil && new Date(job.lockedUntil) > new Date(),
+      updatedAt: job.updatedAt
+    };
+  }
+
+  private transformRunToApiResponse(run: ScheduledJobRun) {
+    return {
+      id: run.id,
+      jobId: run.jobId,
+      jobType: run.jobType,
+      trigger: run.trigger,
+      status: run.status,
+      triggeredBy: run.triggeredBy,
+      startedAt: run.startedAt,
+      finishedAt: run.finishedAt,
+      durationMs: run.durationMs,
+      result: run.result,
+      errorMessage: run.errorMessage
+    };
+  }
+}
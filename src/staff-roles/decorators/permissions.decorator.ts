@@ -0,0 +1,5 @@
+import { SetMetadata } from '@nestjs/common';
+import { Permission } from '../permissions';
+
+export const PERMISSIONS_KEY = 'hostelPermissions';
+export const Permissions = (...permissions: Permission[]) => SetMetadata(PERMISSIONS_KEY, permissions);
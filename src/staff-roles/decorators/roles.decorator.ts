@@ -0,0 +1,5 @@
+import { SetMetadata } from '@nestjs/common';
+import { HostelStaffRole } from '../entities/hostel-staff-member.entity';
+
+export const ROLES_KEY = 'hostelRoles';
+export const Roles = (...roles: HostelStaffRole[]) => SetMetadata(ROLES_KEY, roles);
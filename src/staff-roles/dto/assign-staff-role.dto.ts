@@ -0,0 +1,21 @@
+import { IsEnum, IsOptional, IsString, MaxLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { HostelStaffRole } from '../entities/hostel-staff-member.entity';
+
+export class AssignStaffRoleDto {
+  @ApiProperty({ description: 'Role within this hostel', enum: HostelStaffRole, example: HostelStaffRole.ACCOUNTANT })
+  @IsEnum(HostelStaffRole)
+  role: HostelStaffRole;
+
+  @ApiPropertyOptional({ description: 'Display name of the staff member', example: 'Sita Sharma' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  name?: string;
+
+  @ApiPropertyOptional({ description: 'Kaha ID of the staff member' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  kahaId?: string;
+}
@@ -0,0 +1 @@
+export { AssignStaffRoleDto } from './assign-staff-role.dto';
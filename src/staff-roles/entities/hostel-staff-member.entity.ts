@@ -0,0 +1,49 @@
+import { Entity, Column, ManyToOne, JoinColumn, Index } from 'typeorm';
+import { BaseEntity } from '../../common/entities/base.entity';
+import { Hostel } from '../../hostel/entities/hostel.entity';
+
+export enum HostelStaffRole {
+  OWNER = 'owner',
+  MANAGER = 'manager',
+  ACCOUNTANT = 'accountant',
+  WARDEN = 'warden',
+  COOK = 'cook'
+}
+
+/**
+ * Role of a user (JWT user id) within one hostel.
+ * A user can hold a different role in every hostel they work for.
+ */
+@Entity('hostel_staff_members')
+@Index(['hostelId', 'userId'], { unique: true })
+@Index(['hostelId', 'role'])
+export class HostelStaffMember extends BaseEntity {
+  @Column({ name: 'hostel_id' })
+  hostelId: string;
+
+  @Column({ name: 'user_id', type: 'varchar', length: 255 })
+  userId: string;
+
+  @Column({ name: 'kaha_id', type: 'varchar', length: 255, nullable: true })
+  kahaId: string;
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  name: string;
+
+  @Column({
+    type: 'enum',
+    enum: HostelStaffRole
+  })
+  role: HostelStaffRole;
+
+  @Column({ name: 'is_active', default: true })
+  isActive: boolean;
+
+  @Column({ name: 'assigned_by', type: 'varchar', length: 255, nullable: true })
+  assignedBy: string;
+
+  // Relations
+  @ManyToOne(() => Hostel, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'hostel_id' })
+  hostel: Hostel;
+}
@@ -0,0 +1,81 @@
+import { ForbiddenException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { RolesGuard } from './roles.guard';
+import { HostelStaffRole } from '../entities/hostel-staff-member.entity';
+import { Permission } from '../permissions';
+import { ROLES_KEY } from '../decorators/roles.decorator';
+import { PERMISSIONS_KEY } from '../decorators/permissions.decorator';
+
+describe('RolesGuard', () => {
+  let guard: RolesGuard;
+  let request: any;
+
+  const mockStaffRolesService = {
+    resolveRole: jest.fn(),
+  };
+
+  const reflector = new Reflector();
+
+  const buildContext = (metadata: Record<string, any>) => {
+    const handler = () => undefined;
+    for (const [key, value] of Object.entries(metadata)) {
+      Reflect.defineMetadata(key, value, handler);
+    }
+    return {
+      getHandler: () => handler,
+      getClass: () => class TestController { },
+      switchToHttp: () => ({ getRequest: () => request })
+    } as any;
+  };
+
+  beforeEach(() => {
+    guard = new RolesGuard(mockStaffRolesService as any, reflector);
+    request = {
+      user: { id: 'user-1', kahaId: 'kaha-1', businessId: 'business-1' },
+      hostelContext: { hostelId: 'hostel-1', userId: 'user-1' }
+    };
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should allow routes without role or permission metadata', async () => {
+    await expect(guard.canActivate(buildContext({}))).resolves.toBe(true);
+    expect(mockStaffRolesService.resolveRole).not.toHaveBeenCalled();
+  });
+
+  it('should allow a role that has the required permission and record it on the context', async () => {
+    mockStaffRolesService.resolveRole.mockResolvedValue(HostelStaffRole.ACCOUNTANT);
+
+    const allowed = await guard.canActivate(buildContext({ [PERMISSIONS_KEY]: [Permission.LEDGER_ADJUST] }));
+
+    expect(allowed).toBe(true);
+    expect(request.hostelContext.role).toBe(HostelStaffRole.ACCOUNTANT);
+    expect(mockStaffRolesService.resolveRole).toHaveBeenCalledWith('hostel-1', request.user);
+  });
+
+  it('should reject a role that lacks the required permission', async () => {
+    mockStaffRolesService.resolveRole.mockResolvedValue(HostelStaffRole.COOK);
+
+    await expect(
+      guard.canActivate(buildContext({ [PERMISSIONS_KEY]: [Permission.STUDENT_CHECKOUT] }))
+    ).rejects.toThrow(ForbiddenException);
+  });
+
+  it('should enforce @Roles()', async () => {
+    mockStaffRolesService.resolveRole.mockResolvedValue(HostelStaffRole.MANAGER);
+
+    await expect(
+      guard.canActivate(buildContext({ [ROLES_KEY]: [HostelStaffRole.OWNER] }))
+    ).rejects.toThrow(ForbiddenException);
+  });
+
+  it('should reject users who are not staff of the hostel', async () => {
+    mockStaffRolesService.resolveRole.mockResolvedValue(null);
+
+    await expect(
+      guard.canActivate(buildContext({ [PERMISSIONS_KEY]: [Permission.LEDGER_REVERSE] }))
+    ).rejects.toThrow('You are not a staff member of this hostel');
+  });
+});
@@ -0,0 +1,55 @@
+import { Injectable, CanActivate, ExecutionContext, ForbiddenException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { StaffRolesService } from '../services/staff-roles.service';
+import { HostelStaffRole } from '../entities/hostel-staff-member.entity';
+import { Permission, hasPermission } from '../permissions';
+import { ROLES_KEY } from '../decorators/roles.decorator';
+import { PERMISSIONS_KEY } from '../decorators/permissions.decorator';
+
+/**
+ * Checks the caller's hostel role against @Roles() / @Permissions().
+ * Must run after HostelAuthWithContextGuard, which sets request.hostelContext.
+ * Routes without either decorator are let through unchanged.
+ */
+@Injectable()
+export class RolesGuard implements CanActivate {
+  constructor(
+    private readonly staffRolesService: StaffRolesService,
+    private readonly reflector: Reflector
+  ) { }
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const targets = [context.getHandler(), context.getClass()];
+    const roles = this.reflector.getAllAndOverride<HostelStaffRole[]>(ROLES_KEY, targets) || [];
+    const permissions = this.reflector.getAllAndOverride<Permission[]>(PERMISSIONS_KEY, targets) || [];
+
+    if (roles.length === 0 && permissions.length === 0) {
+      return true;
+    }
+
+    const request = context.switchToHttp().getRequest();
+    const hostelContext = request.hostelContext;
+
+    if (!hostelContext?.hostelId || !request.user?.id) {
+      throw new ForbiddenException('Hostel context required');
+    }
+
+    const role = await this.staffRolesService.resolveRole(hostelContext.hostelId, request.user);
+    if (!role) {
+      throw new ForbiddenException('You are not a staff member of this hostel');
+    }
+
+    hostelContext.role = role;
+
+    if (roles.length > 0 && !roles.includes(role)) {
+      throw new ForbiddenException(`This action requires one of the roles: ${roles.join(', ')}`);
+    }
+
+    const missing = permissions.filter(permission => !hasPermission(role, permission));
+    if (missing.length > 0) {
+      throw new ForbiddenException(`Role ${role} is missing permission: ${missing.join(', ')}`);
+    }
+
+    return true;
+  }
+}
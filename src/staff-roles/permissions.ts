@@ -0,0 +1,87 @@
+import { HostelStaffRole } from './entities/hostel-staff-member.entity';
+
+/**
+ * Actions that are restricted to some staff roles.
+ * Routes not guarded by a permission stay open to every staff member.
+ */
+export enum Permission {
+  LEDGER_ADJUST = 'ledger.adjust',
+  LEDGER_REVERSE = 'ledger.reverse',
+  STUDENT_CHECKOUT = 'students.checkout',
+  ADMIN_CHARGES_DELETE = 'admin-charges.delete',
+  STAFF_MANAGE = 'staff.manage',
+  AUDIT_VIEW = 'audit.view',
+  REFUND_APPROVE = 'refunds.approve',
+  REFUND_PAY = 'refunds.pay',
+  BANK_RECONCILE = 'bank.reconcile',
+  ROOM_TRANSFER_APPROVE = 'room-transfers.approve',
+  ATTENDANCE_RECORD = 'attendance.record',
+  ATTENDANCE_PRESENCE_MANAGE = 'attendance.presence.manage',
+  CURFEW_MANAGE = 'attendance.curfew.manage',
+  LEAVE_APPROVE = 'leave-requests.approve',
+  LATE_FEE_MANAGE = 'late-fees.manage',
+  NOTIFICATION_TEMPLATES_MANAGE = 'notification-templates.manage',
+  NOTIFICATION_RETRY = 'notifications.retry',
+  NOTIFICATION_BROADCAST = 'notifications.broadcast',
+  HOSTEL_SETTINGS_MANAGE = 'hostel-settings.manage',
+  DASHBOARD_EVENTS_VIEW = 'dashboard.events.view',
+  SCHEDULER_MANAGE = 'scheduler.manage',
+  WAITLIST_MANAGE = 'waitlist.manage',
+  PAYMENT_INTENTS_MANAGE = 'payment-intents.manage'
+}
+
+export const ROLE_PERMISSIONS: Record<HostelStaffRole, Permission[]> = {
+  [HostelStaffRole.OWNER]: Object.values(Permission),
+  [HostelStaffRole.MANAGER]: [
+    Permission.LEDGER_ADJUST,
+    Permission.LEDGER_REVERSE,
+    Permission.STUDENT_CHECKOUT,
+    Permission.ADMIN_CHARGES_DELETE,
+    Permission.AUDIT_VIEW,
+    Permission.REFUND_APPROVE,
+    Permission.REFUND_PAY,
+    Permission.BANK_RECONCILE,
+    Permission.ROOM_TRANSFER_APPROVE,
+    Permission.ATTENDANCE_RECORD,
+    Permission.ATTENDANCE_PRESENCE_MANAGE,
+    Permission.CURFEW_MANAGE,
+    Permission.LEAVE_APPROVE,
+    Permission.LATE_FEE_MANAGE,
+    Permission.NOTIFICATION_TEMPLATES_MANAGE,
+    Permission.NOTIFICATION_RETRY,
+    Permission.NOTIFICATION_BROADCAST,
+    Permission.HOSTEL_SETTINGS_MANAGE,
+    Permission.DASHBOARD_EVENTS_VIEW,
+    Permission.SCHEDULER_MANAGE,
+    Permission.WAITLIST_MANAGE,
+    Permission.PAYMENT_INTENTS_MANAGE
+  ],
+  [HostelStaffRole.ACCOUNTANT]: [
+    Permission.LEDGER_ADJUST,
+    Permission.LEDGER_REVERSE,
+    Permission.ADMIN_CHARGES_DELETE,
+    Permission.AUDIT_VIEW,
+    Permission.REFUND_PAY,
+    Permission.BANK_RECONCILE,
+    Permission.LATE_FEE_MANAGE,
+    Permission.DASHBOARD_EVENTS_VIEW,
+    Permission.SCHEDULER_MANAGE,
+    Permission.PAYMENT_INTENTS_MANAGE
+  ],
+  [HostelStaffRole.WARDEN]: [
+    Permission.STUDENT_CHECKOUT,
+    Permission.ROOM_TRANSFER_APPROVE,
+    Permission.ATTENDANCE_RECORD,
+    Permission.ATTENDANCE_PRESENCE_MANAGE,
+    Permission.CURFEW_MANAGE,
+    Permission.LEAVE_APPROVE,
+    Permission.NOTIFICATION_BROADCAST,
+    Permission.DASHBOARD_EVENTS_VIEW,
+    Permission.WAITLIST_MANAGE
+  ],
+  [HostelStaffRole.COOK]: []
+};
+
+export function hasPermission(role: HostelStaffRole, permission: Permission): boolean {
+  return (ROLE_PERMISSIONS[role] || []).includes(permission);
+}
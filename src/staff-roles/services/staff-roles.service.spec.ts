@@ -0,0 +1,66 @@
+import { StaffRolesService } from './staff-roles.service';
+import { HostelStaffRole } from '../entities/hostel-staff-member.entity';
+
+describe('StaffRolesService', () => {
+  let service: StaffRolesService;
+  let insertedRows: any[];
+
+  const insertBuilder: any = {
+    insert: jest.fn(() => insertBuilder),
+    into: jest.fn(() => insertBuilder),
+    values: jest.fn(values => {
+      insertedRows.push(values);
+      return insertBuilder;
+    }),
+    orIgnore: jest.fn(() => insertBuilder),
+    execute: jest.fn(async () => ({ raw: [{ id: 'member-1' }] })),
+  };
+
+  const mockStaffRepository = {
+    findOne: jest.fn(),
+    createQueryBuilder: jest.fn(() => insertBuilder),
+  };
+
+  const mockHostelRepository = {
+    findOne: jest.fn(),
+  };
+
+  const config: Record<string, any> = {};
+  const mockConfigService = {
+    get: jest.fn((key: string, defaultValue?: any) => config[key] ?? defaultValue),
+  };
+
+  beforeEach(() => {
+    insertedRows = [];
+    service = new StaffRolesService(
+      mockStaffRepository as any,
+      mockHostelRepository as any,
+      mockConfigService as any
+    );
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should not make a caller without a membership an owner', async () => {
+    mockStaffRepository.findOne.mockResolvedValue(null);
+
+    await expect(service.resolveRole('hostel-1', { id: 'student-user-1' })).resolves.toBeNull();
+    expect(mockStaffRepository.createQueryBuilder).not.toHaveBeenCalled();
+  });
+
+  it('should seed the configured owners of known hostels at startup', async () => {
+    config.HOSTEL_OWNERS = 'business-1:owner-1, business-2:owner-2';
+    mockHostelRepository.findOne.mockImplementation(async ({ where }) =>
+      where.businessId === 'business-1' ? { id: 'hostel-1', businessId: 'business-1' } : null
+    );
+
+    await service.onModuleInit();
+
+    expect(insertedRows).toEqual([
+      { hostelId: 'hostel-1', userId: 'owner-1', role: HostelStaffRole.OWNER, isActive: true }
+    ]);
+    expect(insertBuilder.orIgnore).toHaveBeenCalled();
+  });
+});
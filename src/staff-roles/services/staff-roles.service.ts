@@ -0,0 +1,201 @@
+import { Injectable, Logger, NotFoundException, BadRequestException, OnModuleInit } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { In, Repository } from 'typeorm';
+import { HostelStaffMember, HostelStaffRole } from '../entities/hostel-staff-member.entity';
+import { Hostel } from '../../hostel/entities/hostel.entity';
+import { ROLE_PERMISSIONS } from '../permissions';
+import { AssignStaffRoleDto } from '../dto';
+import { JwtPayload } from '../../auth/interfaces/jwt-payload.interface';
+
+/**
+ * Staff Roles Service
+ * Stores the role each user holds in a hostel. Nobody becomes staff by
+ * calling the API: the business user whose token creates a hostel is seeded
+ * as its first owner and invites the rest of the staff. HOSTEL_OWNERS
+ * (businessId:userId pairs, comma separated) seeds owners at startup for
+ * hostels that predate this.
+ */
+@Injectable()
+export class StaffRolesService implements OnModuleInit {
+  private readonly logger = new Logger(StaffRolesService.name);
+
+  constructor(
+    @InjectRepository(HostelStaffMember)
+    private staffRepository: Repository<HostelStaffMember>,
+    @InjectRepository(Hostel)
+    private hostelRepository: Repository<Hostel>,
+    private configService: ConfigService,
+  ) { }
+
+  async onModuleInit() {
+    const owners = parseOwners(this.configService.get<string>('HOSTEL_OWNERS', ''));
+
+    for (const { businessId, userId } of owners) {
+      try {
+        await this.seedOwner(businessId, userId);
+      } catch (error) {
+        this.logger.error(`❌ Could not seed owner ${userId} of business ${businessId}: ${error.message}`);
+      }
+    }
+  }
+
+  /**
+   * Make the user an owner of the business's hostel unless they already
+   * have a membership there; a later demotion or removal is not undone
+   */
+  async seedOwner(businessId: string, userId: string): Promise<boolean> {
+    const hostel = await this.hostelRepository.findOne({ where: { businessId } });
+    if (!hostel) {
+      this.logger.warn(`⚠️ No hostel for business ${businessId}; owner ${userId} not seeded`);
+      return false;
+    }
+
+    // Unique (hostel_id, user_id) makes reseeding on every start a no-op
+    const result = await this.staffRepository
+      .createQueryBuilder()
+      .insert()
+      .into(HostelStaffMember)
+      .values({
+        hostelId: hostel.id,
+        userId,
+        role: HostelStaffRole.OWNER,
+        isActive: true
+      })
+      .orIgnore()
+      .execute();
+
+    const seeded = result.raw?.length > 0;
+    if (seeded) {
+      this.logger.log(`👑 User ${userId} seeded as owner of hostel ${hostel.id}`);
+    }
+    return seeded;
+  }
+
+  /**
+   * Role of the user in the hostel, or null if they are not active staff
+   */
+  async resolveRole(hostelId: string, user: Pick<JwtPayload, 'id'>): Promise<HostelStaffRole | null> {
+    const member = await this.staffRepository.findOne({
+      where: { hostelId, userId: user.id }
+    });
+
+    return member?.isActive ? member.role : null;
+  }
+
+  async getStaff(hostelId: string) {
+    const members = await this.staffRepository.find({
+      where: { hostelId },
+      order: { isActive: 'DESC', createdAt: 'ASC' }
+    });
+
+    return members.map(member => this.transformToApiResponse(member));
+  }
+
+  /**
+   * User ids of the hostel's active staff holding one of the roles, e.g. to alert wardens
+   */
+  async getActiveUserIds(hostelId: string, roles: HostelStaffRole[]): Promise<string[]> {
+    const members = await this.staffRepository.find({
+      where: { hostelId, role: In(roles), isActive: true },
+      order: { createdAt: 'ASC' }
+    });
+
+    return members.map(member => member.userId);
+  }
+
+  async getMyAccess(hostelId: string, user: JwtPayload) {
+    const role = await this.resolveRole(hostelId, user);
+
+    return {
+      userId: user.id,
+      role,
+      permissions: role ? ROLE_PERMISSIONS[role] : []
+    };
+  }
+
+  async assignRole(hostelId: string, userId: string, assignDto: AssignStaffRoleDto, assignedBy?: string) {
+    let member = await this.staffRepository.findOne({ where: { hostelId, userId } });
+
+    if (member?.isActive && member.role === HostelStaffRole.OWNER && assignDto.role !== HostelStaffRole.OWNER) {
+      await this.assertAnotherOwner(hostelId, userId);
+    }
+
+    if (!member) {
+      member = this.staffRepository.create({ hostelId, userId });
+    }
+
+    member.role = assignDto.role;
+    member.isActive = true;
+    member.assignedBy = assignedBy;
+    if (assignDto.name !== undefined) {
+      member.name = assignDto.name;
+    }
+    if (assignDto.kahaId !== undefined) {
+      member.kahaId = assignDto.kahaId;
+    }
+
+    const saved = await this.staffRepository.save(member);
+    this.logger.log(`👥 ${userId} is now ${saved.role} of hostel ${hostelId} (by ${assignedBy || 'system'})`);
+
+    return this.transformToApiResponse(saved);
+  }
+
+  async removeStaff(hostelId: string, userId: string, removedBy?: string) {
+    const member = await this.staffRepository.findOne({ where: { hostelId, userId, isActive: true } });
+    if (!member) {
+      throw new NotFoundException(`Staff member ${userId} not found`);
+    }
+
+    if (member.role === HostelStaffRole.OWNER) {
+      await this.assertAnotherOwner(hostelId, userId);
+    }
+
+    member.isActive = false;
+    member.assignedBy = removedBy;
+    const saved = await this.staffRepository.save(member);
+    this.logger.log(`🚫 ${userId} removed from hostel ${hostelId} staff (by ${removedBy || 'system'})`);
+
+    return this.transformToApiResponse(saved);
+  }
+
+  private async assertAnotherOwner(hostelId: string, userId: string) {
+    const owners = await this.staffRepository.find({
+      where: { hostelId, role: HostelStaffRole.OWNER, isActive: true }
+    });
+
+    if (!owners.some(owner => owner.userId !== userId)) {
+      throw new BadRequestException('A hostel must keep at least one owner');
+    }
+  }
+
+  private transformToApiResponse(member: HostelStaffMember) {
+    return {
+      id: member.id,
+      userId: member.userId,
+      kahaId: member.kahaId,
+      name: member.name,
+      role: member.role,
+      permissions: ROLE_PERMISSIONS[member.role] || [],
+      isActive: member.isActive,
+      assignedBy: member.assignedBy,
+      createdAt: member.createdAt,
+      updatedAt: member.updatedAt
+    };
+  }
+}
+
+/**
+ * "business-1:user-1, business-2:user-2" -> [{ businessId, userId }, ...]
+ */
+function parseOwners(value: string): { businessId: string; userId: string }[] {
+  return (value || '')
+    .split(',')
+    .map(pair => pair.trim())
+    .filter(Boolean)
+    .map(pair => {
+      const [businessId, userId] = pair.split(':').map(part => part.trim());
+      return { businessId, userId };
+    })
+    .filter(owner => owner.businessId && owner.userId);
+}
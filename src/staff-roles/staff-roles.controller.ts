@@ -0,0 +1,81 @@
+import { Controller, Get, Put, Delete, Body, Param, HttpStatus, UseGuards } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
+import { StaffRolesService } from './services/staff-roles.service';
+import { AssignStaffRoleDto } from './dto';
+import { RolesGuard } from './guards/roles.guard';
+import { Permissions } from './decorators/permissions.decorator';
+import { Permission } from './permissions';
+import { GetHostelId } from '../hostel/decorators/hostel-context.decorator';
+import { HostelAuthWithContextGuard } from '../auth/guards/hostel-auth-with-context.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { JwtPayload } from '../auth/interfaces/jwt-payload.interface';
+
+@ApiTags('staff-roles')
+@Controller('staff-roles')
+@UseGuards(HostelAuthWithContextGuard, RolesGuard)
+@ApiBearerAuth()
+export class StaffRolesController {
+  constructor(private readonly staffRolesService: StaffRolesService) { }
+
+  @Get('me')
+  @ApiOperation({ summary: 'Get the current user\'s role and permissions in this hostel' })
+  @ApiResponse({ status: 200, description: 'Role retrieved successfully' })
+  async getMyAccess(@GetHostelId() hostelId: string, @CurrentUser() user: JwtPayload) {
+    const access = await this.staffRolesService.getMyAccess(hostelId, user);
+
+    return {
+      status: HttpStatus.OK,
+      data: access
+    };
+  }
+
+  @Get()
+  @Permissions(Permission.STAFF_MANAGE)
+  @ApiOperation({ summary: 'List hostel staff and their roles' })
+  @ApiResponse({ status: 200, description: 'Staff retrieved successfully' })
+  async getStaff(@GetHostelId() hostelId: string) {
+    const staff = await this.staffRolesService.getStaff(hostelId);
+
+    return {
+      status: HttpStatus.OK,
+      data: staff
+    };
+  }
+
+  @Put(':userId')
+  @Permissions(Permission.STAFF_MANAGE)
+  @ApiOperation({ summary: 'Assign or change a staff member\'s role' })
+  @ApiResponse({ status: 200, description: 'Role assigned successfully' })
+  @ApiResponse({ status: 400, description: 'Hostel would be left without an owner' })
+  async assignRole(
+    @GetHostelId() hostelId: string,
+    @Param('userId') userId: string,
+    @Body() assignDto: AssignStaffRoleDto,
+    @CurrentUser() user: JwtPayload
+  ) {
+    const member = await this.staffRolesService.assignRole(hostelId, userId, assignDto, user?.id);
+
+    return {
+      status: HttpStatus.OK,
+      data: member
+    };
+  }
+
+  @Delete(':userId')
+  @Permissions(Permission.STAFF_MANAGE)
+  @ApiOperation({ summary: 'Remove a staff member from the hostel' })
+  @ApiResponse({ status: 200, description: 'Staff member removed successfully' })
+  @ApiResponse({ status: 404, description: 'Staff member not found' })
+  async removeStaff(
+    @GetHostelId() hostelId: string,
+    @Param('userId') userId: string,
+    @CurrentUser() user: JwtPayload
+  ) {
+    const member = await this.staffRolesService.removeStaff(hostelId, userId, user?.id);
+
+    return {
+      status: HttpStatus.OK,
+      data: member
+    };
+  }
+}
@@ -0,0 +1,19 @@
+import { Module, forwardRef } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { StaffRolesController } from './staff-roles.controller';
+import { StaffRolesService } from './services/staff-roles.service';
+import { RolesGuard } from './guards/roles.guard';
+import { HostelStaffMember } from './entities/hostel-staff-member.entity';
+import { Hostel } from '../hostel/entities/hostel.entity';
+import { AuthModule } from '../auth/auth.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([HostelStaffMember, Hostel]),
+    forwardRef(() => AuthModule),
+  ],
+  controllers: [StaffRolesController],
+  providers: [StaffRolesService, RolesGuard],
+  exports: [StaffRolesService, RolesGuard],
+})
+export class StaffRolesModule {}
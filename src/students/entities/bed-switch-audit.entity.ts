@@ -2,6 +2,13 @@ import { Entity, Column, Index, ManyToOne, JoinColumn } from 'typeorm';
 import { BaseEntity } from '../../common/entities/base.entity';
 import { Student } from './student.entity';
 
+export enum BedSwitchProrationStatus {
+  NONE = 'none',                        // Rate did not change
+  PENDING_INVOICE = 'pending_invoice',  // Month not invoiced yet; its invoice splits the rent at the switch date
+  POSTED = 'posted',                    // Month already invoiced at the old rate; difference posted to LedgerV2
+  INVOICED = 'invoiced'                 // Included in the month's invoice
+}
+
 @Entity('bed_switch_audit')
 @Index(['studentId'])
 @Index(['switchDate'])
@@ -52,6 +59,34 @@ export class BedSwitchAudit extends BaseEntity {
   @Column({ name: 'financial_snapshot', type: 'jsonb', nullable: true })
   financialSnapshot: any;
 
+  // Proration of the rate change over the rest of the billing month the switch falls in
+  @Column({ name: 'billing_month', length: 7, nullable: true })
+  billingMonth: string;
+
+  @Column({ name: 'days_in_period', type: 'int', nullable: true })
+  daysInPeriod: number;
+
+  @Column({ name: 'prorated_days', type: 'int', nullable: true })
+  proratedDays: number;
+
+  // Positive = extra charge for the remaining days, negative = credit
+  @Column({ name: 'prorated_amount', type: 'decimal', precision: 10, scale: 2, default: 0 })
+  proratedAmount: number;
+
+  @Column({
+    name: 'proration_status',
+    type: 'enum',
+    enum: BedSwitchProrationStatus,
+    default: BedSwitchProrationStatus.NONE
+  })
+  prorationStatus: BedSwitchProrationStatus;
+
+  @Column({ name: 'proration_ledger_entry_id', nullable: true })
+  prorationLedgerEntryId: string;
+
+  @Column({ name: 'proration_invoice_id', nullable: true })
+  prorationInvoiceId: string;
+
   // Relations
   @ManyToOne(() => Student, { onDelete: 'CASCADE' })
   @JoinColumn({ name: 'student_id' })
@@ -0,0 +1,109 @@
+import { BedSwitchBillingService } from './bed-switch-billing.service';
+import { BedSwitchProrationStatus } from '../entities/bed-switch-audit.entity';
+import { CalendarSystem } from '../../common/utils/bikram-sambat.util';
+
+describe('BedSwitchBillingService', () => {
+  let service: BedSwitchBillingService;
+
+  const audit = (overrides: any = {}) => ({
+    id: 'audit-1',
+    studentId: 'student-1',
+    fromBedId: 'bed-a',
+    toBedId: 'bed-b',
+    oldRate: 8000,
+    newRate: 9500,
+    switchDate: '2025-11-16',
+    billingMonth: '2025-11',
+    daysInPeriod: 30,
+    proratedDays: 15,
+    proratedAmount: 750,
+    prorationStatus: BedSwitchProrationStatus.PENDING_INVOICE,
+    financialSnapshot: { oldBed: { identifier: 'R101-B1' }, newBed: { identifier: 'R201-B1' } },
+    student: { id: 'student-1', hostelId: 'hostel-1' },
+    ...overrides
+  });
+
+  const mockAuditRepository = {
+    findOne: jest.fn(),
+    find: jest.fn(),
+    update: jest.fn().mockResolvedValue({ affected: 1 }),
+  };
+
+  const mockInvoiceRepository = {
+    findOne: jest.fn(),
+  };
+
+  const mockLedgerV2Service = {
+    createAdjustmentEntry: jest.fn().mockResolvedValue({ id: 'ledger-1' }),
+  };
+
+  const mockHostelService = {
+    getCalendarSystem: jest.fn().mockResolvedValue(CalendarSystem.AD),
+  };
+
+  beforeEach(() => {
+    service = new BedSwitchBillingService(
+      mockAuditRepository as any,
+      mockInvoiceRepository as any,
+      mockLedgerV2Service as any,
+      mockHostelService as any
+    );
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should prorate the rate difference over the rest of the billing month', async () => {
+    const proration = await service.calculateProration('hostel-1', new Date(2025, 10, 16), 8000, 9500);
+
+    expect(proration).toEqual({
+      billingMonth: '2025-11',
+      daysInPeriod: 30,
+      proratedDays: 15,
+      proratedAmount: 750,
+      prorationStatus: BedSwitchProrationStatus.PENDING_INVOICE
+    });
+  });
+
+  it('should post the difference to LedgerV2 when the month was already invoiced', async () => {
+    mockAuditRepository.findOne.mockResolvedValue(audit());
+    mockInvoiceRepository.findOne.mockResolvedValue({ id: 'invoice-1', hostelId: 'hostel-1' });
+
+    await service.settleProration('audit-1');
+
+    expect(mockAuditRepository.update).toHaveBeenCalledWith(
+      { id: 'audit-1', prorationStatus: BedSwitchProrationStatus.PENDING_INVOICE },
+      { prorationStatus: BedSwitchProrationStatus.POSTED, prorationInvoiceId: 'invoice-1' }
+    );
+    expect(mockLedgerV2Service.createAdjustmentEntry).toHaveBeenCalledWith(
+      expect.objectContaining({ studentId: 'student-1', amount: 750, type: 'debit' }),
+      'hostel-1'
+    );
+    expect(mockAuditRepository.update).toHaveBeenCalledWith('audit-1', { prorationLedgerEntryId: 'ledger-1' });
+  });
+
+  it('should leave the proration for the invoice when the month is not invoiced yet', async () => {
+    mockAuditRepository.findOne.mockResolvedValue(audit());
+    mockInvoiceRepository.findOne.mockResolvedValue(null);
+
+    await service.settleProration('audit-1');
+
+    expect(mockLedgerV2Service.createAdjustmentEntry).not.toHaveBeenCalled();
+    expect(mockAuditRepository.update).not.toHaveBeenCalled();
+  });
+
+  it('should split the rent into one line per bed', async () => {
+    mockAuditRepository.find.mockResolvedValue([audit()]);
+
+    const result = await service.getRentSegments('student-1', '2025-11', {
+      start: new Date(2025, 10, 1),
+      end: new Date(2025, 10, 30)
+    });
+
+    expect(result.segments.map(({ bedIdentifier, rate, days, amount }) => ({ bedIdentifier, rate, days, amount }))).toEqual([
+      { bedIdentifier: 'R101-B1', rate: 8000, days: 15, amount: 4000 },
+      { bedIdentifier: 'R201-B1', rate: 9500, days: 15, amount: 4750 }
+    ]);
+  });
+});
@@ -0,0 +1,195 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, Repository } from 'typeorm';
+import { BedSwitchAudit, BedSwitchProrationStatus } from '../entities/bed-switch-audit.entity';
+import { Invoice } from '../../invoices/entities/invoice.entity';
+import { LedgerV2Service } from '../../ledger-v2/services/ledger-v2.service';
+import { HostelService } from '../../hostel/hostel.service';
+import { getCalendarMonth, getCalendarMonthRange } from '../../common/utils/bikram-sambat.util';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface RentSegment {
+  bedIdentifier: string;
+  rate: number;
+  days: number;
+  daysInPeriod: number;
+  from: Date;
+  to: Date;
+  amount: number;
+}
+
+/**
+ * Bed Switch Billing Service
+ * Monthly billing charges one rate per month, so a switch to a bed with a
+ * different rate is prorated over the rest of the billing month it falls in:
+ * - month already invoiced (at the old rate): the difference for the
+ *   remaining days is posted to LedgerV2 right after the switch
+ * - month not invoiced yet: its invoice carries one rent line per bed, each
+ *   for the days the student had it
+ * Either way the BedSwitchAudit row records what was done.
+ */
+@Injectable()
+export class BedSwitchBillingService {
+  private readonly logger = new Logger(BedSwitchBillingService.name);
+
+  constructor(
+    @InjectRepository(BedSwitchAudit)
+    private bedSwitchAuditRepository: Repository<BedSwitchAudit>,
+    @InjectRepository(Invoice)
+    private invoiceRepository: Repository<Invoice>,
+    private ledgerV2Service: LedgerV2Service,
+    private hostelService: HostelService,
+  ) {}
+
+  /**
+   * Proration fields for a BedSwitchAudit, in the hostel's billing calendar
+   */
+  async calculateProration(hostelId: string, effectiveDate: Date, oldRate: number, newRate: number) {
+    const calendar = await this.hostelService.getCalendarSystem(hostelId);
+    const billingMonth = getCalendarMonth(effectiveDate, calendar);
+    const period = getCalendarMonthRange(billingMonth.year, billingMonth.month, calendar);
+
+    const daysInPeriod = countDays(period.start, period.end);
+    const proratedDays = countDays(effectiveDate, period.end);
+    const proratedAmount = roundAmount((Number(newRate) - Number(oldRate)) * proratedDays / daysInPeriod);
+
+    return {
+      billingMonth: billingMonth.key,
+      daysInPeriod,
+      proratedDays,
+      proratedAmount,
+      prorationStatus: proratedAmount !== 0 ? BedSwitchProrationStatus.PENDING_INVOICE : BedSwitchProrationStatus.NONE
+    };
+  }
+
+  /**
+   * Post the prorated difference when the switch month was already invoiced.
+   * Called after the switch has committed; otherwise the proration waits for
+   * the month's invoice.
+   */
+  async settleProration(auditId: string) {
+    const audit = await this.bedSwitchAuditRepository.findOne({ where: { id: auditId }, relations: ['student'] });
+    if (!audit || audit.prorationStatus !== BedSwitchProrationStatus.PENDING_INVOICE) {
+      return audit;
+    }
+
+    const invoice = await this.invoiceRepository.findOne({
+      where: { studentId: audit.studentId, month: audit.billingMonth }
+    });
+    if (!invoice) {
+      this.logger.log(`🧾 Bed switch ${audit.id}: ${audit.billingMonth} not invoiced yet, proration goes on its invoice`);
+      return audit;
+    }
+
+    const claimed = await this.bedSwitchAuditRepository.update(
+      { id: audit.id, prorationStatus: BedSwitchProrationStatus.PENDING_INVOICE },
+      { prorationStatus: BedSwitchProrationStatus.POSTED, prorationInvoiceId: invoice.id }
+    );
+    if (!claimed.affected) {
+      return audit;
+    }
+
+    const proratedAmount = Number(audit.proratedAmount);
+    const snapshot = audit.financialSnapshot || {};
+
+    try {
+      const entry = await this.ledgerV2Service.createAdjustmentEntry({
+        studentId: audit.studentId,
+        amount: Math.abs(proratedAmount),
+        description: `Bed switch ${snapshot.oldBed?.identifier || audit.fromBedId} → ${snapshot.newBed?.identifier || audit.toBedId}, ` +
+          `${audit.proratedDays}/${audit.daysInPeriod} days of ${audit.billingMonth} at NPR ${audit.oldRate} → ${audit.newRate}`,
+        type: proratedAmount > 0 ? 'debit' : 'credit'
+      }, invoice.hostelId || audit.student?.hostelId);
+
+      await this.bedSwitchAuditRepository.update(audit.id, { prorationLedgerEntryId: entry.id });
+      this.logger.log(`✅ Bed switch ${audit.id}: posted NPR ${proratedAmount} proration for ${audit.billingMonth}`);
+    } catch (error) {
+      await this.bedSwitchAuditRepository.update(
+        { id: audit.id, prorationStatus: BedSwitchProrationStatus.POSTED },
+        { prorationStatus: BedSwitchProrationStatus.PENDING_INVOICE, prorationInvoiceId: null }
+      );
+      this.logger.error(`❌ Bed switch ${audit.id}: failed to post proration: ${error.message}`);
+      throw error;
+    }
+
+    return this.bedSwitchAuditRepository.findOne({ where: { id: audit.id } });
+  }
+
+  /**
+   * Rent lines for a month in which the student switched beds: one per bed,
+   * each charged at that bed's rate for the days the student had it.
+   * Returns null when the month needs no split.
+   */
+  async getRentSegments(studentId: string, monthKey: string, period: { start: Date; end: Date }) {
+    const audits = await this.bedSwitchAuditRepository.find({
+      where: { studentId, billingMonth: monthKey, prorationStatus: BedSwitchProrationStatus.PENDING_INVOICE },
+      order: { switchDate: 'ASC', createdAt: 'ASC' }
+    });
+
+    if (audits.length === 0) {
+      return null;
+    }
+
+    const daysInPeriod = countDays(period.start, period.end);
+    const segments: RentSegment[] = [];
+
+    let from = toDateOnly(period.start);
+    let rate = Number(audits[0].oldRate);
+    let bedIdentifier = audits[0].financialSnapshot?.oldBed?.identifier || audits[0].fromBedId;
+
+    const addSegment = (to: Date) => {
+      const days = countDays(from, to);
+      if (days > 0) {
+        segments.push({ bedIdentifier, rate, days, daysInPeriod, from, to, amount: roundAmount(rate * days / daysInPeriod) });
+      }
+    };
+
+    for (const audit of audits) {
+      const switchDate = toDateOnly(audit.switchDate);
+      addSegment(new Date(switchDate.getTime() - DAY_MS));
+
+      from = switchDate;
+      rate = Number(audit.newRate);
+      bedIdentifier = audit.financialSnapshot?.newBed?.identifier || audit.toBedId;
+    }
+    addSegment(toDateOnly(period.end));
+
+    return { audits, segments };
+  }
+
+  async markInvoiced(audits: BedSwitchAudit[], invoiceId: string) {
+    if (audits.length === 0) {
+      return;
+    }
+
+    await this.bedSwitchAuditRepository.update(
+      { id: In(audits.map(audit => audit.id)), prorationStatus: BedSwitchProrationStatus.PENDING_INVOICE },
+      { prorationStatus: BedSwitchProrationStatus.INVOICED, prorationInvoiceId: invoiceId }
+    );
+  }
+}
+
+/**
+ * Whole days from `from` to `to`, both included
+ */
+function countDays(from: Date | string, to: Date | string): number {
+  const start = toDateOnly(from);
+  const end = toDateOnly(to);
+  return Math.round((Date.UTC(end.getFullYear(), end.getMonth(), end.getDate()) -
+    Date.UTC(start.getFullYear(), start.getMonth(), start.getDate())) / DAY_MS) + 1;
+}
+
+// `date` columns come back from Postgres as "YYYY-MM-DD" strings
+function toDateOnly(value: Date | string): Date {
+  if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    const [year, month, day] = value.split('-').map(Number);
+    return new Date(year, month - 1, day);
+  }
+  const date = new Date(value);
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+function roundAmount(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
@@ -1,10 +1,19 @@
 import { Injectable, BadRequestException } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import { In, Repository } from 'typeorm';
 import { Student } from '../entities/student.entity';
 import { Payment, PaymentType, PaymentMethod, PaymentStatus } from '../../payments/entities/payment.entity';
 import { LedgerV2Service } from '../../ledger-v2/services/ledger-v2.service';
 import { AdvancePaymentService } from './advance-payment.service';
+import { HostelService } from '../../hostel/hostel.service';
+import { RefundsService } from '../../refunds/services/refunds.service';
+import {
+  CalendarSystem,
+  BS_MONTH_NAMES,
+  getCalendarMonth,
+  getCalendarMonthRange,
+  toDualDate
+} from '../../common/utils/bikram-sambat.util';
 
 export interface UsageCalculation {
   month: string;
@@ -23,6 +32,9 @@ export interface CheckoutSettlement {
   studentName: string;
   enrollmentDate: string;
   checkoutDate: string;
+  enrollmentDateBs: string | null;
+  checkoutDateBs: string | null;
+  calendar: CalendarSystem;
   totalDaysStayed: number;
   totalPaymentsMade: number;
   totalActualUsage: number;
@@ -54,6 +66,8 @@ export class CheckoutSettlementService {
     private paymentRepository: Repository<Payment>,
     private ledgerV2Service: LedgerV2Service,
     private advancePaymentService: AdvancePaymentService,
+    private hostelService: HostelService,
+    private refundsService: RefundsService,
   ) {}
 
   /**
@@ -108,26 +122,29 @@ export class CheckoutSettlementService {
       console.warn(`   - Proceeding with checkout anyway (user requested)`);
     }
 
-    // Get all payments made by student
+    // Get all payments made by student, including ones since refunded in full
     const payments = await this.paymentRepository.find({
       where: { 
         studentId, 
-        status: PaymentStatus.COMPLETED 
+        status: In([PaymentStatus.COMPLETED, PaymentStatus.REFUNDED])
       },
       order: { paymentDate: 'ASC' }
     });
 
-    // Calculate total payments made
-    const totalPaymentsMade = payments.reduce((sum, payment) => sum + Number(payment.amount), 0);
+    // Calculate total payments made, less refunds already paid out
+    const totalPaymentsMade = payments.reduce((sum, payment) =>
+      payment.paymentType === PaymentType.REFUND ? sum - Number(payment.amount) : sum + Number(payment.amount), 0);
 
     // Get monthly fee calculation
     const feeCalculation = await this.advancePaymentService.calculateMonthlyFee(studentId);
 
-    // Calculate actual usage month by month
+    // Calculate actual usage month by month, prorated on the hostel's calendar months
+    const calendar = await this.hostelService.getCalendarSystem(hostelId);
     const usageBreakdown = this.calculateMonthlyUsage(
       enrollmentDateObj, 
       checkoutDateObj, 
-      feeCalculation.totalMonthlyFee
+      feeCalculation.totalMonthlyFee,
+      calendar
     );
 
     const totalActualUsage = usageBreakdown.reduce((sum, usage) => sum + usage.amount, 0);
@@ -169,6 +186,9 @@ export class CheckoutSettlementService {
       studentName: student.name,
       enrollmentDate: enrollmentDateObj.toISOString().split('T')[0],
       checkoutDate: checkoutDateObj.toISOString().split('T')[0],
+      enrollmentDateBs: toDualDate(enrollmentDateObj)?.bs ?? null,
+      checkoutDateBs: toDualDate(checkoutDateObj)?.bs ?? null,
+      calendar,
       totalDaysStayed,
       totalPaymentsMade,
       totalActualUsage: Math.round(totalActualUsage * 100) / 100,
@@ -199,6 +219,7 @@ export class CheckoutSettlementService {
     settlement: CheckoutSettlement;
     paymentId?: string;
     ledgerEntryId?: string;
+    refundId?: string;
     message: string;
   }> {
     // Calculate settlement
@@ -206,35 +227,23 @@ export class CheckoutSettlementService {
 
     let paymentId: string | undefined;
     let ledgerEntryId: string | undefined;
+    let refundId: string | undefined;
     let message: string;
 
     if (settlement.settlementSummary.settlementType === 'REFUND') {
-      // Create refund payment
-      const refundPayment = this.paymentRepository.create({
-        studentId,
+      // Refund goes through approval; the payment and ledger debit are recorded when it is paid out
+      const refund = await this.refundsService.createSettlementRefund(
         hostelId,
-        amount: settlement.refundDue,
-        paymentType: PaymentType.REFUND,
-        paymentMethod: PaymentMethod.CASH, // Default, can be changed
-        paymentDate: new Date(checkoutDate),
-        status: PaymentStatus.COMPLETED,
-        notes: notes || `Checkout refund - ${settlement.totalDaysStayed} days usage`,
-        processedBy: 'checkout_settlement_system'
-      });
-
-      const savedRefund = await this.paymentRepository.save(refundPayment);
-      paymentId = savedRefund.id;
-
-      // Create ledger entry (DEBIT - refund to student)
-      const ledgerEntry = await this.ledgerV2Service.createAdjustmentEntry({
         studentId,
-        amount: settlement.refundDue,
-        description: `Checkout refund - ${settlement.studentName} - Actual usage settlement`,
-        type: 'debit'
-      }, hostelId);
+        settlement.refundDue,
+        `Checkout refund - ${settlement.studentName} - Actual usage settlement`,
+        settlement,
+        'checkout_settlement_system',
+        notes || `Checkout refund - ${settlement.totalDaysStayed} days usage`
+      );
 
-      ledgerEntryId = ledgerEntry.id;
-      message = `Refund of NPR ${settlement.refundDue.toLocaleString()} processed for checkout settlement`;
+      refundId = refund.id;
+      message = `Refund of NPR ${settlement.refundDue.toLocaleString()} requested for checkout settlement and awaiting approval`;
 
     } else if (settlement.settlementSummary.settlementType === 'ADDITIONAL_PAYMENT') {
       // Create additional payment due record (this would typically be collected before checkout)
@@ -273,6 +282,7 @@ export class CheckoutSettlementService {
       settlement,
       paymentId,
       ledgerEntryId,
+      refundId,
       message
     };
   }
@@ -283,30 +293,27 @@ export class CheckoutSettlementService {
   private calculateMonthlyUsage(
     enrollmentDate: Date, 
     checkoutDate: Date, 
-    monthlyFee: number
+    monthlyFee: number,
+    calendar: CalendarSystem = CalendarSystem.AD
   ): UsageCalculation[] {
     const usage: UsageCalculation[] = [];
-    const current = new Date(enrollmentDate);
+    const lastDay = new Date(checkoutDate.getFullYear(), checkoutDate.getMonth(), checkoutDate.getDate());
+    let current = new Date(enrollmentDate.getFullYear(), enrollmentDate.getMonth(), enrollmentDate.getDate());
 
-    while (current <= checkoutDate) {
-      const year = current.getFullYear();
-      const month = current.getMonth();
-      const monthKey = `${year}-${String(month + 1).padStart(2, '0')}`;
-      const monthName = this.getMonthName(month);
+    while (current <= lastDay) {
+      const { year, month, key: monthKey } = getCalendarMonth(current, calendar);
+      const monthName = calendar === CalendarSystem.BS ? BS_MONTH_NAMES[month - 1] : this.getMonthName(month - 1);
+
+      // Get days in this month (BS months have 29-32 days)
+      const { start: monthStart, end: monthEnd } = getCalendarMonthRange(year, month, calendar);
+      const daysInMonth = this.daysBetween(monthStart, monthEnd) + 1;
+
+      const usageStart = current;
+      const usageEnd = lastDay < monthEnd ? lastDay : monthEnd;
 
-      // Get days in this month
-      const daysInMonth = new Date(year, month + 1, 0).getDate();
-      
-      // Calculate days used in this month
-      const monthStart = new Date(year, month, 1);
-      const monthEnd = new Date(year, month + 1, 0);
-      
-      const usageStart = current.getTime() === enrollmentDate.getTime() ? enrollmentDate : monthStart;
-      const usageEnd = checkoutDate < monthEnd ? checkoutDate : monthEnd;
-      
       // Calculate days used (inclusive of both start and end dates)
-      const daysUsed = Math.floor((usageEnd.getTime() - usageStart.getTime()) / (1000 * 60 * 60 * 24)) + 1;
-      
+      const daysUsed = this.daysBetween(usageStart, usageEnd) + 1;
+
       // Calculate daily rate and amount
       const dailyRate = monthlyFee / daysInMonth;
       const amount = dailyRate * daysUsed;
@@ -323,14 +330,23 @@ export class CheckoutSettlementService {
         period: `${usageStart.toLocaleDateString()} to ${usageEnd.toLocaleDateString()}`
       });
 
-      // Move to next month
-      current.setMonth(current.getMonth() + 1);
-      current.setDate(1);
+      // Move to the first day of the next month
+      current = new Date(monthEnd.getFullYear(), monthEnd.getMonth(), monthEnd.getDate() + 1);
     }
 
     return usage;
   }
 
+  /**
+   * Whole days between two local dates (DST-safe)
+   */
+  private daysBetween(from: Date, to: Date): number {
+    return Math.round(
+      (Date.UTC(to.getFullYear(), to.getMonth(), to.getDate()) - Date.UTC(from.getFullYear(), from.getMonth(), from.getDate()))
+      / (1000 * 60 * 60 * 24)
+    );
+  }
+
   /**
    * Get month name from month number
    */
@@ -5,6 +5,8 @@ import { firstValueFrom } from 'rxjs';
 import { Student } from './entities/student.entity';
 import { JwtPayload } from '../auth/interfaces/jwt-payload.interface';
 import { getExternalApiConfig, logApiConfig } from '../config/environment.config';
+import { NotificationTemplateService } from '../notification/notification-template.service';
+import { NotificationTemplateKey } from '../notification/templates/default-notification-templates';
 
 /**
  * Service to handle student-related notifications
@@ -21,6 +23,7 @@ export class StudentNotificationService {
   constructor(
     private readonly httpService: HttpService,
     private readonly configService: ConfigService,
+    private readonly notificationTemplateService: NotificationTemplateService,
   ) {
     // Get URLs from centralized config
     const apiConfig = getExternalApiConfig(this.configService);
@@ -70,6 +73,11 @@ export class StudentNotificationService {
       
       // 2. Get business name (hardcoded for now)
       const businessName = await this.getBusinessName(adminJwt.id);
+      const { title, message } = await this.notificationTemplateService.render(
+        student.hostelId,
+        NotificationTemplateKey.STUDENT_ROOM_SETUP_COMPLETE,
+        { hostelName: businessName }
+      );
       
       // 3. Compose payload for student configuration notification (booking notification format)
       const payload = {
@@ -84,8 +92,8 @@ export class StudentNotificationService {
           roomId: student.roomId || student.id,
           // Custom notification type and message for configuration
           notificationType: 'CONFIGURATION',
-          title: '🏠 Room Setup Complete',
-          message: `Your room and billing has been configured at ${businessName}`,
+          title,
+          message,
           // Additional configuration details
           studentId: student.id,
           studentName: student.name,
@@ -286,6 +294,11 @@ export class StudentNotificationService {
 
       // 3. Get business name
       const businessName = hostelName || 'Your Hostel';
+      const { title, message } = await this.notificationTemplateService.render(
+        student.hostelId,
+        NotificationTemplateKey.STUDENT_CHECKOUT_COMPLETE,
+        { hostelName: businessName }
+      );
 
       // 4. Compose payload for checkout notification
       const payload = {
@@ -300,8 +313,8 @@ export class StudentNotificationService {
           roomId: student.roomId || student.id,
           // Custom notification type for checkout
           notificationType: 'CHECKOUT',
-          title: '👋 Checkout Complete',
-          message: `Your checkout from ${businessName} has been processed. Thank you for staying with us!`,
+          title,
+          message,
           // Additional checkout details
           metadata: {
             studentId: student.id,
@@ -15,11 +15,17 @@ import { CurrentUser } from '../auth/decorators/current-user.decorator';
 import { JwtPayload } from '../auth/interfaces/jwt-payload.interface';
 import { HostelAuthWithContextGuard } from '../auth/guards/hostel-auth-with-context.guard';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../staff-roles/guards/roles.guard';
+import { Permissions } from '../staff-roles/decorators/permissions.decorator';
+import { Permission } from '../staff-roles/permissions';
 import { HostelService } from '../hostel/hostel.service';
+import { Audited, SkipAudit } from '../audit/decorators/audited.decorator';
+import { Student } from './entities/student.entity';
 
 @ApiTags('students')
 @Controller('students')
-@UseGuards(HostelAuthWithContextGuard)
+@UseGuards(HostelAuthWithContextGuard, RolesGuard)
+@Audited({ entity: Student })
 @ApiBearerAuth()
 export class StudentsController {
   constructor(
@@ -209,6 +215,7 @@ export class StudentsController {
   }
 
   @Post(':id/checkout')
+  @Permissions(Permission.STUDENT_CHECKOUT)
   @ApiOperation({ summary: 'Process student checkout' })
   @ApiResponse({ status: 200, description: 'Checkout processed successfully' })
   @ApiResponse({ status: 400, description: 'Checkout validation failed' })
@@ -262,6 +269,7 @@ export class StudentsController {
   }
 
   @Post('search')
+  @SkipAudit()
   @ApiOperation({ summary: 'Advanced search for students' })
   @ApiResponse({ status: 200, description: 'Search results retrieved successfully' })
   async searchStudents(@Body(ValidationPipe) searchDto: SearchStudentDto) {
@@ -432,6 +440,7 @@ export class StudentsController {
   }
 
   @Post(':id/calculate-settlement')
+  @SkipAudit()
   @ApiOperation({ summary: 'Calculate checkout settlement (Nepalese billing)' })
   @ApiResponse({ status: 200, description: 'Settlement calculated successfully' })
   async calculateSettlement(
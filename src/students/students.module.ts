@@ -12,6 +12,7 @@ import { LedgerEntry } from '../ledger/entities/ledger-entry.entity';
 import { Room } from '../rooms/entities/room.entity';
 import { RoomOccupant } from '../rooms/entities/room-occupant.entity';
 import { Payment } from '../payments/entities/payment.entity';
+import { Invoice } from '../invoices/entities/invoice.entity';
 import { Bed } from '../rooms/entities/bed.entity';
 import { RoomsModule } from '../rooms/rooms.module';
 import { Hostel } from '../hostel/entities/hostel.entity';
@@ -21,8 +22,13 @@ import { LedgerV2Module } from '../ledger-v2/ledger-v2.module';
 import { AttendanceModule } from '../attendance/attendance.module';
 import { AdvancePaymentService } from './services/advance-payment.service';
 import { CheckoutSettlementService } from './services/checkout-settlement.service';
+import { BedSwitchBillingService } from './services/bed-switch-billing.service';
 import { StudentNotificationService } from './student-notification.service';
 import { InvoicesModule } from '../invoices/invoices.module';
+import { StaffRolesModule } from '../staff-roles/staff-roles.module';
+import { RefundsModule } from '../refunds/refunds.module';
+import { EventsModule } from '../events/events.module';
+import { NotificationModule } from '../notification/notification.module';
 
 @Module({
   imports: [
@@ -36,6 +42,7 @@ import { InvoicesModule } from '../invoices/invoices.module';
       Room,
       RoomOccupant,
       Payment,
+      Invoice,
       Bed,
       Hostel
     ]),
@@ -46,19 +53,25 @@ import { InvoicesModule } from '../invoices/invoices.module';
     LedgerV2Module,
     forwardRef(() => AttendanceModule),
     InvoicesModule,
+    StaffRolesModule,
+    RefundsModule,
+    EventsModule,
+    NotificationModule, // Student pushes are rendered from notification templates
   ],
   controllers: [StudentsController],
   providers: [
     StudentsService,
     AdvancePaymentService,
     CheckoutSettlementService,
-    StudentNotificationService
+    StudentNotificationService,
+    BedSwitchBillingService
   ],
   exports: [
     StudentsService,
     AdvancePaymentService,
     CheckoutSettlementService,
-    StudentNotificationService
+    StudentNotificationService,
+    BedSwitchBillingService
   ],
 })
 export class StudentsModule { }
\ No newline at end of file
@@ -4,7 +4,7 @@ import { ConfigService } from '@nestjs/config';
 import { firstValueFrom } from 'rxjs';
 import { getExternalApiConfig, logApiConfig } from '../config/environment.config';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository, QueryRunner, DataSource, IsNull } from 'typeorm';
+import { Repository, QueryRunner, DataSource, IsNull, EntityManager } from 'typeorm';
 import { Student, StudentStatus } from './entities/student.entity';
 import { StudentContact, ContactType } from './entities/student-contact.entity';
 import { StudentAcademicInfo } from './entities/student-academic-info.entity';
@@ -22,13 +22,16 @@ import { Hostel } from '../hostel/entities/hostel.entity';
 import { BedSyncService } from '../rooms/bed-sync.service';
 import { AdvancePaymentService } from './services/advance-payment.service';
 import { CheckoutSettlementService } from './services/checkout-settlement.service';
+import { BedSwitchBillingService } from './services/bed-switch-billing.service';
 import { InvoicesService } from '../invoices/invoices.service';
+import { HostelService } from '../hostel/hostel.service';
 import { Payment } from '../payments/entities/payment.entity';
 import { AttendanceService } from '../attendance/attendance.service';
 import { StudentNotificationService } from './student-notification.service';
 import { Inject, forwardRef } from '@nestjs/common';
 import { v4 as uuidv4 } from 'uuid';
 import { JwtPayload } from '../auth/interfaces/jwt-payload.interface';
+import { DomainEventsService } from '../events/domain-events.service';
 
 @Injectable()
 export class StudentsService { 
@@ -66,6 +69,9 @@ export class StudentsService {
     private dataSource: DataSource,
     private httpService: HttpService,
     private configService: ConfigService,
+    private hostelService: HostelService,
+    private bedSwitchBillingService: BedSwitchBillingService,
+    private domainEventsService: DomainEventsService,
   ) {
     // Get URLs from centralized config
     const apiConfig = getExternalApiConfig(this.configService);
@@ -1245,6 +1251,7 @@ export class StudentsService {
           currentOccupantId: studentId,  // Ensure correct occupant ID
           currentOccupantName: student.name
         });
+        this.domainEventsService.publishBedStatus({ ...bed, status: BedStatus.OCCUPIED });
         console.log(`✅ Bed ${bed.bedIdentifier} status updated: RESERVED → OCCUPIED for student ${student.name}`);
         console.log(`   - Method used: ${bed.currentOccupantId === studentId ? 'currentOccupantId' : 'bedIdentifier/roomId'}`);
       } else {
@@ -1572,7 +1579,10 @@ export class StudentsService {
         null as any,
         this.financialRepository,
         null as any,
-        this.advancePaymentService
+        this.advancePaymentService,
+        this.hostelService,
+        this.bedSwitchBillingService,
+        null as any
       );
 
       return await nepalesesBillingService.getPaymentStatus(studentId, hostelId);
@@ -2005,129 +2015,16 @@ export class StudentsService {
         throw new BadRequestException('Student is already in this bed');
       }
 
-      // STEP 4: Get financial data before switch
-      const oldBalance = await this.calculateLedgerBalance(studentId);
-      const oldRate = currentBed.monthlyRate || 0;
-      const newRate = targetBed.monthlyRate || 0;
-      const rateDifference = newRate - oldRate;
-      const rateChanged = Math.abs(rateDifference) > 0.01;
-      const effectiveDate = switchBedDto.effectiveDate ? new Date(switchBedDto.effectiveDate) : new Date();
-
-      console.log(` Rate comparison: Old=${oldRate}, New=${newRate}, Difference=${rateDifference}, Changed=${rateChanged}`);
-
-      // STEP 5: Update financial info if rate changed
-      if (rateChanged) {
-        // Deactivate old base_monthly entry
-        await queryRunner.manager.update(
-          StudentFinancialInfo,
-          { studentId, feeType: FeeType.BASE_MONTHLY, isActive: true },
-          { isActive: false, effectiveTo: effectiveDate }
-        );
-
-        // Create new base_monthly entry
-        await queryRunner.manager.save(StudentFinancialInfo, {
-          studentId,
-          feeType: FeeType.BASE_MONTHLY,
-          amount: newRate,
-          effectiveFrom: effectiveDate,
-          isActive: true,
-          notes: `Rate updated due to bed switch from ${currentBed.bedIdentifier} (${oldRate}) to ${targetBed.bedIdentifier} (${newRate})`
-        });
-
-        // Create ledger adjustment entry - using safe enum values
-        // Debit (charge) uses Invoice, Credit (refund) uses Payment
-        await queryRunner.manager.save(LedgerEntry, {
-          studentId,
-          hostelId,
-          date: effectiveDate,
-          type: rateDifference > 0 ? LedgerEntryType.INVOICE : LedgerEntryType.PAYMENT,
-          balanceType: rateDifference > 0 ? BalanceType.DR : BalanceType.CR,
-          debit: rateDifference > 0 ? Math.abs(rateDifference) : 0,
-          credit: rateDifference < 0 ? Math.abs(rateDifference) : 0,
-          description: `Bed switch rate adjustment: ${oldRate} → ${newRate} (${rateDifference > 0 ? '+' : ''}${rateDifference})`,
-          isReversed: false
-        });
-
-        console.log(` Financial info updated with new rate: ${newRate}`);
-      }
-
-      // STEP 6: Update student record
-      await queryRunner.manager.update(Student, studentId, {
-        roomId: targetBed.roomId,
-        bedNumber: targetBed.bedNumber
-      });
-
-      // STEP 7: Update bed occupancy
-      // Clear old bed
-      await queryRunner.manager.update(Bed, currentBed.id, {
-        status: BedStatus.AVAILABLE,
-        currentOccupantId: null,
-        currentOccupantName: null,
-        occupiedSince: null,
-        notes: `Released by ${student.name} on ${effectiveDate.toISOString().split('T')[0]} (bed switch)`
-      });
-
-      // Assign new bed
-      await queryRunner.manager.update(Bed, targetBed.id, {
-        status: BedStatus.OCCUPIED,
-        currentOccupantId: studentId,
-        currentOccupantName: student.name,
-        occupiedSince: effectiveDate,
-        notes: `Assigned to ${student.name} via bed switch on ${effectiveDate.toISOString().split('T')[0]}`
-      });
-
-      // STEP 8: Update room occupancy history
-      // Close old occupancy
-      await queryRunner.manager
-        .createQueryBuilder()
-        .update(RoomOccupant)
-        .set({ check_out_date: effectiveDate, status: 'Transferred' })
-        .where('studentId = :studentId', { studentId })
-        .andWhere('check_out_date IS NULL')
-        .execute();
-
-      // Create new occupancy
-      await queryRunner.manager.save(RoomOccupant, {
-        studentId,
-        roomId: targetBed.roomId,
-        bedId: targetBed.id,
-        checkInDate: effectiveDate,
-        status: 'Active'
-      });
-
-      // STEP 9: Calculate new balance and create audit record
-      const newBalance = await this.calculateLedgerBalance(studentId);
-      const advanceAdjustment = rateChanged ? (oldBalance - newBalance) : 0;
-
-      const audit = await queryRunner.manager.save(BedSwitchAudit, {
-        studentId,
-        fromBedId: currentBed.id,
-        toBedId: targetBed.id,
-        fromRoomId: currentBed.roomId,
-        toRoomId: targetBed.roomId,
-        oldRate,
-        newRate,
-        rateDifference,
-        oldBalance,
-        newBalance,
-        advanceAdjustment,
-        switchDate: effectiveDate,
-        reason: switchBedDto.reason || 'Bed switch',
-        approvedBy: switchBedDto.approvedBy,
-        financialSnapshot: {
-          student: { id: student.id, name: student.name },
-          oldBed: { id: currentBed.id, identifier: currentBed.bedIdentifier, rate: oldRate },
-          newBed: { id: targetBed.id, identifier: targetBed.bedIdentifier, rate: newRate },
-          rateChanged,
-          effectiveDate: effectiveDate.toISOString()
-        }
-      });
+      const { audit, oldRate, newRate, rateDifference, rateChanged, oldBalance, newBalance, advanceAdjustment, effectiveDate } =
+        await this.applyBedSwitch(queryRunner.manager, student, currentBed, targetBed, switchBedDto, hostelId);
 
       // STEP 10: Commit transaction
       await queryRunner.commitTransaction();
 
       console.log(` Bed switch completed successfully: ${currentBed.bedIdentifier} → ${targetBed.bedIdentifier}`);
 
+      const settledAudit = await this.settleBedSwitchProration(audit);
+
       // STEP 11: Async operations (after commit)
       setImmediate(async () => {
         try {
@@ -2170,6 +2067,7 @@ export class StudentsService {
             newBalance,
             advanceAdjustment
           },
+          proration: this.formatBedSwitchProration(settledAudit),
           effectiveDate: effectiveDate.toISOString().split('T')[0],
           auditId: audit.id
         }
@@ -2184,6 +2082,280 @@ export class StudentsService {
     }
   }
 
+  /**
+   * BED SWAP - Two active students exchange beds in one transaction.
+   * Each side is recorded like a bed switch (rate change, ledger adjustment, BedSwitchAudit).
+   */
+  async swapBeds(studentId: string, otherStudentId: string, swapDto: Omit<SwitchBedDto, 'newBedId'>, hostelId: string) {
+    this.logger.log(`🔄 Starting bed swap between students ${studentId} and ${otherStudentId}`);
+
+    if (!hostelId) {
+      throw new BadRequestException('Hostel context required for this operation.');
+    }
+
+    if (studentId === otherStudentId) {
+      throw new BadRequestException('A student cannot swap beds with themselves');
+    }
+
+    const queryRunner = this.studentRepository.manager.connection.createQueryRunner();
+    await queryRunner.connect();
+    await queryRunner.startTransaction();
+
+    try {
+      const parties = [];
+      for (const id of [studentId, otherStudentId]) {
+        const student = await queryRunner.manager.findOne(Student, {
+          where: { id, hostelId },
+          relations: ['room', 'financialInfo']
+        });
+
+        if (!student) {
+          throw new NotFoundException(`Student ${id} not found`);
+        }
+
+        if (student.status !== StudentStatus.ACTIVE) {
+          throw new BadRequestException(`Only active students can swap beds (${student.name} is ${student.status})`);
+        }
+
+        const bed = await queryRunner.manager.findOne(Bed, {
+          where: { currentOccupantId: id }
+        });
+
+        if (!bed) {
+          throw new NotFoundException(`Current bed assignment not found for ${student.name}`);
+        }
+
+        parties.push({ student, bed });
+      }
+
+      // Lock the beds in bed id order so concurrent A↔B and B↔A swaps cannot deadlock
+      for (const party of [...parties].sort((a, b) => a.bed.id.localeCompare(b.bed.id))) {
+        party.bed = await queryRunner.manager.findOne(Bed, {
+          where: { id: party.bed.id, currentOccupantId: party.student.id },
+          lock: { mode: 'pessimistic_write' }
+        });
+
+        if (!party.bed) {
+          throw new BadRequestException(`${party.student.name} has moved to another bed; please retry the swap`);
+        }
+      }
+
+      const [first, second] = parties;
+      const firstSwitch = await this.applyBedSwitch(queryRunner.manager, first.student, first.bed, second.bed, swapDto, hostelId);
+      const secondSwitch = await this.applyBedSwitch(queryRunner.manager, second.student, second.bed, first.bed, swapDto, hostelId);
+
+      await queryRunner.commitTransaction();
+
+      this.logger.log(`✅ Bed swap completed: ${first.student.name} → ${second.bed.bedIdentifier}, ${second.student.name} → ${first.bed.bedIdentifier}`);
+
+      const firstAudit = await this.settleBedSwitchProration(firstSwitch.audit);
+      const secondAudit = await this.settleBedSwitchProration(secondSwitch.audit);
+
+      setImmediate(async () => {
+        try {
+          await this.bedSyncService.updateRoomOccupancyFromBeds(first.bed.roomId);
+          await this.bedSyncService.updateRoomOccupancyFromBeds(second.bed.roomId);
+        } catch (error) {
+          this.logger.warn(`⚠️ Failed to sync room occupancy after bed swap: ${error.message}`);
+        }
+      });
+
+      return {
+        success: true,
+        message: `Successfully swapped beds of ${first.student.name} (${first.bed.bedIdentifier}) and ${second.student.name} (${second.bed.bedIdentifier})`,
+        bedSwaps: [
+          { studentId: first.student.id, studentName: first.student.name, fromBedId: first.bed.id, toBedId: second.bed.id, result: firstSwitch, audit: firstAudit },
+          { studentId: second.student.id, studentName: second.student.name, fromBedId: second.bed.id, toBedId: first.bed.id, result: secondSwitch, audit: secondAudit }
+        ].map(({ result, audit, ...swap }) => ({
+          ...swap,
+          rateChange: {
+            changed: result.rateChanged,
+            oldRate: result.oldRate,
+            newRate: result.newRate,
+            difference: result.rateDifference
+          },
+          proration: this.formatBedSwitchProration(audit),
+          effectiveDate: result.effectiveDate.toISOString().split('T')[0],
+          auditId: result.audit.id
+        }))
+      };
+
+    } catch (error) {
+      await queryRunner.rollbackTransaction();
+      this.logger.error(`❌ Bed swap failed: ${error.message}`);
+      throw new BadRequestException(`Bed swap failed: ${error.message}`);
+    } finally {
+      await queryRunner.release();
+    }
+  }
+
+  /**
+   * Steps of a bed switch that run inside the caller's transaction: rate and
+   * ledger adjustment, student and bed records, occupancy history and the
+   * BedSwitchAudit row. Shared by switchBed() and swapBeds().
+   */
+  private async applyBedSwitch(
+    manager: EntityManager,
+    student: Student,
+    currentBed: Bed,
+    targetBed: Bed,
+    switchBedDto: Omit<SwitchBedDto, 'newBedId'>,
+    hostelId: string
+  ) {
+    const studentId = student.id;
+
+    // STEP 4: Get financial data before switch
+    const oldBalance = await this.calculateLedgerBalance(studentId);
+    const oldRate = currentBed.monthlyRate || 0;
+    const newRate = targetBed.monthlyRate || 0;
+    const rateDifference = newRate - oldRate;
+    const rateChanged = Math.abs(rateDifference) > 0.01;
+    const effectiveDate = switchBedDto.effectiveDate ? new Date(switchBedDto.effectiveDate) : new Date();
+
+    console.log(` Rate comparison: Old=${oldRate}, New=${newRate}, Difference=${rateDifference}, Changed=${rateChanged}`);
+
+    // STEP 5: Update financial info if rate changed
+    if (rateChanged) {
+      // Deactivate old base_monthly entry
+      await manager.update(
+        StudentFinancialInfo,
+        { studentId, feeType: FeeType.BASE_MONTHLY, isActive: true },
+        { isActive: false, effectiveTo: effectiveDate }
+      );
+
+      // Create new base_monthly entry
+      await manager.save(StudentFinancialInfo, {
+        studentId,
+        feeType: FeeType.BASE_MONTHLY,
+        amount: newRate,
+        effectiveFrom: effectiveDate,
+        isActive: true,
+        notes: `Rate updated due to bed switch from ${currentBed.bedIdentifier} (${oldRate}) to ${targetBed.bedIdentifier} (${newRate})`
+      });
+
+      // Create ledger adjustment entry - using safe enum values
+      // Debit (charge) uses Invoice, Credit (refund) uses Payment
+      await manager.save(LedgerEntry, {
+        studentId,
+        hostelId,
+        date: effectiveDate,
+        type: rateDifference > 0 ? LedgerEntryType.INVOICE : LedgerEntryType.PAYMENT,
+        balanceType: rateDifference > 0 ? BalanceType.DR : BalanceType.CR,
+        debit: rateDifference > 0 ? Math.abs(rateDifference) : 0,
+        credit: rateDifference < 0 ? Math.abs(rateDifference) : 0,
+        description: `Bed switch rate adjustment: ${oldRate} → ${newRate} (${rateDifference > 0 ? '+' : ''}${rateDifference})`,
+        isReversed: false
+      });
+
+      console.log(` Financial info updated with new rate: ${newRate}`);
+    }
+
+    // STEP 6: Update student record
+    await manager.update(Student, studentId, {
+      roomId: targetBed.roomId,
+      bedNumber: targetBed.bedNumber
+    });
+
+    // STEP 7: Update bed occupancy
+    // Clear old bed, unless a swap partner has already moved into it
+    const released = await manager.update(Bed, { id: currentBed.id, currentOccupantId: studentId }, {
+      status: BedStatus.AVAILABLE,
+      currentOccupantId: null,
+      currentOccupantName: null,
+      occupiedSince: null,
+      notes: `Released by ${student.name} on ${effectiveDate.toISOString().split('T')[0]} (bed switch)`
+    });
+
+    // Assign new bed
+    await manager.update(Bed, targetBed.id, {
+      status: BedStatus.OCCUPIED,
+      currentOccupantId: studentId,
+      currentOccupantName: student.name,
+      occupiedSince: effectiveDate,
+      notes: `Assigned to ${student.name} via bed switch on ${effectiveDate.toISOString().split('T')[0]}`
+    });
+
+    if (released.affected) {
+      this.domainEventsService.publishBedStatus({ ...currentBed, status: BedStatus.AVAILABLE }, manager);
+    }
+    this.domainEventsService.publishBedStatus({ ...targetBed, status: BedStatus.OCCUPIED }, manager);
+
+    // STEP 8: Update room occupancy history
+    // Close old occupancy
+    await manager
+      .createQueryBuilder()
+      .update(RoomOccupant)
+      .set({ check_out_date: effectiveDate, status: 'Transferred' })
+      .where('studentId = :studentId', { studentId })
+      .andWhere('check_out_date IS NULL')
+      .execute();
+
+    // Create new occupancy
+    await manager.save(RoomOccupant, {
+      studentId,
+      roomId: targetBed.roomId,
+      bedId: targetBed.id,
+      checkInDate: effectiveDate,
+      status: 'Active'
+    });
+
+    // STEP 9: Calculate new balance and create audit record
+    const newBalance = await this.calculateLedgerBalance(studentId);
+    const advanceAdjustment = rateChanged ? (oldBalance - newBalance) : 0;
+    const proration = await this.bedSwitchBillingService.calculateProration(hostelId, effectiveDate, oldRate, newRate);
+
+    const audit = await manager.save(BedSwitchAudit, {
+      studentId,
+      fromBedId: currentBed.id,
+      toBedId: targetBed.id,
+      fromRoomId: currentBed.roomId,
+      toRoomId: targetBed.roomId,
+      oldRate,
+      newRate,
+      rateDifference,
+      oldBalance,
+      newBalance,
+      advanceAdjustment,
+      switchDate: effectiveDate,
+      reason: switchBedDto.reason || 'Bed switch',
+      approvedBy: switchBedDto.approvedBy,
+      financialSnapshot: {
+        student: { id: student.id, name: student.name },
+        oldBed: { id: currentBed.id, identifier: currentBed.bedIdentifier, rate: oldRate },
+        newBed: { id: targetBed.id, identifier: targetBed.bedIdentifier, rate: newRate },
+        rateChanged,
+        effectiveDate: effectiveDate.toISOString()
+      },
+      ...proration
+    });
+
+    return { audit, oldRate, newRate, rateDifference, rateChanged, oldBalance, newBalance, advanceAdjustment, effectiveDate };
+  }
+
+  /**
+   * Post the prorated rate difference once the switch has committed. A failure
+   * leaves the proration pending for the month's invoice instead of undoing the switch.
+   */
+  private async settleBedSwitchProration(audit: BedSwitchAudit): Promise<BedSwitchAudit> {
+    try {
+      return (await this.bedSwitchBillingService.settleProration(audit.id)) || audit;
+    } catch (error) {
+      console.warn(` Failed to post bed switch proration for audit ${audit.id}: ${error.message}`);
+      return audit;
+    }
+  }
+
+  private formatBedSwitchProration(audit: BedSwitchAudit) {
+    return {
+      billingMonth: audit.billingMonth,
+      proratedDays: audit.proratedDays,
+      daysInPeriod: audit.daysInPeriod,
+      amount: Number(audit.proratedAmount || 0),
+      status: audit.prorationStatus,
+      ledgerEntryId: audit.prorationLedgerEntryId || null
+    };
+  }
+
   /**
    * Helper: Calculate ledger balance for a student
    */
@@ -2480,6 +2652,7 @@ export class StudentsService {
         status: BedStatus.OCCUPIED,
         notes: `Occupied by ${savedStudent.name} after configuration`
       });
+      this.domainEventsService.publishBedStatus({ ...bed, status: BedStatus.OCCUPIED }, manager);
 
       // 8. Create RoomOccupant record
       const roomOccupant = manager.create(RoomOccupant, {
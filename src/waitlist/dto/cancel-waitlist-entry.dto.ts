@@ -0,0 +1,10 @@
+import { IsOptional, IsString, MaxLength } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+export class CancelWaitlistEntryDto {
+  @ApiPropertyOptional({ description: 'Why the party left the waitlist', example: 'Found another hostel' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  reason?: string;
+}
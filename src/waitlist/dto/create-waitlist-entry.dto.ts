@@ -0,0 +1,56 @@
+import { IsDateString, IsEmail, IsIn, IsInt, IsOptional, IsString, IsUUID, Length, Max, MaxLength, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class CreateWaitlistEntryDto {
+  @ApiProperty({ description: 'Contact person name', example: 'Ram Bahadur Thapa' })
+  @IsString()
+  @Length(1, 255)
+  contactName: string;
+
+  @ApiProperty({ description: 'Contact person phone', example: '9841000001' })
+  @IsString()
+  @Length(7, 20)
+  contactPhone: string;
+
+  @ApiPropertyOptional({ description: 'Contact person email' })
+  @IsOptional()
+  @IsEmail()
+  contactEmail?: string;
+
+  @ApiPropertyOptional({ description: 'Bed gender the party needs', enum: ['Male', 'Female', 'Any'], default: 'Any' })
+  @IsOptional()
+  @IsIn(['Male', 'Female', 'Any'])
+  gender?: 'Male' | 'Female' | 'Any';
+
+  @ApiPropertyOptional({ description: 'Room type wanted; omit for any room type' })
+  @IsOptional()
+  @IsUUID()
+  roomTypeId?: string;
+
+  @ApiProperty({ description: 'Desired check-in date', example: '2025-12-01' })
+  @IsDateString()
+  desiredCheckInDate: string;
+
+  @ApiPropertyOptional({ description: 'Number of beds needed', minimum: 1, maximum: 10, default: 1 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(10)
+  guestCount?: number;
+
+  @ApiPropertyOptional({ description: 'Notes' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  notes?: string;
+}
+
+export class JoinWaitlistDto extends CreateWaitlistEntryDto {
+  @ApiPropertyOptional({ description: 'Hostel business ID; defaults to the configured hostel', example: 'hostel-123' })
+  @IsOptional()
+  @IsString()
+  @Length(1, 100)
+  hostelId?: string;
+}
@@ -0,0 +1,3 @@
+export { CreateWaitlistEntryDto, JoinWaitlistDto } from './create-waitlist-entry.dto';
+export { WaitlistFilterDto } from './waitlist-filter.dto';
+export { CancelWaitlistEntryDto } from './cancel-waitlist-entry.dto';
@@ -0,0 +1,11 @@
+import { IsEnum, IsOptional } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { PaginationDto } from '../../common/dto/pagination.dto';
+import { WaitlistStatus } from '../entities/waitlist-entry.entity';
+
+export class WaitlistFilterDto extends PaginationDto {
+  @ApiPropertyOptional({ description: 'Filter by status', enum: WaitlistStatus })
+  @IsOptional()
+  @IsEnum(WaitlistStatus)
+  status?: WaitlistStatus;
+}
@@ -0,0 +1,98 @@
+import { Entity, Column, ManyToOne, JoinColumn, Index } from 'typeorm';
+import { BaseEntity } from '../../common/entities/base.entity';
+import { Hostel } from '../../hostel/entities/hostel.entity';
+import { RoomType } from '../../rooms/entities/room-type.entity';
+
+export enum WaitlistStatus {
+  WAITING = 'waiting',
+  OFFERED = 'offered',
+  ACCEPTED = 'accepted',
+  EXPIRED = 'expired',
+  CANCELLED = 'cancelled'
+}
+
+/**
+ * A party waiting for beds at a hostel. Entries are served first come, first
+ * served: when matching beds free up the oldest waiting party that fits gets
+ * them on a time-limited hold (beds RESERVED). An offer that is not accepted
+ * before hold_expires_at expires and the beds go to the next party.
+ */
+@Entity('waitlist_entries')
+@Index(['hostelId', 'status', 'createdAt'])
+@Index(['status', 'holdExpiresAt'])
+@Index(['userId'])
+export class WaitlistEntry extends BaseEntity {
+  @Column({ name: 'hostel_id' })
+  hostelId: string;
+
+  // Kaha user of the contact person, when they joined from the app
+  @Column({ name: 'user_id', type: 'varchar', length: 255, nullable: true })
+  userId: string;
+
+  @Column({ name: 'contact_name', length: 255 })
+  contactName: string;
+
+  @Column({ name: 'contact_phone', length: 20 })
+  contactPhone: string;
+
+  @Column({ name: 'contact_email', type: 'varchar', length: 255, nullable: true })
+  contactEmail: string;
+
+  // Same values as Bed.gender; 'Any' takes beds of either gender
+  @Column({ type: 'varchar', length: 10, default: 'Any' })
+  gender: 'Male' | 'Female' | 'Any';
+
+  // Null means any room type
+  @Column({ name: 'room_type_id', nullable: true })
+  roomTypeId: string;
+
+  @Column({ name: 'desired_check_in_date', type: 'date' })
+  desiredCheckInDate: Date;
+
+  @Column({ name: 'guest_count', type: 'int', default: 1 })
+  guestCount: number;
+
+  @Column({
+    type: 'enum',
+    enum: WaitlistStatus,
+    default: WaitlistStatus.WAITING
+  })
+  status: WaitlistStatus;
+
+  // Beds currently held for (or accepted by) the party
+  @Column({ name: 'offered_bed_ids', type: 'jsonb', nullable: true })
+  offeredBedIds: string[];
+
+  @Column({ name: 'offered_at', type: 'timestamp', nullable: true })
+  offeredAt: Date;
+
+  @Column({ name: 'hold_expires_at', type: 'timestamp', nullable: true })
+  holdExpiresAt: Date;
+
+  @Column({ name: 'accepted_at', type: 'timestamp', nullable: true })
+  acceptedAt: Date;
+
+  @Column({ name: 'cancelled_at', type: 'timestamp', nullable: true })
+  cancelledAt: Date;
+
+  @Column({ name: 'cancellation_reason', type: 'text', nullable: true })
+  cancellationReason: string;
+
+  @Column({ type: 'varchar', length: 50, default: 'mobile_app' })
+  source: string;
+
+  @Column({ name: 'created_by', type: 'varchar', length: 255, nullable: true })
+  createdBy: string;
+
+  @Column({ type: 'text', nullable: true })
+  notes: string;
+
+  // Relations
+  @ManyToOne(() => Hostel, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'hostel_id' })
+  hostel: Hostel;
+
+  @ManyToOne(() => RoomType, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'room_type_id' })
+  roomType: RoomType;
+}
@@ -0,0 +1,202 @@
+import { WaitlistService, selectBedsForEntry } from './waitlist.service';
+import { WaitlistEntry, WaitlistStatus } from '../entities/waitlist-entry.entity';
+import { Bed, BedStatus } from '../../rooms/entities/bed.entity';
+import { NotificationTemplateKey } from '../../notification/templates/default-notification-templates';
+
+describe('WaitlistService', () => {
+  let service: WaitlistService;
+  let entries: any[];
+  let freeBeds: any[];
+  let lockedBeds: any[];
+
+  const bed = (id: string, roomId: string, gender: string, roomTypeId = 'type-shared') => ({
+    id,
+    bedIdentifier: id.toUpperCase(),
+    roomId,
+    hostelId: 'hostel-1',
+    gender,
+    status: BedStatus.AVAILABLE,
+    room: { id: roomId, roomTypeId }
+  }) as any as Bed;
+
+  const mockQueryBuilder = {
+    leftJoinAndSelect: jest.fn().mockReturnThis(),
+    where: jest.fn().mockReturnThis(),
+    andWhere: jest.fn().mockReturnThis(),
+    orderBy: jest.fn().mockReturnThis(),
+    addOrderBy: jest.fn().mockReturnThis(),
+    getMany: jest.fn(async () => freeBeds),
+  };
+
+  const mockWaitlistRepository = {
+    find: jest.fn(async () => entries),
+    findOne: jest.fn(),
+    update: jest.fn().mockResolvedValue({ affected: 1 }),
+  };
+
+  const mockBedRepository = {
+    createQueryBuilder: jest.fn(() => mockQueryBuilder),
+    find: jest.fn(async () => []),
+    update: jest.fn().mockResolvedValue({ affected: 1 }),
+  };
+
+  const mockHostelRepository = {
+    findOne: jest.fn().mockResolvedValue({ id: 'hostel-1', name: 'Kathmandu Boys Hostel' }),
+  };
+
+  const mockManager = {
+    findOne: jest.fn(async (target, options) => entries.find(entry => entry.id === options.where.id)),
+    find: jest.fn(async () => lockedBeds),
+    update: jest.fn(),
+    save: jest.fn(async entity => entity),
+  };
+
+  const mockDataSource = {
+    transaction: jest.fn(async work => work(mockManager)),
+  };
+
+  const mockNotificationService = {
+    sendTemplateToUser: jest.fn().mockResolvedValue(undefined),
+  };
+
+  const mockConfigService = {
+    get: jest.fn((key, defaultValue) => defaultValue),
+  };
+
+  const mockDomainEventsService = {
+    publishBedStatus: jest.fn(),
+  };
+
+  const mockBedSyncService = {
+    updateRoomOccupancyFromBeds: jest.fn(),
+  };
+
+  beforeEach(() => {
+    service = new WaitlistService(
+      mockWaitlistRepository as any,
+      mockBedRepository as any,
+      mockHostelRepository as any,
+      mockDataSource as any,
+      mockNotificationService as any,
+      mockConfigService as any,
+      mockDomainEventsService as any,
+      mockBedSyncService as any
+    );
+
+    entries = [];
+    freeBeds = [];
+    lockedBeds = [];
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('selectBedsForEntry', () => {
+    const beds = [
+      bed('r1-b1', 'room-1', 'Female'),
+      bed('r2-b1', 'room-2', 'Male'),
+      bed('r3-b1', 'room-3', 'Any', 'type-single'),
+      bed('r4-b1', 'room-4', 'Male'),
+      bed('r4-b2', 'room-4', 'Male')
+    ];
+
+    it('should keep a party together in one room when possible', () => {
+      const selected = selectBedsForEntry({ gender: 'Male', roomTypeId: null, guestCount: 2 }, beds);
+
+      expect(selected.map(b => b.id)).toEqual(['r4-b1', 'r4-b2']);
+    });
+
+    it('should respect gender and room type', () => {
+      expect(selectBedsForEntry({ gender: 'Female', roomTypeId: 'type-single', guestCount: 1 }, beds).map(b => b.id))
+        .toEqual(['r3-b1']);
+      expect(selectBedsForEntry({ gender: 'Female', roomTypeId: null, guestCount: 3 }, beds)).toBeNull();
+    });
+  });
+
+  describe('processQueue', () => {
+    it('should hold beds for the first party that fits and notify them', async () => {
+      entries = [
+        { id: 'entry-1', hostelId: 'hostel-1', contactName: 'Group of three', gender: 'Male', guestCount: 3, status: WaitlistStatus.WAITING, userId: 'user-1' },
+        { id: 'entry-2', hostelId: 'hostel-1', contactName: 'Hari', gender: 'Male', guestCount: 1, status: WaitlistStatus.WAITING, userId: 'user-2' }
+      ];
+      freeBeds = [bed('r4-b1', 'room-4', 'Male')];
+      lockedBeds = [...freeBeds];
+
+      const offers = await service.processQueue('hostel-1');
+
+      expect(offers).toBe(1);
+      expect(entries[0].status).toBe(WaitlistStatus.WAITING);
+      expect(entries[1]).toEqual(expect.objectContaining({
+        status: WaitlistStatus.OFFERED,
+        offeredBedIds: ['r4-b1']
+      }));
+      expect(entries[1].holdExpiresAt.getTime()).toBeGreaterThan(Date.now() + 23 * 60 * 60 * 1000);
+      expect(mockManager.update).toHaveBeenCalledWith(Bed, expect.anything(), expect.objectContaining({ status: BedStatus.RESERVED }));
+      expect(mockDomainEventsService.publishBedStatus).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'r4-b1', status: BedStatus.RESERVED }),
+        mockManager
+      );
+      expect(mockBedSyncService.updateRoomOccupancyFromBeds).toHaveBeenCalledWith('room-4');
+      expect(mockNotificationService.sendTemplateToUser).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: 'user-2', template: NotificationTemplateKey.WAITLIST_BEDS_OFFERED }),
+        undefined,
+        expect.objectContaining({ hostelId: 'hostel-1' }),
+        mockManager
+      );
+    });
+
+    it('should not offer a bed that was taken in the meantime', async () => {
+      entries = [
+        { id: 'entry-1', hostelId: 'hostel-1', contactName: 'Hari', gender: 'Any', guestCount: 1, status: WaitlistStatus.WAITING }
+      ];
+      freeBeds = [bed('r4-b1', 'room-4', 'Male')];
+      lockedBeds = [{ ...freeBeds[0], status: BedStatus.RESERVED }];
+
+      const offers = await service.processQueue('hostel-1');
+
+      expect(offers).toBe(0);
+      expect(entries[0].status).toBe(WaitlistStatus.WAITING);
+      expect(mockManager.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('expireHolds', () => {
+    it('should release the beds of an expired hold and move down the queue', async () => {
+      const expiredEntry = {
+        id: 'entry-1',
+        hostelId: 'hostel-1',
+        contactName: 'Hari',
+        status: WaitlistStatus.OFFERED,
+        offeredBedIds: ['r4-b1'],
+        holdExpiresAt: new Date(Date.now() - 1000),
+        userId: 'user-1'
+      } as WaitlistEntry;
+      mockWaitlistRepository.find
+        .mockResolvedValueOnce([expiredEntry])
+        .mockResolvedValueOnce([]);
+      mockManager.update.mockResolvedValueOnce({ affected: 1 });
+
+      const expired = await service.expireHolds();
+
+      expect(expired).toBe(1);
+      expect(mockManager.update).toHaveBeenCalledWith(
+        WaitlistEntry,
+        expect.objectContaining({ id: 'entry-1', status: WaitlistStatus.OFFERED }),
+        { status: WaitlistStatus.EXPIRED }
+      );
+      expect(mockNotificationService.sendTemplateToUser).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: 'user-1', template: NotificationTemplateKey.WAITLIST_HOLD_EXPIRED }),
+        undefined,
+        expect.objectContaining({ hostelId: 'hostel-1' }),
+        mockManager
+      );
+      expect(mockBedRepository.update).toHaveBeenCalledWith(
+        expect.objectContaining({ status: BedStatus.RESERVED }),
+        { status: BedStatus.AVAILABLE, notes: null }
+      );
+      // The next waiting party is looked up straight away
+      expect(mockWaitlistRepository.find).toHaveBeenCalledTimes(2);
+    });
+  });
+});
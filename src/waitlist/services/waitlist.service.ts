@@ -0,0 +1,617 @@
+import { Injectable, Logger, NotFoundException, BadRequestException, OnModuleInit, OnModuleDestroy, Inject, forwardRef } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { DataSource, EntityManager, In, LessThanOrEqual, Repository } from 'typeorm';
+import { WaitlistEntry, WaitlistStatus } from '../entities/waitlist-entry.entity';
+import { Bed, BedStatus } from '../../rooms/entities/bed.entity';
+import { BedSyncService } from '../../rooms/bed-sync.service';
+import { Hostel } from '../../hostel/entities/hostel.entity';
+import { UnifiedNotificationService } from '../../notification/unified-notification.service';
+import { NotificationTemplateKey } from '../../notification/templates/default-notification-templates';
+import { DomainEventsService } from '../../events/domain-events.service';
+import { CreateWaitlistEntryDto, JoinWaitlistDto, WaitlistFilterDto } from '../dto';
+
+const DEFAULT_HOLD_HOURS = 24;
+// Parties whose desired check-in is further out than this are not offered beds yet
+const DEFAULT_OFFER_WINDOW_DAYS = 14;
+const DEFAULT_SWEEP_INTERVAL_MS = 60 * 1000;
+
+const ACTIVE_STATUSES = [WaitlistStatus.WAITING, WaitlistStatus.OFFERED];
+
+/**
+ * Waitlist Service
+ * Queues parties that could not find beds and hands freed beds to them in
+ * order. A party only gets an offer when enough matching beds (gender, room
+ * type) are free for everyone in it, preferably in one room; a smaller party
+ * further down the queue may be served first if the beds fit only them.
+ *
+ * Holds are released by a sweep that runs every WAITLIST_SWEEP_INTERVAL_MS
+ * (disabled together with the scheduler via SCHEDULER_ENABLED=false).
+ */
+@Injectable()
+export class WaitlistService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(WaitlistService.name);
+  private readonly holdHours: number;
+  private readonly offerWindowDays: number;
+  private timer: NodeJS.Timeout | null = null;
+  private sweeping = false;
+
+  constructor(
+    @InjectRepository(WaitlistEntry)
+    private waitlistRepository: Repository<WaitlistEntry>,
+    @InjectRepository(Bed)
+    private bedRepository: Repository<Bed>,
+    @InjectRepository(Hostel)
+    private hostelRepository: Repository<Hostel>,
+    private dataSource: DataSource,
+    private unifiedNotificationService: UnifiedNotificationService,
+    private configService: ConfigService,
+    private domainEventsService: DomainEventsService,
+    @Inject(forwardRef(() => BedSyncService))
+    private bedSyncService: BedSyncService,
+  ) {
+    this.holdHours = Number(this.configService.get('WAITLIST_HOLD_HOURS', DEFAULT_HOLD_HOURS));
+    this.offerWindowDays = Number(this.configService.get('WAITLIST_OFFER_WINDOW_DAYS', DEFAULT_OFFER_WINDOW_DAYS));
+  }
+
+  onModuleInit() {
+    if (this.configService.get('SCHEDULER_ENABLED', 'true') === 'false') {
+      return;
+    }
+
+    const interval = Number(this.configService.get('WAITLIST_SWEEP_INTERVAL_MS', DEFAULT_SWEEP_INTERVAL_MS));
+    this.timer = setInterval(() => this.sweep(), interval);
+  }
+
+  onModuleDestroy() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Expire overdue holds, then offer free beds to parties whose check-in date
+   * has come into the offer window.
+   */
+  async sweep(): Promise<void> {
+    if (this.sweeping) {
+      return;
+    }
+    this.sweeping = true;
+
+    try {
+      await this.expireHolds();
+
+      const hostels = await this.waitlistRepository
+        .createQueryBuilder('entry')
+        .select('DISTINCT entry.hostelId', 'hostelId')
+        .where('entry.status = :status', { status: WaitlistStatus.WAITING })
+        .andWhere('entry.desiredCheckInDate <= :cutoff', { cutoff: this.getOfferCutoff() })
+        .getRawMany();
+
+      for (const { hostelId } of hostels) {
+        await this.processQueue(hostelId);
+      }
+    } catch (error) {
+      this.logger.error(`❌ Waitlist sweep failed: ${error.message}`, error.stack);
+    } finally {
+      this.sweeping = false;
+    }
+  }
+
+  /**
+   * Add a party to the waitlist from the admin panel (walk-ins, phone calls)
+   */
+  async create(hostelId: string, createDto: CreateWaitlistEntryDto, createdBy?: string) {
+    if (!hostelId) {
+      throw new BadRequestException('Hostel context required');
+    }
+
+    const entry = await this.waitlistRepository.save(this.waitlistRepository.create({
+      ...this.buildEntry(createDto),
+      hostelId,
+      source: 'admin',
+      createdBy
+    }));
+
+    this.logger.log(`📝 ${entry.contactName} added to waitlist for ${entry.guestCount} bed(s)`);
+
+    await this.processQueue(hostelId);
+    return this.findOne(entry.id, hostelId);
+  }
+
+  /**
+   * Join the waitlist from the app when no bed is available.
+   * hostelId in the body is the hostel's business ID, as for bookings.
+   */
+  async join(joinDto: JoinWaitlistDto, userId: string) {
+    const businessId = joinDto.hostelId || this.configService.get('HOSTEL_BUSINESS_ID', 'default-hostel-id');
+    const hostel = await this.hostelRepository.findOne({ where: { businessId } });
+
+    if (!hostel) {
+      throw new BadRequestException(`Hostel not found with business_id: ${businessId}`);
+    }
+
+    const existing = await this.waitlistRepository.findOne({
+      where: { hostelId: hostel.id, userId, status: In(ACTIVE_STATUSES) }
+    });
+    if (existing) {
+      throw new BadRequestException('You are already on the waitlist for this hostel');
+    }
+
+    const { hostelId: _businessId, ...entryDto } = joinDto;
+    const entry = await this.waitlistRepository.save(this.waitlistRepository.create({
+      ...this.buildEntry(entryDto),
+      hostelId: hostel.id,
+      userId,
+      source: 'mobile_app',
+      createdBy: userId
+    }));
+
+    this.logger.log(`📝 ${entry.contactName} joined the waitlist of ${hostel.name} for ${entry.guestCount} bed(s)`);
+
+    await this.processQueue(hostel.id);
+    return this.transformToApiResponse(await this.waitlistRepository.findOne({ where: { id: entry.id } }));
+  }
+
+  async findAll(hostelId: string, filters: WaitlistFilterDto) {
+    if (!hostelId) {
+      throw new BadRequestException('Hostel context required');
+    }
+
+    const { page = 1, limit = 10, status } = filters;
+
+    const queryBuilder = this.waitlistRepository.createQueryBuilder('entry')
+      .where('entry.hostelId = :hostelId', { hostelId });
+
+    if (status) {
+      queryBuilder.andWhere('entry.status = :status', { status });
+    }
+
+    const [entries, total] = await queryBuilder
+      .orderBy('entry.createdAt', 'ASC')
+      .skip((page - 1) * limit)
+      .take(limit)
+      .getManyAndCount();
+
+    const positions = await this.getQueuePositions(hostelId);
+
+    return {
+      items: entries.map(entry => this.transformToApiResponse(entry, positions.get(entry.id))),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit)
+      }
+    };
+  }
+
+  async findOne(id: string, hostelId: string) {
+    const entry = await this.findEntry(id, hostelId);
+    const positions = await this.getQueuePositions(entry.hostelId);
+    return this.transformToApiResponse(entry, positions.get(entry.id));
+  }
+
+  async getUserEntries(userId: string) {
+    const entries = await this.waitlistRepository.find({
+      where: { userId },
+      relations: ['hostel'],
+      order: { createdAt: 'DESC' }
+    });
+
+    const positionsByHostel = new Map<string, Map<string, number>>();
+    for (const hostelId of new Set(entries.map(entry => entry.hostelId))) {
+      positionsByHostel.set(hostelId, await this.getQueuePositions(hostelId));
+    }
+
+    return entries.map(entry => ({
+      ...this.transformToApiResponse(entry, positionsByHostel.get(entry.hostelId)?.get(entry.id)),
+      hostelName: entry.hostel?.name
+    }));
+  }
+
+  async accept(id: string, hostelId: string) {
+    const entry = await this.findEntry(id, hostelId);
+    return this.acceptOffer(entry);
+  }
+
+  async acceptForUser(id: string, userId: string) {
+    return this.acceptOffer(await this.findUserEntry(id, userId));
+  }
+
+  async cancel(id: string, hostelId: string, reason?: string) {
+    const entry = await this.findEntry(id, hostelId);
+    return this.cancelEntry(entry, reason || 'Removed by hostel');
+  }
+
+  async cancelForUser(id: string, userId: string, reason?: string) {
+    return this.cancelEntry(await this.findUserEntry(id, userId), reason || 'Cancelled by guest');
+  }
+
+  /**
+   * Called by BedService whenever a bed becomes available. If staff released a
+   * bed that was on hold for a party, that offer is withdrawn first; then the
+   * free beds are offered down the queue.
+   */
+  async handleBedFreed(bed: Bed): Promise<void> {
+    const holders = await this.waitlistRepository
+      .createQueryBuilder('entry')
+      .where('entry.status = :status', { status: WaitlistStatus.OFFERED })
+      .andWhere('entry.offeredBedIds @> :bedIds', { bedIds: JSON.stringify([bed.id]) })
+      .getMany();
+
+    for (const holder of holders) {
+      const withdrawn = await this.waitlistRepository.update(
+        { id: holder.id, status: WaitlistStatus.OFFERED },
+        {
+          status: WaitlistStatus.CANCELLED,
+          cancelledAt: new Date(),
+          cancellationReason: `Hold on bed ${bed.bedIdentifier} released by staff`,
+          holdExpiresAt: null
+        }
+      );
+      if (withdrawn.affected) {
+        await this.releaseBeds(holder.offeredBedIds.filter(bedId => bedId !== bed.id));
+        this.logger.log(`↩️ Waitlist offer for ${holder.contactName} withdrawn`);
+      }
+    }
+
+    await this.processQueue(bed.hostelId);
+  }
+
+  /**
+   * Offer the hostel's free beds to waiting parties, oldest first.
+   * Returns the number of offers made.
+   */
+  async processQueue(hostelId: string): Promise<number> {
+    const waiting = await this.waitlistRepository.find({
+      where: {
+        hostelId,
+        status: WaitlistStatus.WAITING,
+        desiredCheckInDate: LessThanOrEqual(this.getOfferCutoff())
+      },
+      order: { createdAt: 'ASC' }
+    });
+
+    if (waiting.length === 0) {
+      return 0;
+    }
+
+    let freeBeds = await this.bedRepository.createQueryBuilder('bed')
+      .leftJoinAndSelect('bed.room', 'room')
+      .where('bed.status = :status', { status: BedStatus.AVAILABLE })
+      .andWhere('room.hostelId = :hostelId', { hostelId })
+      .orderBy('room.roomNumber', 'ASC')
+      .addOrderBy('bed.bedNumber', 'ASC')
+      .getMany();
+
+    let offers = 0;
+
+    for (const entry of waiting) {
+      const beds = selectBedsForEntry(entry, freeBeds);
+      if (!beds) {
+        continue;
+      }
+
+      const offered = await this.holdBeds(entry, beds);
+      if (!offered) {
+        continue;
+      }
+
+      const heldIds = beds.map(bed => bed.id);
+      freeBeds = freeBeds.filter(bed => !heldIds.includes(bed.id));
+      offers++;
+
+      if (freeBeds.length === 0) {
+        break;
+      }
+    }
+
+    return offers;
+  }
+
+  /**
+   * Expire holds that were not accepted in time and release their beds.
+   * Each entry is claimed with a conditional update so only one instance
+   * processes it.
+   */
+  async expireHolds(): Promise<number> {
+    const now = new Date();
+    const overdue = await this.waitlistRepository.find({
+      where: { status: WaitlistStatus.OFFERED, holdExpiresAt: LessThanOrEqual(now) }
+    });
+
+    const hostelIds = new Set<string>();
+    let expired = 0;
+
+    for (const entry of overdue) {
+      const claimed = await this.dataSource.transaction(async manager => {
+        const result = await manager.update(WaitlistEntry,
+          { id: entry.id, status: WaitlistStatus.OFFERED, holdExpiresAt: LessThanOrEqual(now) },
+          { status: WaitlistStatus.EXPIRED }
+        );
+        if (!result.affected) {
+          return false;
+        }
+
+        await this.notifyParty({ ...entry, status: WaitlistStatus.EXPIRED }, NotificationTemplateKey.WAITLIST_HOLD_EXPIRED, {}, {}, manager);
+        return true;
+      });
+      if (!claimed) {
+        continue;
+      }
+
+      await this.releaseBeds(entry.offeredBedIds || []);
+      hostelIds.add(entry.hostelId);
+      expired++;
+
+      this.logger.log(`⌛ Waitlist hold for ${entry.contactName} expired`);
+    }
+
+    for (const hostelId of hostelIds) {
+      await this.processQueue(hostelId);
+    }
+
+    return expired;
+  }
+
+  private async acceptOffer(entry: WaitlistEntry) {
+    if (entry.status !== WaitlistStatus.OFFERED) {
+      throw new BadRequestException(`There is no open offer on this waitlist entry (status: ${entry.status})`);
+    }
+    if (entry.holdExpiresAt && entry.holdExpiresAt <= new Date()) {
+      throw new BadRequestException('The offer has expired');
+    }
+
+    const claimed = await this.waitlistRepository.update(
+      { id: entry.id, status: WaitlistStatus.OFFERED },
+      { status: WaitlistStatus.ACCEPTED, acceptedAt: new Date(), holdExpiresAt: null }
+    );
+    if (!claimed.affected) {
+      throw new BadRequestException('The offer is no longer open');
+    }
+
+    // Beds stay RESERVED for the party until staff check them in
+    await this.bedRepository.update(
+      { id: In(entry.offeredBedIds), status: BedStatus.RESERVED },
+      { notes: `Reserved for ${entry.contactName} (${entry.contactPhone}) from the waitlist` }
+    );
+
+    this.logger.log(`✅ ${entry.contactName} accepted waitlist offer for ${entry.offeredBedIds.length} bed(s)`);
+
+    return this.transformToApiResponse(await this.waitlistRepository.findOne({ where: { id: entry.id } }));
+  }
+
+  private async cancelEntry(entry: WaitlistEntry, reason: string) {
+    if (!ACTIVE_STATUSES.includes(entry.status)) {
+      throw new BadRequestException(`Waitlist entry is already ${entry.status}`);
+    }
+
+    const claimed = await this.waitlistRepository.update(
+      { id: entry.id, status: entry.status },
+      { status: WaitlistStatus.CANCELLED, cancelledAt: new Date(), cancellationReason: reason, holdExpiresAt: null }
+    );
+    if (!claimed.affected) {
+      throw new BadRequestException('Waitlist entry was changed, please reload');
+    }
+
+    if (entry.status === WaitlistStatus.OFFERED) {
+      await this.releaseBeds(entry.offeredBedIds || []);
+      await this.processQueue(entry.hostelId);
+    }
+
+    return this.transformToApiResponse(await this.waitlistRepository.findOne({ where: { id: entry.id } }));
+  }
+
+  /**
+   * Put the beds on hold for the party and queue their offer. Beds and entry
+   * are locked so a booking or another instance cannot take them at the same moment.
+   */
+  private async holdBeds(entry: WaitlistEntry, beds: Bed[]): Promise<WaitlistEntry | null> {
+    const bedIds = beds.map(bed => bed.id);
+    const holdExpiresAt = new Date(Date.now() + this.holdHours * 60 * 60 * 1000);
+
+    const offered = await this.dataSource.transaction(async manager => {
+      const current = await manager.findOne(WaitlistEntry, {
+        where: { id: entry.id },
+        lock: { mode: 'pessimistic_write' }
+      });
+      if (!current || current.status !== WaitlistStatus.WAITING) {
+        return null;
+      }
+
+      const lockedBeds = await manager.find(Bed, {
+        where: { id: In(bedIds) },
+        lock: { mode: 'pessimistic_write' }
+      });
+      if (lockedBeds.length !== bedIds.length || lockedBeds.some(bed => bed.status !== BedStatus.AVAILABLE)) {
+        return null;
+      }
+
+      await manager.update(Bed, { id: In(bedIds) }, {
+        status: BedStatus.RESERVED,
+        notes: `Held for waitlist guest ${entry.contactName} until ${holdExpiresAt.toISOString()}`
+      });
+      lockedBeds.forEach(bed => this.domainEventsService.publishBedStatus({ ...bed, status: BedStatus.RESERVED }, manager));
+
+      current.status = WaitlistStatus.OFFERED;
+      current.offeredBedIds = bedIds;
+      current.offeredAt = new Date();
+      current.holdExpiresAt = holdExpiresAt;
+      const saved = await manager.save(current);
+
+      await this.notifyParty(saved, NotificationTemplateKey.WAITLIST_BEDS_OFFERED, {
+        bedCount: beds.length,
+        beds: beds.map(bed => bed.bedIdentifier).join(', '),
+        holdExpiresAt: holdExpiresAt.toLocaleString()
+      }, { bedIds, holdExpiresAt }, manager);
+      return saved;
+    });
+
+    if (offered) {
+      await this.syncRooms(beds);
+      this.logger.log(`🛏️ Held ${bedIds.length} bed(s) for waitlisted ${entry.contactName} until ${holdExpiresAt.toISOString()}`);
+    }
+
+    return offered;
+  }
+
+  private async releaseBeds(bedIds: string[]): Promise<void> {
+    if (bedIds.length === 0) {
+      return;
+    }
+
+    const reserved = await this.bedRepository.find({ where: { id: In(bedIds), status: BedStatus.RESERVED } });
+    await this.bedRepository.update(
+      { id: In(bedIds), status: BedStatus.RESERVED },
+      { status: BedStatus.AVAILABLE, notes: null }
+    );
+    reserved.forEach(bed => this.domainEventsService.publishBedStatus({ ...bed, status: BedStatus.AVAILABLE }));
+    await this.syncRooms(reserved);
+  }
+
+  // Keep each room's occupancy in line with its beds, as other bed changes do
+  private async syncRooms(beds: Bed[]): Promise<void> {
+    for (const roomId of new Set(beds.map(bed => bed.roomId))) {
+      await this.bedSyncService.updateRoomOccupancyFromBeds(roomId);
+    }
+  }
+
+  private async notifyParty(
+    entry: WaitlistEntry,
+    template: NotificationTemplateKey,
+    variables: Record<string, string | number>,
+    metadata: Record<string, any>,
+    manager: EntityManager
+  ) {
+    if (!entry.userId) {
+      return;
+    }
+
+    const hostel = await this.hostelRepository.findOne({ where: { id: entry.hostelId } });
+    await this.unifiedNotificationService.sendTemplateToUser({
+      userId: entry.userId,
+      hostelId: entry.hostelId,
+      template,
+      variables,
+      metadata: {
+        source: 'waitlist',
+        waitlistEntryId: entry.id,
+        status: entry.status,
+        ...metadata
+      }
+    }, undefined, { hostelId: entry.hostelId, hostelName: hostel?.name }, manager);
+  }
+
+  private buildEntry(dto: CreateWaitlistEntryDto): Partial<WaitlistEntry> {
+    return {
+      contactName: dto.contactName,
+      contactPhone: dto.contactPhone,
+      contactEmail: dto.contactEmail,
+      gender: dto.gender || 'Any',
+      roomTypeId: dto.roomTypeId,
+      desiredCheckInDate: new Date(dto.desiredCheckInDate),
+      guestCount: dto.guestCount || 1,
+      notes: dto.notes,
+      status: WaitlistStatus.WAITING
+    };
+  }
+
+  /**
+   * 1-based queue position of every waiting entry in the hostel
+   */
+  private async getQueuePositions(hostelId: string): Promise<Map<string, number>> {
+    const waiting = await this.waitlistRepository.find({
+      select: ['id'],
+      where: { hostelId, status: WaitlistStatus.WAITING },
+      order: { createdAt: 'ASC' }
+    });
+
+    return new Map(waiting.map((entry, index) => [entry.id, index + 1]));
+  }
+
+  private getOfferCutoff(): Date {
+    const cutoff = new Date();
+    cutoff.setHours(0, 0, 0, 0);
+    cutoff.setDate(cutoff.getDate() + this.offerWindowDays);
+    return cutoff;
+  }
+
+  private async findEntry(id: string, hostelId: string): Promise<WaitlistEntry> {
+    if (!hostelId) {
+      throw new BadRequestException('Hostel context required');
+    }
+
+    const entry = await this.waitlistRepository.findOne({ where: { id, hostelId } });
+    if (!entry) {
+      throw new NotFoundException(`Waitlist entry with ID ${id} not found`);
+    }
+    return entry;
+  }
+
+  private async findUserEntry(id: string, userId: string): Promise<WaitlistEntry> {
+    const entry = await this.waitlistRepository.findOne({ where: { id, userId } });
+    if (!entry) {
+      throw new NotFoundException(`Waitlist entry with ID ${id} not found`);
+    }
+    return entry;
+  }
+
+  private transformToApiResponse(entry: WaitlistEntry, position?: number) {
+    return {
+      id: entry.id,
+      hostelId: entry.hostelId,
+      userId: entry.userId,
+      contactName: entry.contactName,
+      contactPhone: entry.contactPhone,
+      contactEmail: entry.contactEmail,
+      gender: entry.gender,
+      roomTypeId: entry.roomTypeId,
+      desiredCheckInDate: entry.desiredCheckInDate,
+      guestCount: entry.guestCount,
+      status: entry.status,
+      position: position ?? null,
+      offeredBedIds: entry.offeredBedIds || [],
+      offeredAt: entry.offeredAt,
+      holdExpiresAt: entry.holdExpiresAt,
+      acceptedAt: entry.acceptedAt,
+      cancelledAt: entry.cancelledAt,
+      cancellationReason: entry.cancellationReason,
+      source: entry.source,
+      notes: entry.notes,
+      createdAt: entry.createdAt,
+      updatedAt: entry.updatedAt
+    };
+  }
+}
+
+/**
+ * Pick beds for a party from the free beds (in room/bed order): beds must suit
+ * the party's gender and room type, and a room that fits everyone wins over
+ * splitting the party. Returns null when there are not enough beds.
+ */
+export function selectBedsForEntry(
+  entry: Pick<WaitlistEntry, 'gender' | 'roomTypeId' | 'guestCount'>,
+  freeBeds: Bed[]
+): Bed[] | null {
+  const guestCount = entry.guestCount || 1;
+
+  const suitable = freeBeds.filter(bed =>
+    (!entry.gender || entry.gender === 'Any' || !bed.gender || bed.gender === 'Any' || bed.gender === entry.gender) &&
+    (!entry.roomTypeId || bed.room?.roomTypeId === entry.roomTypeId)
+  );
+
+  if (suitable.length < guestCount) {
+    return null;
+  }
+
+  const byRoom = new Map<string, Bed[]>();
+  for (const bed of suitable) {
+    byRoom.set(bed.roomId, [...(byRoom.get(bed.roomId) || []), bed]);
+  }
+
+  const sameRoom = Array.from(byRoom.values()).find(beds => beds.length >= guestCount);
+  return (sameRoom || suitable).slice(0, guestCount);
+}
@@ -0,0 +1,162 @@
+import { Controller, Get, Post, Body, Param, Query, HttpStatus, UseGuards } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
+import { WaitlistService } from './services/waitlist.service';
+import { CreateWaitlistEntryDto, JoinWaitlistDto, WaitlistFilterDto, CancelWaitlistEntryDto } from './dto';
+import { WaitlistEntry } from './entities/waitlist-entry.entity';
+import { GetHostelId } from '../hostel/decorators/hostel-context.decorator';
+import { HostelAuthWithContextGuard } from '../auth/guards/hostel-auth-with-context.guard';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { JwtPayload } from '../auth/interfaces/jwt-payload.interface';
+import { RolesGuard } from '../staff-roles/guards/roles.guard';
+import { Permissions } from '../staff-roles/decorators/permissions.decorator';
+import { Permission } from '../staff-roles/permissions';
+import { Audited } from '../audit/decorators/audited.decorator';
+
+@ApiTags('waitlist')
+@Controller('waitlist')
+@Audited({ entity: WaitlistEntry })
+@ApiBearerAuth()
+export class WaitlistController {
+  constructor(private readonly waitlistService: WaitlistService) { }
+
+  // Guest endpoints (must come before parameterized routes)
+  @Post('join')
+  @UseGuards(JwtAuthGuard)
+  @ApiOperation({ summary: 'Join a hostel waitlist when no bed is available (Authenticated)' })
+  @ApiResponse({ status: 201, description: 'Added to the waitlist; beds are offered as soon as they free up' })
+  @ApiResponse({ status: 400, description: 'Hostel not found or already on its waitlist' })
+  async joinWaitlist(@Body() joinDto: JoinWaitlistDto, @CurrentUser() user: JwtPayload) {
+    const entry = await this.waitlistService.join(joinDto, user.id);
+
+    return {
+      status: HttpStatus.CREATED,
+      data: entry
+    };
+  }
+
+  @Get('my-entries')
+  @UseGuards(JwtAuthGuard)
+  @ApiOperation({ summary: 'Get the current user\'s waitlist entries and offers (Authenticated)' })
+  @ApiResponse({ status: 200, description: 'Waitlist entries retrieved successfully' })
+  async getMyEntries(@CurrentUser() user: JwtPayload) {
+    const entries = await this.waitlistService.getUserEntries(user.id);
+
+    return {
+      status: HttpStatus.OK,
+      data: entries
+    };
+  }
+
+  @Post('my-entries/:id/accept')
+  @UseGuards(JwtAuthGuard)
+  @ApiOperation({ summary: 'Accept the beds held for the current user (Authenticated)' })
+  @ApiResponse({ status: 200, description: 'Offer accepted; the beds stay reserved for the party' })
+  @ApiResponse({ status: 400, description: 'No open offer or the hold has expired' })
+  async acceptMyOffer(@Param('id') id: string, @CurrentUser() user: JwtPayload) {
+    const entry = await this.waitlistService.acceptForUser(id, user.id);
+
+    return {
+      status: HttpStatus.OK,
+      data: entry
+    };
+  }
+
+  @Post('my-entries/:id/cancel')
+  @UseGuards(JwtAuthGuard)
+  @ApiOperation({ summary: 'Leave the waitlist or decline an offer (Authenticated)' })
+  @ApiResponse({ status: 200, description: 'Waitlist entry cancelled; held beds go to the next party' })
+  async cancelMyEntry(
+    @Param('id') id: string,
+    @Body() cancelDto: CancelWaitlistEntryDto,
+    @CurrentUser() user: JwtPayload
+  ) {
+    const entry = await this.waitlistService.cancelForUser(id, user.id, cancelDto.reason);
+
+    return {
+      status: HttpStatus.OK,
+      data: entry
+    };
+  }
+
+  // Admin endpoints
+  @Post()
+  @UseGuards(HostelAuthWithContextGuard, RolesGuard)
+  @Permissions(Permission.WAITLIST_MANAGE)
+  @ApiOperation({ summary: 'Add a party to the waitlist' })
+  @ApiResponse({ status: 201, description: 'Added to the waitlist; free matching beds are held straight away' })
+  async createEntry(
+    @GetHostelId() hostelId: string,
+    @Body() createDto: CreateWaitlistEntryDto,
+    @CurrentUser() user: JwtPayload
+  ) {
+    const entry = await this.waitlistService.create(hostelId, createDto, user?.id);
+
+    return {
+      status: HttpStatus.CREATED,
+      data: entry
+    };
+  }
+
+  @Get()
+  @UseGuards(HostelAuthWithContextGuard, RolesGuard)
+  @Permissions(Permission.WAITLIST_MANAGE)
+  @ApiOperation({ summary: 'Get the waitlist in queue order' })
+  @ApiResponse({ status: 200, description: 'Waitlist retrieved successfully' })
+  async getWaitlist(@GetHostelId() hostelId: string, @Query() filters: WaitlistFilterDto) {
+    const entries = await this.waitlistService.findAll(hostelId, filters);
+
+    return {
+      status: HttpStatus.OK,
+      data: entries
+    };
+  }
+
+  @Get(':id')
+  @UseGuards(HostelAuthWithContextGuard, RolesGuard)
+  @Permissions(Permission.WAITLIST_MANAGE)
+  @ApiOperation({ summary: 'Get a waitlist entry' })
+  @ApiResponse({ status: 200, description: 'Waitlist entry retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Waitlist entry not found' })
+  async getEntry(@Param('id') id: string, @GetHostelId() hostelId: string) {
+    const entry = await this.waitlistService.findOne(id, hostelId);
+
+    return {
+      status: HttpStatus.OK,
+      data: entry
+    };
+  }
+
+  @Post(':id/accept')
+  @UseGuards(HostelAuthWithContextGuard, RolesGuard)
+  @Permissions(Permission.WAITLIST_MANAGE)
+  @ApiOperation({ summary: 'Accept an offer on behalf of the party (e.g. confirmed by phone)' })
+  @ApiResponse({ status: 200, description: 'Offer accepted; the beds stay reserved for the party' })
+  @ApiResponse({ status: 400, description: 'No open offer or the hold has expired' })
+  async acceptOffer(@Param('id') id: string, @GetHostelId() hostelId: string) {
+    const entry = await this.waitlistService.accept(id, hostelId);
+
+    return {
+      status: HttpStatus.OK,
+      data: entry
+    };
+  }
+
+  @Post(':id/cancel')
+  @UseGuards(HostelAuthWithContextGuard, RolesGuard)
+  @Permissions(Permission.WAITLIST_MANAGE)
+  @ApiOperation({ summary: 'Remove a party from the waitlist' })
+  @ApiResponse({ status: 200, description: 'Waitlist entry cancelled; held beds go to the next party' })
+  async cancelEntry(
+    @Param('id') id: string,
+    @GetHostelId() hostelId: string,
+    @Body() cancelDto: CancelWaitlistEntryDto
+  ) {
+    const entry = await this.waitlistService.cancel(id, hostelId, cancelDto.reason);
+
+    return {
+      status: HttpStatus.OK,
+      data: entry
+    };
+  }
+}
@@ -0,0 +1,30 @@
+import { Module, forwardRef } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { WaitlistController } from './waitlist.controller';
+import { WaitlistService } from './services/waitlist.service';
+import { WaitlistEntry } from './entities/waitlist-entry.entity';
+import { Bed } from '../rooms/entities/bed.entity';
+import { Hostel } from '../hostel/entities/hostel.entity';
+import { AuthModule } from '../auth/auth.module';
+import { HostelModule } from '../hostel/hostel.module';
+import { NotificationModule } from '../notification/notification.module';
+import { EventsModule } from '../events/events.module';
+import { RoomsModule } from '../rooms/rooms.module';
+import { StaffRolesModule } from '../staff-roles/staff-roles.module';
+
+// RoomsModule offers freed beds to the waitlist and the waitlist syncs room occupancy back
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([WaitlistEntry, Bed, Hostel]),
+    AuthModule,
+    HostelModule,
+    NotificationModule,
+    EventsModule,
+    StaffRolesModule,
+    forwardRef(() => RoomsModule),
+  ],
+  controllers: [WaitlistController],
+  providers: [WaitlistService],
+  exports: [WaitlistService],
+})
+export class WaitlistModule {}